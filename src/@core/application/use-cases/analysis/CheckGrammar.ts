@@ -9,6 +9,18 @@ import type {
     ILanguageToolService,
     LanguageToolResponse,
 } from "../../../domain/services/ILanguageToolService";
+import {
+    filterGrammarMatches,
+    type GrammarExceptions,
+} from "../../utils/grammarDictionary";
+
+export interface CheckGrammarRequest extends GrammarCheckRequest {
+    /**
+     * Project and user dictionary words, entity names and disabled rules.
+     * Matches on these are left out of the response.
+     */
+    exceptions?: GrammarExceptions;
+}
 
 export class CheckGrammar {
     constructor(private readonly languageToolService: ILanguageToolService) {}
@@ -16,7 +28,22 @@ export class CheckGrammar {
     /**
      * Check text for grammar and spelling issues
      */
-    async execute(request: GrammarCheckRequest): Promise<LanguageToolResponse> {
-        return this.languageToolService.checkGrammar(request);
+    async execute(request: CheckGrammarRequest): Promise<LanguageToolResponse> {
+        const { exceptions, ...checkRequest } = request;
+        const response =
+            await this.languageToolService.checkGrammar(checkRequest);
+
+        if (!exceptions) {
+            return response;
+        }
+
+        return {
+            ...response,
+            matches: filterGrammarMatches(
+                request.text,
+                response.matches,
+                exceptions,
+            ),
+        };
     }
 }
@@ -0,0 +1,270 @@
+/**
+ * CheckManuscriptGrammar Use Case
+ *
+ * Runs LanguageTool over every chapter and scene of a project, in reading
+ * order, and collects the issues into one report. A run can be cancelled
+ * between requests; the report then holds what was checked so far.
+ */
+
+import type { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import type { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import type {
+    ILanguageToolService,
+    LanguageToolResponse,
+} from "../../../domain/services/ILanguageToolService";
+import {
+    filterGrammarMatches,
+    type GrammarExceptions,
+} from "../../utils/grammarDictionary";
+import { resolveGrammarCheckOptions } from "../../utils/grammarSettings";
+import {
+    chunkGrammarBlocks,
+    locateGrammarMatch,
+    readGrammarBlocks,
+} from "../../utils/grammarText";
+import {
+    flattenManuscriptDocuments,
+    normalizeManuscriptStructure,
+} from "../../utils/manuscriptStructure";
+
+export interface CheckManuscriptGrammarRequest {
+    projectId: string;
+    /** Chosen by the caller so it can cancel the run while it is going. */
+    runId: string;
+    /** The same exceptions the editor checks with. */
+    exceptions?: GrammarExceptions;
+}
+
+/**
+ * One issue, placed the way the editor finds it: the text block's index in
+ * the chapter, and the offset and length inside that block.
+ */
+export type ManuscriptGrammarIssue = {
+    chapterId: string;
+    blockIndex: number;
+    offset: number;
+    length: number;
+    message: string;
+    ruleId: string;
+    ruleDescription: string;
+    categoryId: string;
+    categoryName: string;
+    issueType?: string;
+    replacements: string[];
+    snippet: { before: string; match: string; after: string };
+};
+
+export type ManuscriptGrammarReport = {
+    /** Chapters and scenes checked, in reading order. */
+    chapters: Array<{ id: string; title: string }>;
+    /** Chapters LanguageTool failed on; their issues are unknown. */
+    failedChapters: Array<{ id: string; title: string; error: string }>;
+    issues: ManuscriptGrammarIssue[];
+    totalChapters: number;
+    cancelled: boolean;
+};
+
+export type ManuscriptGrammarProgress = {
+    runId: string;
+    checkedChapters: number;
+    totalChapters: number;
+    /** The chapter being checked; null once the run ends. */
+    chapterTitle: string | null;
+};
+
+// LanguageTool slows down sharply on long requests
+const MAX_CHUNK_LENGTH = 6000;
+const SNIPPET_CONTEXT = 40;
+const MAX_REPLACEMENTS = 5;
+
+export class CheckManuscriptGrammar {
+    private readonly running = new Map<string, AbortController>();
+
+    constructor(
+        private readonly projectRepository: IProjectRepository,
+        private readonly chapterRepository: IChapterRepository,
+        private readonly languageToolService: ILanguageToolService,
+    ) {}
+
+    /** Stops a run after its current request; false if it is not running. */
+    cancel(runId: string): boolean {
+        const controller = this.running.get(runId);
+        controller?.abort();
+        return Boolean(controller);
+    }
+
+    async execute(
+        request: CheckManuscriptGrammarRequest,
+        onProgress?: (progress: ManuscriptGrammarProgress) => void,
+    ): Promise<ManuscriptGrammarReport> {
+        const projectId = request.projectId.trim();
+        const runId = request.runId.trim();
+        if (!projectId) {
+            throw new Error("Project ID is required.");
+        }
+        if (!runId) {
+            throw new Error("Run ID is required.");
+        }
+        if (this.running.has(runId)) {
+            throw new Error("A grammar check with this ID is already running.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        // Registered first, so a run can be stopped while the server starts
+        const controller = new AbortController();
+        this.running.set(runId, controller);
+        try {
+            const chaptersById = new Map(
+                (await this.chapterRepository.findByProjectId(projectId)).map(
+                    (chapter) => [chapter.id, chapter],
+                ),
+            );
+            const ordered = [...chaptersById.values()]
+                .sort((a, b) => a.order - b.order)
+                .map((chapter) => chapter.id);
+            const chapters = flattenManuscriptDocuments(
+                normalizeManuscriptStructure(
+                    project.manuscriptStructure,
+                    ordered,
+                ),
+            ).flatMap((id) => {
+                const chapter = chaptersById.get(id);
+                return chapter ? [chapter] : [];
+            });
+
+            const report: ManuscriptGrammarReport = {
+                chapters: [],
+                failedChapters: [],
+                issues: [],
+                totalChapters: chapters.length,
+                cancelled: false,
+            };
+            const reportProgress = (chapterTitle: string | null) =>
+                onProgress?.({
+                    runId,
+                    checkedChapters:
+                        report.chapters.length + report.failedChapters.length,
+                    totalChapters: chapters.length,
+                    chapterTitle,
+                });
+
+            // The loop stops straight away if the run was cancelled meanwhile
+            await this.languageToolService.waitForReady();
+            if (
+                !controller.signal.aborted &&
+                !this.languageToolService.isUsingLocalServer()
+            ) {
+                throw new Error("The grammar checker is not available.");
+            }
+
+            for (const chapter of chapters) {
+                if (controller.signal.aborted) {
+                    break;
+                }
+                const title = chapter.title.trim() || "Untitled Chapter";
+                reportProgress(title);
+
+                const options = resolveGrammarCheckOptions(
+                    project.grammarSettings,
+                    chapter.id,
+                );
+                const chunks = chunkGrammarBlocks(
+                    readGrammarBlocks(chapter.content),
+                    MAX_CHUNK_LENGTH,
+                );
+                const issues: ManuscriptGrammarIssue[] = [];
+                let failure: string | null = null;
+                for (const chunk of chunks) {
+                    if (controller.signal.aborted) {
+                        break;
+                    }
+                    // A failed request must not pass for a clean chapter
+                    let response: LanguageToolResponse;
+                    try {
+                        response =
+                            await this.languageToolService.checkGrammarStrict({
+                                ...options,
+                                text: chunk.text,
+                            });
+                    } catch (error) {
+                        failure =
+                            (error as Error)?.message ??
+                            "The grammar check failed.";
+                        break;
+                    }
+                    const matches = request.exceptions
+                        ? filterGrammarMatches(
+                              chunk.text,
+                              response.matches,
+                              request.exceptions,
+                          )
+                        : response.matches;
+
+                    for (const match of matches) {
+                        const located = locateGrammarMatch(
+                            chunk,
+                            match.offset,
+                            match.length,
+                        );
+                        if (!located) {
+                            continue;
+                        }
+                        const { text } = located.block;
+                        const end = located.textOffset + located.textLength;
+                        issues.push({
+                            chapterId: chapter.id,
+                            blockIndex: located.block.blockIndex,
+                            offset: located.offset,
+                            length: located.length,
+                            message: match.message,
+                            ruleId: match.rule.id,
+                            ruleDescription: match.rule.description,
+                            categoryId: match.rule.category.id,
+                            categoryName: match.rule.category.name,
+                            issueType: match.rule.issueType,
+                            replacements: match.replacements
+                                .slice(0, MAX_REPLACEMENTS)
+                                .map((replacement) => replacement.value),
+                            snippet: {
+                                before: text.slice(
+                                    Math.max(
+                                        0,
+                                        located.textOffset - SNIPPET_CONTEXT,
+                                    ),
+                                    located.textOffset,
+                                ),
+                                match: text.slice(located.textOffset, end),
+                                after: text.slice(end, end + SNIPPET_CONTEXT),
+                            },
+                        });
+                    }
+                }
+
+                // A chapter cut short would look cleaner than it is
+                if (controller.signal.aborted) {
+                    break;
+                }
+                if (failure !== null) {
+                    report.failedChapters.push({
+                        id: chapter.id,
+                        title,
+                        error: failure,
+                    });
+                    continue;
+                }
+                report.chapters.push({ id: chapter.id, title });
+                report.issues.push(...issues);
+            }
+
+            report.cancelled = controller.signal.aborted;
+            reportProgress(null);
+            return report;
+        } finally {
+            this.running.delete(runId);
+        }
+    }
+}
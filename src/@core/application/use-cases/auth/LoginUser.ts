@@ -75,6 +75,8 @@ export class LoginUser {
             sourcePreferences.editorFontFamily,
             sourcePreferences.defaultImageAiModel,
             resolvedApiKey,
+            sourcePreferences.features,
+            sourcePreferences.dictionary,
         );
 
         return new User(
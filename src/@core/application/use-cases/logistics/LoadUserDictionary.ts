@@ -0,0 +1,18 @@
+import { IUserRepository } from "../../../domain/repositories/IUserRepository";
+
+export interface LoadUserDictionaryRequest {
+    userId: string;
+}
+
+export class LoadUserDictionary {
+    constructor(private readonly userRepository: IUserRepository) {}
+
+    async execute(request: LoadUserDictionaryRequest): Promise<string[]> {
+        if (!request.userId.trim()) {
+            throw new Error("User ID is required.");
+        }
+
+        const user = await this.userRepository.findById(request.userId);
+        return user ? [...user.preferences.dictionary] : [];
+    }
+}
@@ -1,20 +1,116 @@
+import { Chapter } from "../../../domain/entities/story/Chapter";
+import { WritingGoals } from "../../../domain/entities/story/WritingGoals";
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { recordChapterSnapshot } from "../../utils/chapterSnapshots";
+import { chapterSearchDocument } from "../../utils/searchDocuments";
+import { countWords, extractPlainText } from "../../utils/tiptapText";
+import { addWordsWritten } from "../../utils/writingProgress";
 
 export interface SaveChapterContentRequest {
+    projectId: string;
     chapterId: string;
     content: string;
 }
 
+export interface SaveChapterContentResponse {
+    /** The project's goals with today's log updated; null when the word count did not change. */
+    writingGoals: WritingGoals | null;
+}
+
 export class SaveChapterContent {
-    constructor(private readonly chapterRepository: IChapterRepository) {}
+    constructor(
+        private readonly chapterRepository: IChapterRepository,
+        private readonly snapshotRepository: IChapterSnapshotRepository,
+        private readonly projectRepository: IProjectRepository,
+        private readonly searchIndex: ISearchIndexService
+    ) {}
 
-    async execute(request: SaveChapterContentRequest): Promise<void> {
-        const { chapterId, content } = request;
+    async execute(
+        request: SaveChapterContentRequest
+    ): Promise<SaveChapterContentResponse> {
+        const { projectId, chapterId, content } = request;
 
         if (!chapterId.trim()) {
             throw new Error("Chapter ID is required.");
         }
 
+        const chapter = projectId.trim()
+            ? await this.chapterRepository.findById(chapterId)
+            : null;
+        if (chapter && chapter.content !== content) {
+            await this.takeTimedSnapshot(projectId, chapter);
+        }
+
         await this.chapterRepository.updateContent(chapterId, content);
+
+        if (!chapter || chapter.content === content) {
+            return { writingGoals: null };
+        }
+
+        await this.searchIndex.indexDocument(
+            chapterSearchDocument({ ...chapter, content })
+        );
+
+        return {
+            writingGoals: await this.logWordsWritten(
+                projectId,
+                chapter.content,
+                content
+            ),
+        };
+    }
+
+    /**
+     * Keeps the text as it was before this save once the retention interval
+     * has passed since the chapter's last snapshot.
+     */
+    private async takeTimedSnapshot(
+        projectId: string,
+        chapter: Chapter
+    ): Promise<void> {
+        const [retention, latest] = await Promise.all([
+            this.snapshotRepository.getRetention(projectId),
+            this.snapshotRepository.findLatest(projectId, chapter.id),
+        ]);
+        const intervalMs = retention.intervalMinutes * 60 * 1000;
+        if (latest && Date.now() - latest.createdAt.getTime() < intervalMs) {
+            return;
+        }
+
+        await recordChapterSnapshot(
+            this.snapshotRepository,
+            projectId,
+            chapter,
+            "timed",
+            retention
+        );
+    }
+
+    /** Adds the save's net word change to today's entry in the writing log. */
+    private async logWordsWritten(
+        projectId: string,
+        previousContent: string,
+        content: string
+    ): Promise<WritingGoals | null> {
+        const delta =
+            countWords(extractPlainText(content)) -
+            countWords(extractPlainText(previousContent));
+        if (delta === 0) {
+            return null;
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            return null;
+        }
+
+        project.writingGoals = addWordsWritten(project.writingGoals, delta);
+        project.updatedAt = new Date();
+        await this.projectRepository.update(project);
+
+        return project.writingGoals;
     }
 }
@@ -0,0 +1,122 @@
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { ICharacterRepository } from "../../../domain/repositories/ICharacterRepository";
+import {
+    CHAPTER_LABELS,
+    CHAPTER_STATUSES,
+    ChapterLabel,
+    ChapterStatus,
+} from "../../../domain/entities/story/Chapter";
+
+export interface SaveChapterMetadataRequest {
+    chapterId: string;
+    payload: {
+        status?: ChapterStatus;
+        povCharacterId?: string | null;
+        synopsis?: string;
+        labels?: ChapterLabel[];
+        tags?: string[];
+    };
+}
+
+const sameList = (a: string[], b: string[]): boolean =>
+    a.length === b.length && a.every((value, index) => value === b[index]);
+
+export class SaveChapterMetadata {
+    constructor(
+        private readonly chapterRepository: IChapterRepository,
+        private readonly characterRepository: ICharacterRepository,
+    ) {}
+
+    async execute(request: SaveChapterMetadataRequest): Promise<void> {
+        const { chapterId, payload } = request;
+
+        if (!chapterId.trim()) {
+            throw new Error("Chapter ID is required.");
+        }
+
+        const chapter = await this.chapterRepository.findById(chapterId);
+        if (!chapter) {
+            throw new Error("Chapter not found for this project.");
+        }
+
+        let hasChanges = false;
+
+        if (payload.status !== undefined) {
+            if (!CHAPTER_STATUSES.includes(payload.status)) {
+                throw new Error("Unknown chapter status.");
+            }
+            if (chapter.status !== payload.status) {
+                chapter.status = payload.status;
+                hasChanges = true;
+            }
+        }
+
+        if (payload.povCharacterId !== undefined) {
+            const povCharacterId = await this.resolveCharacterId(
+                payload.povCharacterId,
+            );
+            if (chapter.povCharacterId !== povCharacterId) {
+                chapter.povCharacterId = povCharacterId;
+                hasChanges = true;
+            }
+        }
+
+        if (payload.synopsis !== undefined) {
+            const synopsis = payload.synopsis.trim();
+            if (chapter.synopsis !== synopsis) {
+                chapter.synopsis = synopsis;
+                hasChanges = true;
+            }
+        }
+
+        if (payload.labels !== undefined) {
+            if (
+                payload.labels.some((label) => !CHAPTER_LABELS.includes(label))
+            ) {
+                throw new Error("Unknown chapter label.");
+            }
+            // Kept in palette order so the binder shows them consistently
+            const labels = CHAPTER_LABELS.filter((label) =>
+                payload.labels?.includes(label),
+            );
+            if (!sameList(chapter.labels, labels)) {
+                chapter.labels = labels;
+                hasChanges = true;
+            }
+        }
+
+        if (payload.tags !== undefined) {
+            const tags = Array.from(
+                new Set(payload.tags.map((tag) => tag.trim()).filter(Boolean)),
+            );
+            if (!sameList(chapter.tags, tags)) {
+                chapter.tags = tags;
+                hasChanges = true;
+            }
+        }
+
+        if (hasChanges) {
+            chapter.updatedAt = new Date();
+            await this.chapterRepository.update(chapter);
+        }
+    }
+
+    private async resolveCharacterId(
+        characterId: string | null,
+    ): Promise<string | null> {
+        if (characterId === null) {
+            return null;
+        }
+
+        const trimmed = characterId.trim();
+        if (!trimmed) {
+            return null;
+        }
+
+        const character = await this.characterRepository.findById(trimmed);
+        if (!character) {
+            throw new Error("Character not found for this project.");
+        }
+        return trimmed;
+    }
+}
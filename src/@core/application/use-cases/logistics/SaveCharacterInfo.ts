@@ -1,12 +1,16 @@
 import { ICharacterRepository } from "../../../domain/repositories/ICharacterRepository";
 import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
 import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { normalizeAliases, sameAliases } from "../../utils/normalizeAliases";
+import { entitySearchDocument } from "../../utils/searchDocuments";
 
 export interface SaveCharacterInfoRequest {
     characterId: string;
     payload: {
         name?: string;
         description?: string;
+        aliases?: string[];
         currentLocationId?: string | null;
         backgroundLocationId?: string | null;
         organizationId?: string | null;
@@ -18,6 +22,7 @@ export class SaveCharacterInfo {
         private readonly characterRepository: ICharacterRepository,
         private readonly locationRepository: ILocationRepository,
         private readonly organizationRepository: IOrganizationRepository,
+        private readonly searchIndex: ISearchIndexService,
     ) {}
 
     async execute(request: SaveCharacterInfoRequest): Promise<void> {
@@ -48,6 +53,13 @@ export class SaveCharacterInfo {
             character.description = payload.description;
             hasChanges = true;
         }
+        if (payload.aliases !== undefined) {
+            const aliases = normalizeAliases(payload.aliases, character.name);
+            if (!sameAliases(character.aliases, aliases)) {
+                character.aliases = aliases;
+                hasChanges = true;
+            }
+        }
 
         if (payload.currentLocationId !== undefined) {
             const newLocationId = await this.resolveLocationId(
@@ -82,6 +94,9 @@ export class SaveCharacterInfo {
         if (hasChanges) {
             character.updatedAt = new Date();
             await this.characterRepository.update(character);
+            await this.searchIndex.indexDocument(
+                entitySearchDocument("character", character),
+            );
         }
 
         await this.syncLocationCaches(
@@ -1,5 +1,8 @@
 import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { normalizeAliases, sameAliases } from "../../utils/normalizeAliases";
+import { entitySearchDocument } from "../../utils/searchDocuments";
 
 export interface SaveLocationInfoRequest {
     projectId: string;
@@ -7,6 +10,7 @@ export interface SaveLocationInfoRequest {
     payload: {
         name?: string;
         description?: string;
+        aliases?: string[];
         parentLocationId?: string | null;
     };
 }
@@ -15,6 +19,7 @@ export class SaveLocationInfo {
     constructor(
         private readonly locationRepository: ILocationRepository,
         private readonly projectRepository: IProjectRepository,
+        private readonly searchIndex: ISearchIndexService,
     ) {}
 
     async execute(request: SaveLocationInfoRequest): Promise<void> {
@@ -57,6 +62,13 @@ export class SaveLocationInfo {
             location.description = payload.description;
             hasChanges = true;
         }
+        if (payload.aliases !== undefined) {
+            const aliases = normalizeAliases(payload.aliases, location.name);
+            if (!sameAliases(location.aliases, aliases)) {
+                location.aliases = aliases;
+                hasChanges = true;
+            }
+        }
 
         if (payload.parentLocationId !== undefined) {
             const nextParentId = payload.parentLocationId?.trim() || null;
@@ -125,6 +137,9 @@ export class SaveLocationInfo {
         if (hasChanges) {
             location.updatedAt = new Date();
             await this.locationRepository.update(location);
+            await this.searchIndex.indexDocument(
+                entitySearchDocument("location", location),
+            );
         }
     }
 
@@ -1,10 +1,20 @@
 import { Chapter } from "../../../domain/entities/story/Chapter";
+import {
+    ManuscriptNode,
+    ManuscriptNodeType,
+    ManuscriptStructure,
+} from "../../../domain/entities/story/ManuscriptStructure";
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import {
+    applyManuscriptStructure,
+    canContainNode,
+} from "../../utils/manuscriptStructure";
 
 export interface SaveManuscriptStructureRequest {
     projectId: string;
-    orderedChapterIds: string[];
+    /** Parts, chapters and scenes in reading order. */
+    structure: ManuscriptStructure;
 }
 
 export class SaveManuscriptStructure {
@@ -13,8 +23,10 @@ export class SaveManuscriptStructure {
         private readonly chapterRepository: IChapterRepository,
     ) {}
 
-    async execute(request: SaveManuscriptStructureRequest): Promise<void> {
-        const { projectId, orderedChapterIds } = request;
+    async execute(
+        request: SaveManuscriptStructureRequest,
+    ): Promise<ManuscriptStructure> {
+        const { projectId, structure } = request;
 
         if (!projectId.trim()) {
             throw new Error("Project ID is required.");
@@ -31,80 +43,74 @@ export class SaveManuscriptStructure {
             chapters.map((chapter) => [chapter.id, chapter]),
         );
 
-        const normalizedOrder = this.validateChapterOrdering(
-            orderedChapterIds,
-            chapterMap,
+        this.validateStructure(structure, chapterMap);
+
+        return applyManuscriptStructure(
+            this.projectRepository,
+            this.chapterRepository,
+            project,
+            chapters,
+            structure,
         );
+    }
 
-        const now = new Date();
-        let hasChanges = false;
+    /**
+     * Every chapter must appear exactly once, parts only at the top level,
+     * chapters at the top level or in a part, and scenes only in a chapter.
+     */
+    private validateStructure(
+        structure: ManuscriptStructure,
+        chapterMap: Map<string, Chapter>,
+    ): void {
+        const seen = new Set<string>();
+        let documentCount = 0;
+
+        const visit = (
+            nodes: ManuscriptNode[],
+            parentType: ManuscriptNodeType | null,
+        ) => {
+            nodes.forEach((node, index) => {
+                const id = node.id?.trim();
+                if (!id) {
+                    throw new Error(
+                        `Manuscript entry at position ${index} is invalid.`,
+                    );
+                }
 
-        await Promise.all(
-            normalizedOrder.map(async (chapterId, index) => {
-                const chapter = chapterMap.get(chapterId);
-                if (!chapter) {
+                if (seen.has(id)) {
                     throw new Error(
-                        "Chapter ordering references an unknown chapter.",
+                        "Duplicate IDs supplied in manuscript structure.",
                     );
                 }
-                if (chapter.order !== index) {
-                    chapter.order = index;
-                    chapter.updatedAt = now;
-                    await this.chapterRepository.update(chapter);
-                    hasChanges = true;
+                seen.add(id);
+
+                if (!canContainNode(parentType, node.type)) {
+                    throw new Error(
+                        parentType
+                            ? `A ${node.type} cannot be placed inside a ${parentType}.`
+                            : `A ${node.type} cannot be placed at the top of the manuscript.`,
+                    );
                 }
-            }),
-        );
 
-        // Check if project structure actually changed
-        const currentProjectOrder = project.chapterIds || [];
-        const isProjectOrderChanged =
-            currentProjectOrder.length !== normalizedOrder.length ||
-            currentProjectOrder.some((id, i) => id !== normalizedOrder[i]);
+                if (node.type !== "part") {
+                    if (!chapterMap.has(id)) {
+                        throw new Error(
+                            "Manuscript structure references an unknown chapter.",
+                        );
+                    }
+                    documentCount += 1;
+                }
 
-        if (hasChanges || isProjectOrderChanged) {
-            project.chapterIds = [...normalizedOrder];
-            project.updatedAt = now;
-            await this.projectRepository.update(project);
-        }
-    }
+                visit(node.children ?? [], node.type);
+            });
+        };
 
-    private validateChapterOrdering(
-        orderedChapterIds: string[],
-        chapterMap: Map<string, Chapter>,
-    ): string[] {
-        if (orderedChapterIds.length !== chapterMap.size) {
+        visit(structure, null);
+
+        if (documentCount !== chapterMap.size) {
             throw new Error(
-                "Ordered chapter list is out of sync with project chapters.",
+                "Manuscript structure is out of sync with project chapters.",
             );
         }
-
-        const normalizedOrder: string[] = [];
-        const seen = new Set<string>();
-
-        orderedChapterIds.forEach((chapterId, index) => {
-            const normalized = chapterId.trim();
-            if (!normalized) {
-                throw new Error(`Chapter ID at position ${index} is invalid.`);
-            }
-
-            if (seen.has(normalized)) {
-                throw new Error(
-                    "Duplicate chapter IDs supplied in ordering payload.",
-                );
-            }
-
-            const chapter = chapterMap.get(normalized);
-            if (!chapter) {
-                throw new Error(
-                    "Chapter ordering references an unknown chapter.",
-                );
-            }
-
-            seen.add(normalized);
-            normalizedOrder.push(normalized);
-        });
-
-        return normalizedOrder;
     }
 }
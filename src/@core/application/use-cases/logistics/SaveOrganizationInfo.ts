@@ -1,11 +1,15 @@
 import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
 import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { normalizeAliases, sameAliases } from "../../utils/normalizeAliases";
+import { entitySearchDocument } from "../../utils/searchDocuments";
 
 export interface SaveOrganizationInfoRequest {
     organizationId: string;
     payload: {
         name?: string;
         description?: string;
+        aliases?: string[];
         locationIds?: string[];
     };
 }
@@ -14,6 +18,7 @@ export class SaveOrganizationInfo {
     constructor(
         private readonly organizationRepository: IOrganizationRepository,
         private readonly locationRepository: ILocationRepository,
+        private readonly searchIndex: ISearchIndexService,
     ) {}
 
     async execute(request: SaveOrganizationInfoRequest): Promise<void> {
@@ -42,6 +47,16 @@ export class SaveOrganizationInfo {
             organization.description = payload.description;
             hasChanges = true;
         }
+        if (payload.aliases !== undefined) {
+            const aliases = normalizeAliases(
+                payload.aliases,
+                organization.name,
+            );
+            if (!sameAliases(organization.aliases, aliases)) {
+                organization.aliases = aliases;
+                hasChanges = true;
+            }
+        }
         const previousLocationIds = [...organization.locationIds];
         let nextLocationIds: string[] | null = null;
 
@@ -61,6 +76,9 @@ export class SaveOrganizationInfo {
         if (hasChanges) {
             organization.updatedAt = new Date();
             await this.organizationRepository.update(organization);
+            await this.searchIndex.indexDocument(
+                entitySearchDocument("organization", organization),
+            );
         }
 
         if (nextLocationIds !== null) {
@@ -0,0 +1,40 @@
+import { IUserRepository } from "../../../domain/repositories/IUserRepository";
+import { IUserSessionStore } from "../../../domain/services/IUserSessionStore";
+import { normalizeDictionaryWords } from "../../utils/grammarDictionary";
+
+export interface SaveUserDictionaryRequest {
+    userId: string;
+    /** Replaces the whole dictionary. */
+    words: string[];
+}
+
+/** The author's own dictionary, accepted in every project. */
+export class SaveUserDictionary {
+    constructor(
+        private readonly userRepository: IUserRepository,
+        private readonly sessionStore: IUserSessionStore,
+    ) {}
+
+    async execute(request: SaveUserDictionaryRequest): Promise<string[]> {
+        if (!request.userId.trim()) {
+            throw new Error("User ID is required.");
+        }
+
+        const user = await this.userRepository.findById(request.userId);
+        if (!user) {
+            throw new Error("User not found.");
+        }
+
+        const words = normalizeDictionaryWords(request.words);
+        user.preferences.dictionary = words;
+        user.updatedAt = new Date();
+        await this.userRepository.update(user);
+
+        const storedUser = await this.sessionStore.load();
+        if (storedUser?.id === user.id) {
+            await this.sessionStore.save(user);
+        }
+
+        return words;
+    }
+}
@@ -38,6 +38,8 @@ export class SaveUserSettings {
             preferences.defaultImageAiModel ??
                 user.preferences.defaultImageAiModel,
             preferences.geminiApiKey ?? user.preferences.geminiApiKey,
+            user.preferences.features,
+            user.preferences.dictionary,
         );
 
         if (
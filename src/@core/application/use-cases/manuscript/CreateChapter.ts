@@ -2,10 +2,25 @@ import { Chapter } from "../../../domain/entities/story/Chapter";
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
 import { generateId } from "../../utils/id";
+import {
+    applyManuscriptStructure,
+    findManuscriptNode,
+    flattenManuscriptDocuments,
+    getDocumentNodeType,
+    getRootIndexForDocument,
+    insertManuscriptNode,
+    normalizeManuscriptStructure,
+} from "../../utils/manuscriptStructure";
 
 export interface CreateChapterRequest {
     projectId: string;
     order: number;
+    /**
+     * Part or chapter to add the new document to, as its last child. Inside
+     * a chapter it becomes a scene. When omitted, a chapter is created at the
+     * top level in front of whatever currently sits at `order`.
+     */
+    parentId?: string | null;
     /**
      * Optional client-generated ID used for optimistic UI flows.
      * When omitted, the use case generates a globally unique ID.
@@ -27,6 +42,7 @@ export class CreateChapter {
         request: CreateChapterRequest
     ): Promise<CreateChapterResponse> {
         const projectId = request.projectId.trim();
+        const parentId = request.parentId?.trim() || null;
 
         if (!projectId) {
             throw new Error("Project ID is required.");
@@ -44,37 +60,63 @@ export class CreateChapter {
         const chapters = (
             await this.chapterRepository.findByProjectId(projectId)
         ).sort((a, b) => a.order - b.order);
+        const structure = normalizeManuscriptStructure(
+            project.manuscriptStructure,
+            chapters.map((chapter) => chapter.id)
+        );
+
+        const parent = parentId
+            ? findManuscriptNode(structure, parentId)?.node
+            : null;
+        if (parentId && !parent) {
+            throw new Error("Part or chapter not found for this project.");
+        }
+        const type = getDocumentNodeType(parent?.type ?? null);
+        if (!type) {
+            throw new Error("Scenes cannot contain other documents.");
+        }
+
         const requestedOrder = Math.floor(request.order);
         const normalizedOrder = Math.max(0, requestedOrder);
-        const insertIndex = Math.min(normalizedOrder, chapters.length);
+        const targetIndex = parent
+            ? parent.children.length
+            : getRootIndexForDocument(structure, normalizedOrder);
 
         const now = new Date();
-        const title = "New Chapter";
+        const title = type === "scene" ? "New Scene" : "New Chapter";
         const id = request.id?.trim() || generateId();
-        const chapter = new Chapter(id, title, insertIndex, "", null, now, now);
-
-        await this.chapterRepository.create(projectId, chapter);
+        const chapter = new Chapter(
+            id,
+            title,
+            0,
+            "",
+            null,
+            "draft",
+            null,
+            "",
+            [],
+            [],
+            now,
+            now
+        );
 
-        chapters.splice(insertIndex, 0, chapter);
+        const nextStructure = insertManuscriptNode(
+            structure,
+            { id, type, children: [] },
+            parentId,
+            targetIndex
+        );
+        chapter.order = flattenManuscriptDocuments(nextStructure).indexOf(id);
 
-        const reindexPromises = chapters
-            .map((existingChapter, index) => ({ existingChapter, index }))
-            .filter(
-                ({ existingChapter, index }) =>
-                    existingChapter.id !== chapter.id &&
-                    existingChapter.order !== index
-            )
-            .map(({ existingChapter, index }) => {
-                existingChapter.order = index;
-                existingChapter.updatedAt = now;
-                return this.chapterRepository.update(existingChapter);
-            });
-
-        await Promise.all(reindexPromises);
+        await this.chapterRepository.create(projectId, chapter);
 
-        project.chapterIds = chapters.map((c) => c.id);
-        project.updatedAt = now;
-        await this.projectRepository.update(project);
+        await applyManuscriptStructure(
+            this.projectRepository,
+            this.chapterRepository,
+            project,
+            [...chapters, chapter],
+            nextStructure
+        );
 
         return { chapter };
     }
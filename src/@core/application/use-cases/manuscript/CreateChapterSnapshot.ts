@@ -0,0 +1,54 @@
+import { ChapterSnapshot } from "../../../domain/entities/story/ChapterSnapshot";
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
+import { recordChapterSnapshot } from "../../utils/chapterSnapshots";
+
+export interface CreateChapterSnapshotRequest {
+    projectId: string;
+    chapterId: string;
+    /** Why the editor asked for a snapshot: before AI edits or a restore. */
+    reason: "ai-edit" | "restore";
+    /**
+     * The editor's current content, which may be ahead of the last autosave.
+     * Defaults to the stored chapter content.
+     */
+    content?: string;
+}
+
+export class CreateChapterSnapshot {
+    constructor(
+        private readonly chapterRepository: IChapterRepository,
+        private readonly snapshotRepository: IChapterSnapshotRepository
+    ) {}
+
+    async execute(
+        request: CreateChapterSnapshotRequest
+    ): Promise<ChapterSnapshot | null> {
+        const { projectId, chapterId, reason, content } = request;
+
+        if (!projectId.trim() || !chapterId.trim()) {
+            throw new Error("Project ID and Chapter ID are required.");
+        }
+
+        if (reason !== "ai-edit" && reason !== "restore") {
+            throw new Error("Unknown snapshot reason.");
+        }
+
+        const chapter = await this.chapterRepository.findById(chapterId);
+        if (!chapter) {
+            throw new Error(`Chapter ${chapterId} not found.`);
+        }
+        if (content !== undefined) {
+            chapter.content = content;
+        }
+
+        const retention = await this.snapshotRepository.getRetention(projectId);
+        return recordChapterSnapshot(
+            this.snapshotRepository,
+            projectId,
+            chapter,
+            reason,
+            retention
+        );
+    }
+}
@@ -0,0 +1,88 @@
+import { CommentThread } from "../../../domain/entities/story/CommentThread";
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { generateId } from "../../utils/id";
+
+export interface CreateCommentThreadRequest {
+    projectId: string;
+    chapterId: string;
+    /**
+     * Client-generated ID. Inline threads pass the `commentId` of the mark
+     * that highlights their passage.
+     */
+    id?: string;
+    /** The highlighted passage, shown with the thread outside the editor. */
+    excerpt?: string;
+    /** A note on the chapter as a whole rather than on a passage. */
+    isChapterLevel?: boolean;
+    authorName: string;
+    text: string;
+}
+
+export interface CreateCommentThreadResponse {
+    thread: CommentThread;
+}
+
+export class CreateCommentThread {
+    constructor(
+        private readonly commentThreadRepository: ICommentThreadRepository,
+        private readonly chapterRepository: IChapterRepository,
+        private readonly projectRepository: IProjectRepository
+    ) {}
+
+    async execute(
+        request: CreateCommentThreadRequest
+    ): Promise<CreateCommentThreadResponse> {
+        const { projectId, chapterId } = request;
+        const text = request.text.trim();
+
+        if (!projectId.trim() || !chapterId.trim()) {
+            throw new Error("Project ID and Chapter ID are required.");
+        }
+
+        if (!text) {
+            throw new Error("Comment text is required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        const chapter = await this.chapterRepository.findById(chapterId);
+        if (!chapter || !project.chapterIds.includes(chapterId)) {
+            throw new Error("Chapter not found for this project.");
+        }
+
+        const id = request.id?.trim() || generateId();
+        if (await this.commentThreadRepository.findById(id)) {
+            throw new Error("A comment thread with this ID already exists.");
+        }
+
+        const now = new Date();
+        const thread = new CommentThread(
+            id,
+            projectId,
+            chapterId,
+            request.excerpt?.trim() ?? "",
+            request.isChapterLevel ?? false,
+            false,
+            [
+                {
+                    id: generateId(),
+                    authorName: request.authorName.trim(),
+                    text,
+                    createdAt: now,
+                    updatedAt: now,
+                },
+            ],
+            now,
+            now
+        );
+
+        await this.commentThreadRepository.create(thread);
+
+        return { thread };
+    }
+}
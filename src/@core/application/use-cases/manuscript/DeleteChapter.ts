@@ -1,5 +1,9 @@
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { applyManuscriptStructure } from "../../utils/manuscriptStructure";
 
 export interface DeleteChapterRequest {
     projectId: string;
@@ -9,7 +13,10 @@ export interface DeleteChapterRequest {
 export class DeleteChapter {
     constructor(
         private readonly chapterRepository: IChapterRepository,
-        private readonly projectRepository: IProjectRepository
+        private readonly projectRepository: IProjectRepository,
+        private readonly snapshotRepository: IChapterSnapshotRepository,
+        private readonly commentThreadRepository: ICommentThreadRepository,
+        private readonly searchIndex: ISearchIndexService
     ) {}
 
     async execute(request: DeleteChapterRequest): Promise<void> {
@@ -29,34 +36,30 @@ export class DeleteChapter {
             throw new Error("Chapter not found for this project.");
         }
 
-        // 1. Detach from Project (Parent)
-        project.chapterIds = project.chapterIds.filter(
-            (id) => id !== chapterId
+        // 1. Detach from Project (Parent) and close the gap in the structure.
+        // A deleted chapter's scenes move up to take its place.
+        const remaining = (
+            await this.chapterRepository.findByProjectId(projectId)
+        )
+            .filter((c) => c.id !== chapterId)
+            .sort((a, b) => a.order - b.order);
+        await applyManuscriptStructure(
+            this.projectRepository,
+            this.chapterRepository,
+            project,
+            remaining,
+            project.manuscriptStructure ?? []
         );
-        project.updatedAt = new Date();
-        await this.projectRepository.update(project);
-
-        // 2. Reorder Siblings
-        // We fetch all chapters, filter out the one we are deleting (in case it's still there),
-        // and then update the order of the ones that came after it.
-        const allChapters =
-            await this.chapterRepository.findByProjectId(projectId);
-        const affected = allChapters.filter(
-            (c) => c.id !== chapterId && c.order > chapter.order
-        );
-
-        if (affected.length) {
-            const now = new Date();
-            await Promise.all(
-                affected.map((remaining) => {
-                    remaining.order -= 1;
-                    remaining.updatedAt = now;
-                    return this.chapterRepository.update(remaining);
-                })
-            );
-        }
 
-        // 3. Delete Chapter (Self)
+        // 2. Delete Chapter (Self), its version history and its comments
         await this.chapterRepository.delete(chapterId);
+        await this.snapshotRepository.deleteByChapterId(projectId, chapterId);
+        const threads = (
+            await this.commentThreadRepository.findByProjectId(projectId)
+        ).filter((thread) => thread.chapterId === chapterId);
+        for (const thread of threads) {
+            await this.commentThreadRepository.delete(thread.id);
+        }
+        await this.searchIndex.removeDocument(chapterId);
     }
 }
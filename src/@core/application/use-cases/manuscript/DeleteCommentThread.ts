@@ -0,0 +1,21 @@
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+
+export interface DeleteCommentThreadRequest {
+    threadId: string;
+}
+
+export class DeleteCommentThread {
+    constructor(
+        private readonly commentThreadRepository: ICommentThreadRepository
+    ) {}
+
+    async execute(request: DeleteCommentThreadRequest): Promise<void> {
+        const threadId = request.threadId.trim();
+
+        if (!threadId) {
+            throw new Error("Comment thread ID is required.");
+        }
+
+        await this.commentThreadRepository.delete(threadId);
+    }
+}
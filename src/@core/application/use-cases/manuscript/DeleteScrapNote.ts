@@ -1,5 +1,6 @@
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
 import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
 
 export interface DeleteScrapNoteRequest {
     projectId: string;
@@ -9,7 +10,8 @@ export interface DeleteScrapNoteRequest {
 export class DeleteScrapNote {
     constructor(
         private readonly scrapNoteRepository: IScrapNoteRepository,
-        private readonly projectRepository: IProjectRepository
+        private readonly projectRepository: IProjectRepository,
+        private readonly searchIndex: ISearchIndexService
     ) {}
 
     async execute(request: DeleteScrapNoteRequest): Promise<void> {
@@ -40,5 +42,6 @@ export class DeleteScrapNote {
 
         // 2. Delete Scrap Note (Self)
         await this.scrapNoteRepository.delete(scrapNoteId);
+        await this.searchIndex.removeDocument(scrapNoteId);
     }
 }
@@ -0,0 +1,52 @@
+import { CommentThread } from "../../../domain/entities/story/CommentThread";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+
+export interface EditCommentMessageRequest {
+    threadId: string;
+    messageId: string;
+    text: string;
+}
+
+export interface EditCommentMessageResponse {
+    thread: CommentThread;
+}
+
+export class EditCommentMessage {
+    constructor(
+        private readonly commentThreadRepository: ICommentThreadRepository
+    ) {}
+
+    async execute(
+        request: EditCommentMessageRequest
+    ): Promise<EditCommentMessageResponse> {
+        const { threadId, messageId } = request;
+        const text = request.text.trim();
+
+        if (!threadId.trim() || !messageId.trim()) {
+            throw new Error("Comment thread ID and message ID are required.");
+        }
+
+        if (!text) {
+            throw new Error("Comment text is required.");
+        }
+
+        const thread = await this.commentThreadRepository.findById(threadId);
+        if (!thread) {
+            throw new Error("Comment thread not found.");
+        }
+
+        const message = thread.messages.find((m) => m.id === messageId);
+        if (!message) {
+            throw new Error("Comment not found in this thread.");
+        }
+
+        const now = new Date();
+        message.text = text;
+        message.updatedAt = now;
+        thread.updatedAt = now;
+
+        await this.commentThreadRepository.update(thread);
+
+        return { thread };
+    }
+}
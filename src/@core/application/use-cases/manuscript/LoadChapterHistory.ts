@@ -0,0 +1,37 @@
+import { ChapterHistoryRetention } from "../../../domain/entities/story/ChapterHistoryRetention";
+import { ChapterSnapshot } from "../../../domain/entities/story/ChapterSnapshot";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
+
+export interface LoadChapterHistoryRequest {
+    projectId: string;
+    chapterId: string;
+}
+
+export interface LoadChapterHistoryResponse {
+    /** Newest first. */
+    snapshots: ChapterSnapshot[];
+    retention: ChapterHistoryRetention;
+}
+
+export class LoadChapterHistory {
+    constructor(
+        private readonly snapshotRepository: IChapterSnapshotRepository
+    ) {}
+
+    async execute(
+        request: LoadChapterHistoryRequest
+    ): Promise<LoadChapterHistoryResponse> {
+        const { projectId, chapterId } = request;
+
+        if (!projectId.trim() || !chapterId.trim()) {
+            throw new Error("Project ID and Chapter ID are required.");
+        }
+
+        const [snapshots, retention] = await Promise.all([
+            this.snapshotRepository.findByChapterId(projectId, chapterId),
+            this.snapshotRepository.getRetention(projectId),
+        ]);
+
+        return { snapshots, retention };
+    }
+}
@@ -0,0 +1,255 @@
+import { Chapter } from "../../../domain/entities/story/Chapter";
+import { CommentThread } from "../../../domain/entities/story/CommentThread";
+import { ManuscriptStructure } from "../../../domain/entities/story/ManuscriptStructure";
+import { ScrapNote } from "../../../domain/entities/story/ScrapNote";
+import { Event } from "../../../domain/entities/story/timeline/Event";
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+import { IEventRepository } from "../../../domain/repositories/IEventRepository";
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
+import {
+    joinChapterContents,
+    retargetChapterReferences,
+} from "../../utils/chapterContent";
+import {
+    pruneChapterSnapshots,
+    recordChapterSnapshot,
+} from "../../utils/chapterSnapshots";
+import {
+    applyManuscriptStructure,
+    findManuscriptNode,
+    normalizeManuscriptStructure,
+    removeManuscriptNode,
+} from "../../utils/manuscriptStructure";
+import { chapterSearchDocument } from "../../utils/searchDocuments";
+
+export interface MergeChaptersRequest {
+    projectId: string;
+    /** The chapter to keep; the one right after it is merged into it. */
+    chapterId: string;
+    /**
+     * The chapter expected to come next. When given, the merge only goes
+     * ahead if the manuscript has not been rearranged in the meantime.
+     */
+    nextChapterId?: string;
+    /**
+     * The merged content. By default the two stored documents are joined end
+     * to end; undoing a split passes the chapter's text from before it.
+     */
+    content?: string;
+}
+
+export interface MergeChaptersResponse {
+    chapter: Chapter;
+    /** The merged-in chapter as it was before it was removed. */
+    removedChapter: Chapter;
+    /** Events that were linked to the removed chapter and now link here. */
+    events: Event[];
+    /** Documents whose references to the removed chapter now point here. */
+    retargetedChapters: Chapter[];
+    retargetedScrapNotes: ScrapNote[];
+    /** The removed chapter's comment threads, now on the merged chapter. */
+    commentThreads: CommentThread[];
+    structure: ManuscriptStructure;
+}
+
+export class MergeChapters {
+    constructor(
+        private readonly chapterRepository: IChapterRepository,
+        private readonly projectRepository: IProjectRepository,
+        private readonly snapshotRepository: IChapterSnapshotRepository,
+        private readonly eventRepository: IEventRepository,
+        private readonly scrapNoteRepository: IScrapNoteRepository,
+        private readonly commentThreadRepository: ICommentThreadRepository,
+        private readonly searchIndex: ISearchIndexService
+    ) {}
+
+    async execute(
+        request: MergeChaptersRequest
+    ): Promise<MergeChaptersResponse> {
+        const { projectId, chapterId } = request;
+
+        if (!projectId.trim() || !chapterId.trim()) {
+            throw new Error("Project ID and Chapter ID are required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        const chapters = (
+            await this.chapterRepository.findByProjectId(projectId)
+        ).sort((a, b) => a.order - b.order);
+        const chapter = chapters.find((c) => c.id === chapterId);
+        if (!chapter || !project.chapterIds.includes(chapterId)) {
+            throw new Error("Chapter not found for this project.");
+        }
+
+        const structure = normalizeManuscriptStructure(
+            project.manuscriptStructure,
+            chapters.map((c) => c.id)
+        );
+        const location = findManuscriptNode(structure, chapterId);
+        if (!location) {
+            throw new Error("Chapter not found in the manuscript.");
+        }
+
+        const siblings = location.parent
+            ? location.parent.children
+            : structure;
+        const nextNode = siblings[location.index + 1];
+        const removedChapter = nextNode
+            ? chapters.find((c) => c.id === nextNode.id)
+            : undefined;
+        if (!nextNode || nextNode.type === "part" || !removedChapter) {
+            throw new Error("There is no next chapter to merge with.");
+        }
+        if (request.nextChapterId && request.nextChapterId !== nextNode.id) {
+            throw new Error(
+                "These chapters are no longer next to each other."
+            );
+        }
+        // The next chapter's text would otherwise jump ahead of these scenes
+        if (location.node.children.length > 0) {
+            throw new Error(
+                "Move this chapter's scenes out before merging the next chapter into it."
+            );
+        }
+
+        // 1. Keep the chapter's own text in its history, then merge
+        const retention = await this.snapshotRepository.getRetention(projectId);
+        await recordChapterSnapshot(
+            this.snapshotRepository,
+            projectId,
+            chapter,
+            "merge",
+            retention
+        );
+
+        const now = new Date();
+        chapter.content =
+            request.content ??
+            joinChapterContents(chapter.content, removedChapter.content);
+        chapter.eventId = chapter.eventId ?? removedChapter.eventId;
+        chapter.updatedAt = now;
+
+        // 2. References to the removed chapter now lead to the merged one
+        const remaining = chapters.filter((c) => c.id !== removedChapter.id);
+        const retargetedChapters: Chapter[] = [];
+        for (const other of remaining) {
+            const content = retargetChapterReferences(
+                other.content,
+                removedChapter.id,
+                chapter.id
+            );
+            if (content === null) {
+                continue;
+            }
+            other.content = content;
+            if (other.id !== chapter.id) {
+                other.updatedAt = now;
+                await this.chapterRepository.updateContent(
+                    other.id,
+                    content,
+                    now
+                );
+                retargetedChapters.push(other);
+            }
+        }
+        await this.chapterRepository.update(chapter);
+
+        const retargetedScrapNotes: ScrapNote[] = [];
+        for (const note of await this.scrapNoteRepository.findByProjectId(
+            projectId
+        )) {
+            const content = retargetChapterReferences(
+                note.content,
+                removedChapter.id,
+                chapter.id
+            );
+            if (content === null) {
+                continue;
+            }
+            note.content = content;
+            note.updatedAt = now;
+            await this.scrapNoteRepository.updateContent(note.id, content, now);
+            retargetedScrapNotes.push(note);
+        }
+
+        // 3. Timeline links follow the text
+        const events: Event[] = [];
+        for (const timelineId of project.timelineIds) {
+            const linked = (
+                await this.eventRepository.findByTimelineId(timelineId)
+            ).filter((event) => event.associatedId === removedChapter.id);
+            for (const event of linked) {
+                event.associatedId = chapter.id;
+                event.updatedAt = now;
+                await this.eventRepository.update(event);
+                events.push(event);
+            }
+        }
+
+        // 4. Comments follow the text they were made on
+        const commentThreads = (
+            await this.commentThreadRepository.findByProjectId(projectId)
+        ).filter((thread) => thread.chapterId === removedChapter.id);
+        for (const thread of commentThreads) {
+            thread.chapterId = chapter.id;
+            thread.updatedAt = now;
+            await this.commentThreadRepository.update(thread);
+        }
+
+        // 5. The removed chapter's scenes stay where they were in reading
+        // order, now under the merged chapter
+        const removed = removeManuscriptNode(structure, removedChapter.id);
+        findManuscriptNode(removed.structure, chapterId)?.node.children.push(
+            ...nextNode.children
+        );
+        const saved = await applyManuscriptStructure(
+            this.projectRepository,
+            this.chapterRepository,
+            project,
+            remaining,
+            removed.structure
+        );
+
+        await this.chapterRepository.delete(removedChapter.id);
+
+        // 6. The removed chapter's history moves along with its text
+        for (const snapshot of await this.snapshotRepository.findByChapterId(
+            projectId,
+            removedChapter.id
+        )) {
+            snapshot.chapterId = chapter.id;
+            await this.snapshotRepository.create(snapshot);
+        }
+        await this.snapshotRepository.deleteByChapterId(
+            projectId,
+            removedChapter.id
+        );
+        await pruneChapterSnapshots(
+            this.snapshotRepository,
+            projectId,
+            chapter.id,
+            retention
+        );
+
+        await this.searchIndex.indexDocument(chapterSearchDocument(chapter));
+        await this.searchIndex.removeDocument(removedChapter.id);
+
+        return {
+            chapter,
+            removedChapter,
+            events,
+            retargetedChapters,
+            retargetedScrapNotes,
+            commentThreads,
+            structure: saved,
+        };
+    }
+}
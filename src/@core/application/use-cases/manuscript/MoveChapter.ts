@@ -1,15 +1,29 @@
 import { Chapter } from "../../../domain/entities/story/Chapter";
+import { ManuscriptStructure } from "../../../domain/entities/story/ManuscriptStructure";
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import {
+    applyManuscriptStructure,
+    moveManuscriptNode,
+    normalizeManuscriptStructure,
+} from "../../utils/manuscriptStructure";
 
 export interface MoveChapterRequest {
     projectId: string;
+    /** A chapter or scene document, or a part. */
     chapterId: string;
+    /**
+     * The part or chapter to move into; null or omitted for the top level.
+     * Documents moved into a chapter become its scenes.
+     */
+    parentId?: string | null;
+    /** Position among the new siblings. */
     targetIndex: number;
 }
 
 export interface MoveChapterResponse {
     chapters: Chapter[];
+    structure: ManuscriptStructure;
 }
 
 export class MoveChapter {
@@ -20,6 +34,7 @@ export class MoveChapter {
 
     async execute(request: MoveChapterRequest): Promise<MoveChapterResponse> {
         const { projectId, chapterId, targetIndex } = request;
+        const parentId = request.parentId?.trim() || null;
 
         if (!projectId.trim() || !chapterId.trim()) {
             throw new Error("Project ID and Chapter ID are required.");
@@ -38,37 +53,21 @@ export class MoveChapter {
             await this.chapterRepository.findByProjectId(projectId)
         ).sort((a, b) => a.order - b.order);
 
-        const currentIndex = chapters.findIndex(
-            (chapter) => chapter.id === chapterId
+        const current = normalizeManuscriptStructure(
+            project.manuscriptStructure,
+            chapters.map((chapter) => chapter.id)
         );
-        if (currentIndex === -1) {
-            throw new Error("Chapter not found for this project.");
-        }
-
-        if (targetIndex >= chapters.length) {
-            throw new Error("Target index exceeds the number of chapters.");
-        }
-
-        if (currentIndex === targetIndex) {
-            return { chapters };
-        }
-
-        const [chapter] = chapters.splice(currentIndex, 1);
-        chapters.splice(targetIndex, 0, chapter);
-
-        const now = new Date();
-        await Promise.all(
-            chapters.map((updatedChapter, index) => {
-                updatedChapter.order = index;
-                updatedChapter.updatedAt = now;
-                return this.chapterRepository.update(updatedChapter);
-            })
+        const structure = await applyManuscriptStructure(
+            this.projectRepository,
+            this.chapterRepository,
+            project,
+            chapters,
+            moveManuscriptNode(current, chapterId, parentId, targetIndex)
         );
 
-        project.chapterIds = chapters.map((c) => c.id);
-        project.updatedAt = now;
-        await this.projectRepository.update(project);
-
-        return { chapters };
+        return {
+            chapters: chapters.sort((a, b) => a.order - b.order),
+            structure,
+        };
     }
 }
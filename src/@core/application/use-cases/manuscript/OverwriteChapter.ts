@@ -1,4 +1,8 @@
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { recordChapterSnapshot } from "../../utils/chapterSnapshots";
+import { chapterSearchDocument } from "../../utils/searchDocuments";
 
 export interface OverwriteChapterRequest {
     id: string;
@@ -9,16 +13,29 @@ export interface OverwriteChapterRequest {
 }
 
 export class OverwriteChapter {
-    constructor(private readonly chapterRepository: IChapterRepository) {}
+    constructor(
+        private readonly chapterRepository: IChapterRepository,
+        private readonly snapshotRepository: IChapterSnapshotRepository,
+        private readonly searchIndex: ISearchIndexService
+    ) {}
 
     async execute(request: OverwriteChapterRequest): Promise<void> {
-        const { id, title, content, order } = request;
+        const { id, title, content, order, projectId } = request;
 
         const chapter = await this.chapterRepository.findById(id);
         if (!chapter) {
             throw new Error(`Chapter ${id} not found.`);
         }
 
+        // Keep what is about to be replaced
+        await recordChapterSnapshot(
+            this.snapshotRepository,
+            projectId,
+            chapter,
+            "overwrite",
+            await this.snapshotRepository.getRetention(projectId)
+        );
+
         // We overwrite everything with the provided data
         chapter.title = title;
         chapter.content = content;
@@ -26,5 +43,6 @@ export class OverwriteChapter {
         chapter.updatedAt = new Date(); // Bump timestamp so it becomes the new truth
 
         await this.chapterRepository.update(chapter);
+        await this.searchIndex.indexDocument(chapterSearchDocument(chapter));
     }
 }
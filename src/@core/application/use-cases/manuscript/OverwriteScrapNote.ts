@@ -1,4 +1,6 @@
 import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { scrapNoteSearchDocument } from "../../utils/searchDocuments";
 
 export interface OverwriteScrapNoteRequest {
     scrapNoteId: string;
@@ -8,7 +10,10 @@ export interface OverwriteScrapNoteRequest {
 }
 
 export class OverwriteScrapNote {
-    constructor(private readonly scrapNoteRepository: IScrapNoteRepository) {}
+    constructor(
+        private readonly scrapNoteRepository: IScrapNoteRepository,
+        private readonly searchIndex: ISearchIndexService,
+    ) {}
 
     async execute(request: OverwriteScrapNoteRequest): Promise<void> {
         const { scrapNoteId, title, content, isPinned } = request;
@@ -25,5 +30,8 @@ export class OverwriteScrapNote {
         scrapNote.updatedAt = new Date();
 
         await this.scrapNoteRepository.update(scrapNote);
+        await this.searchIndex.indexDocument(
+            scrapNoteSearchDocument(scrapNote),
+        );
     }
 }
@@ -1,4 +1,6 @@
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { chapterSearchDocument } from "../../utils/searchDocuments";
 
 export interface RenameChapterRequest {
     chapterId: string;
@@ -6,7 +8,10 @@ export interface RenameChapterRequest {
 }
 
 export class RenameChapter {
-    constructor(private readonly chapterRepository: IChapterRepository) {}
+    constructor(
+        private readonly chapterRepository: IChapterRepository,
+        private readonly searchIndex: ISearchIndexService,
+    ) {}
 
     async execute(request: RenameChapterRequest): Promise<void> {
         const { chapterId, title } = request;
@@ -31,5 +36,6 @@ export class RenameChapter {
         chapter.title = title;
         chapter.updatedAt = new Date();
         await this.chapterRepository.update(chapter);
+        await this.searchIndex.indexDocument(chapterSearchDocument(chapter));
     }
 }
@@ -0,0 +1,57 @@
+import { CommentThread } from "../../../domain/entities/story/CommentThread";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+import { generateId } from "../../utils/id";
+
+export interface ReplyToCommentThreadRequest {
+    threadId: string;
+    /** Optional client-generated ID used for optimistic UI flows. */
+    id?: string;
+    authorName: string;
+    text: string;
+}
+
+export interface ReplyToCommentThreadResponse {
+    thread: CommentThread;
+}
+
+export class ReplyToCommentThread {
+    constructor(
+        private readonly commentThreadRepository: ICommentThreadRepository
+    ) {}
+
+    async execute(
+        request: ReplyToCommentThreadRequest
+    ): Promise<ReplyToCommentThreadResponse> {
+        const threadId = request.threadId.trim();
+        const text = request.text.trim();
+
+        if (!threadId) {
+            throw new Error("Comment thread ID is required.");
+        }
+
+        if (!text) {
+            throw new Error("Reply text is required.");
+        }
+
+        const thread = await this.commentThreadRepository.findById(threadId);
+        if (!thread) {
+            throw new Error("Comment thread not found.");
+        }
+
+        const now = new Date();
+        thread.messages.push({
+            id: request.id?.trim() || generateId(),
+            authorName: request.authorName.trim(),
+            text,
+            createdAt: now,
+            updatedAt: now,
+        });
+        // A reply picks the discussion back up
+        thread.resolved = false;
+        thread.updatedAt = now;
+
+        await this.commentThreadRepository.update(thread);
+
+        return { thread };
+    }
+}
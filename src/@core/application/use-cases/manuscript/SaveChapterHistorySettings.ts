@@ -0,0 +1,74 @@
+import { ChapterHistoryRetention } from "../../../domain/entities/story/ChapterHistoryRetention";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { pruneChapterSnapshots } from "../../utils/chapterSnapshots";
+
+export interface SaveChapterHistorySettingsRequest {
+    projectId: string;
+    retention: ChapterHistoryRetention;
+}
+
+export class SaveChapterHistorySettings {
+    constructor(
+        private readonly projectRepository: IProjectRepository,
+        private readonly snapshotRepository: IChapterSnapshotRepository
+    ) {}
+
+    async execute(
+        request: SaveChapterHistorySettingsRequest
+    ): Promise<ChapterHistoryRetention> {
+        const { projectId, retention } = request;
+
+        if (!projectId.trim()) {
+            throw new Error("Project ID is required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        if (
+            !Number.isInteger(retention.intervalMinutes) ||
+            retention.intervalMinutes < 1
+        ) {
+            throw new Error("Snapshot interval must be at least one minute.");
+        }
+
+        if (
+            !Number.isInteger(retention.maxSnapshotsPerChapter) ||
+            retention.maxSnapshotsPerChapter < 1
+        ) {
+            throw new Error("Keep at least one snapshot per chapter.");
+        }
+
+        if (
+            retention.maxAgeDays !== null &&
+            (!Number.isInteger(retention.maxAgeDays) ||
+                retention.maxAgeDays < 1)
+        ) {
+            throw new Error("Snapshot age limit must be at least one day.");
+        }
+
+        const normalized: ChapterHistoryRetention = {
+            intervalMinutes: retention.intervalMinutes,
+            maxSnapshotsPerChapter: retention.maxSnapshotsPerChapter,
+            maxAgeDays: retention.maxAgeDays,
+        };
+        await this.snapshotRepository.saveRetention(projectId, normalized);
+
+        // Tighter limits apply straight away
+        await Promise.all(
+            project.chapterIds.map((chapterId) =>
+                pruneChapterSnapshots(
+                    this.snapshotRepository,
+                    projectId,
+                    chapterId,
+                    normalized
+                )
+            )
+        );
+
+        return normalized;
+    }
+}
@@ -0,0 +1,39 @@
+import { CommentThread } from "../../../domain/entities/story/CommentThread";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+
+export interface SetCommentThreadResolvedRequest {
+    threadId: string;
+    resolved: boolean;
+}
+
+export interface SetCommentThreadResolvedResponse {
+    thread: CommentThread;
+}
+
+export class SetCommentThreadResolved {
+    constructor(
+        private readonly commentThreadRepository: ICommentThreadRepository
+    ) {}
+
+    async execute(
+        request: SetCommentThreadResolvedRequest
+    ): Promise<SetCommentThreadResolvedResponse> {
+        const threadId = request.threadId.trim();
+
+        if (!threadId) {
+            throw new Error("Comment thread ID is required.");
+        }
+
+        const thread = await this.commentThreadRepository.findById(threadId);
+        if (!thread) {
+            throw new Error("Comment thread not found.");
+        }
+
+        thread.resolved = request.resolved;
+        thread.updatedAt = new Date();
+
+        await this.commentThreadRepository.update(thread);
+
+        return { thread };
+    }
+}
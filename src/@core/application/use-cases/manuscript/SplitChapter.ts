@@ -0,0 +1,214 @@
+import {
+    Chapter,
+    ChapterLabel,
+    ChapterStatus,
+} from "../../../domain/entities/story/Chapter";
+import { CommentThread } from "../../../domain/entities/story/CommentThread";
+import { ManuscriptStructure } from "../../../domain/entities/story/ManuscriptStructure";
+import { Event } from "../../../domain/entities/story/timeline/Event";
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+import { IEventRepository } from "../../../domain/repositories/IEventRepository";
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { collectInlineCommentIds } from "../../utils/chapterContent";
+import { recordChapterSnapshot } from "../../utils/chapterSnapshots";
+import { generateId } from "../../utils/id";
+import { chapterSearchDocument } from "../../utils/searchDocuments";
+import {
+    applyManuscriptStructure,
+    findManuscriptNode,
+    insertManuscriptNode,
+    normalizeManuscriptStructure,
+    removeManuscriptNode,
+} from "../../utils/manuscriptStructure";
+
+export interface SplitChapterRequest {
+    projectId: string;
+    chapterId: string;
+    /** The content up to the split point, which the chapter keeps. */
+    headContent: string;
+    /** The content after the split point, which goes to the new chapter. */
+    tailContent: string;
+    /**
+     * Details for the new chapter. By default it is titled after the chapter
+     * and shares its status, POV, labels and tags. Undoing a merge passes the
+     * merged-in chapter's own ID and details to bring it back as it was.
+     */
+    newChapter?: {
+        id?: string;
+        title?: string;
+        eventId?: string | null;
+        status?: ChapterStatus;
+        povCharacterId?: string | null;
+        synopsis?: string;
+        labels?: ChapterLabel[];
+        tags?: string[];
+    };
+    /** Timeline events to link to the new chapter instead. */
+    eventIds?: string[];
+    /**
+     * The chapter's own timeline event afterwards. Undoing a merge passes
+     * the one it had before the merged-in chapter's took its place.
+     */
+    eventId?: string | null;
+}
+
+export interface SplitChapterResponse {
+    chapter: Chapter;
+    newChapter: Chapter;
+    /** The events now linked to the new chapter. */
+    events: Event[];
+    /** The comment threads on passages that moved to the new chapter. */
+    commentThreads: CommentThread[];
+    structure: ManuscriptStructure;
+}
+
+export class SplitChapter {
+    constructor(
+        private readonly chapterRepository: IChapterRepository,
+        private readonly projectRepository: IProjectRepository,
+        private readonly snapshotRepository: IChapterSnapshotRepository,
+        private readonly eventRepository: IEventRepository,
+        private readonly commentThreadRepository: ICommentThreadRepository,
+        private readonly searchIndex: ISearchIndexService
+    ) {}
+
+    async execute(request: SplitChapterRequest): Promise<SplitChapterResponse> {
+        const { projectId, chapterId, headContent, tailContent } = request;
+        const options = request.newChapter ?? {};
+
+        if (!projectId.trim() || !chapterId.trim()) {
+            throw new Error("Project ID and Chapter ID are required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        const chapters = (
+            await this.chapterRepository.findByProjectId(projectId)
+        ).sort((a, b) => a.order - b.order);
+        const chapter = chapters.find((c) => c.id === chapterId);
+        if (!chapter || !project.chapterIds.includes(chapterId)) {
+            throw new Error("Chapter not found for this project.");
+        }
+
+        const id = options.id?.trim() || generateId();
+        if (chapters.some((c) => c.id === id)) {
+            throw new Error("A chapter with this ID already exists.");
+        }
+
+        const structure = normalizeManuscriptStructure(
+            project.manuscriptStructure,
+            chapters.map((c) => c.id)
+        );
+        const location = findManuscriptNode(structure, chapterId);
+        if (!location) {
+            throw new Error("Chapter not found in the manuscript.");
+        }
+
+        // 1. Keep the whole text in the chapter's history, then cut it down
+        await recordChapterSnapshot(
+            this.snapshotRepository,
+            projectId,
+            chapter,
+            "split",
+            await this.snapshotRepository.getRetention(projectId)
+        );
+
+        const now = new Date();
+        chapter.content = headContent;
+        if (request.eventId !== undefined) {
+            chapter.eventId = request.eventId;
+        }
+        chapter.updatedAt = now;
+        await this.chapterRepository.update(chapter);
+
+        // 2. The rest becomes the next document at the same level
+        const newChapter = new Chapter(
+            id,
+            options.title?.trim() || `${chapter.title} (continued)`,
+            0,
+            tailContent,
+            options.eventId ?? null,
+            options.status ?? chapter.status,
+            options.povCharacterId !== undefined
+                ? options.povCharacterId
+                : chapter.povCharacterId,
+            options.synopsis ?? "",
+            options.labels ?? [...chapter.labels],
+            options.tags ?? [...chapter.tags],
+            now,
+            now
+        );
+        await this.chapterRepository.create(projectId, newChapter);
+
+        // Scenes follow the chapter's text, so they move to the part after
+        // the split to keep their place in reading order.
+        const parentId = location.parent?.id ?? null;
+        const { structure: detached } = removeManuscriptNode(
+            structure,
+            chapterId
+        );
+        const nextStructure = insertManuscriptNode(
+            insertManuscriptNode(
+                detached,
+                { ...location.node, children: [] },
+                parentId,
+                location.index
+            ),
+            { id, type: location.node.type, children: location.node.children },
+            parentId,
+            location.index + 1
+        );
+
+        // 3. Move the requested timeline links over
+        const events: Event[] = [];
+        for (const eventId of request.eventIds ?? []) {
+            const event = await this.eventRepository.findById(eventId);
+            if (!event || !project.timelineIds.includes(event.timelineId)) {
+                continue;
+            }
+            event.associatedId = id;
+            event.updatedAt = now;
+            await this.eventRepository.update(event);
+            events.push(event);
+        }
+
+        // 4. Comments follow the passages they were made on
+        const tailCommentIds = new Set(collectInlineCommentIds(tailContent));
+        const commentThreads = (
+            await this.commentThreadRepository.findByProjectId(projectId)
+        ).filter(
+            (thread) =>
+                thread.chapterId === chapterId && tailCommentIds.has(thread.id)
+        );
+        for (const thread of commentThreads) {
+            thread.chapterId = id;
+            thread.updatedAt = now;
+            await this.commentThreadRepository.update(thread);
+        }
+
+        const saved = await applyManuscriptStructure(
+            this.projectRepository,
+            this.chapterRepository,
+            project,
+            [...chapters, newChapter],
+            nextStructure
+        );
+
+        await this.searchIndex.indexDocument(chapterSearchDocument(chapter));
+        await this.searchIndex.indexDocument(chapterSearchDocument(newChapter));
+
+        return {
+            chapter,
+            newChapter,
+            events,
+            commentThreads,
+            structure: saved,
+        };
+    }
+}
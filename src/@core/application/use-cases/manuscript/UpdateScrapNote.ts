@@ -1,4 +1,6 @@
 import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { scrapNoteSearchDocument } from "../../utils/searchDocuments";
 
 export interface UpdateScrapNoteRequest {
     scrapNoteId: string;
@@ -8,7 +10,10 @@ export interface UpdateScrapNoteRequest {
 }
 
 export class UpdateScrapNote {
-    constructor(private readonly scrapNoteRepository: IScrapNoteRepository) {}
+    constructor(
+        private readonly scrapNoteRepository: IScrapNoteRepository,
+        private readonly searchIndex: ISearchIndexService,
+    ) {}
 
     async execute(request: UpdateScrapNoteRequest): Promise<void> {
         const { scrapNoteId, title, content, isPinned } = request;
@@ -24,6 +29,7 @@ export class UpdateScrapNote {
             isPinned === undefined
         ) {
             await this.scrapNoteRepository.updateContent(scrapNoteId, content);
+            await this.indexScrapNote(scrapNoteId);
             return;
         }
 
@@ -55,6 +61,18 @@ export class UpdateScrapNote {
         if (hasChanges) {
             scrapNote.updatedAt = new Date();
             await this.scrapNoteRepository.update(scrapNote);
+            await this.searchIndex.indexDocument(
+                scrapNoteSearchDocument(scrapNote),
+            );
+        }
+    }
+
+    private async indexScrapNote(scrapNoteId: string): Promise<void> {
+        const scrapNote = await this.scrapNoteRepository.findById(scrapNoteId);
+        if (scrapNote) {
+            await this.searchIndex.indexDocument(
+                scrapNoteSearchDocument(scrapNote),
+            );
         }
     }
 }
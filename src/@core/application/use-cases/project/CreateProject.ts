@@ -67,6 +67,11 @@ export class CreateProject {
             [],
             [],
             [mainTimelineId], // Include the Main timeline
+            null,
+            null,
+            null,
+            null,
+            null,
             now,
             now,
         );
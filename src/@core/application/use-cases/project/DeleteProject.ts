@@ -1,12 +1,15 @@
 import { IAssetRepository } from "../../../domain/repositories/IAssetRepository";
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IChapterSnapshotRepository } from "../../../domain/repositories/IChapterSnapshotRepository";
 import { ICharacterRepository } from "../../../domain/repositories/ICharacterRepository";
 import { IChatConversationRepository } from "../../../domain/repositories/IChatConversationRepository";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
 import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
 import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
 import { IUserRepository } from "../../../domain/repositories/IUserRepository";
 import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
 import { IStorageService } from "../../../domain/services/IStorageService";
 
 export interface DeleteProjectRequest {
@@ -26,6 +29,9 @@ export class DeleteProject {
         private readonly storageService: IStorageService,
         private readonly chatConversationRepository: IChatConversationRepository,
         private readonly userRepository: IUserRepository,
+        private readonly chapterSnapshotRepository: IChapterSnapshotRepository,
+        private readonly commentThreadRepository: ICommentThreadRepository,
+        private readonly searchIndex: ISearchIndexService,
     ) {}
 
     async execute(request: DeleteProjectRequest): Promise<void> {
@@ -73,6 +79,9 @@ export class DeleteProject {
             this.organizationRepository.deleteByProjectId(projectId),
             this.scrapNoteRepository.deleteByProjectId(projectId),
             this.chatConversationRepository.deleteByProjectId(projectId),
+            this.chapterSnapshotRepository.deleteByProjectId(projectId),
+            this.commentThreadRepository.deleteByProjectId(projectId),
+            this.searchIndex.removeProject(projectId),
         ]);
 
         // 4. Delete the Project entity itself
@@ -1,21 +1,31 @@
-import { IExportService } from "../../../domain/services/IExportService";
+import { CompileOptions } from "../../../domain/entities/story/ExportSettings";
+import {
+    ExportFormat,
+    IExportService,
+} from "../../../domain/services/IExportService";
 
 export interface ExportManuscriptRequest {
     projectId: string;
-    format: "epub";
+    format: ExportFormat;
     destinationPath: string;
     author?: string;
+    compile?: CompileOptions;
 }
 
 export class ExportManuscript {
     constructor(private readonly exportService: IExportService) {}
 
     async execute(request: ExportManuscriptRequest): Promise<void> {
+        if (request.compile?.chapterIds?.length === 0) {
+            throw new Error("Select at least one chapter to export.");
+        }
+
         await this.exportService.exportProject(
             request.projectId,
             request.format,
             request.destinationPath,
             request.author,
+            request.compile,
         );
     }
 }
@@ -0,0 +1,167 @@
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
+import { ICharacterRepository } from "../../../domain/repositories/ICharacterRepository";
+import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
+import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
+import { ITimelineRepository } from "../../../domain/repositories/ITimelineRepository";
+import { IEventRepository } from "../../../domain/repositories/IEventRepository";
+import { IMetafieldDefinitionRepository } from "../../../domain/repositories/IMetafieldDefinitionRepository";
+import { IMetafieldAssignmentRepository } from "../../../domain/repositories/IMetafieldAssignmentRepository";
+import { IEditorTemplateRepository } from "../../../domain/repositories/IEditorTemplateRepository";
+import { IAssetRepository } from "../../../domain/repositories/IAssetRepository";
+import { IChatConversationRepository } from "../../../domain/repositories/IChatConversationRepository";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+import {
+    IProjectArchiveService,
+    ProjectArchive,
+} from "../../../domain/services/IProjectArchiveService";
+
+export interface ExportProjectArchiveRequest {
+    projectId: string;
+    /** Path of the `.inkline` file to write. */
+    destinationPath: string;
+}
+
+interface TiptapNode {
+    type?: string;
+    attrs?: Record<string, unknown>;
+    content?: TiptapNode[];
+}
+
+export class ExportProjectArchive {
+    constructor(
+        private readonly projectArchiveService: IProjectArchiveService,
+        private readonly projectRepository: IProjectRepository,
+        private readonly chapterRepository: IChapterRepository,
+        private readonly scrapNoteRepository: IScrapNoteRepository,
+        private readonly characterRepository: ICharacterRepository,
+        private readonly locationRepository: ILocationRepository,
+        private readonly organizationRepository: IOrganizationRepository,
+        private readonly timelineRepository: ITimelineRepository,
+        private readonly eventRepository: IEventRepository,
+        private readonly metafieldDefinitionRepository: IMetafieldDefinitionRepository,
+        private readonly metafieldAssignmentRepository: IMetafieldAssignmentRepository,
+        private readonly editorTemplateRepository: IEditorTemplateRepository,
+        private readonly assetRepository: IAssetRepository,
+        private readonly chatConversationRepository: IChatConversationRepository,
+        private readonly commentThreadRepository: ICommentThreadRepository,
+    ) {}
+
+    async execute(request: ExportProjectArchiveRequest): Promise<void> {
+        const projectId = request.projectId.trim();
+        if (!projectId) {
+            throw new Error("Project ID is required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        const [
+            chapters,
+            scrapNotes,
+            characters,
+            locations,
+            organizations,
+            timelines,
+            metafieldDefinitions,
+            metafieldAssignments,
+            editorTemplates,
+            images,
+            bgms,
+            playlists,
+            conversations,
+            commentThreads,
+        ] = await Promise.all([
+            this.chapterRepository.findByProjectId(projectId),
+            this.scrapNoteRepository.findByProjectId(projectId),
+            this.characterRepository.findByProjectId(projectId),
+            this.locationRepository.findByProjectId(projectId),
+            this.organizationRepository.findByProjectId(projectId),
+            this.timelineRepository.findByProjectId(projectId),
+            this.metafieldDefinitionRepository.findByProjectId(projectId),
+            this.metafieldAssignmentRepository.findByProjectId(projectId),
+            this.editorTemplateRepository.findByProjectId(projectId),
+            this.assetRepository.findImagesByProjectId(projectId),
+            this.assetRepository.findBGMByProjectId(projectId),
+            this.assetRepository.findPlaylistsByProjectId(projectId),
+            this.chatConversationRepository.getConversationsByProjectId(
+                projectId,
+            ),
+            this.commentThreadRepository.findByProjectId(projectId),
+        ]);
+
+        const events = (
+            await Promise.all(
+                timelines.map((timeline) =>
+                    this.eventRepository.findByTimelineId(timeline.id),
+                ),
+            )
+        ).flat();
+
+        const archivedConversations = await Promise.all(
+            conversations.map(async (conversation) => ({
+                conversation,
+                messages: await this.chatConversationRepository.getMessages(
+                    conversation.id,
+                ),
+            })),
+        );
+
+        const archive: ProjectArchive = {
+            project,
+            chapters,
+            scrapNotes,
+            characters,
+            locations,
+            organizations,
+            timelines,
+            events,
+            metafieldDefinitions,
+            metafieldAssignments,
+            editorTemplates,
+            commentThreads,
+            images,
+            bgms,
+            playlists,
+            conversations: archivedConversations,
+        };
+
+        // Gallery and audio files, plus images embedded in documents
+        const assetUrls = [
+            ...images.map((image) => image.url),
+            ...bgms.map((bgm) => bgm.url),
+            ...playlists.map((playlist) => playlist.url),
+            ...[...chapters, ...scrapNotes].flatMap((document) =>
+                collectImageUrls(document.content),
+            ),
+        ].filter(Boolean);
+
+        await this.projectArchiveService.writeArchive(
+            archive,
+            assetUrls,
+            request.destinationPath,
+        );
+    }
+}
+
+function collectImageUrls(content: string): string[] {
+    let doc: TiptapNode;
+    try {
+        doc = JSON.parse(content) as TiptapNode;
+    } catch {
+        return [];
+    }
+
+    const urls: string[] = [];
+    const visit = (node: TiptapNode) => {
+        if (node.type === "image" && typeof node.attrs?.src === "string") {
+            urls.push(node.attrs.src);
+        }
+        node.content?.forEach(visit);
+    };
+    visit(doc);
+    return urls;
+}
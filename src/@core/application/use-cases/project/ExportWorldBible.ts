@@ -0,0 +1,531 @@
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ICharacterRepository } from "../../../domain/repositories/ICharacterRepository";
+import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
+import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
+import { IMetafieldDefinitionRepository } from "../../../domain/repositories/IMetafieldDefinitionRepository";
+import { IMetafieldAssignmentRepository } from "../../../domain/repositories/IMetafieldAssignmentRepository";
+import { IEditorTemplateRepository } from "../../../domain/repositories/IEditorTemplateRepository";
+import { IAssetRepository } from "../../../domain/repositories/IAssetRepository";
+import {
+    IWorldBibleExportService,
+    WorldBible,
+    WorldBibleEntityKind,
+    WorldBibleEntry,
+    WorldBibleField,
+    WorldBibleFormat,
+    WorldBibleGroup,
+    WorldBibleSection,
+    WorldBibleValue,
+} from "../../../domain/services/IWorldBibleExportService";
+import { Character } from "../../../domain/entities/story/world/Character";
+import { Location } from "../../../domain/entities/story/world/Location";
+import { Organization } from "../../../domain/entities/story/world/Organization";
+import { MetafieldDefinition } from "../../../domain/entities/story/world/MetafieldDefinition";
+import { MetafieldAssignment } from "../../../domain/entities/story/world/MetafieldAssignment";
+import { EditorTemplatePlacement } from "../../../domain/entities/story/world/EditorTemplate";
+
+export interface ExportWorldBibleRequest {
+    projectId: string;
+    format: WorldBibleFormat;
+    destinationPath: string;
+}
+
+const TEMPLATE_CORE_PREFIX = "template-core:";
+const SYSTEM_METAFIELD_PREFIX = "_sys:";
+
+/** Editor layout used when the project has no template for an entity type. */
+const DEFAULT_PLACEMENT: Record<WorldBibleEntityKind, EditorTemplatePlacement> =
+    {
+        character: {
+            left: ["template-core:description"],
+            right: [
+                "template-core:portrait",
+                "template-core:related-locations",
+                "template-core:related-organizations",
+            ],
+        },
+        location: {
+            left: ["template-core:description"],
+            right: ["template-core:portrait", "template-core:presence"],
+        },
+        organization: {
+            left: ["template-core:description"],
+            right: [
+                "template-core:portrait",
+                "template-core:related-locations",
+                "template-core:reach",
+            ],
+        },
+    };
+
+type WorldEntity = Character | Location | Organization;
+
+const sortByIds = <T extends { id: string }>(items: T[], ids: string[]): T[] => {
+    const order = new Map(ids.map((id, index) => [id, index]));
+    return [...items].sort(
+        (a, b) =>
+            (order.get(a.id) ?? Number.MAX_SAFE_INTEGER) -
+            (order.get(b.id) ?? Number.MAX_SAFE_INTEGER),
+    );
+};
+
+const isAssetUrl = (value: string): boolean =>
+    /^(https?:|data:|inkline-asset:)/i.test(value);
+
+export class ExportWorldBible {
+    constructor(
+        private readonly worldBibleExportService: IWorldBibleExportService,
+        private readonly projectRepository: IProjectRepository,
+        private readonly characterRepository: ICharacterRepository,
+        private readonly locationRepository: ILocationRepository,
+        private readonly organizationRepository: IOrganizationRepository,
+        private readonly metafieldDefinitionRepository: IMetafieldDefinitionRepository,
+        private readonly metafieldAssignmentRepository: IMetafieldAssignmentRepository,
+        private readonly editorTemplateRepository: IEditorTemplateRepository,
+        private readonly assetRepository: IAssetRepository,
+    ) {}
+
+    async execute(request: ExportWorldBibleRequest): Promise<void> {
+        const projectId = request.projectId.trim();
+        if (!projectId) {
+            throw new Error("Project ID is required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        const [
+            rawCharacters,
+            rawLocations,
+            rawOrganizations,
+            definitions,
+            assignments,
+            templates,
+            images,
+        ] = await Promise.all([
+            this.characterRepository.findByProjectId(projectId),
+            this.locationRepository.findByProjectId(projectId),
+            this.organizationRepository.findByProjectId(projectId),
+            this.metafieldDefinitionRepository.findByProjectId(projectId),
+            this.metafieldAssignmentRepository.findByProjectId(projectId),
+            this.editorTemplateRepository.findByProjectId(projectId),
+            this.assetRepository.findImagesByProjectId(projectId),
+        ]);
+
+        const characters = sortByIds(rawCharacters, project.characterIds);
+        const locations = sortByIds(rawLocations, project.locationIds);
+        const organizations = sortByIds(
+            rawOrganizations,
+            project.organizationIds,
+        );
+
+        if (!characters.length && !locations.length && !organizations.length) {
+            throw new Error(
+                "This project has no characters, locations or organizations to export.",
+            );
+        }
+
+        const builder = new WorldBibleEntryBuilder(
+            characters,
+            locations,
+            organizations,
+            definitions,
+            assignments,
+            new Map(images.map((image) => [image.id, image.url])),
+            new Map(
+                templates.map((template) => [
+                    template.editorType,
+                    template.placement,
+                ]),
+            ),
+        );
+
+        const sections: WorldBibleSection[] = [
+            {
+                title: "Characters",
+                groups: this.groupCharacters(characters, organizations, builder),
+            },
+            {
+                title: "Locations",
+                groups: [
+                    {
+                        title: null,
+                        entries: this.walkLocations(locations, builder),
+                    },
+                ],
+            },
+            {
+                title: "Organizations",
+                groups: [
+                    {
+                        title: null,
+                        entries: organizations.map((organization) =>
+                            builder.build("organization", organization, 0),
+                        ),
+                    },
+                ],
+            },
+        ];
+
+        const bible: WorldBible = {
+            title: project.title,
+            sections: sections.filter((section) =>
+                section.groups.some((group) => group.entries.length > 0),
+            ),
+        };
+
+        await this.worldBibleExportService.exportWorldBible(
+            bible,
+            request.format,
+            request.destinationPath,
+        );
+    }
+
+    /** One group per organization, then everyone without one. */
+    private groupCharacters(
+        characters: Character[],
+        organizations: Organization[],
+        builder: WorldBibleEntryBuilder,
+    ): WorldBibleGroup[] {
+        const toEntries = (members: Character[]) =>
+            members.map((character) =>
+                builder.build("character", character, 0),
+            );
+
+        if (!characters.some((character) => character.organizationId)) {
+            return [{ title: null, entries: toEntries(characters) }];
+        }
+
+        const organizationIds = new Set(organizations.map((org) => org.id));
+        const groups: WorldBibleGroup[] = organizations.map((organization) => ({
+            title: organization.name,
+            entries: toEntries(
+                characters.filter(
+                    (character) =>
+                        character.organizationId === organization.id,
+                ),
+            ),
+        }));
+        groups.push({
+            title: "Unaffiliated",
+            entries: toEntries(
+                characters.filter(
+                    (character) =>
+                        !character.organizationId ||
+                        !organizationIds.has(character.organizationId),
+                ),
+            ),
+        });
+
+        return groups.filter((group) => group.entries.length > 0);
+    }
+
+    /** Depth-first through `sublocationIds`, starting from the top level. */
+    private walkLocations(
+        locations: Location[],
+        builder: WorldBibleEntryBuilder,
+    ): WorldBibleEntry[] {
+        const byId = new Map(locations.map((location) => [location.id, location]));
+        const nested = new Set(
+            locations.flatMap((location) => location.sublocationIds ?? []),
+        );
+        const visited = new Set<string>();
+        const entries: WorldBibleEntry[] = [];
+
+        const visit = (location: Location, depth: number) => {
+            if (visited.has(location.id)) {
+                return;
+            }
+            visited.add(location.id);
+            entries.push(builder.build("location", location, depth));
+            (location.sublocationIds ?? []).forEach((id) => {
+                const child = byId.get(id);
+                if (child) {
+                    visit(child, depth + 1);
+                }
+            });
+        };
+
+        locations
+            .filter((location) => !nested.has(location.id))
+            .forEach((location) => visit(location, 0));
+        // Anything only reachable through a cycle
+        locations.forEach((location) => visit(location, 0));
+
+        return entries;
+    }
+}
+
+/**
+ * Lays out one entity's description, portrait, relationships and metafields
+ * in the columns its editor template places them.
+ */
+class WorldBibleEntryBuilder {
+    private readonly namesById = new Map<string, string>();
+    private readonly definitionsById: Map<string, MetafieldDefinition>;
+
+    constructor(
+        private readonly characters: Character[],
+        private readonly locations: Location[],
+        private readonly organizations: Organization[],
+        definitions: MetafieldDefinition[],
+        private readonly assignments: MetafieldAssignment[],
+        private readonly imageUrlsById: Map<string, string>,
+        private readonly placements: Map<string, EditorTemplatePlacement>,
+    ) {
+        [...characters, ...locations, ...organizations].forEach((entity) =>
+            this.namesById.set(entity.id, entity.name),
+        );
+        this.definitionsById = new Map(
+            definitions.map((definition) => [definition.id, definition]),
+        );
+    }
+
+    build(
+        kind: WorldBibleEntityKind,
+        entity: WorldEntity,
+        depth: number,
+    ): WorldBibleEntry {
+        const placement = this.placements.get(kind) ?? DEFAULT_PLACEMENT[kind];
+
+        const metafields = this.assignments
+            .filter(
+                (assignment) =>
+                    assignment.entityType === kind &&
+                    assignment.entityId === entity.id,
+            )
+            .sort((a, b) => a.orderIndex - b.orderIndex)
+            .flatMap((assignment) => {
+                const definition = this.definitionsById.get(
+                    assignment.definitionId,
+                );
+                return definition &&
+                    !definition.name.startsWith(SYSTEM_METAFIELD_PREFIX)
+                    ? [{ assignment, definition }]
+                    : [];
+            });
+        const metafieldsByDefinition = new Map(
+            metafields.map((row) => [row.definition.id, row]),
+        );
+
+        const placed = new Set<string>();
+        const layoutColumn = (ids: string[]): WorldBibleField[] =>
+            ids.flatMap((id) => {
+                placed.add(id);
+                if (id.startsWith(TEMPLATE_CORE_PREFIX)) {
+                    return this.coreFields(
+                        kind,
+                        entity,
+                        id.slice(TEMPLATE_CORE_PREFIX.length),
+                    );
+                }
+                const row = metafieldsByDefinition.get(id);
+                return row ? this.metafieldField(row) : [];
+            });
+
+        const left = layoutColumn(placement.left);
+        const right = layoutColumn(placement.right);
+
+        // Fields assigned after the template was last saved
+        metafields
+            .filter((row) => !placed.has(row.definition.id))
+            .forEach((row) => right.push(...this.metafieldField(row)));
+
+        return { id: entity.id, kind, name: entity.name, left, right, depth };
+    }
+
+    private coreFields(
+        kind: WorldBibleEntityKind,
+        entity: WorldEntity,
+        token: string,
+    ): WorldBibleField[] {
+        const fields: WorldBibleField[] = [];
+        const add = (label: string, value: WorldBibleValue | null) => {
+            if (value) {
+                fields.push({ label, value });
+            }
+        };
+
+        switch (token) {
+            case "description":
+                add(
+                    "Description",
+                    entity.description.trim()
+                        ? { kind: "richText", html: entity.description }
+                        : null,
+                );
+                break;
+            case "portrait": {
+                const url = entity.galleryImageIds
+                    .map((id) => this.imageUrlsById.get(id))
+                    .find(Boolean);
+                add("Portrait", url ? { kind: "images", urls: [url] } : null);
+                break;
+            }
+            case "related-locations":
+            case "current-location":
+            case "background-location":
+            case "locations":
+                if (kind === "character") {
+                    const character = entity as Character;
+                    add(
+                        "Current location",
+                        this.name(character.currentLocationId),
+                    );
+                    add(
+                        "Background location",
+                        this.name(character.backgroundLocationId),
+                    );
+                } else if (kind === "organization") {
+                    add(
+                        "Locations",
+                        this.names((entity as Organization).locationIds),
+                    );
+                }
+                break;
+            case "related-organizations":
+            case "organization":
+                if (kind === "character") {
+                    add(
+                        "Organization",
+                        this.name((entity as Character).organizationId),
+                    );
+                }
+                break;
+            case "presence":
+                add(
+                    "Characters present",
+                    this.names(
+                        this.characters
+                            .filter(
+                                (character) =>
+                                    character.currentLocationId === entity.id ||
+                                    character.backgroundLocationId ===
+                                        entity.id,
+                            )
+                            .map((character) => character.id),
+                    ),
+                );
+                add(
+                    "Organizations present",
+                    this.names(
+                        this.organizations
+                            .filter((organization) =>
+                                organization.locationIds.includes(entity.id),
+                            )
+                            .map((organization) => organization.id),
+                    ),
+                );
+                break;
+            case "reach":
+                if (kind === "organization") {
+                    const count = (entity as Organization).locationIds.length;
+                    add(
+                        "Reach",
+                        count
+                            ? {
+                                  kind: "text",
+                                  text: `${count} ${count === 1 ? "location" : "locations"}`,
+                              }
+                            : null,
+                    );
+                }
+                break;
+            default:
+                // Audio and unknown cards have nothing to print
+                break;
+        }
+
+        return fields;
+    }
+
+    private metafieldField(row: {
+        assignment: MetafieldAssignment;
+        definition: MetafieldDefinition;
+    }): WorldBibleField[] {
+        const value = this.resolveValue(
+            row.definition,
+            row.assignment.valueJson,
+        );
+        return value ? [{ label: row.definition.name, value }] : [];
+    }
+
+    /**
+     * Values are either raw (`"text"`, `["id"]`) or wrapped by the editor as
+     * `{ kind, value }`. Entity and select values are stored as IDs.
+     */
+    private resolveValue(
+        definition: MetafieldDefinition,
+        rawValue: unknown,
+    ): WorldBibleValue | null {
+        let value = rawValue;
+        let uiKind: string | null = null;
+        if (
+            value &&
+            typeof value === "object" &&
+            !Array.isArray(value) &&
+            "value" in value
+        ) {
+            const wrapped = value as { kind?: unknown; value?: unknown };
+            uiKind = typeof wrapped.kind === "string" ? wrapped.kind : null;
+            value = wrapped.value;
+        }
+
+        const strings = (Array.isArray(value) ? value : [value]).filter(
+            (entry): entry is string =>
+                typeof entry === "string" && entry.trim().length > 0,
+        );
+        if (!strings.length) {
+            return null;
+        }
+
+        switch (definition.valueType) {
+            case "entity":
+                return this.name(strings[0]);
+            case "entity[]":
+                return this.names(strings);
+            case "image":
+            case "image[]": {
+                const urls = strings
+                    .map((id) =>
+                        isAssetUrl(id) ? id : this.imageUrlsById.get(id),
+                    )
+                    .filter((url): url is string => Boolean(url));
+                return urls.length ? { kind: "images", urls } : null;
+            }
+            default:
+                break;
+        }
+
+        if (uiKind === "select" || definition.valueType === "string[]") {
+            const labels = new Map(
+                definition.selectOptions.map((option) => [
+                    option.id,
+                    option.label,
+                ]),
+            );
+            return {
+                kind: "list",
+                items: strings.map((entry) => labels.get(entry) ?? entry),
+            };
+        }
+
+        return uiKind === "paragraph"
+            ? { kind: "richText", html: strings[0] }
+            : { kind: "text", text: strings.join(", ") };
+    }
+
+    private name(id: string | null): WorldBibleValue | null {
+        const name = id ? this.namesById.get(id) : undefined;
+        return name ? { kind: "text", text: name } : null;
+    }
+
+    private names(ids: string[]): WorldBibleValue | null {
+        const items = ids
+            .map((id) => this.namesById.get(id))
+            .filter((name): name is string => Boolean(name));
+        return items.length ? { kind: "list", items } : null;
+    }
+}
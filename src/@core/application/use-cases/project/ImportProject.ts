@@ -1,24 +1,51 @@
 import * as fsPromises from "fs/promises";
 
-import { IEpubImportService } from "../../../domain/services/IEpubImportService";
+import {
+    IEpubImportService,
+    ParsedEpub,
+    ParsedImage,
+} from "../../../domain/services/IEpubImportService";
+import { IMarkdownImportService } from "../../../domain/services/IMarkdownImportService";
+import { IDocxImportService } from "../../../domain/services/IDocxImportService";
+import { IScrivenerImportService } from "../../../domain/services/IScrivenerImportService";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
 import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
 import { ITimelineRepository } from "../../../domain/repositories/ITimelineRepository";
 import { IUserRepository } from "../../../domain/repositories/IUserRepository";
-import { IStorageService } from "../../../domain/services/IStorageService";
+import {
+    IStorageService,
+    StorageScope,
+} from "../../../domain/services/IStorageService";
 import { IAssetRepository } from "../../../domain/repositories/IAssetRepository";
 import { IMetafieldDefinitionRepository } from "../../../domain/repositories/IMetafieldDefinitionRepository";
 import { IEditorTemplateRepository } from "../../../domain/repositories/IEditorTemplateRepository";
 import { Project } from "../../../domain/entities/story/Project";
 import { Chapter } from "../../../domain/entities/story/Chapter";
+import { ScrapNote } from "../../../domain/entities/story/ScrapNote";
 import { Timeline } from "../../../domain/entities/story/timeline/Timeline";
 import { Image } from "../../../domain/entities/story/world/Image";
+import { ManuscriptStructure } from "../../../domain/entities/story/ManuscriptStructure";
 import { generateId } from "../../utils/id";
+import { normalizeManuscriptStructure } from "../../utils/manuscriptStructure";
 import { initializeDefaultEditorTemplates } from "./defaultEditorTemplateBootstrap";
 
+export type ImportProjectFormat = "epub" | "markdown" | "docx" | "scrivener";
+
 export interface ImportProjectRequest {
     userId: string;
+    /**
+     * EPUB/DOCX file; for "markdown" the exported folder (or its index.md);
+     * for "scrivener" the .scriv package (or the .scrivx inside it).
+     */
     filePath: string;
+    /** Defaults to "epub". */
+    format?: ImportProjectFormat;
+    /**
+     * Append the imported chapters to this existing project instead of
+     * creating a new one.
+     */
+    projectId?: string;
 }
 
 export interface ImportProjectResponse {
@@ -38,8 +65,12 @@ interface TiptapNode {
 export class ImportProject {
     constructor(
         private readonly epubImportService: IEpubImportService,
+        private readonly markdownImportService: IMarkdownImportService,
+        private readonly docxImportService: IDocxImportService,
+        private readonly scrivenerImportService: IScrivenerImportService,
         private readonly projectRepository: IProjectRepository,
         private readonly chapterRepository: IChapterRepository,
+        private readonly scrapNoteRepository: IScrapNoteRepository,
         private readonly timelineRepository: ITimelineRepository,
         private readonly userRepository: IUserRepository,
         private readonly storageService: IStorageService,
@@ -54,20 +85,14 @@ export class ImportProject {
     ): Promise<ImportProjectResponse> {
         const report = (pct: number) => onProgress?.(Math.round(pct));
 
-        // 1. Read file from disk (main process has fs access)
-        const fileBuffer = await fsPromises.readFile(request.filePath);
-        report(2);
-
-        // 2. Parse the EPUB (0–50% overall)
-        const parsed = await this.epubImportService.parseEpub(
-            fileBuffer.buffer.slice(
-                fileBuffer.byteOffset,
-                fileBuffer.byteOffset + fileBuffer.byteLength,
-            ),
-            (epubPct) => report(2 + epubPct * 0.48),
-        );
+        // 1–2. Read and parse the source (0–50% overall)
+        const parsed = await this.parseSource(request, report);
         report(50);
 
+        if (request.projectId) {
+            return this.appendToProject(request.projectId, parsed, report);
+        }
+
         // 3. Create project
         const user = await this.userRepository.findById(request.userId);
         if (!user) {
@@ -77,7 +102,6 @@ export class ImportProject {
         const now = new Date();
         const projectId = generateId();
         const mainTimelineId = generateId();
-        const chapterIds: string[] = [];
 
         // 4. Upload cover image if present
         let coverImageId: string | null = null;
@@ -114,6 +138,11 @@ export class ImportProject {
             [],
             [],
             [mainTimelineId],
+            null,
+            null,
+            null,
+            null,
+            null,
             now,
             now,
         );
@@ -121,68 +150,30 @@ export class ImportProject {
         await this.projectRepository.create(request.userId, project);
 
         // 6. Create chapters with their images
-        const totalChapters = parsed.chapters.length;
-
-        for (let i = 0; i < totalChapters; i++) {
-            const parsedChapter = parsed.chapters[i];
-            const chapterId = generateId();
-            chapterIds.push(chapterId);
-
-            // Upload chapter images and replace placeholder IDs with URLs
-            let content = parsedChapter.content as TiptapNode;
-            if (parsedChapter.images.length > 0) {
-                const imageUrlMap = new Map<string, string>();
-
-                for (const img of parsedChapter.images) {
-                    const uploadResult = await this.storageService.uploadAsset(
-                        img.data,
-                        {
-                            scope: "chapter",
-                            scopeId: chapterId,
-                            assetType: "image",
-                            extension: mimeToExtension(img.mimeType),
-                        },
-                    );
-
-                    const imageEntity = new Image(
-                        generateId(),
-                        uploadResult.url,
-                        uploadResult.path,
-                        now,
-                        now,
-                    );
-                    await this.assetRepository.saveImage(
-                        projectId,
-                        imageEntity,
-                    );
-
-                    imageUrlMap.set(
-                        `__import_image__:${img.id}`,
-                        uploadResult.url,
-                    );
-                }
-
-                content = replacePlaceholderUrls(content, imageUrlMap);
-            }
+        const chapterIds = await this.createChapters(
+            projectId,
+            parsed,
+            0,
+            now,
+            report,
+        );
 
-            const chapter = new Chapter(
-                chapterId,
-                parsedChapter.title,
-                i, // order
-                JSON.stringify(content),
-                null, // eventId
-                now,
-                now,
+        // 7. Update project with chapter and scrap note IDs, create timeline
+        project.chapterIds = chapterIds;
+        if (parsed.structure) {
+            project.manuscriptStructure = normalizeManuscriptStructure(
+                remapStructure(
+                    parsed.structure,
+                    mapChapterSourceIds(parsed, chapterIds),
+                ),
+                chapterIds,
             );
-
-            await this.chapterRepository.create(projectId, chapter);
-
-            // Progress: 55% – 92% across chapters
-            report(55 + ((i + 1) / totalChapters) * 37);
         }
-
-        // 7. Update project with chapter IDs and create timeline
-        project.chapterIds = chapterIds;
+        project.scrapNoteIds = await this.createScrapNotes(
+            projectId,
+            parsed,
+            now,
+        );
         await this.projectRepository.update(project);
 
         const mainTimeline = new Timeline(
@@ -221,6 +212,286 @@ export class ImportProject {
             chapterCount: chapterIds.length,
         };
     }
+
+    /** Adds the parsed chapters after an existing project's chapters. */
+    private async appendToProject(
+        projectId: string,
+        parsed: ParsedEpub,
+        report: (pct: number) => void,
+    ): Promise<ImportProjectResponse> {
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+        report(55);
+
+        const now = new Date();
+        const chapterIds = await this.createChapters(
+            projectId,
+            parsed,
+            project.chapterIds.length,
+            now,
+            report,
+        );
+
+        const scrapNoteIds = await this.createScrapNotes(
+            projectId,
+            parsed,
+            now,
+        );
+
+        if (parsed.structure) {
+            project.manuscriptStructure = [
+                ...normalizeManuscriptStructure(
+                    project.manuscriptStructure,
+                    project.chapterIds,
+                ),
+                ...remapStructure(
+                    parsed.structure,
+                    mapChapterSourceIds(parsed, chapterIds),
+                ),
+            ];
+        }
+        project.chapterIds = [...project.chapterIds, ...chapterIds];
+        project.scrapNoteIds = [...project.scrapNoteIds, ...scrapNoteIds];
+        project.updatedAt = now;
+        await this.projectRepository.update(project);
+        report(100);
+
+        return {
+            projectId,
+            title: project.title,
+            chapterCount: chapterIds.length,
+        };
+    }
+
+    /**
+     * Creates the parsed chapters (uploading their images) starting at
+     * `firstOrder`, and returns their IDs in order.
+     */
+    private async createChapters(
+        projectId: string,
+        parsed: ParsedEpub,
+        firstOrder: number,
+        now: Date,
+        report: (pct: number) => void,
+    ): Promise<string[]> {
+        const totalChapters = parsed.chapters.length;
+        const chapterIds = parsed.chapters.map(() => generateId());
+
+        // Chapter references in the source point at the old chapter IDs
+        const chapterIdsBySource = mapChapterSourceIds(parsed, chapterIds);
+
+        for (let i = 0; i < totalChapters; i++) {
+            const parsedChapter = parsed.chapters[i];
+            const chapterId = chapterIds[i];
+
+            // Upload chapter images and replace placeholder IDs with URLs
+            let content = await this.uploadImages(
+                projectId,
+                parsedChapter.content as TiptapNode,
+                parsedChapter.images,
+                { scope: "chapter", scopeId: chapterId },
+                now,
+            );
+
+            if (chapterIdsBySource.size > 0) {
+                content = remapChapterReferences(content, chapterIdsBySource);
+            }
+
+            const chapter = new Chapter(
+                chapterId,
+                parsedChapter.title,
+                firstOrder + i, // order
+                JSON.stringify(content),
+                null, // eventId
+                "draft",
+                null, // povCharacterId
+                parsedChapter.synopsis ?? "",
+                [],
+                [],
+                now,
+                now,
+            );
+
+            await this.chapterRepository.create(projectId, chapter);
+
+            // Progress: 55% – 92% across chapters
+            report(55 + ((i + 1) / totalChapters) * 37);
+        }
+
+        return chapterIds;
+    }
+
+    /** Creates the parsed scrap notes, if any, and returns their IDs. */
+    private async createScrapNotes(
+        projectId: string,
+        parsed: ParsedEpub,
+        now: Date,
+    ): Promise<string[]> {
+        const scrapNoteIds: string[] = [];
+
+        for (const parsedNote of parsed.scrapNotes ?? []) {
+            const scrapNoteId = generateId();
+            const content = await this.uploadImages(
+                projectId,
+                parsedNote.content as TiptapNode,
+                parsedNote.images,
+                { scope: "scrap-note", scopeId: scrapNoteId },
+                now,
+            );
+
+            await this.scrapNoteRepository.create(
+                projectId,
+                new ScrapNote(
+                    scrapNoteId,
+                    parsedNote.title,
+                    JSON.stringify(content),
+                    false,
+                    null,
+                    now,
+                    now,
+                ),
+            );
+            scrapNoteIds.push(scrapNoteId);
+        }
+
+        return scrapNoteIds;
+    }
+
+    /** Uploads a document's images and points its placeholders at them. */
+    private async uploadImages(
+        projectId: string,
+        content: TiptapNode,
+        images: ParsedImage[],
+        target: { scope: StorageScope; scopeId: string },
+        now: Date,
+    ): Promise<TiptapNode> {
+        if (images.length === 0) {
+            return content;
+        }
+
+        const imageUrlMap = new Map<string, string>();
+
+        for (const img of images) {
+            const uploadResult = await this.storageService.uploadAsset(
+                img.data,
+                {
+                    ...target,
+                    assetType: "image",
+                    extension: mimeToExtension(img.mimeType),
+                },
+            );
+
+            const imageEntity = new Image(
+                generateId(),
+                uploadResult.url,
+                uploadResult.path,
+                now,
+                now,
+            );
+            await this.assetRepository.saveImage(projectId, imageEntity);
+
+            imageUrlMap.set(`__import_image__:${img.id}`, uploadResult.url);
+        }
+
+        return replacePlaceholderUrls(content, imageUrlMap);
+    }
+
+    private async parseSource(
+        request: ImportProjectRequest,
+        report: (pct: number) => void,
+    ): Promise<ParsedEpub> {
+        if (request.format === "scrivener") {
+            return this.scrivenerImportService.parseScrivenerProject(
+                request.filePath,
+                (pct) => report(pct * 0.5),
+            );
+        }
+
+        if (request.format === "markdown") {
+            return this.markdownImportService.parseMarkdownProject(
+                request.filePath,
+                (pct) => report(pct * 0.5),
+            );
+        }
+
+        // Read file from disk (main process has fs access)
+        const fileBuffer = await fsPromises.readFile(request.filePath);
+        const arrayBuffer = fileBuffer.buffer.slice(
+            fileBuffer.byteOffset,
+            fileBuffer.byteOffset + fileBuffer.byteLength,
+        );
+        report(2);
+
+        if (request.format === "docx") {
+            return this.docxImportService.parseDocx(arrayBuffer, (docxPct) =>
+                report(2 + docxPct * 0.48),
+            );
+        }
+
+        // Parse the EPUB
+        return this.epubImportService.parseEpub(arrayBuffer, (epubPct) =>
+            report(2 + epubPct * 0.48),
+        );
+    }
+}
+
+/** New chapter IDs by the IDs the source gave its chapters. */
+function mapChapterSourceIds(
+    parsed: ParsedEpub,
+    chapterIds: string[],
+): Map<string, string> {
+    const chapterIdsBySource = new Map<string, string>();
+    parsed.chapters.forEach((parsedChapter, i) => {
+        if (parsedChapter.sourceId) {
+            chapterIdsBySource.set(parsedChapter.sourceId, chapterIds[i]);
+        }
+    });
+    return chapterIdsBySource;
+}
+
+/**
+ * The parsed structure on the new chapter IDs, with fresh IDs for parts.
+ * Nodes for chapters that were not imported are dropped, their scenes kept.
+ */
+function remapStructure(
+    structure: ManuscriptStructure,
+    chapterIds: Map<string, string>,
+): ManuscriptStructure {
+    return structure.flatMap((node) => {
+        const children = remapStructure(node.children, chapterIds);
+        if (node.type === "part") {
+            return [{ ...node, id: generateId(), children }];
+        }
+        const id = chapterIds.get(node.id);
+        return id ? [{ ...node, id, children }] : children;
+    });
+}
+
+function remapChapterReferences(
+    node: TiptapNode,
+    chapterIds: Map<string, string>,
+): TiptapNode {
+    if (
+        node.type === "documentReference" &&
+        node.attrs?.kind === "chapter" &&
+        typeof node.attrs.id === "string"
+    ) {
+        const newId = chapterIds.get(node.attrs.id);
+        return newId ? { ...node, attrs: { ...node.attrs, id: newId } } : node;
+    }
+
+    if (node.content) {
+        return {
+            ...node,
+            content: node.content.map((child) =>
+                remapChapterReferences(child, chapterIds),
+            ),
+        };
+    }
+
+    return node;
 }
 
 function mimeToExtension(mimeType: string): string {
@@ -0,0 +1,638 @@
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
+import { ICharacterRepository } from "../../../domain/repositories/ICharacterRepository";
+import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
+import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
+import { ITimelineRepository } from "../../../domain/repositories/ITimelineRepository";
+import { IEventRepository } from "../../../domain/repositories/IEventRepository";
+import { IMetafieldDefinitionRepository } from "../../../domain/repositories/IMetafieldDefinitionRepository";
+import { IMetafieldAssignmentRepository } from "../../../domain/repositories/IMetafieldAssignmentRepository";
+import { IEditorTemplateRepository } from "../../../domain/repositories/IEditorTemplateRepository";
+import { IAssetRepository } from "../../../domain/repositories/IAssetRepository";
+import { IChatConversationRepository } from "../../../domain/repositories/IChatConversationRepository";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+import { IUserRepository } from "../../../domain/repositories/IUserRepository";
+import {
+    IStorageService,
+    StorageAssetType,
+} from "../../../domain/services/IStorageService";
+import {
+    ArchivedAsset,
+    IProjectArchiveService,
+    ProjectArchive,
+} from "../../../domain/services/IProjectArchiveService";
+import { Project } from "../../../domain/entities/story/Project";
+import { Chapter } from "../../../domain/entities/story/Chapter";
+import { ScrapNote } from "../../../domain/entities/story/ScrapNote";
+import { Character } from "../../../domain/entities/story/world/Character";
+import { Location } from "../../../domain/entities/story/world/Location";
+import { Organization } from "../../../domain/entities/story/world/Organization";
+import { Image } from "../../../domain/entities/story/world/Image";
+import { BGM } from "../../../domain/entities/story/world/BGM";
+import { Playlist } from "../../../domain/entities/story/world/Playlist";
+import { MetafieldDefinition } from "../../../domain/entities/story/world/MetafieldDefinition";
+import { MetafieldAssignment } from "../../../domain/entities/story/world/MetafieldAssignment";
+import { EditorTemplate } from "../../../domain/entities/story/world/EditorTemplate";
+import { Timeline } from "../../../domain/entities/story/timeline/Timeline";
+import { Event } from "../../../domain/entities/story/timeline/Event";
+import { ChatMessage } from "../../../domain/entities/story/chat/ChatMessage";
+import { CommentThread } from "../../../domain/entities/story/CommentThread";
+import { generateId } from "../../utils/id";
+
+export interface ImportProjectArchiveRequest {
+    userId: string;
+    /** Path of the `.inkline` file to restore. */
+    filePath: string;
+}
+
+export interface ImportProjectArchiveResponse {
+    projectId: string;
+    title: string;
+    chapterCount: number;
+}
+
+interface TiptapNode {
+    type?: string;
+    attrs?: Record<string, unknown>;
+    content?: TiptapNode[];
+    marks?: { type?: string; attrs?: Record<string, unknown> }[];
+}
+
+/**
+ * Translates the archive's IDs and asset URLs to the ones minted for the
+ * restored project. References to anything missing from the archive are
+ * dropped rather than left pointing at the original project.
+ */
+class ArchiveRemapper {
+    constructor(
+        private readonly ids: Map<string, string>,
+        private readonly urls: Map<string, { url: string; path: string }>,
+    ) {}
+
+    id(id: string): string {
+        return this.ids.get(id) ?? generateId();
+    }
+
+    ref(id: string | null): string | null {
+        return id ? (this.ids.get(id) ?? null) : null;
+    }
+
+    refs(ids: string[]): string[] {
+        return ids.flatMap((id) => {
+            const mapped = this.ids.get(id);
+            return mapped ? [mapped] : [];
+        });
+    }
+
+    asset(url: string, storagePath: string): { url: string; path: string } {
+        return this.urls.get(url) ?? { url, path: storagePath };
+    }
+
+    /** Metafield values and layouts hold IDs anywhere in free-form JSON. */
+    json<T>(value: T): T {
+        if (typeof value === "string") {
+            return (this.ids.get(value) ?? value) as T;
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => this.json(item)) as T;
+        }
+        if (value && typeof value === "object") {
+            return Object.fromEntries(
+                Object.entries(value).map(([key, item]) => [
+                    key,
+                    this.json(item),
+                ]),
+            ) as T;
+        }
+        return value;
+    }
+
+    /**
+     * Document references, embedded image URLs and the comment thread IDs
+     * on inline comments in Tiptap content.
+     */
+    document(content: string): string {
+        let doc: TiptapNode;
+        try {
+            doc = JSON.parse(content) as TiptapNode;
+        } catch {
+            return content;
+        }
+
+        const visit = (node: TiptapNode): TiptapNode => {
+            let attrs = node.attrs;
+            if (
+                node.type === "documentReference" &&
+                typeof attrs?.id === "string"
+            ) {
+                attrs = { ...attrs, id: this.ids.get(attrs.id) ?? attrs.id };
+            }
+            if (node.type === "image" && typeof attrs?.src === "string") {
+                attrs = { ...attrs, src: this.asset(attrs.src, "").url };
+            }
+            const marks = node.marks?.map((mark) =>
+                mark.type === "inlineComment" &&
+                typeof mark.attrs?.commentId === "string"
+                    ? {
+                          ...mark,
+                          attrs: {
+                              ...mark.attrs,
+                              commentId:
+                                  this.ids.get(mark.attrs.commentId) ??
+                                  mark.attrs.commentId,
+                          },
+                      }
+                    : mark,
+            );
+            return {
+                ...node,
+                ...(attrs ? { attrs } : {}),
+                ...(marks ? { marks } : {}),
+                ...(node.content ? { content: node.content.map(visit) } : {}),
+            };
+        };
+
+        return JSON.stringify(visit(doc));
+    }
+}
+
+export class ImportProjectArchive {
+    constructor(
+        private readonly projectArchiveService: IProjectArchiveService,
+        private readonly projectRepository: IProjectRepository,
+        private readonly chapterRepository: IChapterRepository,
+        private readonly scrapNoteRepository: IScrapNoteRepository,
+        private readonly characterRepository: ICharacterRepository,
+        private readonly locationRepository: ILocationRepository,
+        private readonly organizationRepository: IOrganizationRepository,
+        private readonly timelineRepository: ITimelineRepository,
+        private readonly eventRepository: IEventRepository,
+        private readonly metafieldDefinitionRepository: IMetafieldDefinitionRepository,
+        private readonly metafieldAssignmentRepository: IMetafieldAssignmentRepository,
+        private readonly editorTemplateRepository: IEditorTemplateRepository,
+        private readonly assetRepository: IAssetRepository,
+        private readonly chatConversationRepository: IChatConversationRepository,
+        private readonly userRepository: IUserRepository,
+        private readonly storageService: IStorageService,
+        private readonly commentThreadRepository: ICommentThreadRepository,
+    ) {}
+
+    async execute(
+        request: ImportProjectArchiveRequest,
+        onProgress?: (percent: number) => void,
+    ): Promise<ImportProjectArchiveResponse> {
+        const report = (pct: number) => onProgress?.(Math.round(pct));
+
+        const user = await this.userRepository.findById(request.userId);
+        if (!user) {
+            throw new Error("User not found.");
+        }
+
+        // 1. Read the archive (0–10%)
+        const { archive, assets } =
+            await this.projectArchiveService.readArchive(request.filePath);
+        report(10);
+
+        // 2. Every entity gets a fresh ID so the archive can be restored
+        //    more than once, even into the account it came from
+        const ids = new Map<string, string>();
+        [
+            archive.project,
+            ...archive.chapters,
+            ...archive.scrapNotes,
+            ...archive.characters,
+            ...archive.locations,
+            ...archive.organizations,
+            ...archive.timelines,
+            ...archive.events,
+            ...archive.metafieldDefinitions,
+            ...archive.metafieldAssignments,
+            ...archive.editorTemplates,
+            ...archive.commentThreads,
+            ...archive.images,
+            ...archive.bgms,
+            ...archive.playlists,
+            ...archive.conversations.map(({ conversation }) => conversation),
+        ].forEach((entity) => ids.set(entity.id, generateId()));
+
+        const projectId = ids.get(archive.project.id) as string;
+
+        // 3. Upload bundled files (10–50%)
+        const urls = await this.uploadAssets(
+            projectId,
+            archive,
+            assets,
+            (pct) => report(10 + pct * 0.4),
+        );
+        const remap = new ArchiveRemapper(ids, urls);
+        const now = new Date();
+
+        // 4. Project first (must exist before its children for RLS)
+        const source = archive.project;
+        const chapters = [...archive.chapters].sort(
+            (a, b) => a.order - b.order,
+        );
+        const project = new Project(
+            projectId,
+            source.title,
+            remap.ref(source.coverImageId),
+            remap.refs(
+                source.chapterIds.length
+                    ? source.chapterIds
+                    : chapters.map((chapter) => chapter.id),
+            ),
+            remap.refs(source.characterIds),
+            remap.refs(source.locationIds),
+            remap.refs(source.scrapNoteIds),
+            remap.refs(source.organizationIds),
+            remap.refs(archive.timelines.map((timeline) => timeline.id)),
+            remap.json(source.exportSettings ?? null),
+            remap.json(source.writingGoals ?? null),
+            remap.json(source.manuscriptStructure ?? null),
+            source.dictionary ?? null,
+            remap.json(source.grammarSettings ?? null),
+            source.createdAt,
+            now,
+        );
+        await this.projectRepository.create(request.userId, project);
+        report(55);
+
+        // 5. Assets, then the documents and world that reference them
+        await this.restoreAssets(projectId, archive, remap);
+        report(60);
+
+        for (const chapter of chapters) {
+            await this.chapterRepository.create(
+                projectId,
+                new Chapter(
+                    remap.id(chapter.id),
+                    chapter.title,
+                    chapter.order,
+                    remap.document(chapter.content),
+                    remap.ref(chapter.eventId),
+                    chapter.status,
+                    remap.ref(chapter.povCharacterId),
+                    chapter.synopsis,
+                    chapter.labels,
+                    chapter.tags,
+                    chapter.createdAt,
+                    chapter.updatedAt,
+                ),
+            );
+        }
+
+        for (const note of archive.scrapNotes) {
+            await this.scrapNoteRepository.create(
+                projectId,
+                new ScrapNote(
+                    remap.id(note.id),
+                    note.title,
+                    remap.document(note.content),
+                    note.isPinned,
+                    remap.ref(note.eventId),
+                    note.createdAt,
+                    note.updatedAt,
+                ),
+            );
+        }
+
+        for (const thread of archive.commentThreads) {
+            const chapterId = remap.ref(thread.chapterId);
+            if (!chapterId) {
+                continue;
+            }
+            await this.commentThreadRepository.create(
+                new CommentThread(
+                    remap.id(thread.id),
+                    projectId,
+                    chapterId,
+                    thread.excerpt,
+                    thread.isChapterLevel,
+                    thread.resolved,
+                    thread.messages,
+                    thread.createdAt,
+                    thread.updatedAt,
+                ),
+            );
+        }
+        report(70);
+
+        await this.restoreWorld(projectId, archive, remap);
+        report(80);
+
+        await this.restoreTimelines(projectId, archive, remap);
+        await this.restoreMetafields(projectId, archive, remap);
+        report(90);
+
+        await this.restoreConversations(projectId, archive, remap);
+        report(96);
+
+        // 6. Update user's project list
+        if (!user.projectIds.includes(projectId)) {
+            user.projectIds.push(projectId);
+            user.updatedAt = now;
+            await this.userRepository.update(user);
+        }
+        report(100);
+
+        return {
+            projectId,
+            title: project.title,
+            chapterCount: chapters.length,
+        };
+    }
+
+    /**
+     * Re-uploads every bundled file under the new project and returns the
+     * new URL and storage path for each original URL.
+     */
+    private async uploadAssets(
+        projectId: string,
+        archive: ProjectArchive,
+        assets: ArchivedAsset[],
+        report: (pct: number) => void,
+    ): Promise<Map<string, { url: string; path: string }>> {
+        const assetTypes = new Map<string, StorageAssetType>();
+        archive.bgms.forEach((bgm) => assetTypes.set(bgm.url, "bgm"));
+        archive.playlists.forEach((playlist) =>
+            assetTypes.set(playlist.url, "playlist"),
+        );
+
+        const uploaded = new Map<string, { url: string; path: string }>();
+        for (let i = 0; i < assets.length; i++) {
+            const asset = assets[i];
+            const result = await this.storageService.uploadAsset(asset.data, {
+                scope: "project",
+                scopeId: projectId,
+                assetType: assetTypes.get(asset.url) ?? "image",
+                extension: asset.extension,
+            });
+            uploaded.set(asset.url, result);
+            report(((i + 1) / assets.length) * 100);
+        }
+
+        return uploaded;
+    }
+
+    private async restoreAssets(
+        projectId: string,
+        archive: ProjectArchive,
+        remap: ArchiveRemapper,
+    ): Promise<void> {
+        for (const image of archive.images) {
+            const { url, path } = remap.asset(image.url, image.storagePath);
+            await this.assetRepository.saveImage(
+                projectId,
+                new Image(
+                    remap.id(image.id),
+                    url,
+                    path,
+                    image.createdAt,
+                    image.updatedAt,
+                ),
+            );
+        }
+
+        for (const bgm of archive.bgms) {
+            const { url, path } = remap.asset(bgm.url, bgm.storagePath);
+            await this.assetRepository.saveBGM(
+                projectId,
+                new BGM(
+                    remap.id(bgm.id),
+                    bgm.title,
+                    bgm.artist,
+                    url,
+                    path,
+                    bgm.createdAt,
+                    bgm.updatedAt,
+                ),
+            );
+        }
+
+        for (const playlist of archive.playlists) {
+            const { url, path } = remap.asset(
+                playlist.url,
+                playlist.storagePath,
+            );
+            await this.assetRepository.savePlaylist(
+                projectId,
+                new Playlist(
+                    remap.id(playlist.id),
+                    playlist.name,
+                    playlist.description,
+                    playlist.tracks,
+                    url,
+                    path,
+                    playlist.createdAt,
+                    playlist.updatedAt,
+                ),
+            );
+        }
+    }
+
+    private async restoreWorld(
+        projectId: string,
+        archive: ProjectArchive,
+        remap: ArchiveRemapper,
+    ): Promise<void> {
+        for (const location of archive.locations) {
+            await this.locationRepository.create(
+                projectId,
+                new Location(
+                    remap.id(location.id),
+                    location.name,
+                    location.description,
+                    [...location.aliases],
+                    location.createdAt,
+                    location.updatedAt,
+                    remap.ref(location.bgmId),
+                    remap.ref(location.playlistId),
+                    remap.refs(location.galleryImageIds),
+                    remap.refs(location.sublocationIds),
+                    remap.refs(location.characterIds),
+                    remap.refs(location.organizationIds),
+                ),
+            );
+        }
+
+        for (const organization of archive.organizations) {
+            await this.organizationRepository.create(
+                projectId,
+                new Organization(
+                    remap.id(organization.id),
+                    organization.name,
+                    organization.description,
+                    [...organization.aliases],
+                    remap.refs(organization.locationIds),
+                    remap.refs(organization.galleryImageIds),
+                    remap.ref(organization.playlistId),
+                    remap.ref(organization.bgmId),
+                    organization.createdAt,
+                    organization.updatedAt,
+                ),
+            );
+        }
+
+        for (const character of archive.characters) {
+            await this.characterRepository.create(
+                projectId,
+                new Character(
+                    remap.id(character.id),
+                    character.name,
+                    character.description,
+                    [...character.aliases],
+                    remap.ref(character.currentLocationId),
+                    remap.ref(character.backgroundLocationId),
+                    remap.ref(character.organizationId),
+                    remap.ref(character.bgmId),
+                    remap.ref(character.playlistId),
+                    remap.refs(character.galleryImageIds),
+                    character.createdAt,
+                    character.updatedAt,
+                ),
+            );
+        }
+    }
+
+    private async restoreTimelines(
+        projectId: string,
+        archive: ProjectArchive,
+        remap: ArchiveRemapper,
+    ): Promise<void> {
+        for (const timeline of archive.timelines) {
+            const timelineId = remap.id(timeline.id);
+            await this.timelineRepository.create(
+                projectId,
+                new Timeline(
+                    timelineId,
+                    projectId,
+                    timeline.name,
+                    timeline.description,
+                    timeline.timeUnit,
+                    timeline.startValue,
+                    remap.refs(timeline.eventIds),
+                    timeline.createdAt,
+                    timeline.updatedAt,
+                ),
+            );
+
+            const events = archive.events.filter(
+                (event) => event.timelineId === timeline.id,
+            );
+            for (const event of events) {
+                await this.eventRepository.create(
+                    timelineId,
+                    new Event(
+                        remap.id(event.id),
+                        timelineId,
+                        event.title,
+                        event.description,
+                        event.time,
+                        event.year,
+                        event.month,
+                        event.day,
+                        event.type,
+                        remap.ref(event.associatedId),
+                        remap.refs(event.characterIds),
+                        remap.refs(event.locationIds),
+                        remap.refs(event.organizationIds),
+                        event.createdAt,
+                        event.updatedAt,
+                    ),
+                );
+            }
+        }
+    }
+
+    private async restoreMetafields(
+        projectId: string,
+        archive: ProjectArchive,
+        remap: ArchiveRemapper,
+    ): Promise<void> {
+        for (const definition of archive.metafieldDefinitions) {
+            await this.metafieldDefinitionRepository.create(
+                new MetafieldDefinition(
+                    remap.id(definition.id),
+                    projectId,
+                    definition.name,
+                    definition.nameNormalized,
+                    definition.scope,
+                    definition.valueType,
+                    definition.targetEntityKind,
+                    definition.selectOptions,
+                    definition.createdAt,
+                    definition.updatedAt,
+                ),
+            );
+        }
+
+        for (const assignment of archive.metafieldAssignments) {
+            const definitionId = remap.ref(assignment.definitionId);
+            const entityId = remap.ref(assignment.entityId);
+            if (!definitionId || !entityId) {
+                continue;
+            }
+            await this.metafieldAssignmentRepository.create(
+                new MetafieldAssignment(
+                    remap.id(assignment.id),
+                    projectId,
+                    definitionId,
+                    assignment.entityType,
+                    entityId,
+                    remap.json(assignment.valueJson),
+                    assignment.orderIndex,
+                    assignment.createdAt,
+                    assignment.updatedAt,
+                ),
+            );
+        }
+
+        for (const template of archive.editorTemplates) {
+            await this.editorTemplateRepository.create(
+                new EditorTemplate(
+                    remap.id(template.id),
+                    projectId,
+                    template.editorType,
+                    remap.json(template.placement),
+                    template.fields.flatMap((field) => {
+                        const definitionId = remap.ref(field.definitionId);
+                        return definitionId ? [{ ...field, definitionId }] : [];
+                    }),
+                    template.createdAt,
+                    template.updatedAt,
+                ),
+            );
+        }
+    }
+
+    private async restoreConversations(
+        projectId: string,
+        archive: ProjectArchive,
+        remap: ArchiveRemapper,
+    ): Promise<void> {
+        for (const { conversation, messages } of archive.conversations) {
+            const created =
+                await this.chatConversationRepository.createConversation({
+                    projectId,
+                    conversationId: remap.id(conversation.id),
+                });
+            if (conversation.title) {
+                await this.chatConversationRepository.updateTitle(
+                    created.id,
+                    conversation.title,
+                );
+            }
+            for (const message of messages) {
+                await this.chatConversationRepository.appendMessage(
+                    new ChatMessage(
+                        created.id,
+                        message.role,
+                        message.content,
+                        message.createdAt,
+                    ),
+                );
+            }
+        }
+    }
+}
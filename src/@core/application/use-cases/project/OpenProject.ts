@@ -24,6 +24,10 @@ import { MetafieldDefinition } from "../../../domain/entities/story/world/Metafi
 import { MetafieldAssignment } from "../../../domain/entities/story/world/MetafieldAssignment";
 import { IEditorTemplateRepository } from "../../../domain/repositories/IEditorTemplateRepository";
 import { EditorTemplate } from "../../../domain/entities/story/world/EditorTemplate";
+import { ICommentThreadRepository } from "../../../domain/repositories/ICommentThreadRepository";
+import { CommentThread } from "../../../domain/entities/story/CommentThread";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
+import { collectSearchDocuments } from "../../utils/searchDocuments";
 
 export interface OpenProjectRequest {
     projectId: string;
@@ -41,6 +45,7 @@ export interface OpenProjectResponse {
     metafieldDefinitions: MetafieldDefinition[];
     metafieldAssignments: MetafieldAssignment[];
     editorTemplates: EditorTemplate[];
+    commentThreads: CommentThread[];
     assets: ProjectAssetBundle;
 }
 
@@ -64,6 +69,8 @@ export class OpenProject {
         private readonly metafieldDefinitionRepository: IMetafieldDefinitionRepository,
         private readonly metafieldAssignmentRepository: IMetafieldAssignmentRepository,
         private readonly editorTemplateRepository: IEditorTemplateRepository,
+        private readonly commentThreadRepository: ICommentThreadRepository,
+        private readonly searchIndex: ISearchIndexService,
     ) {}
 
     async execute(request: OpenProjectRequest): Promise<OpenProjectResponse> {
@@ -87,6 +94,7 @@ export class OpenProject {
             metafieldDefinitions,
             metafieldAssignments,
             editorTemplates,
+            commentThreads,
         ] = await Promise.all([
             this.chapterRepository.findByProjectId(projectId),
             this.characterRepository.findByProjectId(projectId),
@@ -97,6 +105,7 @@ export class OpenProject {
             this.metafieldDefinitionRepository.findByProjectId(projectId),
             this.metafieldAssignmentRepository.findByProjectId(projectId),
             this.editorTemplateRepository.findByProjectId(projectId),
+            this.commentThreadRepository.findByProjectId(projectId),
         ]);
 
         chapters.sort((a, b) => a.order - b.order);
@@ -174,6 +183,23 @@ export class OpenProject {
         const eventsArrays = await Promise.all(eventPromises);
         const events = eventsArrays.flat();
 
+        // Catches up on edits made elsewhere; searches wait for it to finish,
+        // and the next search tries again if it fails
+        this.searchIndex
+            .synchronize(
+                projectId,
+                collectSearchDocuments({
+                    chapters,
+                    scrapNotes,
+                    characters,
+                    locations,
+                    organizations,
+                }),
+            )
+            .catch((error) => {
+                console.warn("Failed to synchronize the search index:", error);
+            });
+
         return {
             project,
             chapters,
@@ -186,6 +212,7 @@ export class OpenProject {
             metafieldDefinitions,
             metafieldAssignments,
             editorTemplates,
+            commentThreads,
             assets: assetBundle,
         };
     }
@@ -0,0 +1,130 @@
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { CHAPTER_STATUSES } from "../../../domain/entities/story/Chapter";
+import {
+    ChapterNumberingStyle,
+    CompilePreset,
+    ExportSettings,
+    FootnoteStyle,
+    MentionStyle,
+} from "../../../domain/entities/story/ExportSettings";
+import { generateId } from "../../utils/id";
+
+export interface SaveExportSettingsRequest {
+    projectId: string;
+    settings: ExportSettings;
+}
+
+const CHAPTER_NUMBERING_STYLES: ChapterNumberingStyle[] = [
+    "words",
+    "numerals",
+    "none",
+];
+
+const MENTION_STYLES: MentionStyle[] = ["text", "italic", "omit"];
+
+const FOOTNOTE_STYLES: FootnoteStyle[] = ["popup", "endnotes"];
+
+export class SaveExportSettings {
+    constructor(private readonly projectRepository: IProjectRepository) {}
+
+    async execute(request: SaveExportSettingsRequest): Promise<ExportSettings> {
+        const projectId = request.projectId.trim();
+        if (!projectId) {
+            throw new Error("Project ID is required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        const { author, epub } = request.settings;
+        if (!CHAPTER_NUMBERING_STYLES.includes(epub.chapterNumbering)) {
+            throw new Error("Unknown chapter numbering style.");
+        }
+
+        const presets: CompilePreset[] = (request.settings.presets ?? []).map(
+            (preset) => {
+                const name = preset.name.trim();
+                if (!name) {
+                    throw new Error("Compile presets need a name.");
+                }
+                if (!MENTION_STYLES.includes(preset.mentionStyle)) {
+                    throw new Error("Unknown mention style.");
+                }
+                // Presets saved before footnotes existed have no style
+                const footnoteStyle = preset.footnoteStyle ?? "popup";
+                if (!FOOTNOTE_STYLES.includes(footnoteStyle)) {
+                    throw new Error("Unknown footnote style.");
+                }
+                // Deleted chapters drop out; an emptied selection means all
+                const chapterIds = (preset.chapterIds ?? []).filter((id) =>
+                    project.chapterIds.includes(id),
+                );
+                // Presets saved before status filtering have none
+                const statuses = preset.statuses ?? null;
+                if (
+                    statuses?.some(
+                        (status) => !CHAPTER_STATUSES.includes(status),
+                    )
+                ) {
+                    throw new Error("Unknown chapter status.");
+                }
+                return {
+                    id: preset.id || generateId(),
+                    name,
+                    chapterIds: chapterIds.length ? chapterIds : null,
+                    statuses: statuses?.length
+                        ? CHAPTER_STATUSES.filter((status) =>
+                              statuses.includes(status),
+                          )
+                        : null,
+                    sceneSeparator: preset.sceneSeparator.trim(),
+                    stripComments: preset.stripComments,
+                    stripImages: preset.stripImages,
+                    mentionStyle: preset.mentionStyle,
+                    footnoteStyle,
+                };
+            },
+        );
+        const lastPresetId = presets.some(
+            (preset) => preset.id === request.settings.lastPresetId,
+        )
+            ? request.settings.lastPresetId
+            : null;
+
+        // Front and back matter must still point at this project's notes
+        const noteRef = (id: string | null) =>
+            id && project.scrapNoteIds.includes(id) ? id : null;
+        const seriesIndex =
+            epub.seriesIndex !== null && Number.isFinite(epub.seriesIndex)
+                ? Math.max(0, epub.seriesIndex)
+                : null;
+
+        const settings: ExportSettings = {
+            author: author.trim(),
+            epub: {
+                includeCover: epub.includeCover,
+                language: epub.language.trim() || "en",
+                publisher: epub.publisher.trim(),
+                identifier: epub.identifier.trim(),
+                seriesName: epub.seriesName.trim(),
+                seriesIndex: epub.seriesName.trim() ? seriesIndex : null,
+                description: epub.description.trim(),
+                dedicationNoteId: noteRef(epub.dedicationNoteId),
+                copyrightNoteId: noteRef(epub.copyrightNoteId),
+                acknowledgementsNoteId: noteRef(epub.acknowledgementsNoteId),
+                tocDepth: Math.min(3, Math.max(1, Math.round(epub.tocDepth))),
+                chapterNumbering: epub.chapterNumbering,
+            },
+            presets,
+            lastPresetId,
+        };
+
+        project.exportSettings = settings;
+        project.updatedAt = new Date();
+        await this.projectRepository.update(project);
+
+        return settings;
+    }
+}
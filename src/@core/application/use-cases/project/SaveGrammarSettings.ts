@@ -0,0 +1,79 @@
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import {
+    ChapterGrammarLanguage,
+    GRAMMAR_LEVELS,
+    GrammarSettings,
+} from "../../../domain/entities/story/GrammarSettings";
+import { isGrammarLanguageCode } from "../../utils/grammarSettings";
+
+export interface SaveGrammarSettingsRequest {
+    projectId: string;
+    settings: GrammarSettings;
+}
+
+const normalizeLanguage = (language: string): string => {
+    const code = language.trim();
+    if (!isGrammarLanguageCode(code)) {
+        throw new Error(`"${language}" is not a supported language code.`);
+    }
+    return code;
+};
+
+const normalizeCategoryIds = (ids: string[]): string[] => [
+    ...new Set(ids.map((id) => id.trim()).filter(Boolean)),
+];
+
+export class SaveGrammarSettings {
+    constructor(private readonly projectRepository: IProjectRepository) {}
+
+    async execute(
+        request: SaveGrammarSettingsRequest,
+    ): Promise<GrammarSettings> {
+        const projectId = request.projectId.trim();
+        if (!projectId) {
+            throw new Error("Project ID is required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        if (!GRAMMAR_LEVELS.includes(request.settings.level)) {
+            throw new Error("Unknown grammar check level.");
+        }
+
+        // One language per chapter, and only for chapters still in the project
+        const chapters = new Map<string, ChapterGrammarLanguage>();
+        for (const override of request.settings.chapters) {
+            if (project.chapterIds.includes(override.chapterId)) {
+                chapters.set(override.chapterId, {
+                    chapterId: override.chapterId,
+                    language: normalizeLanguage(override.language),
+                });
+            }
+        }
+
+        // A category turned both on and off stays off
+        const disabledCategoryIds = normalizeCategoryIds(
+            request.settings.disabledCategoryIds,
+        );
+        const enabledCategoryIds = normalizeCategoryIds(
+            request.settings.enabledCategoryIds,
+        ).filter((id) => !disabledCategoryIds.includes(id));
+
+        const settings: GrammarSettings = {
+            language: normalizeLanguage(request.settings.language),
+            level: request.settings.level,
+            chapters: [...chapters.values()],
+            enabledCategoryIds,
+            disabledCategoryIds,
+        };
+
+        project.grammarSettings = settings;
+        project.updatedAt = new Date();
+        await this.projectRepository.update(project);
+
+        return settings;
+    }
+}
@@ -0,0 +1,43 @@
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ProjectDictionary } from "../../../domain/entities/story/ProjectDictionary";
+import { normalizeDictionaryWords } from "../../utils/grammarDictionary";
+
+export interface SaveProjectDictionaryRequest {
+    projectId: string;
+    dictionary: ProjectDictionary;
+}
+
+export class SaveProjectDictionary {
+    constructor(private readonly projectRepository: IProjectRepository) {}
+
+    async execute(
+        request: SaveProjectDictionaryRequest,
+    ): Promise<ProjectDictionary> {
+        const projectId = request.projectId.trim();
+        if (!projectId) {
+            throw new Error("Project ID is required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        const dictionary: ProjectDictionary = {
+            words: normalizeDictionaryWords(request.dictionary.words),
+            disabledRuleIds: [
+                ...new Set(
+                    request.dictionary.disabledRuleIds
+                        .map((ruleId) => ruleId.trim())
+                        .filter(Boolean),
+                ),
+            ],
+        };
+
+        project.dictionary = dictionary;
+        project.updatedAt = new Date();
+        await this.projectRepository.update(project);
+
+        return dictionary;
+    }
+}
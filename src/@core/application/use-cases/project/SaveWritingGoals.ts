@@ -0,0 +1,77 @@
+import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import {
+    ChapterWordTarget,
+    EMPTY_WRITING_GOALS,
+    WordTarget,
+    WritingGoals,
+} from "../../../domain/entities/story/WritingGoals";
+import { isValidDateKey } from "../../utils/writingProgress";
+
+export interface SaveWritingGoalsRequest {
+    projectId: string;
+    /** The log is kept by SaveChapterContent and cannot be edited here. */
+    goals: Omit<WritingGoals, "log">;
+}
+
+const normalizeTarget = (target: WordTarget): WordTarget => {
+    if (!Number.isInteger(target.words) || target.words < 1) {
+        throw new Error("Word targets must be a whole number above zero.");
+    }
+    const deadline = target.deadline?.trim() || null;
+    if (deadline && !isValidDateKey(deadline)) {
+        throw new Error("Deadlines must be a valid date.");
+    }
+    return { words: target.words, deadline };
+};
+
+export class SaveWritingGoals {
+    constructor(private readonly projectRepository: IProjectRepository) {}
+
+    async execute(request: SaveWritingGoalsRequest): Promise<WritingGoals> {
+        const projectId = request.projectId.trim();
+        if (!projectId) {
+            throw new Error("Project ID is required.");
+        }
+
+        const project = await this.projectRepository.findById(projectId);
+        if (!project) {
+            throw new Error("Project not found.");
+        }
+
+        const { dailyWords } = request.goals;
+        if (
+            dailyWords !== null &&
+            (!Number.isInteger(dailyWords) || dailyWords < 1)
+        ) {
+            throw new Error(
+                "The daily goal must be a whole number above zero."
+            );
+        }
+
+        // One target per chapter, and only for chapters still in the project
+        const chapters = new Map<string, ChapterWordTarget>();
+        for (const target of request.goals.chapters) {
+            if (project.chapterIds.includes(target.chapterId)) {
+                chapters.set(target.chapterId, {
+                    chapterId: target.chapterId,
+                    ...normalizeTarget(target),
+                });
+            }
+        }
+
+        const goals: WritingGoals = {
+            project: request.goals.project
+                ? normalizeTarget(request.goals.project)
+                : null,
+            chapters: [...chapters.values()],
+            dailyWords,
+            log: (project.writingGoals ?? EMPTY_WRITING_GOALS).log,
+        };
+
+        project.writingGoals = goals;
+        project.updatedAt = new Date();
+        await this.projectRepository.update(project);
+
+        return goals;
+    }
+}
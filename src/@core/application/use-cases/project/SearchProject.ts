@@ -0,0 +1,75 @@
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
+import { ICharacterRepository } from "../../../domain/repositories/ICharacterRepository";
+import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
+import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
+import { IScrapNoteRepository } from "../../../domain/repositories/IScrapNoteRepository";
+import {
+    ISearchIndexService,
+    SearchIndexDocumentKind,
+    SearchIndexHit,
+} from "../../../domain/services/ISearchIndexService";
+import { collectSearchDocuments } from "../../utils/searchDocuments";
+
+export interface SearchProjectRequest {
+    projectId: string;
+    query: string;
+    /** Defaults to every kind of document. */
+    kinds?: SearchIndexDocumentKind[];
+    limit?: number;
+}
+
+export class SearchProject {
+    constructor(
+        private readonly chapterRepository: IChapterRepository,
+        private readonly scrapNoteRepository: IScrapNoteRepository,
+        private readonly characterRepository: ICharacterRepository,
+        private readonly locationRepository: ILocationRepository,
+        private readonly organizationRepository: IOrganizationRepository,
+        private readonly searchIndex: ISearchIndexService,
+    ) {}
+
+    async execute(request: SearchProjectRequest): Promise<SearchIndexHit[]> {
+        const projectId = request.projectId.trim();
+        if (!projectId) {
+            throw new Error("Project ID is required.");
+        }
+
+        const query = request.query.trim();
+        if (!query) {
+            return [];
+        }
+
+        // Opening the project normally does this already
+        if (!this.searchIndex.isSynchronized(projectId)) {
+            await this.synchronize(projectId);
+        }
+
+        return this.searchIndex.search(projectId, {
+            text: query,
+            kinds: request.kinds,
+            limit: request.limit,
+        });
+    }
+
+    private async synchronize(projectId: string): Promise<void> {
+        const [chapters, scrapNotes, characters, locations, organizations] =
+            await Promise.all([
+                this.chapterRepository.findByProjectId(projectId),
+                this.scrapNoteRepository.findByProjectId(projectId),
+                this.characterRepository.findByProjectId(projectId),
+                this.locationRepository.findByProjectId(projectId),
+                this.organizationRepository.findByProjectId(projectId),
+            ]);
+
+        await this.searchIndex.synchronize(
+            projectId,
+            collectSearchDocuments({
+                chapters,
+                scrapNotes,
+                characters,
+                locations,
+                organizations,
+            }),
+        );
+    }
+}
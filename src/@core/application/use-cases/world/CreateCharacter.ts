@@ -46,6 +46,7 @@ export class CreateCharacter {
             id,
             "",
             "",
+            [],
             null,
             null,
             null,
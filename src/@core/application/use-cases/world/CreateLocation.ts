@@ -49,6 +49,7 @@ export class CreateLocation {
             id,
             "",
             "",
+            [],
             now,
             now,
             null,
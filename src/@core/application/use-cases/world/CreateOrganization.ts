@@ -50,6 +50,7 @@ export class CreateOrganization {
             "",
             [],
             [],
+            [],
             null,
             null,
             now,
@@ -1,8 +1,10 @@
 import { Character } from "../../../domain/entities/story/world/Character";
 import { IAssetRepository } from "../../../domain/repositories/IAssetRepository";
+import { IChapterRepository } from "../../../domain/repositories/IChapterRepository";
 import { ICharacterRepository } from "../../../domain/repositories/ICharacterRepository";
 import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
 import { IStorageService } from "../../../domain/services/IStorageService";
 
 export interface DeleteCharacterRequest {
@@ -14,9 +16,11 @@ export class DeleteCharacter {
     constructor(
         private readonly characterRepository: ICharacterRepository,
         private readonly locationRepository: ILocationRepository,
+        private readonly chapterRepository: IChapterRepository,
         private readonly projectRepository: IProjectRepository,
         private readonly assetRepository: IAssetRepository,
         private readonly storageService: IStorageService,
+        private readonly searchIndex: ISearchIndexService,
     ) {}
 
     async execute(request: DeleteCharacterRequest): Promise<void> {
@@ -49,11 +53,15 @@ export class DeleteCharacter {
         // 2. Detach from Locations (Dependents)
         await this.detachFromLocations(projectId, character);
 
-        // 3. Delete Assets (Children)
+        // 3. Clear point of view from Chapters (Dependents)
+        await this.detachFromChapters(projectId, characterId);
+
+        // 4. Delete Assets (Children)
         await this.deleteCharacterAssets(character);
 
-        // 4. Delete Character (Self)
+        // 5. Delete Character (Self)
         await this.characterRepository.delete(characterId);
+        await this.searchIndex.removeDocument(characterId);
     }
 
     private async deleteCharacterAssets(character: Character): Promise<void> {
@@ -93,6 +101,24 @@ export class DeleteCharacter {
         await Promise.all(updates);
     }
 
+    private async detachFromChapters(
+        projectId: string,
+        characterId: string,
+    ): Promise<void> {
+        const chapters =
+            await this.chapterRepository.findByProjectId(projectId);
+
+        const updates = chapters
+            .filter((chapter) => chapter.povCharacterId === characterId)
+            .map((chapter) => {
+                chapter.povCharacterId = null;
+                chapter.updatedAt = new Date();
+                return this.chapterRepository.update(chapter);
+            });
+
+        await Promise.all(updates);
+    }
+
     private async deleteGalleryImages(imageIds: string[]): Promise<void> {
         const deletions = imageIds.map(async (imageId) => {
             const image = await this.assetRepository.findImageById(imageId);
@@ -4,6 +4,7 @@ import { ICharacterRepository } from "../../../domain/repositories/ICharacterRep
 import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
 import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
 import { IStorageService } from "../../../domain/services/IStorageService";
 
 export interface DeleteLocationRequest {
@@ -19,6 +20,7 @@ export class DeleteLocation {
         private readonly organizationRepository: IOrganizationRepository,
         private readonly assetRepository: IAssetRepository,
         private readonly storageService: IStorageService,
+        private readonly searchIndex: ISearchIndexService,
     ) {}
 
     async execute(request: DeleteLocationRequest): Promise<void> {
@@ -141,6 +143,7 @@ export class DeleteLocation {
             }
             await this.deleteLocationAssets(subtreeLocation);
             await this.locationRepository.delete(subtreeLocationId);
+            await this.searchIndex.removeDocument(subtreeLocationId);
         }
     }
 
@@ -4,6 +4,7 @@ import { ICharacterRepository } from "../../../domain/repositories/ICharacterRep
 import { ILocationRepository } from "../../../domain/repositories/ILocationRepository";
 import { IOrganizationRepository } from "../../../domain/repositories/IOrganizationRepository";
 import { IProjectRepository } from "../../../domain/repositories/IProjectRepository";
+import { ISearchIndexService } from "../../../domain/services/ISearchIndexService";
 import { IStorageService } from "../../../domain/services/IStorageService";
 
 export interface DeleteOrganizationRequest {
@@ -19,6 +20,7 @@ export class DeleteOrganization {
         private readonly locationRepository: ILocationRepository,
         private readonly assetRepository: IAssetRepository,
         private readonly storageService: IStorageService,
+        private readonly searchIndex: ISearchIndexService,
     ) {}
 
     async execute(request: DeleteOrganizationRequest): Promise<void> {
@@ -60,6 +62,7 @@ export class DeleteOrganization {
 
         // 5. Delete Organization (Self)
         await this.organizationRepository.delete(organizationId);
+        await this.searchIndex.removeDocument(organizationId);
     }
 
     private async detachCharactersFromOrganization(
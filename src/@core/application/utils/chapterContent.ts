@@ -0,0 +1,112 @@
+type TiptapDocNode = {
+    type?: unknown;
+    attrs?: Record<string, unknown>;
+    content?: TiptapDocNode[];
+    marks?: { type?: unknown; attrs?: Record<string, unknown> }[];
+};
+
+/** Parses stored TipTap JSON; empty content reads as an empty document. */
+const parseDocument = (content: string): TiptapDocNode => {
+    if (!content.trim()) {
+        return { type: "doc", content: [] };
+    }
+
+    let parsed: unknown = null;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        // Falls through to the error below
+    }
+    if (
+        !parsed ||
+        typeof parsed !== "object" ||
+        (parsed as TiptapDocNode).type !== "doc"
+    ) {
+        throw new Error(
+            "Chapter content is not in a format that can be merged.",
+        );
+    }
+    return parsed as TiptapDocNode;
+};
+
+/**
+ * One document holding the blocks of `first` followed by those of `second`.
+ * Marks, images and references inside the blocks are carried over as is.
+ */
+export const joinChapterContents = (first: string, second: string): string => {
+    const head = parseDocument(first);
+    const tail = parseDocument(second);
+    return JSON.stringify({
+        ...head,
+        content: [...(head.content ?? []), ...(tail.content ?? [])],
+    });
+};
+
+/**
+ * Points every reference to the chapter `fromId` at `toId` instead. Returns
+ * null when the content holds no such reference, so callers can skip saving.
+ */
+export const retargetChapterReferences = (
+    content: string,
+    fromId: string,
+    toId: string,
+): string | null => {
+    if (!content.includes(fromId)) {
+        return null;
+    }
+
+    let parsed: TiptapDocNode;
+    try {
+        parsed = JSON.parse(content) as TiptapDocNode;
+    } catch {
+        return null;
+    }
+
+    let changed = false;
+    const visit = (node: TiptapDocNode): TiptapDocNode => {
+        if (
+            node.type === "documentReference" &&
+            node.attrs?.kind === "chapter" &&
+            node.attrs.id === fromId
+        ) {
+            changed = true;
+            return { ...node, attrs: { ...node.attrs, id: toId } };
+        }
+        if (Array.isArray(node.content)) {
+            return { ...node, content: node.content.map(visit) };
+        }
+        return node;
+    };
+
+    const next = visit(parsed);
+    return changed ? JSON.stringify(next) : null;
+};
+
+/**
+ * The ids of the inline comments highlighted in `content`, which are also
+ * the ids of their comment threads. Unreadable content holds none.
+ */
+export const collectInlineCommentIds = (content: string): string[] => {
+    let parsed: TiptapDocNode;
+    try {
+        parsed = JSON.parse(content) as TiptapDocNode;
+    } catch {
+        return [];
+    }
+
+    const ids = new Set<string>();
+    const visit = (node: TiptapDocNode) => {
+        node.marks?.forEach((mark) => {
+            if (
+                mark.type === "inlineComment" &&
+                typeof mark.attrs?.commentId === "string"
+            ) {
+                ids.add(mark.attrs.commentId);
+            }
+        });
+        node.content?.forEach(visit);
+    };
+
+    visit(parsed);
+    return Array.from(ids);
+};
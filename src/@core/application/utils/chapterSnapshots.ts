@@ -0,0 +1,76 @@
+import { Chapter } from "../../domain/entities/story/Chapter";
+import { ChapterHistoryRetention } from "../../domain/entities/story/ChapterHistoryRetention";
+import {
+    ChapterSnapshot,
+    ChapterSnapshotReason,
+} from "../../domain/entities/story/ChapterSnapshot";
+import { IChapterSnapshotRepository } from "../../domain/repositories/IChapterSnapshotRepository";
+import { generateId } from "./id";
+import { countWords, extractPlainText } from "./tiptapText";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Saves the chapter's stored content as a snapshot, unless it is identical to
+ * the latest one, then prunes the chapter's history to the retention limits.
+ */
+export const recordChapterSnapshot = async (
+    snapshotRepository: IChapterSnapshotRepository,
+    projectId: string,
+    chapter: Chapter,
+    reason: ChapterSnapshotReason,
+    retention: ChapterHistoryRetention
+): Promise<ChapterSnapshot | null> => {
+    const latest = await snapshotRepository.findLatest(projectId, chapter.id);
+    if (latest?.content === chapter.content) {
+        return null;
+    }
+
+    const snapshot = new ChapterSnapshot(
+        generateId(),
+        projectId,
+        chapter.id,
+        chapter.title,
+        chapter.content,
+        countWords(extractPlainText(chapter.content)),
+        reason,
+        new Date()
+    );
+    await snapshotRepository.create(snapshot);
+    await pruneChapterSnapshots(
+        snapshotRepository,
+        projectId,
+        chapter.id,
+        retention
+    );
+
+    return snapshot;
+};
+
+/** Deletes snapshots beyond the retention's count and age limits. */
+export const pruneChapterSnapshots = async (
+    snapshotRepository: IChapterSnapshotRepository,
+    projectId: string,
+    chapterId: string,
+    retention: ChapterHistoryRetention
+): Promise<void> => {
+    const snapshots = await snapshotRepository.findByChapterId(
+        projectId,
+        chapterId
+    );
+    const oldestKept =
+        retention.maxAgeDays === null
+            ? null
+            : Date.now() - retention.maxAgeDays * DAY_MS;
+
+    const expired = snapshots.filter(
+        (snapshot, index) =>
+            index >= retention.maxSnapshotsPerChapter ||
+            (oldestKept !== null && snapshot.createdAt.getTime() < oldestKept)
+    );
+    await Promise.all(
+        expired.map((snapshot) =>
+            snapshotRepository.delete(projectId, chapterId, snapshot.id)
+        )
+    );
+};
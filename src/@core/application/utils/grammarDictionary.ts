@@ -0,0 +1,73 @@
+import type { LanguageToolMatch } from "../../domain/services/ILanguageToolService";
+
+/** Words and rules a grammar check should let through. */
+export type GrammarExceptions = {
+    words: string[];
+    disabledRuleIds: string[];
+};
+
+const wordKey = (word: string) =>
+    word
+        .trim()
+        .replace(/['’]s$/u, "")
+        .toLowerCase();
+
+/**
+ * Trims words and drops blanks and repeats, ignoring case. The first spelling
+ * wins, so the list reads the way the author added it.
+ */
+export const normalizeDictionaryWords = (words: string[]): string[] => {
+    const seen = new Set<string>();
+    const result: string[] = [];
+
+    for (const word of words) {
+        const trimmed = word.trim().replace(/\s+/g, " ");
+        const key = trimmed.toLowerCase();
+        if (!trimmed || seen.has(key)) {
+            continue;
+        }
+        seen.add(key);
+        result.push(trimmed);
+    }
+    return result;
+};
+
+/** True for matches that flag a word the checker does not know. */
+export const isSpellingMatch = (
+    match: Pick<LanguageToolMatch, "rule">,
+): boolean =>
+    match.rule.issueType === "misspelling" ||
+    match.rule.category.id === "TYPOS";
+
+/**
+ * Drops matches for disabled rules, and spelling matches on a dictionary
+ * word. Multi-word entries such as full names also accept each of their
+ * words, since the checker flags them one at a time; a possessive "'s" is
+ * ignored and case does not matter.
+ */
+export const filterGrammarMatches = (
+    text: string,
+    matches: LanguageToolMatch[],
+    exceptions: GrammarExceptions,
+): LanguageToolMatch[] => {
+    const disabled = new Set(exceptions.disabledRuleIds);
+    const known = new Set<string>();
+    for (const entry of exceptions.words) {
+        known.add(wordKey(entry));
+        for (const part of entry.split(/\s+/)) {
+            known.add(wordKey(part));
+        }
+    }
+    known.delete("");
+
+    return matches.filter((match) => {
+        if (disabled.has(match.rule.id)) {
+            return false;
+        }
+        if (!isSpellingMatch(match) || known.size === 0) {
+            return true;
+        }
+        const flagged = text.slice(match.offset, match.offset + match.length);
+        return !known.has(wordKey(flagged));
+    });
+};
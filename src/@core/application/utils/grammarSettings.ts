@@ -0,0 +1,33 @@
+import {
+    DEFAULT_GRAMMAR_SETTINGS,
+    type GrammarSettings,
+} from "../../domain/entities/story/GrammarSettings";
+import type { GrammarCheckRequest } from "../../domain/services/ILanguageToolService";
+
+// "auto", or a LanguageTool code such as "fr", "en-GB" or "ca-ES-valencia"
+const LANGUAGE_CODE_PATTERN = /^(auto|[a-z]{2,3}(-[A-Za-z0-9]+)*)$/;
+
+export const isGrammarLanguageCode = (code: string): boolean =>
+    LANGUAGE_CODE_PATTERN.test(code);
+
+/**
+ * The language and rules to check a document with. A chapter's own language
+ * wins over the project's.
+ */
+export const resolveGrammarCheckOptions = (
+    settings: GrammarSettings | null,
+    chapterId?: string | null,
+): Omit<GrammarCheckRequest, "text"> => {
+    const resolved = settings ?? DEFAULT_GRAMMAR_SETTINGS;
+    const chapterLanguage = chapterId
+        ? resolved.chapters.find((chapter) => chapter.chapterId === chapterId)
+              ?.language
+        : undefined;
+
+    return {
+        language: chapterLanguage ?? resolved.language,
+        level: resolved.level,
+        enabledCategories: resolved.enabledCategoryIds,
+        disabledCategories: resolved.disabledCategoryIds,
+    };
+};
@@ -0,0 +1,145 @@
+import { parseTextBlocks, type TextBlockNode } from "./textBlocks";
+
+/**
+ * One text block of a chapter as LanguageTool reads it. `blockIndex` counts
+ * every text block in document order, code included, and `positions` maps
+ * each character back to its offset inside the block in the editor, where
+ * an inline node such as a reference takes a single position.
+ */
+export type GrammarTextBlock = {
+    blockIndex: number;
+    text: string;
+    positions: number[];
+};
+
+/** Consecutive blocks checked in one request, joined by blank lines. */
+export type GrammarTextChunk = {
+    text: string;
+    blocks: Array<{ block: GrammarTextBlock; start: number }>;
+};
+
+const BLOCK_SEPARATOR = "\n\n";
+
+const readBlock = (
+    node: TextBlockNode,
+    blockIndex: number,
+): GrammarTextBlock => {
+    const block: GrammarTextBlock = { blockIndex, text: "", positions: [] };
+    let position = 0;
+
+    const append = (text: string, at: (index: number) => number) => {
+        for (let index = 0; index < text.length; index += 1) {
+            block.positions.push(at(index));
+        }
+        block.text += text;
+    };
+
+    for (const child of node.content ?? []) {
+        if (child.type === "text") {
+            const start = position;
+            append(child.text ?? "", (index) => start + index);
+            position += (child.text ?? "").length;
+            continue;
+        }
+
+        // A reference reads as its label; every character maps onto it
+        const leafPosition = position;
+        if (child.type === "documentReference") {
+            append(String(child.attrs?.label ?? ""), () => leafPosition);
+        } else if (child.type === "hardBreak") {
+            append("\n", () => leafPosition);
+        }
+        position += 1;
+    }
+    return block;
+};
+
+/**
+ * The prose blocks of stored Tiptap JSON. Code blocks and empty blocks are
+ * left out but still counted, so block indexes match the editor's.
+ */
+export const readGrammarBlocks = (content: string): GrammarTextBlock[] =>
+    parseTextBlocks(content).flatMap((node, blockIndex) => {
+        const block = readBlock(node, blockIndex);
+        return node.type !== "codeBlock" && block.text.trim() ? [block] : [];
+    });
+
+/**
+ * Groups blocks into requests of at most `maxLength` characters. A block
+ * longer than that is sent on its own rather than split mid-sentence.
+ */
+export const chunkGrammarBlocks = (
+    blocks: GrammarTextBlock[],
+    maxLength: number,
+): GrammarTextChunk[] => {
+    const chunks: GrammarTextChunk[] = [];
+    let current: GrammarTextChunk | null = null;
+
+    for (const block of blocks) {
+        if (
+            current &&
+            current.text.length + BLOCK_SEPARATOR.length + block.text.length >
+                maxLength
+        ) {
+            chunks.push(current);
+            current = null;
+        }
+        if (!current) {
+            current = { text: block.text, blocks: [{ block, start: 0 }] };
+            continue;
+        }
+        const start = current.text.length + BLOCK_SEPARATOR.length;
+        current.text += BLOCK_SEPARATOR + block.text;
+        current.blocks.push({ block, start });
+    }
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks;
+};
+
+/**
+ * Where a match in a chunk falls in the editor: the block, and the offset
+ * and length inside it. Null for matches on the separator between blocks.
+ */
+export const locateGrammarMatch = (
+    chunk: GrammarTextChunk,
+    offset: number,
+    length: number,
+): {
+    block: GrammarTextBlock;
+    textOffset: number;
+    textLength: number;
+    offset: number;
+    length: number;
+} | null => {
+    let located: GrammarTextChunk["blocks"][number] | null = null;
+    for (const entry of chunk.blocks) {
+        if (entry.start > offset) {
+            break;
+        }
+        located = entry;
+    }
+    if (!located) {
+        return null;
+    }
+
+    const { block } = located;
+    const textOffset = offset - located.start;
+    if (textOffset >= block.text.length) {
+        return null;
+    }
+    const textLength = Math.max(
+        1,
+        Math.min(length, block.text.length - textOffset),
+    );
+    const from = block.positions[textOffset];
+    const to = block.positions[textOffset + textLength - 1] + 1;
+    return {
+        block,
+        textOffset,
+        textLength,
+        offset: from,
+        length: to - from,
+    };
+};
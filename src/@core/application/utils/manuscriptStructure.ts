@@ -0,0 +1,281 @@
+import { Chapter } from "../../domain/entities/story/Chapter";
+import {
+    DEFAULT_PART_TITLE,
+    ManuscriptNode,
+    ManuscriptNodeType,
+    ManuscriptStructure,
+} from "../../domain/entities/story/ManuscriptStructure";
+import { Project } from "../../domain/entities/story/Project";
+import { IChapterRepository } from "../../domain/repositories/IChapterRepository";
+import { IProjectRepository } from "../../domain/repositories/IProjectRepository";
+
+export type ManuscriptNodeLocation = {
+    node: ManuscriptNode;
+    /** Null for nodes at the root of the manuscript. */
+    parent: ManuscriptNode | null;
+    index: number;
+};
+
+/**
+ * What a document placed under `parentType` becomes: a chapter at the root or
+ * inside a part, a scene inside a chapter. Null where nothing can be placed.
+ */
+export const getDocumentNodeType = (
+    parentType: ManuscriptNodeType | null
+): "chapter" | "scene" | null => {
+    switch (parentType) {
+        case null:
+        case "part":
+            return "chapter";
+        case "chapter":
+            return "scene";
+        case "scene":
+            return null;
+    }
+};
+
+/** Whether a node of `type` may sit directly under `parentType`. */
+export const canContainNode = (
+    parentType: ManuscriptNodeType | null,
+    type: ManuscriptNodeType
+): boolean =>
+    type === "part"
+        ? parentType === null
+        : getDocumentNodeType(parentType) === type;
+
+/** Chapter and scene IDs in reading order. */
+export const flattenManuscriptDocuments = (
+    structure: ManuscriptStructure
+): string[] =>
+    structure.flatMap((node) => [
+        ...(node.type === "part" ? [] : [node.id]),
+        ...flattenManuscriptDocuments(node.children),
+    ]);
+
+export const findManuscriptNode = (
+    structure: ManuscriptStructure,
+    id: string,
+    parent: ManuscriptNode | null = null
+): ManuscriptNodeLocation | null => {
+    for (let index = 0; index < structure.length; index += 1) {
+        const node = structure[index];
+        if (node.id === id) {
+            return { node, parent, index };
+        }
+        const nested = findManuscriptNode(node.children, id, node);
+        if (nested) {
+            return nested;
+        }
+    }
+    return null;
+};
+
+const cloneNodes = (nodes: ManuscriptStructure): ManuscriptStructure =>
+    nodes.map((node) => ({ ...node, children: cloneNodes(node.children) }));
+
+/**
+ * Repairs a stored structure against the project's chapter documents, and
+ * builds one for projects that predate parts and scenes. Missing documents
+ * are dropped with their scenes moved up in their place, duplicates and
+ * misplaced parts are flattened out, types follow position, and documents
+ * the structure does not know about are appended as chapters.
+ */
+export const normalizeManuscriptStructure = (
+    structure: ManuscriptStructure | null | undefined,
+    documentIds: string[]
+): ManuscriptStructure => {
+    const known = new Set(documentIds);
+    const seen = new Set<string>();
+
+    const place = (
+        nodes: ManuscriptNode[] | undefined,
+        parentType: ManuscriptNodeType | null
+    ): ManuscriptNode[] => {
+        const placed: ManuscriptNode[] = [];
+        for (const node of Array.isArray(nodes) ? nodes : []) {
+            if (!node || typeof node.id !== "string") {
+                continue;
+            }
+
+            if (node.type === "part") {
+                if (parentType === null && !seen.has(node.id)) {
+                    seen.add(node.id);
+                    placed.push({
+                        id: node.id,
+                        type: "part",
+                        title: node.title?.trim() || DEFAULT_PART_TITLE,
+                        children: place(node.children, "part"),
+                    });
+                } else {
+                    placed.push(...place(node.children, parentType));
+                }
+                continue;
+            }
+
+            if (!known.has(node.id) || seen.has(node.id)) {
+                placed.push(...place(node.children, parentType));
+                continue;
+            }
+
+            seen.add(node.id);
+            if (getDocumentNodeType(parentType) === "scene") {
+                // Scenes cannot hold scenes, so any become its siblings
+                placed.push({ id: node.id, type: "scene", children: [] });
+                placed.push(...place(node.children, parentType));
+            } else {
+                placed.push({
+                    id: node.id,
+                    type: "chapter",
+                    children: place(node.children, "chapter"),
+                });
+            }
+        }
+        return placed;
+    };
+
+    const roots = place(structure ?? [], null);
+    for (const id of documentIds) {
+        if (!seen.has(id)) {
+            seen.add(id);
+            roots.push({ id, type: "chapter", children: [] });
+        }
+    }
+    return roots;
+};
+
+/** The top-level slot holding the document at flat position `documentIndex`. */
+export const getRootIndexForDocument = (
+    structure: ManuscriptStructure,
+    documentIndex: number
+): number => {
+    let documentsBefore = 0;
+    for (let index = 0; index < structure.length; index += 1) {
+        documentsBefore += flattenManuscriptDocuments([
+            structure[index],
+        ]).length;
+        if (documentsBefore > documentIndex) {
+            return index;
+        }
+    }
+    return structure.length;
+};
+
+/**
+ * Places `node` under `parentId` (null for the root) at `index`, retyping
+ * chapters and scenes for their new position.
+ */
+export const insertManuscriptNode = (
+    structure: ManuscriptStructure,
+    node: ManuscriptNode,
+    parentId: string | null,
+    index: number
+): ManuscriptStructure => {
+    const next = cloneNodes(structure);
+    const parent = parentId
+        ? (findManuscriptNode(next, parentId)?.node ?? null)
+        : null;
+    if (parentId && !parent) {
+        throw new Error("Destination not found in the manuscript.");
+    }
+
+    const parentType = parent?.type ?? null;
+    const type =
+        node.type === "part" ? "part" : getDocumentNodeType(parentType);
+    if (!type || !canContainNode(parentType, type)) {
+        throw new Error(
+            node.type === "part"
+                ? "Parts can only be placed at the top of the manuscript."
+                : "Scenes cannot contain other documents."
+        );
+    }
+    if (type === "scene" && node.children.length > 0) {
+        throw new Error(
+            "Move this chapter's scenes out before placing it inside another chapter."
+        );
+    }
+
+    const siblings = parent ? parent.children : next;
+    const position = Math.max(0, Math.min(Math.floor(index), siblings.length));
+    siblings.splice(position, 0, { ...node, type });
+    return next;
+};
+
+/** Takes a node, with everything under it, out of the structure. */
+export const removeManuscriptNode = (
+    structure: ManuscriptStructure,
+    id: string
+): { structure: ManuscriptStructure; node: ManuscriptNode | null } => {
+    const next = cloneNodes(structure);
+    const location = findManuscriptNode(next, id);
+    if (!location) {
+        return { structure: next, node: null };
+    }
+    (location.parent ? location.parent.children : next).splice(
+        location.index,
+        1
+    );
+    return { structure: next, node: location.node };
+};
+
+/**
+ * Moves a node under `parentId` (null for the root). `index` is its position
+ * among the new siblings once it has been taken out of its old place.
+ */
+export const moveManuscriptNode = (
+    structure: ManuscriptStructure,
+    id: string,
+    parentId: string | null,
+    index: number
+): ManuscriptStructure => {
+    const removed = removeManuscriptNode(structure, id);
+    if (!removed.node) {
+        throw new Error("Document not found in the manuscript.");
+    }
+    return insertManuscriptNode(
+        removed.structure,
+        removed.node,
+        parentId,
+        index
+    );
+};
+
+/**
+ * Saves a structure along with what follows from it: the project's flat
+ * chapter list and each chapter's order, both in reading order.
+ */
+export const applyManuscriptStructure = async (
+    projectRepository: IProjectRepository,
+    chapterRepository: IChapterRepository,
+    project: Project,
+    chapters: Chapter[],
+    structure: ManuscriptStructure
+): Promise<ManuscriptStructure> => {
+    const normalized = normalizeManuscriptStructure(
+        structure,
+        chapters.map((chapter) => chapter.id)
+    );
+    const orderedIds = flattenManuscriptDocuments(normalized);
+    const chapterMap = new Map(
+        chapters.map((chapter) => [chapter.id, chapter])
+    );
+    const now = new Date();
+
+    await Promise.all(
+        orderedIds.map((chapterId, index) => {
+            const chapter = chapterMap.get(chapterId);
+            if (!chapter || chapter.order === index) {
+                return Promise.resolve();
+            }
+            chapter.order = index;
+            chapter.updatedAt = now;
+            return chapterRepository.update(chapter);
+        })
+    );
+
+    project.chapterIds = orderedIds;
+    project.manuscriptStructure = normalized;
+    project.updatedAt = now;
+    await projectRepository.update(project);
+
+    return normalized;
+};
@@ -0,0 +1,23 @@
+/**
+ * Trims aliases and drops blanks, repeats and any alias that is just the
+ * entity's own name, ignoring case and spacing. The first spelling wins.
+ */
+export const normalizeAliases = (aliases: string[], name: string): string[] => {
+    const key = (value: string) => value.replace(/\s+/g, " ").toLowerCase();
+    const seen = new Set([key(name.trim())]);
+    const result: string[] = [];
+
+    for (const alias of aliases) {
+        const trimmed = alias.trim().replace(/\s+/g, " ");
+        if (!trimmed || seen.has(key(trimmed))) {
+            continue;
+        }
+        seen.add(key(trimmed));
+        result.push(trimmed);
+    }
+    return result;
+};
+
+export const sameAliases = (left: string[], right: string[]): boolean =>
+    left.length === right.length &&
+    left.every((alias, index) => alias === right[index]);
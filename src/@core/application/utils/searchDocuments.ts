@@ -0,0 +1,77 @@
+import { Chapter } from "../../domain/entities/story/Chapter";
+import { ScrapNote } from "../../domain/entities/story/ScrapNote";
+import { Character } from "../../domain/entities/story/world/Character";
+import { Location } from "../../domain/entities/story/world/Location";
+import { Organization } from "../../domain/entities/story/world/Organization";
+import {
+    SearchIndexDocument,
+    SearchIndexDocumentKind,
+} from "../../domain/services/ISearchIndexService";
+import { extractPlainText } from "./tiptapText";
+
+type WorldEntity = Pick<
+    Character,
+    "id" | "name" | "aliases" | "description"
+>;
+
+export interface SearchableProject {
+    chapters: Chapter[];
+    scrapNotes: ScrapNote[];
+    characters: Character[];
+    locations: Location[];
+    organizations: Organization[];
+}
+
+export const chapterSearchDocument = (
+    chapter: Pick<Chapter, "id" | "title" | "content">
+): SearchIndexDocument => ({
+    kind: "chapter",
+    id: chapter.id,
+    title: chapter.title,
+    text: extractPlainText(chapter.content),
+});
+
+export const scrapNoteSearchDocument = (
+    note: Pick<ScrapNote, "id" | "title" | "content">
+): SearchIndexDocument => ({
+    kind: "scrapNote",
+    id: note.id,
+    title: note.title,
+    text: extractPlainText(note.content),
+});
+
+/** Entities are found by name and aliases as well as by description. */
+export const entitySearchDocument = (
+    kind: Extract<
+        SearchIndexDocumentKind,
+        "character" | "location" | "organization"
+    >,
+    entity: WorldEntity
+): SearchIndexDocument => ({
+    kind,
+    id: entity.id,
+    title: entity.name,
+    text: [
+        entity.name,
+        ...entity.aliases,
+        extractPlainText(entity.description),
+    ]
+        .filter(Boolean)
+        .join("\n"),
+});
+
+export const collectSearchDocuments = (
+    project: SearchableProject
+): SearchIndexDocument[] => [
+    ...project.chapters.map(chapterSearchDocument),
+    ...project.scrapNotes.map(scrapNoteSearchDocument),
+    ...project.characters.map((character) =>
+        entitySearchDocument("character", character)
+    ),
+    ...project.locations.map((location) =>
+        entitySearchDocument("location", location)
+    ),
+    ...project.organizations.map((organization) =>
+        entitySearchDocument("organization", organization)
+    ),
+];
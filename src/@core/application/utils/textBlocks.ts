@@ -0,0 +1,46 @@
+/** A node of stored Tiptap JSON. */
+export type TextBlockNode = {
+    type?: string;
+    text?: string;
+    attrs?: Record<string, unknown>;
+    content?: TextBlockNode[];
+};
+
+// The block nodes whose children are text, as the editor schema has them
+const TEXTBLOCK_TYPES = new Set(["paragraph", "heading", "codeBlock"]);
+
+const collectTextBlocks = (
+    node: TextBlockNode,
+    blocks: TextBlockNode[],
+): void => {
+    if (node.type && TEXTBLOCK_TYPES.has(node.type)) {
+        blocks.push(node);
+        return;
+    }
+    for (const child of node.content ?? []) {
+        collectTextBlocks(child, blocks);
+    }
+};
+
+/**
+ * The text blocks of stored Tiptap JSON in document order. A block's index
+ * in this list is the one the editor finds it by, so positions saved as a
+ * block index and an offset survive the trip to the editor.
+ */
+export const parseTextBlocks = (content: string): TextBlockNode[] => {
+    if (!content) {
+        return [];
+    }
+
+    let root: TextBlockNode;
+    try {
+        root = JSON.parse(content) as TextBlockNode;
+    } catch {
+        // Legacy HTML content has no blocks to count
+        return [];
+    }
+
+    const blocks: TextBlockNode[] = [];
+    collectTextBlocks(root, blocks);
+    return blocks;
+};
@@ -0,0 +1,139 @@
+import {
+    EMPTY_WRITING_GOALS,
+    WordTarget,
+    WritingGoals,
+} from "../../domain/entities/story/WritingGoals";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type WordTargetProgress = {
+    current: number;
+    target: number;
+    remaining: number;
+    /** Days left including today; null without a deadline, 0 once it has passed. */
+    daysLeft: number | null;
+    /** Words a day needed to meet the deadline; null without one or once it has passed. */
+    wordsPerDay: number | null;
+};
+
+/** YYYY-MM-DD in the local time zone. */
+export const toLocalDateKey = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const parseDateKey = (key: string): Date | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+    if (!match) {
+        return null;
+    }
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+export const isValidDateKey = (key: string): boolean => {
+    const date = parseDateKey(key);
+    return date !== null && toLocalDateKey(date) === key;
+};
+
+/** Whole calendar days from `from` to `to`, ignoring DST shifts. */
+const daysBetween = (from: Date, to: Date): number =>
+    Math.round(
+        (Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) -
+            Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) /
+            DAY_MS
+    );
+
+/** Adds a net word change to the given day's log entry. */
+export const addWordsWritten = (
+    goals: WritingGoals | null,
+    words: number,
+    date: Date = new Date()
+): WritingGoals => {
+    const base = goals ?? EMPTY_WRITING_GOALS;
+    const key = toLocalDateKey(date);
+    const log = [...base.log];
+    const index = log.findIndex((entry) => entry.date === key);
+
+    if (index >= 0) {
+        log[index] = { date: key, words: log[index].words + words };
+    } else {
+        log.push({ date: key, words });
+        log.sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    return { ...base, log };
+};
+
+export const getWordsWrittenOn = (
+    goals: WritingGoals | null,
+    date: Date = new Date()
+): number => {
+    const key = toLocalDateKey(date);
+    return goals?.log.find((entry) => entry.date === key)?.words ?? 0;
+};
+
+/**
+ * Consecutive days, ending today, that met the daily goal. Today not having
+ * met it yet does not break a streak that ran through yesterday.
+ */
+export const calculateStreak = (
+    goals: WritingGoals | null,
+    today: Date = new Date()
+): number => {
+    if (!goals) {
+        return 0;
+    }
+
+    const threshold = goals.dailyWords ?? 1;
+    const metByDate = new Set(
+        goals.log
+            .filter((entry) => entry.words >= threshold)
+            .map((entry) => entry.date)
+    );
+
+    const cursor = new Date(
+        today.getFullYear(),
+        today.getMonth(),
+        today.getDate()
+    );
+    if (!metByDate.has(toLocalDateKey(cursor))) {
+        cursor.setDate(cursor.getDate() - 1);
+    }
+
+    let streak = 0;
+    while (metByDate.has(toLocalDateKey(cursor))) {
+        streak += 1;
+        cursor.setDate(cursor.getDate() - 1);
+    }
+    return streak;
+};
+
+/** How far `current` is from a target, and the pace its deadline requires. */
+export const getWordTargetProgress = (
+    target: WordTarget,
+    current: number,
+    today: Date = new Date()
+): WordTargetProgress => {
+    const remaining = Math.max(0, target.words - current);
+    const deadline = target.deadline ? parseDateKey(target.deadline) : null;
+
+    if (!deadline) {
+        return {
+            current,
+            target: target.words,
+            remaining,
+            daysLeft: null,
+            wordsPerDay: null,
+        };
+    }
+
+    const daysLeft = Math.max(0, daysBetween(today, deadline) + 1);
+    return {
+        current,
+        target: target.words,
+        remaining,
+        daysLeft,
+        wordsPerDay: daysLeft > 0 ? Math.ceil(remaining / daysLeft) : null,
+    };
+};
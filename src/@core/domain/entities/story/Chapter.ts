@@ -1,3 +1,30 @@
+/** Where a chapter stands in revision, from first notion to finished text. */
+export type ChapterStatus = "idea" | "draft" | "revised" | "final";
+
+export const CHAPTER_STATUSES: ChapterStatus[] = [
+    "idea",
+    "draft",
+    "revised",
+    "final",
+];
+
+export type ChapterLabel =
+    | "red"
+    | "orange"
+    | "yellow"
+    | "green"
+    | "blue"
+    | "purple";
+
+export const CHAPTER_LABELS: ChapterLabel[] = [
+    "red",
+    "orange",
+    "yellow",
+    "green",
+    "blue",
+    "purple",
+];
+
 /**
  * Chapter entity represents the smallest authored storytelling unit.
  */
@@ -8,6 +35,12 @@ export class Chapter {
         public order: number,
         public content: string,
         public eventId: string | null,
+        public status: ChapterStatus,
+        /** The character whose point of view the chapter is told from. */
+        public povCharacterId: string | null,
+        public synopsis: string,
+        public labels: ChapterLabel[],
+        public tags: string[],
         public createdAt: Date,
         public updatedAt: Date
     ) {}
@@ -0,0 +1,15 @@
+/** How often chapter snapshots are taken and how long they are kept. */
+export type ChapterHistoryRetention = {
+    /** Minutes between timed snapshots while a chapter is being edited. */
+    intervalMinutes: number;
+    /** Newest snapshots kept per chapter; older ones are pruned. */
+    maxSnapshotsPerChapter: number;
+    /** Snapshots older than this are pruned; null keeps them regardless of age. */
+    maxAgeDays: number | null;
+};
+
+export const DEFAULT_CHAPTER_HISTORY_RETENTION: ChapterHistoryRetention = {
+    intervalMinutes: 10,
+    maxSnapshotsPerChapter: 50,
+    maxAgeDays: null,
+};
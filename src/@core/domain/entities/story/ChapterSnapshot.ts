@@ -0,0 +1,24 @@
+export type ChapterSnapshotReason =
+    | "timed"
+    | "ai-edit"
+    | "overwrite"
+    | "restore"
+    | "split"
+    | "merge";
+
+/**
+ * ChapterSnapshot is a saved copy of a chapter's content, kept so the author
+ * can compare against or go back to earlier text.
+ */
+export class ChapterSnapshot {
+    constructor(
+        public id: string,
+        public projectId: string,
+        public chapterId: string,
+        public title: string,
+        public content: string,
+        public wordCount: number,
+        public reason: ChapterSnapshotReason,
+        public createdAt: Date
+    ) {}
+}
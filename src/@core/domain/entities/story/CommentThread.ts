@@ -0,0 +1,28 @@
+/** One message in a comment thread: the opening comment or a reply. */
+export type CommentMessage = {
+    id: string;
+    authorName: string;
+    text: string;
+    createdAt: Date;
+    updatedAt: Date;
+};
+
+/**
+ * A discussion anchored to a chapter. Inline threads share their id with the
+ * `inlineComment` mark that highlights the passage; chapter-level threads
+ * have no mark. The messages live here rather than in the chapter content,
+ * so removing the highlight does not lose the discussion.
+ */
+export class CommentThread {
+    constructor(
+        public id: string,
+        public projectId: string,
+        public chapterId: string,
+        public excerpt: string,
+        public isChapterLevel: boolean,
+        public resolved: boolean,
+        public messages: CommentMessage[],
+        public createdAt: Date,
+        public updatedAt: Date,
+    ) {}
+}
@@ -0,0 +1,96 @@
+import { ChapterStatus } from "./Chapter";
+
+export type ChapterNumberingStyle = "words" | "numerals" | "none";
+
+/**
+ * How `documentReference` mentions compile: "text" leaves them to the output
+ * format (plain label, or a reference link in Markdown), "italic" sets the
+ * label in italics and "omit" drops the mention entirely.
+ */
+export type MentionStyle = "text" | "italic" | "omit";
+
+/**
+ * How footnotes compile in EPUB: "popup" keeps them as EPUB3 footnotes that
+ * reading systems show in a popup, "endnotes" gathers them under a Notes
+ * heading at the end of each chapter. Print formats always use endnotes.
+ */
+export type FootnoteStyle = "popup" | "endnotes";
+
+/** What goes into a compiled manuscript and how, independent of format. */
+export type CompileOptions = {
+    /** Chapters to include, in manuscript order; null exports every chapter. */
+    chapterIds: string[] | null;
+    /** Only chapters in these revision states, e.g. Final; null ignores status. */
+    statuses: ChapterStatus[] | null;
+    /** Printed in place of horizontal rules (scene breaks); empty keeps the rule. */
+    sceneSeparator: string;
+    stripComments: boolean;
+    stripImages: boolean;
+    mentionStyle: MentionStyle;
+    footnoteStyle: FootnoteStyle;
+};
+
+/** Named compile options, e.g. "Beta readers – Act 1" or "Full submission". */
+export type CompilePreset = CompileOptions & {
+    id: string;
+    name: string;
+};
+
+export type EpubCompileOptions = {
+    /** Use the project cover (`Project.coverImageId`) as the book cover. */
+    includeCover: boolean;
+    /** BCP 47 language tag, e.g. "en" or "en-GB". */
+    language: string;
+    publisher: string;
+    /** ISBN or any other unique identifier; a random UUID is used when empty. */
+    identifier: string;
+    seriesName: string;
+    seriesIndex: number | null;
+    description: string;
+    /** Scrap notes printed as front and back matter. */
+    dedicationNoteId: string | null;
+    copyrightNoteId: string | null;
+    acknowledgementsNoteId: string | null;
+    /** 1 lists chapters only; 2 and 3 add headings inside chapters. */
+    tocDepth: number;
+    chapterNumbering: ChapterNumberingStyle;
+};
+
+/** Compile options remembered per project so re-exports are one click. */
+export type ExportSettings = {
+    author: string;
+    epub: EpubCompileOptions;
+    presets: CompilePreset[];
+    /** Preset picked for the last export, preselected next time. */
+    lastPresetId: string | null;
+};
+
+export const DEFAULT_COMPILE_OPTIONS: CompileOptions = {
+    chapterIds: null,
+    statuses: null,
+    sceneSeparator: "",
+    stripComments: false,
+    stripImages: false,
+    mentionStyle: "text",
+    footnoteStyle: "popup",
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    author: "",
+    epub: {
+        includeCover: true,
+        language: "en",
+        publisher: "",
+        identifier: "",
+        seriesName: "",
+        seriesIndex: null,
+        description: "",
+        dedicationNoteId: null,
+        copyrightNoteId: null,
+        acknowledgementsNoteId: null,
+        tocDepth: 1,
+        chapterNumbering: "none",
+    },
+    presets: [],
+    lastPresetId: null,
+};
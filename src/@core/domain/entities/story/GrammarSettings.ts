@@ -0,0 +1,77 @@
+/** How strict LanguageTool is; picky adds style and typography rules. */
+export type GrammarLevel = "default" | "picky";
+
+export const GRAMMAR_LEVELS: GrammarLevel[] = ["default", "picky"];
+
+/** A chapter checked in another language than the rest of the project. */
+export type ChapterGrammarLanguage = {
+    chapterId: string;
+    language: string;
+};
+
+/**
+ * Language, strictness and rule categories a project is checked with. Stored
+ * on the project so every device checks the manuscript the same way.
+ */
+export type GrammarSettings = {
+    /** A LanguageTool code such as "en-GB", or "auto" to detect it. */
+    language: string;
+    level: GrammarLevel;
+    chapters: ChapterGrammarLanguage[];
+    /** Categories LanguageTool leaves off unless asked, turned on. */
+    enabledCategoryIds: string[];
+    disabledCategoryIds: string[];
+};
+
+export const DEFAULT_GRAMMAR_SETTINGS: GrammarSettings = {
+    language: "en-US",
+    level: "default",
+    chapters: [],
+    enabledCategoryIds: [],
+    disabledCategoryIds: [],
+};
+
+/** Languages and dialects the bundled LanguageTool server checks well. */
+export const GRAMMAR_LANGUAGES: { code: string; label: string }[] = [
+    { code: "auto", label: "Detect automatically" },
+    { code: "en-US", label: "English (US)" },
+    { code: "en-GB", label: "English (UK)" },
+    { code: "en-CA", label: "English (Canada)" },
+    { code: "en-AU", label: "English (Australia)" },
+    { code: "en-NZ", label: "English (New Zealand)" },
+    { code: "fr", label: "French" },
+    { code: "de-DE", label: "German (Germany)" },
+    { code: "de-AT", label: "German (Austria)" },
+    { code: "de-CH", label: "German (Switzerland)" },
+    { code: "es", label: "Spanish" },
+    { code: "it", label: "Italian" },
+    { code: "pt-PT", label: "Portuguese (Portugal)" },
+    { code: "pt-BR", label: "Portuguese (Brazil)" },
+    { code: "nl", label: "Dutch" },
+];
+
+/**
+ * Rule categories shared by most languages. Those not on by default only
+ * run when listed in `enabledCategoryIds`.
+ */
+export const GRAMMAR_CATEGORIES: {
+    id: string;
+    label: string;
+    onByDefault: boolean;
+}[] = [
+    { id: "TYPOS", label: "Spelling", onByDefault: true },
+    { id: "GRAMMAR", label: "Grammar", onByDefault: true },
+    { id: "PUNCTUATION", label: "Punctuation", onByDefault: true },
+    { id: "CASING", label: "Capitalization", onByDefault: true },
+    { id: "TYPOGRAPHY", label: "Typography", onByDefault: true },
+    {
+        id: "CONFUSED_WORDS",
+        label: "Commonly confused words",
+        onByDefault: true,
+    },
+    { id: "REDUNDANCY", label: "Redundant phrases", onByDefault: true },
+    { id: "STYLE", label: "Style", onByDefault: true },
+    { id: "REPETITIONS_STYLE", label: "Repeated words", onByDefault: true },
+    { id: "CREATIVE_WRITING", label: "Creative writing", onByDefault: false },
+    { id: "TEXT_ANALYSIS", label: "Text analysis", onByDefault: false },
+];
@@ -0,0 +1,23 @@
+/**
+ * Parts group chapters; scenes sit inside a chapter. Chapters and scenes are
+ * both chapter documents, parts exist only in the structure.
+ */
+export type ManuscriptNodeType = "part" | "chapter" | "scene";
+
+export type ManuscriptNode = {
+    /** The chapter document ID, or a structure-only ID for parts. */
+    id: string;
+    type: ManuscriptNodeType;
+    /** Parts only; chapters and scenes take their title from the document. */
+    title?: string;
+    children: ManuscriptNode[];
+};
+
+/**
+ * The manuscript as a tree. Flattened depth-first it matches the project's
+ * chapterIds, which is also the order stored on each chapter. Projects saved
+ * before parts and scenes existed have none and read as a flat chapter list.
+ */
+export type ManuscriptStructure = ManuscriptNode[];
+
+export const DEFAULT_PART_TITLE = "Untitled Part";
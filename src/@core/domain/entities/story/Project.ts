@@ -1,3 +1,9 @@
+import { ExportSettings } from "./ExportSettings";
+import { GrammarSettings } from "./GrammarSettings";
+import { ManuscriptStructure } from "./ManuscriptStructure";
+import { ProjectDictionary } from "./ProjectDictionary";
+import { WritingGoals } from "./WritingGoals";
+
 /**
  * Project represents the top-level manuscript and its associated assets.
  */
@@ -12,6 +18,11 @@ export class Project {
         public scrapNoteIds: string[],
         public organizationIds: string[],
         public timelineIds: string[],
+        public exportSettings: ExportSettings | null,
+        public writingGoals: WritingGoals | null,
+        public manuscriptStructure: ManuscriptStructure | null,
+        public dictionary: ProjectDictionary | null,
+        public grammarSettings: GrammarSettings | null,
         public createdAt: Date,
         public updatedAt: Date
     ) {}
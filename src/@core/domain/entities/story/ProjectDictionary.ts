@@ -0,0 +1,16 @@
+/**
+ * Spelling and grammar exceptions for one project, stored on the project so
+ * they follow the manuscript between devices. Character, location and
+ * organization names are accepted without being listed here.
+ */
+export type ProjectDictionary = {
+    /** Words the spell checker should accept, as the author spells them. */
+    words: string[];
+    /** LanguageTool rules that never apply to this project. */
+    disabledRuleIds: string[];
+};
+
+export const EMPTY_PROJECT_DICTIONARY: ProjectDictionary = {
+    words: [],
+    disabledRuleIds: [],
+};
@@ -0,0 +1,37 @@
+/** A word count to reach, optionally by a deadline. */
+export type WordTarget = {
+    words: number;
+    /** Local calendar date (YYYY-MM-DD); null for an open-ended target. */
+    deadline: string | null;
+};
+
+export type ChapterWordTarget = WordTarget & {
+    chapterId: string;
+};
+
+/** Net words added to the manuscript on one local calendar day. */
+export type WritingLogEntry = {
+    /** YYYY-MM-DD */
+    date: string;
+    words: number;
+};
+
+/**
+ * Word targets and the daily writing log for a project. Stored on the project
+ * so progress follows the author between devices.
+ */
+export type WritingGoals = {
+    project: WordTarget | null;
+    chapters: ChapterWordTarget[];
+    /** Words a day needs to keep a streak going; null counts any net gain. */
+    dailyWords: number | null;
+    /** Oldest first, one entry per day with saved changes. */
+    log: WritingLogEntry[];
+};
+
+export const EMPTY_WRITING_GOALS: WritingGoals = {
+    project: null,
+    chapters: [],
+    dailyWords: null,
+    log: [],
+};
@@ -6,6 +6,8 @@ export class Character {
         public id: string,
         public name: string,
         public description: string,
+        /** Other names the text may use, such as nicknames or titles. */
+        public aliases: string[],
         public currentLocationId: string | null,
         public backgroundLocationId: string | null,
         public organizationId: string | null,
@@ -6,6 +6,8 @@ export class Location {
         public id: string,
         public name: string,
         public description: string,
+        /** Other names the text may use, such as nicknames or titles. */
+        public aliases: string[],
         public createdAt: Date,
         public updatedAt: Date,
         public bgmId: string | null,
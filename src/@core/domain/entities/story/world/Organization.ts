@@ -6,6 +6,8 @@ export class Organization {
         public id: string,
         public name: string,
         public description: string,
+        /** Other names the text may use, such as nicknames or titles. */
+        public aliases: string[],
         public locationIds: string[],
         public galleryImageIds: string[],
         public playlistId: string | null,
@@ -25,5 +25,7 @@ export class UserPreferences {
             imageGenerationEnabled: false,
             audioGenerationEnabled: false,
         },
+        /** Words the spell checker accepts in every project. */
+        public dictionary: string[] = [],
     ) {}
 }
@@ -0,0 +1,30 @@
+import { ChapterHistoryRetention } from "../entities/story/ChapterHistoryRetention";
+import { ChapterSnapshot } from "../entities/story/ChapterSnapshot";
+
+/**
+ * Chapter version history. Snapshots stay on this device and are not synced.
+ */
+export interface IChapterSnapshotRepository {
+    create(snapshot: ChapterSnapshot): Promise<void>;
+    /** All snapshots of a chapter, newest first. */
+    findByChapterId(
+        projectId: string,
+        chapterId: string
+    ): Promise<ChapterSnapshot[]>;
+    findLatest(
+        projectId: string,
+        chapterId: string
+    ): Promise<ChapterSnapshot | null>;
+    delete(
+        projectId: string,
+        chapterId: string,
+        snapshotId: string
+    ): Promise<void>;
+    deleteByChapterId(projectId: string, chapterId: string): Promise<void>;
+    deleteByProjectId(projectId: string): Promise<void>;
+    getRetention(projectId: string): Promise<ChapterHistoryRetention>;
+    saveRetention(
+        projectId: string,
+        retention: ChapterHistoryRetention
+    ): Promise<void>;
+}
@@ -0,0 +1,10 @@
+import { CommentThread } from "../entities/story/CommentThread";
+
+export interface ICommentThreadRepository {
+    create(thread: CommentThread): Promise<void>;
+    findById(id: string): Promise<CommentThread | null>;
+    findByProjectId(projectId: string): Promise<CommentThread[]>;
+    update(thread: CommentThread): Promise<void>;
+    delete(id: string): Promise<void>;
+    deleteByProjectId(projectId: string): Promise<void>;
+}
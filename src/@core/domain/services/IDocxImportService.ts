@@ -0,0 +1,13 @@
+import type { ParsedEpub } from "./IEpubImportService";
+
+export interface IDocxImportService {
+    /**
+     * Parses a Word document into the same structure as an EPUB import,
+     * splitting chapters on Heading 1 paragraphs (or page breaks when the
+     * document has no Heading 1).
+     */
+    parseDocx(
+        fileBuffer: ArrayBuffer,
+        onProgress?: (percent: number) => void,
+    ): Promise<ParsedEpub>;
+}
@@ -1,3 +1,5 @@
+import type { ManuscriptStructure } from "../entities/story/ManuscriptStructure";
+
 export interface ParsedImage {
     /** Placeholder ID used in Tiptap JSON src attributes before upload. */
     id: string;
@@ -6,6 +8,20 @@ export interface ParsedImage {
 }
 
 export interface ParsedChapter {
+    title: string;
+    /**
+     * Chapter ID in the source, when the format records one (Markdown
+     * exports). Used to repoint chapter references at the new IDs.
+     */
+    sourceId?: string;
+    /** Tiptap-compatible ProseMirror JSON document node. */
+    content: object;
+    images: ParsedImage[];
+    /** Summary for the corkboard and outliner (Scrivener synopses). */
+    synopsis?: string;
+}
+
+export interface ParsedScrapNote {
     title: string;
     /** Tiptap-compatible ProseMirror JSON document node. */
     content: object;
@@ -16,6 +32,16 @@ export interface ParsedEpub {
     title: string;
     coverImage: { data: ArrayBuffer; mimeType: string } | null;
     chapters: ParsedChapter[];
+    /**
+     * Supporting documents that are not part of the manuscript (e.g.
+     * Scrivener research and notes), imported as scrap notes.
+     */
+    scrapNotes?: ParsedScrapNote[];
+    /**
+     * Parts and scenes, with chapters by `sourceId` (Markdown exports).
+     * Chapters it leaves out follow as top-level chapters.
+     */
+    structure?: ManuscriptStructure;
 }
 
 export interface IEpubImportService {
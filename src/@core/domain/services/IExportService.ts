@@ -1,8 +1,19 @@
+import { CompileOptions } from "../entities/story/ExportSettings";
+
+export type ExportFormat = "epub" | "docx" | "pdf" | "markdown";
+
 export interface IExportService {
+    /**
+     * Writes the project to `path`. For "markdown" the path is a folder that
+     * receives one file per chapter plus an index; other formats write a
+     * single file. `compile` narrows the chapters and adjusts their content;
+     * without it the whole manuscript is exported as written.
+     */
     exportProject(
         projectId: string,
-        format: "epub",
+        format: ExportFormat,
         path: string,
         author?: string,
+        compile?: CompileOptions,
     ): Promise<void>;
 }
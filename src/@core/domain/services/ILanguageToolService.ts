@@ -111,6 +111,12 @@ export interface GrammarCheckRequest {
     text: string;
     /** Language code (e.g., 'en-US', 'auto' for auto-detection) */
     language: string;
+    /** 'picky' also applies style and typography rules */
+    level?: "default" | "picky";
+    /** Category IDs to check that are off by default */
+    enabledCategories?: string[];
+    /** Category IDs to skip */
+    disabledCategories?: string[];
 }
 
 /**
@@ -124,6 +130,16 @@ export interface ILanguageToolService {
      */
     checkGrammar(request: GrammarCheckRequest): Promise<LanguageToolResponse>;
 
+    /**
+     * Check text like checkGrammar, but reject instead of returning no
+     * matches when the check fails
+     * @param request The check request containing text and language
+     * @returns Promise resolving to the check response
+     */
+    checkGrammarStrict(
+        request: GrammarCheckRequest,
+    ): Promise<LanguageToolResponse>;
+
     /**
      * Check if the service is using a local server
      * @returns true when the local server endpoint is available
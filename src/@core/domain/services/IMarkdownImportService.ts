@@ -0,0 +1,12 @@
+import type { ParsedEpub } from "./IEpubImportService";
+
+export interface IMarkdownImportService {
+    /**
+     * Parses a folder written by the Markdown export (index.md + chapters/),
+     * or any folder of `.md` files, into the same structure as an EPUB import.
+     */
+    parseMarkdownProject(
+        directoryPath: string,
+        onProgress?: (percent: number) => void,
+    ): Promise<ParsedEpub>;
+}
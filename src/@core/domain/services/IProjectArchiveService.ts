@@ -0,0 +1,66 @@
+import type { Project } from "../entities/story/Project";
+import type { Chapter } from "../entities/story/Chapter";
+import type { ScrapNote } from "../entities/story/ScrapNote";
+import type { Character } from "../entities/story/world/Character";
+import type { Location } from "../entities/story/world/Location";
+import type { Organization } from "../entities/story/world/Organization";
+import type { Image } from "../entities/story/world/Image";
+import type { BGM } from "../entities/story/world/BGM";
+import type { Playlist } from "../entities/story/world/Playlist";
+import type { MetafieldDefinition } from "../entities/story/world/MetafieldDefinition";
+import type { MetafieldAssignment } from "../entities/story/world/MetafieldAssignment";
+import type { EditorTemplate } from "../entities/story/world/EditorTemplate";
+import type { CommentThread } from "../entities/story/CommentThread";
+import type { Timeline } from "../entities/story/timeline/Timeline";
+import type { Event } from "../entities/story/timeline/Event";
+import type { ChatConversation } from "../entities/story/chat/ChatConversation";
+import type { ChatMessage } from "../entities/story/chat/ChatMessage";
+
+export interface ArchivedConversation {
+    conversation: ChatConversation;
+    messages: ChatMessage[];
+}
+
+/** Everything that belongs to a project, as stored by the repositories. */
+export interface ProjectArchive {
+    project: Project;
+    chapters: Chapter[];
+    scrapNotes: ScrapNote[];
+    characters: Character[];
+    locations: Location[];
+    organizations: Organization[];
+    timelines: Timeline[];
+    events: Event[];
+    metafieldDefinitions: MetafieldDefinition[];
+    metafieldAssignments: MetafieldAssignment[];
+    editorTemplates: EditorTemplate[];
+    commentThreads: CommentThread[];
+    images: Image[];
+    bgms: BGM[];
+    playlists: Playlist[];
+    conversations: ArchivedConversation[];
+}
+
+/** The bytes behind an asset URL referenced from the archived project. */
+export interface ArchivedAsset {
+    url: string;
+    data: ArrayBuffer;
+    extension: string;
+}
+
+export interface IProjectArchiveService {
+    /**
+     * Writes the project and the files behind `assetUrls` to a single
+     * `.inkline` file. Assets that cannot be read are left out and keep
+     * pointing at their original URL.
+     */
+    writeArchive(
+        archive: ProjectArchive,
+        assetUrls: string[],
+        destinationPath: string,
+    ): Promise<void>;
+
+    readArchive(
+        filePath: string,
+    ): Promise<{ archive: ProjectArchive; assets: ArchivedAsset[] }>;
+}
@@ -0,0 +1,13 @@
+import type { ParsedEpub } from "./IEpubImportService";
+
+export interface IScrivenerImportService {
+    /**
+     * Parses a Scrivener project (the `.scriv` package, or the `.scrivx`
+     * inside it). The Draft folder becomes chapters; everything else in the
+     * binder, along with synopses and document notes, becomes scrap notes.
+     */
+    parseScrivenerProject(
+        projectPath: string,
+        onProgress?: (percent: number) => void,
+    ): Promise<ParsedEpub>;
+}
@@ -0,0 +1,87 @@
+/**
+ * ISearchIndexService
+ *
+ * Full-text index of a project's documents for global search. The index is
+ * kept on this device and is updated document by document as they are saved,
+ * so a search never has to read the whole project.
+ */
+
+export type SearchIndexDocumentKind =
+    | "chapter"
+    | "scrapNote"
+    | "character"
+    | "location"
+    | "organization";
+
+/** A document as the index sees it: its plain text and a title. */
+export interface SearchIndexDocument {
+    kind: SearchIndexDocumentKind;
+    id: string;
+    title: string;
+    /** Plain text; markup is stripped before indexing. */
+    text: string;
+}
+
+/** The text around a document's first match. */
+export interface SearchIndexSnippet {
+    leadingEllipsis: boolean;
+    before: string;
+    match: string;
+    after: string;
+    trailingEllipsis: boolean;
+}
+
+export interface SearchIndexQuery {
+    /**
+     * Words to find, in any order. Quoted words must appear together as a
+     * phrase; other words also match longer words they start and, from four
+     * letters, near misses.
+     */
+    text: string;
+    /** Defaults to every kind. */
+    kinds?: SearchIndexDocumentKind[];
+    /** Defaults to 50. */
+    limit?: number;
+}
+
+export interface SearchIndexHit {
+    kind: SearchIndexDocumentKind;
+    documentId: string;
+    title: string;
+    /** Relevance; higher is better. */
+    score: number;
+    /** How many times the query's words and phrases occur. */
+    occurrences: number;
+    snippet: SearchIndexSnippet;
+}
+
+export interface ISearchIndexService {
+    /**
+     * Brings a project's index in line with its documents, re-indexing only
+     * those that changed since they were indexed and dropping the rest. The
+     * project becomes the one new documents are added to.
+     */
+    synchronize(
+        projectId: string,
+        documents: SearchIndexDocument[],
+    ): Promise<void>;
+
+    /** Whether the project has been synchronized since the app started. */
+    isSynchronized(projectId: string): boolean;
+
+    /**
+     * Indexes a document in place of its previous text. Documents the index
+     * does not know yet are added to the last synchronized project.
+     */
+    indexDocument(document: SearchIndexDocument): Promise<void>;
+
+    removeDocument(documentId: string): Promise<void>;
+
+    removeProject(projectId: string): Promise<void>;
+
+    /** Matching documents, most relevant first. */
+    search(
+        projectId: string,
+        query: SearchIndexQuery,
+    ): Promise<SearchIndexHit[]>;
+}
@@ -0,0 +1,54 @@
+export type WorldBibleFormat = "html" | "pdf" | "markdown";
+
+export type WorldBibleEntityKind = "character" | "location" | "organization";
+
+export type WorldBibleValue =
+    | { kind: "text"; text: string }
+    /** Descriptions and paragraph fields: editor HTML or legacy plain text. */
+    | { kind: "richText"; html: string }
+    | { kind: "list"; items: string[] }
+    | { kind: "images"; urls: string[] };
+
+export interface WorldBibleField {
+    label: string;
+    value: WorldBibleValue;
+}
+
+/** One character, location or organization, laid out like its editor. */
+export interface WorldBibleEntry {
+    id: string;
+    kind: WorldBibleEntityKind;
+    name: string;
+    left: WorldBibleField[];
+    right: WorldBibleField[];
+    /** Nesting depth in the location hierarchy; 0 for top-level entries. */
+    depth: number;
+}
+
+export interface WorldBibleGroup {
+    /** Null when the section is not subdivided. */
+    title: string | null;
+    entries: WorldBibleEntry[];
+}
+
+export interface WorldBibleSection {
+    title: string;
+    groups: WorldBibleGroup[];
+}
+
+export interface WorldBible {
+    title: string;
+    sections: WorldBibleSection[];
+}
+
+export interface IWorldBibleExportService {
+    /**
+     * Writes the world bible to `path` as a single file. Images are embedded
+     * (HTML, PDF) or copied next to the file (Markdown).
+     */
+    exportWorldBible(
+        bible: WorldBible,
+        format: WorldBibleFormat,
+        path: string,
+    ): Promise<void>;
+}
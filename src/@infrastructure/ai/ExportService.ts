@@ -1,187 +1,77 @@
-import epub from "epub-gen-memory";
+import epub, { optionsDefaults } from "epub-gen-memory";
 import * as fsPromises from "fs/promises";
+import * as path from "path";
 
-import { IExportService } from "../../@core/domain/services/IExportService";
 import { IProjectRepository } from "../../@core/domain/repositories/IProjectRepository";
 import { IChapterRepository } from "../../@core/domain/repositories/IChapterRepository";
+import { IScrapNoteRepository } from "../../@core/domain/repositories/IScrapNoteRepository";
+import { IAssetRepository } from "../../@core/domain/repositories/IAssetRepository";
 import { Chapter } from "../../@core/domain/entities/story/Chapter";
-
-// ─── Tiptap JSON types ───────────────────────────────────────────────────────
-
-interface TiptapMark {
-    type: string;
-    attrs?: Record<string, unknown>;
-}
-
-interface TiptapNode {
-    type: string;
-    text?: string;
-    attrs?: Record<string, unknown>;
-    marks?: TiptapMark[];
-    content?: TiptapNode[];
-}
-
-// ─── Tiptap JSON → HTML converter ───────────────────────────────────────────
-
-/**
- * Recursively converts a Tiptap JSON document tree into semantic HTML
- * suitable for EPUB readers.
- *
- * Supported nodes: doc, paragraph, heading (1-3), bulletList, orderedList,
- * listItem, blockquote, codeBlock, hardBreak, horizontalRule.
- *
- * Supported marks: bold, italic, underline, strike, code, link,
- * textStyle (color, fontFamily).
- */
-function renderMarks(text: string, marks: TiptapMark[] | undefined): string {
-    if (!marks || marks.length === 0) {
-        return escapeHtml(text);
-    }
-
-    let html = escapeHtml(text);
-
-    for (const mark of marks) {
-        switch (mark.type) {
-            case "bold":
-                html = `<strong>${html}</strong>`;
-                break;
-            case "italic":
-                html = `<em>${html}</em>`;
-                break;
-            case "underline":
-                html = `<u>${html}</u>`;
-                break;
-            case "strike":
-                html = `<s>${html}</s>`;
-                break;
-            case "code":
-                html = `<code>${html}</code>`;
-                break;
-            case "link": {
-                const href = (mark.attrs?.href as string) || "#";
-                html = `<a href="${escapeAttr(href)}">${html}</a>`;
-                break;
-            }
-            case "textStyle": {
-                const styles: string[] = [];
-                if (mark.attrs?.color) {
-                    styles.push(`color: ${mark.attrs.color}`);
-                }
-                if (mark.attrs?.fontFamily) {
-                    styles.push(`font-family: ${mark.attrs.fontFamily}`);
-                }
-                if (styles.length > 0) {
-                    html = `<span style="${escapeAttr(styles.join("; "))}">${html}</span>`;
-                }
-                break;
-            }
-            // Silently skip unknown marks (e.g. comment marks)
-        }
-    }
-
-    return html;
-}
-
-function renderNode(node: TiptapNode): string {
-    switch (node.type) {
-        case "doc":
-            return renderChildren(node);
-
-        case "paragraph": {
-            const align = node.attrs?.textAlign as string | undefined;
-            const style =
-                align && align !== "left"
-                    ? ` style="text-align: ${escapeAttr(align)}"`
-                    : "";
-            return `<p${style}>${renderChildren(node) || "&nbsp;"}</p>\n`;
-        }
-
-        case "heading": {
-            const level = Math.min(
-                Math.max(Number(node.attrs?.level) || 1, 1),
-                6,
-            );
-            const align = node.attrs?.textAlign as string | undefined;
-            const style =
-                align && align !== "left"
-                    ? ` style="text-align: ${escapeAttr(align)}"`
-                    : "";
-            return `<h${level}${style}>${renderChildren(node)}</h${level}>\n`;
-        }
-
-        case "bulletList":
-            return `<ul>\n${renderChildren(node)}</ul>\n`;
-
-        case "orderedList": {
-            const start = node.attrs?.start as number | undefined;
-            const attr = start && start !== 1 ? ` start="${start}"` : "";
-            return `<ol${attr}>\n${renderChildren(node)}</ol>\n`;
-        }
-
-        case "listItem":
-            return `<li>${renderChildren(node)}</li>\n`;
-
-        case "blockquote":
-            return `<blockquote>\n${renderChildren(node)}</blockquote>\n`;
-
-        case "codeBlock": {
-            const language = node.attrs?.language as string | undefined;
-            const cls = language
-                ? ` class="language-${escapeAttr(language)}"`
-                : "";
-            return `<pre><code${cls}>${renderChildren(node)}</code></pre>\n`;
-        }
-
-        case "hardBreak":
-            return "<br/>";
-
-        case "horizontalRule":
-            return "<hr/>\n";
-
-        case "image": {
-            const src = (node.attrs?.src as string) || "";
-            const alt = (node.attrs?.alt as string) || "";
-            const title = (node.attrs?.title as string) || "";
-            const titleAttr = title ? ` title="${escapeAttr(title)}"` : "";
-            return `<img src="${escapeAttr(src)}" alt="${escapeAttr(alt)}"${titleAttr}/>`;
-        }
-
-        case "documentReference":
-            return escapeHtml(
-                String(node.attrs?.label ?? node.attrs?.id ?? ""),
-            );
-
-        case "text":
-            return renderMarks(node.text || "", node.marks);
-
-        default:
-            // Unknown node type – render children if any to avoid data loss
-            return renderChildren(node);
-    }
-}
-
-function renderChildren(node: TiptapNode): string {
-    if (!node.content || node.content.length === 0) {
-        return "";
-    }
-    return node.content.map(renderNode).join("");
-}
-
-function escapeHtml(text: string): string {
-    return text
-        .replace(/&/g, "&amp;")
-        .replace(/</g, "&lt;")
-        .replace(/>/g, "&gt;")
-        .replace(/"/g, "&quot;");
-}
-
-function escapeAttr(value: string): string {
-    return value
-        .replace(/&/g, "&amp;")
-        .replace(/"/g, "&quot;")
-        .replace(/</g, "&lt;")
-        .replace(/>/g, "&gt;");
-}
+import { Project } from "../../@core/domain/entities/story/Project";
+import {
+    ManuscriptNode,
+    ManuscriptStructure,
+} from "../../@core/domain/entities/story/ManuscriptStructure";
+import {
+    CompileOptions,
+    DEFAULT_COMPILE_OPTIONS,
+    DEFAULT_EXPORT_SETTINGS,
+    EpubCompileOptions,
+    FootnoteStyle,
+} from "../../@core/domain/entities/story/ExportSettings";
+import {
+    ExportFormat,
+    IExportService,
+} from "../../@core/domain/services/IExportService";
+import {
+    countWords,
+    extractPlainText,
+} from "../../@core/application/utils/tiptapText";
+import { generateId } from "../../@core/application/utils/id";
+import {
+    flattenManuscriptDocuments,
+    normalizeManuscriptStructure,
+} from "../../@core/application/utils/manuscriptStructure";
+import { parseTiptapDocument, type TiptapNode } from "./export/tiptapRender";
+import { applyCompileOptions } from "./export/compileTransform";
+import {
+    appendEndnotes,
+    numberFootnotes,
+    type CompiledFootnote,
+} from "./export/footnotes";
+import { acceptSuggestions } from "./export/suggestions";
+import { escapeHtml, renderTiptapHtml } from "./export/htmlRender";
+import { renderManuscriptDocx } from "./export/docxRender";
+import { renderManuscriptPdf } from "./export/pdfRender";
+import {
+    collectImageSources,
+    renderTiptapMarkdown,
+} from "./export/markdownRender";
+import {
+    MARKDOWN_CHAPTERS_DIR,
+    MARKDOWN_IMAGES_DIR,
+    MARKDOWN_INDEX_FILE,
+    describeMarkdownStructure,
+    formatFrontMatter,
+    slugify,
+    type FrontMatterScalar,
+} from "./export/markdownFormat";
+import {
+    readAssetBytes,
+    readLocalImageBytes,
+    sniffImageExtension,
+} from "./export/exportImages";
+import {
+    anchorHeadings,
+    customizeEpubPackage,
+    type EpubTocEntry,
+    formatChapterNumber,
+    nestTocEntries,
+    parseIsbn,
+    renderEpubFootnotes,
+    renderEpubNav,
+    renderEpubNcx,
+} from "./export/epubCompile";
 
 // ─── EPUB-specific CSS for a clean reading experience ────────────────────────
 
@@ -227,6 +117,26 @@ ul, ol {
 li {
     margin-bottom: 0.2em;
 }
+.chapter-number {
+    text-indent: 0;
+    text-align: center;
+    font-size: 0.9em;
+    letter-spacing: 0.15em;
+    text-transform: uppercase;
+    margin: 3em 0 0 0;
+}
+.chapter-number + h1 { margin-top: 0.5em; }
+.part-title {
+    margin-top: 35%;
+    text-align: center;
+}
+.part-title h1 { font-size: 2em; }
+.dedication, .copyright {
+    margin-top: 30%;
+    text-align: center;
+}
+.dedication p { font-style: italic; text-indent: 0; }
+.copyright p { font-size: 0.85em; text-indent: 0; margin-bottom: 0.8em; }
 hr {
     border: none;
     border-top: 1px solid #ccc;
@@ -236,6 +146,10 @@ a {
     color: #2a6496;
     text-decoration: underline;
 }
+sup.noteref { line-height: 0; }
+sup.noteref a { text-decoration: none; }
+aside.footnote p, .endnotes p { text-indent: 0; font-size: 0.9em; }
+.endnotes ol { list-style: none; padding-left: 0; }
 `.trim();
 
 // ─── ExportService ───────────────────────────────────────────────────────────
@@ -244,29 +158,84 @@ export class ExportService implements IExportService {
     constructor(
         private readonly projectRepository: IProjectRepository,
         private readonly chapterRepository: IChapterRepository,
+        private readonly scrapNoteRepository: IScrapNoteRepository,
+        private readonly assetRepository: IAssetRepository,
     ) {}
 
     async exportProject(
         projectId: string,
-        _format: "epub",
+        format: ExportFormat,
         destinationPath: string,
         author?: string,
+        compile?: CompileOptions,
     ): Promise<void> {
         const project = await this.projectRepository.findById(projectId);
         if (!project) {
             throw new Error(`Project with ID ${projectId} not found.`);
         }
 
-        const allChapters =
-            await this.chapterRepository.findByProjectId(projectId);
-        const chapters = this.sortChapters(allChapters, project.chapterIds);
-
-        await this.exportToEpub(
-            project.title,
-            chapters,
-            destinationPath,
-            author || "Unknown",
+        const allChapters = this.sortChapters(
+            await this.chapterRepository.findByProjectId(projectId),
+            project.chapterIds,
+        );
+        const structure = normalizeManuscriptStructure(
+            project.manuscriptStructure,
+            allChapters.map((chapter) => chapter.id),
+        );
+        const documents = this.sortChapters(
+            allChapters,
+            flattenManuscriptDocuments(structure),
         );
+        const selected = this.selectChapters(documents, compile);
+        // Markdown keeps every scene in its own file, so it re-imports with
+        // its parts and scenes
+        const chapters = this.compileChapters(
+            format === "markdown"
+                ? selected
+                : this.groupScenes(selected, documents, structure),
+            compile,
+        );
+
+        switch (format) {
+            case "epub":
+                await this.exportToEpub(
+                    project,
+                    chapters,
+                    this.mapChaptersToParts(structure),
+                    destinationPath,
+                    author || "Unknown",
+                    compile?.footnoteStyle ??
+                        DEFAULT_COMPILE_OPTIONS.footnoteStyle,
+                );
+                return;
+            case "docx":
+                await this.exportToDocx(
+                    project.title,
+                    chapters,
+                    destinationPath,
+                    author || "Unknown",
+                );
+                return;
+            case "pdf":
+                await this.exportToPdf(
+                    project.title,
+                    chapters,
+                    destinationPath,
+                    author || "Unknown",
+                );
+                return;
+            case "markdown":
+                await this.exportToMarkdown(
+                    project.title,
+                    chapters,
+                    structure,
+                    destinationPath,
+                    author || "Unknown",
+                );
+                return;
+            default:
+                throw new Error(`Unsupported export format: ${format}`);
+        }
     }
 
     private sortChapters(chapters: Chapter[], orderIds: string[]): Chapter[] {
@@ -281,44 +250,589 @@ export class ExportService implements IExportService {
         return sorted;
     }
 
+    /** Narrows the manuscript to the preset's chapters and scenes. */
+    private selectChapters(
+        chapters: Chapter[],
+        compile: CompileOptions | undefined,
+    ): Chapter[] {
+        if (!compile?.chapterIds && !compile?.statuses) {
+            return chapters;
+        }
+
+        const selected = compile.chapterIds
+            ? chapters.filter((chapter) =>
+                  compile.chapterIds?.includes(chapter.id),
+              )
+            : chapters;
+        if (selected.length === 0) {
+            throw new Error("The selected chapters no longer exist.");
+        }
+
+        if (!compile.statuses) {
+            return selected;
+        }
+        const matching = selected.filter((chapter) =>
+            compile.statuses?.includes(chapter.status),
+        );
+        if (matching.length === 0) {
+            throw new Error("No selected chapters have the chosen status.");
+        }
+        return matching;
+    }
+
+    /**
+     * Folds each chapter's scenes into it, separated by scene breaks, so every
+     * format sees one document per chapter. Scenes whose chapter was left out
+     * of the selection still appear under its title. Legacy HTML/plain-text
+     * documents cannot be joined and stay separate.
+     */
+    private groupScenes(
+        selected: Chapter[],
+        documents: Chapter[],
+        structure: ManuscriptStructure,
+    ): Chapter[] {
+        const selectedMap = new Map(selected.map((c) => [c.id, c]));
+        const documentMap = new Map(documents.map((c) => [c.id, c]));
+        const chapterNodes = structure.flatMap((node) =>
+            node.type === "part" ? node.children : [node],
+        );
+
+        return chapterNodes.flatMap((node): Chapter[] => {
+            const chapter = selectedMap.get(node.id);
+            const scenes = node.children.flatMap((scene): Chapter[] => {
+                const document = selectedMap.get(scene.id);
+                return document ? [document] : [];
+            });
+            const heading = documentMap.get(node.id);
+            if (scenes.length === 0 || !heading) {
+                return chapter ? [chapter] : [];
+            }
+
+            const sections = chapter ? [chapter, ...scenes] : scenes;
+            const docs = sections.map((section) =>
+                section.content.trim()
+                    ? parseTiptapDocument(section.content)
+                    : { type: "doc", content: [] },
+            );
+            if (docs.some((doc) => doc === null)) {
+                return sections;
+            }
+
+            const content: TiptapNode[] = [];
+            docs.forEach((doc) => {
+                const blocks = (doc?.content ?? []).filter(
+                    (block) =>
+                        block.type !== "paragraph" ||
+                        (block.content?.length ?? 0) > 0,
+                );
+                if (blocks.length === 0) {
+                    return;
+                }
+                if (content.length > 0) {
+                    content.push({ type: "horizontalRule" });
+                }
+                content.push(...blocks);
+            });
+
+            return [
+                new Chapter(
+                    heading.id,
+                    heading.title,
+                    heading.order,
+                    JSON.stringify({ type: "doc", content }),
+                    heading.eventId,
+                    heading.status,
+                    heading.povCharacterId,
+                    heading.synopsis,
+                    heading.labels,
+                    heading.tags,
+                    heading.createdAt,
+                    heading.updatedAt,
+                ),
+            ];
+        });
+    }
+
+    /** The part each chapter belongs to, for chapters inside one. */
+    private mapChaptersToParts(
+        structure: ManuscriptStructure,
+    ): Map<string, ManuscriptNode> {
+        return new Map(
+            structure.flatMap((node) =>
+                node.type === "part"
+                    ? node.children.map(
+                          (chapter): [string, ManuscriptNode] => [
+                              chapter.id,
+                              node,
+                          ],
+                      )
+                    : [],
+            ),
+        );
+    }
+
+    /**
+     * Rewrites chapter content with the preset's options. Legacy
+     * HTML/plain-text chapters are passed through untouched.
+     */
+    private compileChapters(
+        chapters: Chapter[],
+        compile: CompileOptions | undefined,
+    ): Chapter[] {
+        if (!compile) {
+            return chapters;
+        }
+
+        return chapters.map((chapter) => {
+            const doc = parseTiptapDocument(chapter.content);
+            if (!doc) {
+                return chapter;
+            }
+            return new Chapter(
+                chapter.id,
+                chapter.title,
+                chapter.order,
+                JSON.stringify(applyCompileOptions(doc, compile)),
+                chapter.eventId,
+                chapter.status,
+                chapter.povCharacterId,
+                chapter.synopsis,
+                chapter.labels,
+                chapter.tags,
+                chapter.createdAt,
+                chapter.updatedAt,
+            );
+        });
+    }
+
+    /**
+     * Compiles the EPUB with the project's saved options: cover, metadata,
+     * front and back matter from scrap notes, chapter numbering and TOC depth.
+     * Parts get a title page and nest their chapters in the TOC; chapter
+     * numbering runs on across parts. The navigation files are generated here because epub-gen-memory only
+     * supports a flat chapter list. Footnotes compile as `footnoteStyle` asks.
+     */
     private async exportToEpub(
-        title: string,
+        project: Project,
         chapters: Chapter[],
+        parts: Map<string, ManuscriptNode>,
         outputPath: string,
         author: string,
+        footnoteStyle: FootnoteStyle,
     ): Promise<void> {
-        const content = chapters
-            .filter((chapter) => {
-                // Skip chapters with no meaningful content
-                const html = this.convertContentToHtml(chapter.content);
-                const stripped = html.replace(/<[^>]*>/g, "").trim();
-                return stripped.length > 0;
-            })
-            .map((chapter) => ({
-                title: chapter.title,
-                content: this.convertContentToHtml(chapter.content),
-            }));
-
-        if (content.length === 0) {
+        const options: EpubCompileOptions = {
+            ...DEFAULT_EXPORT_SETTINGS.epub,
+            ...project.exportSettings?.epub,
+        };
+
+        const written = chapters.filter((chapter) => {
+            // Skip chapters with no meaningful content
+            const html = this.convertContentToHtml(chapter.content);
+            const stripped = html.replace(/<[^>]*>/g, "").trim();
+            return stripped.length > 0;
+        });
+
+        if (written.length === 0) {
             throw new Error(
                 "No chapters with content to export. Write some content first.",
             );
         }
 
+        const [dedication, copyright, acknowledgements] = await Promise.all([
+            this.loadMatterNote(options.dedicationNoteId),
+            this.loadMatterNote(options.copyrightNoteId),
+            this.loadMatterNote(options.acknowledgementsNoteId),
+        ]);
+        const frontMatter = [
+            ...(dedication
+                ? [
+                      {
+                          title: "Dedication",
+                          filename: "dedication",
+                          beforeToc: true,
+                          excludeFromToc: true,
+                          content: `<section class="dedication">${dedication}</section>`,
+                      },
+                  ]
+                : []),
+            ...(copyright
+                ? [
+                      {
+                          title: "Copyright",
+                          filename: "copyright",
+                          beforeToc: true,
+                          excludeFromToc: true,
+                          content: `<section class="copyright">${copyright}</section>`,
+                      },
+                  ]
+                : []),
+        ];
+
+        const tocItems: { level: number; entry: EpubTocEntry }[] = [];
+        const chapterContent: {
+            title: string;
+            filename: string;
+            content: string;
+        }[] = [];
+        let currentPart: ManuscriptNode | null = null;
+        let partCount = 0;
+        written.forEach((chapter, index) => {
+            const part = parts.get(chapter.id) ?? null;
+            if (part && part !== currentPart) {
+                partCount += 1;
+                const partFilename = `part-${String(partCount).padStart(3, "0")}`;
+                const partTitle = escapeHtml(part.title ?? "");
+                tocItems.push({
+                    level: 0,
+                    entry: {
+                        label: partTitle,
+                        href: `${partFilename}.xhtml`,
+                        children: [],
+                    },
+                });
+                chapterContent.push({
+                    title: part.title ?? "",
+                    filename: partFilename,
+                    content: `<section class="part-title"><h1>${partTitle}</h1></section>`,
+                });
+            }
+            currentPart = part;
+            const level = part ? 1 : 0;
+
+            const filename = `chapter-${String(index + 1).padStart(3, "0")}`;
+            const number = formatChapterNumber(
+                index + 1,
+                options.chapterNumbering,
+            );
+            const chapterHtml = this.convertChapterToHtml(chapter.content);
+            const { html, headings } = anchorHeadings(
+                chapterHtml.html,
+                `h${index + 1}`,
+                options.tocDepth - 1,
+            );
+            // Added after anchoring so the Notes heading stays out of the TOC
+            const notesHtml = renderEpubFootnotes(
+                chapterHtml.notes,
+                footnoteStyle,
+            );
+
+            const title = escapeHtml(chapter.title);
+            tocItems.push({
+                level,
+                entry: {
+                    label:
+                        number === null
+                            ? title
+                            : `${escapeHtml(number)}${options.chapterNumbering === "numerals" ? "." : ":"} ${title}`,
+                    href: `${filename}.xhtml`,
+                    children: [],
+                },
+            });
+            headings.forEach((heading) =>
+                tocItems.push({
+                    level: level + heading.level + 1,
+                    entry: {
+                        label: heading.label,
+                        href: `${filename}.xhtml#${heading.id}`,
+                        children: [],
+                    },
+                }),
+            );
+
+            const numberHtml =
+                number === null
+                    ? ""
+                    : `<p class="chapter-number">${escapeHtml(number)}</p>\n`;
+            chapterContent.push({
+                title: chapter.title,
+                filename,
+                content: `${numberHtml}<h1>${title}</h1>\n${html}${notesHtml}`,
+            });
+        });
+
+        const backMatter = acknowledgements
+            ? [
+                  {
+                      title: "Acknowledgements",
+                      filename: "acknowledgements",
+                      content: `<h1>Acknowledgements</h1>\n${acknowledgements}`,
+                  },
+              ]
+            : [];
+        if (acknowledgements) {
+            tocItems.push({
+                level: 0,
+                entry: {
+                    label: "Acknowledgements",
+                    href: "acknowledgements.xhtml",
+                    children: [],
+                },
+            });
+        }
+
+        const isbn = parseIsbn(options.identifier);
+        const identifier = isbn
+            ? `urn:isbn:${isbn}`
+            : options.identifier || `urn:uuid:${generateId()}`;
+        const toc = nestTocEntries(tocItems);
+
         const epubBuffer = await epub(
             {
-                title,
+                title: project.title,
                 author,
+                publisher: options.publisher || author,
+                description: options.description,
+                lang: options.language,
+                cover: options.includeCover
+                    ? await this.loadCover(project.coverImageId)
+                    : undefined,
                 css: EPUB_CSS,
-                prependChapterTitles: true,
+                prependChapterTitles: false,
+                contentOPF: customizeEpubPackage(optionsDefaults(3).contentOPF, {
+                    identifier,
+                    seriesName: options.seriesName,
+                    seriesIndex: options.seriesIndex,
+                }),
+                tocXHTML: renderEpubNav(project.title, options.language, toc),
+                tocNCX: renderEpubNcx(identifier, project.title, author, toc),
                 verbose: false,
             },
-            content,
+            [...frontMatter, ...chapterContent, ...backMatter],
         );
 
         await fsPromises.writeFile(outputPath, epubBuffer);
     }
 
+    /** HTML of a front/back matter scrap note, or null if unset or empty. */
+    private async loadMatterNote(noteId: string | null): Promise<string | null> {
+        if (!noteId) {
+            return null;
+        }
+        const note = await this.scrapNoteRepository.findById(noteId);
+        const html = note ? this.convertContentToHtml(note.content) : "";
+        return html.replace(/<[^>]*>/g, "").trim() ? html : null;
+    }
+
+    private async loadCover(imageId: string | null): Promise<File | undefined> {
+        if (!imageId) {
+            return undefined;
+        }
+        const image = await this.assetRepository.findImageById(imageId);
+        const data = image ? await readAssetBytes(image.url) : null;
+        if (!data) {
+            return undefined;
+        }
+        // epub-gen-memory derives the media type from the file name
+        return new File(
+            [new Uint8Array(data)],
+            `cover.${sniffImageExtension(data)}`,
+        );
+    }
+
+    private async exportToDocx(
+        title: string,
+        chapters: Chapter[],
+        outputPath: string,
+        author: string,
+    ): Promise<void> {
+        const docxBuffer = await renderManuscriptDocx({
+            title,
+            author,
+            chapters: this.toManuscriptChapters(chapters),
+        });
+
+        await fsPromises.writeFile(outputPath, docxBuffer);
+    }
+
+    private async exportToPdf(
+        title: string,
+        chapters: Chapter[],
+        outputPath: string,
+        author: string,
+    ): Promise<void> {
+        const manuscriptChapters = this.toManuscriptChapters(chapters);
+        const wordCount = chapters.reduce(
+            (total, chapter) =>
+                total + countWords(extractPlainText(chapter.content)),
+            0,
+        );
+
+        const pdfBuffer = await renderManuscriptPdf({
+            title,
+            author,
+            wordCount,
+            chapters: manuscriptChapters,
+        });
+
+        await fsPromises.writeFile(outputPath, pdfBuffer);
+    }
+
+    /**
+     * Writes the project as a folder of Markdown files (see markdownFormat.ts
+     * for the layout). Unlike the manuscript formats every chapter and scene
+     * is kept, including empty ones, with the parts and scenes recorded in
+     * the index, so the folder can be re-imported as-is.
+     */
+    private async exportToMarkdown(
+        title: string,
+        chapters: Chapter[],
+        structure: ManuscriptStructure,
+        outputDir: string,
+        author: string,
+    ): Promise<void> {
+        const chaptersDir = path.join(outputDir, MARKDOWN_CHAPTERS_DIR);
+        const imagesDir = path.join(outputDir, MARKDOWN_IMAGES_DIR);
+        await fsPromises.mkdir(chaptersDir, { recursive: true });
+        await this.clearPreviousMarkdownExport(chaptersDir, imagesDir);
+
+        const imagePaths = new Map<string, string>();
+        const { placements, parts } = describeMarkdownStructure(structure);
+        const entries: Record<string, FrontMatterScalar>[] = [];
+
+        for (const [index, chapter] of chapters.entries()) {
+            const fileName = `${String(index + 1).padStart(3, "0")}-${slugify(chapter.title)}.md`;
+            const doc = parseTiptapDocument(chapter.content);
+            let body: string;
+
+            if (doc) {
+                for (const src of collectImageSources(doc)) {
+                    if (imagePaths.has(src)) continue;
+                    const data = await readLocalImageBytes(src);
+                    if (!data) continue;
+
+                    const imageFile = `${String(imagePaths.size + 1).padStart(3, "0")}.${sniffImageExtension(data)}`;
+                    await fsPromises.mkdir(imagesDir, { recursive: true });
+                    await fsPromises.writeFile(
+                        path.join(imagesDir, imageFile),
+                        data,
+                    );
+                    imagePaths.set(
+                        src,
+                        `../${MARKDOWN_IMAGES_DIR}/${imageFile}`,
+                    );
+                }
+
+                body = renderTiptapMarkdown(numberFootnotes(doc).doc, {
+                    resolveImageSrc: (src) => imagePaths.get(src) ?? src,
+                });
+            } else {
+                const text = this.convertLegacyContentToText(
+                    chapter.content ?? "",
+                ).trim();
+                body = text ? `${text}\n` : "";
+            }
+
+            const frontMatter = formatFrontMatter({
+                id: chapter.id,
+                title: chapter.title,
+                order: index,
+            });
+            await fsPromises.writeFile(
+                path.join(chaptersDir, fileName),
+                `${frontMatter}\n${body}`,
+                "utf-8",
+            );
+
+            entries.push({
+                file: `${MARKDOWN_CHAPTERS_DIR}/${fileName}`,
+                id: chapter.id,
+                title: chapter.title,
+                ...placements.get(chapter.id),
+            });
+        }
+
+        const usedParts = new Set(entries.map((entry) => entry.part));
+        const index = formatFrontMatter({
+            title,
+            author,
+            generator: "inkline",
+            chapters: entries,
+            parts: parts.filter((part) => usedParts.has(part.id)),
+        });
+        const toc = entries
+            .map(
+                (entry, i) =>
+                    `${i + 1}. [${String(entry.title).replace(/[[\]\\]/g, "\\$&")}](${entry.file})`,
+            )
+            .join("\n");
+
+        await fsPromises.writeFile(
+            path.join(outputDir, MARKDOWN_INDEX_FILE),
+            `${index}\n# ${title}\n\n${toc}\n`,
+            "utf-8",
+        );
+    }
+
+    /**
+     * Removes files written by a previous Markdown export into the same
+     * folder so renamed or deleted chapters do not linger.
+     */
+    private async clearPreviousMarkdownExport(
+        chaptersDir: string,
+        imagesDir: string,
+    ): Promise<void> {
+        const remove = async (dir: string, pattern: RegExp) => {
+            const files = await fsPromises
+                .readdir(dir)
+                .catch((): string[] => []);
+            await Promise.all(
+                files
+                    .filter((file) => pattern.test(file))
+                    .map((file) => fsPromises.unlink(path.join(dir, file))),
+            );
+        };
+
+        await remove(chaptersDir, /^\d{3}-.*\.md$/);
+        await remove(imagesDir, /^\d{3}\.\w+$/);
+    }
+
+    /**
+     * Prepares non-empty chapters for the print-oriented renderers (DOCX,
+     * PDF), which walk the Tiptap JSON directly instead of going via HTML.
+     * Footnotes become endnotes, as print has no popups, and pending
+     * suggestions are shown accepted.
+     */
+    private toManuscriptChapters(chapters: Chapter[]) {
+        const content = chapters
+            .filter((chapter) => extractPlainText(chapter.content).trim())
+            .map((chapter) => {
+                const doc = parseTiptapDocument(chapter.content);
+                return {
+                    title: chapter.title,
+                    doc: doc ? appendEndnotes(acceptSuggestions(doc)) : null,
+                    plainText: doc
+                        ? ""
+                        : this.convertLegacyContentToText(chapter.content),
+                };
+            });
+
+        if (content.length === 0) {
+            throw new Error(
+                "No chapters with content to export. Write some content first.",
+            );
+        }
+
+        return content;
+    }
+
+    /**
+     * EPUB chapter HTML with its footnote markers numbered and pending
+     * suggestions accepted. The notes are returned separately for
+     * `renderEpubFootnotes`.
+     */
+    private convertChapterToHtml(content: string): {
+        html: string;
+        notes: CompiledFootnote[];
+    } {
+        const doc = parseTiptapDocument(content);
+        if (!doc) {
+            return { html: this.convertContentToHtml(content), notes: [] };
+        }
+
+        const numbered = numberFootnotes(acceptSuggestions(doc));
+        return { html: renderTiptapHtml(numbered.doc), notes: numbered.notes };
+    }
+
     /**
      * Converts chapter content (stored as Tiptap JSON or fallback HTML/text)
      * into semantic HTML suitable for EPUB.
@@ -328,13 +842,9 @@ export class ExportService implements IExportService {
             return "";
         }
 
-        try {
-            const json = JSON.parse(content) as TiptapNode;
-            if (json.type === "doc" && Array.isArray(json.content)) {
-                return renderNode(json);
-            }
-        } catch {
-            // Not JSON – treat as raw HTML/text
+        const doc = parseTiptapDocument(content);
+        if (doc) {
+            return renderTiptapHtml(doc);
         }
 
         // Fallback: if it looks like HTML, return as-is; otherwise wrap in <p>
@@ -348,4 +858,20 @@ export class ExportService implements IExportService {
             .map((p) => `<p>${escapeHtml(p.trim())}</p>`)
             .join("\n");
     }
+
+    /**
+     * Flattens legacy HTML/plain-text chapter content into blank-line
+     * separated paragraphs for formats that cannot take raw HTML.
+     */
+    private convertLegacyContentToText(content: string): string {
+        return content
+            .replace(/<\/(p|h[1-6]|li|blockquote|pre)>/gi, "\n\n")
+            .replace(/<br\s*\/?>/gi, "\n")
+            .replace(/<[^>]*>/g, "")
+            .replace(/&nbsp;/g, " ")
+            .replace(/&lt;/g, "<")
+            .replace(/&gt;/g, ">")
+            .replace(/&quot;/g, '"')
+            .replace(/&amp;/g, "&");
+    }
 }
@@ -0,0 +1,111 @@
+import * as fsPromises from "fs/promises";
+import * as path from "path";
+
+import {
+    IWorldBibleExportService,
+    WorldBible,
+    WorldBibleFormat,
+} from "../../@core/domain/services/IWorldBibleExportService";
+import { guessMimeType } from "../services/htmlToTiptap";
+import {
+    loadExportImages,
+    readAssetBytes,
+    sniffImageExtension,
+} from "./export/exportImages";
+import {
+    collectWorldBibleImageUrls,
+    renderWorldBibleHtml,
+    renderWorldBibleMarkdown,
+    renderWorldBiblePdf,
+} from "./export/worldBibleRender";
+
+export class WorldBibleExportService implements IWorldBibleExportService {
+    async exportWorldBible(
+        bible: WorldBible,
+        format: WorldBibleFormat,
+        outputPath: string,
+    ): Promise<void> {
+        const imageUrls = collectWorldBibleImageUrls(bible);
+
+        switch (format) {
+            case "html":
+                await this.exportToHtml(bible, imageUrls, outputPath);
+                break;
+            case "pdf":
+                await this.exportToPdf(bible, imageUrls, outputPath);
+                break;
+            case "markdown":
+                await this.exportToMarkdown(bible, imageUrls, outputPath);
+                break;
+            default:
+                throw new Error(`Unsupported export format: ${format}`);
+        }
+    }
+
+    private async exportToHtml(
+        bible: WorldBible,
+        imageUrls: string[],
+        outputPath: string,
+    ): Promise<void> {
+        const imageSources = new Map<string, string>();
+        for (const url of imageUrls) {
+            const data = await readAssetBytes(url);
+            if (data) {
+                const mimeType = guessMimeType(
+                    `image.${sniffImageExtension(data)}`,
+                );
+                imageSources.set(
+                    url,
+                    `data:${mimeType};base64,${data.toString("base64")}`,
+                );
+            }
+        }
+
+        await fsPromises.writeFile(
+            outputPath,
+            renderWorldBibleHtml(bible, imageSources),
+            "utf-8",
+        );
+    }
+
+    private async exportToPdf(
+        bible: WorldBible,
+        imageUrls: string[],
+        outputPath: string,
+    ): Promise<void> {
+        const images = await loadExportImages(imageUrls);
+        const pdfBuffer = await renderWorldBiblePdf(bible, images);
+        await fsPromises.writeFile(outputPath, pdfBuffer);
+    }
+
+    /**
+     * Writes `<name>.md` plus a `<name>_images` folder beside it, so the
+     * Markdown can refer to portraits by relative path.
+     */
+    private async exportToMarkdown(
+        bible: WorldBible,
+        imageUrls: string[],
+        outputPath: string,
+    ): Promise<void> {
+        const imagesDirName = `${path.basename(outputPath, path.extname(outputPath))}_images`;
+        const imagesDir = path.join(path.dirname(outputPath), imagesDirName);
+
+        const imagePaths = new Map<string, string>();
+        for (const url of imageUrls) {
+            const data = await readAssetBytes(url);
+            if (!data) {
+                continue;
+            }
+            const imageFile = `${String(imagePaths.size + 1).padStart(3, "0")}.${sniffImageExtension(data)}`;
+            await fsPromises.mkdir(imagesDir, { recursive: true });
+            await fsPromises.writeFile(path.join(imagesDir, imageFile), data);
+            imagePaths.set(url, `${imagesDirName}/${imageFile}`);
+        }
+
+        await fsPromises.writeFile(
+            outputPath,
+            renderWorldBibleMarkdown(bible, imagePaths),
+            "utf-8",
+        );
+    }
+}
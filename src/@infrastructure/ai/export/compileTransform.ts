@@ -0,0 +1,77 @@
+import type { CompileOptions } from "../../../@core/domain/entities/story/ExportSettings";
+import type { TiptapNode } from "./tiptapRender";
+
+/** Editor marks that carry reviewer comments rather than manuscript text. */
+const COMMENT_MARKS = new Set(["comment", "inlineComment"]);
+
+/**
+ * Applies a compile preset to a Tiptap doc before it reaches any output
+ * format, so scene separators, stripped comments and images, and mention
+ * styling behave the same in EPUB, DOCX, PDF and Markdown.
+ */
+export function applyCompileOptions(
+    doc: TiptapNode,
+    options: CompileOptions,
+): TiptapNode {
+    return transformNode(doc, options)[0] ?? { type: "doc", content: [] };
+}
+
+function transformNode(
+    node: TiptapNode,
+    options: CompileOptions,
+): TiptapNode[] {
+    switch (node.type) {
+        case "horizontalRule":
+            if (!options.sceneSeparator) {
+                return [node];
+            }
+            return [
+                {
+                    type: "paragraph",
+                    attrs: { textAlign: "center" },
+                    content: [{ type: "text", text: options.sceneSeparator }],
+                },
+            ];
+
+        case "image":
+            return options.stripImages ? [] : [node];
+
+        case "documentReference": {
+            if (options.mentionStyle === "text") {
+                return [node];
+            }
+            const label = String(node.attrs?.label ?? node.attrs?.id ?? "");
+            if (options.mentionStyle === "omit" || !label) {
+                return [];
+            }
+            return [{ type: "text", text: label, marks: [{ type: "italic" }] }];
+        }
+
+        case "text": {
+            if (!options.stripComments || !node.marks) {
+                return [node];
+            }
+            const marks = node.marks.filter(
+                (mark) => !COMMENT_MARKS.has(mark.type),
+            );
+            return [
+                marks.length
+                    ? { ...node, marks }
+                    : { type: node.type, text: node.text },
+            ];
+        }
+
+        default:
+            if (!node.content) {
+                return [node];
+            }
+            return [
+                {
+                    ...node,
+                    content: node.content.flatMap((child) =>
+                        transformNode(child, options),
+                    ),
+                },
+            ];
+    }
+}
@@ -0,0 +1,561 @@
+import {
+    AlignmentType,
+    Document,
+    ExternalHyperlink,
+    HeadingLevel,
+    ImageRun,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    TextRun,
+    type ParagraphChild,
+} from "docx";
+
+import {
+    renderNode,
+    type TiptapNode,
+    type TiptapRenderTarget,
+} from "./tiptapRender";
+import {
+    fitImageWidth,
+    loadExportImages,
+    type ExportImage,
+} from "./exportImages";
+
+// ─── Intermediate DOCX tree ──────────────────────────────────────────────────
+//
+// docx objects are immutable once constructed (a TextRun cannot gain a mark,
+// a Paragraph cannot be moved into a list), so the Tiptap walk first builds
+// this plain tree and `materialize*` turns it into docx objects afterwards.
+
+interface DocxRunStyle {
+    bold?: boolean;
+    italics?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    code?: boolean;
+    color?: string;
+    font?: string;
+    link?: string;
+    superScript?: boolean;
+}
+
+type DocxInline =
+    | { kind: "text"; text: string; style: DocxRunStyle }
+    | { kind: "break" }
+    | { kind: "image"; src: string; alt: string }
+    | { kind: "reference"; label: string };
+
+interface DocxListPlacement {
+    type: "bullet" | "ordered";
+    level: number;
+    instance: number;
+}
+
+interface DocxParagraphBlock {
+    kind: "paragraph";
+    children: DocxInline[];
+    style?: string;
+    heading?: number;
+    textAlign?: string | null;
+    list?: DocxListPlacement;
+}
+
+type DocxItem = DocxInline | DocxParagraphBlock | { kind: "group"; items: DocxItem[] };
+
+// ─── Word styles ─────────────────────────────────────────────────────────────
+
+const ORDERED_LIST_REFERENCE = "inkline-ordered-list";
+const MAX_IMAGE_WIDTH_PX = 576; // 6" at 96 DPI – fits inside 1" margins on Letter/A4
+
+export const DOCX_STYLE_IDS = {
+    quote: "Quote",
+    codeBlock: "CodeBlock",
+    sceneBreak: "SceneBreak",
+    documentReference: "DocumentReference",
+    inlineCode: "InlineCode",
+} as const;
+
+const HEADING_LEVELS = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+] as const;
+
+const ALIGNMENTS: Record<string, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+    center: AlignmentType.CENTER,
+    right: AlignmentType.RIGHT,
+    justify: AlignmentType.JUSTIFIED,
+};
+
+const DOCX_STYLES = {
+    default: {
+        document: {
+            run: { font: "Times New Roman", size: 24 },
+            paragraph: { spacing: { after: 120 } },
+        },
+    },
+    paragraphStyles: [
+        {
+            id: DOCX_STYLE_IDS.quote,
+            name: "Quote",
+            basedOn: "Normal",
+            next: "Normal",
+            quickFormat: true,
+            run: { italics: true },
+            paragraph: { indent: { left: 720, right: 720 } },
+        },
+        {
+            id: DOCX_STYLE_IDS.codeBlock,
+            name: "Code Block",
+            basedOn: "Normal",
+            next: "Normal",
+            run: { font: "Courier New", size: 20 },
+        },
+        {
+            id: DOCX_STYLE_IDS.sceneBreak,
+            name: "Scene Break",
+            basedOn: "Normal",
+            next: "Normal",
+            quickFormat: true,
+            paragraph: {
+                alignment: AlignmentType.CENTER,
+                spacing: { before: 240, after: 240 },
+            },
+        },
+    ],
+    characterStyles: [
+        {
+            id: DOCX_STYLE_IDS.documentReference,
+            name: "Document Reference",
+            basedOn: "DefaultParagraphFont",
+            quickFormat: true,
+            run: {},
+        },
+        {
+            id: DOCX_STYLE_IDS.inlineCode,
+            name: "Inline Code",
+            basedOn: "DefaultParagraphFont",
+            run: { font: "Courier New" },
+        },
+    ],
+};
+
+const DOCX_NUMBERING = {
+    config: [
+        {
+            reference: ORDERED_LIST_REFERENCE,
+            levels: [0, 1, 2, 3, 4, 5, 6, 7, 8].map((level) => ({
+                level,
+                format: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN][
+                    level % 3
+                ],
+                text: `%${level + 1}.`,
+                alignment: AlignmentType.START,
+                style: {
+                    paragraph: {
+                        indent: { left: 720 * (level + 1), hanging: 360 },
+                    },
+                },
+            })),
+        },
+    ],
+};
+
+// ─── Tiptap JSON → DOCX tree ─────────────────────────────────────────────────
+
+/** Numbers ordered lists across the whole Word document. */
+type OrderedListCounter = { instance: number };
+
+/**
+ * Creates a DOCX render target for the shared Tiptap walk. Every ordered list
+ * takes the next instance from the counter so it restarts at 1; chapters of
+ * one document must share the counter or their lists continue each other.
+ */
+function createDocxRenderTarget(
+    orderedLists: OrderedListCounter,
+): TiptapRenderTarget<DocxItem> {
+
+    const placeInList = (
+        items: DocxItem[],
+        type: DocxListPlacement["type"],
+        instance: number,
+    ): DocxItem => {
+        const blocks = normalizeBlocks(items);
+        for (const block of blocks) {
+            // Paragraphs already placed belong to a nested list one level down
+            block.list = block.list
+                ? { ...block.list, level: block.list.level + 1 }
+                : { type, level: 0, instance };
+        }
+        return { kind: "group", items: blocks };
+    };
+
+    const styleBlocks = (items: DocxItem[], style: string): DocxItem => {
+        const blocks = normalizeBlocks(items);
+        for (const block of blocks) {
+            block.style = block.style ?? style;
+        }
+        return { kind: "group", items: blocks };
+    };
+
+    return {
+        text: (text) => ({ kind: "text", text, style: {} }),
+
+        mark: (rendered, mark) => {
+            if (rendered.kind !== "text") {
+                return rendered;
+            }
+
+            const style: DocxRunStyle = { ...rendered.style };
+            switch (mark.type) {
+                case "bold":
+                    style.bold = true;
+                    break;
+                case "italic":
+                    style.italics = true;
+                    break;
+                case "underline":
+                    style.underline = true;
+                    break;
+                case "strike":
+                    style.strike = true;
+                    break;
+                case "code":
+                    style.code = true;
+                    break;
+                case "link":
+                    style.link = (mark.attrs?.href as string) || undefined;
+                    break;
+                case "textStyle": {
+                    const color = normalizeHexColor(mark.attrs?.color);
+                    if (color) {
+                        style.color = color;
+                    }
+                    const font = primaryFontFamily(mark.attrs?.fontFamily);
+                    if (font) {
+                        style.font = font;
+                    }
+                    break;
+                }
+                default:
+                    // Silently skip unknown marks (e.g. comment marks)
+                    return rendered;
+            }
+            return { ...rendered, style };
+        },
+
+        paragraph: (children, textAlign) => ({
+            kind: "paragraph",
+            children: flattenInline(children),
+            textAlign,
+        }),
+
+        heading: (level, children, textAlign) => ({
+            kind: "paragraph",
+            children: flattenInline(children),
+            heading: level,
+            textAlign,
+        }),
+
+        bulletList: (items) => placeInList(items, "bullet", 0),
+
+        orderedList: (items) => {
+            orderedLists.instance += 1;
+            return placeInList(items, "ordered", orderedLists.instance);
+        },
+
+        listItem: (children) => ({ kind: "group", items: children }),
+
+        blockquote: (children) => styleBlocks(children, DOCX_STYLE_IDS.quote),
+
+        codeBlock: (children) => ({
+            kind: "paragraph",
+            style: DOCX_STYLE_IDS.codeBlock,
+            children: flattenInline(children).flatMap(splitLineBreaks),
+        }),
+
+        hardBreak: () => ({ kind: "break" }),
+
+        horizontalRule: () => ({
+            kind: "paragraph",
+            style: DOCX_STYLE_IDS.sceneBreak,
+            children: [{ kind: "text", text: "* * *", style: {} }],
+        }),
+
+        image: ({ src, alt }) => ({ kind: "image", src, alt }),
+
+        documentReference: ({ label }) => ({ kind: "reference", label }),
+
+        footnote: ({ number }) => ({
+            kind: "text",
+            text: number ? String(number) : "*",
+            style: { superScript: true },
+        }),
+
+        fragment: (children) => ({ kind: "group", items: children }),
+    };
+}
+
+function isInline(item: DocxItem): item is DocxInline {
+    return item.kind !== "paragraph" && item.kind !== "group";
+}
+
+function flattenInline(items: DocxItem[]): DocxInline[] {
+    const out: DocxInline[] = [];
+    for (const item of items) {
+        if (item.kind === "group") {
+            out.push(...flattenInline(item.items));
+        } else if (item.kind === "paragraph") {
+            out.push(...item.children);
+        } else {
+            out.push(item);
+        }
+    }
+    return out;
+}
+
+/**
+ * Flattens groups into paragraphs, wrapping any stray inline runs (e.g. a
+ * top-level image) in a paragraph of their own.
+ */
+function normalizeBlocks(items: DocxItem[]): DocxParagraphBlock[] {
+    const blocks: DocxParagraphBlock[] = [];
+    let inlineBuffer: DocxInline[] = [];
+
+    const flushInline = () => {
+        if (inlineBuffer.length) {
+            blocks.push({ kind: "paragraph", children: inlineBuffer });
+            inlineBuffer = [];
+        }
+    };
+
+    const visit = (item: DocxItem) => {
+        if (item.kind === "group") {
+            item.items.forEach(visit);
+        } else if (isInline(item)) {
+            inlineBuffer.push(item);
+        } else {
+            flushInline();
+            blocks.push(item);
+        }
+    };
+
+    items.forEach(visit);
+    flushInline();
+    return blocks;
+}
+
+function splitLineBreaks(inline: DocxInline): DocxInline[] {
+    if (inline.kind !== "text" || !inline.text.includes("\n")) {
+        return [inline];
+    }
+    const out: DocxInline[] = [];
+    inline.text.split("\n").forEach((line, index) => {
+        if (index > 0) {
+            out.push({ kind: "break" });
+        }
+        if (line) {
+            out.push({ ...inline, text: line });
+        }
+    });
+    return out;
+}
+
+function normalizeHexColor(value: unknown): string | null {
+    if (typeof value !== "string") {
+        return null;
+    }
+    const match = value.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+    if (!match) {
+        return null;
+    }
+    const hex = match[1];
+    return hex.length === 3
+        ? hex
+              .split("")
+              .map((c) => c + c)
+              .join("")
+        : hex;
+}
+
+function primaryFontFamily(value: unknown): string | null {
+    if (typeof value !== "string") {
+        return null;
+    }
+    const first = value.split(",")[0]?.trim().replace(/^["']|["']$/g, "");
+    return first || null;
+}
+
+// ─── DOCX tree → docx objects ────────────────────────────────────────────────
+
+function collectImageSources(items: DocxParagraphBlock[]): string[] {
+    return items.flatMap((block) =>
+        block.children.flatMap((child) =>
+            child.kind === "image" && child.src ? [child.src] : [],
+        ),
+    );
+}
+
+function materializeInline(
+    inline: DocxInline,
+    images: Map<string, ExportImage>,
+): ParagraphChild {
+    switch (inline.kind) {
+        case "break":
+            return new TextRun({ break: 1 });
+
+        case "reference":
+            return new TextRun({
+                text: inline.label,
+                style: DOCX_STYLE_IDS.documentReference,
+            });
+
+        case "image": {
+            const image = images.get(inline.src);
+            if (!image) {
+                return new TextRun({
+                    text: inline.alt ? `[${inline.alt}]` : "",
+                });
+            }
+            return new ImageRun({
+                type: image.type,
+                data: image.data,
+                transformation: fitImageWidth(image, MAX_IMAGE_WIDTH_PX),
+                ...(inline.alt
+                    ? { altText: { name: inline.alt, description: inline.alt } }
+                    : {}),
+            });
+        }
+
+        case "text": {
+            const { style } = inline;
+            const run = new TextRun({
+                text: inline.text,
+                bold: style.bold,
+                italics: style.italics,
+                underline: style.underline ? {} : undefined,
+                strike: style.strike,
+                color: style.color,
+                font: style.font,
+                superScript: style.superScript,
+                style: style.link
+                    ? "Hyperlink"
+                    : style.code
+                      ? DOCX_STYLE_IDS.inlineCode
+                      : undefined,
+            });
+            return style.link
+                ? new ExternalHyperlink({ link: style.link, children: [run] })
+                : run;
+        }
+    }
+}
+
+function materializeBlock(
+    block: DocxParagraphBlock,
+    images: Map<string, ExportImage>,
+): Paragraph {
+    const list = block.list;
+    return new Paragraph({
+        children: block.children.map((child) =>
+            materializeInline(child, images),
+        ),
+        style: block.style,
+        heading: block.heading ? HEADING_LEVELS[block.heading - 1] : undefined,
+        alignment: block.textAlign ? ALIGNMENTS[block.textAlign] : undefined,
+        ...(list?.type === "bullet" ? { bullet: { level: list.level } } : {}),
+        ...(list?.type === "ordered"
+            ? {
+                  numbering: {
+                      reference: ORDERED_LIST_REFERENCE,
+                      level: list.level,
+                      instance: list.instance,
+                  },
+              }
+            : {}),
+    });
+}
+
+// ─── Manuscript assembly ─────────────────────────────────────────────────────
+
+export interface DocxManuscriptChapter {
+    title: string;
+    /** Parsed Tiptap doc, or null for legacy plain-text content. */
+    doc: TiptapNode | null;
+    /** Used when `doc` is null. */
+    plainText: string;
+}
+
+export interface DocxManuscript {
+    title: string;
+    author: string;
+    chapters: DocxManuscriptChapter[];
+}
+
+/**
+ * Builds a Word document: a title page, then each chapter on a new page under
+ * a Heading 1, with body content mapped onto Word's built-in and Inkline
+ * paragraph/character styles.
+ */
+export async function renderManuscriptDocx(
+    manuscript: DocxManuscript,
+): Promise<Buffer> {
+    const orderedLists: OrderedListCounter = { instance: 0 };
+    const chapterBlocks = manuscript.chapters.map((chapter) => {
+        if (chapter.doc) {
+            const target = createDocxRenderTarget(orderedLists);
+            return normalizeBlocks([renderNode(chapter.doc, target)]);
+        }
+        return chapter.plainText
+            .split(/\n{2,}/)
+            .map((p) => p.trim())
+            .filter(Boolean)
+            .map<DocxParagraphBlock>((text) => ({
+                kind: "paragraph",
+                children: [{ kind: "text", text, style: {} }],
+            }));
+    });
+
+    const images = await loadExportImages(
+        chapterBlocks.flatMap(collectImageSources),
+    );
+
+    const children: Paragraph[] = [
+        new Paragraph({
+            heading: HeadingLevel.TITLE,
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun(manuscript.title)],
+        }),
+        new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [new TextRun({ text: manuscript.author, italics: true })],
+        }),
+    ];
+
+    manuscript.chapters.forEach((chapter, index) => {
+        children.push(
+            new Paragraph({
+                heading: HeadingLevel.HEADING_1,
+                pageBreakBefore: true,
+                children: [new TextRun(chapter.title)],
+            }),
+        );
+        for (const block of chapterBlocks[index]) {
+            children.push(materializeBlock(block, images));
+        }
+    });
+
+    const document = new Document({
+        title: manuscript.title,
+        creator: manuscript.author,
+        styles: DOCX_STYLES,
+        numbering: DOCX_NUMBERING,
+        sections: [{ children }],
+    });
+
+    return Packer.toBuffer(document);
+}
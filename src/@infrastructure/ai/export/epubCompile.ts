@@ -0,0 +1,339 @@
+import type {
+    ChapterNumberingStyle,
+    FootnoteStyle,
+} from "../../../@core/domain/entities/story/ExportSettings";
+import type { CompiledFootnote } from "./footnotes";
+import { escapeAttr, escapeHtml } from "./htmlRender";
+
+// ─── Chapter numbering ───────────────────────────────────────────────────────
+
+const ONES = [
+    "Zero",
+    "One",
+    "Two",
+    "Three",
+    "Four",
+    "Five",
+    "Six",
+    "Seven",
+    "Eight",
+    "Nine",
+    "Ten",
+    "Eleven",
+    "Twelve",
+    "Thirteen",
+    "Fourteen",
+    "Fifteen",
+    "Sixteen",
+    "Seventeen",
+    "Eighteen",
+    "Nineteen",
+];
+const TENS = [
+    "",
+    "",
+    "Twenty",
+    "Thirty",
+    "Forty",
+    "Fifty",
+    "Sixty",
+    "Seventy",
+    "Eighty",
+    "Ninety",
+];
+
+/** Spells out 0–9999 the way chapter headings do ("Twenty-One"). */
+export function numberToWords(value: number): string {
+    if (value < 20) {
+        return ONES[value];
+    }
+    if (value < 100) {
+        const rest = value % 10;
+        return rest
+            ? `${TENS[Math.floor(value / 10)]}-${ONES[rest]}`
+            : TENS[Math.floor(value / 10)];
+    }
+    if (value < 1000) {
+        const rest = value % 100;
+        const hundreds = `${ONES[Math.floor(value / 100)]} Hundred`;
+        return rest ? `${hundreds} ${numberToWords(rest)}` : hundreds;
+    }
+    if (value < 10000) {
+        const rest = value % 1000;
+        const thousands = `${ONES[Math.floor(value / 1000)]} Thousand`;
+        return rest ? `${thousands} ${numberToWords(rest)}` : thousands;
+    }
+    return String(value);
+}
+
+/** "Chapter One", "1" or null for the 1-based chapter `position`. */
+export function formatChapterNumber(
+    position: number,
+    style: ChapterNumberingStyle,
+): string | null {
+    switch (style) {
+        case "words":
+            return `Chapter ${numberToWords(position)}`;
+        case "numerals":
+            return String(position);
+        case "none":
+            return null;
+    }
+}
+
+// ─── Table of contents ───────────────────────────────────────────────────────
+
+export interface EpubTocEntry {
+    label: string;
+    /** Relative to the OEBPS folder, e.g. `chapter-001.xhtml#h-1-2`. */
+    href: string;
+    children: EpubTocEntry[];
+}
+
+/**
+ * Gives headings inside chapter HTML stable ids so deeper TOC levels can
+ * link to them. `levels` is how many heading levels to collect, starting at
+ * the most prominent one the chapter actually uses.
+ */
+export function anchorHeadings(
+    html: string,
+    idPrefix: string,
+    levels: number,
+): { html: string; headings: { id: string; level: number; label: string }[] } {
+    const headingPattern = /<h([1-6])([^>]*)>(.*?)<\/h\1>/g;
+    const used = Array.from(html.matchAll(headingPattern), (match) =>
+        Number(match[1]),
+    );
+    const included = Array.from(new Set(used))
+        .sort((a, b) => a - b)
+        .slice(0, Math.max(0, levels));
+    if (included.length === 0) {
+        return { html, headings: [] };
+    }
+
+    const headings: { id: string; level: number; label: string }[] = [];
+    const anchored = html.replace(
+        headingPattern,
+        (whole, level: string, attrs: string, inner: string) => {
+            const depth = included.indexOf(Number(level));
+            const label = inner.replace(/<[^>]*>/g, "").trim();
+            if (depth === -1 || !label) {
+                return whole;
+            }
+            const existingId = /\sid="([^"]*)"/.exec(attrs)?.[1];
+            const id = existingId ?? `${idPrefix}-${headings.length + 1}`;
+            headings.push({ id, level: depth, label });
+            return existingId
+                ? whole
+                : `<h${level} id="${id}"${attrs}>${inner}</h${level}>`;
+        },
+    );
+
+    return { html: anchored, headings };
+}
+
+/** Nests flat `(level, entry)` pairs under the nearest shallower entry. */
+export function nestTocEntries(
+    items: { level: number; entry: EpubTocEntry }[],
+): EpubTocEntry[] {
+    const roots: EpubTocEntry[] = [];
+    const stack: { level: number; entry: EpubTocEntry }[] = [];
+    items.forEach((item) => {
+        while (stack.length && stack[stack.length - 1].level >= item.level) {
+            stack.pop();
+        }
+        (stack.length ? stack[stack.length - 1].entry.children : roots).push(
+            item.entry,
+        );
+        stack.push(item);
+    });
+    return roots;
+}
+
+function tocDepth(entries: EpubTocEntry[]): number {
+    return entries.reduce(
+        (depth, entry) => Math.max(depth, 1 + tocDepth(entry.children)),
+        0,
+    );
+}
+
+/** EPUB 3 navigation document (toc.xhtml). Labels are already HTML. */
+export function renderEpubNav(
+    title: string,
+    language: string,
+    entries: EpubTocEntry[],
+): string {
+    const renderList = (items: EpubTocEntry[], indent: string): string =>
+        `${indent}<ol style="list-style: none">\n${items
+            .map((entry) => {
+                const nested = entry.children.length
+                    ? `\n${renderList(entry.children, `${indent}    `)}${indent}  `
+                    : "";
+                return `${indent}  <li class="table-of-content"><a href="${escapeAttr(entry.href)}">${entry.label}</a>${nested}</li>\n`;
+            })
+            .join("")}${indent}</ol>\n`;
+
+    const lang = escapeAttr(language);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}">
+<head>
+    <title>${escapeHtml(title)}</title>
+    <meta charset="UTF-8" />
+    <link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+    <h1 class="h1">Contents</h1>
+    <nav id="toc" epub:type="toc">
+${renderList(entries, "        ")}    </nav>
+</body>
+</html>`;
+}
+
+/** EPUB 2 NCX table of contents, kept for older readers. */
+export function renderEpubNcx(
+    uid: string,
+    title: string,
+    author: string,
+    entries: EpubTocEntry[],
+): string {
+    let playOrder = 0;
+    const renderPoints = (items: EpubTocEntry[], indent: string): string =>
+        items
+            .map((entry) => {
+                playOrder += 1;
+                return (
+                    `${indent}<navPoint id="nav-${playOrder}" playOrder="${playOrder}">\n` +
+                    `${indent}    <navLabel><text>${entry.label.replace(/<[^>]*>/g, "")}</text></navLabel>\n` +
+                    `${indent}    <content src="${escapeAttr(entry.href)}"/>\n` +
+                    renderPoints(entry.children, `${indent}    `) +
+                    `${indent}</navPoint>\n`
+                );
+            })
+            .join("");
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+    <head>
+        <meta name="dtb:uid" content="${escapeAttr(uid)}" />
+        <meta name="dtb:generator" content="Inkline"/>
+        <meta name="dtb:depth" content="${Math.max(1, tocDepth(entries))}"/>
+        <meta name="dtb:totalPageCount" content="0"/>
+        <meta name="dtb:maxPageNumber" content="0"/>
+    </head>
+    <docTitle><text>${escapeHtml(title)}</text></docTitle>
+    <docAuthor><text>${escapeHtml(author)}</text></docAuthor>
+    <navMap>
+${renderPoints(entries, "        ")}    </navMap>
+</ncx>`;
+}
+
+// ─── Footnotes ───────────────────────────────────────────────────────────────
+
+/**
+ * The notes behind a chapter's `noteref` markers. "popup" writes EPUB 3
+ * footnote asides, which reading systems hide from the page and show when
+ * the marker is tapped; "endnotes" writes a visible Notes list instead. Each
+ * note links back to its marker either way.
+ */
+export function renderEpubFootnotes(
+    notes: CompiledFootnote[],
+    style: FootnoteStyle,
+): string {
+    if (notes.length === 0) {
+        return "";
+    }
+
+    const noteBody = (note: CompiledFootnote) =>
+        `<p><a href="#fnref${note.number}">${note.number}.</a> ` +
+        `${escapeHtml(note.text).replace(/\n/g, "<br/>")}</p>`;
+
+    if (style === "popup") {
+        return notes
+            .map(
+                (note) =>
+                    `<aside epub:type="footnote" id="fn${note.number}" class="footnote">` +
+                    `${noteBody(note)}</aside>\n`,
+            )
+            .join("");
+    }
+
+    const items = notes
+        .map(
+            (note) =>
+                `<li epub:type="endnote" id="fn${note.number}">${noteBody(note)}</li>\n`,
+        )
+        .join("");
+    return (
+        `<section epub:type="endnotes" class="endnotes">\n<h2>Notes</h2>\n` +
+        `<ol>\n${items}</ol>\n</section>\n`
+    );
+}
+
+// ─── Package metadata ────────────────────────────────────────────────────────
+
+/** Normalised ISBN digits, or null when `value` is not an ISBN-10/13. */
+export function parseIsbn(value: string): string | null {
+    const digits = value
+        .replace(/^(urn:)?isbn:?/i, "")
+        .replace(/[\s-]/g, "")
+        .toUpperCase();
+    return /^(\d{9}[\dX]|\d{13})$/.test(digits) ? digits : null;
+}
+
+/**
+ * Adjusts epub-gen-memory's EPUB 3 `content.opf` template: our own
+ * identifier instead of its random UUID, series metadata (EPUB 3 collections
+ * plus the Calibre tags most readers understand) and a cover-image property.
+ */
+export function customizeEpubPackage(
+    template: string,
+    metadata: {
+        identifier: string;
+        seriesName: string;
+        seriesIndex: number | null;
+    },
+): string {
+    const identifierTag = '<dc:identifier id="BookId"><%= id %></dc:identifier>';
+    if (!template.includes(identifierTag) || !template.includes("</metadata>")) {
+        throw new Error("Unsupported EPUB package template.");
+    }
+
+    let opf = template.replace(
+        identifierTag,
+        `<dc:identifier id="BookId">${escapeHtml(metadata.identifier)}</dc:identifier>`,
+    );
+    if (!metadata.identifier.startsWith("urn:")) {
+        // The template declares the identifier a URN (ONIX code 22)
+        opf = opf.replace(
+            /\s*<meta refines="#BookId" property="identifier-type"[^>]*>[^<]*<\/meta>/,
+            "",
+        );
+    }
+
+    const extra: string[] = [];
+    if (metadata.seriesName) {
+        const name = escapeHtml(metadata.seriesName);
+        extra.push(
+            `<meta property="belongs-to-collection" id="series">${name}</meta>`,
+            `<meta refines="#series" property="collection-type">series</meta>`,
+            `<meta name="calibre:series" content="${escapeAttr(metadata.seriesName)}"/>`,
+        );
+        if (metadata.seriesIndex !== null) {
+            extra.push(
+                `<meta refines="#series" property="group-position">${metadata.seriesIndex}</meta>`,
+                `<meta name="calibre:series_index" content="${metadata.seriesIndex}"/>`,
+            );
+        }
+    }
+
+    return opf
+        .replace(
+            "</metadata>",
+            `${extra.map((line) => `    ${line}\n`).join("")}    </metadata>`,
+        )
+        .replace(
+            '<item id="image_cover" href=',
+            '<item id="image_cover" properties="cover-image" href=',
+        );
+}
@@ -0,0 +1,226 @@
+import { Buffer } from "buffer";
+
+import { fileSystemService } from "../../storage/FileSystemService";
+
+export type ExportImageType = "png" | "jpg" | "gif" | "bmp";
+
+export interface ExportImage {
+    data: Buffer;
+    type: ExportImageType;
+    /** Intrinsic size in pixels. */
+    width: number;
+    height: number;
+}
+
+const LOCAL_ASSET_PREFIX = "inkline-asset://";
+
+/**
+ * Loads the bytes behind an editor image `src` so binary export formats can
+ * embed them. Handles local assets, data URLs and remote URLs. Returns null
+ * for anything unreadable or in a format the exporters cannot embed (WebP,
+ * SVG), so callers can fall back to the alt text.
+ */
+export async function loadExportImage(src: string): Promise<ExportImage | null> {
+    const data = await readAssetBytes(src.trim());
+    if (!data) {
+        return null;
+    }
+
+    return describeImage(data);
+}
+
+/**
+ * Loads every distinct `src` once. Missing or unsupported images are simply
+ * absent from the returned map.
+ */
+export async function loadExportImages(
+    sources: Iterable<string>,
+): Promise<Map<string, ExportImage>> {
+    const images = new Map<string, ExportImage>();
+    for (const src of new Set(sources)) {
+        const image = await loadExportImage(src);
+        if (image) {
+            images.set(src, image);
+        }
+    }
+    return images;
+}
+
+/**
+ * Scales an image down (never up) to fit within `maxWidth` pixels.
+ */
+export function fitImageWidth(
+    image: Pick<ExportImage, "width" | "height">,
+    maxWidth: number,
+): { width: number; height: number } {
+    if (image.width <= maxWidth) {
+        return { width: image.width, height: image.height };
+    }
+    const ratio = maxWidth / image.width;
+    return {
+        width: Math.round(maxWidth),
+        height: Math.max(1, Math.round(image.height * ratio)),
+    };
+}
+
+/**
+ * Reads images that live on this machine (data URLs and local assets) without
+ * touching the network. Returns null for remote or unreadable sources.
+ */
+export async function readLocalImageBytes(src: string): Promise<Buffer | null> {
+    if (!src) {
+        return null;
+    }
+
+    if (src.startsWith("data:")) {
+        const match = src.match(/^data:[^;,]*(;base64)?,([\s\S]*)$/);
+        if (!match) {
+            return null;
+        }
+        return match[1]
+            ? Buffer.from(match[2], "base64")
+            : Buffer.from(decodeURIComponent(match[2]), "utf-8");
+    }
+
+    const localPath = resolveLocalAssetPath(src);
+    if (localPath) {
+        return fileSystemService.readBuffer(localPath);
+    }
+
+    return null;
+}
+
+/** File extension for raw image bytes, including formats we cannot embed. */
+export function sniffImageExtension(data: Buffer): string {
+    const described = describeImage(data);
+    if (described) {
+        return described.type;
+    }
+    if (
+        data.length >= 12 &&
+        data.toString("ascii", 0, 4) === "RIFF" &&
+        data.toString("ascii", 8, 12) === "WEBP"
+    ) {
+        return "webp";
+    }
+    const head = data.toString("utf-8", 0, 256).trimStart();
+    if (head.startsWith("<svg") || head.startsWith("<?xml")) {
+        return "svg";
+    }
+    return "bin";
+}
+
+/**
+ * Reads the bytes behind any asset URL, local or remote. Returns null when
+ * the source is unreadable or the network is unavailable.
+ */
+export async function readAssetBytes(src: string): Promise<Buffer | null> {
+    const local = await readLocalImageBytes(src);
+    if (local) {
+        return local;
+    }
+
+    if (/^https?:\/\//i.test(src)) {
+        try {
+            const response = await fetch(src);
+            if (!response.ok) {
+                return null;
+            }
+            return Buffer.from(await response.arrayBuffer());
+        } catch {
+            // Offline or unreachable – caller falls back to alt text
+            return null;
+        }
+    }
+
+    return null;
+}
+
+function resolveLocalAssetPath(src: string): string | null {
+    if (src.startsWith(LOCAL_ASSET_PREFIX)) {
+        try {
+            const url = new URL(src);
+            if (url.hostname !== "local") {
+                return null;
+            }
+            return decodeURIComponent(url.pathname).replace(/^\/+/, "") || null;
+        } catch {
+            return null;
+        }
+    }
+
+    const normalized = src.replace(/\\/g, "/").replace(/^\/+/, "");
+    return normalized.startsWith("assets/") ? normalized : null;
+}
+
+/** Identify the image format from its magic bytes and read its pixel size. */
+function describeImage(data: Buffer): ExportImage | null {
+    if (
+        data.length >= 24 &&
+        data.readUInt32BE(0) === 0x89504e47 &&
+        data.readUInt32BE(4) === 0x0d0a1a0a
+    ) {
+        return {
+            data,
+            type: "png",
+            width: data.readUInt32BE(16),
+            height: data.readUInt32BE(20),
+        };
+    }
+
+    if (data.length >= 10 && data.toString("ascii", 0, 3) === "GIF") {
+        return {
+            data,
+            type: "gif",
+            width: data.readUInt16LE(6),
+            height: data.readUInt16LE(8),
+        };
+    }
+
+    if (data.length >= 26 && data.toString("ascii", 0, 2) === "BM") {
+        return {
+            data,
+            type: "bmp",
+            width: Math.abs(data.readInt32LE(18)),
+            height: Math.abs(data.readInt32LE(22)),
+        };
+    }
+
+    if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+        const size = readJpegSize(data);
+        return size ? { data, type: "jpg", ...size } : null;
+    }
+
+    return null;
+}
+
+function readJpegSize(data: Buffer): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) {
+            offset += 1;
+            continue;
+        }
+
+        const marker = data[offset + 1];
+        const segmentLength = data.readUInt16BE(offset + 2);
+
+        // SOF0–SOF15 carry the frame size (C4, C8 and CC are not frames)
+        const isStartOfFrame =
+            marker >= 0xc0 &&
+            marker <= 0xcf &&
+            marker !== 0xc4 &&
+            marker !== 0xc8 &&
+            marker !== 0xcc;
+
+        if (isStartOfFrame) {
+            return {
+                height: data.readUInt16BE(offset + 5),
+                width: data.readUInt16BE(offset + 7),
+            };
+        }
+
+        offset += 2 + segmentLength;
+    }
+    return null;
+}
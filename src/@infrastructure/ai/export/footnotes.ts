@@ -0,0 +1,76 @@
+import type { TiptapNode } from "./tiptapRender";
+
+/** A footnote as compiled, numbered from 1 within its chapter. */
+export interface CompiledFootnote {
+    id: string;
+    number: number;
+    text: string;
+}
+
+/**
+ * Numbers a chapter's footnotes in reading order. The editor never stores
+ * numbers, so every export format goes through here before rendering and
+ * reads the number back from the marker's `number` attribute.
+ */
+export function numberFootnotes(doc: TiptapNode): {
+    doc: TiptapNode;
+    notes: CompiledFootnote[];
+} {
+    const notes: CompiledFootnote[] = [];
+
+    const visit = (node: TiptapNode): TiptapNode => {
+        if (node.type === "footnote") {
+            const note: CompiledFootnote = {
+                id: String(node.attrs?.id ?? ""),
+                number: notes.length + 1,
+                text: String(node.attrs?.text ?? "").trim(),
+            };
+            notes.push(note);
+            return { ...node, attrs: { ...node.attrs, number: note.number } };
+        }
+        if (!node.content) {
+            return node;
+        }
+        return { ...node, content: node.content.map(visit) };
+    };
+
+    return { doc: visit(doc), notes };
+}
+
+/**
+ * Numbers a chapter's footnotes and lists their text under a Notes heading
+ * at the end, for formats without popup notes (DOCX, PDF).
+ */
+export function appendEndnotes(doc: TiptapNode): TiptapNode {
+    const numbered = numberFootnotes(doc);
+    if (numbered.notes.length === 0) {
+        return numbered.doc;
+    }
+
+    return {
+        ...numbered.doc,
+        content: [
+            ...(numbered.doc.content ?? []),
+            {
+                type: "heading",
+                attrs: { level: 2 },
+                content: [{ type: "text", text: "Notes" }],
+            },
+            {
+                type: "orderedList",
+                attrs: { start: 1 },
+                content: numbered.notes.map((note) => ({
+                    type: "listItem",
+                    content: [
+                        {
+                            type: "paragraph",
+                            content: note.text
+                                ? [{ type: "text", text: note.text }]
+                                : [],
+                        },
+                    ],
+                })),
+            },
+        ],
+    };
+}
@@ -0,0 +1,117 @@
+import {
+    renderNode,
+    type TiptapNode,
+    type TiptapRenderTarget,
+} from "./tiptapRender";
+
+// ─── Tiptap JSON → HTML converter ───────────────────────────────────────────
+
+/**
+ * Renders Tiptap JSON into semantic HTML suitable for EPUB readers.
+ *
+ * Supported marks: bold, italic, underline, strike, code, link,
+ * textStyle (color, fontFamily).
+ */
+export const htmlRenderTarget: TiptapRenderTarget<string> = {
+    text: (text) => escapeHtml(text),
+
+    mark: (html, mark) => {
+        switch (mark.type) {
+            case "bold":
+                return `<strong>${html}</strong>`;
+            case "italic":
+                return `<em>${html}</em>`;
+            case "underline":
+                return `<u>${html}</u>`;
+            case "strike":
+                return `<s>${html}</s>`;
+            case "code":
+                return `<code>${html}</code>`;
+            case "link": {
+                const href = (mark.attrs?.href as string) || "#";
+                return `<a href="${escapeAttr(href)}">${html}</a>`;
+            }
+            case "textStyle": {
+                const styles: string[] = [];
+                if (mark.attrs?.color) {
+                    styles.push(`color: ${mark.attrs.color}`);
+                }
+                if (mark.attrs?.fontFamily) {
+                    styles.push(`font-family: ${mark.attrs.fontFamily}`);
+                }
+                if (styles.length > 0) {
+                    return `<span style="${escapeAttr(styles.join("; "))}">${html}</span>`;
+                }
+                return html;
+            }
+            default:
+                // Silently skip unknown marks (e.g. comment marks)
+                return html;
+        }
+    },
+
+    paragraph: (children, textAlign) =>
+        `<p${alignStyle(textAlign)}>${children.join("") || "&nbsp;"}</p>\n`,
+
+    heading: (level, children, textAlign) =>
+        `<h${level}${alignStyle(textAlign)}>${children.join("")}</h${level}>\n`,
+
+    bulletList: (items) => `<ul>\n${items.join("")}</ul>\n`,
+
+    orderedList: (items, start) => {
+        const attr = start !== 1 ? ` start="${start}"` : "";
+        return `<ol${attr}>\n${items.join("")}</ol>\n`;
+    },
+
+    listItem: (children) => `<li>${children.join("")}</li>\n`,
+
+    blockquote: (children) => `<blockquote>\n${children.join("")}</blockquote>\n`,
+
+    codeBlock: (children, language) => {
+        const cls = language ? ` class="language-${escapeAttr(language)}"` : "";
+        return `<pre><code${cls}>${children.join("")}</code></pre>\n`;
+    },
+
+    hardBreak: () => "<br/>",
+
+    horizontalRule: () => "<hr/>\n",
+
+    image: ({ src, alt, title }) => {
+        const titleAttr = title ? ` title="${escapeAttr(title)}"` : "";
+        return `<img src="${escapeAttr(src)}" alt="${escapeAttr(alt)}"${titleAttr}/>`;
+    },
+
+    documentReference: ({ label }) => escapeHtml(label),
+
+    // Pairs with the notes `renderEpubFootnotes` writes after the chapter
+    footnote: ({ number }) =>
+        number
+            ? `<sup class="noteref"><a epub:type="noteref" id="fnref${number}" href="#fn${number}">${number}</a></sup>`
+            : "<sup>*</sup>",
+
+    fragment: (children) => children.join(""),
+};
+
+export function renderTiptapHtml(node: TiptapNode): string {
+    return renderNode(node, htmlRenderTarget);
+}
+
+function alignStyle(textAlign: string | null): string {
+    return textAlign ? ` style="text-align: ${escapeAttr(textAlign)}"` : "";
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+export function escapeAttr(value: string): string {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/"/g, "&quot;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,270 @@
+import {
+    DEFAULT_PART_TITLE,
+    type ManuscriptNode,
+    type ManuscriptStructure,
+} from "../../../@core/domain/entities/story/ManuscriptStructure";
+
+// ─── Inkline Markdown project layout ─────────────────────────────────────────
+//
+//   <project>/
+//     index.md               front matter: title, author, ordered chapter
+//                            list, parts
+//     chapters/001-<slug>.md front matter: id, title, order; Markdown body
+//     images/<file>          images referenced from chapters as ../images/…
+//
+// Chapters and scenes each get their own file. In the index a scene names
+// its chapter as `parent` and a chapter names its part as `part`.
+//
+// Shared by the Markdown exporter and importer so both sides agree on it.
+
+export const MARKDOWN_INDEX_FILE = "index.md";
+export const MARKDOWN_CHAPTERS_DIR = "chapters";
+export const MARKDOWN_IMAGES_DIR = "images";
+
+// ─── Document references ─────────────────────────────────────────────────────
+
+const DOCUMENT_REFERENCE_SCHEME = "inkline://";
+
+/**
+ * Link target used to carry a `documentReference` node through text formats,
+ * e.g. `[Mara](inkline://character/<id>)`.
+ */
+export function buildDocumentReferenceHref(
+    kind: string | null,
+    id: string,
+): string {
+    const encodedKind = encodeURIComponent(kind ?? "chapter");
+    return `${DOCUMENT_REFERENCE_SCHEME}${encodedKind}/${encodeURIComponent(id)}`;
+}
+
+export function parseDocumentReferenceHref(
+    href: string,
+): { id: string; kind: string } | null {
+    if (!href.startsWith(DOCUMENT_REFERENCE_SCHEME)) {
+        return null;
+    }
+    const [kind, id] = href
+        .slice(DOCUMENT_REFERENCE_SCHEME.length)
+        .split("/")
+        .map((part) => decodeURIComponent(part));
+    return kind && id ? { id, kind } : null;
+}
+
+// ─── Manuscript structure ────────────────────────────────────────────────────
+
+export type MarkdownStructureEntry = {
+    id: string;
+    /** Scenes: the chapter they belong to. */
+    parent?: string;
+    /** Chapters: the part they belong to. */
+    part?: string;
+};
+
+export type MarkdownPart = { id: string; title: string };
+
+/**
+ * Where each chapter and scene sits, for the index, and the parts that hold
+ * any of them.
+ */
+export function describeMarkdownStructure(structure: ManuscriptStructure): {
+    placements: Map<string, Omit<MarkdownStructureEntry, "id">>;
+    parts: MarkdownPart[];
+} {
+    const placements = new Map<string, Omit<MarkdownStructureEntry, "id">>();
+    const parts: MarkdownPart[] = [];
+
+    const placeChapter = (node: ManuscriptNode, part?: string) => {
+        placements.set(node.id, part ? { part } : {});
+        for (const scene of node.children) {
+            placements.set(scene.id, { parent: node.id });
+        }
+    };
+    for (const node of structure) {
+        if (node.type !== "part") {
+            placeChapter(node);
+            continue;
+        }
+        parts.push({ id: node.id, title: node.title ?? DEFAULT_PART_TITLE });
+        for (const chapter of node.children) {
+            placeChapter(chapter, node.id);
+        }
+    }
+    return { placements, parts };
+}
+
+/**
+ * Rebuilds the tree from the index, in its order. A scene whose chapter is
+ * not in the index becomes a chapter, and parts holding nothing are left
+ * out.
+ */
+export function buildMarkdownStructure(
+    entries: MarkdownStructureEntry[],
+    parts: MarkdownPart[],
+): ManuscriptStructure {
+    const partTitles = new Map(parts.map((part) => [part.id, part.title]));
+    const partNodes = new Map<string, ManuscriptNode>();
+    const chapterNodes = new Map<string, ManuscriptNode>();
+    const roots: ManuscriptStructure = [];
+
+    for (const entry of entries) {
+        const chapter = entry.parent
+            ? chapterNodes.get(entry.parent)
+            : undefined;
+        if (chapter) {
+            chapter.children.push({
+                id: entry.id,
+                type: "scene",
+                children: [],
+            });
+            continue;
+        }
+
+        const node: ManuscriptNode = {
+            id: entry.id,
+            type: "chapter",
+            children: [],
+        };
+        chapterNodes.set(entry.id, node);
+
+        const partTitle = entry.part ? partTitles.get(entry.part) : undefined;
+        if (!entry.part || partTitle === undefined) {
+            roots.push(node);
+            continue;
+        }
+        let part = partNodes.get(entry.part);
+        if (!part) {
+            part = {
+                id: entry.part,
+                type: "part",
+                title: partTitle,
+                children: [],
+            };
+            partNodes.set(entry.part, part);
+            roots.push(part);
+        }
+        part.children.push(node);
+    }
+    return roots;
+}
+
+// ─── Front matter ────────────────────────────────────────────────────────────
+//
+// A deliberately small YAML subset: scalar `key: value` pairs plus lists of
+// flat maps (`chapters:` → `  - file: …`). Strings are written JSON-quoted,
+// which is valid YAML, so other tools can still read the files.
+
+export type FrontMatterScalar = string | number | boolean | null;
+export type FrontMatterValue =
+    | FrontMatterScalar
+    | Record<string, FrontMatterScalar>[];
+export type FrontMatter = Record<string, FrontMatterValue>;
+
+function formatScalar(value: FrontMatterScalar): string {
+    return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+export function formatFrontMatter(data: FrontMatter): string {
+    const lines = ["---"];
+    for (const [key, value] of Object.entries(data)) {
+        if (!Array.isArray(value)) {
+            lines.push(`${key}: ${formatScalar(value)}`);
+            continue;
+        }
+        lines.push(`${key}:`);
+        for (const entry of value) {
+            Object.entries(entry).forEach(([entryKey, entryValue], index) => {
+                const prefix = index === 0 ? "  - " : "    ";
+                lines.push(`${prefix}${entryKey}: ${formatScalar(entryValue)}`);
+            });
+        }
+    }
+    lines.push("---", "");
+    return lines.join("\n");
+}
+
+function parseScalar(raw: string): FrontMatterScalar {
+    const value = raw.trim();
+    if (value.startsWith('"')) {
+        try {
+            return JSON.parse(value) as string;
+        } catch {
+            return value.slice(1, -1);
+        }
+    }
+    if (value.startsWith("'") && value.endsWith("'")) {
+        return value.slice(1, -1).replace(/''/g, "'");
+    }
+    if (value === "" || value === "~" || value === "null") {
+        return null;
+    }
+    if (value === "true" || value === "false") {
+        return value === "true";
+    }
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+        return Number(value);
+    }
+    return value;
+}
+
+/**
+ * Splits a Markdown file into its front matter and body. Files without a
+ * leading `---` block return empty data and the full text as body.
+ */
+export function parseFrontMatter(text: string): {
+    data: FrontMatter;
+    body: string;
+} {
+    const normalized = text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+    const match = normalized.match(/^---\n([\s\S]*?)\n---(?:\n|$)/);
+    if (!match) {
+        return { data: {}, body: normalized };
+    }
+
+    const data: FrontMatter = {};
+    let currentList: Record<string, FrontMatterScalar>[] | null = null;
+
+    for (const line of match[1].split("\n")) {
+        if (!line.trim() || line.trimStart().startsWith("#")) {
+            continue;
+        }
+
+        const listEntry = line.match(/^\s+-\s+([\w-]+):(.*)$/);
+        if (listEntry && currentList) {
+            currentList.push({ [listEntry[1]]: parseScalar(listEntry[2]) });
+            continue;
+        }
+
+        const listContinuation = line.match(/^\s+([\w-]+):(.*)$/);
+        if (listContinuation && currentList && currentList.length > 0) {
+            currentList[currentList.length - 1][listContinuation[1]] =
+                parseScalar(listContinuation[2]);
+            continue;
+        }
+
+        const pair = line.match(/^([\w-]+):(.*)$/);
+        if (!pair) {
+            continue;
+        }
+        if (pair[2].trim() === "") {
+            currentList = [];
+            data[pair[1]] = currentList;
+        } else {
+            currentList = null;
+            data[pair[1]] = parseScalar(pair[2]);
+        }
+    }
+
+    return { data, body: normalized.slice(match[0].length) };
+}
+
+/** Lowercase, dash-separated, filesystem-safe slug for chapter file names. */
+export function slugify(value: string): string {
+    const slug = value
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .slice(0, 60);
+    return slug || "chapter";
+}
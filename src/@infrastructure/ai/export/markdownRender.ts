@@ -0,0 +1,278 @@
+import {
+    renderNode,
+    type TiptapNode,
+    type TiptapRenderTarget,
+} from "./tiptapRender";
+import { escapeAttr } from "./htmlRender";
+import { buildDocumentReferenceHref } from "./markdownFormat";
+
+// ─── Tiptap JSON → Markdown converter ────────────────────────────────────────
+//
+// CommonMark + strikethrough. Anything Markdown cannot express natively is
+// written as inline HTML the importer understands (underline, text colour /
+// font, inline comments, footnotes, suggested changes, alignment), so a
+// project survives a round-trip.
+//
+// Block renderers return their Markdown followed by a blank line so blocks
+// can simply be concatenated; inline renderers never add newlines of their
+// own except for hard breaks.
+
+const BLOCK_END = "\n\n";
+
+const MARKDOWN_SPECIAL = /[\\`*_[\]<>~|]/g;
+const MARKDOWN_ESCAPED = /\\([\\`*_[\]<>~|])/g;
+
+function escapeMarkdown(text: string): string {
+    return text.replace(MARKDOWN_SPECIAL, "\\$&");
+}
+
+function unescapeMarkdown(text: string): string {
+    return text.replace(MARKDOWN_ESCAPED, "$1");
+}
+
+/**
+ * Escapes characters that only mean something at the start of a line
+ * (headings, list markers, thematic breaks).
+ */
+function escapeLineStarts(markdown: string): string {
+    return markdown
+        .split("\n")
+        .map((line) =>
+            line
+                .replace(/^(\s*)([#+-])(?=\s|$)/, "$1\\$2")
+                .replace(/^(\s*\d+)([.)])(?=\s|$)/, "$1\\$2")
+                .replace(/^(\s*)(=+|-+)\s*$/, "$1\\$2"),
+        )
+        .join("\n");
+}
+
+/**
+ * Wraps text in emphasis delimiters, keeping surrounding whitespace outside
+ * (`** bold**` is not bold in CommonMark).
+ */
+function wrapDelimited(markdown: string, open: string, close = open): string {
+    const match = markdown.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) {
+        return markdown;
+    }
+    return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+function codeSpan(markdown: string): string {
+    const code = unescapeMarkdown(markdown);
+    const longestRun = Math.max(
+        0,
+        ...(code.match(/`+/g) ?? []).map((run) => run.length),
+    );
+    const fence = "`".repeat(longestRun + 1);
+    const pad = code.startsWith("`") || code.endsWith("`") ? " " : "";
+    return `${fence}${pad}${code}${pad}${fence}`;
+}
+
+function linkDestination(href: string): string {
+    return /[\s()<>]/.test(href) ? `<${href.replace(/[<>]/g, "")}>` : href;
+}
+
+function indentContinuation(markdown: string, width: number): string {
+    const pad = " ".repeat(width);
+    return markdown
+        .split("\n")
+        .map((line, index) => (index === 0 || !line ? line : pad + line))
+        .join("\n");
+}
+
+function block(markdown: string, textAlign: string | null = null): string {
+    return textAlign
+        ? `<div align="${escapeAttr(textAlign)}">\n\n${markdown}\n\n</div>${BLOCK_END}`
+        : `${markdown}${BLOCK_END}`;
+}
+
+export interface MarkdownRenderOptions {
+    /** Maps an editor image `src` to the path written into the Markdown. */
+    resolveImageSrc?: (src: string) => string;
+}
+
+export function createMarkdownRenderTarget(
+    options: MarkdownRenderOptions = {},
+): TiptapRenderTarget<string> {
+    const resolveImageSrc = options.resolveImageSrc ?? ((src: string) => src);
+
+    const renderList = (
+        items: string[],
+        markerFor: (index: number) => string,
+    ) => {
+        const loose = items.some((item) => item.includes(BLOCK_END));
+        return block(
+            items
+                .map((item, index) => {
+                    const marker = markerFor(index);
+                    return marker + indentContinuation(item, marker.length);
+                })
+                .join(loose ? BLOCK_END : "\n"),
+        );
+    };
+
+    return {
+        text: (text) => escapeMarkdown(text),
+
+        mark: (markdown, mark) => {
+            switch (mark.type) {
+                case "bold":
+                    return wrapDelimited(markdown, "**");
+                case "italic":
+                    return wrapDelimited(markdown, "*");
+                case "underline":
+                    return wrapDelimited(markdown, "<u>", "</u>");
+                case "strike":
+                    return wrapDelimited(markdown, "~~");
+                case "code":
+                    return codeSpan(markdown);
+                case "link": {
+                    const href = (mark.attrs?.href as string) || "#";
+                    return `[${markdown}](${linkDestination(href)})`;
+                }
+                case "textStyle": {
+                    const styles: string[] = [];
+                    if (mark.attrs?.color) {
+                        styles.push(`color: ${mark.attrs.color}`);
+                    }
+                    if (mark.attrs?.fontFamily) {
+                        styles.push(`font-family: ${mark.attrs.fontFamily}`);
+                    }
+                    return styles.length > 0
+                        ? `<span style="${escapeAttr(styles.join("; "))}">${markdown}</span>`
+                        : markdown;
+                }
+                case "inlineComment": {
+                    const id = String(mark.attrs?.commentId ?? "");
+                    if (!id) {
+                        return markdown;
+                    }
+                    const text = String(mark.attrs?.commentText ?? "");
+                    const created = String(mark.attrs?.createdAt ?? "");
+                    return (
+                        `<span data-inline-comment-id="${escapeAttr(id)}"` +
+                        ` data-inline-comment-text="${escapeAttr(text)}"` +
+                        ` data-inline-comment-created="${escapeAttr(created)}">` +
+                        `${markdown}</span>`
+                    );
+                }
+                case "trackedInsertion":
+                case "trackedDeletion": {
+                    const id = String(mark.attrs?.changeId ?? "");
+                    if (!id) {
+                        return markdown;
+                    }
+                    const tag =
+                        mark.type === "trackedInsertion" ? "ins" : "del";
+                    const author = String(mark.attrs?.author ?? "");
+                    const created = String(mark.attrs?.createdAt ?? "");
+                    return (
+                        `<${tag} data-change-id="${escapeAttr(id)}"` +
+                        ` data-change-author="${escapeAttr(author)}"` +
+                        ` data-change-created="${escapeAttr(created)}">` +
+                        `${markdown}</${tag}>`
+                    );
+                }
+                default:
+                    return markdown;
+            }
+        },
+
+        paragraph: (children, textAlign) => {
+            const content = escapeLineStarts(children.join(""));
+            // Empty paragraphs are the editor's vertical spacing; keep them
+            return block(content.trim() ? content : "<p></p>", textAlign);
+        },
+
+        heading: (level, children, textAlign) =>
+            block(`${"#".repeat(level)} ${children.join("")}`, textAlign),
+
+        bulletList: (items) => renderList(items, () => "- "),
+
+        orderedList: (items, start) =>
+            renderList(items, (index) => `${start + index}. `),
+
+        listItem: (children) => children.join("").trimEnd(),
+
+        blockquote: (children) =>
+            block(
+                children
+                    .join("")
+                    .trimEnd()
+                    .split("\n")
+                    .map((line) => (line ? `> ${line}` : ">"))
+                    .join("\n"),
+            ),
+
+        codeBlock: (children, language) => {
+            const code = unescapeMarkdown(children.join(""));
+            const longestRun = Math.max(
+                2,
+                ...(code.match(/`+/g) ?? []).map((run) => run.length),
+            );
+            const fence = "`".repeat(longestRun + 1);
+            return block(
+                `${fence}${language ?? ""}\n${code.replace(/\n$/, "")}\n${fence}`,
+            );
+        },
+
+        hardBreak: () => "\\\n",
+
+        horizontalRule: () => block("* * *"),
+
+        image: ({ src, alt, title }) => {
+            const titlePart = title ? ` "${title.replace(/"/g, '\\"')}"` : "";
+            return `![${escapeMarkdown(alt)}](${linkDestination(resolveImageSrc(src))}${titlePart})`;
+        },
+
+        documentReference: ({ id, label, kind }) =>
+            `[${escapeMarkdown(label)}](${buildDocumentReferenceHref(kind, id)})`,
+
+        footnote: ({ id, number, text }) => {
+            // A blank line would end the inline HTML early
+            const note = escapeAttr(text).replace(/\n/g, "&#10;");
+            return (
+                `<sup data-footnote-id="${escapeAttr(id)}"` +
+                ` data-footnote-text="${note}">${number || "*"}</sup>`
+            );
+        },
+
+        fragment: (children) => {
+            // Block images (or stray inline content) sitting between blocks
+            // need their own paragraph
+            if (!children.some((child) => child.endsWith(BLOCK_END))) {
+                return children.join("");
+            }
+            return children
+                .map((child) =>
+                    child.endsWith(BLOCK_END) || !child.trim()
+                        ? child
+                        : block(child),
+                )
+                .join("");
+        },
+    };
+}
+
+/** Renders a Tiptap doc as a Markdown body (no front matter). */
+export function renderTiptapMarkdown(
+    node: TiptapNode,
+    options?: MarkdownRenderOptions,
+): string {
+    const markdown = renderNode(node, createMarkdownRenderTarget(options));
+    return markdown.trim() ? `${markdown.trimEnd()}\n` : "";
+}
+
+/** Collects every image `src` in a Tiptap doc, in document order. */
+export function collectImageSources(node: TiptapNode): string[] {
+    const sources: string[] = [];
+    const visit = (current: TiptapNode) => {
+        if (current.type === "image" && typeof current.attrs?.src === "string") {
+            sources.push(current.attrs.src);
+        }
+        current.content?.forEach(visit);
+    };
+    visit(node);
+    return sources;
+}
@@ -0,0 +1,481 @@
+import PDFDocument from "pdfkit";
+
+import {
+    renderNode,
+    type TiptapNode,
+    type TiptapRenderTarget,
+} from "./tiptapRender";
+
+// ─── Standard manuscript format constants ────────────────────────────────────
+//
+// Letter paper, 1" margins, 12pt Times double-spaced, ½" first-line indents,
+// header (Surname / TITLE / page) in the top margin, chapters starting a third
+// of the way down a fresh page and scene breaks marked with a centered `#`.
+// Only the PDF standard-14 fonts are used, so nothing is fetched or embedded.
+
+const POINTS_PER_INCH = 72;
+const PAGE_MARGIN = POINTS_PER_INCH;
+const HEADER_TOP = POINTS_PER_INCH / 2;
+const FONT_SIZE = 12;
+const LINE_HEIGHT = FONT_SIZE * 2;
+const PARAGRAPH_INDENT = POINTS_PER_INCH / 2;
+const BLOCK_INDENT = POINTS_PER_INCH / 2;
+const SCENE_BREAK_GLYPH = "#";
+
+const FONTS = {
+    regular: "Times-Roman",
+    italic: "Times-Italic",
+    bold: "Times-Bold",
+    boldItalic: "Times-BoldItalic",
+    mono: "Courier",
+} as const;
+
+// ─── Intermediate PDF tree ───────────────────────────────────────────────────
+
+interface PdfRunStyle {
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+    strike?: boolean;
+    code?: boolean;
+}
+
+type PdfInline =
+    | { kind: "text"; text: string; style: PdfRunStyle }
+    | { kind: "break" };
+
+type PdfBlockRole = "body" | "heading" | "code" | "sceneBreak";
+
+interface PdfParagraphBlock {
+    kind: "paragraph";
+    role: PdfBlockRole;
+    children: PdfInline[];
+    align: "center" | "right" | null;
+    /** Nesting depth from lists and block quotes, in ½" steps. */
+    indent: number;
+    /** List marker ("•", "3.") printed in the hanging indent. */
+    marker?: string;
+}
+
+type PdfItem =
+    | PdfInline
+    | PdfParagraphBlock
+    | { kind: "group"; items: PdfItem[] };
+
+function createPdfRenderTarget(): TiptapRenderTarget<PdfItem> {
+    const placeInList = (
+        items: PdfItem[],
+        markerFor: (index: number) => string,
+    ): PdfItem => {
+        const blocks: PdfParagraphBlock[] = [];
+        items.forEach((item, index) => {
+            normalizeBlocks([item]).forEach((block, blockIndex) => {
+                block.indent += 1;
+                if (blockIndex === 0 && !block.marker) {
+                    block.marker = markerFor(index);
+                }
+                blocks.push(block);
+            });
+        });
+        return { kind: "group", items: blocks };
+    };
+
+    return {
+        text: (text) => ({ kind: "text", text, style: {} }),
+
+        mark: (rendered, mark) => {
+            if (rendered.kind !== "text") {
+                return rendered;
+            }
+
+            const style: PdfRunStyle = { ...rendered.style };
+            switch (mark.type) {
+                case "bold":
+                    style.bold = true;
+                    break;
+                case "italic":
+                    style.italic = true;
+                    break;
+                case "underline":
+                    style.underline = true;
+                    break;
+                case "strike":
+                    style.strike = true;
+                    break;
+                case "code":
+                    style.code = true;
+                    break;
+                default:
+                    // Links, colours and fonts have no place in a manuscript
+                    return rendered;
+            }
+            return { ...rendered, style };
+        },
+
+        paragraph: (children, textAlign) => ({
+            kind: "paragraph",
+            role: "body",
+            children: flattenInline(children),
+            align: readAlign(textAlign),
+            indent: 0,
+        }),
+
+        heading: (_level, children) => ({
+            kind: "paragraph",
+            role: "heading",
+            children: flattenInline(children),
+            align: "center",
+            indent: 0,
+        }),
+
+        bulletList: (items) => placeInList(items, () => "•"),
+
+        orderedList: (items, start) =>
+            placeInList(items, (index) => `${start + index}.`),
+
+        listItem: (children) => ({ kind: "group", items: children }),
+
+        blockquote: (children) => {
+            const blocks = normalizeBlocks(children);
+            for (const block of blocks) {
+                block.indent += 1;
+            }
+            return { kind: "group", items: blocks };
+        },
+
+        codeBlock: (children) => ({
+            kind: "paragraph",
+            role: "code",
+            children: flattenInline(children).map((inline) =>
+                inline.kind === "text"
+                    ? { ...inline, style: { ...inline.style, code: true } }
+                    : inline,
+            ),
+            align: null,
+            indent: 0,
+        }),
+
+        hardBreak: () => ({ kind: "break" }),
+
+        horizontalRule: () => ({
+            kind: "paragraph",
+            role: "sceneBreak",
+            children: [{ kind: "text", text: SCENE_BREAK_GLYPH, style: {} }],
+            align: "center",
+            indent: 0,
+        }),
+
+        image: ({ alt }) => ({
+            kind: "text",
+            text: alt ? `[Image: ${alt}]` : "[Image]",
+            style: {},
+        }),
+
+        documentReference: ({ label }) => ({
+            kind: "text",
+            text: label,
+            style: {},
+        }),
+
+        // The standard-14 fonts have no superscript digits beyond 3
+        footnote: ({ number }) => ({
+            kind: "text",
+            text: `[${number || "*"}]`,
+            style: {},
+        }),
+
+        fragment: (children) => ({ kind: "group", items: children }),
+    };
+}
+
+function readAlign(textAlign: string | null): PdfParagraphBlock["align"] {
+    return textAlign === "center" || textAlign === "right" ? textAlign : null;
+}
+
+function flattenInline(items: PdfItem[]): PdfInline[] {
+    const out: PdfInline[] = [];
+    for (const item of items) {
+        if (item.kind === "group") {
+            out.push(...flattenInline(item.items));
+        } else if (item.kind === "paragraph") {
+            out.push(...item.children);
+        } else {
+            out.push(item);
+        }
+    }
+    return out;
+}
+
+function normalizeBlocks(items: PdfItem[]): PdfParagraphBlock[] {
+    const blocks: PdfParagraphBlock[] = [];
+    let inlineBuffer: PdfInline[] = [];
+
+    const flushInline = () => {
+        if (inlineBuffer.length) {
+            blocks.push({
+                kind: "paragraph",
+                role: "body",
+                children: inlineBuffer,
+                align: null,
+                indent: 0,
+            });
+            inlineBuffer = [];
+        }
+    };
+
+    const visit = (item: PdfItem) => {
+        if (item.kind === "group") {
+            item.items.forEach(visit);
+        } else if (item.kind === "paragraph") {
+            flushInline();
+            blocks.push(item);
+        } else {
+            inlineBuffer.push(item);
+        }
+    };
+
+    items.forEach(visit);
+    flushInline();
+    return blocks;
+}
+
+// ─── Layout ──────────────────────────────────────────────────────────────────
+
+type PdfDoc = InstanceType<typeof PDFDocument>;
+
+function fontFor(style: PdfRunStyle): string {
+    if (style.code) {
+        return FONTS.mono;
+    }
+    if (style.bold && style.italic) {
+        return FONTS.boldItalic;
+    }
+    if (style.bold) {
+        return FONTS.bold;
+    }
+    return style.italic ? FONTS.italic : FONTS.regular;
+}
+
+/** Extra leading that turns the font's natural line height into double spacing. */
+function doubleSpacingGap(doc: PdfDoc): number {
+    doc.font(FONTS.regular).fontSize(FONT_SIZE);
+    return Math.max(0, LINE_HEIGHT - doc.currentLineHeight(true));
+}
+
+function toRuns(children: PdfInline[]): { text: string; style: PdfRunStyle }[] {
+    const runs: { text: string; style: PdfRunStyle }[] = [];
+    for (const child of children) {
+        const previous = runs[runs.length - 1];
+        if (child.kind === "break") {
+            if (previous) {
+                previous.text += "\n";
+            } else {
+                runs.push({ text: "\n", style: {} });
+            }
+        } else if (child.text) {
+            runs.push({ text: child.text, style: child.style });
+        }
+    }
+    return runs;
+}
+
+function writeBlock(doc: PdfDoc, block: PdfParagraphBlock) {
+    const runs = toRuns(block.children);
+    if (!runs.some((run) => run.text.trim())) {
+        // Manuscripts separate paragraphs by indentation, not blank lines
+        return;
+    }
+
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    const indent = block.indent * BLOCK_INDENT;
+    const x = PAGE_MARGIN + indent;
+    const width = contentWidth - indent;
+    const firstLineIndent =
+        block.role === "body" && !block.align && !block.marker
+            ? PARAGRAPH_INDENT
+            : 0;
+
+    if (block.marker) {
+        const markerY = doc.y;
+        doc.font(FONTS.regular).text(block.marker, x - BLOCK_INDENT, markerY, {
+            width: BLOCK_INDENT,
+            lineBreak: false,
+        });
+        doc.y = markerY;
+    }
+
+    runs.forEach((run, index) => {
+        const continued = index < runs.length - 1;
+        const options = {
+            continued,
+            underline: !!run.style.underline,
+            strike: !!run.style.strike,
+        };
+        doc.font(fontFor(run.style));
+        if (index === 0) {
+            doc.text(run.text, x, doc.y, {
+                ...options,
+                width,
+                indent: firstLineIndent,
+                align: block.align ?? "left",
+            });
+        } else {
+            doc.text(run.text, options);
+        }
+    });
+}
+
+// ─── Manuscript assembly ─────────────────────────────────────────────────────
+
+export interface PdfManuscriptChapter {
+    title: string;
+    /** Parsed Tiptap doc, or null for legacy plain-text content. */
+    doc: TiptapNode | null;
+    /** Used when `doc` is null. */
+    plainText: string;
+}
+
+export interface PdfManuscript {
+    title: string;
+    author: string;
+    wordCount: number;
+    chapters: PdfManuscriptChapter[];
+}
+
+/**
+ * Rounds a word count the way manuscript title pages do: to the nearest
+ * hundred for short fiction, nearest thousand for anything novel-length.
+ */
+export function approximateWordCount(wordCount: number): string {
+    const step = wordCount >= 20000 ? 1000 : 100;
+    const rounded = Math.max(step, Math.round(wordCount / step) * step);
+    return `about ${rounded.toLocaleString("en-US")} words`;
+}
+
+function authorSurname(author: string): string {
+    const parts = author.trim().split(/\s+/);
+    return parts[parts.length - 1] || author;
+}
+
+function writeTitlePage(doc: PdfDoc, manuscript: PdfManuscript) {
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+    doc.font(FONTS.regular).fontSize(FONT_SIZE);
+    doc.text(manuscript.author, PAGE_MARGIN, PAGE_MARGIN, {
+        width: contentWidth / 2,
+    });
+    doc.text(approximateWordCount(manuscript.wordCount), PAGE_MARGIN, PAGE_MARGIN, {
+        width: contentWidth,
+        align: "right",
+    });
+
+    doc.y = doc.page.height / 2 - LINE_HEIGHT;
+    doc.text(manuscript.title.toUpperCase(), PAGE_MARGIN, doc.y, {
+        width: contentWidth,
+        align: "center",
+    });
+    doc.text(`by ${manuscript.author}`, {
+        width: contentWidth,
+        align: "center",
+    });
+}
+
+function writeChapter(doc: PdfDoc, chapter: PdfManuscriptChapter) {
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+    doc.addPage();
+
+    // Chapter openings start roughly a third of the way down the page
+    doc.y = PAGE_MARGIN + (doc.page.height - PAGE_MARGIN * 2) / 3;
+    doc.font(FONTS.regular).text(chapter.title, PAGE_MARGIN, doc.y, {
+        width: contentWidth,
+        align: "center",
+    });
+    doc.moveDown();
+
+    const blocks: PdfParagraphBlock[] = chapter.doc
+        ? normalizeBlocks([renderNode(chapter.doc, createPdfRenderTarget())])
+        : chapter.plainText
+              .split(/\n{2,}/)
+              .map((p) => p.trim())
+              .filter(Boolean)
+              .map<PdfParagraphBlock>((text) => ({
+                  kind: "paragraph",
+                  role: "body",
+                  children: [{ kind: "text", text, style: {} }],
+                  align: null,
+                  indent: 0,
+              }));
+
+    for (const block of blocks) {
+        writeBlock(doc, block);
+    }
+}
+
+/**
+ * Stamps the running header (Surname / TITLE / page) on every page after the
+ * title page. Page numbering starts at the first page of chapter one.
+ */
+function writeHeaders(doc: PdfDoc, manuscript: PdfManuscript) {
+    const range = doc.bufferedPageRange();
+    const header = `${authorSurname(manuscript.author)} / ${manuscript.title.toUpperCase()}`;
+    const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+
+    for (let i = range.start + 1; i < range.start + range.count; i++) {
+        doc.switchToPage(i);
+        doc.font(FONTS.regular)
+            .fontSize(FONT_SIZE)
+            .text(`${header} / ${i - range.start}`, PAGE_MARGIN, HEADER_TOP, {
+                width: contentWidth,
+                align: "right",
+                lineBreak: false,
+            });
+    }
+}
+
+/**
+ * Builds a PDF in standard manuscript format: a word-count title page, then
+ * each chapter on a new page, double-spaced Times 12pt with 1" margins.
+ */
+export function renderManuscriptPdf(manuscript: PdfManuscript): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({
+            size: "LETTER",
+            margins: {
+                top: PAGE_MARGIN,
+                bottom: PAGE_MARGIN,
+                left: PAGE_MARGIN,
+                right: PAGE_MARGIN,
+            },
+            bufferPages: true,
+            info: {
+                Title: manuscript.title,
+                Author: manuscript.author,
+            },
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", reject);
+
+        try {
+            doc.lineGap(doubleSpacingGap(doc));
+
+            writeTitlePage(doc, manuscript);
+            for (const chapter of manuscript.chapters) {
+                writeChapter(doc, chapter);
+            }
+
+            doc.moveDown();
+            doc.font(FONTS.regular).text("END", PAGE_MARGIN, doc.y, {
+                width: doc.page.width - PAGE_MARGIN * 2,
+                align: "center",
+            });
+
+            writeHeaders(doc, manuscript);
+            doc.end();
+        } catch (error) {
+            reject(error);
+        }
+    });
+}
@@ -0,0 +1,21 @@
+import type { TiptapNode } from "./tiptapRender";
+
+/**
+ * The chapter as it reads with every pending suggestion accepted. Suggested
+ * deletions are dropped; suggested insertions are kept, and their marks are
+ * skipped by the renderers like any other editor-only mark. Markdown keeps
+ * suggestions as they are, so they survive a round trip.
+ */
+export function acceptSuggestions(doc: TiptapNode): TiptapNode {
+    const visit = (node: TiptapNode): TiptapNode[] => {
+        if (node.marks?.some((mark) => mark.type === "trackedDeletion")) {
+            return [];
+        }
+        if (!node.content) {
+            return [node];
+        }
+        return [{ ...node, content: node.content.flatMap(visit) }];
+    };
+
+    return visit(doc)[0] ?? { type: "doc", content: [] };
+}
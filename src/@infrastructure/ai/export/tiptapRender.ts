@@ -0,0 +1,222 @@
+// ─── Tiptap JSON types ───────────────────────────────────────────────────────
+
+export interface TiptapMark {
+    type: string;
+    attrs?: Record<string, unknown>;
+}
+
+export interface TiptapNode {
+    type: string;
+    text?: string;
+    attrs?: Record<string, unknown>;
+    marks?: TiptapMark[];
+    content?: TiptapNode[];
+}
+
+// ─── Render targets ──────────────────────────────────────────────────────────
+
+export interface TiptapImageAttrs {
+    src: string;
+    alt: string;
+    title: string;
+}
+
+export interface TiptapDocumentReferenceAttrs {
+    id: string;
+    label: string;
+    kind: string | null;
+}
+
+export interface TiptapFootnoteAttrs {
+    id: string;
+    /** Set by `numberFootnotes`; 0 when the document was not numbered. */
+    number: number;
+    text: string;
+}
+
+/**
+ * Output format plugged into the shared Tiptap JSON walk. Each export format
+ * (HTML for EPUB, DOCX, …) implements one of these so the traversal rules —
+ * heading clamping, alignment handling, unknown-node fallbacks — live in a
+ * single place.
+ *
+ * `T` is whatever the format accumulates while walking: a string for HTML,
+ * an intermediate tree for formats that need a second materialization pass.
+ */
+export interface TiptapRenderTarget<T> {
+    text(text: string): T;
+    /** Wrap an already-rendered text node in a mark. Unknown marks return `rendered` unchanged. */
+    mark(rendered: T, mark: TiptapMark): T;
+    paragraph(children: T[], textAlign: string | null): T;
+    heading(level: number, children: T[], textAlign: string | null): T;
+    bulletList(items: T[]): T;
+    orderedList(items: T[], start: number): T;
+    listItem(children: T[]): T;
+    blockquote(children: T[]): T;
+    codeBlock(children: T[], language: string | null): T;
+    hardBreak(): T;
+    horizontalRule(): T;
+    image(attrs: TiptapImageAttrs): T;
+    documentReference(attrs: TiptapDocumentReferenceAttrs): T;
+    /** Inline footnote marker; the note text is placed by the caller. */
+    footnote(attrs: TiptapFootnoteAttrs): T;
+    /** Container without semantics of its own (doc root, unknown nodes). */
+    fragment(children: T[]): T;
+}
+
+// ─── Tiptap JSON walk ────────────────────────────────────────────────────────
+
+/**
+ * Applies a text node's marks in order through the given target.
+ *
+ * Supported marks depend on the target; the HTML target handles bold, italic,
+ * underline, strike, code, link and textStyle (color, fontFamily) and silently
+ * skips the rest (e.g. comment marks).
+ */
+export function renderMarks<T>(
+    text: string,
+    marks: TiptapMark[] | undefined,
+    target: TiptapRenderTarget<T>,
+): T {
+    let rendered = target.text(text);
+
+    if (!marks || marks.length === 0) {
+        return rendered;
+    }
+
+    for (const mark of marks) {
+        rendered = target.mark(rendered, mark);
+    }
+
+    return rendered;
+}
+
+/**
+ * Recursively converts a Tiptap JSON document tree through a render target.
+ *
+ * Supported nodes: doc, paragraph, heading (1-6), bulletList, orderedList,
+ * listItem, blockquote, codeBlock, hardBreak, horizontalRule, image,
+ * documentReference, footnote.
+ */
+export function renderNode<T>(
+    node: TiptapNode,
+    target: TiptapRenderTarget<T>,
+): T {
+    switch (node.type) {
+        case "doc":
+            return target.fragment(renderChildren(node, target));
+
+        case "paragraph":
+            return target.paragraph(
+                renderChildren(node, target),
+                readTextAlign(node),
+            );
+
+        case "heading": {
+            const level = Math.min(
+                Math.max(Number(node.attrs?.level) || 1, 1),
+                6,
+            );
+            return target.heading(
+                level,
+                renderChildren(node, target),
+                readTextAlign(node),
+            );
+        }
+
+        case "bulletList":
+            return target.bulletList(renderChildren(node, target));
+
+        case "orderedList":
+            return target.orderedList(
+                renderChildren(node, target),
+                Number(node.attrs?.start) || 1,
+            );
+
+        case "listItem":
+            return target.listItem(renderChildren(node, target));
+
+        case "blockquote":
+            return target.blockquote(renderChildren(node, target));
+
+        case "codeBlock": {
+            const language = node.attrs?.language;
+            return target.codeBlock(
+                renderChildren(node, target),
+                typeof language === "string" && language ? language : null,
+            );
+        }
+
+        case "hardBreak":
+            return target.hardBreak();
+
+        case "horizontalRule":
+            return target.horizontalRule();
+
+        case "image":
+            return target.image({
+                src: (node.attrs?.src as string) || "",
+                alt: (node.attrs?.alt as string) || "",
+                title: (node.attrs?.title as string) || "",
+            });
+
+        case "documentReference":
+            return target.documentReference({
+                id: String(node.attrs?.id ?? ""),
+                label: String(node.attrs?.label ?? node.attrs?.id ?? ""),
+                kind:
+                    typeof node.attrs?.kind === "string"
+                        ? node.attrs.kind
+                        : null,
+            });
+
+        case "footnote":
+            return target.footnote({
+                id: String(node.attrs?.id ?? ""),
+                number: Number(node.attrs?.number) || 0,
+                text: String(node.attrs?.text ?? ""),
+            });
+
+        case "text":
+            return renderMarks(node.text || "", node.marks, target);
+
+        default:
+            // Unknown node type – render children if any to avoid data loss
+            return target.fragment(renderChildren(node, target));
+    }
+}
+
+function renderChildren<T>(node: TiptapNode, target: TiptapRenderTarget<T>): T[] {
+    if (!node.content || node.content.length === 0) {
+        return [];
+    }
+    return node.content.map((child) => renderNode(child, target));
+}
+
+function readTextAlign(node: TiptapNode): string | null {
+    const align = node.attrs?.textAlign;
+    return typeof align === "string" && align && align !== "left"
+        ? align
+        : null;
+}
+
+/**
+ * Parses stored chapter content into a Tiptap doc node. Returns null when the
+ * content is empty or not Tiptap JSON (legacy HTML / plain-text chapters).
+ */
+export function parseTiptapDocument(content: string): TiptapNode | null {
+    if (!content || !content.trim()) {
+        return null;
+    }
+
+    try {
+        const json = JSON.parse(content) as TiptapNode;
+        if (json.type === "doc" && Array.isArray(json.content)) {
+            return json;
+        }
+    } catch {
+        // Not JSON
+    }
+
+    return null;
+}
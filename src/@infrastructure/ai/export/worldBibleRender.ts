@@ -0,0 +1,490 @@
+import * as cheerio from "cheerio";
+import PDFDocument from "pdfkit";
+
+import type {
+    WorldBible,
+    WorldBibleEntry,
+    WorldBibleField,
+} from "../../../@core/domain/services/IWorldBibleExportService";
+import {
+    convertChildren,
+    wrapInlineInParagraph,
+} from "../../services/htmlToTiptap";
+import { escapeAttr, escapeHtml, renderTiptapHtml } from "./htmlRender";
+import { renderTiptapMarkdown } from "./markdownRender";
+import { fitImageWidth, type ExportImage } from "./exportImages";
+import type { TiptapNode } from "./tiptapRender";
+
+// ─── Shared helpers ──────────────────────────────────────────────────────────
+
+/**
+ * Parses a description or paragraph field (editor HTML, or plain text from
+ * before rich fields) into a Tiptap doc. Document references become their
+ * label: readers of the bible cannot follow them.
+ */
+export function richTextDocument(html: string): TiptapNode {
+    if (!/<[a-z][\s\S]*>/i.test(html)) {
+        return {
+            type: "doc",
+            content: html
+                .split(/\n{2,}/)
+                .map((text) => text.trim())
+                .filter(Boolean)
+                .map((text) => ({
+                    type: "paragraph",
+                    content: [{ type: "text", text }],
+                })),
+        };
+    }
+
+    const $ = cheerio.load(html);
+    // Images in text fields are not part of the bible, so none are loaded
+    const content = wrapInlineInParagraph(
+        convertChildren($, $("body"), [], async () => null, []),
+    );
+
+    const flattenReferences = (node: TiptapNode): TiptapNode =>
+        node.type === "documentReference"
+            ? {
+                  type: "text",
+                  text: String(node.attrs?.label ?? ""),
+              }
+            : node.content
+              ? { ...node, content: node.content.map(flattenReferences) }
+              : node;
+
+    return { type: "doc", content: content.map(flattenReferences) };
+}
+
+/** Every image URL the bible shows, in order of first appearance. */
+export function collectWorldBibleImageUrls(bible: WorldBible): string[] {
+    const urls = new Set<string>();
+    forEachEntry(bible, (entry) => {
+        [...entry.left, ...entry.right].forEach((field) => {
+            if (field.value.kind === "images") {
+                field.value.urls.forEach((url) => urls.add(url));
+            }
+        });
+    });
+    return Array.from(urls);
+}
+
+function forEachEntry(
+    bible: WorldBible,
+    callback: (entry: WorldBibleEntry) => void,
+) {
+    bible.sections.forEach((section) =>
+        section.groups.forEach((group) => group.entries.forEach(callback)),
+    );
+}
+
+// ─── HTML ────────────────────────────────────────────────────────────────────
+
+const HTML_CSS = `
+body {
+    font-family: Georgia, "Times New Roman", serif;
+    line-height: 1.5;
+    color: #1a1a1a;
+    max-width: 60em;
+    margin: 2em auto;
+    padding: 0 1.5em;
+}
+h1 { text-align: center; font-size: 2.2em; margin-bottom: 1.5em; }
+h2 { border-bottom: 2px solid #1a1a1a; padding-bottom: 0.2em; margin-top: 2.5em; }
+h3 { color: #555; text-transform: uppercase; letter-spacing: 0.08em; font-size: 0.95em; }
+nav ul { list-style: none; padding-left: 0; }
+nav li { margin: 0.2em 0; }
+a { color: #2a6496; }
+.entry { border-top: 1px solid #ddd; padding: 1em 0 1.5em; break-inside: avoid; }
+.entry h4 { font-size: 1.35em; margin: 0 0 0.6em; }
+.entry-columns { display: grid; grid-template-columns: 3fr 2fr; gap: 2em; }
+.field { margin-bottom: 0.9em; }
+.field-label { font-size: 0.8em; font-weight: bold; text-transform: uppercase; letter-spacing: 0.06em; color: #666; margin-bottom: 0.2em; }
+.field p { margin: 0 0 0.5em; }
+.field ul { margin: 0; padding-left: 1.2em; }
+.field img { max-width: 100%; border-radius: 4px; display: block; margin-bottom: 0.5em; }
+@media print { .entry { page-break-inside: avoid; } }
+`.trim();
+
+function renderHtmlField(
+    field: WorldBibleField,
+    imageSources: Map<string, string>,
+): string {
+    const { value } = field;
+    let body: string;
+    switch (value.kind) {
+        case "text":
+            body = `<p>${escapeHtml(value.text)}</p>`;
+            break;
+        case "richText":
+            body = renderTiptapHtml(richTextDocument(value.html));
+            break;
+        case "list":
+            body = `<ul>${value.items
+                .map((item) => `<li>${escapeHtml(item)}</li>`)
+                .join("")}</ul>`;
+            break;
+        case "images":
+            body = value.urls
+                .map((url) => imageSources.get(url))
+                .filter((src): src is string => Boolean(src))
+                .map(
+                    (src) =>
+                        `<img src="${escapeAttr(src)}" alt="${escapeAttr(field.label)}" />`,
+                )
+                .join("");
+            break;
+    }
+
+    return body
+        ? `<div class="field"><div class="field-label">${escapeHtml(field.label)}</div>${body}</div>`
+        : "";
+}
+
+/**
+ * A self-contained HTML page. `imageSources` maps image URLs to data URLs so
+ * the file can be handed on without its assets.
+ */
+export function renderWorldBibleHtml(
+    bible: WorldBible,
+    imageSources: Map<string, string>,
+): string {
+    const column = (fields: WorldBibleField[]) =>
+        `<div class="entry-column">${fields
+            .map((field) => renderHtmlField(field, imageSources))
+            .join("")}</div>`;
+
+    const toc = bible.sections
+        .map(
+            (section, index) =>
+                `<li><a href="#section-${index + 1}">${escapeHtml(section.title)}</a></li>`,
+        )
+        .join("");
+
+    const sections = bible.sections
+        .map((section, index) => {
+            const groups = section.groups
+                .map((group) => {
+                    const heading = group.title
+                        ? `<h3>${escapeHtml(group.title)}</h3>`
+                        : "";
+                    const entries = group.entries
+                        .map(
+                            (entry) =>
+                                `<article class="entry" id="${escapeAttr(entry.kind)}-${escapeAttr(entry.id)}" style="margin-left: ${entry.depth * 1.5}em">` +
+                                `<h4>${escapeHtml(entry.name)}</h4>` +
+                                `<div class="entry-columns">${column(entry.left)}${column(entry.right)}</div>` +
+                                `</article>`,
+                        )
+                        .join("\n");
+                    return `${heading}\n${entries}`;
+                })
+                .join("\n");
+            return `<section id="section-${index + 1}"><h2>${escapeHtml(section.title)}</h2>\n${groups}</section>`;
+        })
+        .join("\n");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(bible.title)} – World Bible</title>
+<style>
+${HTML_CSS}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(bible.title)}</h1>
+<nav><ul>${toc}</ul></nav>
+${sections}
+</body>
+</html>
+`;
+}
+
+// ─── Markdown ────────────────────────────────────────────────────────────────
+
+const escapeMarkdownInline = (text: string): string =>
+    text.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+
+function renderMarkdownField(
+    field: WorldBibleField,
+    imagePaths: Map<string, string>,
+): string {
+    const label = `**${escapeMarkdownInline(field.label)}:**`;
+    const { value } = field;
+    switch (value.kind) {
+        case "text":
+            return `${label} ${escapeMarkdownInline(value.text)}\n`;
+        case "list":
+            return `${label} ${value.items.map(escapeMarkdownInline).join(", ")}\n`;
+        case "richText":
+            return `${label}\n\n${renderTiptapMarkdown(richTextDocument(value.html))}`;
+        case "images": {
+            const images = value.urls
+                .map((url) => imagePaths.get(url))
+                .filter((src): src is string => Boolean(src))
+                .map(
+                    (src) =>
+                        `![${escapeMarkdownInline(field.label)}](<${src}>)`,
+                );
+            return images.length ? `${images.join("\n")}\n` : "";
+        }
+    }
+}
+
+/**
+ * Markdown with one heading per entry. `imagePaths` maps image URLs to the
+ * relative paths the images were copied to.
+ */
+export function renderWorldBibleMarkdown(
+    bible: WorldBible,
+    imagePaths: Map<string, string>,
+): string {
+    const parts: string[] = [`# ${escapeMarkdownInline(bible.title)}\n`];
+
+    bible.sections.forEach((section) => {
+        parts.push(`## ${escapeMarkdownInline(section.title)}\n`);
+        section.groups.forEach((group) => {
+            if (group.title) {
+                parts.push(`### ${escapeMarkdownInline(group.title)}\n`);
+            }
+            const baseLevel = group.title ? 4 : 3;
+            group.entries.forEach((entry) => {
+                const level = Math.min(6, baseLevel + entry.depth);
+                parts.push(
+                    `${"#".repeat(level)} ${escapeMarkdownInline(entry.name)}\n`,
+                );
+                // Images first, so they sit beside the text in most viewers
+                const fields = [...entry.left, ...entry.right].sort(
+                    (a, b) =>
+                        Number(b.value.kind === "images") -
+                        Number(a.value.kind === "images"),
+                );
+                fields.forEach((field) => {
+                    const rendered = renderMarkdownField(field, imagePaths);
+                    if (rendered) {
+                        parts.push(rendered);
+                    }
+                });
+            });
+        });
+    });
+
+    return `${parts.join("\n").trimEnd()}\n`;
+}
+
+// ─── PDF ─────────────────────────────────────────────────────────────────────
+
+type PdfDoc = InstanceType<typeof PDFDocument>;
+
+const PDF_MARGIN = 54;
+const PDF_FONTS = {
+    regular: "Times-Roman",
+    italic: "Times-Italic",
+    bold: "Times-Bold",
+} as const;
+const PDF_IMAGE_WIDTH = 180;
+const PDF_DEPTH_INDENT = 18;
+
+/** Block-level plain text of a Tiptap doc, with list items bulleted. */
+function plainParagraphs(doc: TiptapNode): string[] {
+    const paragraphs: string[] = [];
+    const textOf = (node: TiptapNode): string =>
+        node.type === "text"
+            ? (node.text ?? "")
+            : node.type === "hardBreak"
+              ? "\n"
+              : (node.content ?? []).map(textOf).join("");
+
+    const visit = (node: TiptapNode, bullet: string) => {
+        switch (node.type) {
+            case "paragraph":
+            case "heading":
+            case "codeBlock": {
+                const text = textOf(node).trim();
+                if (text) {
+                    paragraphs.push(bullet + text);
+                }
+                return;
+            }
+            case "listItem":
+                (node.content ?? []).forEach((child, index) =>
+                    visit(child, index === 0 ? "• " : ""),
+                );
+                return;
+            default:
+                (node.content ?? []).forEach((child) => visit(child, bullet));
+        }
+    };
+    visit(doc, "");
+    return paragraphs;
+}
+
+function ensureSpace(doc: PdfDoc, height: number) {
+    if (doc.y + height > doc.page.height - PDF_MARGIN) {
+        doc.addPage();
+    }
+}
+
+function writePdfField(
+    doc: PdfDoc,
+    field: WorldBibleField,
+    images: Map<string, ExportImage>,
+    x: number,
+    width: number,
+) {
+    const { value } = field;
+    const printable =
+        value.kind === "images"
+            ? value.urls
+                  .map((url) => images.get(url))
+                  .filter(
+                      (image): image is ExportImage =>
+                          !!image &&
+                          (image.type === "png" || image.type === "jpg"),
+                  )
+            : [];
+    if (value.kind === "images" && printable.length === 0) {
+        return;
+    }
+
+    ensureSpace(doc, 40);
+    doc.font(PDF_FONTS.bold)
+        .fontSize(9)
+        .fillColor("#666666")
+        .text(field.label.toUpperCase(), x, doc.y, {
+            width,
+            characterSpacing: 0.5,
+        });
+    doc.moveDown(0.2);
+    doc.font(PDF_FONTS.regular).fontSize(11).fillColor("#1a1a1a");
+
+    switch (value.kind) {
+        case "text":
+            doc.text(value.text, x, doc.y, { width });
+            break;
+        case "list":
+            doc.text(value.items.join(", "), x, doc.y, { width });
+            break;
+        case "richText":
+            plainParagraphs(richTextDocument(value.html)).forEach(
+                (paragraph) => {
+                    doc.text(paragraph, x, doc.y, {
+                        width,
+                        paragraphGap: 4,
+                    });
+                },
+            );
+            break;
+        case "images":
+            printable.forEach((image) => {
+                const size = fitImageWidth(
+                    image,
+                    Math.min(PDF_IMAGE_WIDTH, width),
+                );
+                ensureSpace(doc, size.height + 8);
+                doc.image(image.data, x, doc.y, size);
+                doc.y += size.height + 8;
+            });
+            break;
+    }
+    doc.moveDown(0.6);
+}
+
+function writePdfEntry(
+    doc: PdfDoc,
+    entry: WorldBibleEntry,
+    images: Map<string, ExportImage>,
+) {
+    const x = PDF_MARGIN + entry.depth * PDF_DEPTH_INDENT;
+    const width = doc.page.width - PDF_MARGIN - x;
+
+    ensureSpace(doc, 80);
+    doc.moveDown(0.8);
+    doc.font(PDF_FONTS.bold)
+        .fontSize(15)
+        .fillColor("#1a1a1a")
+        .text(entry.name, x, doc.y, { width });
+    doc.moveDown(0.3);
+
+    // Images from either column lead, then the left column, then the right
+    const fields = [...entry.left, ...entry.right].sort(
+        (a, b) =>
+            Number(b.value.kind === "images") -
+            Number(a.value.kind === "images"),
+    );
+    fields.forEach((field) => writePdfField(doc, field, images, x, width));
+}
+
+/**
+ * Builds a letter-size PDF: title page, then each section on a new page with
+ * its groups and entries.
+ */
+export function renderWorldBiblePdf(
+    bible: WorldBible,
+    images: Map<string, ExportImage>,
+): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({
+            size: "LETTER",
+            margins: {
+                top: PDF_MARGIN,
+                bottom: PDF_MARGIN,
+                left: PDF_MARGIN,
+                right: PDF_MARGIN,
+            },
+            info: { Title: `${bible.title} – World Bible` },
+        });
+
+        const chunks: Buffer[] = [];
+        doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+        doc.on("end", () => resolve(Buffer.concat(chunks)));
+        doc.on("error", reject);
+
+        try {
+            const contentWidth = doc.page.width - PDF_MARGIN * 2;
+            doc.y = doc.page.height / 3;
+            doc.font(PDF_FONTS.bold)
+                .fontSize(28)
+                .text(bible.title, PDF_MARGIN, doc.y, {
+                    width: contentWidth,
+                    align: "center",
+                });
+            doc.font(PDF_FONTS.italic)
+                .fontSize(14)
+                .text("World Bible", { width: contentWidth, align: "center" });
+
+            bible.sections.forEach((section) => {
+                doc.addPage();
+                doc.font(PDF_FONTS.bold)
+                    .fontSize(22)
+                    .fillColor("#1a1a1a")
+                    .text(section.title, PDF_MARGIN, PDF_MARGIN, {
+                        width: contentWidth,
+                    });
+
+                section.groups.forEach((group) => {
+                    if (group.title) {
+                        ensureSpace(doc, 100);
+                        doc.moveDown(1);
+                        doc.font(PDF_FONTS.bold)
+                            .fontSize(12)
+                            .fillColor("#555555")
+                            .text(group.title.toUpperCase(), PDF_MARGIN, doc.y, {
+                                width: contentWidth,
+                                characterSpacing: 1,
+                            });
+                    }
+                    group.entries.forEach((entry) =>
+                        writePdfEntry(doc, entry, images),
+                    );
+                });
+            });
+
+            doc.end();
+        } catch (error) {
+            reject(error);
+        }
+    });
+}
@@ -1,6 +1,14 @@
 import { IChapterRepository } from "../../@core/domain/repositories/IChapterRepository";
-import { Chapter } from "../../@core/domain/entities/story/Chapter";
+import {
+    CHAPTER_LABELS,
+    CHAPTER_STATUSES,
+    Chapter,
+    ChapterLabel,
+    ChapterStatus,
+} from "../../@core/domain/entities/story/Chapter";
 import { SupabaseService } from "./SupabaseService";
+import { asStringArray } from "./contracts/json";
+import type { Json } from "./contracts/database.types";
 
 type ChapterRow = {
     id: string;
@@ -9,6 +17,11 @@ type ChapterRow = {
     order_index: number;
     content: Record<string, unknown> | null;
     event_id: string | null;
+    status: string | null;
+    pov_character_id: string | null;
+    synopsis: string | null;
+    labels: Json | null;
+    tags: Json | null;
     created_at: string;
     updated_at: string;
 };
@@ -51,6 +64,15 @@ const mapRowToChapter = (row: ChapterRow): Chapter =>
         row.order_index,
         serializeChapterContent(row.content),
         row.event_id || null,
+        CHAPTER_STATUSES.includes(row.status as ChapterStatus)
+            ? (row.status as ChapterStatus)
+            : "draft",
+        row.pov_character_id || null,
+        row.synopsis ?? "",
+        asStringArray(row.labels).filter((label): label is ChapterLabel =>
+            CHAPTER_LABELS.includes(label as ChapterLabel)
+        ),
+        asStringArray(row.tags),
         new Date(row.created_at),
         new Date(row.updated_at)
     );
@@ -65,6 +87,11 @@ export class SupabaseChapterRepository implements IChapterRepository {
             title: chapter.title,
             order_index: chapter.order,
             content: parseChapterContent(chapter.content),
+            status: chapter.status,
+            pov_character_id: chapter.povCharacterId,
+            synopsis: chapter.synopsis,
+            labels: chapter.labels,
+            tags: chapter.tags,
             created_at: chapter.createdAt.toISOString(),
             updated_at: chapter.updatedAt.toISOString(),
         });
@@ -108,6 +135,11 @@ export class SupabaseChapterRepository implements IChapterRepository {
                 title: chapter.title,
                 content: parseChapterContent(chapter.content),
                 order_index: chapter.order,
+                status: chapter.status,
+                pov_character_id: chapter.povCharacterId,
+                synopsis: chapter.synopsis,
+                labels: chapter.labels,
+                tags: chapter.tags,
                 updated_at: chapter.updatedAt.toISOString(),
             })
             .eq("id", chapter.id);
@@ -13,6 +13,7 @@ const mapRowToCharacter = (row: CharacterDbRow): Character =>
         row.id,
         row.name,
         row.description ?? "",
+        asStringArray(row.aliases),
         row.current_location_id,
         row.background_location_id,
         row.organization_id,
@@ -31,6 +32,7 @@ export class SupabaseCharacterRepository implements ICharacterRepository {
             project_id: projectId,
             name: character.name,
             description: character.description,
+            aliases: character.aliases,
             current_location_id: character.currentLocationId,
             background_location_id: character.backgroundLocationId,
             organization_id: character.organizationId,
@@ -78,6 +80,7 @@ export class SupabaseCharacterRepository implements ICharacterRepository {
         const updatePayload = {
             name: character.name,
             description: character.description,
+            aliases: character.aliases,
             current_location_id: character.currentLocationId,
             background_location_id: character.backgroundLocationId,
             organization_id: character.organizationId,
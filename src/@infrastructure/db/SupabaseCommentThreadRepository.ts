@@ -0,0 +1,172 @@
+import {
+    CommentMessage,
+    CommentThread,
+} from "../../@core/domain/entities/story/CommentThread";
+import { ICommentThreadRepository } from "../../@core/domain/repositories/ICommentThreadRepository";
+import { SupabaseService } from "./SupabaseService";
+
+type CommentThreadRow = {
+    id: string;
+    project_id: string;
+    chapter_id: string;
+    excerpt: string | null;
+    is_chapter_level: boolean;
+    resolved: boolean;
+    messages_json: unknown;
+    created_at: string;
+    updated_at: string;
+};
+
+const toMessages = (value: unknown): CommentMessage[] => {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    return value
+        .map((entry) => {
+            if (!entry || typeof entry !== "object") {
+                return null;
+            }
+
+            const message = entry as {
+                id?: unknown;
+                authorName?: unknown;
+                text?: unknown;
+                createdAt?: unknown;
+                updatedAt?: unknown;
+            };
+            if (
+                typeof message.id !== "string" ||
+                typeof message.text !== "string"
+            ) {
+                return null;
+            }
+
+            const createdAt = new Date(
+                typeof message.createdAt === "string" ? message.createdAt : 0,
+            );
+            return {
+                id: message.id,
+                authorName:
+                    typeof message.authorName === "string"
+                        ? message.authorName
+                        : "",
+                text: message.text,
+                createdAt,
+                updatedAt:
+                    typeof message.updatedAt === "string"
+                        ? new Date(message.updatedAt)
+                        : createdAt,
+            } satisfies CommentMessage;
+        })
+        .filter((entry): entry is CommentMessage => entry !== null);
+};
+
+const toMessagesJson = (messages: CommentMessage[]) =>
+    messages.map((message) => ({
+        id: message.id,
+        authorName: message.authorName,
+        text: message.text,
+        createdAt: message.createdAt.toISOString(),
+        updatedAt: message.updatedAt.toISOString(),
+    }));
+
+const mapRowToThread = (row: CommentThreadRow): CommentThread =>
+    new CommentThread(
+        row.id,
+        row.project_id,
+        row.chapter_id,
+        row.excerpt ?? "",
+        row.is_chapter_level,
+        row.resolved,
+        toMessages(row.messages_json),
+        new Date(row.created_at),
+        new Date(row.updated_at),
+    );
+
+export class SupabaseCommentThreadRepository
+    implements ICommentThreadRepository
+{
+    async create(thread: CommentThread): Promise<void> {
+        const client = SupabaseService.getClient();
+        const { error } = await client.from("comment_threads").insert({
+            id: thread.id,
+            project_id: thread.projectId,
+            chapter_id: thread.chapterId,
+            excerpt: thread.excerpt,
+            is_chapter_level: thread.isChapterLevel,
+            resolved: thread.resolved,
+            messages_json: toMessagesJson(thread.messages),
+            created_at: thread.createdAt.toISOString(),
+            updated_at: thread.updatedAt.toISOString(),
+        });
+
+        if (error) throw new Error(error.message);
+    }
+
+    async findById(id: string): Promise<CommentThread | null> {
+        const client = SupabaseService.getClient();
+        const { data, error } = await client
+            .from("comment_threads")
+            .select("*")
+            .eq("id", id)
+            .maybeSingle();
+
+        if (error || !data) {
+            return null;
+        }
+
+        return mapRowToThread(data as CommentThreadRow);
+    }
+
+    async findByProjectId(projectId: string): Promise<CommentThread[]> {
+        const client = SupabaseService.getClient();
+        const { data, error } = await client
+            .from("comment_threads")
+            .select("*")
+            .eq("project_id", projectId)
+            .order("created_at", { ascending: true });
+
+        if (error) throw new Error(error.message);
+        if (!data) return [];
+
+        return (data as CommentThreadRow[]).map(mapRowToThread);
+    }
+
+    async update(thread: CommentThread): Promise<void> {
+        const client = SupabaseService.getClient();
+        const { error } = await client
+            .from("comment_threads")
+            .update({
+                chapter_id: thread.chapterId,
+                excerpt: thread.excerpt,
+                is_chapter_level: thread.isChapterLevel,
+                resolved: thread.resolved,
+                messages_json: toMessagesJson(thread.messages),
+                updated_at: thread.updatedAt.toISOString(),
+            })
+            .eq("id", thread.id);
+
+        if (error) throw new Error(error.message);
+    }
+
+    async delete(id: string): Promise<void> {
+        const client = SupabaseService.getClient();
+        const { error } = await client
+            .from("comment_threads")
+            .delete()
+            .eq("id", id);
+
+        if (error) throw new Error(error.message);
+    }
+
+    async deleteByProjectId(projectId: string): Promise<void> {
+        const client = SupabaseService.getClient();
+        const { error } = await client
+            .from("comment_threads")
+            .delete()
+            .eq("project_id", projectId);
+
+        if (error) throw new Error(error.message);
+    }
+}
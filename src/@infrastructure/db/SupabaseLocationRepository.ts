@@ -14,6 +14,7 @@ const mapRowToLocation = (row: LocationDbRow): Location =>
         row.id,
         row.name,
         row.description ?? "",
+        asStringArray(row.aliases),
         new Date(row.created_at),
         new Date(row.updated_at),
         row.bgm_id,
@@ -32,6 +33,7 @@ export class SupabaseLocationRepository implements ILocationRepository {
             project_id: projectId,
             name: location.name,
             description: location.description,
+            aliases: location.aliases,
             bgm_id: location.bgmId,
             playlist_id: location.playlistId,
             gallery_image_ids: location.galleryImageIds,
@@ -79,6 +81,7 @@ export class SupabaseLocationRepository implements ILocationRepository {
         const updatePayload = {
             name: location.name,
             description: location.description,
+            aliases: location.aliases,
             bgm_id: location.bgmId,
             playlist_id: location.playlistId,
             gallery_image_ids: location.galleryImageIds,
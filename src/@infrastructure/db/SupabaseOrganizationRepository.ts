@@ -13,6 +13,7 @@ const mapRowToOrganization = (row: OrganizationDbRow): Organization =>
         row.id,
         row.name,
         row.description ?? "",
+        asStringArray(row.aliases),
         asStringArray(row.location_ids),
         asStringArray(row.gallery_image_ids),
         row.playlist_id,
@@ -29,6 +30,7 @@ export class SupabaseOrganizationRepository implements IOrganizationRepository {
             project_id: projectId,
             name: organization.name,
             description: organization.description,
+            aliases: organization.aliases,
             location_ids: organization.locationIds,
             gallery_image_ids: organization.galleryImageIds,
             playlist_id: organization.playlistId,
@@ -90,6 +92,7 @@ export class SupabaseOrganizationRepository implements IOrganizationRepository {
         const updatePayload = {
             name: organization.name,
             description: organization.description,
+            aliases: organization.aliases,
             location_ids: organization.locationIds,
             gallery_image_ids: organization.galleryImageIds,
             playlist_id: organization.playlistId,
@@ -1,11 +1,21 @@
 import { IProjectRepository } from "../../@core/domain/repositories/IProjectRepository";
 import { Project } from "../../@core/domain/entities/story/Project";
+import { ExportSettings } from "../../@core/domain/entities/story/ExportSettings";
+import { GrammarSettings } from "../../@core/domain/entities/story/GrammarSettings";
+import { ManuscriptStructure } from "../../@core/domain/entities/story/ManuscriptStructure";
+import { ProjectDictionary } from "../../@core/domain/entities/story/ProjectDictionary";
+import { WritingGoals } from "../../@core/domain/entities/story/WritingGoals";
 import { SupabaseService } from "./SupabaseService";
 
 type ProjectRow = {
     id: string;
     title: string;
     cover_image_id: string | null;
+    export_settings: ExportSettings | null;
+    writing_goals: WritingGoals | null;
+    manuscript_structure: ManuscriptStructure | null;
+    dictionary: ProjectDictionary | null;
+    grammar_settings: GrammarSettings | null;
     user_id: string;
     created_at: string;
     updated_at: string;
@@ -34,6 +44,11 @@ const mapProjectRowToEntity = (
         [...(relations?.scrapNoteIds ?? [])],
         [...(relations?.organizationIds ?? [])],
         [...(relations?.timelineIds ?? [])],
+        row.export_settings ?? null,
+        row.writing_goals ?? null,
+        row.manuscript_structure ?? null,
+        row.dictionary ?? null,
+        row.grammar_settings ?? null,
         new Date(row.created_at),
         new Date(row.updated_at),
     );
@@ -46,6 +61,11 @@ export class SupabaseProjectRepository implements IProjectRepository {
             user_id: ownerId,
             title: project.title,
             cover_image_id: project.coverImageId,
+            export_settings: project.exportSettings,
+            writing_goals: project.writingGoals,
+            manuscript_structure: project.manuscriptStructure,
+            dictionary: project.dictionary,
+            grammar_settings: project.grammarSettings,
             created_at: project.createdAt.toISOString(),
             updated_at: project.updatedAt.toISOString(),
         });
@@ -103,6 +123,11 @@ export class SupabaseProjectRepository implements IProjectRepository {
             .update({
                 title: project.title,
                 cover_image_id: project.coverImageId,
+                export_settings: project.exportSettings,
+                writing_goals: project.writingGoals,
+                manuscript_structure: project.manuscriptStructure,
+                dictionary: project.dictionary,
+                grammar_settings: project.grammarSettings,
                 updated_at: project.updatedAt.toISOString(),
             })
             .eq("id", project.id);
@@ -115,6 +115,12 @@ export class SupabaseUserRepository implements IUserRepository {
             typeof prefs.geminiApiKey === "string"
                 ? prefs.geminiApiKey
                 : undefined,
+            undefined,
+            Array.isArray(prefs.dictionary)
+                ? prefs.dictionary.filter(
+                      (word): word is string => typeof word === "string",
+                  )
+                : [],
         );
 
         return new User(
@@ -171,6 +177,7 @@ export class SupabaseUserRepository implements IUserRepository {
             editorFontFamily: preferences.editorFontFamily,
             defaultImageAiModel: preferences.defaultImageAiModel,
             geminiApiKey: preferences.geminiApiKey,
+            dictionary: preferences.dictionary,
         };
     }
 }
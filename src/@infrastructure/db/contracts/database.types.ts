@@ -108,8 +108,13 @@ export type Database = {
           created_at: string
           event_id: string | null
           id: string
+          labels: Json
           order_index: number
+          pov_character_id: string | null
           project_id: string
+          status: string
+          synopsis: string | null
+          tags: Json
           title: string
           updated_at: string
         }
@@ -118,8 +123,13 @@ export type Database = {
           created_at?: string
           event_id?: string | null
           id?: string
+          labels?: Json
           order_index: number
+          pov_character_id?: string | null
           project_id: string
+          status?: string
+          synopsis?: string | null
+          tags?: Json
           title: string
           updated_at?: string
         }
@@ -128,8 +138,13 @@ export type Database = {
           created_at?: string
           event_id?: string | null
           id?: string
+          labels?: Json
           order_index?: number
+          pov_character_id?: string | null
           project_id?: string
+          status?: string
+          synopsis?: string | null
+          tags?: Json
           title?: string
           updated_at?: string
         }
@@ -152,6 +167,7 @@ export type Database = {
       }
       characters: {
         Row: {
+          aliases: Json
           background_location_id: string | null
           bgm_id: string | null
           created_at: string
@@ -166,6 +182,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          aliases?: Json
           background_location_id?: string | null
           bgm_id?: string | null
           created_at?: string
@@ -180,6 +197,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          aliases?: Json
           background_location_id?: string | null
           bgm_id?: string | null
           created_at?: string
@@ -267,6 +285,57 @@ export type Database = {
           },
         ]
       }
+      comment_threads: {
+        Row: {
+          chapter_id: string
+          created_at: string
+          excerpt: string
+          id: string
+          is_chapter_level: boolean
+          messages_json: Json
+          project_id: string
+          resolved: boolean
+          updated_at: string
+        }
+        Insert: {
+          chapter_id: string
+          created_at?: string
+          excerpt?: string
+          id?: string
+          is_chapter_level?: boolean
+          messages_json?: Json
+          project_id: string
+          resolved?: boolean
+          updated_at?: string
+        }
+        Update: {
+          chapter_id?: string
+          created_at?: string
+          excerpt?: string
+          id?: string
+          is_chapter_level?: boolean
+          messages_json?: Json
+          project_id?: string
+          resolved?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_threads_chapter_id_fkey"
+            columns: ["chapter_id"]
+            isOneToOne: false
+            referencedRelation: "chapters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_threads_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deletion_logs: {
         Row: {
           deleted_at: string
@@ -366,6 +435,7 @@ export type Database = {
       }
       locations: {
         Row: {
+          aliases: Json
           bgm_id: string | null
           character_ids: Json | null
           conflicts: Json | null
@@ -384,6 +454,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          aliases?: Json
           bgm_id?: string | null
           character_ids?: Json | null
           conflicts?: Json | null
@@ -402,6 +473,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          aliases?: Json
           bgm_id?: string | null
           character_ids?: Json | null
           conflicts?: Json | null
@@ -529,6 +601,7 @@ export type Database = {
       }
       organizations: {
         Row: {
+          aliases: Json
           bgm_id: string | null
           created_at: string
           description: string | null
@@ -543,6 +616,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          aliases?: Json
           bgm_id?: string | null
           created_at?: string
           description?: string | null
@@ -557,6 +631,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          aliases?: Json
           bgm_id?: string | null
           created_at?: string
           description?: string | null
@@ -585,6 +660,11 @@ export type Database = {
           cover_image_id: string | null
           created_at: string
           description: string | null
+          export_settings: Json | null
+          writing_goals: Json | null
+          manuscript_structure: Json | null
+          dictionary: Json | null
+          grammar_settings: Json | null
           id: string
           title: string
           updated_at: string
@@ -594,6 +674,11 @@ export type Database = {
           cover_image_id?: string | null
           created_at?: string
           description?: string | null
+          export_settings?: Json | null
+          writing_goals?: Json | null
+          manuscript_structure?: Json | null
+          dictionary?: Json | null
+          grammar_settings?: Json | null
           id?: string
           title: string
           updated_at?: string
@@ -603,6 +688,11 @@ export type Database = {
           cover_image_id?: string | null
           created_at?: string
           description?: string | null
+          export_settings?: Json | null
+          writing_goals?: Json | null
+          manuscript_structure?: Json | null
+          dictionary?: Json | null
+          grammar_settings?: Json | null
           id?: string
           title?: string
           updated_at?: string
@@ -1,5 +1,9 @@
 import { IChapterRepository } from "../../../@core/domain/repositories/IChapterRepository";
-import { Chapter } from "../../../@core/domain/entities/story/Chapter";
+import {
+    Chapter,
+    ChapterLabel,
+    ChapterStatus,
+} from "../../../@core/domain/entities/story/Chapter";
 import { fileSystemService } from "../../storage/FileSystemService";
 import * as path from "path";
 
@@ -33,6 +37,11 @@ type FileSystemChapter = {
     title: string;
     order: number;
     content: Record<string, unknown>;
+    status?: ChapterStatus;
+    povCharacterId?: string | null;
+    synopsis?: string;
+    labels?: ChapterLabel[];
+    tags?: string[];
     createdAt: string;
     updatedAt: string;
 };
@@ -75,6 +84,11 @@ export class FileSystemChapterRepository implements IChapterRepository {
             title: chapter.title,
             order: chapter.order,
             content: parseChapterContent(chapter.content),
+            status: chapter.status,
+            povCharacterId: chapter.povCharacterId,
+            synopsis: chapter.synopsis,
+            labels: chapter.labels,
+            tags: chapter.tags,
             createdAt: chapter.createdAt.toISOString(),
             updatedAt: chapter.updatedAt.toISOString(),
         };
@@ -144,6 +158,11 @@ export class FileSystemChapterRepository implements IChapterRepository {
                 title: chapter.title,
                 order: chapter.order,
                 content: parseChapterContent(chapter.content),
+                status: chapter.status,
+                povCharacterId: chapter.povCharacterId,
+                synopsis: chapter.synopsis,
+                labels: chapter.labels,
+                tags: chapter.tags,
                 createdAt: chapter.createdAt.toISOString(),
                 updatedAt: chapter.updatedAt.toISOString(),
             };
@@ -228,6 +247,11 @@ export class FileSystemChapterRepository implements IChapterRepository {
             dto.order,
             JSON.stringify(dto.content),
             null,
+            dto.status ?? "draft",
+            dto.povCharacterId ?? null,
+            dto.synopsis ?? "",
+            dto.labels ?? [],
+            dto.tags ?? [],
             new Date(dto.createdAt),
             new Date(dto.updatedAt),
         );
@@ -0,0 +1,233 @@
+import * as path from "path";
+
+import { IChapterSnapshotRepository } from "../../../@core/domain/repositories/IChapterSnapshotRepository";
+import {
+    ChapterSnapshot,
+    ChapterSnapshotReason,
+} from "../../../@core/domain/entities/story/ChapterSnapshot";
+import {
+    ChapterHistoryRetention,
+    DEFAULT_CHAPTER_HISTORY_RETENTION,
+} from "../../../@core/domain/entities/story/ChapterHistoryRetention";
+import { fileSystemService } from "../../storage/FileSystemService";
+
+type FileSystemChapterSnapshot = {
+    id: string;
+    projectId: string;
+    chapterId: string;
+    title: string;
+    content: string;
+    wordCount: number;
+    reason: ChapterSnapshotReason;
+    createdAt: string;
+};
+
+const RETENTION_FILE = "retention.json";
+
+/**
+ * Stores snapshots under the project folder as
+ * `chapter-history/{chapterId}/{createdAt}-{snapshotId}.json`. The timestamp
+ * prefix keeps directory listings in chronological order, so the latest
+ * snapshot can be read without opening the others.
+ */
+export class FileSystemChapterSnapshotRepository
+    implements IChapterSnapshotRepository
+{
+    private getHistoryPath(userId: string, projectId: string): string {
+        return path.join(
+            "users",
+            userId,
+            "projects",
+            projectId,
+            "chapter-history",
+        );
+    }
+
+    private getChapterPath(
+        userId: string,
+        projectId: string,
+        chapterId: string,
+    ): string {
+        return path.join(this.getHistoryPath(userId, projectId), chapterId);
+    }
+
+    async create(snapshot: ChapterSnapshot): Promise<void> {
+        const ownerId = await this.findOwnerIdByProjectId(snapshot.projectId);
+        if (!ownerId) {
+            console.warn(
+                `Cannot save snapshot of chapter ${snapshot.chapterId}: Project ${snapshot.projectId} not found locally.`,
+            );
+            return;
+        }
+
+        const dto: FileSystemChapterSnapshot = {
+            id: snapshot.id,
+            projectId: snapshot.projectId,
+            chapterId: snapshot.chapterId,
+            title: snapshot.title,
+            content: snapshot.content,
+            wordCount: snapshot.wordCount,
+            reason: snapshot.reason,
+            createdAt: snapshot.createdAt.toISOString(),
+        };
+        const fileName = `${String(snapshot.createdAt.getTime()).padStart(13, "0")}-${snapshot.id}.json`;
+        await fileSystemService.writeJson(
+            path.join(
+                this.getChapterPath(
+                    ownerId,
+                    snapshot.projectId,
+                    snapshot.chapterId,
+                ),
+                fileName,
+            ),
+            dto,
+        );
+    }
+
+    async findByChapterId(
+        projectId: string,
+        chapterId: string,
+    ): Promise<ChapterSnapshot[]> {
+        const dirPath = await this.resolveChapterPath(projectId, chapterId);
+        if (!dirPath) return [];
+
+        const files = await this.listSnapshotFiles(dirPath);
+        const snapshots: ChapterSnapshot[] = [];
+        for (const file of files.reverse()) {
+            const dto =
+                await fileSystemService.readJson<FileSystemChapterSnapshot>(
+                    path.join(dirPath, file),
+                );
+            if (dto) snapshots.push(this.mapToEntity(dto));
+        }
+        return snapshots;
+    }
+
+    async findLatest(
+        projectId: string,
+        chapterId: string,
+    ): Promise<ChapterSnapshot | null> {
+        const dirPath = await this.resolveChapterPath(projectId, chapterId);
+        if (!dirPath) return null;
+
+        const files = await this.listSnapshotFiles(dirPath);
+        for (const file of files.reverse()) {
+            const dto =
+                await fileSystemService.readJson<FileSystemChapterSnapshot>(
+                    path.join(dirPath, file),
+                );
+            if (dto) return this.mapToEntity(dto);
+        }
+        return null;
+    }
+
+    async delete(
+        projectId: string,
+        chapterId: string,
+        snapshotId: string,
+    ): Promise<void> {
+        const dirPath = await this.resolveChapterPath(projectId, chapterId);
+        if (!dirPath) return;
+
+        const files = await this.listSnapshotFiles(dirPath);
+        const file = files.find((name) => name.endsWith(`-${snapshotId}.json`));
+        if (file) {
+            await fileSystemService.deleteFile(path.join(dirPath, file));
+        }
+    }
+
+    async deleteByChapterId(
+        projectId: string,
+        chapterId: string,
+    ): Promise<void> {
+        const dirPath = await this.resolveChapterPath(projectId, chapterId);
+        if (dirPath) {
+            await fileSystemService.deleteDirectory(dirPath);
+        }
+    }
+
+    async deleteByProjectId(projectId: string): Promise<void> {
+        const ownerId = await this.findOwnerIdByProjectId(projectId);
+        if (ownerId) {
+            await fileSystemService.deleteDirectory(
+                this.getHistoryPath(ownerId, projectId),
+            );
+        }
+    }
+
+    async getRetention(projectId: string): Promise<ChapterHistoryRetention> {
+        const ownerId = await this.findOwnerIdByProjectId(projectId);
+        const stored = ownerId
+            ? await fileSystemService.readJson<
+                  Partial<ChapterHistoryRetention>
+              >(
+                  path.join(
+                      this.getHistoryPath(ownerId, projectId),
+                      RETENTION_FILE,
+                  ),
+              )
+            : null;
+        return { ...DEFAULT_CHAPTER_HISTORY_RETENTION, ...stored };
+    }
+
+    async saveRetention(
+        projectId: string,
+        retention: ChapterHistoryRetention,
+    ): Promise<void> {
+        const ownerId = await this.findOwnerIdByProjectId(projectId);
+        if (!ownerId) {
+            throw new Error(`Project ${projectId} not found locally.`);
+        }
+        await fileSystemService.writeJson(
+            path.join(this.getHistoryPath(ownerId, projectId), RETENTION_FILE),
+            retention,
+        );
+    }
+
+    private async resolveChapterPath(
+        projectId: string,
+        chapterId: string,
+    ): Promise<string | null> {
+        const ownerId = await this.findOwnerIdByProjectId(projectId);
+        return ownerId
+            ? this.getChapterPath(ownerId, projectId, chapterId)
+            : null;
+    }
+
+    /** Snapshot file names, oldest first. */
+    private async listSnapshotFiles(dirPath: string): Promise<string[]> {
+        const files = await fileSystemService.listFiles(dirPath);
+        return files.filter((file) => /^\d{13}-.+\.json$/.test(file)).sort();
+    }
+
+    private async findOwnerIdByProjectId(
+        projectId: string,
+    ): Promise<string | null> {
+        const users = await fileSystemService.listFiles("users");
+        for (const user of users) {
+            const projectPath = path.join(
+                "users",
+                user,
+                "projects",
+                `${projectId}.json`,
+            );
+            if (await fileSystemService.exists(projectPath)) {
+                return user;
+            }
+        }
+        return null;
+    }
+
+    private mapToEntity(dto: FileSystemChapterSnapshot): ChapterSnapshot {
+        return new ChapterSnapshot(
+            dto.id,
+            dto.projectId,
+            dto.chapterId,
+            dto.title,
+            dto.content,
+            dto.wordCount,
+            dto.reason,
+            new Date(dto.createdAt),
+        );
+    }
+}
@@ -8,6 +8,7 @@ type FileSystemCharacter = {
     projectId: string;
     name: string;
     description: string;
+    aliases?: string[];
     currentLocationId: string | null;
     backgroundLocationId: string | null;
     organizationId: string | null;
@@ -47,6 +48,7 @@ export class FileSystemCharacterRepository implements ICharacterRepository {
             projectId: projectId,
             name: character.name,
             description: character.description,
+            aliases: character.aliases,
             currentLocationId: character.currentLocationId,
             backgroundLocationId: character.backgroundLocationId,
             organizationId: character.organizationId,
@@ -101,6 +103,7 @@ export class FileSystemCharacterRepository implements ICharacterRepository {
                 projectId: location.projectId,
                 name: character.name,
                 description: character.description,
+                aliases: character.aliases,
                 currentLocationId: character.currentLocationId,
                 backgroundLocationId: character.backgroundLocationId,
                 organizationId: character.organizationId,
@@ -188,6 +191,7 @@ export class FileSystemCharacterRepository implements ICharacterRepository {
             dto.id,
             dto.name,
             dto.description,
+            dto.aliases ?? [],
             dto.currentLocationId,
             dto.backgroundLocationId,
             dto.organizationId,
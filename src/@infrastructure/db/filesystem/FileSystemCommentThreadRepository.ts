@@ -0,0 +1,246 @@
+import {
+    CommentMessage,
+    CommentThread,
+} from "../../../@core/domain/entities/story/CommentThread";
+import { ICommentThreadRepository } from "../../../@core/domain/repositories/ICommentThreadRepository";
+import { fileSystemService } from "../../storage/FileSystemService";
+import * as path from "path";
+
+type FileSystemCommentMessage = {
+    id: string;
+    authorName: string;
+    text: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+type FileSystemCommentThread = {
+    id: string;
+    projectId: string;
+    chapterId: string;
+    excerpt: string;
+    isChapterLevel: boolean;
+    resolved: boolean;
+    messages: FileSystemCommentMessage[];
+    createdAt: string;
+    updatedAt: string;
+};
+
+const toMessages = (value: unknown): CommentMessage[] => {
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    return value
+        .map((entry) => {
+            if (!entry || typeof entry !== "object") {
+                return null;
+            }
+
+            const message = entry as Partial<FileSystemCommentMessage>;
+            if (
+                typeof message.id !== "string" ||
+                typeof message.text !== "string"
+            ) {
+                return null;
+            }
+
+            const createdAt = new Date(message.createdAt ?? 0);
+            return {
+                id: message.id,
+                authorName:
+                    typeof message.authorName === "string"
+                        ? message.authorName
+                        : "",
+                text: message.text,
+                createdAt,
+                updatedAt: message.updatedAt
+                    ? new Date(message.updatedAt)
+                    : createdAt,
+            } satisfies CommentMessage;
+        })
+        .filter((entry): entry is CommentMessage => entry !== null);
+};
+
+export class FileSystemCommentThreadRepository
+    implements ICommentThreadRepository
+{
+    private getFilePath(
+        userId: string,
+        projectId: string,
+        threadId: string,
+    ): string {
+        return path.join(
+            "users",
+            userId,
+            "projects",
+            projectId,
+            "comment-threads",
+            `${threadId}.json`,
+        );
+    }
+
+    private getDirectoryPath(userId: string, projectId: string): string {
+        return path.join(
+            "users",
+            userId,
+            "projects",
+            projectId,
+            "comment-threads",
+        );
+    }
+
+    async create(thread: CommentThread): Promise<void> {
+        const ownerId = await this.findOwnerIdByProjectId(thread.projectId);
+        if (!ownerId) return;
+
+        await fileSystemService.writeJson(
+            this.getFilePath(ownerId, thread.projectId, thread.id),
+            this.toDto(thread),
+        );
+    }
+
+    async findById(id: string): Promise<CommentThread | null> {
+        const location = await this.findFileLocation(id);
+        if (!location) {
+            return null;
+        }
+
+        const dto = await fileSystemService.readJson<FileSystemCommentThread>(
+            location.path,
+        );
+
+        return dto ? this.mapToEntity(dto) : null;
+    }
+
+    async findByProjectId(projectId: string): Promise<CommentThread[]> {
+        const ownerId = await this.findOwnerIdByProjectId(projectId);
+        if (!ownerId) return [];
+
+        const dirPath = this.getDirectoryPath(ownerId, projectId);
+        const files = await fileSystemService.listFiles(dirPath);
+        const threads: CommentThread[] = [];
+
+        for (const file of files) {
+            if (!file.endsWith(".json")) continue;
+
+            const dto =
+                await fileSystemService.readJson<FileSystemCommentThread>(
+                    path.join(dirPath, file),
+                );
+            if (dto) {
+                threads.push(this.mapToEntity(dto));
+            }
+        }
+
+        return threads.sort(
+            (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+        );
+    }
+
+    async update(thread: CommentThread): Promise<void> {
+        const location = await this.findFileLocation(thread.id);
+        if (!location) {
+            return;
+        }
+
+        await fileSystemService.writeJson(location.path, this.toDto(thread));
+    }
+
+    async delete(id: string): Promise<void> {
+        const location = await this.findFileLocation(id);
+        if (!location) {
+            return;
+        }
+
+        await fileSystemService.deleteFile(location.path);
+    }
+
+    async deleteByProjectId(projectId: string): Promise<void> {
+        const ownerId = await this.findOwnerIdByProjectId(projectId);
+        if (ownerId) {
+            await fileSystemService.deleteDirectory(
+                this.getDirectoryPath(ownerId, projectId),
+            );
+        }
+    }
+
+    private toDto(thread: CommentThread): FileSystemCommentThread {
+        return {
+            id: thread.id,
+            projectId: thread.projectId,
+            chapterId: thread.chapterId,
+            excerpt: thread.excerpt,
+            isChapterLevel: thread.isChapterLevel,
+            resolved: thread.resolved,
+            messages: thread.messages.map((message) => ({
+                id: message.id,
+                authorName: message.authorName,
+                text: message.text,
+                createdAt: message.createdAt.toISOString(),
+                updatedAt: message.updatedAt.toISOString(),
+            })),
+            createdAt: thread.createdAt.toISOString(),
+            updatedAt: thread.updatedAt.toISOString(),
+        };
+    }
+
+    private mapToEntity(dto: FileSystemCommentThread): CommentThread {
+        return new CommentThread(
+            dto.id,
+            dto.projectId,
+            dto.chapterId,
+            dto.excerpt ?? "",
+            Boolean(dto.isChapterLevel),
+            Boolean(dto.resolved),
+            toMessages(dto.messages),
+            new Date(dto.createdAt),
+            new Date(dto.updatedAt),
+        );
+    }
+
+    private async findOwnerIdByProjectId(
+        projectId: string,
+    ): Promise<string | null> {
+        const users = await fileSystemService.listFiles("users");
+
+        for (const user of users) {
+            const projectPath = path.join(
+                "users",
+                user,
+                "projects",
+                `${projectId}.json`,
+            );
+
+            if (await fileSystemService.exists(projectPath)) {
+                return user;
+            }
+        }
+
+        return null;
+    }
+
+    private async findFileLocation(
+        threadId: string,
+    ): Promise<{ userId: string; projectId: string; path: string } | null> {
+        const users = await fileSystemService.listFiles("users");
+
+        for (const user of users) {
+            const projectsDir = path.join("users", user, "projects");
+            const projects = await fileSystemService.listFiles(projectsDir);
+
+            for (const projectFile of projects) {
+                if (!projectFile.endsWith(".json")) continue;
+
+                const projectId = projectFile.replace(".json", "");
+                const filePath = this.getFilePath(user, projectId, threadId);
+
+                if (await fileSystemService.exists(filePath)) {
+                    return { userId: user, projectId, path: filePath };
+                }
+            }
+        }
+
+        return null;
+    }
+}
@@ -8,6 +8,7 @@ type FileSystemLocation = {
     projectId: string;
     name: string;
     description: string;
+    aliases?: string[];
     createdAt: string;
     updatedAt: string;
     bgmId: string | null;
@@ -47,6 +48,7 @@ export class FileSystemLocationRepository implements ILocationRepository {
             projectId: projectId,
             name: location.name,
             description: location.description,
+            aliases: location.aliases,
             createdAt: location.createdAt.toISOString(),
             updatedAt: location.updatedAt.toISOString(),
             bgmId: location.bgmId,
@@ -111,6 +113,7 @@ export class FileSystemLocationRepository implements ILocationRepository {
                 projectId: loc.projectId,
                 name: location.name,
                 description: location.description,
+                aliases: location.aliases,
                 createdAt: location.createdAt.toISOString(),
                 updatedAt: location.updatedAt.toISOString(),
                 bgmId: location.bgmId,
@@ -188,6 +191,7 @@ export class FileSystemLocationRepository implements ILocationRepository {
             dto.id,
             dto.name,
             dto.description,
+            dto.aliases ?? [],
             new Date(dto.createdAt),
             new Date(dto.updatedAt),
             dto.bgmId,
@@ -8,6 +8,7 @@ type FileSystemOrganization = {
     projectId: string;
     name: string;
     description: string;
+    aliases?: string[];
     createdAt: string;
     updatedAt: string;
     bgmId: string | null;
@@ -51,6 +52,7 @@ export class FileSystemOrganizationRepository implements IOrganizationRepository
             projectId: projectId,
             name: organization.name,
             description: organization.description,
+            aliases: organization.aliases,
             createdAt: organization.createdAt.toISOString(),
             updatedAt: organization.updatedAt.toISOString(),
             bgmId: organization.bgmId,
@@ -140,6 +142,7 @@ export class FileSystemOrganizationRepository implements IOrganizationRepository
                 projectId: loc.projectId,
                 name: organization.name,
                 description: organization.description,
+                aliases: organization.aliases,
                 createdAt: organization.createdAt.toISOString(),
                 updatedAt: organization.updatedAt.toISOString(),
                 bgmId: organization.bgmId,
@@ -209,6 +212,7 @@ export class FileSystemOrganizationRepository implements IOrganizationRepository
             dto.id,
             dto.name,
             dto.description,
+            dto.aliases ?? [],
             dto.locationIds,
             dto.galleryImageIds,
             dto.playlistId,
@@ -1,5 +1,10 @@
 import { IProjectRepository } from "../../../@core/domain/repositories/IProjectRepository";
 import { Project } from "../../../@core/domain/entities/story/Project";
+import { ExportSettings } from "../../../@core/domain/entities/story/ExportSettings";
+import { GrammarSettings } from "../../../@core/domain/entities/story/GrammarSettings";
+import { ManuscriptStructure } from "../../../@core/domain/entities/story/ManuscriptStructure";
+import { ProjectDictionary } from "../../../@core/domain/entities/story/ProjectDictionary";
+import { WritingGoals } from "../../../@core/domain/entities/story/WritingGoals";
 import { fileSystemService } from "../../storage/FileSystemService";
 import * as path from "path";
 
@@ -12,6 +17,11 @@ type FileSystemProject = {
     locationIds: string[];
     scrapNoteIds: string[];
     organizationIds: string[];
+    exportSettings?: ExportSettings | null;
+    writingGoals?: WritingGoals | null;
+    manuscriptStructure?: ManuscriptStructure | null;
+    dictionary?: ProjectDictionary | null;
+    grammarSettings?: GrammarSettings | null;
     createdAt: string;
     updatedAt: string;
     userId: string;
@@ -36,6 +46,11 @@ export class FileSystemProjectRepository implements IProjectRepository {
             locationIds: project.locationIds,
             scrapNoteIds: project.scrapNoteIds,
             organizationIds: project.organizationIds,
+            exportSettings: project.exportSettings,
+            writingGoals: project.writingGoals,
+            manuscriptStructure: project.manuscriptStructure,
+            dictionary: project.dictionary,
+            grammarSettings: project.grammarSettings,
             createdAt: project.createdAt.toISOString(),
             updatedAt: project.updatedAt.toISOString(),
             userId: ownerId,
@@ -89,6 +104,11 @@ export class FileSystemProjectRepository implements IProjectRepository {
                 locationIds: project.locationIds,
                 scrapNoteIds: project.scrapNoteIds,
                 organizationIds: project.organizationIds,
+                exportSettings: project.exportSettings,
+                writingGoals: project.writingGoals,
+                manuscriptStructure: project.manuscriptStructure,
+                dictionary: project.dictionary,
+                grammarSettings: project.grammarSettings,
                 createdAt: project.createdAt.toISOString(),
                 updatedAt: project.updatedAt.toISOString(),
                 userId: ownerId,
@@ -129,6 +149,11 @@ export class FileSystemProjectRepository implements IProjectRepository {
             dto.scrapNoteIds,
             dto.organizationIds,
             [],
+            dto.exportSettings ?? null,
+            dto.writingGoals ?? null,
+            dto.manuscriptStructure ?? null,
+            dto.dictionary ?? null,
+            dto.grammarSettings ?? null,
             new Date(dto.createdAt),
             new Date(dto.updatedAt)
         );
@@ -29,6 +29,7 @@ type FileSystemUser = {
         editorFontFamily: string;
         defaultImageAiModel: string;
         geminiApiKey?: string;
+        dictionary?: string[];
     };
 };
 
@@ -105,6 +106,7 @@ export class FileSystemUserRepository implements IUserRepository {
                 editorFontFamily: user.preferences.editorFontFamily,
                 defaultImageAiModel: user.preferences.defaultImageAiModel,
                 geminiApiKey: user.preferences.geminiApiKey,
+                dictionary: [...user.preferences.dictionary],
             },
         };
     }
@@ -126,6 +128,8 @@ export class FileSystemUserRepository implements IUserRepository {
                 dto.preferences.editorFontFamily,
                 dto.preferences.defaultImageAiModel,
                 dto.preferences.geminiApiKey,
+                undefined,
+                dto.preferences.dictionary ?? [],
             ),
         );
     }
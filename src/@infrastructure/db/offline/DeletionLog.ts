@@ -7,6 +7,7 @@ export type EntityType =
     | "organization"
     | "scrapNote"
     | "editorTemplate"
+    | "commentThread"
     | "metafieldDefinition"
     | "metafieldAssignment"
     | "image"
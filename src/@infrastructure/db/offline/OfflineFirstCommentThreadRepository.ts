@@ -0,0 +1,187 @@
+import { ICommentThreadRepository } from "../../../@core/domain/repositories/ICommentThreadRepository";
+import { CommentThread } from "../../../@core/domain/entities/story/CommentThread";
+import { SupabaseCommentThreadRepository } from "../SupabaseCommentThreadRepository";
+import { FileSystemCommentThreadRepository } from "../filesystem/FileSystemCommentThreadRepository";
+import { pendingUpdates } from "./PendingUpdates";
+import { deletionLog } from "./DeletionLog";
+
+export class OfflineFirstCommentThreadRepository
+    implements ICommentThreadRepository
+{
+    constructor(
+        private supabaseRepo: SupabaseCommentThreadRepository,
+        private fsRepo: FileSystemCommentThreadRepository,
+    ) {}
+
+    async create(thread: CommentThread): Promise<void> {
+        await this.fsRepo.create(thread);
+        try {
+            await this.supabaseRepo.create(thread);
+        } catch (error) {
+            await pendingUpdates.add({
+                entityType: "commentThread",
+                entityId: thread.id,
+                projectId: thread.projectId,
+                operation: "create",
+                payload: thread,
+                attempts: 0,
+                createdAt: Date.now(),
+                updatedAt: Date.now(),
+                lastError:
+                    error instanceof Error ? error.message : String(error),
+            });
+            console.warn(
+                "Failed to create comment thread in Supabase (Offline?)",
+                error,
+            );
+        }
+    }
+
+    async findById(id: string): Promise<CommentThread | null> {
+        let remote: CommentThread | null = null;
+        try {
+            remote = await this.supabaseRepo.findById(id);
+        } catch {
+            // Offline
+        }
+
+        const local = await this.fsRepo.findById(id);
+        const result = this.pickMostRecent(local, remote);
+
+        if (result && result === remote && !local) {
+            await this.fsRepo.create(result);
+        }
+
+        return result;
+    }
+
+    async findByProjectId(projectId: string): Promise<CommentThread[]> {
+        let remote: CommentThread[] = [];
+        try {
+            remote = await this.supabaseRepo.findByProjectId(projectId);
+        } catch {
+            // Offline
+        }
+
+        const local = await this.fsRepo.findByProjectId(projectId);
+        const merged = this.mergeByMostRecent(local, remote);
+
+        for (const thread of merged) {
+            const isRemoteOnly =
+                remote.some((item) => item.id === thread.id) &&
+                !local.some((item) => item.id === thread.id);
+            if (isRemoteOnly) {
+                await this.fsRepo.create(thread);
+            }
+        }
+
+        return merged.sort(
+            (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+        );
+    }
+
+    async update(thread: CommentThread): Promise<void> {
+        await this.fsRepo.update(thread);
+        try {
+            await this.supabaseRepo.update(thread);
+        } catch (error) {
+            await pendingUpdates.add({
+                entityType: "commentThread",
+                entityId: thread.id,
+                projectId: thread.projectId,
+                operation: "update",
+                payload: thread,
+                attempts: 0,
+                createdAt: Date.now(),
+                updatedAt: Date.now(),
+                lastError:
+                    error instanceof Error ? error.message : String(error),
+            });
+            console.warn(
+                "Failed to update comment thread in Supabase (Offline?)",
+                error,
+            );
+        }
+    }
+
+    async delete(id: string): Promise<void> {
+        const existing = await this.fsRepo.findById(id);
+
+        await this.fsRepo.delete(id);
+        await deletionLog.add({
+            entityType: "commentThread",
+            entityId: id,
+            projectId: existing?.projectId ?? "",
+            timestamp: Date.now(),
+        });
+
+        try {
+            await this.supabaseRepo.delete(id);
+            await deletionLog.remove(id);
+        } catch (error) {
+            console.warn(
+                "Failed to delete comment thread in Supabase (Offline?)",
+                error,
+            );
+        }
+    }
+
+    async deleteByProjectId(projectId: string): Promise<void> {
+        const threads = await this.fsRepo.findByProjectId(projectId);
+        const timestamp = Date.now();
+
+        for (const thread of threads) {
+            await deletionLog.add({
+                entityType: "commentThread",
+                entityId: thread.id,
+                projectId,
+                timestamp,
+            });
+        }
+
+        await this.fsRepo.deleteByProjectId(projectId);
+
+        try {
+            await this.supabaseRepo.deleteByProjectId(projectId);
+            for (const thread of threads) {
+                await deletionLog.remove(thread.id);
+            }
+        } catch (error) {
+            console.warn(
+                "Failed to delete comment threads in Supabase (Offline?)",
+                error,
+            );
+        }
+    }
+
+    private pickMostRecent(
+        local: CommentThread | null,
+        remote: CommentThread | null,
+    ): CommentThread | null {
+        if (local && remote) {
+            return remote.updatedAt > local.updatedAt ? remote : local;
+        }
+
+        return local || remote;
+    }
+
+    private mergeByMostRecent(
+        local: CommentThread[],
+        remote: CommentThread[],
+    ): CommentThread[] {
+        const map = new Map<string, CommentThread>();
+
+        for (const item of local) {
+            map.set(item.id, item);
+        }
+
+        for (const item of remote) {
+            const existing = map.get(item.id);
+            if (!existing || item.updatedAt > existing.updatedAt) {
+                map.set(item.id, item);
+            }
+        }
+
+        return Array.from(map.values());
+    }
+}
@@ -8,6 +8,7 @@ export type PendingUpdateEntityType =
     | "organization"
     | "scrapNote"
     | "editorTemplate"
+    | "commentThread"
     | "metafieldDefinition"
     | "metafieldAssignment"
     | "image"
@@ -0,0 +1,795 @@
+import JSZip from "jszip";
+import * as cheerio from "cheerio";
+import type { Element as DomElement } from "domhandler";
+import * as path from "path";
+
+import type {
+    ParsedEpub,
+    ParsedChapter,
+    ParsedImage,
+} from "../../@core/domain/services/IEpubImportService";
+import type { IDocxImportService } from "../../@core/domain/services/IDocxImportService";
+import { generateId } from "../../@core/application/utils/id";
+import {
+    guessMimeType,
+    liftBlockImages,
+    nodeHasText,
+    type TiptapMark,
+    type TiptapNode,
+} from "./htmlToTiptap";
+
+// ─── WordprocessingML helpers ────────────────────────────────────────────────
+
+type CheerioAPI = cheerio.CheerioAPI;
+type XmlSelection = cheerio.Cheerio<DomElement>;
+
+const DOCUMENT_PART = "word/document.xml";
+
+/** Marker node used while converting runs; split out before output. */
+const PAGE_BREAK = "__page_break__";
+
+/** Paragraphs Word users type as scene breaks ("#", "***", "* * *", …). */
+const SCENE_BREAK_TEXT = /^\s*(#|\*\s*\*\s*\*|\*{3,}|~{3,})\s*$/;
+
+const ALIGNMENTS: Record<string, string> = {
+    center: "center",
+    right: "right",
+    end: "right",
+    both: "justify",
+    distribute: "justify",
+};
+
+/** `<w:b/>` and `<w:b w:val="true"/>` are on; `w:val="0|false|off|none"` is off. */
+function isToggleOn(el: XmlSelection): boolean {
+    if (!el.length) return false;
+    const val = el.attr("w:val")?.toLowerCase();
+    return val === undefined || !["0", "false", "off", "none"].includes(val);
+}
+
+/** Relationship targets are relative to word/, or absolute from the root. */
+function resolvePartPath(target: string): string {
+    return target.startsWith("/")
+        ? target.slice(1)
+        : path.posix.normalize(`word/${target}`);
+}
+
+interface DocxStyle {
+    name: string;
+    basedOn: string | null;
+    outlineLevel: number | null;
+    bold: boolean;
+    italic: boolean;
+}
+
+function readStyles($: CheerioAPI): Map<string, DocxStyle> {
+    const styles = new Map<string, DocxStyle>();
+    $("w\\:style").each((_i, el) => {
+        const $el = $(el);
+        const id = $el.attr("w:styleId");
+        if (!id) return;
+        const outlineLevel = $el
+            .find("w\\:pPr > w\\:outlineLvl")
+            .attr("w:val");
+        styles.set(id, {
+            name: $el.children("w\\:name").attr("w:val") ?? id,
+            basedOn: $el.children("w\\:basedOn").attr("w:val") ?? null,
+            outlineLevel: outlineLevel ? parseInt(outlineLevel, 10) : null,
+            bold: isToggleOn($el.find("w\\:rPr > w\\:b").first()),
+            italic: isToggleOn($el.find("w\\:rPr > w\\:i").first()),
+        });
+    });
+    return styles;
+}
+
+/** A style followed by everything it is `basedOn`, nearest first. */
+function styleChain(
+    styles: Map<string, DocxStyle>,
+    styleId: string | undefined,
+): DocxStyle[] {
+    const chain: DocxStyle[] = [];
+    let current = styleId ? styles.get(styleId) : undefined;
+    // Guard against basedOn cycles in hand-edited files
+    while (current && chain.length < 10) {
+        chain.push(current);
+        current = current.basedOn ? styles.get(current.basedOn) : undefined;
+    }
+    return chain;
+}
+
+/** numId → list level → whether that level is numbered (vs. bulleted). */
+function readNumbering($: CheerioAPI): Map<string, Map<number, boolean>> {
+    const abstractLevels = new Map<string, Map<number, boolean>>();
+    $("w\\:abstractNum").each((_i, el) => {
+        const levels = new Map<number, boolean>();
+        $(el)
+            .children("w\\:lvl")
+            .each((_j, lvl) => {
+                const $lvl = $(lvl);
+                const format = $lvl.children("w\\:numFmt").attr("w:val");
+                levels.set(
+                    parseInt($lvl.attr("w:ilvl") ?? "0", 10),
+                    format !== "bullet" && format !== "none",
+                );
+            });
+        abstractLevels.set($(el).attr("w:abstractNumId") ?? "", levels);
+    });
+
+    const numbering = new Map<string, Map<number, boolean>>();
+    $("w\\:num").each((_i, el) => {
+        const abstractId = $(el).children("w\\:abstractNumId").attr("w:val");
+        const levels = abstractId ? abstractLevels.get(abstractId) : undefined;
+        if (levels) {
+            numbering.set($(el).attr("w:numId") ?? "", levels);
+        }
+    });
+    return numbering;
+}
+
+interface DocxRelationship {
+    target: string;
+    external: boolean;
+}
+
+function readRelationships($: CheerioAPI): Map<string, DocxRelationship> {
+    const relationships = new Map<string, DocxRelationship>();
+    $("Relationship").each((_i, el) => {
+        const $el = $(el);
+        const id = $el.attr("Id");
+        const target = $el.attr("Target");
+        if (id && target) {
+            relationships.set(id, {
+                target,
+                external: $el.attr("TargetMode") === "External",
+            });
+        }
+    });
+    return relationships;
+}
+
+// ─── Body blocks ─────────────────────────────────────────────────────────────
+
+type DocxBlock =
+    | { kind: "pageBreak" }
+    | { kind: "title"; text: string }
+    | { kind: "chapterHeading"; text: string }
+    | { kind: "listItem"; level: number; ordered: boolean; paragraph: TiptapNode }
+    | { kind: "node"; node: TiptapNode };
+
+interface DocxContext {
+    $: CheerioAPI;
+    zip: JSZip;
+    styles: Map<string, DocxStyle>;
+    numbering: Map<string, Map<number, boolean>>;
+    relationships: Map<string, DocxRelationship>;
+    images: Map<string, ParsedImage>;
+    pendingImageLoads: Promise<void>[];
+}
+
+function textNode(text: string, marks: TiptapMark[]): TiptapNode {
+    return {
+        type: "text",
+        text,
+        ...(marks.length ? { marks: [...marks] } : {}),
+    };
+}
+
+/** Word splits runs freely (spell-check, revisions); join identical neighbours. */
+function mergeTextNodes(nodes: TiptapNode[]): TiptapNode[] {
+    const merged: TiptapNode[] = [];
+    for (const node of nodes) {
+        const prev = merged[merged.length - 1];
+        if (
+            prev?.type === "text" &&
+            node.type === "text" &&
+            JSON.stringify(prev.marks ?? []) === JSON.stringify(node.marks ?? [])
+        ) {
+            merged[merged.length - 1] = {
+                ...prev,
+                text: `${prev.text ?? ""}${node.text ?? ""}`,
+            };
+        } else {
+            merged.push(node);
+        }
+    }
+    return merged;
+}
+
+function plainText(nodes: TiptapNode[]): string {
+    return nodes
+        .map((node) =>
+            node.type === "hardBreak" ? "\n" : (node.text ?? ""),
+        )
+        .join("");
+}
+
+/** Nests consecutive Word list paragraphs by their `w:ilvl`. */
+function buildList(
+    entries: Extract<DocxBlock, { kind: "listItem" }>[],
+): TiptapNode {
+    const listNode = (ordered: boolean): TiptapNode => ({
+        type: ordered ? "orderedList" : "bulletList",
+        content: [],
+    });
+
+    const root = listNode(entries[0].ordered);
+    const stack = [{ level: entries[0].level, list: root }];
+
+    for (const entry of entries) {
+        while (
+            stack.length > 1 &&
+            entry.level < stack[stack.length - 1].level
+        ) {
+            stack.pop();
+        }
+
+        let top = stack[stack.length - 1];
+        const lastItem = top.list.content?.[top.list.content.length - 1];
+        if (entry.level > top.level && lastItem?.content) {
+            const nested = listNode(entry.ordered);
+            lastItem.content.push(nested);
+            top = { level: entry.level, list: nested };
+            stack.push(top);
+        }
+
+        top.list.content?.push({
+            type: "listItem",
+            content: [entry.paragraph],
+        });
+    }
+
+    return root;
+}
+
+function isEmptyParagraph(node: TiptapNode): boolean {
+    return node.type === "paragraph" && !node.content?.length;
+}
+
+/** Turns one chapter's blocks into editor nodes (lists, quotes, code). */
+function buildChapterContent(blocks: DocxBlock[]): TiptapNode[] {
+    const nodes: TiptapNode[] = [];
+    let listEntries: Extract<DocxBlock, { kind: "listItem" }>[] = [];
+
+    const flushList = () => {
+        if (listEntries.length) {
+            nodes.push(buildList(listEntries));
+            listEntries = [];
+        }
+    };
+
+    for (const block of blocks) {
+        if (block.kind === "listItem") {
+            listEntries.push(block);
+            continue;
+        }
+        flushList();
+        if (block.kind !== "node") continue;
+
+        const node = block.node;
+        const prev = nodes[nodes.length - 1];
+        if (node.type === "blockquote" && prev?.type === "blockquote") {
+            prev.content = [...(prev.content ?? []), ...(node.content ?? [])];
+        } else if (node.type === "codeBlock" && prev?.type === "codeBlock") {
+            const text = `${plainText(prev.content ?? [])}\n${plainText(node.content ?? [])}`;
+            prev.content = [{ type: "text", text }];
+        } else {
+            nodes.push(node);
+        }
+    }
+    flushList();
+
+    // Word documents often pad chapters with blank paragraphs
+    while (nodes.length && isEmptyParagraph(nodes[0])) nodes.shift();
+    while (nodes.length && isEmptyParagraph(nodes[nodes.length - 1])) {
+        nodes.pop();
+    }
+
+    return liftBlockImages(nodes);
+}
+
+function collectImagePlaceholders(node: TiptapNode, ids: string[]): string[] {
+    const src = node.attrs?.src;
+    if (
+        node.type === "image" &&
+        typeof src === "string" &&
+        src.startsWith("__import_image__:")
+    ) {
+        ids.push(src.slice("__import_image__:".length));
+    }
+    node.content?.forEach((child) => collectImagePlaceholders(child, ids));
+    return ids;
+}
+
+/**
+ * A leading section where every paragraph with text is centred is a title
+ * page, not a chapter.
+ */
+function isTitlePage(blocks: DocxBlock[]): boolean {
+    return blocks.every((block) => {
+        if (block.kind === "listItem") {
+            return !nodeHasText(block.paragraph);
+        }
+        if (block.kind !== "node" || !nodeHasText(block.node)) {
+            return true;
+        }
+        return block.node.attrs?.textAlign === "center";
+    });
+}
+
+// ─── DocxImportService ──────────────────────────────────────────────────────
+
+export class DocxImportService implements IDocxImportService {
+    async parseDocx(
+        fileBuffer: ArrayBuffer,
+        onProgress?: (percent: number) => void,
+    ): Promise<ParsedEpub> {
+        const report = (pct: number) => onProgress?.(Math.round(pct));
+
+        // 1. Open the ZIP
+        const zip = await JSZip.loadAsync(fileBuffer);
+        report(5);
+
+        const documentXml = await this.readZipText(zip, DOCUMENT_PART);
+        if (!documentXml) {
+            throw new Error(`Invalid DOCX: missing ${DOCUMENT_PART}`);
+        }
+
+        // 2. Read the parts the body refers to
+        const load = async (part: string) =>
+            cheerio.load((await this.readZipText(zip, part)) ?? "", {
+                xml: true,
+            });
+        const $core = await load("docProps/core.xml");
+        const ctx: DocxContext = {
+            $: cheerio.load(documentXml, { xml: true }),
+            zip,
+            styles: readStyles(await load("word/styles.xml")),
+            numbering: readNumbering(await load("word/numbering.xml")),
+            relationships: readRelationships(
+                await load("word/_rels/document.xml.rels"),
+            ),
+            images: new Map(),
+            pendingImageLoads: [],
+        };
+        report(10);
+
+        // 3. Convert the body into a flat run of blocks
+        const body = ctx.$("w\\:body").first();
+        if (!body.length) {
+            throw new Error("Invalid DOCX: document has no body.");
+        }
+        const blocks = this.convertBlocks(ctx, body);
+        report(30);
+
+        // 4. Wait for embedded images
+        await Promise.all(ctx.pendingImageLoads);
+        report(50);
+
+        const titleBlock = blocks.find((block) => block.kind === "title");
+        const title =
+            $core("dc\\:title").first().text().trim() ||
+            (titleBlock?.kind === "title" ? titleBlock.text : "") ||
+            "Imported Project";
+
+        // 5. Split into chapters: on Heading 1 when the document uses it,
+        //    otherwise on page breaks
+        const sections = this.splitSections(blocks);
+        const chapters: ParsedChapter[] = [];
+
+        sections.forEach((section, index) => {
+            if (index === 0 && !section.title && isTitlePage(section.blocks)) {
+                return;
+            }
+
+            const content = buildChapterContent(section.blocks);
+            const hasImage = content.some((node) => node.type === "image");
+            if (!content.some(nodeHasText) && !hasImage) {
+                return;
+            }
+
+            // Untitled sections may open with their own (lower-level) heading
+            let chapterTitle = section.title;
+            if (!chapterTitle && content[0]?.type === "heading") {
+                chapterTitle = plainText(content[0].content ?? []).trim();
+                if (chapterTitle) content.shift();
+            }
+
+            const doc: TiptapNode = {
+                type: "doc",
+                content: content.length ? content : [{ type: "paragraph" }],
+            };
+            const images = collectImagePlaceholders(doc, [])
+                .map((id) => ctx.images.get(id))
+                .filter((image): image is ParsedImage => Boolean(image));
+
+            chapters.push({
+                title: chapterTitle || `Chapter ${chapters.length + 1}`,
+                content: doc,
+                images,
+            });
+
+            // Progress: 50% – 95% across sections
+            report(50 + ((index + 1) / sections.length) * 45);
+        });
+
+        if (chapters.length === 0) {
+            throw new Error(
+                "No importable chapters found in the Word document. The file may be empty.",
+            );
+        }
+
+        report(100);
+
+        return { title, coverImage: null, chapters };
+    }
+
+    private splitSections(
+        blocks: DocxBlock[],
+    ): { title: string | null; blocks: DocxBlock[] }[] {
+        const splitOnHeadings = blocks.some(
+            (block) => block.kind === "chapterHeading",
+        );
+        const sections: { title: string | null; blocks: DocxBlock[] }[] = [
+            { title: null, blocks: [] },
+        ];
+
+        for (const block of blocks) {
+            if (block.kind === "chapterHeading") {
+                sections.push({ title: block.text || null, blocks: [] });
+            } else if (block.kind === "pageBreak") {
+                if (!splitOnHeadings) {
+                    sections.push({ title: null, blocks: [] });
+                }
+            } else if (block.kind !== "title") {
+                sections[sections.length - 1].blocks.push(block);
+            }
+        }
+
+        return sections;
+    }
+
+    private convertBlocks(ctx: DocxContext, parent: XmlSelection): DocxBlock[] {
+        const blocks: DocxBlock[] = [];
+
+        parent.children().each((_i, el) => {
+            const $el = ctx.$(el);
+            switch (el.tagName) {
+                case "w:p":
+                    blocks.push(...this.convertParagraph(ctx, $el));
+                    break;
+
+                case "w:tbl":
+                    // The editor has no tables; keep cell text in reading order
+                    $el.children("w\\:tr").each((_j, row) => {
+                        ctx.$(row)
+                            .children("w\\:tc")
+                            .each((_k, cell) => {
+                                blocks.push(
+                                    ...this.convertBlocks(ctx, ctx.$(cell)),
+                                );
+                            });
+                    });
+                    break;
+
+                case "w:sdt":
+                    blocks.push(
+                        ...this.convertBlocks(
+                            ctx,
+                            $el.children("w\\:sdtContent"),
+                        ),
+                    );
+                    break;
+
+                case "w:customXml":
+                    blocks.push(...this.convertBlocks(ctx, $el));
+                    break;
+
+                default:
+                    break;
+            }
+        });
+
+        return blocks;
+    }
+
+    private convertParagraph(ctx: DocxContext, p: XmlSelection): DocxBlock[] {
+        const pPr = p.children("w\\:pPr");
+        const styleId = pPr.children("w\\:pStyle").attr("w:val");
+        const chain = styleChain(ctx.styles, styleId);
+        const styleNames = chain.map((style) => style.name.toLowerCase());
+        const align = ALIGNMENTS[pPr.children("w\\:jc").attr("w:val") ?? ""];
+
+        let headingLevel: number | null = null;
+        for (const style of chain) {
+            const match = style.name.match(/^heading\s*(\d)$/i);
+            if (match) {
+                headingLevel = parseInt(match[1], 10);
+                break;
+            }
+            if (style.outlineLevel !== null && style.outlineLevel < 9) {
+                headingLevel = style.outlineLevel + 1;
+                break;
+            }
+        }
+
+        const numPr = pPr.children("w\\:numPr");
+        const numId = numPr.children("w\\:numId").attr("w:val");
+        const listLevel = parseInt(
+            numPr.children("w\\:ilvl").attr("w:val") ?? "0",
+            10,
+        );
+        const listLevels = numId ? ctx.numbering.get(numId) : undefined;
+
+        const inline = this.convertInline(ctx, p, []);
+        const blocks: DocxBlock[] = [];
+        if (isToggleOn(pPr.children("w\\:pageBreakBefore"))) {
+            blocks.push({ kind: "pageBreak" });
+        }
+
+        // A page break inside the paragraph ends it and starts a new one
+        const segments: TiptapNode[][] = [[]];
+        for (const node of inline) {
+            if (node.type === PAGE_BREAK) {
+                segments.push([]);
+            } else {
+                segments[segments.length - 1].push(node);
+            }
+        }
+
+        segments.forEach((segment, index) => {
+            if (index > 0) {
+                blocks.push({ kind: "pageBreak" });
+            }
+            const content = mergeTextNodes(segment);
+            if (segments.length > 1 && content.length === 0) {
+                return;
+            }
+
+            const text = plainText(content).trim();
+            const paragraph: TiptapNode = {
+                type: "paragraph",
+                ...(align ? { attrs: { textAlign: align } } : {}),
+                ...(content.length ? { content } : {}),
+            };
+
+            if (styleNames.includes("title")) {
+                blocks.push({ kind: "title", text });
+            } else if (headingLevel === 1) {
+                blocks.push({ kind: "chapterHeading", text });
+            } else if (headingLevel !== null) {
+                blocks.push({
+                    kind: "node",
+                    node: {
+                        type: "heading",
+                        attrs: {
+                            level: Math.min(headingLevel, 3),
+                            ...(align ? { textAlign: align } : {}),
+                        },
+                        ...(content.length ? { content } : {}),
+                    },
+                });
+            } else if (listLevels && numId !== "0") {
+                blocks.push({
+                    kind: "listItem",
+                    level: listLevel,
+                    ordered: listLevels.get(listLevel) ?? false,
+                    paragraph: content.length
+                        ? { type: "paragraph", content }
+                        : { type: "paragraph" },
+                });
+            } else if (
+                styleNames.includes("scene break") ||
+                SCENE_BREAK_TEXT.test(text)
+            ) {
+                blocks.push({ kind: "node", node: { type: "horizontalRule" } });
+            } else if (
+                styleNames.includes("quote") ||
+                styleNames.includes("intense quote")
+            ) {
+                blocks.push({
+                    kind: "node",
+                    node: { type: "blockquote", content: [paragraph] },
+                });
+            } else if (styleNames.includes("code block")) {
+                const code = plainText(content);
+                blocks.push({
+                    kind: "node",
+                    node: {
+                        type: "codeBlock",
+                        content: code ? [{ type: "text", text: code }] : [],
+                    },
+                });
+            } else {
+                blocks.push({ kind: "node", node: paragraph });
+            }
+        });
+
+        return blocks;
+    }
+
+    private convertInline(
+        ctx: DocxContext,
+        parent: XmlSelection,
+        marks: TiptapMark[],
+    ): TiptapNode[] {
+        const nodes: TiptapNode[] = [];
+
+        parent.children().each((_i, el) => {
+            const $el = ctx.$(el);
+            switch (el.tagName) {
+                case "w:r":
+                    nodes.push(...this.convertRun(ctx, $el, marks));
+                    break;
+
+                case "w:hyperlink": {
+                    const relationship = ctx.relationships.get(
+                        $el.attr("r:id") ?? "",
+                    );
+                    const linkMarks = relationship?.external
+                        ? [
+                              ...marks,
+                              {
+                                  type: "link",
+                                  attrs: { href: relationship.target },
+                              },
+                          ]
+                        : marks;
+                    nodes.push(...this.convertInline(ctx, $el, linkMarks));
+                    break;
+                }
+
+                // Accepted insertions, smart tags, fields and content controls
+                // only wrap ordinary runs
+                case "w:ins":
+                case "w:smartTag":
+                case "w:fldSimple":
+                case "w:customXml":
+                case "w:sdtContent":
+                    nodes.push(...this.convertInline(ctx, $el, marks));
+                    break;
+
+                case "w:sdt":
+                    nodes.push(
+                        ...this.convertInline(
+                            ctx,
+                            $el.children("w\\:sdtContent"),
+                            marks,
+                        ),
+                    );
+                    break;
+
+                default:
+                    // Deletions, bookmarks, proofing marks, paragraph props
+                    break;
+            }
+        });
+
+        return nodes;
+    }
+
+    private convertRun(
+        ctx: DocxContext,
+        run: XmlSelection,
+        inherited: TiptapMark[],
+    ): TiptapNode[] {
+        const rPr = run.children("w\\:rPr");
+        if (isToggleOn(rPr.children("w\\:vanish"))) {
+            return [];
+        }
+
+        const runStyles = styleChain(
+            ctx.styles,
+            rPr.children("w\\:rStyle").attr("w:val"),
+        );
+        const marks: TiptapMark[] = [...inherited];
+        const bold = rPr.children("w\\:b");
+        if (bold.length ? isToggleOn(bold) : runStyles.some((s) => s.bold)) {
+            marks.push({ type: "bold" });
+        }
+        const italic = rPr.children("w\\:i");
+        if (
+            italic.length ? isToggleOn(italic) : runStyles.some((s) => s.italic)
+        ) {
+            marks.push({ type: "italic" });
+        }
+        if (isToggleOn(rPr.children("w\\:u"))) {
+            marks.push({ type: "underline" });
+        }
+        if (
+            isToggleOn(rPr.children("w\\:strike")) ||
+            isToggleOn(rPr.children("w\\:dstrike"))
+        ) {
+            marks.push({ type: "strike" });
+        }
+        const color = rPr.children("w\\:color").attr("w:val");
+        if (color && /^[0-9a-f]{6}$/i.test(color) && color !== "000000") {
+            marks.push({ type: "textStyle", attrs: { color: `#${color}` } });
+        }
+
+        const nodes: TiptapNode[] = [];
+        run.children().each((_i, el) => {
+            const $el = ctx.$(el);
+            switch (el.tagName) {
+                case "w:t": {
+                    const text = $el.text();
+                    if (text) nodes.push(textNode(text, marks));
+                    break;
+                }
+                case "w:tab":
+                    nodes.push(textNode("\t", marks));
+                    break;
+                case "w:noBreakHyphen":
+                    nodes.push(textNode("-", marks));
+                    break;
+                case "w:br": {
+                    const type = $el.attr("w:type");
+                    if (type === "page") {
+                        nodes.push({ type: PAGE_BREAK });
+                    } else if (type !== "column") {
+                        nodes.push({ type: "hardBreak" });
+                    }
+                    break;
+                }
+                case "w:cr":
+                    nodes.push({ type: "hardBreak" });
+                    break;
+                case "w:drawing":
+                case "w:pict":
+                case "mc:AlternateContent": {
+                    const image = this.convertImage(ctx, $el);
+                    if (image) nodes.push(image);
+                    break;
+                }
+                default:
+                    break;
+            }
+        });
+
+        return nodes;
+    }
+
+    private convertImage(
+        ctx: DocxContext,
+        container: XmlSelection,
+    ): TiptapNode | null {
+        const relationshipId =
+            container.find("a\\:blip").first().attr("r:embed") ??
+            container.find("v\\:imagedata").first().attr("r:id");
+        const relationship = relationshipId
+            ? ctx.relationships.get(relationshipId)
+            : undefined;
+        if (!relationship || relationship.external) return null;
+
+        const partPath = resolvePartPath(relationship.target);
+        const mimeType = guessMimeType(partPath);
+        const file = ctx.zip.file(partPath);
+        // EMF/WMF and other formats the editor cannot display are skipped
+        if (!file || mimeType === "application/octet-stream") return null;
+
+        const imageId = generateId();
+        ctx.pendingImageLoads.push(
+            file.async("arraybuffer").then((data) => {
+                ctx.images.set(imageId, { id: imageId, data, mimeType });
+            }),
+        );
+
+        const docPr = container.find("wp\\:docPr").first();
+        const alt = docPr.attr("descr") || docPr.attr("title") || "";
+        return {
+            type: "image",
+            attrs: {
+                src: `__import_image__:${imageId}`,
+                alt: alt || null,
+                title: null,
+            },
+        };
+    }
+
+    private async readZipText(
+        zip: JSZip,
+        filePath: string,
+    ): Promise<string | null> {
+        const file = zip.file(filePath);
+        if (!file) return null;
+        return file.async("text");
+    }
+}
@@ -1,6 +1,5 @@
 import JSZip from "jszip";
 import * as cheerio from "cheerio";
-import type { Element as DomElement, Text as DomText } from "domhandler";
 import * as path from "path";
 
 import type {
@@ -9,22 +8,13 @@ import type {
     ParsedChapter,
     ParsedImage,
 } from "../../@core/domain/services/IEpubImportService";
-import { generateId } from "../../@core/application/utils/id";
-
-// ─── Tiptap JSON types (mirrors ExportService) ──────────────────────────────
-
-interface TiptapMark {
-    type: string;
-    attrs?: Record<string, unknown>;
-}
-
-interface TiptapNode {
-    type: string;
-    text?: string;
-    attrs?: Record<string, unknown>;
-    marks?: TiptapMark[];
-    content?: TiptapNode[];
-}
+import {
+    convertChildren,
+    guessMimeType,
+    nodeHasText,
+    wrapInlineInParagraph,
+    type TiptapNode,
+} from "./htmlToTiptap";
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
@@ -35,467 +25,6 @@ function resolveZipPath(base: string, relative: string): string {
     return path.posix.normalize(dir + relative);
 }
 
-/** Map common image file extensions to MIME types. */
-function guessMimeType(filename: string): string {
-    const ext = filename.split(".").pop()?.toLowerCase() ?? "";
-    const map: Record<string, string> = {
-        png: "image/png",
-        jpg: "image/jpeg",
-        jpeg: "image/jpeg",
-        gif: "image/gif",
-        svg: "image/svg+xml",
-        webp: "image/webp",
-    };
-    return map[ext] ?? "application/octet-stream";
-}
-
-/**
- * Normalize HTML text nodes so XHTML formatting whitespace does not turn into
- * visible editor content. Keeps semantic spacing between inline words.
- */
-function normalizeHtmlTextNode(rawText: string): string | null {
-    if (!rawText) return null;
-
-    // Preserve meaningful text while collapsing HTML-collapsible whitespace.
-    if (/[^\t\n\r\f ]/.test(rawText)) {
-        const normalized = rawText.replace(/[\t\n\r\f ]+/g, " ");
-        return normalized.length > 0 ? normalized : null;
-    }
-
-    // Ignore indentation/newline-only formatting nodes from pretty-printed XHTML.
-    if (/[\t\n\r\f]/.test(rawText)) {
-        return null;
-    }
-
-    // Preserve pure-space separators between adjacent inline nodes.
-    return " ";
-}
-
-// ─── HTML → Tiptap JSON converter ───────────────────────────────────────────
-
-type CheerioElement = DomElement;
-type CheerioAPI = cheerio.CheerioAPI;
-
-/**
- * Convert Cheerio child nodes into an array of Tiptap JSON nodes.
- * This is the inverse of ExportService.renderNode().
- */
-function convertChildren(
-    $: CheerioAPI,
-    parent: cheerio.Cheerio<CheerioElement>,
-    images: ParsedImage[],
-    zip: JSZip,
-    xhtmlPath: string,
-    pendingImageLoads: Promise<void>[],
-): TiptapNode[] {
-    const nodes: TiptapNode[] = [];
-
-    parent.contents().each((_i, el) => {
-        if (el.type === "text") {
-            const rawText = (el as DomText).data;
-            const text = normalizeHtmlTextNode(rawText);
-            if (text) {
-                nodes.push({ type: "text", text });
-            }
-            return;
-        }
-
-        if (el.type !== "tag") return;
-
-        const $el = $(el);
-        const tag = (el as DomElement).tagName?.toLowerCase();
-
-        switch (tag) {
-            case "p": {
-                const align = $el.css("text-align") || $el.attr("align");
-                const attrs: Record<string, unknown> = {};
-                if (align && align !== "left") {
-                    attrs.textAlign = align;
-                }
-                const content = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                nodes.push({
-                    type: "paragraph",
-                    ...(Object.keys(attrs).length ? { attrs } : {}),
-                    ...(content.length ? { content } : {}),
-                });
-                break;
-            }
-
-            case "h1":
-            case "h2":
-            case "h3":
-            case "h4":
-            case "h5":
-            case "h6": {
-                const level = parseInt(tag[1], 10);
-                const align = $el.css("text-align") || $el.attr("align");
-                const attrs: Record<string, unknown> = {
-                    level: Math.min(level, 3),
-                };
-                if (align && align !== "left") {
-                    attrs.textAlign = align;
-                }
-                const content = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                nodes.push({
-                    type: "heading",
-                    attrs,
-                    ...(content.length ? { content } : {}),
-                });
-                break;
-            }
-
-            case "ul": {
-                const content = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                if (content.length) {
-                    nodes.push({ type: "bulletList", content });
-                }
-                break;
-            }
-
-            case "ol": {
-                const start = parseInt($el.attr("start") ?? "1", 10);
-                const attrs: Record<string, unknown> = {};
-                if (start && start !== 1) attrs.start = start;
-                const content = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                if (content.length) {
-                    nodes.push({
-                        type: "orderedList",
-                        ...(Object.keys(attrs).length ? { attrs } : {}),
-                        content,
-                    });
-                }
-                break;
-            }
-
-            case "li": {
-                // Tiptap listItems must wrap content in a paragraph
-                const children = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                const wrapped = wrapInlineInParagraph(children);
-                nodes.push({ type: "listItem", content: wrapped });
-                break;
-            }
-
-            case "blockquote": {
-                const content = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                const wrapped = wrapInlineInParagraph(content);
-                nodes.push({ type: "blockquote", content: wrapped });
-                break;
-            }
-
-            case "pre": {
-                const codeEl = $el.find("code").first();
-                const text = codeEl.length ? codeEl.text() : $el.text();
-                const langClass = codeEl.attr("class") || "";
-                const langMatch = langClass.match(/language-(\S+)/);
-                const language = langMatch ? langMatch[1] : null;
-                nodes.push({
-                    type: "codeBlock",
-                    ...(language ? { attrs: { language } } : {}),
-                    content: text ? [{ type: "text", text }] : [],
-                });
-                break;
-            }
-
-            case "br":
-                nodes.push({ type: "hardBreak" });
-                break;
-
-            case "hr":
-                nodes.push({ type: "horizontalRule" });
-                break;
-
-            case "img": {
-                const src = $el.attr("src") || "";
-                const alt = $el.attr("alt") || "";
-                const title = $el.attr("title") || "";
-
-                if (src) {
-                    const imageId = generateId();
-                    const resolvedPath = resolveZipPath(xhtmlPath, src);
-
-                    // Queue async image extraction
-                    const loadPromise = (async () => {
-                        const file = zip.file(resolvedPath);
-                        if (file) {
-                            const data = await file.async("arraybuffer");
-                            images.push({
-                                id: imageId,
-                                data,
-                                mimeType: guessMimeType(resolvedPath),
-                            });
-                        }
-                    })();
-                    pendingImageLoads.push(loadPromise);
-
-                    nodes.push({
-                        type: "image",
-                        attrs: {
-                            src: `__import_image__:${imageId}`,
-                            alt: alt || null,
-                            title: title || null,
-                        },
-                    });
-                }
-                break;
-            }
-
-            // Inline formatting marks
-            case "strong":
-            case "b": {
-                const children = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                applyMarkToTextNodes(children, { type: "bold" });
-                nodes.push(...children);
-                break;
-            }
-
-            case "em":
-            case "i": {
-                const children = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                applyMarkToTextNodes(children, { type: "italic" });
-                nodes.push(...children);
-                break;
-            }
-
-            case "u": {
-                const children = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                applyMarkToTextNodes(children, { type: "underline" });
-                nodes.push(...children);
-                break;
-            }
-
-            case "s":
-            case "strike":
-            case "del": {
-                const children = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                applyMarkToTextNodes(children, { type: "strike" });
-                nodes.push(...children);
-                break;
-            }
-
-            case "code": {
-                const children = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                applyMarkToTextNodes(children, { type: "code" });
-                nodes.push(...children);
-                break;
-            }
-
-            case "a": {
-                const href = $el.attr("href") || "#";
-                const children = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                applyMarkToTextNodes(children, {
-                    type: "link",
-                    attrs: { href },
-                });
-                nodes.push(...children);
-                break;
-            }
-
-            case "span": {
-                const children = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                const color = $el.css("color");
-                const fontFamily = $el.css("font-family");
-                if (color || fontFamily) {
-                    const attrs: { color?: string; fontFamily?: string } = {};
-                    if (color) attrs.color = color;
-                    if (fontFamily) attrs.fontFamily = fontFamily;
-                    const mark: TiptapMark = {
-                        type: "textStyle",
-                        attrs,
-                    };
-                    applyMarkToTextNodes(children, mark);
-                }
-                nodes.push(...children);
-                break;
-            }
-
-            case "div":
-            case "section":
-            case "article":
-            case "main":
-            case "aside":
-            case "header":
-            case "footer":
-            case "nav":
-            case "figure":
-            case "figcaption": {
-                // Structural tags — descend into children
-                const content = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                nodes.push(...content);
-                break;
-            }
-
-            default: {
-                // Unknown element — try to extract content
-                const content = convertChildren(
-                    $,
-                    $el,
-                    images,
-                    zip,
-                    xhtmlPath,
-                    pendingImageLoads,
-                );
-                if (content.length) {
-                    nodes.push(...content);
-                }
-                break;
-            }
-        }
-    });
-
-    return nodes;
-}
-
-/** Apply a mark to all text nodes in a tree recursively. */
-function applyMarkToTextNodes(nodes: TiptapNode[], mark: TiptapMark): void {
-    for (const node of nodes) {
-        if (node.type === "text") {
-            if (!node.marks) node.marks = [];
-            node.marks.push(mark);
-        } else if (node.content) {
-            applyMarkToTextNodes(node.content, mark);
-        }
-    }
-}
-
-/**
- * Tiptap requires certain block nodes (listItem, blockquote) to contain
- * block-level children. If the children are all inline (text nodes),
- * wrap them in a paragraph.
- */
-function wrapInlineInParagraph(nodes: TiptapNode[]): TiptapNode[] {
-    if (nodes.length === 0) {
-        return [{ type: "paragraph" }];
-    }
-
-    const inlineTypes = new Set(["text", "hardBreak", "image"]);
-    const allInline = nodes.every((n) => inlineTypes.has(n.type));
-
-    if (allInline) {
-        return [{ type: "paragraph", content: nodes }];
-    }
-
-    // Mixed: group consecutive inline nodes into paragraphs
-    const result: TiptapNode[] = [];
-    let inlineBuf: TiptapNode[] = [];
-
-    const flushInline = () => {
-        if (inlineBuf.length) {
-            result.push({ type: "paragraph", content: inlineBuf });
-            inlineBuf = [];
-        }
-    };
-
-    for (const node of nodes) {
-        if (inlineTypes.has(node.type)) {
-            inlineBuf.push(node);
-        } else {
-            flushInline();
-            result.push(node);
-        }
-    }
-    flushInline();
-
-    return result;
-}
-
 // ─── EpubImportService ──────────────────────────────────────────────────────
 
 export class EpubImportService implements IEpubImportService {
@@ -651,8 +180,15 @@ export class EpubImportService implements IEpubImportService {
             $,
             body,
             images,
-            zip,
-            xhtmlPath,
+            async (src) => {
+                const resolvedPath = resolveZipPath(xhtmlPath, src);
+                const file = zip.file(resolvedPath);
+                if (!file) return null;
+                return {
+                    data: await file.async("arraybuffer"),
+                    mimeType: guessMimeType(resolvedPath),
+                };
+            },
             pendingImageLoads,
         );
 
@@ -687,11 +223,3 @@ export class EpubImportService implements IEpubImportService {
         return file.async("text");
     }
 }
-
-function nodeHasText(node: TiptapNode): boolean {
-    if (node.type === "text" && node.text?.trim()) return true;
-    if (node.content) {
-        return node.content.some(nodeHasText);
-    }
-    return false;
-}
@@ -0,0 +1,444 @@
+import { createHash } from "crypto";
+
+import type {
+    SearchIndexDocument,
+    SearchIndexHit,
+    SearchIndexQuery,
+    SearchIndexSnippet,
+} from "../../@core/domain/services/ISearchIndexService";
+
+/** A document's entry in the index, as it is persisted. */
+export type IndexedDocument = SearchIndexDocument & {
+    /** Hash of the kind, title and text, to tell whether a document changed. */
+    fingerprint: string;
+    /** Number of tokens in the text. */
+    length: number;
+    /** Token positions of every term in the text. */
+    postings: Record<string, number[]>;
+};
+
+type Token = { term: string; start: number; end: number };
+
+type QueryPart =
+    | { type: "term"; term: string; exact: boolean }
+    | { type: "phrase"; terms: string[] };
+
+type PartMatch = {
+    score: number;
+    occurrences: number;
+    /** First matching token position and how many tokens the match spans. */
+    position: number;
+    span: number;
+};
+
+// Words with inner apostrophes ("don't") stay whole
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHTS = [1, 0.5, 0.3];
+const MAX_EXPANSIONS = 50;
+const PHRASE_BOOST = 1.5;
+const TITLE_BOOST = 1.25;
+const DEFAULT_LIMIT = 50;
+const SNIPPET_CONTEXT = 32;
+
+/** Lower case, without accents, so "Café" and "cafe" are the same term. */
+export const normalizeTerm = (value: string): string =>
+    value
+        .normalize("NFKD")
+        .replace(/\p{M}/gu, "")
+        .toLowerCase()
+        .replace(/’/g, "'");
+
+const tokenize = (text: string): Token[] =>
+    Array.from(text.matchAll(TOKEN_PATTERN), (match) => {
+        const start = match.index ?? 0;
+        return {
+            term: normalizeTerm(match[0]),
+            start,
+            end: start + match[0].length,
+        };
+    });
+
+export const fingerprintDocument = (document: SearchIndexDocument): string =>
+    createHash("sha1")
+        .update(`${document.kind}\0${document.title}\0${document.text}`)
+        .digest("hex");
+
+export const createIndexedDocument = (
+    document: SearchIndexDocument,
+): IndexedDocument => {
+    const tokens = tokenize(document.text);
+    const postings: Record<string, number[]> = {};
+    tokens.forEach((token, position) => {
+        (postings[token.term] ??= []).push(position);
+    });
+
+    return {
+        kind: document.kind,
+        id: document.id,
+        title: document.title,
+        text: document.text,
+        fingerprint: fingerprintDocument(document),
+        length: tokens.length,
+        postings,
+    };
+};
+
+/**
+ * Quoted text and hyphenated words become phrases; every other word is a
+ * term. A quoted single word matches only itself.
+ */
+const parseQuery = (text: string): QueryPart[] => {
+    const parts: QueryPart[] = [];
+
+    for (const match of text.matchAll(/"([^"]*)"?|[^\s"]+/g)) {
+        const quoted = match[1] !== undefined;
+        const terms = tokenize(quoted ? match[1] : match[0]).map(
+            (token) => token.term,
+        );
+        if (terms.length === 1) {
+            parts.push({ type: "term", term: terms[0], exact: quoted });
+        } else if (terms.length > 1) {
+            parts.push({ type: "phrase", terms });
+        }
+    }
+
+    return parts;
+};
+
+/** Levenshtein distance, or `max + 1` once it is certain to exceed `max`. */
+const boundedEditDistance = (a: string, b: string, max: number): number => {
+    if (Math.abs(a.length - b.length) > max) {
+        return max + 1;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i += 1) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j += 1) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + cost,
+            );
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > max) {
+            return max + 1;
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+};
+
+const normalizeSnippetPart = (value: string): string =>
+    value.replace(/\s+/g, " ");
+
+const buildSnippet = (
+    source: string,
+    matchStart: number,
+    matchEnd: number,
+): SearchIndexSnippet => {
+    const start = Math.max(0, matchStart - SNIPPET_CONTEXT);
+    const end = Math.min(source.length, matchEnd + SNIPPET_CONTEXT);
+
+    return {
+        leadingEllipsis: start > 0,
+        before: normalizeSnippetPart(source.slice(start, matchStart)),
+        match: source.slice(matchStart, matchEnd),
+        after: normalizeSnippetPart(source.slice(matchEnd, end)),
+        trailingEllipsis: end < source.length,
+    };
+};
+
+/**
+ * In-memory inverted index: for every term, the documents containing it and
+ * the token positions where it occurs. Results are ranked with BM25.
+ */
+export class InvertedIndex {
+    private readonly documents = new Map<string, IndexedDocument>();
+    private readonly terms = new Map<string, Map<string, number[]>>();
+    /** Vocabulary in sorted order for prefix lookups; rebuilt on demand. */
+    private sortedTerms: string[] | null = null;
+    private totalLength = 0;
+
+    get(documentId: string): IndexedDocument | undefined {
+        return this.documents.get(documentId);
+    }
+
+    documentIds(): string[] {
+        return [...this.documents.keys()];
+    }
+
+    add(document: IndexedDocument): void {
+        this.remove(document.id);
+        this.documents.set(document.id, document);
+        this.totalLength += document.length;
+
+        for (const [term, positions] of Object.entries(document.postings)) {
+            let postings = this.terms.get(term);
+            if (!postings) {
+                postings = new Map();
+                this.terms.set(term, postings);
+                this.sortedTerms = null;
+            }
+            postings.set(document.id, positions);
+        }
+    }
+
+    remove(documentId: string): boolean {
+        const document = this.documents.get(documentId);
+        if (!document) {
+            return false;
+        }
+
+        this.documents.delete(documentId);
+        this.totalLength -= document.length;
+
+        for (const term of Object.keys(document.postings)) {
+            const postings = this.terms.get(term);
+            postings?.delete(documentId);
+            if (postings?.size === 0) {
+                this.terms.delete(term);
+                this.sortedTerms = null;
+            }
+        }
+        return true;
+    }
+
+    search(query: SearchIndexQuery): SearchIndexHit[] {
+        const parts = parseQuery(query.text);
+        if (parts.length === 0 || this.documents.size === 0) {
+            return [];
+        }
+
+        const kinds = query.kinds ? new Set(query.kinds) : null;
+        const partMatches = parts.map((part) =>
+            part.type === "term"
+                ? this.matchTerm(part.term, part.exact)
+                : this.matchPhrase(part.terms),
+        );
+
+        // Every word and phrase must match
+        const [first, ...rest] = [...partMatches].sort(
+            (a, b) => a.size - b.size,
+        );
+        const hits: SearchIndexHit[] = [];
+
+        for (const documentId of first.keys()) {
+            const document = this.documents.get(documentId);
+            if (
+                !document ||
+                (kinds && !kinds.has(document.kind)) ||
+                rest.some((matches) => !matches.has(documentId))
+            ) {
+                continue;
+            }
+
+            const matches = partMatches.map(
+                (partMatch) => partMatch.get(documentId) as PartMatch,
+            );
+            const earliest = matches.reduce((a, b) =>
+                b.position < a.position ? b : a,
+            );
+            const titleTerms = new Set(
+                tokenize(document.title).map((token) => token.term),
+            );
+            const inTitle = parts.some((part) =>
+                part.type === "term"
+                    ? titleTerms.has(part.term)
+                    : part.terms.every((term) => titleTerms.has(term)),
+            );
+            const score = matches.reduce((sum, match) => sum + match.score, 0);
+
+            hits.push({
+                kind: document.kind,
+                documentId,
+                title: document.title,
+                score: inTitle ? score * TITLE_BOOST : score,
+                occurrences: matches.reduce(
+                    (sum, match) => sum + match.occurrences,
+                    0,
+                ),
+                snippet: this.snippetAt(document, earliest),
+            });
+        }
+
+        return hits
+            .sort(
+                (a, b) =>
+                    b.score - a.score || a.title.localeCompare(b.title),
+            )
+            .slice(0, query.limit ?? DEFAULT_LIMIT);
+    }
+
+    /** Inverse document frequency, higher for rarer terms. */
+    private idf(documentFrequency: number): number {
+        const count = this.documents.size;
+        return Math.log(
+            1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5),
+        );
+    }
+
+    private termFrequencyScore(frequency: number, length: number): number {
+        const averageLength = this.totalLength / this.documents.size || 1;
+        return (
+            (frequency * (K1 + 1)) /
+            (frequency + K1 * (1 - B + (B * length) / averageLength))
+        );
+    }
+
+    /** Terms a query word matches, with how much a match counts. */
+    private expand(term: string, exact: boolean): Map<string, number> {
+        const expansions = new Map<string, number>();
+        if (this.terms.has(term)) {
+            expansions.set(term, 1);
+        }
+        if (exact) {
+            return expansions;
+        }
+
+        const vocabulary = (this.sortedTerms ??= [...this.terms.keys()].sort());
+
+        let low = 0;
+        let high = vocabulary.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (vocabulary[middle] < term) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        for (
+            let index = low;
+            index < vocabulary.length &&
+            vocabulary[index].startsWith(term) &&
+            expansions.size < MAX_EXPANSIONS;
+            index += 1
+        ) {
+            if (!expansions.has(vocabulary[index])) {
+                expansions.set(vocabulary[index], PREFIX_WEIGHT);
+            }
+        }
+
+        if (term.length >= 4) {
+            const maxDistance = term.length >= 8 ? 2 : 1;
+            for (const candidate of vocabulary) {
+                if (expansions.size >= MAX_EXPANSIONS) {
+                    break;
+                }
+                if (expansions.has(candidate)) {
+                    continue;
+                }
+                const distance = boundedEditDistance(
+                    term,
+                    candidate,
+                    maxDistance,
+                );
+                if (distance <= maxDistance) {
+                    expansions.set(candidate, FUZZY_WEIGHTS[distance]);
+                }
+            }
+        }
+
+        return expansions;
+    }
+
+    private matchTerm(term: string, exact: boolean): Map<string, PartMatch> {
+        const matches = new Map<string, PartMatch>();
+
+        for (const [candidate, weight] of this.expand(term, exact)) {
+            const postings = this.terms.get(candidate);
+            if (!postings) {
+                continue;
+            }
+
+            const idf = this.idf(postings.size);
+            for (const [documentId, positions] of postings) {
+                const length = this.documents.get(documentId)?.length ?? 0;
+                const score =
+                    weight *
+                    idf *
+                    this.termFrequencyScore(positions.length, length);
+                const previous = matches.get(documentId);
+
+                // The best expansion scores; all of them count as occurrences
+                matches.set(documentId, {
+                    score: Math.max(previous?.score ?? 0, score),
+                    occurrences:
+                        (previous?.occurrences ?? 0) + positions.length,
+                    position: Math.min(
+                        previous?.position ?? Infinity,
+                        positions[0],
+                    ),
+                    span: 1,
+                });
+            }
+        }
+
+        return matches;
+    }
+
+    private matchPhrase(terms: string[]): Map<string, PartMatch> {
+        const matches = new Map<string, PartMatch>();
+        const postings = terms.map((term) => this.terms.get(term));
+        if (postings.some((entry) => !entry)) {
+            return matches;
+        }
+
+        const [head, ...tail] = postings as Map<string, number[]>[];
+        const found = new Map<string, number[]>();
+        for (const [documentId, positions] of head) {
+            const following = tail.map(
+                (entry) => new Set(entry.get(documentId) ?? []),
+            );
+            const starts = positions.filter((position) =>
+                following.every((set, offset) =>
+                    set.has(position + offset + 1),
+                ),
+            );
+            if (starts.length > 0) {
+                found.set(documentId, starts);
+            }
+        }
+
+        const idf = this.idf(found.size);
+        for (const [documentId, starts] of found) {
+            const length = this.documents.get(documentId)?.length ?? 0;
+            matches.set(documentId, {
+                score:
+                    PHRASE_BOOST *
+                    terms.length *
+                    idf *
+                    this.termFrequencyScore(starts.length, length),
+                occurrences: starts.length,
+                position: starts[0],
+                span: terms.length,
+            });
+        }
+
+        return matches;
+    }
+
+    private snippetAt(
+        document: IndexedDocument,
+        match: PartMatch,
+    ): SearchIndexSnippet {
+        const tokens = tokenize(document.text);
+        const first = tokens[match.position];
+        const last = tokens[match.position + match.span - 1] ?? first;
+        if (!first) {
+            return buildSnippet(document.text, 0, 0);
+        }
+        return buildSnippet(document.text, first.start, last.end);
+    }
+}
@@ -262,29 +262,7 @@ export class LanguageToolService
         request: GrammarCheckRequest,
     ): Promise<LanguageToolResponse> {
         try {
-            const url = this.getApiUrl();
-            const body = new URLSearchParams({
-                text: request.text,
-                language: request.language,
-            });
-
-            const response = await fetch(url, {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/x-www-form-urlencoded",
-                    Accept: "application/json",
-                },
-                body: body.toString(),
-            });
-
-            if (!response.ok) {
-                throw new Error(
-                    `LanguageTool API error: ${response.status} ${response.statusText}`,
-                );
-            }
-
-            const data = (await response.json()) as LanguageToolResponse;
-            return data;
+            return await this.checkGrammarStrict(request);
         } catch (error) {
             logger.error("Grammar check failed", error);
 
@@ -299,6 +277,49 @@ export class LanguageToolService
         }
     }
 
+    /**
+     * Check text for grammar and spelling issues, throwing when the server
+     * is unavailable or the request fails.
+     */
+    async checkGrammarStrict(
+        request: GrammarCheckRequest,
+    ): Promise<LanguageToolResponse> {
+        const url = this.getApiUrl();
+        const body = new URLSearchParams({
+            text: request.text,
+            language: request.language,
+        });
+        if (request.level === "picky") {
+            body.set("level", "picky");
+        }
+        if (request.enabledCategories?.length) {
+            body.set("enabledCategories", request.enabledCategories.join(","));
+        }
+        if (request.disabledCategories?.length) {
+            body.set(
+                "disabledCategories",
+                request.disabledCategories.join(","),
+            );
+        }
+
+        const response = await fetch(url, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/x-www-form-urlencoded",
+                Accept: "application/json",
+            },
+            body: body.toString(),
+        });
+
+        if (!response.ok) {
+            throw new Error(
+                `LanguageTool API error: ${response.status} ${response.statusText}`,
+            );
+        }
+
+        return (await response.json()) as LanguageToolResponse;
+    }
+
     /**
      * Check if using local server
      */
@@ -0,0 +1,266 @@
+import MarkdownIt from "markdown-it";
+import * as cheerio from "cheerio";
+import * as fsPromises from "fs/promises";
+import type { Dirent } from "fs";
+import * as path from "path";
+
+import type {
+    ParsedEpub,
+    ParsedChapter,
+    ParsedImage,
+} from "../../@core/domain/services/IEpubImportService";
+import type { IMarkdownImportService } from "../../@core/domain/services/IMarkdownImportService";
+import {
+    convertChildren,
+    guessMimeType,
+    liftBlockImages,
+    wrapInlineInParagraph,
+    type TiptapNode,
+} from "./htmlToTiptap";
+import {
+    MARKDOWN_CHAPTERS_DIR,
+    MARKDOWN_INDEX_FILE,
+    buildMarkdownStructure,
+    parseFrontMatter,
+    type MarkdownStructureEntry,
+} from "../ai/export/markdownFormat";
+import type { ManuscriptStructure } from "../../@core/domain/entities/story/ManuscriptStructure";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+interface MarkdownChapterFile {
+    filePath: string;
+    sourceId?: string;
+    title?: string;
+}
+
+interface MarkdownIndex {
+    title: string;
+    files: MarkdownChapterFile[];
+    /** Only when the index records parts or scenes. */
+    structure?: ManuscriptStructure;
+}
+
+function asString(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+async function listMarkdownFiles(dir: string): Promise<string[]> {
+    const entries = await fsPromises
+        .readdir(dir, { withFileTypes: true })
+        .catch((): Dirent[] => []);
+    return entries
+        .filter(
+            (entry) => entry.isFile() && /\.(md|markdown)$/i.test(entry.name),
+        )
+        .map((entry) => entry.name)
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/**
+ * CommonMark with inline HTML (underline, spans, alignment wrappers). Line
+ * breaks are rendered without the trailing newline so the HTML converter does
+ * not turn them into leading spaces.
+ */
+function createMarkdownParser(): MarkdownIt {
+    const markdown = new MarkdownIt({ html: true });
+    markdown.renderer.rules.hardbreak = () => "<br>";
+    markdown.renderer.rules.softbreak = () => " ";
+    return markdown;
+}
+
+// ─── MarkdownImportService ──────────────────────────────────────────────────
+
+export class MarkdownImportService implements IMarkdownImportService {
+    private readonly markdown = createMarkdownParser();
+
+    async parseMarkdownProject(
+        directoryPath: string,
+        onProgress?: (percent: number) => void,
+    ): Promise<ParsedEpub> {
+        const report = (pct: number) => onProgress?.(Math.round(pct));
+
+        // 1. Accept either the folder itself or its index.md
+        const stat = await fsPromises.stat(directoryPath);
+        const rootDir = stat.isDirectory()
+            ? directoryPath
+            : path.dirname(directoryPath);
+        report(5);
+
+        // 2. Work out title and chapter order from index.md, else file names
+        const { title, files, structure } = await this.readIndex(rootDir);
+        if (files.length === 0) {
+            throw new Error(
+                "No Markdown chapters found in the selected folder.",
+            );
+        }
+        report(10);
+
+        // 3. Convert each chapter
+        const chapters: ParsedChapter[] = [];
+        for (let i = 0; i < files.length; i++) {
+            chapters.push(await this.parseChapterFile(files[i], i + 1));
+
+            // Progress: 10% – 95% across chapters
+            report(10 + ((i + 1) / files.length) * 85);
+        }
+
+        report(100);
+
+        return { title, coverImage: null, chapters, structure };
+    }
+
+    private async readIndex(rootDir: string): Promise<MarkdownIndex> {
+        const fallbackTitle = path.basename(rootDir) || "Imported Project";
+        const indexPath = path.join(rootDir, MARKDOWN_INDEX_FILE);
+        const indexText = await fsPromises
+            .readFile(indexPath, "utf-8")
+            .catch((): null => null);
+
+        if (indexText !== null) {
+            const { data } = parseFrontMatter(indexText);
+            const listed = Array.isArray(data.chapters) ? data.chapters : [];
+            const files = listed
+                .filter((entry) => asString(entry.file))
+                .map((entry) => ({
+                    filePath: path.resolve(rootDir, String(entry.file)),
+                    sourceId: asString(entry.id),
+                    title: asString(entry.title),
+                }));
+
+            if (files.length > 0) {
+                return {
+                    title: asString(data.title) ?? fallbackTitle,
+                    files,
+                    structure: this.readStructure(listed, data.parts),
+                };
+            }
+        }
+
+        // No usable index – take every .md in chapters/ (or the folder itself)
+        const chaptersDir = path.join(rootDir, MARKDOWN_CHAPTERS_DIR);
+        const inChaptersDir = await listMarkdownFiles(chaptersDir);
+        const sourceDir = inChaptersDir.length > 0 ? chaptersDir : rootDir;
+        const names =
+            inChaptersDir.length > 0
+                ? inChaptersDir
+                : (await listMarkdownFiles(rootDir)).filter(
+                      (name) =>
+                          name.toLowerCase() !== MARKDOWN_INDEX_FILE &&
+                          name.toLowerCase() !== "readme.md",
+                  );
+
+        return {
+            title: fallbackTitle,
+            files: names.map((name) => ({
+                filePath: path.join(sourceDir, name),
+            })),
+        };
+    }
+
+    /** The parts and scenes recorded in the index, if it has any. */
+    private readStructure(
+        listed: Record<string, unknown>[],
+        parts: unknown,
+    ): ManuscriptStructure | undefined {
+        const entries: MarkdownStructureEntry[] = listed.flatMap((entry) => {
+            const id = asString(entry.id);
+            return id && asString(entry.file)
+                ? [
+                      {
+                          id,
+                          parent: asString(entry.parent),
+                          part: asString(entry.part),
+                      },
+                  ]
+                : [];
+        });
+        if (!entries.some((entry) => entry.parent || entry.part)) {
+            return undefined;
+        }
+
+        const listedParts = (Array.isArray(parts) ? parts : []).flatMap(
+            (part: Record<string, unknown>) => {
+                const id = asString(part.id);
+                return id
+                    ? [{ id, title: asString(part.title) ?? "" }]
+                    : [];
+            },
+        );
+        return buildMarkdownStructure(entries, listedParts);
+    }
+
+    private async parseChapterFile(
+        file: MarkdownChapterFile,
+        fallbackIndex: number,
+    ): Promise<ParsedChapter> {
+        const text = await fsPromises.readFile(file.filePath, "utf-8");
+        const { data, body } = parseFrontMatter(text);
+
+        const html = this.markdown.render(body);
+        const $ = cheerio.load(html, { xml: false });
+
+        // Files without front matter: a leading "# Title" is the chapter title
+        let chapterTitle = asString(data.title) ?? file.title;
+        if (!chapterTitle) {
+            const firstHeading = $("body").children().first();
+            if (firstHeading.is("h1")) {
+                chapterTitle = firstHeading.text().trim();
+                firstHeading.remove();
+            }
+        }
+        if (!chapterTitle) {
+            chapterTitle =
+                path
+                    .basename(file.filePath)
+                    .replace(/\.(md|markdown)$/i, "")
+                    .replace(/^\d+-/, "") || `Chapter ${fallbackIndex}`;
+        }
+
+        const images: ParsedImage[] = [];
+        const pendingImageLoads: Promise<void>[] = [];
+        const chapterDir = path.dirname(file.filePath);
+
+        const content = convertChildren(
+            $,
+            $("body"),
+            images,
+            async (src) => {
+                const resolvedPath = path.resolve(
+                    chapterDir,
+                    decodeURI(src.replace(/^file:\/\//i, "")),
+                );
+                const data = await fsPromises
+                    .readFile(resolvedPath)
+                    .catch((): null => null);
+                if (!data) return null;
+                return {
+                    data: data.buffer.slice(
+                        data.byteOffset,
+                        data.byteOffset + data.byteLength,
+                    ) as ArrayBuffer,
+                    mimeType: guessMimeType(resolvedPath),
+                };
+            },
+            pendingImageLoads,
+        );
+
+        // Wait for all image reads to complete
+        await Promise.all(pendingImageLoads);
+
+        const blockContent = liftBlockImages(wrapInlineInParagraph(content));
+        const doc: TiptapNode = {
+            type: "doc",
+            content: blockContent.length
+                ? blockContent
+                : [{ type: "paragraph" }],
+        };
+
+        return {
+            title: chapterTitle,
+            sourceId: asString(data.id) ?? file.sourceId,
+            content: doc,
+            images,
+        };
+    }
+}
@@ -0,0 +1,465 @@
+import JSZip from "jszip";
+import * as fsPromises from "fs/promises";
+
+import type {
+    ArchivedAsset,
+    ArchivedConversation,
+    IProjectArchiveService,
+    ProjectArchive,
+} from "../../@core/domain/services/IProjectArchiveService";
+import { Project } from "../../@core/domain/entities/story/Project";
+import { Chapter } from "../../@core/domain/entities/story/Chapter";
+import { ScrapNote } from "../../@core/domain/entities/story/ScrapNote";
+import { Character } from "../../@core/domain/entities/story/world/Character";
+import { Location } from "../../@core/domain/entities/story/world/Location";
+import { Organization } from "../../@core/domain/entities/story/world/Organization";
+import { Image } from "../../@core/domain/entities/story/world/Image";
+import { BGM } from "../../@core/domain/entities/story/world/BGM";
+import { Playlist } from "../../@core/domain/entities/story/world/Playlist";
+import { MetafieldDefinition } from "../../@core/domain/entities/story/world/MetafieldDefinition";
+import { MetafieldAssignment } from "../../@core/domain/entities/story/world/MetafieldAssignment";
+import { EditorTemplate } from "../../@core/domain/entities/story/world/EditorTemplate";
+import { CommentThread } from "../../@core/domain/entities/story/CommentThread";
+import { Timeline } from "../../@core/domain/entities/story/timeline/Timeline";
+import { Event } from "../../@core/domain/entities/story/timeline/Event";
+import { ChatConversation } from "../../@core/domain/entities/story/chat/ChatConversation";
+import { ChatMessage } from "../../@core/domain/entities/story/chat/ChatMessage";
+import {
+    readAssetBytes,
+    sniffImageExtension,
+} from "../ai/export/exportImages";
+
+// ─── Archive layout ──────────────────────────────────────────────────────────
+
+const ARCHIVE_FORMAT = "inkline-project";
+const ARCHIVE_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+const ASSETS_DIR = "assets";
+
+/** One JSON file per collection, next to the manifest. */
+const COLLECTION_FILES = {
+    project: "project.json",
+    chapters: "chapters.json",
+    scrapNotes: "scrap-notes.json",
+    characters: "characters.json",
+    locations: "locations.json",
+    organizations: "organizations.json",
+    timelines: "timelines.json",
+    events: "events.json",
+    metafieldDefinitions: "metafield-definitions.json",
+    metafieldAssignments: "metafield-assignments.json",
+    editorTemplates: "editor-templates.json",
+    commentThreads: "comment-threads.json",
+    images: "images.json",
+    bgms: "bgms.json",
+    playlists: "playlists.json",
+    conversations: "chat.json",
+} satisfies Record<keyof ProjectArchive, string>;
+
+interface ArchiveManifest {
+    format: string;
+    version: number;
+    exportedAt: string;
+    title: string;
+    /** Maps each bundled asset's original URL to its file in the archive. */
+    assets: { url: string; file: string }[];
+}
+
+/** Entities as they come back from JSON: dates are ISO strings. */
+type Stored<T> = {
+    [K in keyof T]: T[K] extends Date
+        ? string
+        : T[K] extends Date | null
+          ? string | null
+          : T[K];
+};
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+const toDate = (value: string | null | undefined): Date => {
+    const date = value ? new Date(value) : new Date();
+    return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+const toArrayBuffer = (data: Buffer): ArrayBuffer =>
+    data.buffer.slice(
+        data.byteOffset,
+        data.byteOffset + data.byteLength,
+    ) as ArrayBuffer;
+
+/** Extension from the URL path, falling back to the file's magic bytes. */
+function assetExtension(url: string, data: Buffer): string {
+    const pathname = url.split(/[?#]/)[0];
+    const match = pathname.match(/\.([a-z0-9]{1,5})$/i);
+    return match ? match[1].toLowerCase() : sniffImageExtension(data);
+}
+
+async function readCollection<T>(zip: JSZip, fileName: string): Promise<T[]> {
+    const file = zip.file(fileName);
+    if (!file) {
+        return [];
+    }
+    const parsed = JSON.parse(await file.async("string")) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+}
+
+// ─── Hydration ───────────────────────────────────────────────────────────────
+
+const hydrate = {
+    project: (p: Stored<Project>) =>
+        new Project(
+            p.id,
+            p.title,
+            p.coverImageId ?? null,
+            p.chapterIds ?? [],
+            p.characterIds ?? [],
+            p.locationIds ?? [],
+            p.scrapNoteIds ?? [],
+            p.organizationIds ?? [],
+            p.timelineIds ?? [],
+            p.exportSettings ?? null,
+            p.writingGoals ?? null,
+            p.manuscriptStructure ?? null,
+            p.dictionary ?? null,
+            p.grammarSettings ?? null,
+            toDate(p.createdAt),
+            toDate(p.updatedAt),
+        ),
+    chapter: (c: Stored<Chapter>) =>
+        new Chapter(
+            c.id,
+            c.title,
+            c.order,
+            c.content,
+            c.eventId ?? null,
+            c.status ?? "draft",
+            c.povCharacterId ?? null,
+            c.synopsis ?? "",
+            c.labels ?? [],
+            c.tags ?? [],
+            toDate(c.createdAt),
+            toDate(c.updatedAt),
+        ),
+    scrapNote: (n: Stored<ScrapNote>) =>
+        new ScrapNote(
+            n.id,
+            n.title,
+            n.content,
+            Boolean(n.isPinned),
+            n.eventId ?? null,
+            toDate(n.createdAt),
+            toDate(n.updatedAt),
+        ),
+    character: (c: Stored<Character>) =>
+        new Character(
+            c.id,
+            c.name,
+            c.description,
+            c.aliases ?? [],
+            c.currentLocationId ?? null,
+            c.backgroundLocationId ?? null,
+            c.organizationId ?? null,
+            c.bgmId ?? null,
+            c.playlistId ?? null,
+            c.galleryImageIds ?? [],
+            toDate(c.createdAt),
+            toDate(c.updatedAt),
+        ),
+    location: (l: Stored<Location>) =>
+        new Location(
+            l.id,
+            l.name,
+            l.description,
+            l.aliases ?? [],
+            toDate(l.createdAt),
+            toDate(l.updatedAt),
+            l.bgmId ?? null,
+            l.playlistId ?? null,
+            l.galleryImageIds ?? [],
+            l.sublocationIds ?? [],
+            l.characterIds ?? [],
+            l.organizationIds ?? [],
+        ),
+    organization: (o: Stored<Organization>) =>
+        new Organization(
+            o.id,
+            o.name,
+            o.description,
+            o.aliases ?? [],
+            o.locationIds ?? [],
+            o.galleryImageIds ?? [],
+            o.playlistId ?? null,
+            o.bgmId ?? null,
+            toDate(o.createdAt),
+            toDate(o.updatedAt),
+        ),
+    timeline: (t: Stored<Timeline>) =>
+        new Timeline(
+            t.id,
+            t.projectId,
+            t.name,
+            t.description,
+            t.timeUnit,
+            t.startValue,
+            t.eventIds ?? [],
+            toDate(t.createdAt),
+            toDate(t.updatedAt),
+        ),
+    event: (e: Stored<Event>) =>
+        new Event(
+            e.id,
+            e.timelineId,
+            e.title,
+            e.description,
+            e.time,
+            e.year,
+            e.month ?? null,
+            e.day ?? null,
+            e.type,
+            e.associatedId ?? null,
+            e.characterIds ?? [],
+            e.locationIds ?? [],
+            e.organizationIds ?? [],
+            toDate(e.createdAt),
+            toDate(e.updatedAt),
+        ),
+    metafieldDefinition: (d: Stored<MetafieldDefinition>) =>
+        new MetafieldDefinition(
+            d.id,
+            d.projectId,
+            d.name,
+            d.nameNormalized,
+            d.scope,
+            d.valueType,
+            d.targetEntityKind ?? null,
+            (d.selectOptions ?? []).map((option) => ({
+                ...option,
+                createdAt: toDate(option.createdAt as unknown as string),
+                updatedAt: toDate(option.updatedAt as unknown as string),
+            })),
+            toDate(d.createdAt),
+            toDate(d.updatedAt),
+        ),
+    metafieldAssignment: (a: Stored<MetafieldAssignment>) =>
+        new MetafieldAssignment(
+            a.id,
+            a.projectId,
+            a.definitionId,
+            a.entityType,
+            a.entityId,
+            a.valueJson ?? null,
+            a.orderIndex ?? 0,
+            toDate(a.createdAt),
+            toDate(a.updatedAt),
+        ),
+    editorTemplate: (t: Stored<EditorTemplate>) =>
+        new EditorTemplate(
+            t.id,
+            t.projectId,
+            t.editorType,
+            t.placement ?? { left: [], right: [] },
+            t.fields ?? [],
+            toDate(t.createdAt),
+            toDate(t.updatedAt),
+        ),
+    commentThread: (t: Stored<CommentThread>) =>
+        new CommentThread(
+            t.id,
+            t.projectId,
+            t.chapterId,
+            t.excerpt ?? "",
+            t.isChapterLevel ?? false,
+            t.resolved ?? false,
+            (t.messages ?? []).map((message) => ({
+                ...message,
+                createdAt: toDate(message.createdAt as unknown as string),
+                updatedAt: toDate(message.updatedAt as unknown as string),
+            })),
+            toDate(t.createdAt),
+            toDate(t.updatedAt),
+        ),
+    image: (i: Stored<Image>) =>
+        new Image(
+            i.id,
+            i.url,
+            i.storagePath,
+            toDate(i.createdAt),
+            toDate(i.updatedAt),
+        ),
+    bgm: (b: Stored<BGM>) =>
+        new BGM(
+            b.id,
+            b.title,
+            b.artist,
+            b.url,
+            b.storagePath,
+            toDate(b.createdAt),
+            toDate(b.updatedAt),
+        ),
+    playlist: (p: Stored<Playlist>) =>
+        new Playlist(
+            p.id,
+            p.name,
+            p.description,
+            p.tracks ?? [],
+            p.url,
+            p.storagePath,
+            toDate(p.createdAt),
+            toDate(p.updatedAt),
+        ),
+    conversation: (c: {
+        conversation: Stored<ChatConversation>;
+        messages: Stored<ChatMessage>[];
+    }): ArchivedConversation => ({
+        conversation: new ChatConversation(
+            c.conversation.id,
+            c.conversation.title ?? null,
+            toDate(c.conversation.createdAt),
+            toDate(c.conversation.updatedAt),
+        ),
+        messages: (c.messages ?? []).map(
+            (m) =>
+                new ChatMessage(
+                    c.conversation.id,
+                    m.role,
+                    m.content,
+                    toDate(m.createdAt),
+                ),
+        ),
+    }),
+};
+
+// ─── ProjectArchiveService ───────────────────────────────────────────────────
+
+export class ProjectArchiveService implements IProjectArchiveService {
+    async writeArchive(
+        archive: ProjectArchive,
+        assetUrls: string[],
+        destinationPath: string,
+    ): Promise<void> {
+        const zip = new JSZip();
+
+        const manifest: ArchiveManifest = {
+            format: ARCHIVE_FORMAT,
+            version: ARCHIVE_VERSION,
+            exportedAt: new Date().toISOString(),
+            title: archive.project.title,
+            assets: [],
+        };
+
+        for (const url of new Set(assetUrls)) {
+            const data = await readAssetBytes(url);
+            if (!data) {
+                continue;
+            }
+            const file = `${ASSETS_DIR}/${manifest.assets.length + 1}.${assetExtension(url, data)}`;
+            zip.file(file, data);
+            manifest.assets.push({ url, file });
+        }
+
+        zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+        (Object.keys(COLLECTION_FILES) as (keyof ProjectArchive)[]).forEach(
+            (key) => {
+                zip.file(COLLECTION_FILES[key], JSON.stringify(archive[key]));
+            },
+        );
+
+        const buffer = await zip.generateAsync({
+            type: "nodebuffer",
+            compression: "DEFLATE",
+        });
+        await fsPromises.writeFile(destinationPath, buffer);
+    }
+
+    async readArchive(
+        filePath: string,
+    ): Promise<{ archive: ProjectArchive; assets: ArchivedAsset[] }> {
+        const fileBuffer = await fsPromises.readFile(filePath);
+        const zip = await JSZip.loadAsync(fileBuffer).catch((): null => null);
+
+        const manifestFile = zip?.file(MANIFEST_FILE);
+        const projectFile = zip?.file(COLLECTION_FILES.project);
+        if (!zip || !manifestFile || !projectFile) {
+            throw new Error("Not an Inkline project archive.");
+        }
+
+        const manifest = JSON.parse(
+            await manifestFile.async("string"),
+        ) as ArchiveManifest;
+        if (manifest.format !== ARCHIVE_FORMAT) {
+            throw new Error("Not an Inkline project archive.");
+        }
+        if (manifest.version > ARCHIVE_VERSION) {
+            throw new Error(
+                "This archive was created by a newer version of Inkline. Please update the app to open it.",
+            );
+        }
+
+        const read = <T>(key: keyof ProjectArchive) =>
+            readCollection<T>(zip, COLLECTION_FILES[key]);
+
+        const archive: ProjectArchive = {
+            project: hydrate.project(
+                JSON.parse(await projectFile.async("string")),
+            ),
+            chapters: (await read<Stored<Chapter>>("chapters")).map(
+                hydrate.chapter,
+            ),
+            scrapNotes: (await read<Stored<ScrapNote>>("scrapNotes")).map(
+                hydrate.scrapNote,
+            ),
+            characters: (await read<Stored<Character>>("characters")).map(
+                hydrate.character,
+            ),
+            locations: (await read<Stored<Location>>("locations")).map(
+                hydrate.location,
+            ),
+            organizations: (
+                await read<Stored<Organization>>("organizations")
+            ).map(hydrate.organization),
+            timelines: (await read<Stored<Timeline>>("timelines")).map(
+                hydrate.timeline,
+            ),
+            events: (await read<Stored<Event>>("events")).map(hydrate.event),
+            metafieldDefinitions: (
+                await read<Stored<MetafieldDefinition>>("metafieldDefinitions")
+            ).map(hydrate.metafieldDefinition),
+            metafieldAssignments: (
+                await read<Stored<MetafieldAssignment>>("metafieldAssignments")
+            ).map(hydrate.metafieldAssignment),
+            editorTemplates: (
+                await read<Stored<EditorTemplate>>("editorTemplates")
+            ).map(hydrate.editorTemplate),
+            commentThreads: (
+                await read<Stored<CommentThread>>("commentThreads")
+            ).map(hydrate.commentThread),
+            images: (await read<Stored<Image>>("images")).map(hydrate.image),
+            bgms: (await read<Stored<BGM>>("bgms")).map(hydrate.bgm),
+            playlists: (await read<Stored<Playlist>>("playlists")).map(
+                hydrate.playlist,
+            ),
+            conversations: (
+                await read<Parameters<typeof hydrate.conversation>[0]>(
+                    "conversations",
+                )
+            ).map(hydrate.conversation),
+        };
+
+        const assets: ArchivedAsset[] = [];
+        for (const entry of manifest.assets ?? []) {
+            const file = zip.file(entry.file);
+            if (!file) {
+                continue;
+            }
+            const data = await file.async("nodebuffer");
+            assets.push({
+                url: entry.url,
+                data: toArrayBuffer(data),
+                extension: entry.file.split(".").pop() ?? "bin",
+            });
+        }
+
+        return { archive, assets };
+    }
+}
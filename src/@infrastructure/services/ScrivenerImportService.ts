@@ -0,0 +1,399 @@
+import * as cheerio from "cheerio";
+import type { Element as DomElement } from "domhandler";
+import * as fsPromises from "fs/promises";
+import * as path from "path";
+
+import type {
+    ParsedEpub,
+    ParsedChapter,
+    ParsedImage,
+    ParsedScrapNote,
+} from "../../@core/domain/services/IEpubImportService";
+import type { IScrivenerImportService } from "../../@core/domain/services/IScrivenerImportService";
+import { generateId } from "../../@core/application/utils/id";
+import { guessMimeType, type TiptapNode } from "./htmlToTiptap";
+import { convertRtf } from "./rtfToTiptap";
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+interface ScrivenerBinderItem {
+    /** UUID in Scrivener 3, numeric ID in Scrivener 2. */
+    id: string;
+    type: string;
+    title: string;
+    /** Scrivener 1 kept synopses in the .scrivx itself. */
+    inlineSynopsis: string;
+    children: ScrivenerBinderItem[];
+}
+
+interface ScrivenerDocument {
+    content: TiptapNode[];
+    synopsis: string;
+    notes: TiptapNode[];
+    images: ParsedImage[];
+    /** Pictures embedded in the notes rather than the text. */
+    noteImages: ParsedImage[];
+}
+
+const FOLDER_TYPES = new Set([
+    "DraftFolder",
+    "ResearchFolder",
+    "TrashFolder",
+    "Folder",
+]);
+
+const IMAGE_EXTENSIONS = new Set(["png", "jpg", "jpeg", "gif"]);
+
+function isFolder(item: ScrivenerBinderItem): boolean {
+    return FOLDER_TYPES.has(item.type);
+}
+
+function readBinderItems(
+    $: cheerio.CheerioAPI,
+    parent: cheerio.Cheerio<DomElement>,
+): ScrivenerBinderItem[] {
+    return parent
+        .children("BinderItem")
+        .toArray()
+        .map((el) => {
+            const $el = $(el);
+            return {
+                id: $el.attr("UUID") ?? $el.attr("ID") ?? "",
+                type: $el.attr("Type") ?? "Text",
+                title: $el.children("Title").first().text().trim(),
+                inlineSynopsis: $el.children("Synopsis").first().text().trim(),
+                children: readBinderItems($, $el.children("Children")),
+            };
+        });
+}
+
+/** The item followed by all of its descendants, in binder order. */
+function flattenBinder(item: ScrivenerBinderItem): ScrivenerBinderItem[] {
+    return [item, ...item.children.flatMap(flattenBinder)];
+}
+
+async function readOptionalText(filePath: string): Promise<string | null> {
+    return fsPromises.readFile(filePath, "utf-8").catch((): null => null);
+}
+
+function synopsisBlocks(synopsis: string): TiptapNode[] {
+    return synopsis
+        .split(/\n+/)
+        .map((line) => line.trim())
+        .filter(Boolean)
+        .map((line) => ({
+            type: "paragraph",
+            content: [{ type: "text", text: line, marks: [{ type: "italic" }] }],
+        }));
+}
+
+function hasDocumentText(document: ScrivenerDocument): boolean {
+    return (
+        document.content.length > 0 ||
+        document.synopsis.length > 0 ||
+        document.notes.length > 0
+    );
+}
+
+// ─── ScrivenerImportService ─────────────────────────────────────────────────
+
+export class ScrivenerImportService implements IScrivenerImportService {
+    async parseScrivenerProject(
+        projectPath: string,
+        onProgress?: (percent: number) => void,
+    ): Promise<ParsedEpub> {
+        const report = (pct: number) => onProgress?.(Math.round(pct));
+
+        // 1. Find the package folder and its .scrivx binder file
+        const { packageDir, scrivxPath } = await this.locateProject(
+            projectPath,
+        );
+        const scrivx = await fsPromises.readFile(scrivxPath, "utf-8");
+        report(5);
+
+        // 2. Read the binder
+        const $ = cheerio.load(scrivx, { xml: true });
+        const binder = readBinderItems(
+            $,
+            $("ScrivenerProject > Binder").first(),
+        );
+        const title =
+            path.basename(scrivxPath).replace(/\.scrivx$/i, "") ||
+            "Imported Project";
+
+        const draft = binder.find((item) => item.type === "DraftFolder");
+        const supporting = binder.filter(
+            (item) => item.type !== "DraftFolder" && item.type !== "TrashFolder",
+        );
+        report(10);
+
+        // 3. Convert documents; progress 10% – 95% across binder items
+        const total = Math.max(
+            1,
+            [...(draft?.children ?? []), ...supporting].flatMap(flattenBinder)
+                .length,
+        );
+        let processed = 0;
+        const readDocument = async (item: ScrivenerBinderItem) => {
+            const document = await this.readDocument(packageDir, item);
+            processed++;
+            report(10 + (processed / total) * 85);
+            return document;
+        };
+
+        const chapters: ParsedChapter[] = [];
+        const scrapNotes: ParsedScrapNote[] = [];
+        if (draft) {
+            await this.collectChapters(
+                draft.children,
+                readDocument,
+                chapters,
+                scrapNotes,
+            );
+        }
+
+        for (const item of supporting) {
+            for (const entry of flattenBinder(item)) {
+                const document = await readDocument(entry);
+                if (!hasDocumentText(document)) continue;
+
+                const content = [
+                    ...synopsisBlocks(document.synopsis),
+                    ...document.content,
+                    ...this.notesSection(document.notes),
+                ];
+                scrapNotes.push({
+                    title: entry.title || "Untitled",
+                    content: { type: "doc", content },
+                    images: [...document.images, ...document.noteImages],
+                });
+            }
+        }
+
+        if (chapters.length === 0 && scrapNotes.length === 0) {
+            throw new Error(
+                "No importable documents found in the Scrivener project.",
+            );
+        }
+
+        report(100);
+
+        return { title, coverImage: null, chapters, scrapNotes };
+    }
+
+    /**
+     * Each top-level Draft item is a chapter, with the text of everything
+     * nested under it appended as scenes. Folders that contain folders are
+     * parts: their sub-folders become chapters instead.
+     */
+    private async collectChapters(
+        items: ScrivenerBinderItem[],
+        readDocument: (item: ScrivenerBinderItem) => Promise<ScrivenerDocument>,
+        chapters: ParsedChapter[],
+        scrapNotes: ParsedScrapNote[],
+    ): Promise<void> {
+        for (const item of items) {
+            const isPart = isFolder(item) && item.children.some(isFolder);
+            const members = isPart ? [item] : flattenBinder(item);
+
+            const documents: {
+                item: ScrivenerBinderItem;
+                document: ScrivenerDocument;
+            }[] = [];
+            for (const member of members) {
+                documents.push({
+                    item: member,
+                    document: await readDocument(member),
+                });
+            }
+
+            const title = item.title || `Chapter ${chapters.length + 1}`;
+            if (!isPart || hasDocumentText(documents[0].document)) {
+                // Scenes are separated the way Scrivener compiles them
+                const content: TiptapNode[] = [];
+                for (const { document } of documents) {
+                    if (!document.content.length) continue;
+                    if (content.length) {
+                        content.push({ type: "horizontalRule" });
+                    }
+                    content.push(...document.content);
+                }
+
+                chapters.push({
+                    title,
+                    content: {
+                        type: "doc",
+                        content: content.length
+                            ? content
+                            : [{ type: "paragraph" }],
+                    },
+                    images: documents.flatMap(({ document }) => document.images),
+                    // The chapter's synopsis, then its scenes', as on the
+                    // Scrivener corkboard
+                    synopsis: documents
+                        .map(({ document }) => document.synopsis)
+                        .filter(Boolean)
+                        .join("\n\n"),
+                });
+
+                // Notes live outside the prose
+                const notes = documents.flatMap(({ item: member, document }) =>
+                    document.notes.length
+                        ? [
+                              {
+                                  type: "heading",
+                                  attrs: { level: 2 },
+                                  content: [
+                                      {
+                                          type: "text",
+                                          text: member.title || "Untitled",
+                                      },
+                                  ],
+                              },
+                              ...document.notes,
+                          ]
+                        : [],
+                );
+                if (notes.length) {
+                    scrapNotes.push({
+                        title: `${title} – Notes`,
+                        content: { type: "doc", content: notes },
+                        images: documents.flatMap(
+                            ({ document }) => document.noteImages,
+                        ),
+                    });
+                }
+            }
+
+            if (isPart) {
+                await this.collectChapters(
+                    item.children,
+                    readDocument,
+                    chapters,
+                    scrapNotes,
+                );
+            }
+        }
+    }
+
+    private notesSection(notes: TiptapNode[]): TiptapNode[] {
+        if (!notes.length) return [];
+        return [
+            {
+                type: "heading",
+                attrs: { level: 3 },
+                content: [{ type: "text", text: "Notes" }],
+            },
+            ...notes,
+        ];
+    }
+
+    private async locateProject(
+        projectPath: string,
+    ): Promise<{ packageDir: string; scrivxPath: string }> {
+        if (/\.scrivx$/i.test(projectPath)) {
+            return {
+                packageDir: path.dirname(projectPath),
+                scrivxPath: projectPath,
+            };
+        }
+
+        const names = await fsPromises
+            .readdir(projectPath)
+            .catch((): string[] => []);
+        const scrivx = names.find((name) => /\.scrivx$/i.test(name));
+        if (!scrivx) {
+            throw new Error(
+                "Not a Scrivener project: no .scrivx file found in the selected folder.",
+            );
+        }
+        return {
+            packageDir: projectPath,
+            scrivxPath: path.join(projectPath, scrivx),
+        };
+    }
+
+    /**
+     * Reads an item's text, synopsis and notes. Scrivener 3 keeps them in
+     * Files/Data/<UUID>/; Scrivener 2 in Files/Docs/<ID>.rtf and siblings.
+     */
+    private async readDocument(
+        packageDir: string,
+        item: ScrivenerBinderItem,
+    ): Promise<ScrivenerDocument> {
+        const isLegacy = /^\d+$/.test(item.id);
+        const dir = isLegacy
+            ? path.join(packageDir, "Files", "Docs")
+            : path.join(packageDir, "Files", "Data", item.id);
+        const baseName = isLegacy ? item.id : "content";
+        const sidecar = (suffix: string) =>
+            path.join(dir, isLegacy ? `${item.id}_${suffix}` : suffix);
+
+        const images: ParsedImage[] = [];
+        const noteImages: ParsedImage[] = [];
+        const pendingImageLoads: Promise<void>[] = [];
+        const loadImage = async (fileName: string) => {
+            const filePath = path.join(dir, fileName);
+            const data = await fsPromises
+                .readFile(filePath)
+                .catch((): null => null);
+            if (!data) return null;
+            return {
+                data: data.buffer.slice(
+                    data.byteOffset,
+                    data.byteOffset + data.byteLength,
+                ) as ArrayBuffer,
+                mimeType: guessMimeType(filePath),
+            };
+        };
+        const convert = (rtf: string | null, target: ParsedImage[]) =>
+            rtf ? convertRtf(rtf, target, loadImage, pendingImageLoads) : [];
+
+        let content = convert(
+            await readOptionalText(path.join(dir, `${baseName}.rtf`)),
+            images,
+        );
+
+        // Image documents (common in Research) hold the picture itself
+        if (!content.length && item.type === "Image") {
+            const names = await fsPromises
+                .readdir(dir)
+                .catch((): string[] => []);
+            const imageName = names.find((name) => {
+                const [stem, extension] = name.split(/\.(?=[^.]+$)/);
+                return (
+                    stem === baseName &&
+                    IMAGE_EXTENSIONS.has(extension?.toLowerCase() ?? "")
+                );
+            });
+            const loaded = imageName ? await loadImage(imageName) : null;
+            if (loaded) {
+                const imageId = generateId();
+                images.push({ id: imageId, ...loaded });
+                content = [
+                    {
+                        type: "image",
+                        attrs: {
+                            src: `__import_image__:${imageId}`,
+                            alt: item.title || null,
+                            title: null,
+                        },
+                    },
+                ];
+            }
+        }
+
+        const synopsis =
+            (await readOptionalText(sidecar("synopsis.txt")))?.trim() ||
+            item.inlineSynopsis;
+        const notes = convert(
+            await readOptionalText(sidecar("notes.rtf")),
+            noteImages,
+        );
+
+        // Wait for pictures referenced from the RTF
+        await Promise.all(pendingImageLoads);
+
+        return { content, synopsis, notes, images, noteImages };
+    }
+}
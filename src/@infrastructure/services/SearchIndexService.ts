@@ -0,0 +1,256 @@
+import * as path from "path";
+
+import type {
+    ISearchIndexService,
+    SearchIndexDocument,
+    SearchIndexHit,
+    SearchIndexQuery,
+} from "../../@core/domain/services/ISearchIndexService";
+import { fileSystemService } from "../storage/FileSystemService";
+import {
+    createIndexedDocument,
+    fingerprintDocument,
+    InvertedIndex,
+    type IndexedDocument,
+} from "./InvertedIndex";
+
+// Bump when the tokenizer changes so old entries are indexed again
+const INDEX_VERSION = 1;
+
+type StoredDocument = IndexedDocument & { version: number };
+
+// A failed synchronization is retried by the next one
+const ignoreFailure = (): void => undefined;
+
+/**
+ * Keeps each project's index in memory once loaded and stores it under the
+ * project folder as `search-index/{documentId}.json`, one file per document,
+ * so a save rewrites only the document that changed. The index stays on
+ * this device and is not synced.
+ */
+export class SearchIndexService implements ISearchIndexService {
+    private readonly indexes = new Map<string, InvertedIndex>();
+    private readonly pending = new Map<string, Promise<void>>();
+    private readonly indexPaths = new Map<string, string | null>();
+    private activeProjectId: string | null = null;
+
+    async synchronize(
+        projectId: string,
+        documents: SearchIndexDocument[],
+    ): Promise<void> {
+        this.activeProjectId = projectId;
+
+        // Runs after any earlier synchronization of the same project
+        const previous = this.pending.get(projectId) ?? Promise.resolve();
+        const run = previous
+            .catch(ignoreFailure)
+            .then(() => this.applyDocuments(projectId, documents));
+        this.pending.set(projectId, run);
+
+        try {
+            await run;
+        } finally {
+            if (this.pending.get(projectId) === run) {
+                this.pending.delete(projectId);
+            }
+        }
+    }
+
+    isSynchronized(projectId: string): boolean {
+        return this.indexes.has(projectId) || this.pending.has(projectId);
+    }
+
+    async indexDocument(document: SearchIndexDocument): Promise<void> {
+        await this.whenIdle();
+
+        const projectId =
+            this.findProjectId(document.id) ?? this.activeProjectId;
+        const index = projectId ? this.indexes.get(projectId) : undefined;
+        if (!projectId || !index) {
+            return;
+        }
+
+        const fingerprint = fingerprintDocument(document);
+        if (index.get(document.id)?.fingerprint === fingerprint) {
+            return;
+        }
+
+        const entry = createIndexedDocument(document);
+        index.add(entry);
+        await this.persist(projectId, entry);
+    }
+
+    async removeDocument(documentId: string): Promise<void> {
+        await this.whenIdle();
+
+        const projectId = this.findProjectId(documentId);
+        if (!projectId) {
+            return;
+        }
+
+        this.indexes.get(projectId)?.remove(documentId);
+        const indexPath = await this.resolveIndexPath(projectId);
+        if (indexPath) {
+            await fileSystemService.deleteFile(
+                path.join(indexPath, `${documentId}.json`),
+            );
+        }
+    }
+
+    async removeProject(projectId: string): Promise<void> {
+        await this.pending.get(projectId)?.catch(ignoreFailure);
+
+        this.indexes.delete(projectId);
+        if (this.activeProjectId === projectId) {
+            this.activeProjectId = null;
+        }
+
+        const indexPath = await this.resolveIndexPath(projectId);
+        this.indexPaths.delete(projectId);
+        if (indexPath) {
+            await fileSystemService.deleteDirectory(indexPath);
+        }
+    }
+
+    async search(
+        projectId: string,
+        query: SearchIndexQuery,
+    ): Promise<SearchIndexHit[]> {
+        // Nothing to search if it fails; the project then counts as not
+        // synchronized, so the next search starts it again
+        await this.pending.get(projectId)?.catch(ignoreFailure);
+        return this.indexes.get(projectId)?.search(query) ?? [];
+    }
+
+    private async applyDocuments(
+        projectId: string,
+        documents: SearchIndexDocument[],
+    ): Promise<void> {
+        const indexPath = await this.resolveIndexPath(projectId);
+        const index =
+            this.indexes.get(projectId) ?? (await this.load(indexPath));
+
+        const current = new Set(documents.map((document) => document.id));
+        for (const documentId of index.documentIds()) {
+            if (!current.has(documentId)) {
+                index.remove(documentId);
+                if (indexPath) {
+                    await fileSystemService.deleteFile(
+                        path.join(indexPath, `${documentId}.json`),
+                    );
+                }
+            }
+        }
+
+        for (const document of documents) {
+            const fingerprint = fingerprintDocument(document);
+            if (index.get(document.id)?.fingerprint === fingerprint) {
+                continue;
+            }
+
+            const entry = createIndexedDocument(document);
+            index.add(entry);
+            if (indexPath) {
+                await this.writeEntry(indexPath, entry);
+            }
+        }
+
+        this.indexes.set(projectId, index);
+    }
+
+    private async load(indexPath: string | null): Promise<InvertedIndex> {
+        const index = new InvertedIndex();
+        if (!indexPath) {
+            return index;
+        }
+
+        const files = await fileSystemService.listFiles(indexPath);
+        for (const file of files.filter((name) => name.endsWith(".json"))) {
+            const stored = await fileSystemService.readJson<StoredDocument>(
+                path.join(indexPath, file),
+            );
+            if (stored?.version === INDEX_VERSION) {
+                index.add(stored);
+            }
+        }
+        return index;
+    }
+
+    private async persist(
+        projectId: string,
+        entry: IndexedDocument,
+    ): Promise<void> {
+        const indexPath = await this.resolveIndexPath(projectId);
+        if (indexPath) {
+            await this.writeEntry(indexPath, entry);
+        }
+    }
+
+    private async writeEntry(
+        indexPath: string,
+        entry: IndexedDocument,
+    ): Promise<void> {
+        const stored: StoredDocument = { ...entry, version: INDEX_VERSION };
+        try {
+            await fileSystemService.writeJson(
+                path.join(indexPath, `${entry.id}.json`),
+                stored,
+            );
+        } catch (error) {
+            // The entry is indexed again when the project next synchronizes
+            console.warn(
+                `Failed to store search index entry ${entry.id}:`,
+                error,
+            );
+        }
+    }
+
+    /** Waits for synchronizations in flight, which may add documents. */
+    private async whenIdle(): Promise<void> {
+        await Promise.all(
+            [...this.pending.values()].map((run) => run.catch(ignoreFailure)),
+        );
+    }
+
+    private findProjectId(documentId: string): string | null {
+        for (const [projectId, index] of this.indexes) {
+            if (index.get(documentId)) {
+                return projectId;
+            }
+        }
+        return null;
+    }
+
+    /** Null when the project is not stored on this device. */
+    private async resolveIndexPath(projectId: string): Promise<string | null> {
+        if (this.indexPaths.has(projectId)) {
+            return this.indexPaths.get(projectId) ?? null;
+        }
+
+        let indexPath: string | null = null;
+        const users = await fileSystemService.listFiles("users");
+        for (const user of users) {
+            const projectPath = path.join(
+                "users",
+                user,
+                "projects",
+                `${projectId}.json`,
+            );
+            if (await fileSystemService.exists(projectPath)) {
+                indexPath = path.join(
+                    "users",
+                    user,
+                    "projects",
+                    projectId,
+                    "search-index",
+                );
+                break;
+            }
+        }
+
+        if (indexPath) {
+            this.indexPaths.set(projectId, indexPath);
+        }
+        return indexPath;
+    }
+}
@@ -23,6 +23,8 @@ import { SupabaseMetafieldAssignmentRepository } from "../db/SupabaseMetafieldAs
 import { FileSystemMetafieldAssignmentRepository } from "../db/filesystem/FileSystemMetafieldAssignmentRepository";
 import { SupabaseEditorTemplateRepository } from "../db/SupabaseEditorTemplateRepository";
 import { FileSystemEditorTemplateRepository } from "../db/filesystem/FileSystemEditorTemplateRepository";
+import { SupabaseCommentThreadRepository } from "../db/SupabaseCommentThreadRepository";
+import { FileSystemCommentThreadRepository } from "../db/filesystem/FileSystemCommentThreadRepository";
 import { SupabaseService } from "../db/SupabaseService";
 import { fileSystemService } from "../storage/FileSystemService";
 import { Image } from "../../@core/domain/entities/story/world/Image";
@@ -118,6 +120,8 @@ export class SynchronizationService extends EventEmitter {
         private fsMetafieldAssignmentRepo: FileSystemMetafieldAssignmentRepository,
         private supabaseEditorTemplateRepo: SupabaseEditorTemplateRepository,
         private fsEditorTemplateRepo: FileSystemEditorTemplateRepository,
+        private supabaseCommentThreadRepo: SupabaseCommentThreadRepository,
+        private fsCommentThreadRepo: FileSystemCommentThreadRepository,
         private supabaseDeletionLogRepo: SupabaseDeletionLogRepository,
     ) {
         super();
@@ -328,6 +332,16 @@ export class SynchronizationService extends EventEmitter {
                 (payload) =>
                     this.handleRealtimeChange("editorTemplate", payload),
             )
+            .on(
+                "postgres_changes",
+                {
+                    event: "*",
+                    schema: "public",
+                    table: "comment_threads",
+                },
+                (payload) =>
+                    this.handleRealtimeChange("commentThread", payload),
+            )
             .on(
                 "postgres_changes",
                 { event: "*", schema: "public", table: "assets" },
@@ -464,6 +478,8 @@ export class SynchronizationService extends EventEmitter {
                 return "scrap_notes";
             case "editorTemplate":
                 return "editor_templates";
+            case "commentThread":
+                return "comment_threads";
             case "metafieldDefinition":
                 return "metafield_definitions";
             case "metafieldAssignment":
@@ -519,6 +535,11 @@ export class SynchronizationService extends EventEmitter {
                         await this.fsEditorTemplateRepo.findById(entityId);
                     return template?.projectId ?? null;
                 }
+                case "commentThread": {
+                    const thread =
+                        await this.fsCommentThreadRepo.findById(entityId);
+                    return thread?.projectId ?? null;
+                }
                 case "metafieldDefinition": {
                     const definition =
                         await this.fsMetafieldDefinitionRepo.findById(entityId);
@@ -1173,6 +1194,10 @@ export class SynchronizationService extends EventEmitter {
                         await this.fsEditorTemplateRepo.findById(id);
                     return template ? `${template.editorType} template` : id;
                 }
+                case "commentThread": {
+                    const thread = await this.fsCommentThreadRepo.findById(id);
+                    return thread ? "Comment thread" : null;
+                }
                 case "metafieldDefinition": {
                     const definition =
                         await this.fsMetafieldDefinitionRepo.findById(id);
@@ -1256,6 +1281,15 @@ export class SynchronizationService extends EventEmitter {
                 }
                 return null;
             }
+            case "commentThread": {
+                const thread =
+                    await this.supabaseCommentThreadRepo.findById(id);
+                if (thread) {
+                    await this.fsCommentThreadRepo.update(thread);
+                    return thread;
+                }
+                return null;
+            }
             case "metafieldDefinition": {
                 const definition =
                     await this.supabaseMetafieldDefinitionRepo.findById(id);
@@ -1352,6 +1386,12 @@ export class SynchronizationService extends EventEmitter {
                 if (template) await this.fsEditorTemplateRepo.update(template);
                 break;
             }
+            case "commentThread": {
+                const thread =
+                    await this.supabaseCommentThreadRepo.findById(id);
+                if (thread) await this.fsCommentThreadRepo.update(thread);
+                break;
+            }
             case "metafieldDefinition": {
                 const definition =
                     await this.supabaseMetafieldDefinitionRepo.findById(id);
@@ -1534,6 +1574,18 @@ export class SynchronizationService extends EventEmitter {
                 }
                 return null;
             }
+            case "commentThread": {
+                const thread = await this.fsCommentThreadRepo.findById(id);
+                if (thread) {
+                    if (forceUpdateTimestamp) {
+                        thread.updatedAt = new Date();
+                        await this.fsCommentThreadRepo.update(thread);
+                    }
+                    await this.supabaseCommentThreadRepo.update(thread);
+                    return thread;
+                }
+                return null;
+            }
             case "metafieldDefinition": {
                 const definition =
                     await this.fsMetafieldDefinitionRepo.findById(id);
@@ -1840,6 +1892,7 @@ export class SynchronizationService extends EventEmitter {
         await this.syncOrganizations(projectId, mode);
         await this.syncScrapNotes(projectId, mode);
         await this.syncEditorTemplates(projectId, mode);
+        await this.syncCommentThreads(projectId, mode);
         await this.syncMetafields(projectId, mode);
         await this.syncAssets(projectId, mode);
     }
@@ -1905,6 +1958,66 @@ export class SynchronizationService extends EventEmitter {
         }
     }
 
+    private async syncCommentThreads(
+        projectId: string,
+        mode: "normal" | "reconnect",
+    ) {
+        const shouldNotifyConflicts = this.shouldNotifyConflictsForMode(mode);
+        const remote =
+            await this.supabaseCommentThreadRepo.findByProjectId(projectId);
+        const local = await this.fsCommentThreadRepo.findByProjectId(projectId);
+        const localMap = new Map(local.map((item) => [item.id, item]));
+        const remoteMap = new Map(remote.map((item) => [item.id, item]));
+
+        for (const remoteItem of remote) {
+            if (
+                this.currentUserId &&
+                (await deletionLog.isDeleted(remoteItem.id, this.currentUserId))
+            ) {
+                continue;
+            }
+
+            const localItem = localMap.get(remoteItem.id);
+            if (localItem) {
+                if (
+                    remoteItem.updatedAt.getTime() >
+                    localItem.updatedAt.getTime()
+                ) {
+                    await this.fsCommentThreadRepo.update(remoteItem);
+                } else if (
+                    localItem.updatedAt.getTime() >
+                    remoteItem.updatedAt.getTime()
+                ) {
+                    if (shouldNotifyConflicts) {
+                        this.syncStateGateway?.notifyConflict({
+                            entityType: "commentThread",
+                            entityId: remoteItem.id,
+                            projectId,
+                            entityName: "Comment thread",
+                            localUpdatedAt: localItem.updatedAt.toISOString(),
+                            remoteUpdatedAt: remoteItem.updatedAt.toISOString(),
+                        });
+                    }
+                }
+            } else {
+                await this.fsCommentThreadRepo.create(remoteItem);
+            }
+        }
+
+        for (const localItem of local) {
+            if (!remoteMap.has(localItem.id)) {
+                try {
+                    await this.supabaseCommentThreadRepo.create(localItem);
+                } catch (error) {
+                    logger.warn(
+                        `Skipped comment thread sync for ${localItem.id}`,
+                        error,
+                    );
+                }
+            }
+        }
+    }
+
     private async syncMetafields(
         projectId: string,
         mode: "normal" | "reconnect",
@@ -2680,6 +2793,9 @@ export class SynchronizationService extends EventEmitter {
                 case "editorTemplate":
                     entity = await this.supabaseEditorTemplateRepo.findById(id);
                     break;
+                case "commentThread":
+                    entity = await this.supabaseCommentThreadRepo.findById(id);
+                    break;
                 case "metafieldDefinition":
                     entity =
                         await this.supabaseMetafieldDefinitionRepo.findById(id);
@@ -2731,6 +2847,9 @@ export class SynchronizationService extends EventEmitter {
                 case "editorTemplate":
                     entity = await this.fsEditorTemplateRepo.findById(id);
                     break;
+                case "commentThread":
+                    entity = await this.fsCommentThreadRepo.findById(id);
+                    break;
                 case "metafieldDefinition":
                     entity = await this.fsMetafieldDefinitionRepo.findById(id);
                     break;
@@ -2777,6 +2896,9 @@ export class SynchronizationService extends EventEmitter {
             case "editorTemplate":
                 await this.supabaseEditorTemplateRepo.delete(id);
                 break;
+            case "commentThread":
+                await this.supabaseCommentThreadRepo.delete(id);
+                break;
             case "metafieldDefinition":
                 await this.supabaseMetafieldDefinitionRepo.delete(id);
                 break;
@@ -2821,6 +2943,9 @@ export class SynchronizationService extends EventEmitter {
             case "editorTemplate":
                 await this.fsEditorTemplateRepo.delete(id);
                 break;
+            case "commentThread":
+                await this.fsCommentThreadRepo.delete(id);
+                break;
             case "metafieldDefinition":
                 await this.fsMetafieldDefinitionRepo.delete(id);
                 break;
@@ -3516,6 +3641,22 @@ export class SynchronizationService extends EventEmitter {
                 }
                 return;
             }
+            case "commentThread": {
+                const thread = payload as Parameters<
+                    SupabaseCommentThreadRepository["update"]
+                >[0];
+
+                if (entry.operation === "create") {
+                    await this.supabaseCommentThreadRepo.create(thread);
+                } else if (entry.operation === "update") {
+                    await this.supabaseCommentThreadRepo.update(thread);
+                } else if (entry.operation === "delete") {
+                    await this.supabaseCommentThreadRepo.delete(
+                        String(payloadRecord.id ?? entry.entityId),
+                    );
+                }
+                return;
+            }
             case "metafieldDefinition": {
                 const definition = payload as Parameters<
                     SupabaseMetafieldDefinitionRepository["update"]
@@ -0,0 +1,616 @@
+import * as cheerio from "cheerio";
+import type { Element as DomElement, Text as DomText } from "domhandler";
+
+import type { ParsedImage } from "../../@core/domain/services/IEpubImportService";
+import { generateId } from "../../@core/application/utils/id";
+import { parseDocumentReferenceHref } from "../ai/export/markdownFormat";
+
+// ─── Tiptap JSON types (mirrors the export render targets) ──────────────────
+
+export interface TiptapMark {
+    type: string;
+    attrs?: Record<string, unknown>;
+}
+
+export interface TiptapNode {
+    type: string;
+    text?: string;
+    attrs?: Record<string, unknown>;
+    marks?: TiptapMark[];
+    content?: TiptapNode[];
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** Map common image file extensions to MIME types. */
+export function guessMimeType(filename: string): string {
+    const ext = filename.split(".").pop()?.toLowerCase() ?? "";
+    const map: Record<string, string> = {
+        png: "image/png",
+        jpg: "image/jpeg",
+        jpeg: "image/jpeg",
+        gif: "image/gif",
+        svg: "image/svg+xml",
+        webp: "image/webp",
+    };
+    return map[ext] ?? "application/octet-stream";
+}
+
+/**
+ * Normalize HTML text nodes so XHTML formatting whitespace does not turn into
+ * visible editor content. Keeps semantic spacing between inline words.
+ */
+export function normalizeHtmlTextNode(rawText: string): string | null {
+    if (!rawText) return null;
+
+    // Preserve meaningful text while collapsing HTML-collapsible whitespace.
+    if (/[^\t\n\r\f ]/.test(rawText)) {
+        const normalized = rawText.replace(/[\t\n\r\f ]+/g, " ");
+        return normalized.length > 0 ? normalized : null;
+    }
+
+    // Ignore indentation/newline-only formatting nodes from pretty-printed XHTML.
+    if (/[\t\n\r\f]/.test(rawText)) {
+        return null;
+    }
+
+    // Preserve pure-space separators between adjacent inline nodes.
+    return " ";
+}
+
+/**
+ * Read a block's alignment from its own style/`align`, falling back to an
+ * aligned wrapper `<div>` (how centered text survives Markdown round-trips).
+ */
+function readTextAlign($el: cheerio.Cheerio<DomElement>): string | undefined {
+    const own = $el.css("text-align") || $el.attr("align");
+    if (own) {
+        return own;
+    }
+    const parent = $el.parent("div");
+    return parent.length
+        ? parent.css("text-align") || parent.attr("align")
+        : undefined;
+}
+
+// ─── HTML → Tiptap JSON converter ───────────────────────────────────────────
+
+type CheerioElement = DomElement;
+type CheerioAPI = cheerio.CheerioAPI;
+
+/**
+ * Resolves an `<img src>` to the image bytes inside whatever container is
+ * being imported (EPUB zip, Markdown folder, …). Returns null when missing.
+ */
+export type ImportImageLoader = (
+    src: string,
+) => Promise<{ data: ArrayBuffer; mimeType: string } | null>;
+
+/**
+ * Convert Cheerio child nodes into an array of Tiptap JSON nodes.
+ * This is the inverse of the HTML render target used by ExportService.
+ *
+ * Images are queued on `pendingImageLoads`; callers must await them before
+ * reading `images`.
+ */
+export function convertChildren(
+    $: CheerioAPI,
+    parent: cheerio.Cheerio<CheerioElement>,
+    images: ParsedImage[],
+    loadImage: ImportImageLoader,
+    pendingImageLoads: Promise<void>[],
+): TiptapNode[] {
+    const nodes: TiptapNode[] = [];
+
+    parent.contents().each((_i, el) => {
+        if (el.type === "text") {
+            const rawText = (el as DomText).data;
+            const text = normalizeHtmlTextNode(rawText);
+            if (text) {
+                nodes.push({ type: "text", text });
+            }
+            return;
+        }
+
+        if (el.type !== "tag") return;
+
+        const $el = $(el);
+        const tag = (el as DomElement).tagName?.toLowerCase();
+
+        switch (tag) {
+            case "p": {
+                const align = readTextAlign($el);
+                const attrs: Record<string, unknown> = {};
+                if (align && align !== "left") {
+                    attrs.textAlign = align;
+                }
+                const content = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                nodes.push({
+                    type: "paragraph",
+                    ...(Object.keys(attrs).length ? { attrs } : {}),
+                    ...(content.length ? { content } : {}),
+                });
+                break;
+            }
+
+            case "h1":
+            case "h2":
+            case "h3":
+            case "h4":
+            case "h5":
+            case "h6": {
+                const level = parseInt(tag[1], 10);
+                const align = readTextAlign($el);
+                const attrs: Record<string, unknown> = {
+                    level: Math.min(level, 3),
+                };
+                if (align && align !== "left") {
+                    attrs.textAlign = align;
+                }
+                const content = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                nodes.push({
+                    type: "heading",
+                    attrs,
+                    ...(content.length ? { content } : {}),
+                });
+                break;
+            }
+
+            case "ul": {
+                const content = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                if (content.length) {
+                    nodes.push({ type: "bulletList", content });
+                }
+                break;
+            }
+
+            case "ol": {
+                const start = parseInt($el.attr("start") ?? "1", 10);
+                const attrs: Record<string, unknown> = {};
+                if (start && start !== 1) attrs.start = start;
+                const content = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                if (content.length) {
+                    nodes.push({
+                        type: "orderedList",
+                        ...(Object.keys(attrs).length ? { attrs } : {}),
+                        content,
+                    });
+                }
+                break;
+            }
+
+            case "li": {
+                // Tiptap listItems must wrap content in a paragraph
+                const children = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                const wrapped = wrapInlineInParagraph(children);
+                nodes.push({ type: "listItem", content: wrapped });
+                break;
+            }
+
+            case "blockquote": {
+                const content = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                const wrapped = wrapInlineInParagraph(content);
+                nodes.push({ type: "blockquote", content: wrapped });
+                break;
+            }
+
+            case "pre": {
+                const codeEl = $el.find("code").first();
+                const text = codeEl.length ? codeEl.text() : $el.text();
+                const langClass = codeEl.attr("class") || "";
+                const langMatch = langClass.match(/language-(\S+)/);
+                const language = langMatch ? langMatch[1] : null;
+                nodes.push({
+                    type: "codeBlock",
+                    ...(language ? { attrs: { language } } : {}),
+                    content: text ? [{ type: "text", text }] : [],
+                });
+                break;
+            }
+
+            case "br":
+                nodes.push({ type: "hardBreak" });
+                break;
+
+            case "hr":
+                nodes.push({ type: "horizontalRule" });
+                break;
+
+            case "img": {
+                const src = $el.attr("src") || "";
+                const alt = $el.attr("alt") || "";
+                const title = $el.attr("title") || "";
+
+                if (/^https?:\/\//i.test(src)) {
+                    // Remote images stay remote – nothing to upload
+                    nodes.push({
+                        type: "image",
+                        attrs: { src, alt: alt || null, title: title || null },
+                    });
+                } else if (src) {
+                    const imageId = generateId();
+
+                    // Queue async image extraction
+                    const loadPromise = (async () => {
+                        const loaded = await loadImage(src);
+                        if (loaded) {
+                            images.push({ id: imageId, ...loaded });
+                        }
+                    })();
+                    pendingImageLoads.push(loadPromise);
+
+                    nodes.push({
+                        type: "image",
+                        attrs: {
+                            src: `__import_image__:${imageId}`,
+                            alt: alt || null,
+                            title: title || null,
+                        },
+                    });
+                }
+                break;
+            }
+
+            // Inline formatting marks
+            case "strong":
+            case "b": {
+                const children = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                applyMarkToTextNodes(children, { type: "bold" });
+                nodes.push(...children);
+                break;
+            }
+
+            case "em":
+            case "i": {
+                const children = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                applyMarkToTextNodes(children, { type: "italic" });
+                nodes.push(...children);
+                break;
+            }
+
+            case "u": {
+                const children = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                applyMarkToTextNodes(children, { type: "underline" });
+                nodes.push(...children);
+                break;
+            }
+
+            case "s":
+            case "strike":
+            case "del":
+            case "ins": {
+                const children = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                // Suggested changes exported from the editor keep their
+                // author and time; any other <ins> is left unstyled
+                const changeId = $el.attr("data-change-id");
+                if (changeId) {
+                    applyMarkToTextNodes(children, {
+                        type:
+                            tag === "ins"
+                                ? "trackedInsertion"
+                                : "trackedDeletion",
+                        attrs: {
+                            changeId,
+                            author: $el.attr("data-change-author") ?? "",
+                            createdAt: $el.attr("data-change-created") ?? "",
+                        },
+                    });
+                } else if (tag !== "ins") {
+                    applyMarkToTextNodes(children, { type: "strike" });
+                }
+                nodes.push(...children);
+                break;
+            }
+
+            case "code": {
+                const children = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                applyMarkToTextNodes(children, { type: "code" });
+                nodes.push(...children);
+                break;
+            }
+
+            case "a": {
+                const href = $el.attr("href") || "#";
+                const reference = parseDocumentReferenceHref(href);
+                if (reference) {
+                    nodes.push({
+                        type: "documentReference",
+                        attrs: { ...reference, label: $el.text() },
+                    });
+                    break;
+                }
+
+                const children = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                applyMarkToTextNodes(children, {
+                    type: "link",
+                    attrs: { href },
+                });
+                nodes.push(...children);
+                break;
+            }
+
+            case "span": {
+                const children = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                const commentId = $el.attr("data-inline-comment-id");
+                if (commentId) {
+                    applyMarkToTextNodes(children, {
+                        type: "inlineComment",
+                        attrs: {
+                            commentId,
+                            commentText:
+                                $el.attr("data-inline-comment-text") ?? "",
+                            createdAt:
+                                $el.attr("data-inline-comment-created") ?? "",
+                        },
+                    });
+                }
+                const color = $el.css("color");
+                const fontFamily = $el.css("font-family");
+                if (color || fontFamily) {
+                    const attrs: { color?: string; fontFamily?: string } = {};
+                    if (color) attrs.color = color;
+                    if (fontFamily) attrs.fontFamily = fontFamily;
+                    const mark: TiptapMark = {
+                        type: "textStyle",
+                        attrs,
+                    };
+                    applyMarkToTextNodes(children, mark);
+                }
+                nodes.push(...children);
+                break;
+            }
+
+            case "sup": {
+                const footnoteId = $el.attr("data-footnote-id");
+                if (footnoteId) {
+                    nodes.push({
+                        type: "footnote",
+                        attrs: {
+                            id: footnoteId,
+                            text: $el.attr("data-footnote-text") ?? "",
+                        },
+                    });
+                    break;
+                }
+                nodes.push(
+                    ...convertChildren(
+                        $,
+                        $el,
+                        images,
+                        loadImage,
+                        pendingImageLoads,
+                    ),
+                );
+                break;
+            }
+
+            case "div":
+            case "section":
+            case "article":
+            case "main":
+            case "aside":
+            case "header":
+            case "footer":
+            case "nav":
+            case "figure":
+            case "figcaption": {
+                // Structural tags — descend into children
+                const content = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                nodes.push(...content);
+                break;
+            }
+
+            default: {
+                // Unknown element — try to extract content
+                const content = convertChildren(
+                    $,
+                    $el,
+                    images,
+                    loadImage,
+                    pendingImageLoads,
+                );
+                if (content.length) {
+                    nodes.push(...content);
+                }
+                break;
+            }
+        }
+    });
+
+    return nodes;
+}
+
+/** Apply a mark to all text nodes in a tree recursively. */
+export function applyMarkToTextNodes(nodes: TiptapNode[], mark: TiptapMark): void {
+    for (const node of nodes) {
+        if (node.type === "text") {
+            if (!node.marks) node.marks = [];
+            node.marks.push(mark);
+        } else if (node.content) {
+            applyMarkToTextNodes(node.content, mark);
+        }
+    }
+}
+
+/**
+ * Tiptap requires certain block nodes (listItem, blockquote) to contain
+ * block-level children. If the children are all inline (text nodes),
+ * wrap them in a paragraph.
+ */
+export function wrapInlineInParagraph(nodes: TiptapNode[]): TiptapNode[] {
+    if (nodes.length === 0) {
+        return [{ type: "paragraph" }];
+    }
+
+    const inlineTypes = new Set([
+        "text",
+        "hardBreak",
+        "image",
+        "documentReference",
+        "footnote",
+    ]);
+    const allInline = nodes.every((n) => inlineTypes.has(n.type));
+
+    if (allInline) {
+        return [{ type: "paragraph", content: nodes }];
+    }
+
+    // Mixed: group consecutive inline nodes into paragraphs
+    const result: TiptapNode[] = [];
+    let inlineBuf: TiptapNode[] = [];
+
+    const flushInline = () => {
+        if (inlineBuf.length) {
+            result.push({ type: "paragraph", content: inlineBuf });
+            inlineBuf = [];
+        }
+    };
+
+    for (const node of nodes) {
+        if (inlineTypes.has(node.type)) {
+            inlineBuf.push(node);
+        } else {
+            flushInline();
+            result.push(node);
+        }
+    }
+    flushInline();
+
+    return result;
+}
+
+export function nodeHasText(node: TiptapNode): boolean {
+    if (node.type === "text" && node.text?.trim()) return true;
+    if (node.content) {
+        return node.content.some(nodeHasText);
+    }
+    return false;
+}
+
+/**
+ * The editor's image node is block-level, but Markdown and Word put images
+ * inside paragraphs. Lift them out so the stored JSON matches the editor
+ * schema.
+ */
+export function liftBlockImages(nodes: TiptapNode[]): TiptapNode[] {
+    const result: TiptapNode[] = [];
+
+    for (const node of nodes) {
+        const hasImage = node.content?.some((child) => child.type === "image");
+        if (node.type !== "paragraph" || !hasImage || !node.content) {
+            result.push(
+                node.content && node.type !== "paragraph"
+                    ? { ...node, content: liftBlockImages(node.content) }
+                    : node,
+            );
+            continue;
+        }
+
+        let inline: TiptapNode[] = [];
+        const flush = () => {
+            const hasContent = inline.some(
+                (child) => child.type !== "text" || child.text?.trim(),
+            );
+            if (hasContent) {
+                result.push({ ...node, content: inline });
+            }
+            inline = [];
+        };
+
+        for (const child of node.content) {
+            if (child.type === "image") {
+                flush();
+                result.push(child);
+            } else {
+                inline.push(child);
+            }
+        }
+        flush();
+    }
+
+    return result;
+}
@@ -0,0 +1,523 @@
+import type { ParsedImage } from "../../@core/domain/services/IEpubImportService";
+import { generateId } from "../../@core/application/utils/id";
+import {
+    liftBlockImages,
+    type ImportImageLoader,
+    type TiptapMark,
+    type TiptapNode,
+} from "./htmlToTiptap";
+
+// ─── RTF → Tiptap JSON converter ────────────────────────────────────────────
+//
+// Covers what word processors (Scrivener in particular) write for prose:
+// paragraphs, alignment, bold / italic / underline / strike, hex and Unicode
+// escapes, bulleted and numbered lists, hyperlinks and embedded pictures.
+// Fonts, colours, tables and page layout are dropped.
+
+/** Destinations whose text is never document content. */
+const SKIPPED_DESTINATIONS = new Set([
+    "fonttbl",
+    "colortbl",
+    "expandedcolortbl",
+    "stylesheet",
+    "info",
+    "listtable",
+    "listoverridetable",
+    "revtbl",
+    "rsidtbl",
+    "generator",
+    "xmlnstbl",
+    "themedata",
+    "colorschememapping",
+    "latentstyles",
+    "datastore",
+    "header",
+    "headerl",
+    "headerr",
+    "headerf",
+    "footer",
+    "footerl",
+    "footerr",
+    "footerf",
+    "footnote",
+    "nonshppict",
+]);
+
+/** Ignorable (`\*`) destinations we still need to read. */
+const HANDLED_IGNORABLE_DESTINATIONS = new Set(["fldinst", "shppict"]);
+
+const SYMBOLS: Record<string, string> = {
+    emdash: "—",
+    endash: "–",
+    lquote: "‘",
+    rquote: "’",
+    ldblquote: "“",
+    rdblquote: "”",
+    bullet: "•",
+    tab: "\t",
+};
+
+const PICTURE_TYPES: Record<string, string> = {
+    pngblip: "image/png",
+    jpegblip: "image/jpeg",
+};
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+};
+
+/**
+ * Windows-1252 differs from Latin-1 only in 0x80–0x9F (smart quotes, dashes,
+ * ellipsis…). Undefined bytes map to U+FFFD.
+ */
+const CP1252_HIGH =
+    "€\uFFFD‚ƒ„…†‡ˆ‰Š‹Œ\uFFFDŽ\uFFFD\uFFFD‘’“”•–—˜™š›œ\uFFFDžŸ";
+
+function decodeCp1252(byte: number): string {
+    return byte >= 0x80 && byte <= 0x9f
+        ? CP1252_HIGH[byte - 0x80]
+        : String.fromCharCode(byte);
+}
+
+/** Text collected from a destination instead of being shown. */
+interface RtfCapture {
+    kind: "fieldInstruction" | "listMarker" | "graphic";
+    text: string;
+}
+
+interface RtfGroupState {
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+    strike: boolean;
+    align: string | null;
+    inList: boolean;
+    /** Characters to skip after a `\u` escape (`\ucN`). */
+    unicodeSkip: number;
+    /** Where this group's text goes. */
+    target: "text" | "skip" | "capture" | "picture";
+    capture: RtfCapture | null;
+    /** Instruction of the enclosing `\field`, shared with its result group. */
+    field: RtfCapture | null;
+    href: string | null;
+    pictureType: string | null;
+}
+
+interface RtfListEntry {
+    ordered: boolean;
+    paragraph: TiptapNode;
+}
+
+function initialState(): RtfGroupState {
+    return {
+        bold: false,
+        italic: false,
+        underline: false,
+        strike: false,
+        align: null,
+        inList: false,
+        unicodeSkip: 1,
+        target: "text",
+        capture: null,
+        field: null,
+        href: null,
+        pictureType: null,
+    };
+}
+
+function hexToArrayBuffer(hex: string): ArrayBuffer {
+    const clean = hex.replace(/[^0-9a-f]/gi, "");
+    const bytes = new Uint8Array(Math.floor(clean.length / 2));
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+    }
+    return bytes.buffer;
+}
+
+function marksFor(state: RtfGroupState): TiptapMark[] {
+    const marks: TiptapMark[] = [];
+    if (state.bold) marks.push({ type: "bold" });
+    if (state.italic) marks.push({ type: "italic" });
+    if (state.underline) marks.push({ type: "underline" });
+    if (state.strike) marks.push({ type: "strike" });
+    if (state.href) marks.push({ type: "link", attrs: { href: state.href } });
+    return marks;
+}
+
+function imagePlaceholder(imageId: string): TiptapNode {
+    return {
+        type: "image",
+        attrs: { src: `__import_image__:${imageId}`, alt: null, title: null },
+    };
+}
+
+/**
+ * Convert an RTF document into Tiptap block nodes.
+ *
+ * Embedded pictures are added to `images` straight away; pictures stored next
+ * to the RTF (Scrivener's `\NeXTGraphic`) are resolved through `loadImage` and
+ * queued on `pendingImageLoads`, which callers must await.
+ */
+export function convertRtf(
+    rtf: string,
+    images: ParsedImage[],
+    loadImage: ImportImageLoader,
+    pendingImageLoads: Promise<void>[],
+): TiptapNode[] {
+    const blocks: TiptapNode[] = [];
+    const stack: RtfGroupState[] = [];
+    let state = initialState();
+    let inline: TiptapNode[] = [];
+    let listEntries: RtfListEntry[] = [];
+    let listMarker = "";
+    let pictureHex = "";
+    let pendingSkip = 0;
+    // Set by `\*`; the next control word decides whether to skip the group
+    let ignorableGroup = false;
+    // Scrivener follows each `\NeXTGraphic` group with a "¬" placeholder
+    let dropGraphicPlaceholder = false;
+
+    const pushInline = (node: TiptapNode) => {
+        const prev = inline[inline.length - 1];
+        if (
+            node.type === "text" &&
+            prev?.type === "text" &&
+            JSON.stringify(prev.marks ?? []) === JSON.stringify(node.marks ?? [])
+        ) {
+            prev.text = `${prev.text ?? ""}${node.text ?? ""}`;
+        } else {
+            inline.push(node);
+        }
+    };
+
+    const flushList = () => {
+        if (!listEntries.length) return;
+        blocks.push({
+            type: listEntries[0].ordered ? "orderedList" : "bulletList",
+            content: listEntries.map((entry) => ({
+                type: "listItem",
+                content: [entry.paragraph],
+            })),
+        });
+        listEntries = [];
+    };
+
+    const endParagraph = () => {
+        const content = inline.length ? { content: inline } : {};
+        if (state.inList) {
+            const ordered = /\d/.test(listMarker);
+            if (listEntries.length && listEntries[0].ordered !== ordered) {
+                flushList();
+            }
+            listEntries.push({
+                ordered,
+                paragraph: { type: "paragraph", ...content },
+            });
+        } else {
+            flushList();
+            blocks.push({
+                type: "paragraph",
+                ...(state.align ? { attrs: { textAlign: state.align } } : {}),
+                ...content,
+            });
+        }
+        inline = [];
+        listMarker = "";
+    };
+
+    const emitText = (text: string) => {
+        if (state.target === "skip") return;
+        if (state.target === "picture") {
+            pictureHex += text;
+            return;
+        }
+        if (state.target === "capture") {
+            if (state.capture) state.capture.text += text;
+            return;
+        }
+
+        let visible = text;
+        if (pendingSkip > 0) {
+            const skipped = Math.min(pendingSkip, visible.length);
+            visible = visible.slice(skipped);
+            pendingSkip -= skipped;
+        }
+        if (dropGraphicPlaceholder) {
+            visible = visible.replace(/^¬/, "");
+            dropGraphicPlaceholder = false;
+        }
+        if (visible) {
+            const marks = marksFor(state);
+            pushInline({
+                type: "text",
+                text: visible,
+                ...(marks.length ? { marks } : {}),
+            });
+        }
+    };
+
+    const queueGraphic = (instruction: string) => {
+        // "\NeXTGraphic Pasted Graphic.png \width2000 \height1000" – the
+        // control words were consumed, leaving the file name
+        const fileName = instruction.trim();
+        const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+        if (!fileName || !IMAGE_MIME_TYPES[extension]) return;
+
+        const imageId = generateId();
+        pendingImageLoads.push(
+            (async () => {
+                const loaded = await loadImage(fileName);
+                if (loaded) {
+                    images.push({ id: imageId, ...loaded });
+                }
+            })(),
+        );
+        pushInline(imagePlaceholder(imageId));
+    };
+
+    const beginCapture = (kind: RtfCapture["kind"]) => {
+        state.target = "capture";
+        state.capture = { kind, text: "" };
+    };
+
+    const endGroup = () => {
+        const closing = state;
+        state = stack.pop() ?? initialState();
+
+        if (closing.target === "picture" && state.target !== "picture") {
+            if (closing.pictureType) {
+                const imageId = generateId();
+                images.push({
+                    id: imageId,
+                    data: hexToArrayBuffer(pictureHex),
+                    mimeType: closing.pictureType,
+                });
+                pushInline(imagePlaceholder(imageId));
+            }
+            pictureHex = "";
+        }
+
+        // A capture finishes when the group that started it closes
+        const capture = closing.capture;
+        if (!capture || capture === state.capture) return;
+        if (capture.kind === "listMarker") {
+            listMarker = capture.text;
+        } else if (capture.kind === "graphic") {
+            queueGraphic(capture.text);
+            dropGraphicPlaceholder = true;
+        }
+    };
+
+    const handleControlWord = (word: string, param: number | null) => {
+        if (ignorableGroup) {
+            ignorableGroup = false;
+            if (!HANDLED_IGNORABLE_DESTINATIONS.has(word)) {
+                state.target = "skip";
+                return;
+            }
+        }
+        if (word === "listtext") {
+            // Keep the marker so numbered lists can be told from bullets
+            beginCapture("listMarker");
+            return;
+        }
+        if (SKIPPED_DESTINATIONS.has(word)) {
+            state.target = "skip";
+            return;
+        }
+
+        const on = param === null || param !== 0;
+        switch (word) {
+            case "par":
+            case "sect":
+            case "page":
+            case "cell":
+                if (state.target === "text") endParagraph();
+                break;
+            case "line":
+                if (state.target === "text") pushInline({ type: "hardBreak" });
+                break;
+            case "pard":
+                state.align = null;
+                state.inList = false;
+                break;
+            case "plain":
+                state.bold = false;
+                state.italic = false;
+                state.underline = false;
+                state.strike = false;
+                break;
+            case "qc":
+                state.align = "center";
+                break;
+            case "qr":
+                state.align = "right";
+                break;
+            case "qj":
+                state.align = "justify";
+                break;
+            case "ql":
+                state.align = null;
+                break;
+            case "ls":
+                state.inList = true;
+                break;
+            case "b":
+                state.bold = on;
+                break;
+            case "i":
+                state.italic = on;
+                break;
+            case "ul":
+            case "uld":
+            case "uldb":
+            case "ulw":
+            case "uldash":
+            case "ulwave":
+                state.underline = on;
+                break;
+            case "ulnone":
+                state.underline = false;
+                break;
+            case "strike":
+            case "striked":
+                state.strike = on;
+                break;
+            case "uc":
+                state.unicodeSkip = param ?? 1;
+                break;
+            case "u": {
+                if (param === null) break;
+                emitText(String.fromCharCode(param < 0 ? param + 65536 : param));
+                pendingSkip = state.unicodeSkip;
+                break;
+            }
+            case "field":
+                state.field = { kind: "fieldInstruction", text: "" };
+                break;
+            case "fldinst":
+                state.target = "capture";
+                state.capture = state.field;
+                break;
+            case "fldrslt": {
+                const match = state.field?.text.match(/HYPERLINK\s+"([^"]+)"/i);
+                state.target = "text";
+                state.capture = null;
+                state.href = match ? match[1] : state.href;
+                break;
+            }
+            case "pict":
+                state.target = "picture";
+                state.pictureType = null;
+                break;
+            case "NeXTGraphic":
+                beginCapture("graphic");
+                break;
+            default:
+                if (state.target === "picture" && PICTURE_TYPES[word]) {
+                    state.pictureType = PICTURE_TYPES[word];
+                } else if (SYMBOLS[word] !== undefined) {
+                    emitText(SYMBOLS[word]);
+                }
+                break;
+        }
+    };
+
+    let i = 0;
+    while (i < rtf.length) {
+        const ch = rtf[i];
+
+        if (ch === "{") {
+            stack.push(state);
+            state = { ...state };
+            i++;
+            continue;
+        }
+
+        if (ch === "}") {
+            endGroup();
+            i++;
+            continue;
+        }
+
+        if (ch === "\\") {
+            const next = rtf[i + 1] ?? "";
+
+            if (/[a-zA-Z]/.test(next)) {
+                const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(
+                    rtf.slice(i + 1, i + 48),
+                );
+                const word = match ? match[1] : next;
+                const param =
+                    match?.[2] !== undefined ? parseInt(match[2], 10) : null;
+                i += 1 + (match ? match[0].length : 1);
+                handleControlWord(word, param);
+                continue;
+            }
+
+            i += 2;
+            switch (next) {
+                case "*":
+                    ignorableGroup = true;
+                    break;
+                case "'": {
+                    const byte = parseInt(rtf.substr(i, 2), 16);
+                    i += 2;
+                    if (!Number.isNaN(byte)) {
+                        emitText(decodeCp1252(byte));
+                    }
+                    break;
+                }
+                case "~":
+                    emitText(" ");
+                    break;
+                case "_":
+                    emitText("‑");
+                    break;
+                case "-":
+                    // Optional hyphen – invisible
+                    break;
+                case "\n":
+                case "\r":
+                    if (state.target === "text") endParagraph();
+                    break;
+                default:
+                    emitText(next);
+                    break;
+            }
+            continue;
+        }
+
+        if (ch === "\n" || ch === "\r") {
+            i++;
+            continue;
+        }
+
+        // Plain text up to the next special character
+        let end = i + 1;
+        while (end < rtf.length && !/[\\{}\r\n]/.test(rtf[end])) {
+            end++;
+        }
+        emitText(rtf.slice(i, end));
+        i = end;
+    }
+
+    if (inline.length) {
+        endParagraph();
+    }
+    flushList();
+
+    // Drop trailing blank paragraphs RTF writers leave behind
+    while (
+        blocks.length &&
+        blocks[blocks.length - 1].type === "paragraph" &&
+        !blocks[blocks.length - 1].content?.length
+    ) {
+        blocks.pop();
+    }
+
+    return liftBlockImages(blocks);
+}
@@ -27,6 +27,7 @@ type StoredUserPayload = {
         editorFontFamily: string;
         defaultImageAiModel: string;
         geminiApiKey?: string;
+        dictionary?: string[];
     };
 };
 
@@ -78,6 +79,8 @@ export class FilesystemUserSessionStore implements IUserSessionStore {
                             user.preferences.editorFontFamily,
                             user.preferences.defaultImageAiModel,
                             localPrefs.geminiApiKey,
+                            user.preferences.features,
+                            user.preferences.dictionary,
                         );
                     }
 
@@ -260,6 +263,7 @@ export class FilesystemUserSessionStore implements IUserSessionStore {
                 editorFontFamily: user.preferences.editorFontFamily,
                 defaultImageAiModel: user.preferences.defaultImageAiModel,
                 geminiApiKey: user.preferences.geminiApiKey,
+                dictionary: [...user.preferences.dictionary],
             },
         };
     }
@@ -278,6 +282,8 @@ export class FilesystemUserSessionStore implements IUserSessionStore {
             payload.preferences.editorFontFamily,
             payload.preferences.defaultImageAiModel,
             payload.preferences.geminiApiKey,
+            undefined,
+            payload.preferences.dictionary ?? [],
         );
 
         return new User(
@@ -0,0 +1,14 @@
+import { Controller } from "../Controller";
+import { CheckManuscriptGrammar } from "../../../@core/application/use-cases/analysis/CheckManuscriptGrammar";
+
+export class CancelManuscriptGrammarController
+    implements Controller<[{ runId: string }], boolean>
+{
+    constructor(
+        private readonly checkManuscriptGrammar: CheckManuscriptGrammar,
+    ) {}
+
+    async handle(request: { runId: string }): Promise<boolean> {
+        return this.checkManuscriptGrammar.cancel(request.runId);
+    }
+}
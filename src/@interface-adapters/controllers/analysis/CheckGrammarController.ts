@@ -1,16 +1,16 @@
 import { Controller } from "../Controller";
-import { CheckGrammar } from "../../../@core/application/use-cases/analysis/CheckGrammar";
-import type {
-    GrammarCheckRequest,
-    LanguageToolResponse,
-} from "../../../@core/domain/services/ILanguageToolService";
+import {
+    CheckGrammar,
+    type CheckGrammarRequest,
+} from "../../../@core/application/use-cases/analysis/CheckGrammar";
+import type { LanguageToolResponse } from "../../../@core/domain/services/ILanguageToolService";
 
 export class CheckGrammarController
-    implements Controller<[GrammarCheckRequest], LanguageToolResponse>
+    implements Controller<[CheckGrammarRequest], LanguageToolResponse>
 {
     constructor(private readonly checkGrammar: CheckGrammar) {}
 
-    async handle(request: GrammarCheckRequest): Promise<LanguageToolResponse> {
+    async handle(request: CheckGrammarRequest): Promise<LanguageToolResponse> {
         return this.checkGrammar.execute(request);
     }
 }
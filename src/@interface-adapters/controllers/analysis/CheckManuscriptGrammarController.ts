@@ -0,0 +1,31 @@
+import { IpcMainInvokeEvent } from "electron";
+import { IpcController } from "../Controller";
+import {
+    CheckManuscriptGrammar,
+    CheckManuscriptGrammarRequest,
+    ManuscriptGrammarReport,
+} from "../../../@core/application/use-cases/analysis/CheckManuscriptGrammar";
+
+export class CheckManuscriptGrammarController implements IpcController<
+    [CheckManuscriptGrammarRequest],
+    ManuscriptGrammarReport
+> {
+    constructor(
+        private readonly checkManuscriptGrammar: CheckManuscriptGrammar,
+    ) {}
+
+    async handle(
+        request: CheckManuscriptGrammarRequest,
+    ): Promise<ManuscriptGrammarReport> {
+        return this.checkManuscriptGrammar.execute(request);
+    }
+
+    async handleWithEvent(
+        event: IpcMainInvokeEvent,
+        request: CheckManuscriptGrammarRequest,
+    ): Promise<ManuscriptGrammarReport> {
+        return this.checkManuscriptGrammar.execute(request, (progress) => {
+            event.sender.send("grammar-report-progress", progress);
+        });
+    }
+}
@@ -1,4 +1,7 @@
 import type { AnalyzeTextController } from "./analysis/AnalyzeTextController";
+import type { CheckGrammarController } from "./analysis/CheckGrammarController";
+import type { CheckManuscriptGrammarController } from "./analysis/CheckManuscriptGrammarController";
+import type { CancelManuscriptGrammarController } from "./analysis/CancelManuscriptGrammarController";
 import type { EditChaptersController } from "./analysis/EditChaptersController";
 import type { GeneralChatController } from "./analysis/GeneralChatController";
 import type { LoadChatHistoryController } from "./analysis/LoadChatHistoryController";
@@ -24,6 +27,7 @@ import type { GenerateOrganizationImageController } from "./generation/GenerateO
 import type { GenerateOrganizationPlaylistController } from "./generation/GenerateOrganizationPlaylistController";
 import type { GenerateOrganizationSongController } from "./generation/GenerateOrganizationSongController";
 import type { SaveChapterContentController } from "./logistics/SaveChapterContentController";
+import type { SaveChapterMetadataController } from "./logistics/SaveChapterMetadataController";
 import type { SaveCharacterInfoController } from "./logistics/SaveCharacterInfoController";
 import type { SaveLocationInfoController } from "./logistics/SaveLocationInfoController";
 import type { SaveManuscriptStructureController } from "./logistics/SaveManuscriptStructureController";
@@ -31,23 +35,43 @@ import type { ReorderLocationChildrenController } from "./logistics/ReorderLocat
 import type { SaveOrganizationInfoController } from "./logistics/SaveOrganizationInfoController";
 import type { SaveProjectSettingsController } from "./logistics/SaveProjectSettingsController";
 import type { SaveUserSettingsController } from "./logistics/SaveUserSettingsController";
+import type { LoadUserDictionaryController } from "./logistics/LoadUserDictionaryController";
+import type { SaveUserDictionaryController } from "./logistics/SaveUserDictionaryController";
 import type { CreateChapterController } from "./manuscript/CreateChapterController";
+import type { CreateChapterSnapshotController } from "./manuscript/CreateChapterSnapshotController";
+import type { CreateCommentThreadController } from "./manuscript/CreateCommentThreadController";
 import type { CreateScrapNoteController } from "./manuscript/CreateScrapNoteController";
 import type { DeleteChapterController } from "./manuscript/DeleteChapterController";
+import type { DeleteCommentThreadController } from "./manuscript/DeleteCommentThreadController";
 import type { DeleteScrapNoteController } from "./manuscript/DeleteScrapNoteController";
+import type { EditCommentMessageController } from "./manuscript/EditCommentMessageController";
+import type { LoadChapterHistoryController } from "./manuscript/LoadChapterHistoryController";
+import type { MergeChaptersController } from "./manuscript/MergeChaptersController";
 import type { MoveChapterController } from "./manuscript/MoveChapterController";
 import type { OverwriteChapterController } from "./manuscript/OverwriteChapterController";
 import type { OverwriteScrapNoteController } from "./manuscript/OverwriteScrapNoteController";
 import type { RenameChapterController } from "./manuscript/RenameChapterController";
+import type { ReplyToCommentThreadController } from "./manuscript/ReplyToCommentThreadController";
+import type { SaveChapterHistorySettingsController } from "./manuscript/SaveChapterHistorySettingsController";
+import type { SetCommentThreadResolvedController } from "./manuscript/SetCommentThreadResolvedController";
+import type { SplitChapterController } from "./manuscript/SplitChapterController";
 import type { UpdateScrapNoteController } from "./manuscript/UpdateScrapNoteController";
 import type { CreateProjectController } from "./project/CreateProjectController";
 import type { DeleteProjectController } from "./project/DeleteProjectController";
 import type { ExportManuscriptController } from "./project/ExportManuscriptController";
+import type { ExportProjectArchiveController } from "./project/ExportProjectArchiveController";
+import type { ExportWorldBibleController } from "./project/ExportWorldBibleController";
 import type { LoadProjectListController } from "./project/LoadProjectListController";
 import type { OpenProjectController } from "./project/OpenProjectController";
 import type { RenameProjectController } from "./project/RenameProjectController";
 import type { ReorderProjectItemsController } from "./project/ReorderProjectItemsController";
+import type { SaveExportSettingsController } from "./project/SaveExportSettingsController";
+import type { SaveWritingGoalsController } from "./project/SaveWritingGoalsController";
+import type { SaveProjectDictionaryController } from "./project/SaveProjectDictionaryController";
+import type { SaveGrammarSettingsController } from "./project/SaveGrammarSettingsController";
+import type { SearchProjectController } from "./project/SearchProjectController";
 import type { ImportProjectController } from "./project/ImportProjectController";
+import type { ImportProjectArchiveController } from "./project/ImportProjectArchiveController";
 import type { CreateCharacterController } from "./world/CreateCharacterController";
 import type { CreateLocationController } from "./world/CreateLocationController";
 import type { CreateOrganizationController } from "./world/CreateOrganizationController";
@@ -83,6 +107,9 @@ type Handler<T> = T extends {
 export interface ControllerInstanceMap {
     analysis: {
         analyzeText: AnalyzeTextController;
+        checkGrammar: CheckGrammarController;
+        checkManuscriptGrammar: CheckManuscriptGrammarController;
+        cancelManuscriptGrammar: CancelManuscriptGrammarController;
         editChapters: EditChaptersController;
         generalChat: GeneralChatController;
         loadChatHistory: LoadChatHistoryController;
@@ -116,6 +143,7 @@ export interface ControllerInstanceMap {
     };
     logistics: {
         saveChapterContent: SaveChapterContentController;
+        saveChapterMetadata: SaveChapterMetadataController;
         saveCharacterInfo: SaveCharacterInfoController;
         saveLocationInfo: SaveLocationInfoController;
         reorderLocationChildren: ReorderLocationChildrenController;
@@ -123,27 +151,47 @@ export interface ControllerInstanceMap {
         saveOrganizationInfo: SaveOrganizationInfoController;
         saveProjectSettings: SaveProjectSettingsController;
         saveUserSettings: SaveUserSettingsController;
+        loadUserDictionary: LoadUserDictionaryController;
+        saveUserDictionary: SaveUserDictionaryController;
     };
     manuscript: {
         createChapter: CreateChapterController;
+        createChapterSnapshot: CreateChapterSnapshotController;
+        createCommentThread: CreateCommentThreadController;
         createScrapNote: CreateScrapNoteController;
         deleteChapter: DeleteChapterController;
+        deleteCommentThread: DeleteCommentThreadController;
         deleteScrapNote: DeleteScrapNoteController;
+        editCommentMessage: EditCommentMessageController;
+        loadChapterHistory: LoadChapterHistoryController;
+        mergeChapters: MergeChaptersController;
         moveChapter: MoveChapterController;
         overwriteChapter: OverwriteChapterController;
         overwriteScrapNote: OverwriteScrapNoteController;
         renameChapter: RenameChapterController;
+        replyToCommentThread: ReplyToCommentThreadController;
+        saveChapterHistorySettings: SaveChapterHistorySettingsController;
+        setCommentThreadResolved: SetCommentThreadResolvedController;
+        splitChapter: SplitChapterController;
         updateScrapNote: UpdateScrapNoteController;
     };
     project: {
         createProject: CreateProjectController;
         deleteProject: DeleteProjectController;
         exportManuscript: ExportManuscriptController;
+        exportProjectArchive: ExportProjectArchiveController;
+        exportWorldBible: ExportWorldBibleController;
         importProject: ImportProjectController;
+        importProjectArchive: ImportProjectArchiveController;
         loadProjectList: LoadProjectListController;
         openProject: OpenProjectController;
         renameProject: RenameProjectController;
         reorderProjectItems: ReorderProjectItemsController;
+        saveExportSettings: SaveExportSettingsController;
+        saveWritingGoals: SaveWritingGoalsController;
+        saveProjectDictionary: SaveProjectDictionaryController;
+        saveGrammarSettings: SaveGrammarSettingsController;
+        searchProject: SearchProjectController;
     };
     sync: {
         getSyncState: GetSyncStateController;
@@ -201,6 +249,9 @@ export type ControllerChannelMap = {
 export const controllerChannels: ControllerChannelMap = {
     analysis: {
         analyzeText: "analysis:analyzeText",
+        checkGrammar: "analysis:checkGrammar",
+        checkManuscriptGrammar: "analysis:checkManuscriptGrammar",
+        cancelManuscriptGrammar: "analysis:cancelManuscriptGrammar",
         editChapters: "analysis:editChapters",
         generalChat: "analysis:generalChat",
         loadChatHistory: "analysis:loadChatHistory",
@@ -234,6 +285,7 @@ export const controllerChannels: ControllerChannelMap = {
     },
     logistics: {
         saveChapterContent: "logistics:saveChapterContent",
+        saveChapterMetadata: "logistics:saveChapterMetadata",
         saveCharacterInfo: "logistics:saveCharacterInfo",
         saveLocationInfo: "logistics:saveLocationInfo",
         reorderLocationChildren: "logistics:reorderLocationChildren",
@@ -241,27 +293,47 @@ export const controllerChannels: ControllerChannelMap = {
         saveOrganizationInfo: "logistics:saveOrganizationInfo",
         saveProjectSettings: "logistics:saveProjectSettings",
         saveUserSettings: "logistics:saveUserSettings",
+        loadUserDictionary: "logistics:loadUserDictionary",
+        saveUserDictionary: "logistics:saveUserDictionary",
     },
     manuscript: {
         createChapter: "manuscript:createChapter",
+        createChapterSnapshot: "manuscript:createChapterSnapshot",
+        createCommentThread: "manuscript:createCommentThread",
         createScrapNote: "manuscript:createScrapNote",
         deleteChapter: "manuscript:deleteChapter",
+        deleteCommentThread: "manuscript:deleteCommentThread",
         deleteScrapNote: "manuscript:deleteScrapNote",
+        editCommentMessage: "manuscript:editCommentMessage",
+        loadChapterHistory: "manuscript:loadChapterHistory",
+        mergeChapters: "manuscript:mergeChapters",
         moveChapter: "manuscript:moveChapter",
         overwriteChapter: "manuscript:overwriteChapter",
         overwriteScrapNote: "manuscript:overwriteScrapNote",
         renameChapter: "manuscript:renameChapter",
+        replyToCommentThread: "manuscript:replyToCommentThread",
+        saveChapterHistorySettings: "manuscript:saveChapterHistorySettings",
+        setCommentThreadResolved: "manuscript:setCommentThreadResolved",
+        splitChapter: "manuscript:splitChapter",
         updateScrapNote: "manuscript:updateScrapNote",
     },
     project: {
         createProject: "project:createProject",
         deleteProject: "project:deleteProject",
         exportManuscript: "project:exportManuscript",
+        exportProjectArchive: "project:exportProjectArchive",
+        exportWorldBible: "project:exportWorldBible",
         importProject: "project:importProject",
+        importProjectArchive: "project:importProjectArchive",
         loadProjectList: "project:loadProjectList",
         openProject: "project:openProject",
         renameProject: "project:renameProject",
         reorderProjectItems: "project:reorderProjectItems",
+        saveExportSettings: "project:saveExportSettings",
+        saveWritingGoals: "project:saveWritingGoals",
+        saveProjectDictionary: "project:saveProjectDictionary",
+        saveGrammarSettings: "project:saveGrammarSettings",
+        searchProject: "project:searchProject",
     },
     sync: {
         getSyncState: "sync:getSyncState",
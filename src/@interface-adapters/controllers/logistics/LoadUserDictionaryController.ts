@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { LoadUserDictionary } from "../../../@core/application/use-cases/logistics/LoadUserDictionary";
+
+export class LoadUserDictionaryController
+    implements
+        Controller<
+            Parameters<LoadUserDictionary["execute"]>,
+            Awaited<ReturnType<LoadUserDictionary["execute"]>>
+        >
+{
+    constructor(private readonly loadUserDictionary: LoadUserDictionary) {}
+
+    async handle(
+        ...args: Parameters<LoadUserDictionary["execute"]>
+    ): Promise<Awaited<ReturnType<LoadUserDictionary["execute"]>>> {
+        return this.loadUserDictionary.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { SaveChapterMetadata } from "../../../@core/application/use-cases/logistics/SaveChapterMetadata";
+
+export class SaveChapterMetadataController
+    implements
+        Controller<
+            Parameters<SaveChapterMetadata["execute"]>,
+            Awaited<ReturnType<SaveChapterMetadata["execute"]>>
+        >
+{
+    constructor(private readonly saveChapterMetadata: SaveChapterMetadata) {}
+
+    async handle(
+        ...args: Parameters<SaveChapterMetadata["execute"]>
+    ): Promise<Awaited<ReturnType<SaveChapterMetadata["execute"]>>> {
+        return this.saveChapterMetadata.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { SaveUserDictionary } from "../../../@core/application/use-cases/logistics/SaveUserDictionary";
+
+export class SaveUserDictionaryController
+    implements
+        Controller<
+            Parameters<SaveUserDictionary["execute"]>,
+            Awaited<ReturnType<SaveUserDictionary["execute"]>>
+        >
+{
+    constructor(private readonly saveUserDictionary: SaveUserDictionary) {}
+
+    async handle(
+        ...args: Parameters<SaveUserDictionary["execute"]>
+    ): Promise<Awaited<ReturnType<SaveUserDictionary["execute"]>>> {
+        return this.saveUserDictionary.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { CreateChapterSnapshot } from "../../../@core/application/use-cases/manuscript/CreateChapterSnapshot";
+
+export class CreateChapterSnapshotController
+    implements
+        Controller<
+            Parameters<CreateChapterSnapshot["execute"]>,
+            Awaited<ReturnType<CreateChapterSnapshot["execute"]>>
+        >
+{
+    constructor(private readonly createChapterSnapshot: CreateChapterSnapshot) {}
+
+    async handle(
+        ...args: Parameters<CreateChapterSnapshot["execute"]>
+    ): Promise<Awaited<ReturnType<CreateChapterSnapshot["execute"]>>> {
+        return this.createChapterSnapshot.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { CreateCommentThread } from "../../../@core/application/use-cases/manuscript/CreateCommentThread";
+
+export class CreateCommentThreadController
+    implements
+        Controller<
+            Parameters<CreateCommentThread["execute"]>,
+            Awaited<ReturnType<CreateCommentThread["execute"]>>
+        >
+{
+    constructor(private readonly createCommentThread: CreateCommentThread) {}
+
+    async handle(
+        ...args: Parameters<CreateCommentThread["execute"]>
+    ): Promise<Awaited<ReturnType<CreateCommentThread["execute"]>>> {
+        return this.createCommentThread.execute(...args);
+    }
+}
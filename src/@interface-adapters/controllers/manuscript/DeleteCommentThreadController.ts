@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { DeleteCommentThread } from "../../../@core/application/use-cases/manuscript/DeleteCommentThread";
+
+export class DeleteCommentThreadController
+    implements
+        Controller<
+            Parameters<DeleteCommentThread["execute"]>,
+            Awaited<ReturnType<DeleteCommentThread["execute"]>>
+        >
+{
+    constructor(private readonly deleteCommentThread: DeleteCommentThread) {}
+
+    async handle(
+        ...args: Parameters<DeleteCommentThread["execute"]>
+    ): Promise<Awaited<ReturnType<DeleteCommentThread["execute"]>>> {
+        return this.deleteCommentThread.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { EditCommentMessage } from "../../../@core/application/use-cases/manuscript/EditCommentMessage";
+
+export class EditCommentMessageController
+    implements
+        Controller<
+            Parameters<EditCommentMessage["execute"]>,
+            Awaited<ReturnType<EditCommentMessage["execute"]>>
+        >
+{
+    constructor(private readonly editCommentMessage: EditCommentMessage) {}
+
+    async handle(
+        ...args: Parameters<EditCommentMessage["execute"]>
+    ): Promise<Awaited<ReturnType<EditCommentMessage["execute"]>>> {
+        return this.editCommentMessage.execute(...args);
+    }
+}
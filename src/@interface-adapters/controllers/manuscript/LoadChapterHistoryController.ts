@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { LoadChapterHistory } from "../../../@core/application/use-cases/manuscript/LoadChapterHistory";
+
+export class LoadChapterHistoryController
+    implements
+        Controller<
+            Parameters<LoadChapterHistory["execute"]>,
+            Awaited<ReturnType<LoadChapterHistory["execute"]>>
+        >
+{
+    constructor(private readonly loadChapterHistory: LoadChapterHistory) {}
+
+    async handle(
+        ...args: Parameters<LoadChapterHistory["execute"]>
+    ): Promise<Awaited<ReturnType<LoadChapterHistory["execute"]>>> {
+        return this.loadChapterHistory.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { MergeChapters } from "../../../@core/application/use-cases/manuscript/MergeChapters";
+
+export class MergeChaptersController
+    implements
+        Controller<
+            Parameters<MergeChapters["execute"]>,
+            Awaited<ReturnType<MergeChapters["execute"]>>
+        >
+{
+    constructor(private readonly mergeChapters: MergeChapters) {}
+
+    async handle(
+        ...args: Parameters<MergeChapters["execute"]>
+    ): Promise<Awaited<ReturnType<MergeChapters["execute"]>>> {
+        return this.mergeChapters.execute(...args);
+    }
+}
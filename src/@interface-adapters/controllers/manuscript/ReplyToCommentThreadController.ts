@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { ReplyToCommentThread } from "../../../@core/application/use-cases/manuscript/ReplyToCommentThread";
+
+export class ReplyToCommentThreadController
+    implements
+        Controller<
+            Parameters<ReplyToCommentThread["execute"]>,
+            Awaited<ReturnType<ReplyToCommentThread["execute"]>>
+        >
+{
+    constructor(private readonly replyToCommentThread: ReplyToCommentThread) {}
+
+    async handle(
+        ...args: Parameters<ReplyToCommentThread["execute"]>
+    ): Promise<Awaited<ReturnType<ReplyToCommentThread["execute"]>>> {
+        return this.replyToCommentThread.execute(...args);
+    }
+}
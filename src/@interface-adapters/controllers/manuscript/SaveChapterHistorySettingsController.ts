@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { SaveChapterHistorySettings } from "../../../@core/application/use-cases/manuscript/SaveChapterHistorySettings";
+
+export class SaveChapterHistorySettingsController
+    implements
+        Controller<
+            Parameters<SaveChapterHistorySettings["execute"]>,
+            Awaited<ReturnType<SaveChapterHistorySettings["execute"]>>
+        >
+{
+    constructor(private readonly saveChapterHistorySettings: SaveChapterHistorySettings) {}
+
+    async handle(
+        ...args: Parameters<SaveChapterHistorySettings["execute"]>
+    ): Promise<Awaited<ReturnType<SaveChapterHistorySettings["execute"]>>> {
+        return this.saveChapterHistorySettings.execute(...args);
+    }
+}
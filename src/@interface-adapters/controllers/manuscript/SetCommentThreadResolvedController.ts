@@ -0,0 +1,20 @@
+import { Controller } from "../Controller";
+import { SetCommentThreadResolved } from "../../../@core/application/use-cases/manuscript/SetCommentThreadResolved";
+
+export class SetCommentThreadResolvedController
+    implements
+        Controller<
+            Parameters<SetCommentThreadResolved["execute"]>,
+            Awaited<ReturnType<SetCommentThreadResolved["execute"]>>
+        >
+{
+    constructor(
+        private readonly setCommentThreadResolved: SetCommentThreadResolved,
+    ) {}
+
+    async handle(
+        ...args: Parameters<SetCommentThreadResolved["execute"]>
+    ): Promise<Awaited<ReturnType<SetCommentThreadResolved["execute"]>>> {
+        return this.setCommentThreadResolved.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { SplitChapter } from "../../../@core/application/use-cases/manuscript/SplitChapter";
+
+export class SplitChapterController
+    implements
+        Controller<
+            Parameters<SplitChapter["execute"]>,
+            Awaited<ReturnType<SplitChapter["execute"]>>
+        >
+{
+    constructor(private readonly splitChapter: SplitChapter) {}
+
+    async handle(
+        ...args: Parameters<SplitChapter["execute"]>
+    ): Promise<Awaited<ReturnType<SplitChapter["execute"]>>> {
+        return this.splitChapter.execute(...args);
+    }
+}
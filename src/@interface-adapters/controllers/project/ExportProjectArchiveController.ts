@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { ExportProjectArchive } from "../../../@core/application/use-cases/project/ExportProjectArchive";
+
+export class ExportProjectArchiveController
+    implements
+        Controller<
+            Parameters<ExportProjectArchive["execute"]>,
+            Awaited<ReturnType<ExportProjectArchive["execute"]>>
+        >
+{
+    constructor(private readonly exportProjectArchive: ExportProjectArchive) {}
+
+    async handle(
+        ...args: Parameters<ExportProjectArchive["execute"]>
+    ): Promise<Awaited<ReturnType<ExportProjectArchive["execute"]>>> {
+        return this.exportProjectArchive.execute(...args);
+    }
+}
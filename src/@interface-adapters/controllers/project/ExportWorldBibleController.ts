@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { ExportWorldBible } from "../../../@core/application/use-cases/project/ExportWorldBible";
+
+export class ExportWorldBibleController
+    implements
+        Controller<
+            Parameters<ExportWorldBible["execute"]>,
+            Awaited<ReturnType<ExportWorldBible["execute"]>>
+        >
+{
+    constructor(private readonly exportWorldBible: ExportWorldBible) {}
+
+    async handle(
+        ...args: Parameters<ExportWorldBible["execute"]>
+    ): Promise<Awaited<ReturnType<ExportWorldBible["execute"]>>> {
+        return this.exportWorldBible.execute(...args);
+    }
+}
@@ -0,0 +1,29 @@
+import { IpcMainInvokeEvent } from "electron";
+import { IpcController } from "../Controller";
+import {
+    ImportProjectArchive,
+    ImportProjectArchiveRequest,
+    ImportProjectArchiveResponse,
+} from "../../../@core/application/use-cases/project/ImportProjectArchive";
+
+export class ImportProjectArchiveController implements IpcController<
+    [ImportProjectArchiveRequest],
+    ImportProjectArchiveResponse
+> {
+    constructor(private readonly importProjectArchive: ImportProjectArchive) {}
+
+    async handle(
+        request: ImportProjectArchiveRequest,
+    ): Promise<ImportProjectArchiveResponse> {
+        return this.importProjectArchive.execute(request);
+    }
+
+    async handleWithEvent(
+        event: IpcMainInvokeEvent,
+        request: ImportProjectArchiveRequest,
+    ): Promise<ImportProjectArchiveResponse> {
+        return this.importProjectArchive.execute(request, (percent) => {
+            event.sender.send("import-progress", { progress: percent });
+        });
+    }
+}
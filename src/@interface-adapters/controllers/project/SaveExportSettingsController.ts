@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { SaveExportSettings } from "../../../@core/application/use-cases/project/SaveExportSettings";
+
+export class SaveExportSettingsController
+    implements
+        Controller<
+            Parameters<SaveExportSettings["execute"]>,
+            Awaited<ReturnType<SaveExportSettings["execute"]>>
+        >
+{
+    constructor(private readonly saveExportSettings: SaveExportSettings) {}
+
+    async handle(
+        ...args: Parameters<SaveExportSettings["execute"]>
+    ): Promise<Awaited<ReturnType<SaveExportSettings["execute"]>>> {
+        return this.saveExportSettings.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { SaveGrammarSettings } from "../../../@core/application/use-cases/project/SaveGrammarSettings";
+
+export class SaveGrammarSettingsController
+    implements
+        Controller<
+            Parameters<SaveGrammarSettings["execute"]>,
+            Awaited<ReturnType<SaveGrammarSettings["execute"]>>
+        >
+{
+    constructor(private readonly saveGrammarSettings: SaveGrammarSettings) {}
+
+    async handle(
+        ...args: Parameters<SaveGrammarSettings["execute"]>
+    ): Promise<Awaited<ReturnType<SaveGrammarSettings["execute"]>>> {
+        return this.saveGrammarSettings.execute(...args);
+    }
+}
@@ -0,0 +1,20 @@
+import { Controller } from "../Controller";
+import { SaveProjectDictionary } from "../../../@core/application/use-cases/project/SaveProjectDictionary";
+
+export class SaveProjectDictionaryController
+    implements
+        Controller<
+            Parameters<SaveProjectDictionary["execute"]>,
+            Awaited<ReturnType<SaveProjectDictionary["execute"]>>
+        >
+{
+    constructor(
+        private readonly saveProjectDictionary: SaveProjectDictionary,
+    ) {}
+
+    async handle(
+        ...args: Parameters<SaveProjectDictionary["execute"]>
+    ): Promise<Awaited<ReturnType<SaveProjectDictionary["execute"]>>> {
+        return this.saveProjectDictionary.execute(...args);
+    }
+}
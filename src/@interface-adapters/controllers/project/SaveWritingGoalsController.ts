@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { SaveWritingGoals } from "../../../@core/application/use-cases/project/SaveWritingGoals";
+
+export class SaveWritingGoalsController
+    implements
+        Controller<
+            Parameters<SaveWritingGoals["execute"]>,
+            Awaited<ReturnType<SaveWritingGoals["execute"]>>
+        >
+{
+    constructor(private readonly saveWritingGoals: SaveWritingGoals) {}
+
+    async handle(
+        ...args: Parameters<SaveWritingGoals["execute"]>
+    ): Promise<Awaited<ReturnType<SaveWritingGoals["execute"]>>> {
+        return this.saveWritingGoals.execute(...args);
+    }
+}
@@ -0,0 +1,18 @@
+import { Controller } from "../Controller";
+import { SearchProject } from "../../../@core/application/use-cases/project/SearchProject";
+
+export class SearchProjectController
+    implements
+        Controller<
+            Parameters<SearchProject["execute"]>,
+            Awaited<ReturnType<SearchProject["execute"]>>
+        >
+{
+    constructor(private readonly searchProject: SearchProject) {}
+
+    async handle(
+        ...args: Parameters<SearchProject["execute"]>
+    ): Promise<Awaited<ReturnType<SearchProject["execute"]>>> {
+        return this.searchProject.execute(...args);
+    }
+}
@@ -23,6 +23,7 @@ export type EntityType =
     | "organization"
     | "scrapNote"
     | "editorTemplate"
+    | "commentThread"
     | "metafieldDefinition"
     | "metafieldAssignment"
     | "image"
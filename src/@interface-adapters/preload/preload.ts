@@ -28,6 +28,7 @@ import {
     type EntityType as SyncEntityType,
 } from "../controllers/sync/SyncStateGateway";
 import type { GenerationProgressPayload } from "../controllers/generation/generationProgress";
+import type { ManuscriptGrammarProgress } from "../../@core/application/use-cases/analysis/CheckManuscriptGrammar";
 
 type AsyncHandler = (...args: unknown[]) => Promise<unknown>;
 
@@ -376,6 +377,30 @@ const createImportEvents = () => {
 const importEvents = createImportEvents();
 contextBridge.exposeInMainWorld("importEvents", importEvents);
 
+// ── Manuscript grammar report progress events ──
+
+type GrammarReportProgressListener = (
+    payload: ManuscriptGrammarProgress,
+) => void;
+
+const createGrammarReportEvents = () => {
+    const onProgress = (listener: GrammarReportProgressListener) => {
+        const handler = (
+            _event: Electron.IpcRendererEvent,
+            payload: ManuscriptGrammarProgress,
+        ) => {
+            listener(payload);
+        };
+        ipcRenderer.on("grammar-report-progress", handler);
+        return () =>
+            ipcRenderer.removeListener("grammar-report-progress", handler);
+    };
+    return { onProgress };
+};
+
+const grammarReportEvents = createGrammarReportEvents();
+contextBridge.exposeInMainWorld("grammarReportEvents", grammarReportEvents);
+
 // ── Feature management (Settings screen) ──
 
 const featureApi = {
@@ -425,5 +450,6 @@ declare global {
         featureApi: typeof featureApi;
         featureEvents: typeof featureEvents;
         importEvents: typeof importEvents;
+        grammarReportEvents: typeof grammarReportEvents;
     }
 }
@@ -5,6 +5,8 @@ import {
 } from "../@interface-adapters/controllers/contracts";
 import { IpcController } from "../@interface-adapters/controllers/Controller";
 import { AnalyzeText } from "../@core/application/use-cases/analysis/AnalyzeText";
+import { CheckGrammar } from "../@core/application/use-cases/analysis/CheckGrammar";
+import { CheckManuscriptGrammar } from "../@core/application/use-cases/analysis/CheckManuscriptGrammar";
 import { EditChapters } from "../@core/application/use-cases/analysis/EditChapters";
 import { GeneralChat } from "../@core/application/use-cases/analysis/GeneralChat";
 import { DeleteAsset } from "../@core/application/use-cases/asset/DeleteAsset";
@@ -27,6 +29,7 @@ import { GenerateOrganizationImage } from "../@core/application/use-cases/genera
 import { GenerateOrganizationPlaylist } from "../@core/application/use-cases/generation/GenerateOrganizationPlaylist";
 import { GenerateOrganizationSong } from "../@core/application/use-cases/generation/GenerateOrganizationSong";
 import { SaveChapterContent } from "../@core/application/use-cases/logistics/SaveChapterContent";
+import { SaveChapterMetadata } from "../@core/application/use-cases/logistics/SaveChapterMetadata";
 import { SaveCharacterInfo } from "../@core/application/use-cases/logistics/SaveCharacterInfo";
 import { SaveLocationInfo } from "../@core/application/use-cases/logistics/SaveLocationInfo";
 import { SaveManuscriptStructure } from "../@core/application/use-cases/logistics/SaveManuscriptStructure";
@@ -34,23 +37,43 @@ import { ReorderLocationChildren } from "../@core/application/use-cases/logistic
 import { SaveOrganizationInfo } from "../@core/application/use-cases/logistics/SaveOrganizationInfo";
 import { SaveProjectSettings } from "../@core/application/use-cases/logistics/SaveProjectSettings";
 import { SaveUserSettings } from "../@core/application/use-cases/logistics/SaveUserSettings";
+import { LoadUserDictionary } from "../@core/application/use-cases/logistics/LoadUserDictionary";
+import { SaveUserDictionary } from "../@core/application/use-cases/logistics/SaveUserDictionary";
 import { CreateChapter } from "../@core/application/use-cases/manuscript/CreateChapter";
+import { CreateChapterSnapshot } from "../@core/application/use-cases/manuscript/CreateChapterSnapshot";
+import { CreateCommentThread } from "../@core/application/use-cases/manuscript/CreateCommentThread";
 import { CreateScrapNote } from "../@core/application/use-cases/manuscript/CreateScrapNote";
 import { DeleteChapter } from "../@core/application/use-cases/manuscript/DeleteChapter";
+import { DeleteCommentThread } from "../@core/application/use-cases/manuscript/DeleteCommentThread";
 import { DeleteScrapNote } from "../@core/application/use-cases/manuscript/DeleteScrapNote";
+import { EditCommentMessage } from "../@core/application/use-cases/manuscript/EditCommentMessage";
+import { LoadChapterHistory } from "../@core/application/use-cases/manuscript/LoadChapterHistory";
+import { MergeChapters } from "../@core/application/use-cases/manuscript/MergeChapters";
 import { MoveChapter } from "../@core/application/use-cases/manuscript/MoveChapter";
 import { OverwriteChapter } from "../@core/application/use-cases/manuscript/OverwriteChapter";
 import { OverwriteScrapNote } from "../@core/application/use-cases/manuscript/OverwriteScrapNote";
 import { RenameChapter } from "../@core/application/use-cases/manuscript/RenameChapter";
+import { ReplyToCommentThread } from "../@core/application/use-cases/manuscript/ReplyToCommentThread";
+import { SaveChapterHistorySettings } from "../@core/application/use-cases/manuscript/SaveChapterHistorySettings";
+import { SetCommentThreadResolved } from "../@core/application/use-cases/manuscript/SetCommentThreadResolved";
+import { SplitChapter } from "../@core/application/use-cases/manuscript/SplitChapter";
 import { UpdateScrapNote } from "../@core/application/use-cases/manuscript/UpdateScrapNote";
 import { CreateProject } from "../@core/application/use-cases/project/CreateProject";
 import { DeleteProject } from "../@core/application/use-cases/project/DeleteProject";
 import { ExportManuscript } from "../@core/application/use-cases/project/ExportManuscript";
+import { ExportProjectArchive } from "../@core/application/use-cases/project/ExportProjectArchive";
+import { ExportWorldBible } from "../@core/application/use-cases/project/ExportWorldBible";
 import { LoadProjectList } from "../@core/application/use-cases/project/LoadProjectList";
 import { OpenProject } from "../@core/application/use-cases/project/OpenProject";
 import { RenameProject } from "../@core/application/use-cases/project/RenameProject";
 import { ReorderProjectItems } from "../@core/application/use-cases/project/ReorderProjectItems";
+import { SaveExportSettings } from "../@core/application/use-cases/project/SaveExportSettings";
+import { SaveWritingGoals } from "../@core/application/use-cases/project/SaveWritingGoals";
+import { SaveProjectDictionary } from "../@core/application/use-cases/project/SaveProjectDictionary";
+import { SaveGrammarSettings } from "../@core/application/use-cases/project/SaveGrammarSettings";
+import { SearchProject } from "../@core/application/use-cases/project/SearchProject";
 import { ImportProject } from "../@core/application/use-cases/project/ImportProject";
+import { ImportProjectArchive } from "../@core/application/use-cases/project/ImportProjectArchive";
 import { CreateCharacter } from "../@core/application/use-cases/world/CreateCharacter";
 import { CreateLocation } from "../@core/application/use-cases/world/CreateLocation";
 import { CreateOrganization } from "../@core/application/use-cases/world/CreateOrganization";
@@ -80,6 +103,9 @@ import { SubmitBugReport } from "../@core/application/use-cases/support/SubmitBu
 import { LoadChatHistoryController } from "../@interface-adapters/controllers/analysis/LoadChatHistoryController";
 import { LoadChatMessagesController } from "../@interface-adapters/controllers/analysis/LoadChatMessagesController";
 import { AnalyzeTextController } from "../@interface-adapters/controllers/analysis/AnalyzeTextController";
+import { CheckGrammarController } from "../@interface-adapters/controllers/analysis/CheckGrammarController";
+import { CheckManuscriptGrammarController } from "../@interface-adapters/controllers/analysis/CheckManuscriptGrammarController";
+import { CancelManuscriptGrammarController } from "../@interface-adapters/controllers/analysis/CancelManuscriptGrammarController";
 import { EditChaptersController } from "../@interface-adapters/controllers/analysis/EditChaptersController";
 import { GeneralChatController } from "../@interface-adapters/controllers/analysis/GeneralChatController";
 import { DeleteAssetController } from "../@interface-adapters/controllers/asset/DeleteAssetController";
@@ -103,6 +129,7 @@ import { GenerateOrganizationImageController } from "../@interface-adapters/cont
 import { GenerateOrganizationPlaylistController } from "../@interface-adapters/controllers/generation/GenerateOrganizationPlaylistController";
 import { GenerateOrganizationSongController } from "../@interface-adapters/controllers/generation/GenerateOrganizationSongController";
 import { SaveChapterContentController } from "../@interface-adapters/controllers/logistics/SaveChapterContentController";
+import { SaveChapterMetadataController } from "../@interface-adapters/controllers/logistics/SaveChapterMetadataController";
 import { SaveCharacterInfoController } from "../@interface-adapters/controllers/logistics/SaveCharacterInfoController";
 import { SaveLocationInfoController } from "../@interface-adapters/controllers/logistics/SaveLocationInfoController";
 import { SaveManuscriptStructureController } from "../@interface-adapters/controllers/logistics/SaveManuscriptStructureController";
@@ -110,24 +137,44 @@ import { ReorderLocationChildrenController } from "../@interface-adapters/contro
 import { SaveOrganizationInfoController } from "../@interface-adapters/controllers/logistics/SaveOrganizationInfoController";
 import { SaveProjectSettingsController } from "../@interface-adapters/controllers/logistics/SaveProjectSettingsController";
 import { SaveUserSettingsController } from "../@interface-adapters/controllers/logistics/SaveUserSettingsController";
+import { LoadUserDictionaryController } from "../@interface-adapters/controllers/logistics/LoadUserDictionaryController";
+import { SaveUserDictionaryController } from "../@interface-adapters/controllers/logistics/SaveUserDictionaryController";
 import { CreateChapterController } from "../@interface-adapters/controllers/manuscript/CreateChapterController";
+import { CreateChapterSnapshotController } from "../@interface-adapters/controllers/manuscript/CreateChapterSnapshotController";
+import { CreateCommentThreadController } from "../@interface-adapters/controllers/manuscript/CreateCommentThreadController";
 import { CreateScrapNoteController } from "../@interface-adapters/controllers/manuscript/CreateScrapNoteController";
 import { DeleteChapterController } from "../@interface-adapters/controllers/manuscript/DeleteChapterController";
+import { DeleteCommentThreadController } from "../@interface-adapters/controllers/manuscript/DeleteCommentThreadController";
 import { DeleteScrapNoteController } from "../@interface-adapters/controllers/manuscript/DeleteScrapNoteController";
+import { EditCommentMessageController } from "../@interface-adapters/controllers/manuscript/EditCommentMessageController";
+import { LoadChapterHistoryController } from "../@interface-adapters/controllers/manuscript/LoadChapterHistoryController";
+import { MergeChaptersController } from "../@interface-adapters/controllers/manuscript/MergeChaptersController";
 import { MoveChapterController } from "../@interface-adapters/controllers/manuscript/MoveChapterController";
 import { OverwriteChapterController } from "../@interface-adapters/controllers/manuscript/OverwriteChapterController";
 import { OverwriteScrapNoteController } from "../@interface-adapters/controllers/manuscript/OverwriteScrapNoteController";
 import { RenameChapterController } from "../@interface-adapters/controllers/manuscript/RenameChapterController";
+import { ReplyToCommentThreadController } from "../@interface-adapters/controllers/manuscript/ReplyToCommentThreadController";
+import { SaveChapterHistorySettingsController } from "../@interface-adapters/controllers/manuscript/SaveChapterHistorySettingsController";
+import { SetCommentThreadResolvedController } from "../@interface-adapters/controllers/manuscript/SetCommentThreadResolvedController";
+import { SplitChapterController } from "../@interface-adapters/controllers/manuscript/SplitChapterController";
 import { UpdateScrapNoteController } from "../@interface-adapters/controllers/manuscript/UpdateScrapNoteController";
 import { GetSyncStateController } from "../@interface-adapters/controllers/sync/GetSyncStateController";
 import { CreateProjectController } from "../@interface-adapters/controllers/project/CreateProjectController";
 import { DeleteProjectController } from "../@interface-adapters/controllers/project/DeleteProjectController";
 import { ExportManuscriptController } from "../@interface-adapters/controllers/project/ExportManuscriptController";
+import { ExportProjectArchiveController } from "../@interface-adapters/controllers/project/ExportProjectArchiveController";
+import { ExportWorldBibleController } from "../@interface-adapters/controllers/project/ExportWorldBibleController";
 import { LoadProjectListController } from "../@interface-adapters/controllers/project/LoadProjectListController";
 import { OpenProjectController } from "../@interface-adapters/controllers/project/OpenProjectController";
 import { RenameProjectController } from "../@interface-adapters/controllers/project/RenameProjectController";
 import { ReorderProjectItemsController } from "../@interface-adapters/controllers/project/ReorderProjectItemsController";
+import { SaveExportSettingsController } from "../@interface-adapters/controllers/project/SaveExportSettingsController";
+import { SaveWritingGoalsController } from "../@interface-adapters/controllers/project/SaveWritingGoalsController";
+import { SaveProjectDictionaryController } from "../@interface-adapters/controllers/project/SaveProjectDictionaryController";
+import { SaveGrammarSettingsController } from "../@interface-adapters/controllers/project/SaveGrammarSettingsController";
+import { SearchProjectController } from "../@interface-adapters/controllers/project/SearchProjectController";
 import { ImportProjectController } from "../@interface-adapters/controllers/project/ImportProjectController";
+import { ImportProjectArchiveController } from "../@interface-adapters/controllers/project/ImportProjectArchiveController";
 import { CreateCharacterController } from "../@interface-adapters/controllers/world/CreateCharacterController";
 import { CreateLocationController } from "../@interface-adapters/controllers/world/CreateLocationController";
 import { CreateOrganizationController } from "../@interface-adapters/controllers/world/CreateOrganizationController";
@@ -154,6 +201,7 @@ import { DeleteMetafieldDefinitionGlobalController } from "../@interface-adapter
 import { SubmitBugReportController } from "../@interface-adapters/controllers/support/SubmitBugReportController";
 import type { IAssetRepository } from "../@core/domain/repositories/IAssetRepository";
 import type { IChapterRepository } from "../@core/domain/repositories/IChapterRepository";
+import type { IChapterSnapshotRepository } from "../@core/domain/repositories/IChapterSnapshotRepository";
 import type { ICharacterRepository } from "../@core/domain/repositories/ICharacterRepository";
 import type { ITimelineRepository } from "../@core/domain/repositories/ITimelineRepository";
 import type { IEventRepository } from "../@core/domain/repositories/IEventRepository";
@@ -166,13 +214,21 @@ import type { IUserRepository } from "../@core/domain/repositories/IUserReposito
 import type { IMetafieldDefinitionRepository } from "../@core/domain/repositories/IMetafieldDefinitionRepository";
 import type { IMetafieldAssignmentRepository } from "../@core/domain/repositories/IMetafieldAssignmentRepository";
 import type { IEditorTemplateRepository } from "../@core/domain/repositories/IEditorTemplateRepository";
+import type { ICommentThreadRepository } from "../@core/domain/repositories/ICommentThreadRepository";
 import type { IBugReportRepository } from "../@core/domain/repositories/IBugReportRepository";
 import type { IAITextService } from "../@core/domain/services/IAITextService";
 import type { ICreativeAssetGenerationService } from "../@core/domain/services/ICreativeAssetGenerationService";
 import type { IAuthService } from "../@core/domain/services/IAuthService";
 import type { IExportService } from "../@core/domain/services/IExportService";
 import type { IEpubImportService } from "../@core/domain/services/IEpubImportService";
+import type { IMarkdownImportService } from "../@core/domain/services/IMarkdownImportService";
+import type { IDocxImportService } from "../@core/domain/services/IDocxImportService";
+import type { IScrivenerImportService } from "../@core/domain/services/IScrivenerImportService";
+import type { IProjectArchiveService } from "../@core/domain/services/IProjectArchiveService";
+import type { IWorldBibleExportService } from "../@core/domain/services/IWorldBibleExportService";
 import type { IPlaylistGenerationService } from "../@core/domain/services/IPlaylistGenerationService";
+import type { ISearchIndexService } from "../@core/domain/services/ISearchIndexService";
+import type { ILanguageToolService } from "../@core/domain/services/ILanguageToolService";
 import type { IStorageService } from "../@core/domain/services/IStorageService";
 import type { IUserSessionStore } from "../@core/domain/services/IUserSessionStore";
 import type { IGuestSessionTransitionService } from "../@core/domain/services/IGuestSessionTransitionService";
@@ -184,8 +240,10 @@ import type { EntityType as SyncEntityType } from "../@interface-adapters/contro
 export type RepositoryDependencies = {
     asset: IAssetRepository;
     chapter: IChapterRepository;
+    chapterSnapshot: IChapterSnapshotRepository;
     character: ICharacterRepository;
     chatConversation: IChatConversationRepository;
+    commentThread: ICommentThreadRepository;
     location: ILocationRepository;
     organization: IOrganizationRepository;
     project: IProjectRepository;
@@ -205,9 +263,16 @@ export type ServiceDependencies = {
     auth: IAuthService;
     export: IExportService;
     epubImport: IEpubImportService;
+    markdownImport: IMarkdownImportService;
+    docxImport: IDocxImportService;
+    scrivenerImport: IScrivenerImportService;
+    projectArchive: IProjectArchiveService;
+    worldBibleExport: IWorldBibleExportService;
     imageGeneration: ICreativeAssetGenerationService;
     playlistGeneration: IPlaylistGenerationService;
     storage: IStorageService;
+    searchIndex: ISearchIndexService;
+    languageTool: ILanguageToolService;
     sessionStore: IUserSessionStore;
     guestTransition: IGuestSessionTransitionService;
 };
@@ -226,6 +291,8 @@ export interface AppBuilderDependencies {
 type UseCaseMap = {
     analysis: {
         analyzeText: AnalyzeText;
+        checkGrammar: CheckGrammar;
+        checkManuscriptGrammar: CheckManuscriptGrammar;
         editChapters: EditChapters;
         generalChat: GeneralChat;
         loadChatHistory: LoadChatHistory;
@@ -271,6 +338,7 @@ type UseCaseMap = {
     };
     logistics: {
         saveChapterContent: SaveChapterContent;
+        saveChapterMetadata: SaveChapterMetadata;
         saveCharacterInfo: SaveCharacterInfo;
         saveLocationInfo: SaveLocationInfo;
         reorderLocationChildren: ReorderLocationChildren;
@@ -278,27 +346,47 @@ type UseCaseMap = {
         saveOrganizationInfo: SaveOrganizationInfo;
         saveProjectSettings: SaveProjectSettings;
         saveUserSettings: SaveUserSettings;
+        loadUserDictionary: LoadUserDictionary;
+        saveUserDictionary: SaveUserDictionary;
     };
     manuscript: {
         createChapter: CreateChapter;
+        createChapterSnapshot: CreateChapterSnapshot;
+        createCommentThread: CreateCommentThread;
         createScrapNote: CreateScrapNote;
         deleteChapter: DeleteChapter;
+        deleteCommentThread: DeleteCommentThread;
         deleteScrapNote: DeleteScrapNote;
+        editCommentMessage: EditCommentMessage;
+        loadChapterHistory: LoadChapterHistory;
+        mergeChapters: MergeChapters;
         moveChapter: MoveChapter;
         overwriteChapter: OverwriteChapter;
         overwriteScrapNote: OverwriteScrapNote;
         renameChapter: RenameChapter;
+        replyToCommentThread: ReplyToCommentThread;
+        saveChapterHistorySettings: SaveChapterHistorySettings;
+        setCommentThreadResolved: SetCommentThreadResolved;
+        splitChapter: SplitChapter;
         updateScrapNote: UpdateScrapNote;
     };
     project: {
         createProject: CreateProject;
         deleteProject: DeleteProject;
         exportManuscript: ExportManuscript;
+        exportProjectArchive: ExportProjectArchive;
+        exportWorldBible: ExportWorldBible;
         importProject: ImportProject;
+        importProjectArchive: ImportProjectArchive;
         loadProjectList: LoadProjectList;
         openProject: OpenProject;
         renameProject: RenameProject;
         reorderProjectItems: ReorderProjectItems;
+        saveExportSettings: SaveExportSettings;
+        saveWritingGoals: SaveWritingGoals;
+        saveProjectDictionary: SaveProjectDictionary;
+        saveGrammarSettings: SaveGrammarSettings;
+        searchProject: SearchProject;
     };
     world: {
         createCharacter: CreateCharacter;
@@ -400,6 +488,12 @@ export class AppBuilder {
 
         return {
             analysis: {
+                checkGrammar: new CheckGrammar(svc.languageTool),
+                checkManuscriptGrammar: new CheckManuscriptGrammar(
+                    repo.project,
+                    repo.chapter,
+                    svc.languageTool,
+                ),
                 analyzeText: new AnalyzeText(
                     svc.aiText,
                     repo.chapter,
@@ -571,15 +665,26 @@ export class AppBuilder {
                 ),
             },
             logistics: {
-                saveChapterContent: new SaveChapterContent(repo.chapter),
+                saveChapterContent: new SaveChapterContent(
+                    repo.chapter,
+                    repo.chapterSnapshot,
+                    repo.project,
+                    svc.searchIndex,
+                ),
+                saveChapterMetadata: new SaveChapterMetadata(
+                    repo.chapter,
+                    repo.character,
+                ),
                 saveCharacterInfo: new SaveCharacterInfo(
                     repo.character,
                     repo.location,
                     repo.organization,
+                    svc.searchIndex,
                 ),
                 saveLocationInfo: new SaveLocationInfo(
                     repo.location,
                     repo.project,
+                    svc.searchIndex,
                 ),
                 reorderLocationChildren: new ReorderLocationChildren(
                     repo.location,
@@ -592,29 +697,98 @@ export class AppBuilder {
                 saveOrganizationInfo: new SaveOrganizationInfo(
                     repo.organization,
                     repo.location,
+                    svc.searchIndex,
                 ),
                 saveProjectSettings: new SaveProjectSettings(repo.project),
                 saveUserSettings: new SaveUserSettings(
                     repo.user,
                     svc.sessionStore,
                 ),
+                loadUserDictionary: new LoadUserDictionary(repo.user),
+                saveUserDictionary: new SaveUserDictionary(
+                    repo.user,
+                    svc.sessionStore,
+                ),
             },
             manuscript: {
                 createChapter: new CreateChapter(repo.chapter, repo.project),
+                createChapterSnapshot: new CreateChapterSnapshot(
+                    repo.chapter,
+                    repo.chapterSnapshot,
+                ),
+                createCommentThread: new CreateCommentThread(
+                    repo.commentThread,
+                    repo.chapter,
+                    repo.project,
+                ),
                 createScrapNote: new CreateScrapNote(
                     repo.scrapNote,
                     repo.project,
                 ),
-                deleteChapter: new DeleteChapter(repo.chapter, repo.project),
+                deleteChapter: new DeleteChapter(
+                    repo.chapter,
+                    repo.project,
+                    repo.chapterSnapshot,
+                    repo.commentThread,
+                    svc.searchIndex,
+                ),
+                deleteCommentThread: new DeleteCommentThread(
+                    repo.commentThread,
+                ),
                 deleteScrapNote: new DeleteScrapNote(
                     repo.scrapNote,
                     repo.project,
+                    svc.searchIndex,
+                ),
+                editCommentMessage: new EditCommentMessage(repo.commentThread),
+                loadChapterHistory: new LoadChapterHistory(
+                    repo.chapterSnapshot,
+                ),
+                mergeChapters: new MergeChapters(
+                    repo.chapter,
+                    repo.project,
+                    repo.chapterSnapshot,
+                    repo.event,
+                    repo.scrapNote,
+                    repo.commentThread,
+                    svc.searchIndex,
                 ),
                 moveChapter: new MoveChapter(repo.project, repo.chapter),
-                overwriteChapter: new OverwriteChapter(repo.chapter),
-                overwriteScrapNote: new OverwriteScrapNote(repo.scrapNote),
-                renameChapter: new RenameChapter(repo.chapter),
-                updateScrapNote: new UpdateScrapNote(repo.scrapNote),
+                overwriteChapter: new OverwriteChapter(
+                    repo.chapter,
+                    repo.chapterSnapshot,
+                    svc.searchIndex,
+                ),
+                overwriteScrapNote: new OverwriteScrapNote(
+                    repo.scrapNote,
+                    svc.searchIndex,
+                ),
+                renameChapter: new RenameChapter(
+                    repo.chapter,
+                    svc.searchIndex,
+                ),
+                replyToCommentThread: new ReplyToCommentThread(
+                    repo.commentThread,
+                ),
+                saveChapterHistorySettings: new SaveChapterHistorySettings(
+                    repo.project,
+                    repo.chapterSnapshot,
+                ),
+                setCommentThreadResolved: new SetCommentThreadResolved(
+                    repo.commentThread,
+                ),
+                splitChapter: new SplitChapter(
+                    repo.chapter,
+                    repo.project,
+                    repo.chapterSnapshot,
+                    repo.event,
+                    repo.commentThread,
+                    svc.searchIndex,
+                ),
+                updateScrapNote: new UpdateScrapNote(
+                    repo.scrapNote,
+                    svc.searchIndex,
+                ),
             },
             project: {
                 createProject: new CreateProject(
@@ -635,12 +809,47 @@ export class AppBuilder {
                     svc.storage,
                     repo.chatConversation,
                     repo.user,
+                    repo.chapterSnapshot,
+                    repo.commentThread,
+                    svc.searchIndex,
                 ),
                 exportManuscript: new ExportManuscript(svc.export),
+                exportProjectArchive: new ExportProjectArchive(
+                    svc.projectArchive,
+                    repo.project,
+                    repo.chapter,
+                    repo.scrapNote,
+                    repo.character,
+                    repo.location,
+                    repo.organization,
+                    repo.timeline,
+                    repo.event,
+                    repo.metafieldDefinition,
+                    repo.metafieldAssignment,
+                    repo.editorTemplate,
+                    repo.asset,
+                    repo.chatConversation,
+                    repo.commentThread,
+                ),
+                exportWorldBible: new ExportWorldBible(
+                    svc.worldBibleExport,
+                    repo.project,
+                    repo.character,
+                    repo.location,
+                    repo.organization,
+                    repo.metafieldDefinition,
+                    repo.metafieldAssignment,
+                    repo.editorTemplate,
+                    repo.asset,
+                ),
                 importProject: new ImportProject(
                     svc.epubImport,
+                    svc.markdownImport,
+                    svc.docxImport,
+                    svc.scrivenerImport,
                     repo.project,
                     repo.chapter,
+                    repo.scrapNote,
                     repo.timeline,
                     repo.user,
                     svc.storage,
@@ -648,6 +857,25 @@ export class AppBuilder {
                     repo.metafieldDefinition,
                     repo.editorTemplate,
                 ),
+                importProjectArchive: new ImportProjectArchive(
+                    svc.projectArchive,
+                    repo.project,
+                    repo.chapter,
+                    repo.scrapNote,
+                    repo.character,
+                    repo.location,
+                    repo.organization,
+                    repo.timeline,
+                    repo.event,
+                    repo.metafieldDefinition,
+                    repo.metafieldAssignment,
+                    repo.editorTemplate,
+                    repo.asset,
+                    repo.chatConversation,
+                    repo.user,
+                    svc.storage,
+                    repo.commentThread,
+                ),
                 loadProjectList: new LoadProjectList(repo.project, repo.asset),
                 openProject: new OpenProject(
                     repo.project,
@@ -662,9 +890,23 @@ export class AppBuilder {
                     repo.metafieldDefinition,
                     repo.metafieldAssignment,
                     repo.editorTemplate,
+                    repo.commentThread,
+                    svc.searchIndex,
                 ),
                 renameProject: new RenameProject(repo.project),
                 reorderProjectItems: new ReorderProjectItems(repo.project),
+                saveExportSettings: new SaveExportSettings(repo.project),
+                saveWritingGoals: new SaveWritingGoals(repo.project),
+                saveProjectDictionary: new SaveProjectDictionary(repo.project),
+                saveGrammarSettings: new SaveGrammarSettings(repo.project),
+                searchProject: new SearchProject(
+                    repo.chapter,
+                    repo.scrapNote,
+                    repo.character,
+                    repo.location,
+                    repo.organization,
+                    svc.searchIndex,
+                ),
             },
             world: {
                 createCharacter: new CreateCharacter(
@@ -691,9 +933,11 @@ export class AppBuilder {
                 deleteCharacter: new DeleteCharacter(
                     repo.character,
                     repo.location,
+                    repo.chapter,
                     repo.project,
                     repo.asset,
                     svc.storage,
+                    svc.searchIndex,
                 ),
                 deleteLocation: new DeleteLocation(
                     repo.location,
@@ -702,6 +946,7 @@ export class AppBuilder {
                     repo.organization,
                     repo.asset,
                     svc.storage,
+                    svc.searchIndex,
                 ),
                 deleteOrganization: new DeleteOrganization(
                     repo.organization,
@@ -710,6 +955,7 @@ export class AppBuilder {
                     repo.location,
                     repo.asset,
                     svc.storage,
+                    svc.searchIndex,
                 ),
                 overwriteCharacter: new OverwriteCharacter(
                     repo.character,
@@ -753,6 +999,15 @@ export class AppBuilder {
                 analyzeText: new AnalyzeTextController(
                     useCases.analysis.analyzeText,
                 ),
+                checkGrammar: new CheckGrammarController(
+                    useCases.analysis.checkGrammar,
+                ),
+                checkManuscriptGrammar: new CheckManuscriptGrammarController(
+                    useCases.analysis.checkManuscriptGrammar,
+                ),
+                cancelManuscriptGrammar: new CancelManuscriptGrammarController(
+                    useCases.analysis.checkManuscriptGrammar,
+                ),
                 editChapters: new EditChaptersController(
                     useCases.analysis.editChapters,
                 ),
@@ -883,6 +1138,9 @@ export class AppBuilder {
                 saveChapterContent: new SaveChapterContentController(
                     useCases.logistics.saveChapterContent,
                 ),
+                saveChapterMetadata: new SaveChapterMetadataController(
+                    useCases.logistics.saveChapterMetadata,
+                ),
                 saveCharacterInfo: new SaveCharacterInfoController(
                     useCases.logistics.saveCharacterInfo,
                 ),
@@ -904,6 +1162,12 @@ export class AppBuilder {
                 saveUserSettings: new SaveUserSettingsController(
                     useCases.logistics.saveUserSettings,
                 ),
+                loadUserDictionary: new LoadUserDictionaryController(
+                    useCases.logistics.loadUserDictionary,
+                ),
+                saveUserDictionary: new SaveUserDictionaryController(
+                    useCases.logistics.saveUserDictionary,
+                ),
             },
             manuscript: {
                 createChapter: new CreateChapterController(
@@ -930,9 +1194,41 @@ export class AppBuilder {
                 overwriteChapter: new OverwriteChapterController(
                     useCases.manuscript.overwriteChapter,
                 ),
+                createChapterSnapshot: new CreateChapterSnapshotController(
+                    useCases.manuscript.createChapterSnapshot,
+                ),
+                loadChapterHistory: new LoadChapterHistoryController(
+                    useCases.manuscript.loadChapterHistory,
+                ),
+                saveChapterHistorySettings:
+                    new SaveChapterHistorySettingsController(
+                        useCases.manuscript.saveChapterHistorySettings,
+                    ),
                 overwriteScrapNote: new OverwriteScrapNoteController(
                     useCases.manuscript.overwriteScrapNote,
                 ),
+                splitChapter: new SplitChapterController(
+                    useCases.manuscript.splitChapter,
+                ),
+                mergeChapters: new MergeChaptersController(
+                    useCases.manuscript.mergeChapters,
+                ),
+                createCommentThread: new CreateCommentThreadController(
+                    useCases.manuscript.createCommentThread,
+                ),
+                replyToCommentThread: new ReplyToCommentThreadController(
+                    useCases.manuscript.replyToCommentThread,
+                ),
+                setCommentThreadResolved:
+                    new SetCommentThreadResolvedController(
+                        useCases.manuscript.setCommentThreadResolved,
+                    ),
+                editCommentMessage: new EditCommentMessageController(
+                    useCases.manuscript.editCommentMessage,
+                ),
+                deleteCommentThread: new DeleteCommentThreadController(
+                    useCases.manuscript.deleteCommentThread,
+                ),
             },
             project: {
                 createProject: new CreateProjectController(
@@ -944,9 +1240,18 @@ export class AppBuilder {
                 exportManuscript: new ExportManuscriptController(
                     useCases.project.exportManuscript,
                 ),
+                exportProjectArchive: new ExportProjectArchiveController(
+                    useCases.project.exportProjectArchive,
+                ),
+                exportWorldBible: new ExportWorldBibleController(
+                    useCases.project.exportWorldBible,
+                ),
                 importProject: new ImportProjectController(
                     useCases.project.importProject,
                 ),
+                importProjectArchive: new ImportProjectArchiveController(
+                    useCases.project.importProjectArchive,
+                ),
                 loadProjectList: new LoadProjectListController(
                     useCases.project.loadProjectList,
                 ),
@@ -959,6 +1264,21 @@ export class AppBuilder {
                 reorderProjectItems: new ReorderProjectItemsController(
                     useCases.project.reorderProjectItems,
                 ),
+                saveExportSettings: new SaveExportSettingsController(
+                    useCases.project.saveExportSettings,
+                ),
+                saveWritingGoals: new SaveWritingGoalsController(
+                    useCases.project.saveWritingGoals,
+                ),
+                saveProjectDictionary: new SaveProjectDictionaryController(
+                    useCases.project.saveProjectDictionary,
+                ),
+                saveGrammarSettings: new SaveGrammarSettingsController(
+                    useCases.project.saveGrammarSettings,
+                ),
+                searchProject: new SearchProjectController(
+                    useCases.project.searchProject,
+                ),
             },
             sync: {
                 getSyncState: new GetSyncStateController(this.syncStateGateway),
@@ -20,8 +20,15 @@ import { GeminiAITextService } from "../@infrastructure/ai/GeminiAITextService";
 import { ComfyAssetGenerationService } from "../@infrastructure/ai/ComfyAssetGenerationService";
 import { PlaylistGenerationService } from "../@infrastructure/ai/PlaylistGenerationService";
 import { ExportService } from "../@infrastructure/ai/ExportService";
+import { WorldBibleExportService } from "../@infrastructure/ai/WorldBibleExportService";
 import { EpubImportService } from "../@infrastructure/services/EpubImportService";
+import { MarkdownImportService } from "../@infrastructure/services/MarkdownImportService";
+import { DocxImportService } from "../@infrastructure/services/DocxImportService";
+import { ScrivenerImportService } from "../@infrastructure/services/ScrivenerImportService";
+import { ProjectArchiveService } from "../@infrastructure/services/ProjectArchiveService";
 import { GuestSessionTransitionService } from "../@infrastructure/services/GuestSessionTransitionService";
+import { SearchIndexService } from "../@infrastructure/services/SearchIndexService";
+import { languageToolService } from "../@infrastructure/services/LanguageToolService";
 
 import { FileSystemProjectRepository } from "../@infrastructure/db/filesystem/FileSystemProjectRepository";
 import { OfflineFirstProjectRepository } from "../@infrastructure/db/offline/OfflineFirstProjectRepository";
@@ -55,8 +62,12 @@ import { SupabaseMetafieldDefinitionRepository } from "../@infrastructure/db/Sup
 import { SupabaseMetafieldAssignmentRepository } from "../@infrastructure/db/SupabaseMetafieldAssignmentRepository";
 import { SupabaseEditorTemplateRepository } from "../@infrastructure/db/SupabaseEditorTemplateRepository";
 import { SupabaseBugReportRepository } from "../@infrastructure/db/SupabaseBugReportRepository";
+import { FileSystemChapterSnapshotRepository } from "../@infrastructure/db/filesystem/FileSystemChapterSnapshotRepository";
 import { FileSystemEditorTemplateRepository } from "../@infrastructure/db/filesystem/FileSystemEditorTemplateRepository";
 import { OfflineFirstEditorTemplateRepository } from "../@infrastructure/db/offline/OfflineFirstEditorTemplateRepository";
+import { SupabaseCommentThreadRepository } from "../@infrastructure/db/SupabaseCommentThreadRepository";
+import { FileSystemCommentThreadRepository } from "../@infrastructure/db/filesystem/FileSystemCommentThreadRepository";
+import { OfflineFirstCommentThreadRepository } from "../@infrastructure/db/offline/OfflineFirstCommentThreadRepository";
 
 export function resolveDependencies(): AppBuilderDependencies {
     const supabaseProjectRepo = new SupabaseProjectRepository();
@@ -73,6 +84,9 @@ export function resolveDependencies(): AppBuilderDependencies {
         fsChapterRepo,
     );
 
+    // Version history is kept on this device only
+    const chapterSnapshotRepository = new FileSystemChapterSnapshotRepository();
+
     const supabaseCharacterRepo = new SupabaseCharacterRepository();
     const fsCharacterRepo = new FileSystemCharacterRepository();
     const characterRepository = new OfflineFirstCharacterRepository(
@@ -159,9 +173,16 @@ export function resolveDependencies(): AppBuilderDependencies {
     const exportService = new ExportService(
         projectRepository,
         chapterRepository,
+        scrapNoteRepository,
+        assetRepository,
     );
 
     const epubImportService = new EpubImportService();
+    const markdownImportService = new MarkdownImportService();
+    const docxImportService = new DocxImportService();
+    const scrivenerImportService = new ScrivenerImportService();
+    const projectArchiveService = new ProjectArchiveService();
+    const worldBibleExportService = new WorldBibleExportService();
 
     const supabaseDeletionLogRepo = new SupabaseDeletionLogRepository();
 
@@ -202,6 +223,12 @@ export function resolveDependencies(): AppBuilderDependencies {
         supabaseEditorTemplateRepo,
         fsEditorTemplateRepo,
     );
+    const supabaseCommentThreadRepo = new SupabaseCommentThreadRepository();
+    const fsCommentThreadRepo = new FileSystemCommentThreadRepository();
+    const commentThreadRepository = new OfflineFirstCommentThreadRepository(
+        supabaseCommentThreadRepo,
+        fsCommentThreadRepo,
+    );
 
     const syncService = new SynchronizationService(
         supabaseProjectRepo,
@@ -224,6 +251,8 @@ export function resolveDependencies(): AppBuilderDependencies {
         fsMetafieldAssignmentRepo,
         supabaseEditorTemplateRepo,
         fsEditorTemplateRepo,
+        supabaseCommentThreadRepo,
+        fsCommentThreadRepo,
         supabaseDeletionLogRepo,
     );
 
@@ -231,8 +260,10 @@ export function resolveDependencies(): AppBuilderDependencies {
         repositories: {
             asset: assetRepository,
             chapter: chapterRepository,
+            chapterSnapshot: chapterSnapshotRepository,
             character: characterRepository,
             chatConversation: chatConversationRepository,
+            commentThread: commentThreadRepository,
             location: locationRepository,
             organization: organizationRepository,
             timeline: timelineRepository,
@@ -251,9 +282,16 @@ export function resolveDependencies(): AppBuilderDependencies {
             auth: authService,
             export: exportService,
             epubImport: epubImportService,
+            markdownImport: markdownImportService,
+            docxImport: docxImportService,
+            scrivenerImport: scrivenerImportService,
+            projectArchive: projectArchiveService,
+            worldBibleExport: worldBibleExportService,
             imageGeneration: imageGenerationService,
             playlistGeneration: playlistGenerationService,
             storage: storageService,
+            searchIndex: new SearchIndexService(),
+            languageTool: languageToolService,
             sessionStore,
             guestTransition: guestTransitionService,
         },
@@ -881,9 +881,106 @@ const setupContextMenu = (): void => {
                         });
                     },
                 },
+                {
+                    label: "Insert Footnote",
+                    click: () => {
+                        event.sender.send("context-menu-command", {
+                            command: "insert-footnote",
+                            data,
+                        });
+                    },
+                },
             );
+            if ((data as { chapterId?: string })?.chapterId) {
+                template.push(
+                    { type: "separator" },
+                    {
+                        label: "Split Chapter at Cursor",
+                        click: () => {
+                            event.sender.send("context-menu-command", {
+                                command: "split-chapter-at-cursor",
+                                data,
+                            });
+                        },
+                    },
+                    {
+                        label: "Merge with Next Chapter",
+                        click: () => {
+                            event.sender.send("context-menu-command", {
+                                command: "merge-with-next-chapter",
+                                data,
+                            });
+                        },
+                    },
+                );
+            }
         } else if (type === "binder_chapter") {
+            const binderData = data as {
+                kind?: string;
+                nodeType?: string;
+                isActive?: boolean;
+                canUndoMerge?: boolean;
+            };
+            if (binderData?.nodeType === "chapter") {
+                template.push(
+                    {
+                        label: "New Scene",
+                        click: () => {
+                            event.sender.send("context-menu-command", {
+                                command: "new-child",
+                                data,
+                            });
+                        },
+                    },
+                    { type: "separator" },
+                );
+            }
+            if (binderData?.kind === "chapter") {
+                template.push(
+                    {
+                        // The cursor position lives in the open editor
+                        label: "Split at Cursor",
+                        enabled: binderData.isActive === true,
+                        click: () => {
+                            event.sender.send("context-menu-command", {
+                                command: "split-chapter",
+                                data,
+                            });
+                        },
+                    },
+                    {
+                        label: "Merge with Next",
+                        click: () => {
+                            event.sender.send("context-menu-command", {
+                                command: "merge-chapter",
+                                data,
+                            });
+                        },
+                    },
+                    {
+                        // Only the last merge can be undone
+                        label: "Undo Merge",
+                        enabled: binderData.canUndoMerge === true,
+                        click: () => {
+                            event.sender.send("context-menu-command", {
+                                command: "undo-merge-chapter",
+                                data,
+                            });
+                        },
+                    },
+                    { type: "separator" },
+                );
+            }
             template.push(
+                {
+                    label: "Details…",
+                    click: () => {
+                        event.sender.send("context-menu-command", {
+                            command: "edit-details",
+                            data,
+                        });
+                    },
+                },
                 {
                     label: "Rename",
                     click: () => {
@@ -903,6 +1000,37 @@ const setupContextMenu = (): void => {
                     },
                 },
             );
+        } else if (type === "binder_part") {
+            template.push(
+                {
+                    label: "New Chapter",
+                    click: () => {
+                        event.sender.send("context-menu-command", {
+                            command: "new-child",
+                            data,
+                        });
+                    },
+                },
+                { type: "separator" },
+                {
+                    label: "Rename",
+                    click: () => {
+                        event.sender.send("context-menu-command", {
+                            command: "rename",
+                            data,
+                        });
+                    },
+                },
+                {
+                    label: "Delete Part",
+                    click: () => {
+                        event.sender.send("context-menu-command", {
+                            command: "delete-part",
+                            data,
+                        });
+                    },
+                },
+            );
         } else if (type === "binder_project") {
             template.push({
                 label: "Close Project",
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "../ui/Dialog";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Label } from "../ui/Label";
+import type {
+    ChapterLabel,
+    ChapterStatus,
+} from "../../../@core/domain/entities/story/Chapter";
+import {
+    CHAPTER_LABELS,
+    CHAPTER_LABEL_NAMES,
+    CHAPTER_STATUSES,
+    CHAPTER_STATUS_LABELS,
+} from "../../utils/chapterMetadata";
+
+type ChapterMetadata = {
+    status: ChapterStatus;
+    povCharacterId: string | null;
+    synopsis: string;
+    labels: ChapterLabel[];
+    tags: string[];
+};
+
+interface ChapterMetadataDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    chapter: (ChapterMetadata & { title: string }) | null;
+    /** Candidates for the point-of-view character. */
+    characters: { id: string; name: string }[];
+    onSave: (metadata: ChapterMetadata) => Promise<void>;
+}
+
+/** Tags are typed as one comma-separated line. */
+const parseTags = (value: string): string[] =>
+    value
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+
+export const ChapterMetadataDialog: React.FC<ChapterMetadataDialogProps> = ({
+    open,
+    onOpenChange,
+    chapter,
+    characters,
+    onSave,
+}) => {
+    const [status, setStatus] = useState<ChapterStatus>("draft");
+    const [povCharacterId, setPovCharacterId] = useState("");
+    const [synopsis, setSynopsis] = useState("");
+    const [labels, setLabels] = useState<ChapterLabel[]>([]);
+    const [tags, setTags] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from the chapter's saved details each time the dialog opens
+    useEffect(() => {
+        if (!open || !chapter) {
+            return;
+        }
+        setStatus(chapter.status);
+        setPovCharacterId(chapter.povCharacterId ?? "");
+        setSynopsis(chapter.synopsis);
+        setLabels(chapter.labels);
+        setTags(chapter.tags.join(", "));
+        setError(null);
+    }, [open, chapter]);
+
+    const toggleLabel = (label: ChapterLabel) =>
+        setLabels((current) =>
+            CHAPTER_LABELS.filter((candidate) =>
+                candidate === label
+                    ? !current.includes(candidate)
+                    : current.includes(candidate),
+            ),
+        );
+
+    const handleSave = useCallback(async () => {
+        setError(null);
+        setIsSaving(true);
+        try {
+            await onSave({
+                status,
+                povCharacterId: povCharacterId || null,
+                synopsis,
+                labels,
+                tags: parseTags(tags),
+            });
+            onOpenChange(false);
+        } catch (err) {
+            setError(
+                (err as Error)?.message ?? "Unable to save chapter details.",
+            );
+        } finally {
+            setIsSaving(false);
+        }
+    }, [onSave, status, povCharacterId, synopsis, labels, tags, onOpenChange]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="export-dialog-content">
+                <DialogHeader>
+                    <DialogTitle>Chapter Details</DialogTitle>
+                    <DialogDescription>
+                        {chapter?.title || "Untitled Chapter"}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="dialog-form">
+                    <div className="dialog-field">
+                        <Label>Status</Label>
+                        <div
+                            className="export-dialog-format-row"
+                            role="radiogroup"
+                        >
+                            {CHAPTER_STATUSES.map((option) => (
+                                <button
+                                    key={option}
+                                    type="button"
+                                    role="radio"
+                                    aria-checked={option === status}
+                                    className={
+                                        option === status
+                                            ? "export-dialog-format-btn is-active"
+                                            : "export-dialog-format-btn"
+                                    }
+                                    onClick={() => setStatus(option)}
+                                    disabled={isSaving}
+                                >
+                                    {CHAPTER_STATUS_LABELS[option]}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="chapter-pov">Point of view</Label>
+                        <select
+                            id="chapter-pov"
+                            className="input"
+                            value={povCharacterId}
+                            onChange={(e) => setPovCharacterId(e.target.value)}
+                            disabled={isSaving}
+                        >
+                            <option value="">None</option>
+                            {characters.map((character) => (
+                                <option key={character.id} value={character.id}>
+                                    {character.name || "Untitled Character"}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="chapter-synopsis">Synopsis</Label>
+                        <textarea
+                            id="chapter-synopsis"
+                            className="input"
+                            rows={3}
+                            value={synopsis}
+                            onChange={(e) => setSynopsis(e.target.value)}
+                            placeholder="What happens in this chapter"
+                            disabled={isSaving}
+                        />
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label>Labels</Label>
+                        <div className="chapter-label-row">
+                            {CHAPTER_LABELS.map((label) => (
+                                <button
+                                    key={label}
+                                    type="button"
+                                    className="chapter-label-swatch"
+                                    data-label={label}
+                                    aria-pressed={labels.includes(label)}
+                                    aria-label={CHAPTER_LABEL_NAMES[label]}
+                                    title={CHAPTER_LABEL_NAMES[label]}
+                                    onClick={() => toggleLabel(label)}
+                                    disabled={isSaving}
+                                />
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="chapter-tags">Tags</Label>
+                        <Input
+                            id="chapter-tags"
+                            value={tags}
+                            onChange={(e) => setTags(e.target.value)}
+                            placeholder="e.g. flashback, subplot"
+                            disabled={isSaving}
+                        />
+                    </div>
+
+                    {error ? (
+                        <div className="export-dialog-error">{error}</div>
+                    ) : null}
+
+                    <div className="dialog-actions">
+                        <Button
+                            variant="ghost"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="primary"
+                            onClick={handleSave}
+                            disabled={isSaving || !chapter}
+                        >
+                            {isSaving ? "Saving…" : "Save Details"}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
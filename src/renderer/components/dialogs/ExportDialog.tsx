@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import {
     Dialog,
     DialogContent,
@@ -9,58 +9,235 @@ import {
 import { Button } from "../ui/Button";
 import { Input } from "../ui/Input";
 import { Label } from "../ui/Label";
-import { FolderOpenIcon, DownloadIcon } from "../ui/Icons";
+import {
+    ChevronDownIcon,
+    ChevronRightIcon,
+    FolderOpenIcon,
+    DownloadIcon,
+} from "../ui/Icons";
+import type { ExportFormat } from "../../../@core/domain/services/IExportService";
+import type { ChapterStatus } from "../../../@core/domain/entities/story/Chapter";
+import {
+    DEFAULT_COMPILE_OPTIONS,
+    DEFAULT_EXPORT_SETTINGS,
+    type ChapterNumberingStyle,
+    type CompileOptions,
+    type CompilePreset,
+    type EpubCompileOptions,
+    type ExportSettings,
+    type FootnoteStyle,
+    type MentionStyle,
+} from "../../../@core/domain/entities/story/ExportSettings";
+import { sanitizeFilename } from "../../utils/filename";
+import {
+    CHAPTER_STATUSES,
+    CHAPTER_STATUS_LABELS,
+} from "../../utils/chapterMetadata";
 
 interface ExportDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     projectTitle: string;
-    chapterCount: number;
-    wordCount: number;
+    /** Manuscript chapters in order, for picking what to compile. */
+    chapters: {
+        id: string;
+        title: string;
+        status: ChapterStatus;
+        wordCount: number;
+    }[];
+    /** Options saved by the previous export, if any. */
+    exportSettings: ExportSettings | null;
+    hasCover: boolean;
+    /** Candidates for dedication, copyright and acknowledgement pages. */
+    scrapNotes: { id: string; title: string }[];
     onExport: (options: {
+        format: ExportFormat;
         filename: string;
         author: string;
         destinationPath: string;
+        settings: ExportSettings;
+        compile: CompileOptions;
     }) => Promise<void>;
+    /** Persists preset changes made without exporting. */
+    onSaveSettings: (settings: ExportSettings) => Promise<void>;
 }
 
-/**
- * Sanitises a string for use as a cross-platform filename.
- * Strips characters that are illegal on Windows/macOS/Linux and collapses
- * runs of whitespace into a single space.
- */
-function sanitizeFilename(raw: string): string {
-    return raw
-        .replace(/[<>:"/\\|?*]/g, "")
-        .split("")
-        .filter((char) => char.charCodeAt(0) >= 32)
-        .join("")
-        .replace(/\s+/g, " ")
-        .trim();
+interface ExportFormatOption {
+    id: ExportFormat;
+    label: string;
+    /** Null for formats written as a folder rather than a single file. */
+    extension: string | null;
+    description: string;
 }
 
+const EXPORT_FORMATS: ExportFormatOption[] = [
+    {
+        id: "epub",
+        label: "EPUB",
+        extension: "epub",
+        description: "Export your manuscript as an EPUB ebook.",
+    },
+    {
+        id: "docx",
+        label: "Word",
+        extension: "docx",
+        description:
+            "Export your manuscript as a Word document for editors and agents.",
+    },
+    {
+        id: "pdf",
+        label: "PDF",
+        extension: "pdf",
+        description:
+            "Export a print-ready PDF in standard manuscript format.",
+    },
+    {
+        id: "markdown",
+        label: "Markdown",
+        extension: null,
+        description:
+            "Export a folder with one Markdown file per chapter, ready for version control. It can be imported again later.",
+    },
+];
+
+const TOC_DEPTH_OPTIONS = [
+    { value: 1, label: "Chapters only" },
+    { value: 2, label: "Chapters and headings" },
+    { value: 3, label: "Chapters, headings and subheadings" },
+];
+
+const CHAPTER_NUMBERING_OPTIONS: {
+    value: ChapterNumberingStyle;
+    label: string;
+}[] = [
+    { value: "none", label: "Title only" },
+    { value: "words", label: "Chapter One" },
+    { value: "numerals", label: "1" },
+];
+
+const MATTER_FIELDS: {
+    key: "dedicationNoteId" | "copyrightNoteId" | "acknowledgementsNoteId";
+    label: string;
+}[] = [
+    { key: "dedicationNoteId", label: "Dedication" },
+    { key: "copyrightNoteId", label: "Copyright page" },
+    { key: "acknowledgementsNoteId", label: "Acknowledgements" },
+];
+
+const MENTION_STYLE_OPTIONS: { value: MentionStyle; label: string }[] = [
+    { value: "text", label: "As written" },
+    { value: "italic", label: "In italics" },
+    { value: "omit", label: "Removed" },
+];
+
+const FOOTNOTE_STYLE_OPTIONS: { value: FootnoteStyle; label: string }[] = [
+    { value: "popup", label: "Popup notes in EPUB, endnotes elsewhere" },
+    { value: "endnotes", label: "Endnotes after each chapter" },
+];
+
+const toCompileOptions = (preset: CompilePreset): CompileOptions => ({
+    chapterIds: preset.chapterIds,
+    statuses: preset.statuses ?? null,
+    sceneSeparator: preset.sceneSeparator,
+    stripComments: preset.stripComments,
+    stripImages: preset.stripImages,
+    mentionStyle: preset.mentionStyle,
+    footnoteStyle: preset.footnoteStyle ?? "popup",
+});
+
 export const ExportDialog: React.FC<ExportDialogProps> = ({
     open,
     onOpenChange,
     projectTitle,
-    chapterCount,
-    wordCount,
+    chapters,
+    exportSettings,
+    hasCover,
+    scrapNotes,
     onExport,
+    onSaveSettings,
 }) => {
     const [filename, setFilename] = useState(
         () => sanitizeFilename(projectTitle) || "manuscript",
     );
-    const [author, setAuthor] = useState("");
+    const [format, setFormat] = useState<ExportFormat>("epub");
+    const [author, setAuthor] = useState(() => exportSettings?.author ?? "");
+    const [epubOptions, setEpubOptions] = useState<EpubCompileOptions>(() => ({
+        ...DEFAULT_EXPORT_SETTINGS.epub,
+        ...exportSettings?.epub,
+    }));
+    const [showEpubOptions, setShowEpubOptions] = useState(false);
+    const [presets, setPresets] = useState<CompilePreset[]>([]);
+    const [presetId, setPresetId] = useState("");
+    const [compile, setCompile] = useState<CompileOptions>(
+        DEFAULT_COMPILE_OPTIONS,
+    );
+    const [showCompileOptions, setShowCompileOptions] = useState(false);
+    /** Name typed for a new preset; null while not saving one. */
+    const [presetName, setPresetName] = useState<string | null>(null);
     const [folder, setFolder] = useState("");
     const [isExporting, setIsExporting] = useState(false);
     const [error, setError] = useState<string | null>(null);
 
+    // Pick up the project's saved options each time the dialog opens
+    useEffect(() => {
+        if (!open) {
+            return;
+        }
+        setAuthor(exportSettings?.author ?? "");
+        setEpubOptions({
+            ...DEFAULT_EXPORT_SETTINGS.epub,
+            ...exportSettings?.epub,
+        });
+
+        const savedPresets = exportSettings?.presets ?? [];
+        const lastPreset = savedPresets.find(
+            (preset) => preset.id === exportSettings?.lastPresetId,
+        );
+        setPresets(savedPresets);
+        setPresetId(lastPreset?.id ?? "");
+        setCompile(
+            lastPreset ? toCompileOptions(lastPreset) : DEFAULT_COMPILE_OPTIONS,
+        );
+        setPresetName(null);
+    }, [open, exportSettings]);
+
+    const selectedChapters = compile.chapterIds
+        ? chapters.filter((chapter) =>
+              compile.chapterIds?.includes(chapter.id),
+          )
+        : chapters;
+    const compiledChapters = compile.statuses
+        ? selectedChapters.filter((chapter) =>
+              compile.statuses?.includes(chapter.status),
+          )
+        : selectedChapters;
+    const chapterCount = compiledChapters.length;
+    const wordCount = compiledChapters.reduce(
+        (sum, chapter) => sum + chapter.wordCount,
+        0,
+    );
+    const firstSelected = chapters.findIndex(
+        (chapter) => chapter.id === selectedChapters[0]?.id,
+    );
+    const lastSelected = chapters.findIndex(
+        (chapter) =>
+            chapter.id === selectedChapters[selectedChapters.length - 1]?.id,
+    );
+
+    const formatOption =
+        EXPORT_FORMATS.find((option) => option.id === format) ??
+        EXPORT_FORMATS[0];
+    const extension = formatOption.extension;
+    const suffix = extension ? `.${extension}` : "";
+
     const browseFolder = useCallback(async () => {
         try {
             const result = await window.fileDialog.showSaveDialog({
                 title: "Choose export location",
-                defaultPath: `${sanitizeFilename(filename) || "manuscript"}.epub`,
-                filters: [{ name: "EPUB", extensions: ["epub"] }],
+                defaultPath: `${sanitizeFilename(filename) || "manuscript"}${suffix}`,
+                filters: extension
+                    ? [{ name: formatOption.label, extensions: [extension] }]
+                    : undefined,
             });
             if (!result.canceled && result.filePath) {
                 // Extract directory from the full path
@@ -70,7 +247,9 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                 setFolder(parts.join(sep));
 
                 // If the user changed the filename in the native dialog, sync it back
-                const nameWithoutExt = file.replace(/\.epub$/i, "");
+                const nameWithoutExt = extension
+                    ? file.replace(new RegExp(`\\.${extension}$`, "i"), "")
+                    : file;
                 if (nameWithoutExt) {
                     setFilename(nameWithoutExt);
                 }
@@ -78,7 +257,7 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
         } catch {
             // User cancelled or Electron error – ignore
         }
-    }, [filename]);
+    }, [filename, extension, suffix, formatOption.label]);
 
     const handleExport = useCallback(async () => {
         setError(null);
@@ -93,12 +272,24 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
         setIsExporting(true);
         try {
             const sep = folder.includes("/") ? "/" : "\\";
-            const destinationPath = `${folder}${sep}${cleanFilename}.epub`;
+            const destinationPath = `${folder}${sep}${cleanFilename}${suffix}`;
 
             await onExport({
+                format,
                 filename: cleanFilename,
                 author: author.trim() || "Unknown",
                 destinationPath,
+                settings: {
+                    author: author.trim(),
+                    epub: epubOptions,
+                    presets: presets.map((preset) =>
+                        preset.id === presetId
+                            ? { ...preset, ...compile }
+                            : preset,
+                    ),
+                    lastPresetId: presetId || null,
+                },
+                compile,
             });
 
             onOpenChange(false);
@@ -107,7 +298,105 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
         } finally {
             setIsExporting(false);
         }
-    }, [filename, folder, author, onExport, onOpenChange]);
+    }, [
+        filename,
+        folder,
+        author,
+        epubOptions,
+        presets,
+        presetId,
+        compile,
+        format,
+        suffix,
+        onExport,
+        onOpenChange,
+    ]);
+
+    const persistPresets = async (
+        nextPresets: CompilePreset[],
+        nextPresetId: string,
+    ) => {
+        setError(null);
+        try {
+            await onSaveSettings({
+                author: author.trim(),
+                epub: epubOptions,
+                presets: nextPresets,
+                lastPresetId: nextPresetId || null,
+            });
+            setPresets(nextPresets);
+            setPresetId(nextPresetId);
+        } catch (err) {
+            setError((err as Error)?.message ?? "Could not save the preset.");
+        }
+    };
+
+    const selectPreset = (id: string) => {
+        const preset = presets.find((candidate) => candidate.id === id);
+        setPresetId(preset?.id ?? "");
+        setCompile(preset ? toCompileOptions(preset) : DEFAULT_COMPILE_OPTIONS);
+    };
+
+    const savePreset = async () => {
+        const name = presetName?.trim();
+        if (!name) {
+            return;
+        }
+        const preset: CompilePreset = {
+            ...compile,
+            id: crypto.randomUUID(),
+            name,
+        };
+        await persistPresets([...presets, preset], preset.id);
+        setPresetName(null);
+    };
+
+    const deletePreset = async () => {
+        await persistPresets(
+            presets.filter((preset) => preset.id !== presetId),
+            "",
+        );
+    };
+
+    const updateCompileOption = <K extends keyof CompileOptions>(
+        key: K,
+        value: CompileOptions[K],
+    ) => setCompile((prev) => ({ ...prev, [key]: value }));
+
+    const selectChapterRange = (from: number, to: number) =>
+        updateCompileOption(
+            "chapterIds",
+            chapters
+                .slice(Math.min(from, to), Math.max(from, to) + 1)
+                .map((chapter) => chapter.id),
+        );
+
+    const toggleChapter = (id: string, checked: boolean) =>
+        updateCompileOption(
+            "chapterIds",
+            chapters
+                .filter((chapter) =>
+                    chapter.id === id
+                        ? checked
+                        : selectedChapters.includes(chapter),
+                )
+                .map((chapter) => chapter.id),
+        );
+
+    const toggleStatus = (status: ChapterStatus, checked: boolean) =>
+        updateCompileOption(
+            "statuses",
+            CHAPTER_STATUSES.filter((candidate) =>
+                candidate === status
+                    ? checked
+                    : (compile.statuses ?? []).includes(candidate),
+            ),
+        );
+
+    const updateEpubOption = <K extends keyof EpubCompileOptions>(
+        key: K,
+        value: EpubCompileOptions[K],
+    ) => setEpubOptions((prev) => ({ ...prev, [key]: value }));
 
     const estimatedPages = Math.max(1, Math.ceil(wordCount / 250));
 
@@ -117,11 +406,413 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                 <DialogHeader>
                     <DialogTitle>Export Manuscript</DialogTitle>
                     <DialogDescription>
-                        Export your manuscript as an EPUB ebook.
+                        {formatOption.description}
                     </DialogDescription>
                 </DialogHeader>
 
                 <div className="dialog-form">
+                    <div className="dialog-field">
+                        <Label>Format</Label>
+                        <div className="export-dialog-format-row" role="radiogroup">
+                            {EXPORT_FORMATS.map((option) => (
+                                <button
+                                    key={option.id}
+                                    type="button"
+                                    role="radio"
+                                    aria-checked={option.id === format}
+                                    className={
+                                        option.id === format
+                                            ? "export-dialog-format-btn is-active"
+                                            : "export-dialog-format-btn"
+                                    }
+                                    onClick={() => setFormat(option.id)}
+                                    disabled={isExporting}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="export-preset">Compile preset</Label>
+                        <div className="export-dialog-preset-row">
+                            <select
+                                id="export-preset"
+                                className="input"
+                                value={presetId}
+                                onChange={(e) => selectPreset(e.target.value)}
+                                disabled={isExporting}
+                            >
+                                <option value="">Custom</option>
+                                {presets.map((preset) => (
+                                    <option key={preset.id} value={preset.id}>
+                                        {preset.name}
+                                    </option>
+                                ))}
+                            </select>
+                            {presetId ? (
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={deletePreset}
+                                    disabled={isExporting}
+                                >
+                                    Delete
+                                </Button>
+                            ) : null}
+                            <Button
+                                size="sm"
+                                onClick={() => setPresetName("")}
+                                disabled={isExporting || presetName !== null}
+                            >
+                                Save as…
+                            </Button>
+                        </div>
+                        {presetName !== null ? (
+                            <div className="export-dialog-preset-row">
+                                <Input
+                                    value={presetName}
+                                    onChange={(e) =>
+                                        setPresetName(e.target.value)
+                                    }
+                                    onKeyDown={(e) => {
+                                        if (e.key === "Enter") {
+                                            e.preventDefault();
+                                            void savePreset();
+                                        } else if (e.key === "Escape") {
+                                            e.stopPropagation();
+                                            setPresetName(null);
+                                        }
+                                    }}
+                                    placeholder="e.g. Beta readers – Act 1"
+                                    autoFocus
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setPresetName(null)}
+                                >
+                                    Cancel
+                                </Button>
+                                <Button
+                                    variant="primary"
+                                    size="sm"
+                                    onClick={savePreset}
+                                    disabled={!presetName.trim()}
+                                >
+                                    Save
+                                </Button>
+                            </div>
+                        ) : presetId ? (
+                            <span className="export-dialog-hint">
+                                Changes are saved to this preset when you
+                                export.
+                            </span>
+                        ) : null}
+                    </div>
+
+                    <div className="export-dialog-options">
+                        <button
+                            type="button"
+                            className="export-dialog-options-toggle"
+                            aria-expanded={showCompileOptions}
+                            onClick={() =>
+                                setShowCompileOptions((prev) => !prev)
+                            }
+                        >
+                            {showCompileOptions ? (
+                                <ChevronDownIcon size={14} />
+                            ) : (
+                                <ChevronRightIcon size={14} />
+                            )}
+                            Compile options
+                        </button>
+                        {showCompileOptions ? (
+                            <div className="export-dialog-options-body">
+                                <label className="export-dialog-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={compile.chapterIds === null}
+                                        onChange={(e) =>
+                                            updateCompileOption(
+                                                "chapterIds",
+                                                e.target.checked
+                                                    ? null
+                                                    : chapters.map(
+                                                          (chapter) =>
+                                                              chapter.id,
+                                                      ),
+                                            )
+                                        }
+                                        disabled={isExporting}
+                                    />
+                                    Export every chapter
+                                </label>
+
+                                {compile.chapterIds !== null ? (
+                                    <>
+                                        <div className="export-dialog-option-row">
+                                            <div className="dialog-field">
+                                                <Label htmlFor="export-range-start">
+                                                    From
+                                                </Label>
+                                                <select
+                                                    id="export-range-start"
+                                                    className="input"
+                                                    value={firstSelected}
+                                                    onChange={(e) =>
+                                                        selectChapterRange(
+                                                            Number(
+                                                                e.target.value,
+                                                            ),
+                                                            Math.max(
+                                                                lastSelected,
+                                                                0,
+                                                            ),
+                                                        )
+                                                    }
+                                                    disabled={isExporting}
+                                                >
+                                                    {firstSelected === -1 ? (
+                                                        <option value={-1}>
+                                                            —
+                                                        </option>
+                                                    ) : null}
+                                                    {chapters.map(
+                                                        (chapter, index) => (
+                                                            <option
+                                                                key={chapter.id}
+                                                                value={index}
+                                                            >
+                                                                {index + 1}.{" "}
+                                                                {chapter.title}
+                                                            </option>
+                                                        ),
+                                                    )}
+                                                </select>
+                                            </div>
+                                            <div className="dialog-field">
+                                                <Label htmlFor="export-range-end">
+                                                    To
+                                                </Label>
+                                                <select
+                                                    id="export-range-end"
+                                                    className="input"
+                                                    value={lastSelected}
+                                                    onChange={(e) =>
+                                                        selectChapterRange(
+                                                            Math.max(
+                                                                firstSelected,
+                                                                0,
+                                                            ),
+                                                            Number(
+                                                                e.target.value,
+                                                            ),
+                                                        )
+                                                    }
+                                                    disabled={isExporting}
+                                                >
+                                                    {lastSelected === -1 ? (
+                                                        <option value={-1}>
+                                                            —
+                                                        </option>
+                                                    ) : null}
+                                                    {chapters.map(
+                                                        (chapter, index) => (
+                                                            <option
+                                                                key={chapter.id}
+                                                                value={index}
+                                                            >
+                                                                {index + 1}.{" "}
+                                                                {chapter.title}
+                                                            </option>
+                                                        ),
+                                                    )}
+                                                </select>
+                                            </div>
+                                        </div>
+                                        <div className="export-dialog-chapter-list">
+                                            {chapters.map((chapter, index) => (
+                                                <label
+                                                    key={chapter.id}
+                                                    className="export-dialog-checkbox"
+                                                >
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedChapters.includes(
+                                                            chapter,
+                                                        )}
+                                                        onChange={(e) =>
+                                                            toggleChapter(
+                                                                chapter.id,
+                                                                e.target
+                                                                    .checked,
+                                                            )
+                                                        }
+                                                        disabled={isExporting}
+                                                    />
+                                                    {index + 1}.{" "}
+                                                    {chapter.title ||
+                                                        "Untitled chapter"}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </>
+                                ) : null}
+
+                                <label className="export-dialog-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={compile.statuses === null}
+                                        onChange={(e) =>
+                                            updateCompileOption(
+                                                "statuses",
+                                                e.target.checked
+                                                    ? null
+                                                    : ["final"],
+                                            )
+                                        }
+                                        disabled={isExporting}
+                                    />
+                                    Any revision status
+                                </label>
+                                {compile.statuses !== null ? (
+                                    <div className="export-dialog-status-row">
+                                        {CHAPTER_STATUSES.map((status) => (
+                                            <label
+                                                key={status}
+                                                className="export-dialog-checkbox"
+                                            >
+                                                <input
+                                                    type="checkbox"
+                                                    checked={compile.statuses?.includes(
+                                                        status,
+                                                    )}
+                                                    onChange={(e) =>
+                                                        toggleStatus(
+                                                            status,
+                                                            e.target.checked,
+                                                        )
+                                                    }
+                                                    disabled={isExporting}
+                                                />
+                                                {CHAPTER_STATUS_LABELS[status]}
+                                            </label>
+                                        ))}
+                                    </div>
+                                ) : null}
+
+                                <div className="export-dialog-option-row">
+                                    <div className="dialog-field">
+                                        <Label htmlFor="export-scene-separator">
+                                            Scene separator
+                                        </Label>
+                                        <Input
+                                            id="export-scene-separator"
+                                            value={compile.sceneSeparator}
+                                            onChange={(e) =>
+                                                updateCompileOption(
+                                                    "sceneSeparator",
+                                                    e.target.value,
+                                                )
+                                            }
+                                            placeholder="Horizontal rule"
+                                            disabled={isExporting}
+                                        />
+                                    </div>
+                                    <div className="dialog-field">
+                                        <Label htmlFor="export-mentions">
+                                            Mentions
+                                        </Label>
+                                        <select
+                                            id="export-mentions"
+                                            className="input"
+                                            value={compile.mentionStyle}
+                                            onChange={(e) =>
+                                                updateCompileOption(
+                                                    "mentionStyle",
+                                                    e.target
+                                                        .value as MentionStyle,
+                                                )
+                                            }
+                                            disabled={isExporting}
+                                        >
+                                            {MENTION_STYLE_OPTIONS.map(
+                                                (option) => (
+                                                    <option
+                                                        key={option.value}
+                                                        value={option.value}
+                                                    >
+                                                        {option.label}
+                                                    </option>
+                                                ),
+                                            )}
+                                        </select>
+                                    </div>
+                                </div>
+
+                                <div className="dialog-field">
+                                    <Label htmlFor="export-footnotes">
+                                        Footnotes
+                                    </Label>
+                                    <select
+                                        id="export-footnotes"
+                                        className="input"
+                                        value={compile.footnoteStyle}
+                                        onChange={(e) =>
+                                            updateCompileOption(
+                                                "footnoteStyle",
+                                                e.target.value as FootnoteStyle,
+                                            )
+                                        }
+                                        disabled={isExporting}
+                                    >
+                                        {FOOTNOTE_STYLE_OPTIONS.map(
+                                            (option) => (
+                                                <option
+                                                    key={option.value}
+                                                    value={option.value}
+                                                >
+                                                    {option.label}
+                                                </option>
+                                            ),
+                                        )}
+                                    </select>
+                                </div>
+
+                                <label className="export-dialog-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={compile.stripComments}
+                                        onChange={(e) =>
+                                            updateCompileOption(
+                                                "stripComments",
+                                                e.target.checked,
+                                            )
+                                        }
+                                        disabled={isExporting}
+                                    />
+                                    Strip comments
+                                </label>
+                                <label className="export-dialog-checkbox">
+                                    <input
+                                        type="checkbox"
+                                        checked={compile.stripImages}
+                                        onChange={(e) =>
+                                            updateCompileOption(
+                                                "stripImages",
+                                                e.target.checked,
+                                            )
+                                        }
+                                        disabled={isExporting}
+                                    />
+                                    Strip inline images
+                                </label>
+                            </div>
+                        ) : null}
+                    </div>
+
                     <div className="dialog-field">
                         <Label htmlFor="export-filename">Filename</Label>
                         <div className="export-dialog-filename-row">
@@ -132,7 +823,9 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                                 placeholder="manuscript"
                                 disabled={isExporting}
                             />
-                            <span className="export-dialog-ext">.epub</span>
+                            <span className="export-dialog-ext">
+                                {extension ? `.${extension}` : "folder"}
+                            </span>
                         </div>
                     </div>
 
@@ -147,6 +840,273 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                         />
                     </div>
 
+                    {format === "epub" ? (
+                        <div className="export-dialog-options">
+                            <button
+                                type="button"
+                                className="export-dialog-options-toggle"
+                                aria-expanded={showEpubOptions}
+                                onClick={() =>
+                                    setShowEpubOptions((prev) => !prev)
+                                }
+                            >
+                                {showEpubOptions ? (
+                                    <ChevronDownIcon size={14} />
+                                ) : (
+                                    <ChevronRightIcon size={14} />
+                                )}
+                                EPUB options
+                            </button>
+                            {showEpubOptions ? (
+                                <div className="export-dialog-options-body">
+                                    <label className="export-dialog-checkbox">
+                                        <input
+                                            type="checkbox"
+                                            checked={
+                                                hasCover &&
+                                                epubOptions.includeCover
+                                            }
+                                            disabled={!hasCover || isExporting}
+                                            onChange={(e) =>
+                                                updateEpubOption(
+                                                    "includeCover",
+                                                    e.target.checked,
+                                                )
+                                            }
+                                        />
+                                        {hasCover
+                                            ? "Use the project cover"
+                                            : "No project cover set"}
+                                    </label>
+
+                                    <div className="export-dialog-option-row">
+                                        <div className="dialog-field">
+                                            <Label htmlFor="export-language">
+                                                Language
+                                            </Label>
+                                            <Input
+                                                id="export-language"
+                                                value={epubOptions.language}
+                                                onChange={(e) =>
+                                                    updateEpubOption(
+                                                        "language",
+                                                        e.target.value,
+                                                    )
+                                                }
+                                                placeholder="en"
+                                                disabled={isExporting}
+                                            />
+                                        </div>
+                                        <div className="dialog-field">
+                                            <Label htmlFor="export-publisher">
+                                                Publisher
+                                            </Label>
+                                            <Input
+                                                id="export-publisher"
+                                                value={epubOptions.publisher}
+                                                onChange={(e) =>
+                                                    updateEpubOption(
+                                                        "publisher",
+                                                        e.target.value,
+                                                    )
+                                                }
+                                                placeholder="Defaults to the author"
+                                                disabled={isExporting}
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div className="dialog-field">
+                                        <Label htmlFor="export-identifier">
+                                            ISBN or identifier
+                                        </Label>
+                                        <Input
+                                            id="export-identifier"
+                                            value={epubOptions.identifier}
+                                            onChange={(e) =>
+                                                updateEpubOption(
+                                                    "identifier",
+                                                    e.target.value,
+                                                )
+                                            }
+                                            placeholder="Generated when empty"
+                                            disabled={isExporting}
+                                        />
+                                    </div>
+
+                                    <div className="export-dialog-option-row">
+                                        <div className="dialog-field">
+                                            <Label htmlFor="export-series">
+                                                Series
+                                            </Label>
+                                            <Input
+                                                id="export-series"
+                                                value={epubOptions.seriesName}
+                                                onChange={(e) =>
+                                                    updateEpubOption(
+                                                        "seriesName",
+                                                        e.target.value,
+                                                    )
+                                                }
+                                                placeholder="Series name"
+                                                disabled={isExporting}
+                                            />
+                                        </div>
+                                        <div className="dialog-field">
+                                            <Label htmlFor="export-series-index">
+                                                Book number
+                                            </Label>
+                                            <Input
+                                                id="export-series-index"
+                                                type="number"
+                                                min={0}
+                                                value={
+                                                    epubOptions.seriesIndex ??
+                                                    ""
+                                                }
+                                                onChange={(e) =>
+                                                    updateEpubOption(
+                                                        "seriesIndex",
+                                                        e.target.value === ""
+                                                            ? null
+                                                            : Number(
+                                                                  e.target
+                                                                      .value,
+                                                              ),
+                                                    )
+                                                }
+                                                disabled={
+                                                    isExporting ||
+                                                    !epubOptions.seriesName.trim()
+                                                }
+                                            />
+                                        </div>
+                                    </div>
+
+                                    <div className="dialog-field">
+                                        <Label htmlFor="export-description">
+                                            Description
+                                        </Label>
+                                        <textarea
+                                            id="export-description"
+                                            className="input"
+                                            rows={3}
+                                            value={epubOptions.description}
+                                            onChange={(e) =>
+                                                updateEpubOption(
+                                                    "description",
+                                                    e.target.value,
+                                                )
+                                            }
+                                            placeholder="Shown by ebook stores and readers"
+                                            disabled={isExporting}
+                                        />
+                                    </div>
+
+                                    {MATTER_FIELDS.map((field) => (
+                                        <div
+                                            key={field.key}
+                                            className="dialog-field"
+                                        >
+                                            <Label
+                                                htmlFor={`export-${field.key}`}
+                                            >
+                                                {field.label}
+                                            </Label>
+                                            <select
+                                                id={`export-${field.key}`}
+                                                className="input"
+                                                value={
+                                                    epubOptions[field.key] ?? ""
+                                                }
+                                                onChange={(e) =>
+                                                    updateEpubOption(
+                                                        field.key,
+                                                        e.target.value || null,
+                                                    )
+                                                }
+                                                disabled={isExporting}
+                                            >
+                                                <option value="">None</option>
+                                                {scrapNotes.map((note) => (
+                                                    <option
+                                                        key={note.id}
+                                                        value={note.id}
+                                                    >
+                                                        {note.title ||
+                                                            "Untitled note"}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    ))}
+
+                                    <div className="export-dialog-option-row">
+                                        <div className="dialog-field">
+                                            <Label htmlFor="export-toc-depth">
+                                                Table of contents
+                                            </Label>
+                                            <select
+                                                id="export-toc-depth"
+                                                className="input"
+                                                value={epubOptions.tocDepth}
+                                                onChange={(e) =>
+                                                    updateEpubOption(
+                                                        "tocDepth",
+                                                        Number(e.target.value),
+                                                    )
+                                                }
+                                                disabled={isExporting}
+                                            >
+                                                {TOC_DEPTH_OPTIONS.map(
+                                                    (option) => (
+                                                        <option
+                                                            key={option.value}
+                                                            value={option.value}
+                                                        >
+                                                            {option.label}
+                                                        </option>
+                                                    ),
+                                                )}
+                                            </select>
+                                        </div>
+                                        <div className="dialog-field">
+                                            <Label htmlFor="export-numbering">
+                                                Chapter headings
+                                            </Label>
+                                            <select
+                                                id="export-numbering"
+                                                className="input"
+                                                value={
+                                                    epubOptions.chapterNumbering
+                                                }
+                                                onChange={(e) =>
+                                                    updateEpubOption(
+                                                        "chapterNumbering",
+                                                        e.target
+                                                            .value as ChapterNumberingStyle,
+                                                    )
+                                                }
+                                                disabled={isExporting}
+                                            >
+                                                {CHAPTER_NUMBERING_OPTIONS.map(
+                                                    (option) => (
+                                                        <option
+                                                            key={option.value}
+                                                            value={option.value}
+                                                        >
+                                                            {option.label}
+                                                        </option>
+                                                    ),
+                                                )}
+                                            </select>
+                                        </div>
+                                    </div>
+                                </div>
+                            ) : null}
+                        </div>
+                    ) : null}
+
                     <div className="dialog-field">
                         <Label>Save location</Label>
                         <button
@@ -187,10 +1147,14 @@ export const ExportDialog: React.FC<ExportDialogProps> = ({
                             <Button
                                 variant="primary"
                                 onClick={handleExport}
-                                disabled={isExporting || !folder}
+                                disabled={
+                                    isExporting || !folder || chapterCount === 0
+                                }
                             >
                                 <DownloadIcon size={16} />
-                                {isExporting ? "Exporting…" : "Export EPUB"}
+                                {isExporting
+                                    ? "Exporting…"
+                                    : `Export ${formatOption.label}`}
                             </Button>
                         </div>
                     </div>
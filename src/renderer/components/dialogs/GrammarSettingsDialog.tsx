@@ -0,0 +1,285 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "../ui/Dialog";
+import { Button } from "../ui/Button";
+import { Label } from "../ui/Label";
+import {
+    DEFAULT_GRAMMAR_SETTINGS,
+    GRAMMAR_CATEGORIES,
+    GRAMMAR_LANGUAGES,
+    type GrammarSettings,
+} from "../../../@core/domain/entities/story/GrammarSettings";
+
+interface GrammarSettingsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    settings: GrammarSettings | null;
+    /** Manuscript chapters in order. */
+    chapters: { id: string; title: string }[];
+    onSave: (settings: GrammarSettings) => Promise<void>;
+}
+
+// Codes saved from elsewhere still show up, under their own name
+const languageOptions = (...selected: string[]) => [
+    ...GRAMMAR_LANGUAGES,
+    ...selected
+        .filter(
+            (code, index) =>
+                code &&
+                selected.indexOf(code) === index &&
+                !GRAMMAR_LANGUAGES.some((language) => language.code === code),
+        )
+        .map((code) => ({ code, label: code })),
+];
+
+export const GrammarSettingsDialog: React.FC<GrammarSettingsDialogProps> = ({
+    open,
+    onOpenChange,
+    settings,
+    chapters,
+    onSave,
+}) => {
+    const [draft, setDraft] = useState<GrammarSettings>(
+        DEFAULT_GRAMMAR_SETTINGS,
+    );
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from the saved settings each time the dialog opens
+    useEffect(() => {
+        if (!open) {
+            return;
+        }
+        setDraft(settings ?? DEFAULT_GRAMMAR_SETTINGS);
+        setError(null);
+    }, [open, settings]);
+
+    const isCategoryOn = (id: string, onByDefault: boolean) =>
+        onByDefault
+            ? !draft.disabledCategoryIds.includes(id)
+            : draft.enabledCategoryIds.includes(id);
+
+    const setCategoryOn = (id: string, onByDefault: boolean, on: boolean) => {
+        const without = (ids: string[]) => ids.filter((other) => other !== id);
+        setDraft((current) =>
+            onByDefault
+                ? {
+                      ...current,
+                      disabledCategoryIds: on
+                          ? without(current.disabledCategoryIds)
+                          : [...current.disabledCategoryIds, id],
+                  }
+                : {
+                      ...current,
+                      enabledCategoryIds: on
+                          ? [...current.enabledCategoryIds, id]
+                          : without(current.enabledCategoryIds),
+                  },
+        );
+    };
+
+    /** An empty language puts the chapter back on the project's. */
+    const setChapterLanguage = (chapterId: string, language: string) => {
+        setDraft((current) => ({
+            ...current,
+            chapters: [
+                ...current.chapters.filter(
+                    (chapter) => chapter.chapterId !== chapterId,
+                ),
+                ...(language ? [{ chapterId, language }] : []),
+            ],
+        }));
+    };
+
+    const handleSave = useCallback(async () => {
+        setError(null);
+        setIsSaving(true);
+        try {
+            await onSave(draft);
+            onOpenChange(false);
+        } catch (err) {
+            setError(
+                (err as Error)?.message ?? "Unable to save grammar settings.",
+            );
+        } finally {
+            setIsSaving(false);
+        }
+    }, [onSave, draft, onOpenChange]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="export-dialog-content">
+                <DialogHeader>
+                    <DialogTitle>Grammar &amp; Language</DialogTitle>
+                    <DialogDescription>
+                        How LanguageTool checks this project. Open chapters
+                        are checked again after saving.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="dialog-form">
+                    <div className="export-dialog-option-row">
+                        <div className="dialog-field">
+                            <Label htmlFor="grammar-settings-language">
+                                Language
+                            </Label>
+                            <select
+                                id="grammar-settings-language"
+                                className="input"
+                                value={draft.language}
+                                onChange={(e) =>
+                                    setDraft({
+                                        ...draft,
+                                        language: e.target.value,
+                                    })
+                                }
+                                disabled={isSaving}
+                            >
+                                {languageOptions(draft.language).map(
+                                    (language) => (
+                                        <option
+                                            key={language.code}
+                                            value={language.code}
+                                        >
+                                            {language.label}
+                                        </option>
+                                    ),
+                                )}
+                            </select>
+                        </div>
+                        <div className="dialog-field">
+                            <Label>Strictness</Label>
+                            <label className="export-dialog-checkbox">
+                                <input
+                                    type="checkbox"
+                                    checked={draft.level === "picky"}
+                                    onChange={(e) =>
+                                        setDraft({
+                                            ...draft,
+                                            level: e.target.checked
+                                                ? "picky"
+                                                : "default",
+                                        })
+                                    }
+                                    disabled={isSaving}
+                                />
+                                Picky mode
+                            </label>
+                            <div className="export-dialog-hint">
+                                Adds style and typography suggestions.
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label>Check for</Label>
+                        <div className="grammar-settings-categories">
+                            {GRAMMAR_CATEGORIES.map((category) => (
+                                <label
+                                    key={category.id}
+                                    className="export-dialog-checkbox"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={isCategoryOn(
+                                            category.id,
+                                            category.onByDefault,
+                                        )}
+                                        onChange={(e) =>
+                                            setCategoryOn(
+                                                category.id,
+                                                category.onByDefault,
+                                                e.target.checked,
+                                            )
+                                        }
+                                        disabled={isSaving}
+                                    />
+                                    {category.label}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {chapters.length > 0 ? (
+                        <div className="dialog-field">
+                            <Label>Chapter languages</Label>
+                            <div className="export-dialog-chapter-list">
+                                {chapters.map((chapter, index) => {
+                                    const language =
+                                        draft.chapters.find(
+                                            (override) =>
+                                                override.chapterId ===
+                                                chapter.id,
+                                        )?.language ?? "";
+                                    return (
+                                        <div
+                                            key={chapter.id}
+                                            className="grammar-settings-chapter"
+                                        >
+                                            <span className="grammar-settings-chapter-title">
+                                                {chapter.title ||
+                                                    `Chapter ${index + 1}`}
+                                            </span>
+                                            <select
+                                                className="input"
+                                                aria-label={`Language for ${chapter.title}`}
+                                                value={language}
+                                                onChange={(e) =>
+                                                    setChapterLanguage(
+                                                        chapter.id,
+                                                        e.target.value,
+                                                    )
+                                                }
+                                                disabled={isSaving}
+                                            >
+                                                <option value="">
+                                                    Project language
+                                                </option>
+                                                {languageOptions(language).map(
+                                                    (option) => (
+                                                        <option
+                                                            key={option.code}
+                                                            value={option.code}
+                                                        >
+                                                            {option.label}
+                                                        </option>
+                                                    ),
+                                                )}
+                                            </select>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ) : null}
+
+                    {error ? (
+                        <div className="export-dialog-error">{error}</div>
+                    ) : null}
+
+                    <div className="dialog-actions">
+                        <Button
+                            variant="ghost"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="primary"
+                            onClick={handleSave}
+                            disabled={isSaving}
+                        >
+                            {isSaving ? "Saving…" : "Save Settings"}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,417 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "../ui/Dialog";
+import { Button } from "../ui/Button";
+import type {
+    ManuscriptGrammarIssue,
+    ManuscriptGrammarProgress,
+    ManuscriptGrammarReport,
+} from "../../../@core/application/use-cases/analysis/CheckManuscriptGrammar";
+
+interface ManuscriptGrammarReportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    /** Rules the project ignores; their issues drop out of the report. */
+    disabledRuleIds: string[];
+    onRun: (
+        runId: string,
+        onProgress: (progress: ManuscriptGrammarProgress) => void,
+    ) => Promise<ManuscriptGrammarReport>;
+    onCancel: (runId: string) => Promise<void>;
+    onOpenIssue: (issue: ManuscriptGrammarIssue) => void;
+    onIgnoreRule: (ruleId: string) => Promise<void>;
+}
+
+type GroupBy = "category" | "chapter";
+
+type RuleGroup = {
+    ruleId: string;
+    description: string;
+    issues: ManuscriptGrammarIssue[];
+};
+
+type ReportGroup = {
+    key: string;
+    title: string;
+    count: number;
+    rules: RuleGroup[];
+};
+
+const plural = (count: number, noun: string, nouns = `${noun}s`) =>
+    `${count} ${count === 1 ? noun : nouns}`;
+
+const byCount = (a: { count: number }, b: { count: number }) =>
+    b.count - a.count;
+
+const groupByRule = (issues: ManuscriptGrammarIssue[]): RuleGroup[] => {
+    const rules = new Map<string, RuleGroup>();
+    for (const issue of issues) {
+        const rule = rules.get(issue.ruleId) ?? {
+            ruleId: issue.ruleId,
+            description: issue.ruleDescription || issue.ruleId,
+            issues: [],
+        };
+        rule.issues.push(issue);
+        rules.set(issue.ruleId, rule);
+    }
+    return [...rules.values()]
+        .map((rule) => ({ rule, count: rule.issues.length }))
+        .sort(byCount)
+        .map(({ rule }) => rule);
+};
+
+export const ManuscriptGrammarReportDialog: React.FC<
+    ManuscriptGrammarReportDialogProps
+> = ({
+    open,
+    onOpenChange,
+    disabledRuleIds,
+    onRun,
+    onCancel,
+    onOpenIssue,
+    onIgnoreRule,
+}) => {
+    // Kept while the dialog is closed, so a jump to an issue and back
+    // does not lose the report
+    const [report, setReport] = useState<ManuscriptGrammarReport | null>(
+        null,
+    );
+    const [progress, setProgress] = useState<ManuscriptGrammarProgress | null>(
+        null,
+    );
+    const [groupBy, setGroupBy] = useState<GroupBy>("category");
+    const [ignoringRuleId, setIgnoringRuleId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const runIdRef = useRef<string | null>(null);
+
+    const isRunning = progress !== null;
+    const failedChapters = report?.failedChapters ?? [];
+
+    const issues = useMemo(
+        () =>
+            (report?.issues ?? []).filter(
+                (issue) => !disabledRuleIds.includes(issue.ruleId),
+            ),
+        [report, disabledRuleIds],
+    );
+
+    const groups = useMemo((): ReportGroup[] => {
+        if (!report) {
+            return [];
+        }
+        if (groupBy === "chapter") {
+            return report.chapters.flatMap((chapter) => {
+                const chapterIssues = issues.filter(
+                    (issue) => issue.chapterId === chapter.id,
+                );
+                return chapterIssues.length > 0
+                    ? [
+                          {
+                              key: chapter.id,
+                              title: chapter.title,
+                              count: chapterIssues.length,
+                              rules: groupByRule(chapterIssues),
+                          },
+                      ]
+                    : [];
+            });
+        }
+
+        const categories = new Map<string, ManuscriptGrammarIssue[]>();
+        for (const issue of issues) {
+            categories.set(issue.categoryId, [
+                ...(categories.get(issue.categoryId) ?? []),
+                issue,
+            ]);
+        }
+        return [...categories.entries()]
+            .map(([categoryId, categoryIssues]) => ({
+                key: categoryId,
+                title: categoryIssues[0].categoryName || categoryId,
+                count: categoryIssues.length,
+                rules: groupByRule(categoryIssues),
+            }))
+            .sort(byCount);
+    }, [report, issues, groupBy]);
+
+    const chapterTitles = useMemo(
+        () =>
+            new Map(
+                (report?.chapters ?? []).map((chapter) => [
+                    chapter.id,
+                    chapter.title,
+                ]),
+            ),
+        [report],
+    );
+
+    const handleRun = async () => {
+        const runId = crypto.randomUUID();
+        runIdRef.current = runId;
+        setError(null);
+        setProgress({
+            runId,
+            checkedChapters: 0,
+            totalChapters: 0,
+            chapterTitle: null,
+        });
+        try {
+            const result = await onRun(runId, (next) => {
+                if (next.chapterTitle !== null) {
+                    setProgress(next);
+                }
+            });
+            setReport(result);
+        } catch (err) {
+            setError(
+                (err as Error)?.message ?? "Unable to check the manuscript.",
+            );
+        } finally {
+            runIdRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!runIdRef.current) {
+            return;
+        }
+        try {
+            await onCancel(runIdRef.current);
+        } catch (err) {
+            setError(
+                (err as Error)?.message ?? "Unable to stop the grammar check.",
+            );
+        }
+    };
+
+    // Nobody sees the report of a run left going in a closed dialog
+    const handleOpenChange = (nextOpen: boolean) => {
+        if (!nextOpen) {
+            void handleCancel();
+        }
+        onOpenChange(nextOpen);
+    };
+
+    const handleIgnoreRule = async (ruleId: string) => {
+        setError(null);
+        setIgnoringRuleId(ruleId);
+        try {
+            await onIgnoreRule(ruleId);
+        } catch (err) {
+            setError((err as Error)?.message ?? "Unable to ignore the rule.");
+        } finally {
+            setIgnoringRuleId(null);
+        }
+    };
+
+    const renderProgress = () => {
+        if (!progress || progress.totalChapters === 0) {
+            return "Starting the grammar checker…";
+        }
+        return `Checking “${progress.chapterTitle}” (${
+            progress.checkedChapters + 1
+        } of ${progress.totalChapters})…`;
+    };
+
+    const renderSummary = () => {
+        if (!report) {
+            return "Check every chapter and scene before submitting.";
+        }
+        const checked = report.cancelled
+            ? `Stopped after ${
+                  report.chapters.length + failedChapters.length
+              } of ${plural(
+                  report.totalChapters,
+                  "chapter",
+              )}`
+            : `Checked ${plural(report.chapters.length, "chapter")}`;
+        const found =
+            issues.length === 0
+                ? `${checked}; no issues found`
+                : `${checked}; ${plural(issues.length, "issue")} found`;
+        return failedChapters.length > 0
+            ? `${found}. ${plural(
+                  failedChapters.length,
+                  "chapter",
+              )} could not be checked.`
+            : `${found}.`;
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={handleOpenChange}>
+            <DialogContent className="export-dialog-content">
+                <DialogHeader>
+                    <DialogTitle>Grammar Report</DialogTitle>
+                    <DialogDescription>
+                        Grammar and style issues across the whole manuscript,
+                        with the project&rsquo;s language and dictionary.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="dialog-form">
+                    <div className="project-find-summary">
+                        <span className="export-dialog-hint">
+                            {isRunning ? renderProgress() : renderSummary()}
+                        </span>
+                        {report && !isRunning ? (
+                            <div className="grammar-report-group-by">
+                                <Button
+                                    variant={
+                                        groupBy === "category"
+                                            ? "secondary"
+                                            : "ghost"
+                                    }
+                                    size="sm"
+                                    onClick={() => setGroupBy("category")}
+                                >
+                                    By Category
+                                </Button>
+                                <Button
+                                    variant={
+                                        groupBy === "chapter"
+                                            ? "secondary"
+                                            : "ghost"
+                                    }
+                                    size="sm"
+                                    onClick={() => setGroupBy("chapter")}
+                                >
+                                    By Chapter
+                                </Button>
+                            </div>
+                        ) : null}
+                    </div>
+
+                    {failedChapters.length > 0 && !isRunning ? (
+                        <div className="export-dialog-error">
+                            Not checked:{" "}
+                            {failedChapters
+                                .map((chapter) => chapter.title)
+                                .join(", ")}
+                            . {failedChapters[0].error}
+                        </div>
+                    ) : null}
+
+                    {groups.length > 0 && !isRunning ? (
+                        <div className="project-find-preview">
+                            {groups.map((group) => (
+                                <div key={group.key}>
+                                    <div className="grammar-report-group-title">
+                                        {group.title}
+                                        <span className="grammar-report-count">
+                                            {group.count}
+                                        </span>
+                                    </div>
+                                    {group.rules.map((rule) => (
+                                        <div
+                                            key={rule.ruleId}
+                                            className="grammar-report-rule"
+                                        >
+                                            <div className="grammar-report-rule-header">
+                                                <span className="grammar-report-rule-title">
+                                                    {rule.description}
+                                                    <span className="grammar-report-count">
+                                                        {rule.issues.length}
+                                                    </span>
+                                                </span>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        void handleIgnoreRule(
+                                                            rule.ruleId,
+                                                        )
+                                                    }
+                                                    disabled={
+                                                        ignoringRuleId !== null
+                                                    }
+                                                >
+                                                    Ignore Everywhere
+                                                </Button>
+                                            </div>
+                                            {rule.issues.map((issue, index) => (
+                                                <button
+                                                    key={`${issue.chapterId}-${issue.blockIndex}-${issue.offset}-${index}`}
+                                                    type="button"
+                                                    className="grammar-report-issue"
+                                                    title={issue.message}
+                                                    onClick={() => {
+                                                        onOpenIssue(issue);
+                                                        onOpenChange(false);
+                                                    }}
+                                                >
+                                                    <span className="project-find-hit-text">
+                                                        {issue.snippet.before
+                                                            ? "…"
+                                                            : null}
+                                                        {issue.snippet.before}
+                                                        <mark className="grammar-report-issue-match">
+                                                            {
+                                                                issue.snippet
+                                                                    .match
+                                                            }
+                                                        </mark>
+                                                        {issue.snippet.after}
+                                                        {issue.snippet.after
+                                                            ? "…"
+                                                            : null}
+                                                    </span>
+                                                    <span className="grammar-report-issue-meta">
+                                                        {groupBy === "category"
+                                                            ? chapterTitles.get(
+                                                                  issue.chapterId,
+                                                              )
+                                                            : issue.message}
+                                                        {issue.replacements
+                                                            .length > 0
+                                                            ? ` → ${issue.replacements.join(
+                                                                  ", ",
+                                                              )}`
+                                                            : null}
+                                                    </span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    ) : null}
+
+                    {error ? (
+                        <div className="export-dialog-error">{error}</div>
+                    ) : null}
+
+                    <div className="dialog-actions">
+                        <Button
+                            variant="ghost"
+                            onClick={() => handleOpenChange(false)}
+                        >
+                            Close
+                        </Button>
+                        {isRunning ? (
+                            <Button
+                                variant="secondary"
+                                onClick={() => void handleCancel()}
+                            >
+                                Stop
+                            </Button>
+                        ) : (
+                            <Button
+                                variant="primary"
+                                onClick={() => void handleRun()}
+                            >
+                                {report ? "Check Again" : "Check Manuscript"}
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
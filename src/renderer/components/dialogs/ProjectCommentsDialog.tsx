@@ -0,0 +1,218 @@
+import React, { useMemo, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "../ui/Dialog";
+import { Button } from "../ui/Button";
+import type { WorkspaceCommentThread } from "../../types";
+
+interface ProjectCommentsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    threads: WorkspaceCommentThread[];
+    /** Manuscript chapters in order. */
+    chapters: { id: string; title: string }[];
+    onOpenChapter: (chapterId: string) => void;
+    onSetResolved: (threadId: string, resolved: boolean) => void;
+}
+
+const EXCERPT_LENGTH = 80;
+
+const formatDate = (value: Date | string) =>
+    new Date(value).toLocaleDateString(undefined, {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
+export const ProjectCommentsDialog: React.FC<ProjectCommentsDialogProps> = ({
+    open,
+    onOpenChange,
+    threads,
+    chapters,
+    onOpenChapter,
+    onSetResolved,
+}) => {
+    const [showResolved, setShowResolved] = useState(false);
+
+    const resolvedCount = threads.filter((thread) => thread.resolved).length;
+
+    // Threads grouped under their chapter, in manuscript order, oldest first
+    const groups = useMemo(
+        () =>
+            chapters.flatMap((chapter, index) => {
+                const chapterThreads = threads
+                    .filter(
+                        (thread) =>
+                            thread.chapterId === chapter.id &&
+                            (showResolved || !thread.resolved),
+                    )
+                    .sort(
+                        (a, b) =>
+                            new Date(a.createdAt).getTime() -
+                            new Date(b.createdAt).getTime(),
+                    );
+                return chapterThreads.length > 0
+                    ? [
+                          {
+                              chapterId: chapter.id,
+                              title: chapter.title || `Chapter ${index + 1}`,
+                              threads: chapterThreads,
+                          },
+                      ]
+                    : [];
+            }),
+        [chapters, threads, showResolved],
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="export-dialog-content">
+                <DialogHeader>
+                    <DialogTitle>Comments</DialogTitle>
+                    <DialogDescription>
+                        Comment threads across every chapter of the manuscript.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="dialog-form">
+                    {resolvedCount > 0 ? (
+                        <label className="comments-sidebar-filter">
+                            <input
+                                type="checkbox"
+                                checked={showResolved}
+                                onChange={(e) =>
+                                    setShowResolved(e.target.checked)
+                                }
+                            />
+                            Show resolved ({resolvedCount})
+                        </label>
+                    ) : null}
+
+                    {groups.length === 0 ? (
+                        <div className="export-dialog-hint">
+                            {resolvedCount > 0
+                                ? "No open comments."
+                                : "No comments yet."}
+                        </div>
+                    ) : (
+                        <div className="project-comments-list">
+                            {groups.map((group) => (
+                                <div
+                                    key={group.chapterId}
+                                    className="project-comments-chapter"
+                                >
+                                    <div className="comments-sidebar-section-label">
+                                        {group.title}
+                                    </div>
+                                    {group.threads.map((thread) => {
+                                        const [first] = thread.messages;
+                                        const replyCount =
+                                            thread.messages.length - 1;
+                                        return (
+                                            <div
+                                                key={thread.id}
+                                                className={
+                                                    thread.resolved
+                                                        ? "comments-sidebar-card comments-sidebar-card--resolved"
+                                                        : "comments-sidebar-card"
+                                                }
+                                                role="button"
+                                                tabIndex={0}
+                                                onClick={() => {
+                                                    onOpenChapter(
+                                                        thread.chapterId,
+                                                    );
+                                                    onOpenChange(false);
+                                                }}
+                                                onKeyDown={(e) => {
+                                                    if (
+                                                        e.target ===
+                                                            e.currentTarget &&
+                                                        e.key === "Enter"
+                                                    ) {
+                                                        onOpenChapter(
+                                                            thread.chapterId,
+                                                        );
+                                                        onOpenChange(false);
+                                                    }
+                                                }}
+                                            >
+                                                <div className="comments-sidebar-card-header">
+                                                    <span className="comments-sidebar-card-badge comments-sidebar-card-badge--user">
+                                                        {first?.authorName}
+                                                    </span>
+                                                    <span className="comments-sidebar-card-date">
+                                                        {formatDate(
+                                                            thread.createdAt,
+                                                        )}
+                                                    </span>
+                                                    {thread.resolved ? (
+                                                        <span className="comments-sidebar-card-status">
+                                                            Resolved
+                                                        </span>
+                                                    ) : null}
+                                                </div>
+                                                {thread.excerpt ? (
+                                                    <div className="comments-sidebar-card-excerpt">
+                                                        &ldquo;
+                                                        {thread.excerpt.length >
+                                                        EXCERPT_LENGTH
+                                                            ? thread.excerpt.slice(
+                                                                  0,
+                                                                  EXCERPT_LENGTH,
+                                                              ) + "…"
+                                                            : thread.excerpt}
+                                                        &rdquo;
+                                                    </div>
+                                                ) : null}
+                                                <div className="comments-sidebar-card-text">
+                                                    {first?.text}
+                                                </div>
+                                                <div className="comments-sidebar-card-actions-row">
+                                                    <span className="comments-sidebar-card-date">
+                                                        {replyCount === 1
+                                                            ? "1 reply"
+                                                            : `${replyCount} replies`}
+                                                    </span>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            onSetResolved(
+                                                                thread.id,
+                                                                !thread.resolved,
+                                                            );
+                                                        }}
+                                                    >
+                                                        {thread.resolved
+                                                            ? "Reopen"
+                                                            : "Resolve"}
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="dialog-actions">
+                        <Button
+                            variant="ghost"
+                            onClick={() => onOpenChange(false)}
+                        >
+                            Close
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
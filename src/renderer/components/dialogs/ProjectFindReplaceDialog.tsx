@@ -0,0 +1,446 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "../ui/Dialog";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Label } from "../ui/Label";
+import {
+    ALL_GLOBAL_SEARCH_SCOPES,
+    type GlobalFindAndReplaceRequest,
+    type GlobalReplaceHit,
+    type GlobalReplacePreview,
+    type GlobalSearchScope,
+    type UndoGlobalReplaceResponse,
+} from "../../state/globalSearchTypes";
+import { getSearchPatternError } from "../../utils/searchPattern";
+
+export type ProjectReplaceQuery = Omit<
+    GlobalFindAndReplaceRequest,
+    "projectId" | "excludedHitIds"
+>;
+
+interface ProjectFindReplaceDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onPreview: (query: ProjectReplaceQuery) => GlobalReplacePreview;
+    /** Resolves to the number of replacements made. */
+    onReplace: (
+        query: ProjectReplaceQuery,
+        excludedHitIds: string[],
+    ) => Promise<number>;
+    /** Whether there is a replace to undo. */
+    canUndo: boolean;
+    onUndo: () => Promise<UndoGlobalReplaceResponse>;
+    onOpenHit: (hit: GlobalReplaceHit) => void;
+}
+
+const SCOPE_LABELS: Record<GlobalSearchScope, string> = {
+    chapter: "Chapters",
+    scrapNote: "Scrap notes",
+    character: "Character descriptions",
+    location: "Location descriptions",
+    organization: "Organization descriptions",
+    metafield: "Metafield text",
+};
+
+// Keeps the list responsive; every hit is still replaced
+const PREVIEW_LIMIT = 500;
+
+const plural = (count: number, noun: string, nouns = `${noun}s`) =>
+    `${count} ${count === 1 ? noun : nouns}`;
+
+export const ProjectFindReplaceDialog: React.FC<
+    ProjectFindReplaceDialogProps
+> = ({
+    open,
+    onOpenChange,
+    onPreview,
+    onReplace,
+    canUndo,
+    onUndo,
+    onOpenHit,
+}) => {
+    const [find, setFind] = useState("");
+    const [replace, setReplace] = useState("");
+    const [caseSensitive, setCaseSensitive] = useState(false);
+    const [useRegex, setUseRegex] = useState(false);
+    const [wholeWord, setWholeWord] = useState(false);
+    const [scopes, setScopes] = useState<GlobalSearchScope[]>(
+        ALL_GLOBAL_SEARCH_SCOPES,
+    );
+    const [excludedHitIds, setExcludedHitIds] = useState<Set<string>>(
+        () => new Set(),
+    );
+    // Bumped after a replace or undo, which renumbers the hits
+    const [revision, setRevision] = useState(0);
+    const [isWorking, setIsWorking] = useState(false);
+    const [status, setStatus] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const query = useMemo<ProjectReplaceQuery>(
+        () => ({ find, replace, caseSensitive, useRegex, wholeWord, scopes }),
+        [find, replace, caseSensitive, useRegex, wholeWord, scopes],
+    );
+    const deferredQuery = useDeferredValue(query);
+
+    const patternError = find
+        ? getSearchPatternError(find, { caseSensitive, useRegex, wholeWord })
+        : null;
+
+    const hits = useMemo(() => {
+        if (
+            !open ||
+            !deferredQuery.find ||
+            deferredQuery.scopes?.length === 0 ||
+            getSearchPatternError(deferredQuery.find, {
+                caseSensitive: deferredQuery.caseSensitive ?? false,
+                useRegex: deferredQuery.useRegex ?? false,
+                wholeWord: deferredQuery.wholeWord ?? false,
+            })
+        ) {
+            return [];
+        }
+        return onPreview(deferredQuery).hits;
+    }, [open, deferredQuery, onPreview]);
+
+    // A new pattern numbers its hits afresh
+    useEffect(() => {
+        setExcludedHitIds(new Set());
+    }, [query, revision]);
+
+    useEffect(() => {
+        if (!open) {
+            setStatus(null);
+            setError(null);
+        }
+    }, [open]);
+
+    const includedCount = hits.filter(
+        (hit) => !excludedHitIds.has(hit.id),
+    ).length;
+
+    // Consecutive hits from the same text, in binder order
+    const groups = useMemo(() => {
+        const result: { key: string; hits: GlobalReplaceHit[] }[] = [];
+        for (const hit of hits.slice(0, PREVIEW_LIMIT)) {
+            const key = `${hit.scope}:${hit.documentId}:${hit.title}`;
+            const last = result[result.length - 1];
+            if (last?.key === key) {
+                last.hits.push(hit);
+            } else {
+                result.push({ key, hits: [hit] });
+            }
+        }
+        return result;
+    }, [hits]);
+
+    const toggleScope = (scope: GlobalSearchScope, checked: boolean) => {
+        setScopes((current) =>
+            ALL_GLOBAL_SEARCH_SCOPES.filter((item) =>
+                item === scope ? checked : current.includes(item),
+            ),
+        );
+    };
+
+    const toggleHit = (hitId: string, included: boolean) => {
+        setExcludedHitIds((current) => {
+            const next = new Set(current);
+            if (included) {
+                next.delete(hitId);
+            } else {
+                next.add(hitId);
+            }
+            return next;
+        });
+    };
+
+    const setAllIncluded = (included: boolean) => {
+        setExcludedHitIds(
+            included ? new Set() : new Set(hits.map((hit) => hit.id)),
+        );
+    };
+
+    const handleReplace = async () => {
+        setIsWorking(true);
+        setStatus(null);
+        setError(null);
+        try {
+            const replacements = await onReplace(query, [...excludedHitIds]);
+            setStatus(`Replaced ${plural(replacements, "occurrence")}.`);
+        } catch (err) {
+            setError((err as Error)?.message ?? "Replace failed.");
+        } finally {
+            setIsWorking(false);
+            setRevision((value) => value + 1);
+        }
+    };
+
+    const handleUndo = async () => {
+        setIsWorking(true);
+        setStatus(null);
+        setError(null);
+        try {
+            const { restored, skipped } = await onUndo();
+            setStatus(
+                skipped > 0
+                    ? `Restored ${plural(restored, "text")}; ${plural(
+                          skipped,
+                          "text",
+                      )} edited since were left as they are.`
+                    : `Restored ${plural(restored, "text")}.`,
+            );
+        } catch (err) {
+            setError((err as Error)?.message ?? "Undo failed.");
+        } finally {
+            setIsWorking(false);
+            setRevision((value) => value + 1);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="export-dialog-content">
+                <DialogHeader>
+                    <DialogTitle>Find and Replace in Project</DialogTitle>
+                    <DialogDescription>
+                        Review every change before replacing. The whole
+                        replace can be undone in one step.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="dialog-form">
+                    <div className="dialog-field">
+                        <Label htmlFor="project-find-term">Find</Label>
+                        <div className="project-find-row">
+                            <Input
+                                id="project-find-term"
+                                value={find}
+                                onChange={(e) => setFind(e.target.value)}
+                                aria-invalid={patternError ? true : undefined}
+                                disabled={isWorking}
+                                autoFocus
+                            />
+                            <button
+                                type="button"
+                                className={`editor-find-aa${caseSensitive ? " is-active" : ""}`}
+                                onClick={() => setCaseSensitive((v) => !v)}
+                                title="Match case"
+                                aria-pressed={caseSensitive}
+                            >
+                                Aa
+                            </button>
+                            <button
+                                type="button"
+                                className={`editor-find-aa editor-find-whole-word${wholeWord ? " is-active" : ""}`}
+                                onClick={() => setWholeWord((v) => !v)}
+                                title="Match whole word"
+                                aria-pressed={wholeWord}
+                            >
+                                ab
+                            </button>
+                            <button
+                                type="button"
+                                className={`editor-find-aa${useRegex ? " is-active" : ""}`}
+                                onClick={() => setUseRegex((v) => !v)}
+                                title="Use regular expression"
+                                aria-pressed={useRegex}
+                            >
+                                .*
+                            </button>
+                        </div>
+                        {patternError ? (
+                            <div className="export-dialog-error">
+                                {patternError}
+                            </div>
+                        ) : null}
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="project-replace-term">
+                            Replace with
+                        </Label>
+                        <Input
+                            id="project-replace-term"
+                            value={replace}
+                            onChange={(e) => setReplace(e.target.value)}
+                            placeholder={
+                                useRegex
+                                    ? "Use $1, $2… for groups"
+                                    : undefined
+                            }
+                            disabled={isWorking}
+                        />
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label>Search in</Label>
+                        <div className="project-find-scopes">
+                            {ALL_GLOBAL_SEARCH_SCOPES.map((scope) => (
+                                <label
+                                    key={scope}
+                                    className="export-dialog-checkbox"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={scopes.includes(scope)}
+                                        onChange={(e) =>
+                                            toggleScope(scope, e.target.checked)
+                                        }
+                                        disabled={isWorking}
+                                    />
+                                    {SCOPE_LABELS[scope]}
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+
+                    {find && !patternError ? (
+                        <div className="dialog-field">
+                            <div className="project-find-summary">
+                                <span className="export-dialog-hint">
+                                    {hits.length === 0
+                                        ? "No matches."
+                                        : `${includedCount} of ${plural(
+                                              hits.length,
+                                              "match",
+                                              "matches",
+                                          )} selected`}
+                                </span>
+                                {hits.length > 0 ? (
+                                    <>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() =>
+                                                setAllIncluded(true)
+                                            }
+                                            disabled={isWorking}
+                                        >
+                                            Select all
+                                        </Button>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() =>
+                                                setAllIncluded(false)
+                                            }
+                                            disabled={isWorking}
+                                        >
+                                            Select none
+                                        </Button>
+                                    </>
+                                ) : null}
+                            </div>
+
+                            {groups.length > 0 ? (
+                                <div className="project-find-preview">
+                                    {groups.map((group) => (
+                                        <div key={group.key}>
+                                            <button
+                                                type="button"
+                                                className="project-find-preview-title"
+                                                onClick={() => {
+                                                    onOpenHit(group.hits[0]);
+                                                    onOpenChange(false);
+                                                }}
+                                            >
+                                                {group.hits[0].title}
+                                            </button>
+                                            {group.hits.map((hit) => (
+                                                <label
+                                                    key={hit.id}
+                                                    className="project-find-hit"
+                                                >
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={
+                                                            !excludedHitIds.has(
+                                                                hit.id,
+                                                            )
+                                                        }
+                                                        onChange={(e) =>
+                                                            toggleHit(
+                                                                hit.id,
+                                                                e.target
+                                                                    .checked,
+                                                            )
+                                                        }
+                                                        disabled={isWorking}
+                                                    />
+                                                    <span className="project-find-hit-text">
+                                                        {hit.snippet
+                                                            .leadingEllipsis
+                                                            ? "…"
+                                                            : null}
+                                                        {hit.snippet.before}
+                                                        <del className="project-find-hit-match">
+                                                            {hit.snippet.match}
+                                                        </del>
+                                                        <ins className="project-find-hit-replacement">
+                                                            {hit.replacement}
+                                                        </ins>
+                                                        {hit.snippet.after}
+                                                        {hit.snippet
+                                                            .trailingEllipsis
+                                                            ? "…"
+                                                            : null}
+                                                    </span>
+                                                </label>
+                                            ))}
+                                        </div>
+                                    ))}
+                                </div>
+                            ) : null}
+
+                            {hits.length > PREVIEW_LIMIT ? (
+                                <div className="export-dialog-hint">
+                                    Showing the first {PREVIEW_LIMIT} matches.
+                                    The rest are replaced as well.
+                                </div>
+                            ) : null}
+                        </div>
+                    ) : null}
+
+                    {status ? (
+                        <div className="export-dialog-hint">{status}</div>
+                    ) : null}
+                    {error ? (
+                        <div className="export-dialog-error">{error}</div>
+                    ) : null}
+
+                    <div className="dialog-actions">
+                        {canUndo ? (
+                            <Button
+                                variant="ghost"
+                                onClick={() => void handleUndo()}
+                                disabled={isWorking}
+                            >
+                                Undo Last Replace
+                            </Button>
+                        ) : null}
+                        <Button
+                            variant="ghost"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isWorking}
+                        >
+                            Close
+                        </Button>
+                        <Button
+                            onClick={() => void handleReplace()}
+                            disabled={isWorking || includedCount === 0}
+                        >
+                            {isWorking
+                                ? "Working…"
+                                : `Replace ${includedCount > 0 ? includedCount : ""}`.trim()}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,215 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "../ui/Dialog";
+import { Button } from "../ui/Button";
+import { Label } from "../ui/Label";
+import {
+    EMPTY_PROJECT_DICTIONARY,
+    type ProjectDictionary,
+} from "../../../@core/domain/entities/story/ProjectDictionary";
+
+interface SpellingDictionaryDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    dictionary: ProjectDictionary | null;
+    userWords: string[];
+    onSaveProjectDictionary: (dictionary: ProjectDictionary) => Promise<void>;
+    onSaveUserWords: (words: string[]) => Promise<void>;
+}
+
+const toLines = (words: string[]) => words.join("\n");
+
+const fromLines = (text: string) =>
+    text
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean);
+
+const sameList = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((value, index) => value === b[index]);
+
+/**
+ * Words the spell checker accepts, one per line, and the grammar rules
+ * turned off for this project.
+ */
+export const SpellingDictionaryDialog: React.FC<
+    SpellingDictionaryDialogProps
+> = ({
+    open,
+    onOpenChange,
+    dictionary,
+    userWords,
+    onSaveProjectDictionary,
+    onSaveUserWords,
+}) => {
+    const saved = dictionary ?? EMPTY_PROJECT_DICTIONARY;
+    const [projectText, setProjectText] = useState("");
+    const [userText, setUserText] = useState("");
+    const [disabledRuleIds, setDisabledRuleIds] = useState<string[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from the saved lists each time the dialog opens
+    useEffect(() => {
+        if (!open) {
+            return;
+        }
+        setProjectText(toLines(dictionary?.words ?? []));
+        setUserText(toLines(userWords));
+        setDisabledRuleIds(dictionary?.disabledRuleIds ?? []);
+        setError(null);
+    }, [open, dictionary, userWords]);
+
+    const handleSave = useCallback(async () => {
+        setError(null);
+        setIsSaving(true);
+        try {
+            const projectWords = fromLines(projectText);
+            if (
+                !sameList(projectWords, saved.words) ||
+                !sameList(disabledRuleIds, saved.disabledRuleIds)
+            ) {
+                await onSaveProjectDictionary({
+                    words: projectWords,
+                    disabledRuleIds,
+                });
+            }
+            const nextUserWords = fromLines(userText);
+            if (!sameList(nextUserWords, userWords)) {
+                await onSaveUserWords(nextUserWords);
+            }
+            onOpenChange(false);
+        } catch (err) {
+            setError(
+                (err as Error)?.message ?? "Unable to save the dictionary.",
+            );
+        } finally {
+            setIsSaving(false);
+        }
+    }, [
+        projectText,
+        userText,
+        disabledRuleIds,
+        saved,
+        userWords,
+        onSaveProjectDictionary,
+        onSaveUserWords,
+        onOpenChange,
+    ]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="export-dialog-content">
+                <DialogHeader>
+                    <DialogTitle>Spelling Dictionary</DialogTitle>
+                    <DialogDescription>
+                        Character, location and organization names and their
+                        aliases are always accepted.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="dialog-form">
+                    <div className="dialog-field">
+                        <Label htmlFor="spelling-dictionary-project">
+                            Project words
+                        </Label>
+                        <textarea
+                            id="spelling-dictionary-project"
+                            className="text-area"
+                            value={projectText}
+                            onChange={(event) =>
+                                setProjectText(event.target.value)
+                            }
+                            placeholder="One word per line"
+                            rows={6}
+                            disabled={isSaving}
+                        />
+                        <div className="export-dialog-hint">
+                            Saved with the project and synced with it.
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="spelling-dictionary-user">
+                            My words
+                        </Label>
+                        <textarea
+                            id="spelling-dictionary-user"
+                            className="text-area"
+                            value={userText}
+                            onChange={(event) =>
+                                setUserText(event.target.value)
+                            }
+                            placeholder="One word per line"
+                            rows={4}
+                            disabled={isSaving}
+                        />
+                        <div className="export-dialog-hint">
+                            Accepted in all of your projects.
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label>Disabled rules</Label>
+                        {disabledRuleIds.length === 0 ? (
+                            <div className="export-dialog-hint">
+                                Use Disable Rule on a suggestion to stop
+                                checking it in this project.
+                            </div>
+                        ) : (
+                            <ul className="spelling-dictionary-rules">
+                                {disabledRuleIds.map((ruleId) => (
+                                    <li
+                                        key={ruleId}
+                                        className="spelling-dictionary-rule"
+                                    >
+                                        <code>{ruleId}</code>
+                                        <Button
+                                            variant="ghost"
+                                            onClick={() =>
+                                                setDisabledRuleIds((current) =>
+                                                    current.filter(
+                                                        (id) => id !== ruleId,
+                                                    ),
+                                                )
+                                            }
+                                            disabled={isSaving}
+                                        >
+                                            Enable
+                                        </Button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+
+                    {error ? (
+                        <div className="export-dialog-error">{error}</div>
+                    ) : null}
+
+                    <div className="dialog-actions">
+                        <Button
+                            variant="ghost"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="primary"
+                            onClick={handleSave}
+                            disabled={isSaving}
+                        >
+                            {isSaving ? "Saving…" : "Save Dictionary"}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
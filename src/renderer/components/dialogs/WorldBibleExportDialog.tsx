@@ -0,0 +1,250 @@
+import React, { useState, useCallback } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "../ui/Dialog";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Label } from "../ui/Label";
+import { FolderOpenIcon, DownloadIcon } from "../ui/Icons";
+import type { WorldBibleFormat } from "../../../@core/domain/services/IWorldBibleExportService";
+import { sanitizeFilename } from "../../utils/filename";
+
+interface WorldBibleExportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    projectTitle: string;
+    characterCount: number;
+    locationCount: number;
+    organizationCount: number;
+    onExport: (options: {
+        format: WorldBibleFormat;
+        destinationPath: string;
+    }) => Promise<void>;
+}
+
+interface WorldBibleFormatOption {
+    id: WorldBibleFormat;
+    label: string;
+    extension: string;
+    description: string;
+}
+
+const WORLD_BIBLE_FORMATS: WorldBibleFormatOption[] = [
+    {
+        id: "html",
+        label: "HTML",
+        extension: "html",
+        description:
+            "Export a single web page with every character, location and organization, portraits included.",
+    },
+    {
+        id: "pdf",
+        label: "PDF",
+        extension: "pdf",
+        description:
+            "Export a printable world bible to share with editors and co-writers.",
+    },
+    {
+        id: "markdown",
+        label: "Markdown",
+        extension: "md",
+        description:
+            "Export a Markdown file, with portraits copied into a folder beside it.",
+    },
+];
+
+const pluralize = (count: number, singular: string, plural: string) =>
+    `${count} ${count === 1 ? singular : plural}`;
+
+export const WorldBibleExportDialog: React.FC<WorldBibleExportDialogProps> = ({
+    open,
+    onOpenChange,
+    projectTitle,
+    characterCount,
+    locationCount,
+    organizationCount,
+    onExport,
+}) => {
+    const defaultFilename = `${sanitizeFilename(projectTitle) || "project"} World Bible`;
+    const [filename, setFilename] = useState(() => defaultFilename);
+    const [format, setFormat] = useState<WorldBibleFormat>("html");
+    const [folder, setFolder] = useState("");
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const formatOption =
+        WORLD_BIBLE_FORMATS.find((option) => option.id === format) ??
+        WORLD_BIBLE_FORMATS[0];
+    const extension = formatOption.extension;
+    const isEmpty = characterCount + locationCount + organizationCount === 0;
+
+    const browseFolder = useCallback(async () => {
+        try {
+            const result = await window.fileDialog.showSaveDialog({
+                title: "Choose export location",
+                defaultPath: `${sanitizeFilename(filename) || defaultFilename}.${extension}`,
+                filters: [{ name: formatOption.label, extensions: [extension] }],
+            });
+            if (!result.canceled && result.filePath) {
+                const sep = result.filePath.includes("/") ? "/" : "\\";
+                const parts = result.filePath.split(sep);
+                const file = parts.pop() || "";
+                setFolder(parts.join(sep));
+
+                const nameWithoutExt = file.replace(
+                    new RegExp(`\\.${extension}$`, "i"),
+                    "",
+                );
+                if (nameWithoutExt) {
+                    setFilename(nameWithoutExt);
+                }
+            }
+        } catch {
+            // User cancelled or Electron error – ignore
+        }
+    }, [filename, defaultFilename, extension, formatOption.label]);
+
+    const handleExport = useCallback(async () => {
+        setError(null);
+
+        if (!folder) {
+            setError("Please choose a save location first.");
+            return;
+        }
+
+        setIsExporting(true);
+        try {
+            const cleanFilename = sanitizeFilename(filename) || defaultFilename;
+            const sep = folder.includes("/") ? "/" : "\\";
+
+            await onExport({
+                format,
+                destinationPath: `${folder}${sep}${cleanFilename}.${extension}`,
+            });
+
+            onOpenChange(false);
+        } catch (err) {
+            setError((err as Error)?.message ?? "Export failed.");
+        } finally {
+            setIsExporting(false);
+        }
+    }, [
+        filename,
+        defaultFilename,
+        folder,
+        format,
+        extension,
+        onExport,
+        onOpenChange,
+    ]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="export-dialog-content">
+                <DialogHeader>
+                    <DialogTitle>Export World Bible</DialogTitle>
+                    <DialogDescription>
+                        {formatOption.description}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="dialog-form">
+                    <div className="dialog-field">
+                        <Label>Format</Label>
+                        <div className="export-dialog-format-row" role="radiogroup">
+                            {WORLD_BIBLE_FORMATS.map((option) => (
+                                <button
+                                    key={option.id}
+                                    type="button"
+                                    role="radio"
+                                    aria-checked={option.id === format}
+                                    className={
+                                        option.id === format
+                                            ? "export-dialog-format-btn is-active"
+                                            : "export-dialog-format-btn"
+                                    }
+                                    onClick={() => setFormat(option.id)}
+                                    disabled={isExporting}
+                                >
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="world-bible-filename">Filename</Label>
+                        <div className="export-dialog-filename-row">
+                            <Input
+                                id="world-bible-filename"
+                                value={filename}
+                                onChange={(e) => setFilename(e.target.value)}
+                                placeholder={defaultFilename}
+                                disabled={isExporting}
+                            />
+                            <span className="export-dialog-ext">
+                                .{extension}
+                            </span>
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label>Save location</Label>
+                        <button
+                            type="button"
+                            className="export-dialog-location-btn"
+                            onClick={browseFolder}
+                            disabled={isExporting}
+                        >
+                            <FolderOpenIcon size={16} />
+                            <span className="export-dialog-location-text">
+                                {folder || "Choose a folder…"}
+                            </span>
+                        </button>
+                    </div>
+
+                    {error ? (
+                        <div className="export-dialog-error">{error}</div>
+                    ) : null}
+
+                    <div className="export-dialog-footer">
+                        <span className="export-dialog-summary">
+                            {pluralize(characterCount, "character", "characters")}
+                            {" · "}
+                            {pluralize(locationCount, "location", "locations")}
+                            {" · "}
+                            {pluralize(
+                                organizationCount,
+                                "organization",
+                                "organizations",
+                            )}
+                        </span>
+                        <div className="dialog-actions">
+                            <Button
+                                variant="ghost"
+                                onClick={() => onOpenChange(false)}
+                                disabled={isExporting}
+                            >
+                                Cancel
+                            </Button>
+                            <Button
+                                variant="primary"
+                                onClick={handleExport}
+                                disabled={isExporting || !folder || isEmpty}
+                            >
+                                <DownloadIcon size={16} />
+                                {isExporting
+                                    ? "Exporting…"
+                                    : `Export ${formatOption.label}`}
+                            </Button>
+                        </div>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogDescription,
+} from "../ui/Dialog";
+import { Button } from "../ui/Button";
+import { Input } from "../ui/Input";
+import { Label } from "../ui/Label";
+import type {
+    WordTarget,
+    WritingGoals,
+} from "../../../@core/domain/entities/story/WritingGoals";
+import {
+    calculateStreak,
+    getWordTargetProgress,
+    getWordsWrittenOn,
+    toLocalDateKey,
+} from "../../utils/writingGoals";
+
+interface WritingGoalsDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    goals: WritingGoals | null;
+    /** Manuscript chapters in order, with their current word counts. */
+    chapters: { id: string; title: string; wordCount: number }[];
+    onSave: (goals: Omit<WritingGoals, "log">) => Promise<void>;
+}
+
+type TargetDraft = { words: string; deadline: string };
+
+const HISTORY_DAYS = 14;
+
+const EMPTY_TARGET_DRAFT: TargetDraft = { words: "", deadline: "" };
+
+const toTargetDraft = (target: WordTarget | null | undefined): TargetDraft =>
+    target
+        ? { words: String(target.words), deadline: target.deadline ?? "" }
+        : EMPTY_TARGET_DRAFT;
+
+/** Null when the words field is left empty, which clears the target. */
+const fromTargetDraft = (draft: TargetDraft): WordTarget | null =>
+    draft.words.trim()
+        ? { words: Number(draft.words), deadline: draft.deadline || null }
+        : null;
+
+const formatInt = (value: number): string =>
+    value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+/** One line describing where a target stands, e.g. "1,200 / 3,000 · 150 a day for 12 days". */
+const describeProgress = (target: WordTarget | null, current: number) => {
+    if (!target || !Number.isFinite(target.words) || target.words < 1) {
+        return `${formatInt(current)} words`;
+    }
+
+    const progress = getWordTargetProgress(target, current);
+    const base = `${formatInt(progress.current)} / ${formatInt(progress.target)}`;
+    if (progress.remaining === 0) {
+        return `${base} · target reached`;
+    }
+    if (progress.daysLeft === null) {
+        return `${base} · ${formatInt(progress.remaining)} to go`;
+    }
+    if (progress.wordsPerDay === null) {
+        return `${base} · deadline passed`;
+    }
+    return `${base} · ${formatInt(progress.wordsPerDay)} a day for ${progress.daysLeft} ${
+        progress.daysLeft === 1 ? "day" : "days"
+    }`;
+};
+
+export const WritingGoalsDialog: React.FC<WritingGoalsDialogProps> = ({
+    open,
+    onOpenChange,
+    goals,
+    chapters,
+    onSave,
+}) => {
+    const [projectDraft, setProjectDraft] =
+        useState<TargetDraft>(EMPTY_TARGET_DRAFT);
+    const [dailyWords, setDailyWords] = useState("");
+    const [chapterDrafts, setChapterDrafts] = useState<
+        Record<string, TargetDraft>
+    >({});
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from the saved goals each time the dialog opens
+    useEffect(() => {
+        if (!open) {
+            return;
+        }
+        setProjectDraft(toTargetDraft(goals?.project));
+        setDailyWords(goals?.dailyWords ? String(goals.dailyWords) : "");
+        setChapterDrafts(
+            Object.fromEntries(
+                (goals?.chapters ?? []).map((target) => [
+                    target.chapterId,
+                    toTargetDraft(target),
+                ]),
+            ),
+        );
+        setError(null);
+    }, [open, goals]);
+
+    const manuscriptWords = useMemo(
+        () => chapters.reduce((sum, chapter) => sum + chapter.wordCount, 0),
+        [chapters],
+    );
+
+    const recentDays = useMemo(() => {
+        const byDate = new Map(
+            (goals?.log ?? []).map((entry) => [entry.date, entry.words]),
+        );
+        const days: { date: string; label: string; words: number }[] = [];
+        for (let offset = HISTORY_DAYS - 1; offset >= 0; offset -= 1) {
+            const day = new Date();
+            day.setDate(day.getDate() - offset);
+            const date = toLocalDateKey(day);
+            days.push({
+                date,
+                label: day.toLocaleDateString(undefined, {
+                    weekday: "short",
+                    month: "short",
+                    day: "numeric",
+                }),
+                words: byDate.get(date) ?? 0,
+            });
+        }
+        return days;
+    }, [goals]);
+
+    const busiestDay = Math.max(1, ...recentDays.map((day) => day.words));
+    const streak = calculateStreak(goals);
+    const writtenToday = getWordsWrittenOn(goals);
+
+    const updateChapterDraft = (
+        chapterId: string,
+        patch: Partial<TargetDraft>,
+    ) => {
+        setChapterDrafts((current) => ({
+            ...current,
+            [chapterId]: {
+                ...(current[chapterId] ?? EMPTY_TARGET_DRAFT),
+                ...patch,
+            },
+        }));
+    };
+
+    const handleSave = useCallback(async () => {
+        setError(null);
+        setIsSaving(true);
+        try {
+            await onSave({
+                project: fromTargetDraft(projectDraft),
+                chapters: Object.entries(chapterDrafts).flatMap(
+                    ([chapterId, draft]) => {
+                        const target = fromTargetDraft(draft);
+                        return target ? [{ chapterId, ...target }] : [];
+                    },
+                ),
+                dailyWords: dailyWords.trim() ? Number(dailyWords) : null,
+            });
+            onOpenChange(false);
+        } catch (err) {
+            setError((err as Error)?.message ?? "Unable to save goals.");
+        } finally {
+            setIsSaving(false);
+        }
+    }, [onSave, projectDraft, chapterDrafts, dailyWords, onOpenChange]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="export-dialog-content">
+                <DialogHeader>
+                    <DialogTitle>Writing Goals</DialogTitle>
+                    <DialogDescription>
+                        Words written are counted each time a chapter saves.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="dialog-form">
+                    <div className="writing-goals-summary">
+                        <div className="writing-goals-stat">
+                            <span className="writing-goals-stat-value">
+                                {writtenToday > 0 ? "+" : ""}
+                                {formatInt(writtenToday)}
+                            </span>
+                            <span className="writing-goals-stat-label">
+                                today
+                            </span>
+                        </div>
+                        <div className="writing-goals-stat">
+                            <span className="writing-goals-stat-value">
+                                {streak}
+                            </span>
+                            <span className="writing-goals-stat-label">
+                                day streak
+                            </span>
+                        </div>
+                        <div className="writing-goals-stat">
+                            <span className="writing-goals-stat-value">
+                                {formatInt(manuscriptWords)}
+                            </span>
+                            <span className="writing-goals-stat-label">
+                                total words
+                            </span>
+                        </div>
+                    </div>
+
+                    <div
+                        className="writing-goals-history"
+                        aria-label={`Words written over the last ${HISTORY_DAYS} days`}
+                    >
+                        {recentDays.map((day) => (
+                            <div
+                                key={day.date}
+                                className={
+                                    day.words > 0
+                                        ? "writing-goals-history-bar"
+                                        : "writing-goals-history-bar is-empty"
+                                }
+                                style={{
+                                    height: `${Math.max(0, day.words / busiestDay) * 100}%`,
+                                }}
+                                title={`${day.label}: ${formatInt(day.words)} words`}
+                            />
+                        ))}
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="writing-goals-project-words">
+                            Manuscript target
+                        </Label>
+                        <div className="writing-goals-target-row">
+                            <Input
+                                id="writing-goals-project-words"
+                                type="number"
+                                min={1}
+                                step={1}
+                                placeholder="Words"
+                                value={projectDraft.words}
+                                onChange={(e) =>
+                                    setProjectDraft({
+                                        ...projectDraft,
+                                        words: e.target.value,
+                                    })
+                                }
+                                disabled={isSaving}
+                            />
+                            <Input
+                                type="date"
+                                aria-label="Manuscript deadline"
+                                value={projectDraft.deadline}
+                                onChange={(e) =>
+                                    setProjectDraft({
+                                        ...projectDraft,
+                                        deadline: e.target.value,
+                                    })
+                                }
+                                disabled={isSaving}
+                            />
+                        </div>
+                        <div className="export-dialog-hint">
+                            {describeProgress(
+                                fromTargetDraft(projectDraft),
+                                manuscriptWords,
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="dialog-field">
+                        <Label htmlFor="writing-goals-daily">
+                            Daily goal
+                        </Label>
+                        <Input
+                            id="writing-goals-daily"
+                            type="number"
+                            min={1}
+                            step={1}
+                            placeholder="Any words count toward a streak"
+                            value={dailyWords}
+                            onChange={(e) => setDailyWords(e.target.value)}
+                            disabled={isSaving}
+                        />
+                    </div>
+
+                    {chapters.length > 0 ? (
+                        <div className="dialog-field">
+                            <Label>Chapter targets</Label>
+                            <div className="export-dialog-chapter-list writing-goals-chapter-list">
+                                {chapters.map((chapter, index) => {
+                                    const draft =
+                                        chapterDrafts[chapter.id] ??
+                                        EMPTY_TARGET_DRAFT;
+                                    return (
+                                        <div
+                                            key={chapter.id}
+                                            className="writing-goals-chapter"
+                                        >
+                                            <div className="writing-goals-chapter-title">
+                                                {chapter.title ||
+                                                    `Chapter ${index + 1}`}
+                                            </div>
+                                            <div className="writing-goals-target-row">
+                                                <Input
+                                                    type="number"
+                                                    min={1}
+                                                    step={1}
+                                                    placeholder="Words"
+                                                    aria-label={`Target for ${chapter.title}`}
+                                                    value={draft.words}
+                                                    onChange={(e) =>
+                                                        updateChapterDraft(
+                                                            chapter.id,
+                                                            {
+                                                                words: e.target
+                                                                    .value,
+                                                            },
+                                                        )
+                                                    }
+                                                    disabled={isSaving}
+                                                />
+                                                <Input
+                                                    type="date"
+                                                    aria-label={`Deadline for ${chapter.title}`}
+                                                    value={draft.deadline}
+                                                    onChange={(e) =>
+                                                        updateChapterDraft(
+                                                            chapter.id,
+                                                            {
+                                                                deadline:
+                                                                    e.target
+                                                                        .value,
+                                                            },
+                                                        )
+                                                    }
+                                                    disabled={isSaving}
+                                                />
+                                            </div>
+                                            <div className="export-dialog-hint">
+                                                {describeProgress(
+                                                    fromTargetDraft(draft),
+                                                    chapter.wordCount,
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    ) : null}
+
+                    {error ? (
+                        <div className="export-dialog-error">{error}</div>
+                    ) : null}
+
+                    <div className="dialog-actions">
+                        <Button
+                            variant="ghost"
+                            onClick={() => onOpenChange(false)}
+                            disabled={isSaving}
+                        >
+                            Cancel
+                        </Button>
+                        <Button
+                            variant="primary"
+                            onClick={handleSave}
+                            disabled={isSaving}
+                        >
+                            {isSaving ? "Saving…" : "Save Goals"}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+};
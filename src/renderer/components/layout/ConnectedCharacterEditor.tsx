@@ -1,5 +1,8 @@
 import React from "react";
 import { useAppStore } from "../../state/appStore";
+import { EntityAppearancesPanel } from "../workspace/EntityAppearancesPanel";
+import type { EntityAppearanceHit } from "../../utils/entityAppearances";
+import { useEntityAppearanceIndex } from "../../utils/useEntityAppearanceIndex";
 import {
     CharacterEditor,
     type CharacterEditorActionLog,
@@ -56,7 +59,9 @@ export const ConnectedCharacterEditor: React.FC<
         clearDocumentEditorDirty,
         setActiveDocument,
         consumePendingTitleFocus,
+        revealInDocument,
     } = useAppStore();
+    const appearanceIndex = useEntityAppearanceIndex();
 
     const editorSelection = React.useMemo(
         () => ({ kind: "character", id: characterId }) as const,
@@ -484,6 +489,7 @@ export const ConnectedCharacterEditor: React.FC<
 
             const payload = {
                 name: values.name,
+                aliases: values.aliases,
                 description: values.description,
                 currentLocationId: values.currentLocationId || null,
                 backgroundLocationId: values.backgroundLocationId || null,
@@ -904,50 +910,69 @@ export const ConnectedCharacterEditor: React.FC<
         [character, importAsset, projectId],
     );
 
+    const handleOpenAppearance = React.useCallback(
+        (hit: EntityAppearanceHit) =>
+            revealInDocument({
+                kind: hit.documentKind,
+                id: hit.documentId,
+                blockIndex: hit.blockIndex,
+                offset: hit.offset,
+                length: hit.length,
+            }),
+        [revealInDocument],
+    );
+
     if (!character) {
         return <div className="empty-editor">Character not found.</div>;
     }
 
     return (
-        <CharacterEditor
-            projectId={projectId}
-            character={character}
-            locations={locations}
-            organizations={organizations}
-            allCharacters={characters}
-            metafieldDefinitions={visibleMetafieldDefinitions}
-            metafieldAssignments={visibleCharacterMetafieldAssignments}
-            imageOptions={imageOptions}
-            galleryImageIds={galleryImageIds}
-            gallerySources={gallerySources}
-            songUrl={songUrl}
-            availableDocuments={availableDocuments}
-            onSubmit={handleSubmit}
-            onGeneratePortrait={handleGeneratePortrait}
-            onImportPortrait={handleImportPortrait}
-            onDeletePortrait={handleDeletePortrait}
-            onGenerateSong={handleGenerateSong}
-            onImportSong={handleImportSong}
-            onGeneratePlaylist={handleGeneratePlaylist}
-            onImportPlaylist={handleImportPlaylist}
-            onCreateOrReuseMetafieldDefinition={
-                handleCreateOrReuseMetafieldDefinition
-            }
-            onSaveMetafieldSelectOptions={handleSaveMetafieldSelectOptions}
-            onAssignMetafieldToEntity={handleAssignMetafieldToEntity}
-            onSaveMetafieldValue={handleSaveMetafieldValue}
-            onRemoveMetafieldFromEntity={handleRemoveMetafieldFromEntity}
-            onDeleteMetafieldDefinitionGlobal={
-                handleDeleteMetafieldDefinitionGlobal
-            }
-            onImportMetafieldImage={handleImportMetafieldImage}
-            editorTemplate={characterEditorTemplate}
-            onActionLog={handleActionLog}
-            onSectionLayoutSync={handleSectionLayoutSync}
-            initialSectionPlacement={initialSectionPlacement}
-            onDirtyStateChange={handleDirtyStateChange}
-            onNavigateToDocument={handleNavigateToDocument}
-            focusTitleOnMount={focusTitleOnMount}
-        />
+        <>
+            <CharacterEditor
+                projectId={projectId}
+                character={character}
+                locations={locations}
+                organizations={organizations}
+                allCharacters={characters}
+                metafieldDefinitions={visibleMetafieldDefinitions}
+                metafieldAssignments={visibleCharacterMetafieldAssignments}
+                imageOptions={imageOptions}
+                galleryImageIds={galleryImageIds}
+                gallerySources={gallerySources}
+                songUrl={songUrl}
+                availableDocuments={availableDocuments}
+                onSubmit={handleSubmit}
+                onGeneratePortrait={handleGeneratePortrait}
+                onImportPortrait={handleImportPortrait}
+                onDeletePortrait={handleDeletePortrait}
+                onGenerateSong={handleGenerateSong}
+                onImportSong={handleImportSong}
+                onGeneratePlaylist={handleGeneratePlaylist}
+                onImportPlaylist={handleImportPlaylist}
+                onCreateOrReuseMetafieldDefinition={
+                    handleCreateOrReuseMetafieldDefinition
+                }
+                onSaveMetafieldSelectOptions={handleSaveMetafieldSelectOptions}
+                onAssignMetafieldToEntity={handleAssignMetafieldToEntity}
+                onSaveMetafieldValue={handleSaveMetafieldValue}
+                onRemoveMetafieldFromEntity={handleRemoveMetafieldFromEntity}
+                onDeleteMetafieldDefinitionGlobal={
+                    handleDeleteMetafieldDefinitionGlobal
+                }
+                onImportMetafieldImage={handleImportMetafieldImage}
+                editorTemplate={characterEditorTemplate}
+                onActionLog={handleActionLog}
+                onSectionLayoutSync={handleSectionLayoutSync}
+                initialSectionPlacement={initialSectionPlacement}
+                onDirtyStateChange={handleDirtyStateChange}
+                onNavigateToDocument={handleNavigateToDocument}
+                focusTitleOnMount={focusTitleOnMount}
+            />
+            <EntityAppearancesPanel
+                appearances={appearanceIndex?.[characterId] ?? null}
+                isLoading={appearanceIndex === null}
+                onOpenHit={handleOpenAppearance}
+            />
+        </>
     );
 };
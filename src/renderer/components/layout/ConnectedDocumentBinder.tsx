@@ -10,6 +10,9 @@ export const ConnectedDocumentBinder: React.FC<{
     onEditTemplate?: (kind: "character" | "location" | "organization") => void;
 }> = ({ activeKind, onActiveKindChange, showTabbar, onEditTemplate }) => {
     const chapters = useAppStore((state) => state.chapters);
+    const manuscriptStructure = useAppStore(
+        (state) => state.workspaceProject?.manuscriptStructure ?? null,
+    );
     const scrapNotes = useAppStore((state) => state.scrapNotes);
     const characters = useAppStore((state) => state.characters);
     const locations = useAppStore((state) => state.locations);
@@ -37,7 +40,13 @@ export const ConnectedDocumentBinder: React.FC<{
     const deleteCharacter = useAppStore((state) => state.deleteCharacter);
     const deleteLocation = useAppStore((state) => state.deleteLocation);
     const deleteOrganization = useAppStore((state) => state.deleteOrganization);
-    const reorderChapters = useAppStore((state) => state.reorderChapters);
+    const moveManuscriptNode = useAppStore((state) => state.moveManuscriptNode);
+    const createManuscriptPart = useAppStore(
+        (state) => state.createManuscriptPart,
+    );
+    const deleteManuscriptPart = useAppStore(
+        (state) => state.deleteManuscriptPart,
+    );
     const reorderScrapNotes = useAppStore((state) => state.reorderScrapNotes);
     const reorderCharacters = useAppStore((state) => state.reorderCharacters);
     const reorderLocations = useAppStore((state) => state.reorderLocations);
@@ -51,6 +60,7 @@ export const ConnectedDocumentBinder: React.FC<{
     return (
         <DocumentBinder
             chapters={chapters}
+            manuscriptStructure={manuscriptStructure}
             scrapNotes={scrapNotes}
             characters={characters}
             locations={locations}
@@ -71,7 +81,9 @@ export const ConnectedDocumentBinder: React.FC<{
             onDeleteCharacter={deleteCharacter}
             onDeleteLocation={deleteLocation}
             onDeleteOrganization={deleteOrganization}
-            onReorderChapters={reorderChapters}
+            onMoveManuscriptNode={moveManuscriptNode}
+            onCreatePart={createManuscriptPart}
+            onDeletePart={deleteManuscriptPart}
             onReorderScrapNotes={reorderScrapNotes}
             onReorderCharacters={reorderCharacters}
             onReorderLocations={reorderLocations}
@@ -1,5 +1,8 @@
 import React from "react";
 import { useAppStore } from "../../state/appStore";
+import { EntityAppearancesPanel } from "../workspace/EntityAppearancesPanel";
+import type { EntityAppearanceHit } from "../../utils/entityAppearances";
+import { useEntityAppearanceIndex } from "../../utils/useEntityAppearanceIndex";
 import {
     LocationEditor,
     type LocationEditorValues,
@@ -50,7 +53,9 @@ export const ConnectedLocationEditor: React.FC<
         clearDocumentEditorDirty,
         setActiveDocument,
         consumePendingTitleFocus,
+        revealInDocument,
     } = useAppStore();
+    const appearanceIndex = useEntityAppearanceIndex();
 
     const editorSelection = React.useMemo(
         () => ({ kind: "location", id: locationId }) as const,
@@ -165,6 +170,7 @@ export const ConnectedLocationEditor: React.FC<
 
             const payload = {
                 name: values.name,
+                aliases: values.aliases,
                 parentLocationId: values.parentLocationId || null,
                 description: values.description,
             };
@@ -577,6 +583,18 @@ export const ConnectedLocationEditor: React.FC<
         [importAsset, location, projectId],
     );
 
+    const handleOpenAppearance = React.useCallback(
+        (hit: EntityAppearanceHit) =>
+            revealInDocument({
+                kind: hit.documentKind,
+                id: hit.documentId,
+                blockIndex: hit.blockIndex,
+                offset: hit.offset,
+                length: hit.length,
+            }),
+        [revealInDocument],
+    );
+
     if (!location) {
         return <div className="empty-editor">Location not found.</div>;
     }
@@ -660,43 +678,50 @@ export const ConnectedLocationEditor: React.FC<
     );
 
     return (
-        <LocationEditor
-            projectId={projectId}
-            location={location}
-            currentParentLocationId={parentLocationId}
-            allCharacters={characters}
-            allLocations={locations}
-            allOrganizations={organizations}
-            metafieldDefinitions={metafieldDefinitions}
-            metafieldAssignments={locationMetafieldAssignments}
-            imageOptions={imageOptions}
-            galleryImageIds={galleryImageIds}
-            gallerySources={gallerySources}
-            songUrl={songUrl}
-            availableDocuments={availableDocuments}
-            onSubmit={handleSubmit}
-            onGeneratePortrait={handleGeneratePortrait}
-            onImportPortrait={handleImportPortrait}
-            onDeletePortrait={handleDeletePortrait}
-            onGenerateSong={handleGenerateSong}
-            onImportSong={handleImportSong}
-            onGeneratePlaylist={handleGeneratePlaylist}
-            onImportPlaylist={handleImportPlaylist}
-            onCreateOrReuseMetafieldDefinition={
-                handleCreateOrReuseMetafieldDefinition
-            }
-            onSaveMetafieldSelectOptions={handleSaveMetafieldSelectOptions}
-            onAssignMetafieldToEntity={handleAssignMetafieldToEntity}
-            onSaveMetafieldValue={handleSaveMetafieldValue}
-            onRemoveMetafieldFromEntity={handleRemoveMetafieldFromEntity}
-            onDeleteMetafieldDefinitionGlobal={
-                handleDeleteMetafieldDefinitionGlobal
-            }
-            onImportMetafieldImage={handleImportMetafieldImage}
-            editorTemplate={locationEditorTemplate}
-            onDirtyStateChange={handleDirtyStateChange}
-            onNavigateToDocument={handleNavigateToDocument}
-            focusTitleOnMount={focusTitleOnMount}
-        />
+        <>
+            <LocationEditor
+                projectId={projectId}
+                location={location}
+                currentParentLocationId={parentLocationId}
+                allCharacters={characters}
+                allLocations={locations}
+                allOrganizations={organizations}
+                metafieldDefinitions={metafieldDefinitions}
+                metafieldAssignments={locationMetafieldAssignments}
+                imageOptions={imageOptions}
+                galleryImageIds={galleryImageIds}
+                gallerySources={gallerySources}
+                songUrl={songUrl}
+                availableDocuments={availableDocuments}
+                onSubmit={handleSubmit}
+                onGeneratePortrait={handleGeneratePortrait}
+                onImportPortrait={handleImportPortrait}
+                onDeletePortrait={handleDeletePortrait}
+                onGenerateSong={handleGenerateSong}
+                onImportSong={handleImportSong}
+                onGeneratePlaylist={handleGeneratePlaylist}
+                onImportPlaylist={handleImportPlaylist}
+                onCreateOrReuseMetafieldDefinition={
+                    handleCreateOrReuseMetafieldDefinition
+                }
+                onSaveMetafieldSelectOptions={handleSaveMetafieldSelectOptions}
+                onAssignMetafieldToEntity={handleAssignMetafieldToEntity}
+                onSaveMetafieldValue={handleSaveMetafieldValue}
+                onRemoveMetafieldFromEntity={handleRemoveMetafieldFromEntity}
+                onDeleteMetafieldDefinitionGlobal={
+                    handleDeleteMetafieldDefinitionGlobal
+                }
+                onImportMetafieldImage={handleImportMetafieldImage}
+                editorTemplate={locationEditorTemplate}
+                onDirtyStateChange={handleDirtyStateChange}
+                onNavigateToDocument={handleNavigateToDocument}
+                focusTitleOnMount={focusTitleOnMount}
+            />
+            <EntityAppearancesPanel
+                appearances={appearanceIndex?.[locationId] ?? null}
+                isLoading={appearanceIndex === null}
+                onOpenHit={handleOpenAppearance}
+            />
+        </>
     );
 };
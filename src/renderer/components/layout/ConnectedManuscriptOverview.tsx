@@ -0,0 +1,201 @@
+import React from "react";
+import { useAppStore } from "../../state/appStore";
+import {
+    ManuscriptCorkboard,
+    type ManuscriptOverviewItem,
+} from "../workspace/ManuscriptCorkboard";
+import { ManuscriptOutliner } from "../workspace/ManuscriptOutliner";
+import { ManuscriptCastStrip } from "../workspace/ManuscriptCastStrip";
+import { normalizeManuscriptStructure } from "../../utils/manuscriptStructure";
+import { getTextStats } from "../../utils/textStats";
+import type { EntityAppearanceHit } from "../../utils/entityAppearances";
+import { useEntityAppearanceIndex } from "../../utils/useEntityAppearanceIndex";
+import type { ManuscriptStructure } from "../../../@core/domain/entities/story/ManuscriptStructure";
+import type { ManuscriptViewMode } from "../../types";
+
+const VIEW_MODES: { mode: ManuscriptViewMode; label: string }[] = [
+    { mode: "editor", label: "Editor" },
+    { mode: "corkboard", label: "Corkboard" },
+    { mode: "outliner", label: "Outliner" },
+    { mode: "cast", label: "Cast" },
+];
+
+/**
+ * Corkboard, outliner or cast appearances of the whole manuscript, in place
+ * of the editor.
+ */
+export const ConnectedManuscriptOverview: React.FC = () => {
+    const chapters = useAppStore((state) => state.chapters);
+    const manuscriptStructure = useAppStore(
+        (state) => state.workspaceProject?.manuscriptStructure ?? null,
+    );
+    const characters = useAppStore((state) => state.characters);
+    const events = useAppStore((state) => state.events);
+    const activeDocument = useAppStore((state) => state.activeDocument);
+    const manuscriptViewMode = useAppStore(
+        (state) => state.manuscriptViewMode,
+    );
+    const setManuscriptViewMode = useAppStore(
+        (state) => state.setManuscriptViewMode,
+    );
+    const setActiveDocument = useAppStore((state) => state.setActiveDocument);
+    const moveManuscriptNode = useAppStore((state) => state.moveManuscriptNode);
+    const revealInDocument = useAppStore((state) => state.revealInDocument);
+
+    const items = React.useMemo(() => {
+        const chaptersById = new Map(
+            chapters.map((chapter) => [chapter.id, chapter]),
+        );
+        const characterNames = new Map(
+            characters.map((character) => [character.id, character.name]),
+        );
+        const eventTitles = new Map(
+            events.map((event) => [event.id, event.title]),
+        );
+        // Timeline chapter nodes point at their chapter rather than back
+        const linkedEventTitles = new Map(
+            events
+                .filter((event) => event.type === "chapter")
+                .map((event) => [event.associatedId, event.title]),
+        );
+        const structure = normalizeManuscriptStructure(
+            manuscriptStructure,
+            chapters
+                .slice()
+                .sort((a, b) => a.order - b.order)
+                .map((chapter) => chapter.id),
+        );
+
+        const result: ManuscriptOverviewItem[] = [];
+        let chapterNumber = 0;
+
+        const visit = (
+            nodes: ManuscriptStructure,
+            part: ManuscriptOverviewItem["part"],
+            parentId: string | null,
+        ) => {
+            nodes.forEach((node, index) => {
+                if (node.type === "part") {
+                    visit(
+                        node.children,
+                        { id: node.id, title: node.title ?? "" },
+                        null,
+                    );
+                    return;
+                }
+
+                const chapter = chaptersById.get(node.id);
+                if (!chapter) {
+                    return;
+                }
+                if (node.type === "chapter") {
+                    chapterNumber += 1;
+                }
+                result.push({
+                    id: node.id,
+                    nodeType: node.type,
+                    parentId,
+                    part: node.type === "chapter" ? part : null,
+                    prefix:
+                        node.type === "chapter"
+                            ? String(chapterNumber)
+                            : `${chapterNumber}.${index + 1}`,
+                    title:
+                        chapter.title.trim() ||
+                        (node.type === "scene"
+                            ? "Untitled Scene"
+                            : "Untitled Chapter"),
+                    synopsis: chapter.synopsis,
+                    status: chapter.status,
+                    labels: chapter.labels,
+                    povName: chapter.povCharacterId
+                        ? (characterNames.get(chapter.povCharacterId) ?? null)
+                        : null,
+                    eventTitle:
+                        (chapter.eventId
+                            ? eventTitles.get(chapter.eventId)
+                            : undefined) ??
+                        linkedEventTitles.get(chapter.id) ??
+                        null,
+                    wordCount: getTextStats(chapter.content).wordCount,
+                    updatedAt: new Date(chapter.updatedAt),
+                });
+                visit(node.children, part, node.id);
+            });
+        };
+
+        visit(structure, null, null);
+        return result;
+    }, [chapters, characters, events, manuscriptStructure]);
+
+    const openChapter = React.useCallback(
+        (id: string) => setActiveDocument({ kind: "chapter", id }),
+        [setActiveDocument],
+    );
+
+    const appearanceIndex = useEntityAppearanceIndex();
+
+    const openAppearance = React.useCallback(
+        (hit: EntityAppearanceHit) =>
+            revealInDocument({
+                kind: hit.documentKind,
+                id: hit.documentId,
+                blockIndex: hit.blockIndex,
+                offset: hit.offset,
+                length: hit.length,
+            }),
+        [revealInDocument],
+    );
+
+    const activeId =
+        activeDocument?.kind === "chapter" ? activeDocument.id : null;
+
+    return (
+        <div className="manuscript-overview">
+            <div className="manuscript-overview-toolbar" role="tablist">
+                {VIEW_MODES.map((option) => (
+                    <button
+                        key={option.mode}
+                        type="button"
+                        role="tab"
+                        aria-selected={option.mode === manuscriptViewMode}
+                        className={
+                            option.mode === manuscriptViewMode
+                                ? "manuscript-overview-tab is-active"
+                                : "manuscript-overview-tab"
+                        }
+                        onClick={() => setManuscriptViewMode(option.mode)}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            <div className="manuscript-overview-body">
+                {manuscriptViewMode === "cast" ? (
+                    <ManuscriptCastStrip
+                        items={items}
+                        characters={characters}
+                        index={appearanceIndex}
+                        activeId={activeId}
+                        onOpen={openChapter}
+                        onOpenHit={openAppearance}
+                    />
+                ) : manuscriptViewMode === "outliner" ? (
+                    <ManuscriptOutliner
+                        items={items}
+                        activeId={activeId}
+                        onOpen={openChapter}
+                        onMove={moveManuscriptNode}
+                    />
+                ) : (
+                    <ManuscriptCorkboard
+                        items={items}
+                        activeId={activeId}
+                        onOpen={openChapter}
+                        onMove={moveManuscriptNode}
+                    />
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,8 @@
 import React from "react";
 import { useAppStore } from "../../state/appStore";
+import { EntityAppearancesPanel } from "../workspace/EntityAppearancesPanel";
+import type { EntityAppearanceHit } from "../../utils/entityAppearances";
+import { useEntityAppearanceIndex } from "../../utils/useEntityAppearanceIndex";
 import {
     OrganizationEditor,
     type OrganizationEditorValues,
@@ -50,7 +53,9 @@ export const ConnectedOrganizationEditor: React.FC<
         markDocumentEditorDirty,
         clearDocumentEditorDirty,
         consumePendingTitleFocus,
+        revealInDocument,
     } = useAppStore();
+    const appearanceIndex = useEntityAppearanceIndex();
 
     const editorSelection = React.useMemo(
         () => ({ kind: "organization", id: organizationId }) as const,
@@ -166,6 +171,7 @@ export const ConnectedOrganizationEditor: React.FC<
 
             const payload = {
                 name: values.name,
+                aliases: values.aliases,
                 description: values.description,
                 locationIds: values.locationIds,
             };
@@ -652,48 +658,67 @@ export const ConnectedOrganizationEditor: React.FC<
         [setActiveDocument],
     );
 
+    const handleOpenAppearance = React.useCallback(
+        (hit: EntityAppearanceHit) =>
+            revealInDocument({
+                kind: hit.documentKind,
+                id: hit.documentId,
+                blockIndex: hit.blockIndex,
+                offset: hit.offset,
+                length: hit.length,
+            }),
+        [revealInDocument],
+    );
+
     if (!organization) {
         return <div className="empty-editor">Organization not found.</div>;
     }
 
     return (
-        <OrganizationEditor
-            projectId={projectId}
-            organization={organization}
-            locations={locations}
-            allCharacters={characters}
-            allLocations={locations}
-            allOrganizations={organizations}
-            metafieldDefinitions={metafieldDefinitions}
-            metafieldAssignments={organizationMetafieldAssignments}
-            imageOptions={imageOptions}
-            galleryImageIds={galleryImageIds}
-            gallerySources={gallerySources}
-            songUrl={songUrl}
-            availableDocuments={availableDocuments}
-            onSubmit={handleSubmit}
-            onNavigateToDocument={handleNavigateToDocument}
-            onGeneratePortrait={handleGeneratePortrait}
-            onImportPortrait={handleImportPortrait}
-            onDeletePortrait={handleDeletePortrait}
-            onGenerateSong={handleGenerateSong}
-            onImportSong={handleImportSong}
-            onGeneratePlaylist={handleGeneratePlaylist}
-            onImportPlaylist={handleImportPlaylist}
-            onCreateOrReuseMetafieldDefinition={
-                handleCreateOrReuseMetafieldDefinition
-            }
-            onSaveMetafieldSelectOptions={handleSaveMetafieldSelectOptions}
-            onAssignMetafieldToEntity={handleAssignMetafieldToEntity}
-            onSaveMetafieldValue={handleSaveMetafieldValue}
-            onRemoveMetafieldFromEntity={handleRemoveMetafieldFromEntity}
-            onDeleteMetafieldDefinitionGlobal={
-                handleDeleteMetafieldDefinitionGlobal
-            }
-            onImportMetafieldImage={handleImportMetafieldImage}
-            editorTemplate={organizationEditorTemplate}
-            onDirtyStateChange={handleDirtyStateChange}
-            focusTitleOnMount={focusTitleOnMount}
-        />
+        <>
+            <OrganizationEditor
+                projectId={projectId}
+                organization={organization}
+                locations={locations}
+                allCharacters={characters}
+                allLocations={locations}
+                allOrganizations={organizations}
+                metafieldDefinitions={metafieldDefinitions}
+                metafieldAssignments={organizationMetafieldAssignments}
+                imageOptions={imageOptions}
+                galleryImageIds={galleryImageIds}
+                gallerySources={gallerySources}
+                songUrl={songUrl}
+                availableDocuments={availableDocuments}
+                onSubmit={handleSubmit}
+                onNavigateToDocument={handleNavigateToDocument}
+                onGeneratePortrait={handleGeneratePortrait}
+                onImportPortrait={handleImportPortrait}
+                onDeletePortrait={handleDeletePortrait}
+                onGenerateSong={handleGenerateSong}
+                onImportSong={handleImportSong}
+                onGeneratePlaylist={handleGeneratePlaylist}
+                onImportPlaylist={handleImportPlaylist}
+                onCreateOrReuseMetafieldDefinition={
+                    handleCreateOrReuseMetafieldDefinition
+                }
+                onSaveMetafieldSelectOptions={handleSaveMetafieldSelectOptions}
+                onAssignMetafieldToEntity={handleAssignMetafieldToEntity}
+                onSaveMetafieldValue={handleSaveMetafieldValue}
+                onRemoveMetafieldFromEntity={handleRemoveMetafieldFromEntity}
+                onDeleteMetafieldDefinitionGlobal={
+                    handleDeleteMetafieldDefinitionGlobal
+                }
+                onImportMetafieldImage={handleImportMetafieldImage}
+                editorTemplate={organizationEditorTemplate}
+                onDirtyStateChange={handleDirtyStateChange}
+                focusTitleOnMount={focusTitleOnMount}
+            />
+            <EntityAppearancesPanel
+                appearances={appearanceIndex?.[organizationId] ?? null}
+                isLoading={appearanceIndex === null}
+                onOpenHit={handleOpenAppearance}
+            />
+        </>
     );
 };
@@ -1,5 +1,5 @@
 import React from "react";
-import { useEditor, Extension } from "@tiptap/react";
+import { useEditor, Extension, type JSONContent } from "@tiptap/react";
 import { StarterKit } from "@tiptap/starter-kit";
 import { TextStyle } from "@tiptap/extension-text-style";
 import { Color } from "@tiptap/extension-color";
@@ -11,7 +11,13 @@ import { useAppStore } from "../../state/appStore";
 import { TextEditor } from "../workspace/TextEditor";
 import { SearchAndReplace } from "../../tiptap/searchAndReplace";
 import { LanguageTool } from "../../tiptap/languageTool";
-import { InlineComment } from "../../tiptap/inlineComment";
+import {
+    InlineComment,
+    collectInlineComments,
+} from "../../tiptap/inlineComment";
+import { Footnote } from "../../tiptap/footnote";
+import { TrackChanges } from "../../tiptap/trackChanges";
+import { EntityMentions } from "../../tiptap/entityMentions";
 import CommentExtension from "../../tiptap/commentExtension";
 import { NightModeDisplayColorShift } from "../../tiptap/nightModeDisplayColorShift";
 import {
@@ -28,7 +34,14 @@ import {
     stripCommentMarksFromTiptapJSON,
 } from "../../tiptap/comments";
 import { countWords } from "../../utils/textStats";
-import type { UserChapterComment } from "../workspace/CommentsSidebar";
+import { resolveAppearancePosition } from "../../utils/entityAppearances";
+import {
+    buildEntityMentionCandidates,
+    type EntityMentionCandidate,
+} from "../../utils/entityMentions";
+import { getCommentAuthorName } from "../../utils/commentAuthor";
+import { showToast } from "../ui/GenerationProgressToast";
+import type { CommentThreadActions } from "../workspace/CommentsSidebar";
 
 const AUTOSAVE_DELAY_MS = 1200;
 
@@ -84,6 +97,27 @@ const AlignmentBackspace = Extension.create({
     },
 });
 
+/**
+ * Cutting at a block boundary leaves an empty block on one side; it is
+ * dropped so neither half starts or ends with a blank line.
+ */
+const trimEmptyEdgeBlock = (
+    json: JSONContent,
+    edge: "start" | "end",
+): JSONContent => {
+    const blocks = [...(json.content ?? [])];
+    const index = edge === "start" ? 0 : blocks.length - 1;
+    const block = blocks[index];
+    if (
+        block &&
+        (block.type === "paragraph" || block.type === "heading") &&
+        !block.content?.length
+    ) {
+        blocks.splice(index, 1);
+    }
+    return { ...json, content: blocks };
+};
+
 interface ConnectedTextEditorProps {
     documentId: string;
     kind: "chapter" | "scrapNote";
@@ -110,6 +144,8 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
         saveChapterContent,
         updateScrapNoteRemote,
         setActiveDocument,
+        splitChapter,
+        mergeChapterWithNext,
     } = useAppStore();
 
     // 1. Resolve Data
@@ -146,7 +182,10 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
     ]);
 
     const autosaveTimerRef = React.useRef<NodeJS.Timeout | null>(null);
-    const hydratedDocumentIdRef = React.useRef<string | null>(null);
+    const hydratedDocumentKeyRef = React.useRef<string | null>(null);
+    const contentRevision = useAppStore(
+        (state) => state.externalContentRevisions[documentId] ?? 0,
+    );
 
     const pendingEditsByChapterId = useAppStore(
         (state) => state.pendingEditsByChapterId,
@@ -157,6 +196,30 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
     const restoreArchivedEdit = useAppStore(
         (state) => state.restoreArchivedEdit,
     );
+    const createChapterSnapshot = useAppStore(
+        (state) => state.createChapterSnapshot,
+    );
+    const pendingDocumentReveal = useAppStore(
+        (state) => state.pendingDocumentReveal,
+    );
+    const consumePendingDocumentReveal = useAppStore(
+        (state) => state.consumePendingDocumentReveal,
+    );
+    const user = useAppStore((state) => state.user);
+    const commentThreads = useAppStore((state) => state.commentThreads);
+    const createCommentThread = useAppStore(
+        (state) => state.createCommentThread,
+    );
+    const replyToCommentThread = useAppStore(
+        (state) => state.replyToCommentThread,
+    );
+    const setCommentThreadResolved = useAppStore(
+        (state) => state.setCommentThreadResolved,
+    );
+    const editCommentMessage = useAppStore((state) => state.editCommentMessage);
+    const deleteCommentThread = useAppStore(
+        (state) => state.deleteCommentThread,
+    );
 
     const [activeCommentId, setActiveCommentId] = React.useState<string | null>(
         null,
@@ -165,6 +228,7 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
     const warnedEditsRef = React.useRef<Set<string>>(new Set());
     const lastTextStyleRef = React.useRef<Record<string, string>>({});
     const availableDocumentsRef = React.useRef<DocumentRef[]>([]);
+    const mentionCandidatesRef = React.useRef<EntityMentionCandidate[]>([]);
 
     // Build available documents for slash-command references
     const availableDocuments: DocumentRef[] = React.useMemo(() => {
@@ -241,6 +305,22 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
         availableDocumentsRef.current = availableDocuments;
     }, [availableDocuments]);
 
+    // Names and aliases to look for in the chapter text
+    const mentionCandidates = React.useMemo(
+        () =>
+            buildEntityMentionCandidates({
+                characters,
+                locations,
+                organizations,
+            }),
+        [characters, locations, organizations],
+    );
+    // Entities change on every description edit; only names matter here
+    const mentionCandidatesKey = React.useMemo(
+        () => JSON.stringify(mentionCandidates),
+        [mentionCandidates],
+    );
+
     // Handle reference click - navigate to the referenced document
     const handleReferenceClick = React.useCallback(
         (ref: DocumentRef) => {
@@ -356,12 +436,18 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
             SearchAndReplace.configure({
                 searchResultClass: "inkline-editor-search-result",
                 selectedResultClass: "inkline-editor-search-result-selected",
-                disableRegex: true,
+                disableRegex: false,
             }),
             LanguageTool.configure({
-                language: "auto",
                 automaticMode: true,
                 documentId: documentId,
+                checkGrammar: (request) =>
+                    useAppStore
+                        .getState()
+                        .checkGrammar(
+                            request,
+                            kind === "chapter" ? documentId : null,
+                        ),
             }),
             StarterKit.configure({
                 heading: { levels: [1, 2, 3] },
@@ -390,6 +476,16 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
                 },
             }),
             InlineComment,
+            Footnote,
+            TrackChanges.configure({
+                // Read per change, so a sign-in mid-session is picked up
+                getAuthor: () =>
+                    getCommentAuthorName(useAppStore.getState().user),
+            }),
+            EntityMentions.configure({
+                documentId: kind === "chapter" ? documentId : null,
+                getCandidates: () => mentionCandidatesRef.current,
+            }),
         ],
         content: "<p></p>", // Initial empty, will be populated by useEffect
         editorProps: {
@@ -515,12 +611,40 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
         }
     }, [editor, kind, documentId, pendingEditsByChapterId]);
 
-    // 4. Hydrate content only on document switch.
-    // Active editor state is authoritative while staying on the same document.
+    // Comments written before threads existed keep their text on the mark.
+    // Each moves into a thread once, so it can take replies and sync apart
+    // from the prose. The mark keeps its text until the thread is saved, so
+    // a failed save is tried again the next time the chapter opens.
+    const adoptLegacyInlineComments = React.useCallback(async () => {
+        if (!editor || kind !== "chapter") return;
+
+        const threadIds = new Set(
+            useAppStore.getState().commentThreads.map((thread) => thread.id),
+        );
+        for (const comment of collectInlineComments(editor.state.doc)) {
+            if (!comment.commentText) continue;
+            if (!threadIds.has(comment.commentId)) {
+                const saved = await createCommentThread({
+                    id: comment.commentId,
+                    chapterId: documentId,
+                    text: comment.commentText,
+                    excerpt: comment.excerpt,
+                });
+                if (!saved) continue;
+            }
+            if (editor.isDestroyed) return;
+            editor.commands.updateInlineComment(comment.commentId, "");
+        }
+    }, [editor, kind, documentId, createCommentThread]);
+
+    // 4. Hydrate content only on document switch, or when the text was
+    // replaced outside the editor (split, merge). Active editor state is
+    // authoritative otherwise.
     React.useEffect(() => {
         if (!editor || !documentData) return;
 
-        if (hydratedDocumentIdRef.current === documentId) {
+        const hydrationKey = `${documentId}:${contentRevision}`;
+        if (hydratedDocumentKeyRef.current === hydrationKey) {
             return;
         }
 
@@ -542,9 +666,54 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
             }
         }
 
-        hydratedDocumentIdRef.current = documentId;
+        hydratedDocumentKeyRef.current = hydrationKey;
         setLastSavedAt(new Date(documentData.updatedAt).getTime());
-    }, [editor, documentData, documentId, setLastSavedAt]);
+        void adoptLegacyInlineComments();
+    }, [
+        editor,
+        documentData,
+        documentId,
+        contentRevision,
+        setLastSavedAt,
+        adoptLegacyInlineComments,
+    ]);
+
+    // Select a range another view asked for, such as an entity appearance,
+    // once the document's text is loaded
+    React.useEffect(() => {
+        if (!editor || !pendingDocumentReveal || !isActiveEditor) return;
+        const hydrationKey = `${documentId}:${contentRevision}`;
+        if (hydratedDocumentKeyRef.current !== hydrationKey) return;
+
+        const reveal = consumePendingDocumentReveal({ kind, id: documentId });
+        if (!reveal) return;
+
+        const from = resolveAppearancePosition(
+            editor.state.doc,
+            reveal.blockIndex,
+            reveal.offset,
+        );
+        if (from === null) return;
+
+        const to = Math.min(
+            from + reveal.length,
+            editor.state.doc.content.size,
+        );
+        editor
+            .chain()
+            .focus()
+            .setTextSelection({ from, to })
+            .scrollIntoView()
+            .run();
+    }, [
+        editor,
+        pendingDocumentReveal,
+        isActiveEditor,
+        documentId,
+        contentRevision,
+        kind,
+        consumePendingDocumentReveal,
+    ]);
 
     // 5. Autosave Logic
     const flushAutosave = React.useCallback(async () => {
@@ -565,6 +734,7 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
 
             if (kind === "chapter") {
                 await saveChapterContent({
+                    projectId,
                     chapterId: documentId,
                     content,
                 });
@@ -649,6 +819,94 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
         updateScrapNoteLocally,
     ]);
 
+    // Split and merge at the cursor (chapters only)
+    const splitAtCursor = React.useCallback(async () => {
+        if (!editor || kind !== "chapter") {
+            return;
+        }
+
+        const { doc, selection } = editor.state;
+        const head = trimEmptyEdgeBlock(
+            doc.cut(0, selection.from).toJSON() as JSONContent,
+            "end",
+        );
+        const tail = trimEmptyEdgeBlock(
+            doc.cut(selection.from).toJSON() as JSONContent,
+            "start",
+        );
+        if (!head.content?.length || !tail.content?.length) {
+            showToast({
+                variant: "info",
+                title: "Nothing to split",
+                description:
+                    "Place the cursor inside the text, not at its start or end.",
+                durationMs: 3500,
+            });
+            return;
+        }
+
+        // Save what is queued first so it cannot land on top of the split
+        if (autosaveTimerRef.current) {
+            clearTimeout(autosaveTimerRef.current);
+            autosaveTimerRef.current = null;
+        }
+        await flushAutosave();
+
+        await splitChapter({
+            chapterId: documentId,
+            headContent: JSON.stringify(stripCommentMarksFromTiptapJSON(head)),
+            tailContent: JSON.stringify(stripCommentMarksFromTiptapJSON(tail)),
+        });
+    }, [editor, kind, documentId, flushAutosave, splitChapter]);
+
+    const mergeWithNext = React.useCallback(async () => {
+        if (autosaveTimerRef.current) {
+            clearTimeout(autosaveTimerRef.current);
+            autosaveTimerRef.current = null;
+        }
+        await flushAutosave();
+        await mergeChapterWithNext(documentId);
+    }, [documentId, flushAutosave, mergeChapterWithNext]);
+
+    // "Split at Cursor" from the binder goes to the open editor
+    React.useEffect(() => {
+        if (kind !== "chapter" || !isActiveEditor) {
+            return;
+        }
+
+        const handleSplitRequest = (event: Event) => {
+            const detail = (event as CustomEvent<{ chapterId: string }>)
+                .detail;
+            if (detail?.chapterId === documentId) {
+                void splitAtCursor();
+            }
+        };
+
+        window.addEventListener("chapter-split-request", handleSplitRequest);
+        return () => {
+            window.removeEventListener(
+                "chapter-split-request",
+                handleSplitRequest,
+            );
+        };
+    }, [kind, isActiveEditor, documentId, splitAtCursor]);
+
+    const chapterActions = React.useMemo(
+        () =>
+            kind === "chapter"
+                ? {
+                      chapterId: documentId,
+                      onSplitAtCursor: () => {
+                          void splitAtCursor();
+                      },
+                      onMergeWithNext: () => {
+                          void mergeWithNext();
+                      },
+                  }
+                : undefined,
+        [kind, documentId, splitAtCursor, mergeWithNext],
+    );
+
     // Cleanup timer
     React.useEffect(() => {
         return () => {
@@ -698,6 +956,16 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
         (c) => !c.wordNumberStart || !c.wordNumberEnd,
     );
 
+    // One history snapshot per batch of AI edits, taken before the first accept.
+    const aiEditSnapshotTakenRef = React.useRef(false);
+    const hasPendingReplacements =
+        (chapterBucket?.replacements.length ?? 0) > 0;
+    React.useEffect(() => {
+        if (!hasPendingReplacements) {
+            aiEditSnapshotTakenRef.current = false;
+        }
+    }, [hasPendingReplacements]);
+
     // Collect the pending edits relevant to this chapter for the sidebar.
     const chapterPendingEditsById = React.useMemo(() => {
         if (kind !== "chapter" || !chapterBucket)
@@ -712,25 +980,51 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
         return result;
     }, [kind, chapterBucket, pendingEditsById]);
 
-    // User chapter-level (un-anchored) comments — session-only.
-    const [userChapterComments, setUserChapterComments] = React.useState<
-        UserChapterComment[]
-    >([]);
+    // User comment threads, kept outside the prose (chapters only).
+    const chapterCommentThreads = React.useMemo(
+        () =>
+            kind === "chapter"
+                ? commentThreads.filter(
+                      (thread) => thread.chapterId === documentId,
+                  )
+                : [],
+        [kind, commentThreads, documentId],
+    );
 
-    const addUserChapterComment = React.useCallback((text: string) => {
-        setUserChapterComments((prev) => [
-            ...prev,
-            {
-                id: crypto.randomUUID(),
-                text,
-                createdAt: new Date().toISOString(),
-            },
-        ]);
-    }, []);
+    const commentThreadActions = React.useMemo<
+        CommentThreadActions | undefined
+    >(() => {
+        if (kind !== "chapter") return undefined;
+        return {
+            create: (params) =>
+                void createCommentThread({ ...params, chapterId: documentId }),
+            reply: (threadId, text) =>
+                void replyToCommentThread(threadId, text),
+            setResolved: (threadId, resolved) =>
+                void setCommentThreadResolved(threadId, resolved),
+            editMessage: (threadId, messageId, text) =>
+                void editCommentMessage(threadId, messageId, text),
+            remove: (threadId) => void deleteCommentThread(threadId),
+        };
+    }, [
+        kind,
+        documentId,
+        createCommentThread,
+        replyToCommentThread,
+        setCommentThreadResolved,
+        editCommentMessage,
+        deleteCommentThread,
+    ]);
 
-    const removeUserChapterComment = React.useCallback((id: string) => {
-        setUserChapterComments((prev) => prev.filter((c) => c.id !== id));
-    }, []);
+    // Fade the highlights of resolved threads
+    React.useEffect(() => {
+        if (!editor || kind !== "chapter") return;
+        editor.commands.setResolvedInlineComments(
+            chapterCommentThreads
+                .filter((thread) => thread.resolved)
+                .map((thread) => thread.id),
+        );
+    }, [editor, kind, chapterCommentThreads]);
 
     const jumpToNextHighlightedEdit = React.useCallback(
         (afterPos: number) => {
@@ -841,6 +1135,28 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
 
             const afterPos = editor.state.selection.from;
 
+            if (
+                projectId &&
+                kind === "chapter" &&
+                !aiEditSnapshotTakenRef.current
+            ) {
+                aiEditSnapshotTakenRef.current = true;
+                void createChapterSnapshot({
+                    projectId,
+                    chapterId: documentId,
+                    reason: "ai-edit",
+                    content: JSON.stringify(
+                        stripCommentMarksFromTiptapJSON(editor.getJSON()),
+                    ),
+                }).catch((error) => {
+                    aiEditSnapshotTakenRef.current = false;
+                    console.warn(
+                        "[EditChapters] Failed to snapshot chapter before accepting edits",
+                        error,
+                    );
+                });
+            }
+
             // Do replacement + mark removal in a single transaction, so one undo restores the suggestion.
             editor
                 .chain()
@@ -926,7 +1242,15 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
             // After accept, jump to next edit highlight.
             jumpToNextHighlightedEdit(afterPos);
         },
-        [archivePendingEdit, editor, jumpToNextHighlightedEdit],
+        [
+            archivePendingEdit,
+            createChapterSnapshot,
+            documentId,
+            editor,
+            jumpToNextHighlightedEdit,
+            kind,
+            projectId,
+        ],
     );
 
     // Listen for document reference clicks from the editor
@@ -954,6 +1278,16 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
         };
     }, [editor, handleReferenceClick]);
 
+    React.useEffect(() => {
+        mentionCandidatesRef.current = mentionCandidates;
+    }, [mentionCandidates]);
+
+    React.useEffect(() => {
+        if (editor && kind === "chapter" && mentionCandidatesKey) {
+            editor.commands.refreshEntityMentions();
+        }
+    }, [editor, kind, mentionCandidatesKey]);
+
     return (
         <div className="connected-editor">
             <TextEditor
@@ -966,12 +1300,18 @@ export const ConnectedTextEditor: React.FC<ConnectedTextEditorProps> = ({
                 chapterLevelAIComments={
                     kind === "chapter" ? chapterLevelAIComments : undefined
                 }
-                userChapterComments={userChapterComments}
-                onAddUserChapterComment={addUserChapterComment}
-                onRemoveUserChapterComment={removeUserChapterComment}
+                commentThreads={chapterCommentThreads}
+                commentThreadActions={commentThreadActions}
+                commentAuthorName={getCommentAuthorName(user)}
                 onDismissAIEdit={dismissComment}
                 onAcceptReplacement={acceptReplacement}
                 activeCommentId={activeCommentId}
+                chapterHistory={
+                    kind === "chapter" && projectId
+                        ? { projectId, chapterId: documentId }
+                        : undefined
+                }
+                chapterActions={chapterActions}
             />
         </div>
     );
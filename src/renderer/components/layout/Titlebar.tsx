@@ -34,7 +34,7 @@ export const Titlebar: React.FC = () => {
         openAuthScreen,
         isGuestSession,
         user,
-        globalFind,
+        searchProject,
         setActiveDocument,
         workspaceViewMode,
         setWorkspaceViewMode,
@@ -100,7 +100,7 @@ export const Titlebar: React.FC = () => {
         setIsSearching(true);
 
         const handle = window.setTimeout(() => {
-            globalFind({ projectId, term })
+            searchProject({ projectId, query: term })
                 .then((result) => {
                     if (latestSearchIdRef.current !== mySearchId) {
                         return;
@@ -124,7 +124,7 @@ export const Titlebar: React.FC = () => {
         return () => {
             window.clearTimeout(handle);
         };
-    }, [globalFind, isSearchFocused, projectId, searchTerm, stage]);
+    }, [isSearchFocused, projectId, searchProject, searchTerm, stage]);
 
     const getIconForKind = (kind: GlobalFindResult["kind"]) => {
         switch (kind) {
@@ -13,26 +13,66 @@ import { DownloadIcon } from "../ui/Icons";
 import { useAppStore } from "../../state/appStore";
 import { getTextStats } from "../../utils/textStats";
 import { normalizeUserFacingError } from "../../utils/userFacingError";
+import { sanitizeFilename } from "../../utils/filename";
+import { EMPTY_PROJECT_DICTIONARY } from "../../../@core/domain/entities/story/ProjectDictionary";
 import { EditChapterRangeDialog } from "../dialogs/EditChapterRangeDialog";
 import { ExportDialog } from "../dialogs/ExportDialog";
+import { WorldBibleExportDialog } from "../dialogs/WorldBibleExportDialog";
+import { WritingGoalsDialog } from "../dialogs/WritingGoalsDialog";
+import { SpellingDictionaryDialog } from "../dialogs/SpellingDictionaryDialog";
+import { GrammarSettingsDialog } from "../dialogs/GrammarSettingsDialog";
+import { ManuscriptGrammarReportDialog } from "../dialogs/ManuscriptGrammarReportDialog";
+import { ProjectCommentsDialog } from "../dialogs/ProjectCommentsDialog";
+import { ProjectFindReplaceDialog } from "../dialogs/ProjectFindReplaceDialog";
 import { ReportIssueDialog } from "../dialogs/ReportIssueDialog";
-import { showToast } from "../ui/GenerationProgressToast";
+import { showToast, updateToast } from "../ui/GenerationProgressToast";
 
 type MenuKey = "file" | "edit" | "view" | "help" | null;
 
+const IMPORT_CHAPTERS_TOAST_ID = "import-chapters";
+const EXPORT_ARCHIVE_TOAST_ID = "export-archive";
+
 export const TitlebarMenuBar: React.FC = () => {
     const {
         projectId,
         activeProjectName,
         exportManuscript,
+        saveExportSettings,
+        saveWritingGoals,
+        saveProjectDictionary,
+        userDictionary,
+        saveUserDictionary,
+        saveGrammarSettings,
+        checkManuscriptGrammar,
+        cancelManuscriptGrammar,
+        revealInDocument,
+        commentThreads,
+        setCommentThreadResolved,
+        exportProjectArchive,
+        exportWorldBible,
+        previewGlobalReplace,
+        globalFindAndReplace,
+        lastGlobalReplace,
+        undoGlobalReplace,
+        flushActiveDocumentContent,
+        importChapters,
+        isImporting,
+        importProgress,
         returnToProjects,
+        workspaceProject,
         chapters,
+        scrapNotes,
+        characters,
+        locations,
+        organizations,
         editChapters,
         addPendingEdits,
         hasPendingEditsForChapter,
         setActiveDocument,
         workspaceViewMode,
         setWorkspaceViewMode,
+        manuscriptViewMode,
+        setManuscriptViewMode,
         requestTutorialReplay,
         user,
         syncStatus,
@@ -41,17 +81,38 @@ export const TitlebarMenuBar: React.FC = () => {
     const [openMenu, setOpenMenu] = React.useState<MenuKey>(null);
     const [isRangeDialogOpen, setIsRangeDialogOpen] = React.useState(false);
     const [isExportDialogOpen, setIsExportDialogOpen] = React.useState(false);
+    const [isWorldBibleDialogOpen, setIsWorldBibleDialogOpen] =
+        React.useState(false);
     const [isProjectStatsOpen, setIsProjectStatsOpen] = React.useState(false);
+    const [isWritingGoalsOpen, setIsWritingGoalsOpen] = React.useState(false);
+    const [isDictionaryOpen, setIsDictionaryOpen] = React.useState(false);
+    const [isGrammarSettingsOpen, setIsGrammarSettingsOpen] =
+        React.useState(false);
+    const [isGrammarReportOpen, setIsGrammarReportOpen] =
+        React.useState(false);
+    const [isCommentsOpen, setIsCommentsOpen] = React.useState(false);
+    const [isFindReplaceOpen, setIsFindReplaceOpen] = React.useState(false);
     const [isReportIssueOpen, setIsReportIssueOpen] = React.useState(false);
     const [rangeStart, setRangeStart] = React.useState("");
     const [rangeEnd, setRangeEnd] = React.useState("");
     const [isApplyingEdits, setIsApplyingEdits] = React.useState(false);
 
+    const exportChapters = React.useMemo(
+        () =>
+            chapters.map((chapter) => ({
+                id: chapter.id,
+                title: chapter.title,
+                status: chapter.status,
+                wordCount: getTextStats(chapter.content).wordCount,
+            })),
+        [chapters],
+    );
+
     const manuscriptWordCount = React.useMemo(() => {
-        return chapters.reduce((sum, chapter) => {
-            return sum + getTextStats(chapter.content).wordCount;
+        return exportChapters.reduce((sum, chapter) => {
+            return sum + chapter.wordCount;
         }, 0);
-    }, [chapters]);
+    }, [exportChapters]);
 
     const estimatedPages = React.useMemo(() => {
         const wordsPerPage = 250;
@@ -89,6 +150,93 @@ export const TitlebarMenuBar: React.FC = () => {
         });
     };
 
+    React.useEffect(() => {
+        if (!isImporting) {
+            return;
+        }
+        updateToast(IMPORT_CHAPTERS_TOAST_ID, {
+            variant: "progress",
+            title: "Importing chapters",
+            progress: importProgress,
+        });
+    }, [isImporting, importProgress]);
+
+    const handleImportChapters = React.useCallback(async () => {
+        try {
+            const added = await importChapters("docx");
+            if (added === null) {
+                return;
+            }
+            showToast({
+                id: IMPORT_CHAPTERS_TOAST_ID,
+                variant: "success",
+                title: "Chapters imported",
+                description: `Added ${added} ${added === 1 ? "chapter" : "chapters"} from Word.`,
+                durationMs: 3000,
+            });
+        } catch (error) {
+            showToast({
+                id: IMPORT_CHAPTERS_TOAST_ID,
+                variant: "error",
+                title: "Import failed",
+                description: normalizeUserFacingError(
+                    error,
+                    "Unable to import that Word document.",
+                ),
+                durationMs: 6000,
+            });
+        }
+    }, [importChapters]);
+
+    const handleExportArchive = React.useCallback(async () => {
+        const fileName = sanitizeFilename(activeProjectName) || "project";
+        const result = await window.fileDialog.showSaveDialog({
+            title: "Export Project Archive",
+            defaultPath: `${fileName}.inkline`,
+            filters: [{ name: "Inkline Archives", extensions: ["inkline"] }],
+        });
+        if (result.canceled || !result.filePath) {
+            return;
+        }
+
+        showToast({
+            id: EXPORT_ARCHIVE_TOAST_ID,
+            variant: "progress",
+            title: "Exporting project archive",
+        });
+        try {
+            await flushActiveDocumentContent();
+            await exportProjectArchive({
+                projectId,
+                destinationPath: result.filePath,
+            });
+            showToast({
+                id: EXPORT_ARCHIVE_TOAST_ID,
+                variant: "success",
+                title: "Project archive exported",
+                description:
+                    "Restore it from the Import menu on the projects screen.",
+                durationMs: 4000,
+            });
+        } catch (error) {
+            showToast({
+                id: EXPORT_ARCHIVE_TOAST_ID,
+                variant: "error",
+                title: "Export failed",
+                description: normalizeUserFacingError(
+                    error,
+                    "Unable to export the project archive.",
+                ),
+                durationMs: 6000,
+            });
+        }
+    }, [
+        activeProjectName,
+        exportProjectArchive,
+        flushActiveDocumentContent,
+        projectId,
+    ]);
+
     const handleReportIssueSubmit = React.useCallback(
         async (description: string) => {
             if (syncStatus === "offline") {
@@ -189,6 +337,40 @@ export const TitlebarMenuBar: React.FC = () => {
                                 <DownloadIcon size={14} aria-hidden="true" />
                                 <span> Export Manuscript...</span>
                             </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    void handleExportArchive();
+                                }}
+                            >
+                                Export Project Archive...
+                            </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setIsWorldBibleDialogOpen(true);
+                                }}
+                            >
+                                Export World Bible...
+                            </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                disabled={isImporting}
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    void handleImportChapters();
+                                }}
+                            >
+                                Import Chapters from Word...
+                            </button>
 
                             <button
                                 type="button"
@@ -201,6 +383,61 @@ export const TitlebarMenuBar: React.FC = () => {
                             >
                                 Project Statistics
                             </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setIsWritingGoalsOpen(true);
+                                }}
+                            >
+                                Writing Goals...
+                            </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setIsDictionaryOpen(true);
+                                }}
+                            >
+                                Spelling Dictionary...
+                            </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setIsGrammarSettingsOpen(true);
+                                }}
+                            >
+                                Grammar &amp; Language...
+                            </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setIsGrammarReportOpen(true);
+                                }}
+                            >
+                                Grammar Report...
+                            </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setIsCommentsOpen(true);
+                                }}
+                            >
+                                All Comments...
+                            </button>
                         </div>
                     ) : null}
                 </div>
@@ -223,6 +460,17 @@ export const TitlebarMenuBar: React.FC = () => {
                             className="titlebar-menu titlebar-no-drag"
                             role="menu"
                         >
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setIsFindReplaceOpen(true);
+                                }}
+                            >
+                                Find and Replace in Project...
+                            </button>
                             <button
                                 type="button"
                                 className="project-card-menu-item"
@@ -284,6 +532,60 @@ export const TitlebarMenuBar: React.FC = () => {
                                     ? "Switch to Timeline"
                                     : "Switch to Manuscript"}
                             </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setWorkspaceViewMode("manuscript");
+                                    setManuscriptViewMode(
+                                        manuscriptViewMode === "corkboard"
+                                            ? "editor"
+                                            : "corkboard",
+                                    );
+                                }}
+                            >
+                                {manuscriptViewMode === "corkboard"
+                                    ? "Hide Corkboard"
+                                    : "Show Corkboard"}
+                            </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setWorkspaceViewMode("manuscript");
+                                    setManuscriptViewMode(
+                                        manuscriptViewMode === "outliner"
+                                            ? "editor"
+                                            : "outliner",
+                                    );
+                                }}
+                            >
+                                {manuscriptViewMode === "outliner"
+                                    ? "Hide Outliner"
+                                    : "Show Outliner"}
+                            </button>
+                            <button
+                                type="button"
+                                className="project-card-menu-item"
+                                role="menuitem"
+                                onClick={() => {
+                                    setOpenMenu(null);
+                                    setWorkspaceViewMode("manuscript");
+                                    setManuscriptViewMode(
+                                        manuscriptViewMode === "cast"
+                                            ? "editor"
+                                            : "cast",
+                                    );
+                                }}
+                            >
+                                {manuscriptViewMode === "cast"
+                                    ? "Hide Cast Appearances"
+                                    : "Show Cast Appearances"}
+                            </button>
                             <button
                                 type="button"
                                 className="project-card-menu-item"
@@ -461,14 +763,131 @@ export const TitlebarMenuBar: React.FC = () => {
                 open={isExportDialogOpen}
                 onOpenChange={setIsExportDialogOpen}
                 projectTitle={activeProjectName}
-                chapterCount={chapters.length}
-                wordCount={manuscriptWordCount}
-                onExport={async ({ author, destinationPath }) => {
+                chapters={exportChapters}
+                exportSettings={workspaceProject?.exportSettings ?? null}
+                hasCover={Boolean(workspaceProject?.coverImageId)}
+                scrapNotes={scrapNotes}
+                onExport={async ({
+                    format,
+                    author,
+                    destinationPath,
+                    settings,
+                    compile,
+                }) => {
+                    await saveExportSettings(settings);
                     await exportManuscript({
                         projectId,
-                        format: "epub",
+                        format,
                         destinationPath,
                         author,
+                        compile,
+                    });
+                }}
+                onSaveSettings={saveExportSettings}
+            />
+
+            <WritingGoalsDialog
+                open={isWritingGoalsOpen}
+                onOpenChange={setIsWritingGoalsOpen}
+                goals={workspaceProject?.writingGoals ?? null}
+                chapters={exportChapters}
+                onSave={saveWritingGoals}
+            />
+
+            <SpellingDictionaryDialog
+                open={isDictionaryOpen}
+                onOpenChange={setIsDictionaryOpen}
+                dictionary={workspaceProject?.dictionary ?? null}
+                userWords={userDictionary}
+                onSaveProjectDictionary={saveProjectDictionary}
+                onSaveUserWords={saveUserDictionary}
+            />
+
+            <GrammarSettingsDialog
+                open={isGrammarSettingsOpen}
+                onOpenChange={setIsGrammarSettingsOpen}
+                settings={workspaceProject?.grammarSettings ?? null}
+                chapters={exportChapters}
+                onSave={saveGrammarSettings}
+            />
+
+            <ManuscriptGrammarReportDialog
+                open={isGrammarReportOpen}
+                onOpenChange={setIsGrammarReportOpen}
+                disabledRuleIds={
+                    workspaceProject?.dictionary?.disabledRuleIds ?? []
+                }
+                onRun={checkManuscriptGrammar}
+                onCancel={cancelManuscriptGrammar}
+                onOpenIssue={(issue) =>
+                    revealInDocument({
+                        kind: "chapter",
+                        id: issue.chapterId,
+                        blockIndex: issue.blockIndex,
+                        offset: issue.offset,
+                        length: issue.length,
+                    })
+                }
+                onIgnoreRule={(ruleId) => {
+                    const dictionary =
+                        workspaceProject?.dictionary ??
+                        EMPTY_PROJECT_DICTIONARY;
+                    return saveProjectDictionary({
+                        ...dictionary,
+                        disabledRuleIds: [
+                            ...dictionary.disabledRuleIds,
+                            ruleId,
+                        ],
+                    });
+                }}
+            />
+
+            <ProjectCommentsDialog
+                open={isCommentsOpen}
+                onOpenChange={setIsCommentsOpen}
+                threads={commentThreads}
+                chapters={exportChapters}
+                onOpenChapter={(id) =>
+                    setActiveDocument({ kind: "chapter", id })
+                }
+                onSetResolved={(threadId, resolved) =>
+                    void setCommentThreadResolved(threadId, resolved)
+                }
+            />
+
+            <ProjectFindReplaceDialog
+                open={isFindReplaceOpen}
+                onOpenChange={setIsFindReplaceOpen}
+                onPreview={(query) =>
+                    previewGlobalReplace({ projectId, ...query })
+                }
+                onReplace={async (query, excludedHitIds) => {
+                    const { replacements } = await globalFindAndReplace({
+                        projectId,
+                        ...query,
+                        excludedHitIds,
+                    });
+                    return replacements;
+                }}
+                canUndo={lastGlobalReplace !== null}
+                onUndo={undoGlobalReplace}
+                onOpenHit={(hit) =>
+                    setActiveDocument({ kind: hit.kind, id: hit.documentId })
+                }
+            />
+
+            <WorldBibleExportDialog
+                open={isWorldBibleDialogOpen}
+                onOpenChange={setIsWorldBibleDialogOpen}
+                projectTitle={activeProjectName}
+                characterCount={characters.length}
+                locationCount={locations.length}
+                organizationCount={organizations.length}
+                onExport={async ({ format, destinationPath }) => {
+                    await exportWorldBible({
+                        projectId,
+                        format,
+                        destinationPath,
                     });
                 }}
             />
@@ -14,12 +14,33 @@ import {
     WifiOffIcon,
 } from "../ui/Icons";
 import { getTextStats } from "../../utils/textStats";
+import {
+    calculateStreak,
+    getWordTargetProgress,
+    getWordsWrittenOn,
+    type WordTargetProgress,
+} from "../../utils/writingGoals";
 import type { WorkspaceDocumentKind } from "../../types";
 import { Button } from "../ui/Button";
 
 const formatInt = (value: number): string =>
     value.toLocaleString(undefined, { maximumFractionDigits: 0 });
 
+const describePace = (progress: WordTargetProgress): string => {
+    if (progress.remaining === 0) {
+        return "Target reached";
+    }
+    if (progress.daysLeft === null) {
+        return `${formatInt(progress.remaining)} words to go`;
+    }
+    if (progress.wordsPerDay === null) {
+        return `Deadline passed, ${formatInt(progress.remaining)} words to go`;
+    }
+    return `${formatInt(progress.wordsPerDay)} words a day to finish in ${progress.daysLeft} ${
+        progress.daysLeft === 1 ? "day" : "days"
+    }`;
+};
+
 export const WorkspaceFooter: React.FC<{
     binderActiveKind: WorkspaceDocumentKind;
     onBinderActiveKindChange: (kind: WorkspaceDocumentKind) => void;
@@ -34,6 +55,7 @@ export const WorkspaceFooter: React.FC<{
         syncStatus,
         lastSyncedAt,
         workspaceViewMode,
+        workspaceProject,
     } = useAppStore();
 
     const [isHoveringCount, setIsHoveringCount] = React.useState(false);
@@ -54,6 +76,32 @@ export const WorkspaceFooter: React.FC<{
         return getTextStats(activeChapter.content);
     }, [activeChapter]);
 
+    const writingGoals = workspaceProject?.writingGoals ?? null;
+
+    const projectProgress = React.useMemo(() => {
+        if (!writingGoals?.project) {
+            return null;
+        }
+        const manuscriptWords = chapters.reduce(
+            (sum, chapter) => sum + getTextStats(chapter.content).wordCount,
+            0,
+        );
+        return getWordTargetProgress(writingGoals.project, manuscriptWords);
+    }, [writingGoals, chapters]);
+
+    const activeChapterProgress = React.useMemo(() => {
+        const target = writingGoals?.chapters.find(
+            (item) => item.chapterId === activeChapter?.id,
+        );
+        if (!target || !activeChapterStats) {
+            return null;
+        }
+        return getWordTargetProgress(target, activeChapterStats.wordCount);
+    }, [writingGoals, activeChapter, activeChapterStats]);
+
+    const writtenToday = getWordsWrittenOn(writingGoals);
+    const streak = calculateStreak(writingGoals);
+
     const renderAutosaveIcon = () => {
         // Condensed footer-only autosave indicator.
         switch (autosaveStatus) {
@@ -226,22 +274,85 @@ export const WorkspaceFooter: React.FC<{
                         >
                             TIMELINE (experimental feature)
                         </div>
-                    ) : activeChapterStats ? (
-                        <div
-                            className="workspace-footer-stat"
-                            onMouseEnter={() => setIsHoveringCount(true)}
-                            onMouseLeave={() => setIsHoveringCount(false)}
-                            title={
-                                isHoveringCount
-                                    ? "Word count"
-                                    : "Character count"
-                            }
-                        >
-                            {isHoveringCount
-                                ? `${formatInt(activeChapterStats.characterCount)} chars`
-                                : `${formatInt(activeChapterStats.wordCount)} words`}
-                        </div>
-                    ) : null}
+                    ) : (
+                        <>
+                            {activeChapterStats ? (
+                                <div
+                                    className="workspace-footer-stat"
+                                    onMouseEnter={() =>
+                                        setIsHoveringCount(true)
+                                    }
+                                    onMouseLeave={() =>
+                                        setIsHoveringCount(false)
+                                    }
+                                    title={
+                                        activeChapterProgress
+                                            ? `Chapter target: ${describePace(activeChapterProgress)}`
+                                            : isHoveringCount
+                                              ? "Word count"
+                                              : "Character count"
+                                    }
+                                >
+                                    {isHoveringCount
+                                        ? `${formatInt(activeChapterStats.characterCount)} chars`
+                                        : activeChapterProgress
+                                          ? `${formatInt(activeChapterStats.wordCount)} / ${formatInt(activeChapterProgress.target)} words`
+                                          : `${formatInt(activeChapterStats.wordCount)} words`}
+                                </div>
+                            ) : null}
+                            {writingGoals ? (
+                                <div
+                                    className="workspace-footer-stat workspace-footer-goals"
+                                    title={[
+                                        writingGoals.dailyWords
+                                            ? `Daily goal: ${formatInt(writingGoals.dailyWords)} words`
+                                            : null,
+                                        projectProgress
+                                            ? `Manuscript: ${describePace(projectProgress)}`
+                                            : null,
+                                    ]
+                                        .filter(Boolean)
+                                        .join("\n")}
+                                >
+                                    <span
+                                        className={
+                                            writingGoals.dailyWords &&
+                                            writtenToday >=
+                                                writingGoals.dailyWords
+                                                ? "workspace-footer-goal is-met"
+                                                : "workspace-footer-goal"
+                                        }
+                                    >
+                                        {writtenToday > 0 ? "+" : ""}
+                                        {formatInt(writtenToday)}
+                                        {writingGoals.dailyWords
+                                            ? ` / ${formatInt(writingGoals.dailyWords)}`
+                                            : ""}{" "}
+                                        today
+                                    </span>
+                                    {streak > 0 ? (
+                                        <span className="workspace-footer-goal">
+                                            {streak}-day streak
+                                        </span>
+                                    ) : null}
+                                    {projectProgress ? (
+                                        <span className="workspace-footer-goal">
+                                            {Math.min(
+                                                100,
+                                                Math.floor(
+                                                    (projectProgress.current /
+                                                        projectProgress.target) *
+                                                        100,
+                                                ),
+                                            )}
+                                            % of{" "}
+                                            {formatInt(projectProgress.target)}
+                                        </span>
+                                    ) : null}
+                                </div>
+                            ) : null}
+                        </>
+                    )}
                 </div>
 
                 {/* In timeline view, include right section inside main for proper centering */}
@@ -14,6 +14,7 @@ import {
 import { LanguageTool } from "../../tiptap/languageTool";
 import { NightModeDisplayColorShift } from "../../tiptap/nightModeDisplayColorShift";
 import { LanguageToolPopup } from "../workspace/LanguageToolPopup";
+import { useAppStore } from "../../state/appStore";
 import type { DocumentRef } from "./ListInput";
 import classNames from "clsx";
 
@@ -99,9 +100,10 @@ export const RichTextAreaInput = forwardRef<
                 ...(enableGrammarCheck
                     ? [
                           LanguageTool.configure({
-                              language: "auto",
                               automaticMode: true,
                               documentId,
+                              checkGrammar: (request) =>
+                                  useAppStore.getState().checkGrammar(request),
                           }),
                       ]
                     : []),
@@ -0,0 +1,550 @@
+import React from "react";
+import { generateText, type Editor, type JSONContent } from "@tiptap/react";
+import { CloseIcon, RefreshCwIcon } from "../ui/Icons";
+import { Button } from "../ui/Button";
+import { ConfirmationDialog } from "../dialogs/ConfirmationDialog";
+import { showToast } from "../ui/GenerationProgressToast";
+import { useAppStore } from "../../state/appStore";
+import { diffWords } from "../../utils/wordDiff";
+import { extractPlainText } from "../../utils/textStats";
+import type { ChapterSnapshot } from "../../../@core/domain/entities/story/ChapterSnapshot";
+import type { ChapterHistoryRetention } from "../../../@core/domain/entities/story/ChapterHistoryRetention";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const BLOCK_SEPARATOR = "\n\n";
+
+const REASON_LABELS: Record<ChapterSnapshot["reason"], string> = {
+    timed: "Autosave",
+    "ai-edit": "Before AI edits",
+    overwrite: "Before overwrite",
+    restore: "Before restore",
+    split: "Before split",
+    merge: "Before merge",
+};
+
+/** Plain text of a snapshot, with the same block breaks the editor uses. */
+const snapshotToText = (editor: Editor, content: string): string => {
+    try {
+        return generateText(
+            JSON.parse(content) as JSONContent,
+            editor.extensionManager.extensions,
+            { blockSeparator: BLOCK_SEPARATOR },
+        );
+    } catch {
+        return extractPlainText(content);
+    }
+};
+
+const formatDate = (value: Date | string) => {
+    const d = new Date(value);
+    if (Number.isNaN(d.getTime())) return "";
+    return d.toLocaleDateString(undefined, {
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+};
+
+const formatDelta = (delta: number) => {
+    if (delta === 0) return "±0 words";
+    const sign = delta > 0 ? "+" : "−";
+    const count = Math.abs(delta);
+    return `${sign}${count.toLocaleString()} ${count === 1 ? "word" : "words"}`;
+};
+
+type RetentionDraft = {
+    intervalMinutes: string;
+    maxSnapshotsPerChapter: string;
+    maxAgeDays: string;
+};
+
+const toDraft = (retention: ChapterHistoryRetention): RetentionDraft => ({
+    intervalMinutes: String(retention.intervalMinutes),
+    maxSnapshotsPerChapter: String(retention.maxSnapshotsPerChapter),
+    maxAgeDays:
+        retention.maxAgeDays === null ? "" : String(retention.maxAgeDays),
+});
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface ChapterHistorySidebarProps {
+    editor: Editor;
+    projectId: string;
+    chapterId: string;
+    onClose: () => void;
+}
+
+export const ChapterHistorySidebar: React.FC<ChapterHistorySidebarProps> = ({
+    editor,
+    projectId,
+    chapterId,
+    onClose,
+}) => {
+    const loadChapterHistory = useAppStore(
+        (state) => state.loadChapterHistory,
+    );
+    const createChapterSnapshot = useAppStore(
+        (state) => state.createChapterSnapshot,
+    );
+    const saveChapterHistorySettings = useAppStore(
+        (state) => state.saveChapterHistorySettings,
+    );
+
+    const [snapshots, setSnapshots] = React.useState<ChapterSnapshot[]>([]);
+    const [retention, setRetention] =
+        React.useState<ChapterHistoryRetention | null>(null);
+    const [isLoading, setIsLoading] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const [selectedId, setSelectedId] = React.useState<string | null>(null);
+    const [view, setView] = React.useState<"changes" | "snapshot">("changes");
+    const [currentText, setCurrentText] = React.useState("");
+    const [isRestoreConfirmOpen, setIsRestoreConfirmOpen] =
+        React.useState(false);
+    const [isSettingsOpen, setIsSettingsOpen] = React.useState(false);
+    const [draft, setDraft] = React.useState<RetentionDraft | null>(null);
+    const [isSavingSettings, setIsSavingSettings] = React.useState(false);
+    const previewRef = React.useRef<HTMLDivElement>(null);
+
+    const refresh = React.useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const response = await loadChapterHistory({ projectId, chapterId });
+            setSnapshots(response.snapshots);
+            setRetention(response.retention);
+        } catch (loadError) {
+            setError(
+                (loadError as Error)?.message ??
+                    "Unable to load version history.",
+            );
+        } finally {
+            setIsLoading(false);
+        }
+    }, [loadChapterHistory, projectId, chapterId]);
+
+    React.useEffect(() => {
+        setSelectedId(null);
+        void refresh();
+    }, [refresh]);
+
+    // Keep the diff in step with the editor without re-diffing every keystroke.
+    React.useEffect(() => {
+        let timer: number | null = null;
+        const update = () => {
+            if (timer !== null) window.clearTimeout(timer);
+            timer = window.setTimeout(() => {
+                timer = null;
+                setCurrentText(
+                    editor.getText({ blockSeparator: BLOCK_SEPARATOR }),
+                );
+            }, 400);
+        };
+
+        setCurrentText(editor.getText({ blockSeparator: BLOCK_SEPARATOR }));
+        editor.on("update", update);
+        return () => {
+            editor.off("update", update);
+            if (timer !== null) window.clearTimeout(timer);
+        };
+    }, [editor]);
+
+    const selected = snapshots.find((s) => s.id === selectedId) ?? null;
+
+    const selectedText = React.useMemo(
+        () => (selected ? snapshotToText(editor, selected.content) : ""),
+        [editor, selected],
+    );
+
+    const diff = React.useMemo(
+        () =>
+            selected && view === "changes"
+                ? diffWords(selectedText, currentText)
+                : [],
+        [selected, view, selectedText, currentText],
+    );
+
+    const restoreSelected = React.useCallback(async () => {
+        if (!selected) return;
+        try {
+            // Keep what is being replaced so the restore can itself be undone.
+            await createChapterSnapshot({
+                projectId,
+                chapterId,
+                reason: "restore",
+                content: JSON.stringify(editor.getJSON()),
+            });
+            editor.commands.setContent(
+                JSON.parse(selected.content) as JSONContent,
+            );
+            showToast({
+                variant: "success",
+                title: "Snapshot restored",
+                description: formatDate(selected.createdAt),
+                durationMs: 3000,
+            });
+            await refresh();
+        } catch (restoreError) {
+            showToast({
+                variant: "error",
+                title: "Restore failed",
+                description:
+                    (restoreError as Error)?.message ??
+                    "Unable to restore this snapshot.",
+                durationMs: 4000,
+            });
+        }
+    }, [selected, createChapterSnapshot, projectId, chapterId, editor, refresh]);
+
+    const copyPassage = React.useCallback(async () => {
+        // Copy the highlighted passage if there is one, otherwise the whole snapshot.
+        const selection = window.getSelection();
+        const highlighted =
+            selection &&
+            !selection.isCollapsed &&
+            previewRef.current?.contains(selection.anchorNode)
+                ? selection.toString()
+                : "";
+        try {
+            await navigator.clipboard.writeText(highlighted || selectedText);
+            showToast({
+                variant: "success",
+                title: highlighted ? "Passage copied" : "Snapshot copied",
+                durationMs: 2000,
+            });
+        } catch {
+            showToast({
+                variant: "error",
+                title: "Could not copy to the clipboard",
+                durationMs: 3000,
+            });
+        }
+    }, [selectedText]);
+
+    const openSettings = () => {
+        if (!retention) return;
+        setDraft(toDraft(retention));
+        setIsSettingsOpen(true);
+    };
+
+    const saveSettings = async () => {
+        if (!draft) return;
+        setIsSavingSettings(true);
+        setError(null);
+        try {
+            const saved = await saveChapterHistorySettings({
+                projectId,
+                retention: {
+                    intervalMinutes: Number(draft.intervalMinutes),
+                    maxSnapshotsPerChapter: Number(
+                        draft.maxSnapshotsPerChapter,
+                    ),
+                    maxAgeDays: draft.maxAgeDays.trim()
+                        ? Number(draft.maxAgeDays)
+                        : null,
+                },
+            });
+            setRetention(saved);
+            setIsSettingsOpen(false);
+            await refresh();
+        } catch (saveError) {
+            setError(
+                (saveError as Error)?.message ??
+                    "Unable to save history settings.",
+            );
+        } finally {
+            setIsSavingSettings(false);
+        }
+    };
+
+    // -----------------------------------------------------------------------
+    // Render
+    // -----------------------------------------------------------------------
+
+    return (
+        <div className="comments-sidebar chapter-history-sidebar">
+            <div className="comments-sidebar-header">
+                <span className="comments-sidebar-title">History</span>
+                <div className="comments-sidebar-header-actions">
+                    <button
+                        type="button"
+                        className="btn btn-icon"
+                        onClick={() => void refresh()}
+                        disabled={isLoading}
+                        title="Refresh history"
+                        aria-label="Refresh history"
+                    >
+                        <RefreshCwIcon size={14} />
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-icon"
+                        onClick={onClose}
+                        title="Close history"
+                        aria-label="Close history"
+                    >
+                        <CloseIcon size={14} />
+                    </button>
+                </div>
+            </div>
+
+            {error ? <div className="chapter-history-error">{error}</div> : null}
+
+            {selected ? (
+                <div className="chapter-history-detail">
+                    <div className="chapter-history-detail-header">
+                        <button
+                            type="button"
+                            className="btn btn-sm btn-ghost"
+                            onClick={() => setSelectedId(null)}
+                        >
+                            ← All snapshots
+                        </button>
+                        <span className="comments-sidebar-card-date">
+                            {formatDate(selected.createdAt)}
+                        </span>
+                    </div>
+                    <div className="chapter-history-view-toggle">
+                        <button
+                            type="button"
+                            className={`chapter-history-view-option${view === "changes" ? " is-active" : ""}`}
+                            onClick={() => setView("changes")}
+                        >
+                            Changes
+                        </button>
+                        <button
+                            type="button"
+                            className={`chapter-history-view-option${view === "snapshot" ? " is-active" : ""}`}
+                            onClick={() => setView("snapshot")}
+                        >
+                            Snapshot
+                        </button>
+                    </div>
+                    <div ref={previewRef} className="chapter-history-preview">
+                        {view === "changes"
+                            ? diff.map((segment, index) =>
+                                  segment.type === "equal" ? (
+                                      <span key={index}>{segment.text}</span>
+                                  ) : segment.type === "added" ? (
+                                      <ins
+                                          key={index}
+                                          className="chapter-history-diff-added"
+                                      >
+                                          {segment.text}
+                                      </ins>
+                                  ) : (
+                                      <del
+                                          key={index}
+                                          className="chapter-history-diff-removed"
+                                      >
+                                          {segment.text}
+                                      </del>
+                                  ),
+                              )
+                            : selectedText}
+                    </div>
+                    {view === "changes" ? (
+                        <p className="comments-sidebar-hint">
+                            Struck-through text is only in the snapshot;
+                            highlighted text has been added since.
+                        </p>
+                    ) : null}
+                    <div className="comments-sidebar-add-actions">
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={() => void copyPassage()}
+                            title="Copy the highlighted passage, or the whole snapshot"
+                        >
+                            Copy
+                        </Button>
+                        <Button
+                            variant="primary"
+                            size="sm"
+                            onClick={() => setIsRestoreConfirmOpen(true)}
+                        >
+                            Restore
+                        </Button>
+                    </div>
+                </div>
+            ) : snapshots.length === 0 ? (
+                <div className="comments-sidebar-empty">
+                    <p>{isLoading ? "Loading history…" : "No snapshots yet."}</p>
+                    {!isLoading ? (
+                        <p className="comments-sidebar-hint">
+                            Snapshots are taken while you write and before AI
+                            edits or overwrites change this chapter.
+                        </p>
+                    ) : null}
+                </div>
+            ) : (
+                <div className="comments-sidebar-list">
+                    {snapshots.map((snapshot, index) => {
+                        const older = snapshots[index + 1];
+                        return (
+                            <div
+                                key={snapshot.id}
+                                className="comments-sidebar-card"
+                                role="button"
+                                tabIndex={0}
+                                onClick={() => {
+                                    setSelectedId(snapshot.id);
+                                    setView("changes");
+                                }}
+                                onKeyDown={(event) => {
+                                    if (
+                                        event.key === "Enter" ||
+                                        event.key === " "
+                                    ) {
+                                        event.preventDefault();
+                                        setSelectedId(snapshot.id);
+                                        setView("changes");
+                                    }
+                                }}
+                            >
+                                <div className="comments-sidebar-card-header">
+                                    <span className="comments-sidebar-card-badge chapter-history-badge">
+                                        {REASON_LABELS[snapshot.reason]}
+                                    </span>
+                                    <span className="comments-sidebar-card-date">
+                                        {formatDate(snapshot.createdAt)}
+                                    </span>
+                                </div>
+                                <div className="chapter-history-card-stats">
+                                    <span>
+                                        {snapshot.wordCount.toLocaleString()}{" "}
+                                        words
+                                    </span>
+                                    {older ? (
+                                        <span
+                                            className={`chapter-history-delta${
+                                                snapshot.wordCount >
+                                                older.wordCount
+                                                    ? " is-positive"
+                                                    : snapshot.wordCount <
+                                                        older.wordCount
+                                                      ? " is-negative"
+                                                      : ""
+                                            }`}
+                                        >
+                                            {formatDelta(
+                                                snapshot.wordCount -
+                                                    older.wordCount,
+                                            )}
+                                        </span>
+                                    ) : null}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="chapter-history-settings">
+                {isSettingsOpen && draft ? (
+                    <>
+                        <div className="comments-sidebar-draft-label">
+                            Retention
+                        </div>
+                        <label className="chapter-history-setting">
+                            <span>Autosave snapshot every (minutes)</span>
+                            <input
+                                className="input"
+                                type="number"
+                                min={1}
+                                step={1}
+                                value={draft.intervalMinutes}
+                                onChange={(e) =>
+                                    setDraft({
+                                        ...draft,
+                                        intervalMinutes: e.target.value,
+                                    })
+                                }
+                            />
+                        </label>
+                        <label className="chapter-history-setting">
+                            <span>Keep at most (per chapter)</span>
+                            <input
+                                className="input"
+                                type="number"
+                                min={1}
+                                step={1}
+                                value={draft.maxSnapshotsPerChapter}
+                                onChange={(e) =>
+                                    setDraft({
+                                        ...draft,
+                                        maxSnapshotsPerChapter: e.target.value,
+                                    })
+                                }
+                            />
+                        </label>
+                        <label className="chapter-history-setting">
+                            <span>Delete after (days)</span>
+                            <input
+                                className="input"
+                                type="number"
+                                min={1}
+                                step={1}
+                                placeholder="Never"
+                                value={draft.maxAgeDays}
+                                onChange={(e) =>
+                                    setDraft({
+                                        ...draft,
+                                        maxAgeDays: e.target.value,
+                                    })
+                                }
+                            />
+                        </label>
+                        <div className="comments-sidebar-add-actions">
+                            <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setIsSettingsOpen(false)}
+                                disabled={isSavingSettings}
+                            >
+                                Cancel
+                            </Button>
+                            <Button
+                                variant="primary"
+                                size="sm"
+                                onClick={() => void saveSettings()}
+                                disabled={isSavingSettings}
+                            >
+                                {isSavingSettings ? "Saving…" : "Save"}
+                            </Button>
+                        </div>
+                    </>
+                ) : (
+                    <button
+                        type="button"
+                        className="chapter-history-settings-toggle"
+                        onClick={openSettings}
+                        disabled={!retention}
+                    >
+                        {retention
+                            ? `Every ${retention.intervalMinutes} min · keep ${retention.maxSnapshotsPerChapter}${
+                                  retention.maxAgeDays === null
+                                      ? ""
+                                      : ` · ${retention.maxAgeDays} days`
+                              }`
+                            : "Retention"}
+                    </button>
+                )}
+            </div>
+
+            <ConfirmationDialog
+                open={isRestoreConfirmOpen}
+                onOpenChange={setIsRestoreConfirmOpen}
+                title="Restore this snapshot?"
+                description="The chapter will be replaced with this snapshot. Its current text is kept in history first, so you can switch back."
+                confirmLabel="Restore"
+                onConfirm={() => void restoreSelected()}
+            />
+        </div>
+    );
+};
@@ -21,6 +21,7 @@ import {
 
 export type CharacterEditorValues = {
     name: string;
+    aliases: string[];
     description: string;
     currentLocationId: string;
     backgroundLocationId: string;
@@ -115,6 +116,7 @@ const defaultValues = (
     character: WorkspaceCharacter,
 ): CharacterEditorValues => ({
     name: character.name ?? "",
+    aliases: character.aliases ?? [],
     description: character.description ?? "",
     currentLocationId: character.currentLocationId ?? "",
     backgroundLocationId: character.backgroundLocationId ?? "",
@@ -161,6 +163,7 @@ export const CharacterEditor: React.FC<CharacterEditorProps> = ({
         () => defaultValues(character),
         [
             character.name,
+            character.aliases,
             character.description,
             character.currentLocationId,
             character.backgroundLocationId,
@@ -7,7 +7,13 @@ import type {
     PendingChapterEdit,
     PendingChapterReplacementEdit,
 } from "../../state/appStore";
+import type { WorkspaceCommentThread } from "../../types";
 import { sanitizeReplacementText } from "../../tiptap/comments";
+import {
+    collectInlineComments,
+    type InlineCommentEntry,
+} from "../../tiptap/inlineComment";
+import { collectTrackedChanges } from "../../tiptap/trackChanges";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -15,14 +21,19 @@ import { sanitizeReplacementText } from "../../tiptap/comments";
 
 /**
  * Unified comment entry shown in the sidebar.
- * Both user inline comments and AI edits produce these.
+ * User inline comments, AI edits and suggested changes all produce these.
  */
 export interface UnifiedCommentEntry {
     /** Unique identifier (the mark's commentId for user, or the edit's id for AI). */
     id: string;
-    author: "user" | "ai";
-    /** For AI edits: "comment" or "replacement". User comments are always "comment". */
-    editKind: "comment" | "replacement";
+    author: "user" | "ai" | "suggestion";
+    /**
+     * For AI edits: "comment" or "replacement". User comments are always
+     * "comment"; suggested changes insert, delete or replace text.
+     */
+    editKind: "comment" | "replacement" | "insertion" | "deletion";
+    /** Who wrote the comment thread or made the suggested change. */
+    authorName?: string;
     /** The comment body text. */
     commentText: string;
     /** Highlighted document text (empty for chapter-level). */
@@ -32,59 +43,71 @@ export interface UnifiedCommentEntry {
     to: number;
     /** ISO timestamp. */
     createdAt: string;
-    /** For AI replacements only. */
+    /** For AI replacements and suggested changes only. */
     originalText?: string;
     replacementText?: string;
     /** Whether this is a chapter-level comment with no anchored text. */
     isChapterLevel: boolean;
+    /** For user comments: the thread holding the conversation. */
+    thread?: WorkspaceCommentThread;
 }
 
 // ---------------------------------------------------------------------------
 // Extraction helpers
 // ---------------------------------------------------------------------------
 
-/** Extract user inline-comment marks from the document. */
-const extractUserComments = (editor: Editor): UnifiedCommentEntry[] => {
-    const markType = editor.schema.marks.inlineComment;
-    if (!markType) return [];
-
-    const byId = new Map<string, UnifiedCommentEntry>();
-
-    editor.state.doc.descendants((node, pos) => {
-        if (!node.isText || !node.marks?.length) return;
-
-        for (const mark of node.marks) {
-            if (mark.type !== markType) continue;
+/**
+ * Build the entry for a comment thread. Threads whose passage was deleted
+ * keep the excerpt quoted when they were opened.
+ */
+const buildThreadEntry = (
+    thread: WorkspaceCommentThread,
+    anchor: InlineCommentEntry | null,
+): UnifiedCommentEntry => {
+    const [first] = thread.messages;
+    return {
+        id: thread.id,
+        author: "user",
+        editKind: "comment",
+        authorName: first?.authorName,
+        commentText: first?.text ?? "",
+        excerpt: anchor?.excerpt ?? thread.excerpt,
+        from: anchor?.from ?? Infinity,
+        to: anchor?.to ?? Infinity,
+        createdAt: new Date(thread.createdAt).toISOString(),
+        isChapterLevel: thread.isChapterLevel,
+        thread,
+    };
+};
 
-            const attrs = mark.attrs as {
-                commentId?: string;
-                commentText?: string;
-                createdAt?: string;
-            };
-            const id = attrs.commentId;
-            if (!id) continue;
+/** Extract user inline-comment marks from the document. */
+const extractUserComments = (
+    editor: Editor,
+    threadsById: Map<string, WorkspaceCommentThread>,
+): UnifiedCommentEntry[] => {
+    const entries: UnifiedCommentEntry[] = [];
 
-            const existing = byId.get(id);
-            if (existing) {
-                existing.to = pos + node.nodeSize;
-                existing.excerpt += node.text ?? "";
-            } else {
-                byId.set(id, {
-                    id,
-                    author: "user",
-                    editKind: "comment",
-                    commentText: attrs.commentText ?? "",
-                    excerpt: node.text ?? "",
-                    from: pos,
-                    to: pos + node.nodeSize,
-                    createdAt: attrs.createdAt ?? "",
-                    isChapterLevel: false,
-                });
-            }
+    for (const comment of collectInlineComments(editor.state.doc)) {
+        const thread = threadsById.get(comment.commentId);
+        if (thread) {
+            entries.push(buildThreadEntry(thread, comment));
+        } else if (comment.commentText) {
+            // A comment that keeps its text on the mark
+            entries.push({
+                id: comment.commentId,
+                author: "user",
+                editKind: "comment",
+                commentText: comment.commentText,
+                excerpt: comment.excerpt,
+                from: comment.from,
+                to: comment.to,
+                createdAt: comment.createdAt,
+                isChapterLevel: false,
+            });
         }
-    });
+    }
 
-    return [...byId.values()];
+    return entries;
 };
 
 /** Extract AI edit marks from the document, enriched with data from the pending edits store. */
@@ -146,6 +169,29 @@ const extractAIComments = (
     return [...byId.values()];
 };
 
+/** Extract suggested changes recorded in suggestion mode. */
+const extractSuggestions = (editor: Editor): UnifiedCommentEntry[] => {
+    return collectTrackedChanges(editor.state.doc).map((change) => ({
+        id: change.id,
+        author: "suggestion" as const,
+        editKind:
+            change.insertedText && change.deletedText
+                ? ("replacement" as const)
+                : change.insertedText
+                  ? ("insertion" as const)
+                  : ("deletion" as const),
+        authorName: change.author,
+        commentText: "",
+        excerpt: "",
+        from: change.from,
+        to: change.to,
+        createdAt: change.createdAt,
+        originalText: change.deletedText,
+        replacementText: change.insertedText,
+        isChapterLevel: false,
+    }));
+};
+
 /** Build chapter-level AI comment entries (no word range). */
 const buildChapterLevelAIComments = (
     chapterLevelEdits: PendingChapterCommentEdit[],
@@ -167,10 +213,18 @@ const buildChapterLevelAIComments = (
 // Props
 // ---------------------------------------------------------------------------
 
-export interface UserChapterComment {
-    id: string;
-    text: string;
-    createdAt: string;
+/** Store actions behind comment threads, bound to the open chapter. */
+export interface CommentThreadActions {
+    create: (params: {
+        id: string;
+        text: string;
+        excerpt?: string;
+        isChapterLevel?: boolean;
+    }) => void;
+    reply: (threadId: string, text: string) => void;
+    setResolved: (threadId: string, resolved: boolean) => void;
+    editMessage: (threadId: string, messageId: string, text: string) => void;
+    remove: (threadId: string) => void;
 }
 
 interface CommentsSidebarProps {
@@ -183,10 +237,15 @@ interface CommentsSidebarProps {
     pendingEditsById: Record<string, PendingChapterEdit>;
     /** Chapter-level AI comments (no word range). */
     chapterLevelAIComments: PendingChapterCommentEdit[];
-    /** User chapter-level comments. */
-    userChapterComments: UserChapterComment[];
-    onAddUserChapterComment: (text: string) => void;
-    onRemoveUserChapterComment: (id: string) => void;
+    /** Comment threads opened on this document. */
+    commentThreads: WorkspaceCommentThread[];
+    /**
+     * Keeps user comments as threads outside the prose. Without it, comments
+     * store their text on the mark and take no replies or chapter notes.
+     */
+    commentThreadActions?: CommentThreadActions;
+    /** Name shown on new comments; only its own messages can be edited. */
+    authorName: string;
     /** Called when an AI edit (comment or replacement) should be dismissed/rejected. */
     onDismissAIEdit: (editId: string) => void;
     /** Called when an AI replacement should be accepted. */
@@ -206,9 +265,9 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
     onCommentRequestHandled,
     pendingEditsById,
     chapterLevelAIComments,
-    userChapterComments,
-    onAddUserChapterComment,
-    onRemoveUserChapterComment,
+    commentThreads,
+    commentThreadActions,
+    authorName,
     onDismissAIEdit,
     onAcceptReplacement,
     activeCommentId,
@@ -219,6 +278,7 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
     const [isChapterLevelDraft, setIsChapterLevelDraft] = React.useState(false);
     const [editingId, setEditingId] = React.useState<string | null>(null);
     const [editText, setEditText] = React.useState("");
+    const [showResolved, setShowResolved] = React.useState(false);
     const draftInputRef = React.useRef<HTMLTextAreaElement>(null);
     const editInputRef = React.useRef<HTMLTextAreaElement>(null);
     const activeCardRef = React.useRef<HTMLDivElement>(null);
@@ -230,26 +290,27 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
     // Re-extract all comments whenever the document, pending edits, or chapter-level comments change.
     React.useEffect(() => {
         const refresh = () => {
-            const user = extractUserComments(editor);
+            const threadsById = new Map(
+                commentThreads.map((thread) => [thread.id, thread]),
+            );
+            const user = extractUserComments(editor, threadsById);
+            const anchoredIds = new Set(user.map((entry) => entry.id));
             const ai = extractAIComments(editor, pendingEditsById);
+            const suggestions = extractSuggestions(editor);
             const chapterAI = buildChapterLevelAIComments(
                 chapterLevelAIComments,
             );
-            const chapterUser: UnifiedCommentEntry[] = userChapterComments.map(
-                (c) => ({
-                    id: c.id,
-                    author: "user",
-                    editKind: "comment",
-                    commentText: c.text,
-                    excerpt: "",
-                    from: Infinity,
-                    to: Infinity,
-                    createdAt: c.createdAt,
-                    isChapterLevel: true,
-                }),
-            );
+            const unanchored = commentThreads
+                .filter((thread) => !anchoredIds.has(thread.id))
+                .map((thread) => buildThreadEntry(thread, null));
 
-            const all = [...chapterAI, ...chapterUser, ...user, ...ai];
+            const all = [
+                ...chapterAI,
+                ...unanchored,
+                ...user,
+                ...ai,
+                ...suggestions,
+            ].filter((entry) => showResolved || !entry.thread?.resolved);
             // Sort: chapter-level first, then by document position.
             all.sort((a, b) => {
                 if (a.isChapterLevel !== b.isChapterLevel) {
@@ -268,7 +329,13 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
             editor.off("update", refresh);
             editor.off("selectionUpdate", refresh);
         };
-    }, [editor, pendingEditsById, chapterLevelAIComments, userChapterComments]);
+    }, [
+        editor,
+        pendingEditsById,
+        chapterLevelAIComments,
+        commentThreads,
+        showResolved,
+    ]);
 
     // Auto-scroll to active comment card when cursor enters a highlight.
     React.useEffect(() => {
@@ -287,6 +354,7 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
         onCommentRequestHandled();
 
         const { from, to } = editor.state.selection;
+        if (from === to && !commentThreadActions) return;
         if (from === to) {
             // No selection — open chapter-level comment draft.
             setIsChapterLevelDraft(true);
@@ -299,49 +367,68 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
         setIsAddingComment(true);
         setDraftText("");
         requestAnimationFrame(() => draftInputRef.current?.focus());
-    }, [pendingCommentRequest, editor, onCommentRequestHandled]);
+    }, [
+        pendingCommentRequest,
+        editor,
+        onCommentRequestHandled,
+        commentThreadActions,
+    ]);
 
     const submitComment = React.useCallback(() => {
         const text = draftText.trim();
         if (!text) return;
 
         if (isChapterLevelDraft) {
-            onAddUserChapterComment(text);
+            commentThreadActions?.create({
+                id: crypto.randomUUID(),
+                text,
+                isChapterLevel: true,
+            });
         } else {
             if (!selectionRef.current) return;
             const { from, to } = selectionRef.current;
+            const commentId = crypto.randomUUID();
+            // The thread shares the mark's id; the mark only highlights
             editor
                 .chain()
                 .focus()
                 .setTextSelection({ from, to })
                 .setInlineComment({
-                    commentId: crypto.randomUUID(),
-                    commentText: text,
+                    commentId,
+                    commentText: commentThreadActions ? "" : text,
                     createdAt: new Date().toISOString(),
                 })
                 .run();
+            commentThreadActions?.create({
+                id: commentId,
+                text,
+                excerpt: editor.state.doc.textBetween(from, to, " "),
+            });
         }
 
         setDraftText("");
         setIsAddingComment(false);
         setIsChapterLevelDraft(false);
         selectionRef.current = null;
-    }, [draftText, editor, isChapterLevelDraft, onAddUserChapterComment]);
+    }, [draftText, editor, isChapterLevelDraft, commentThreadActions]);
 
     const deleteUserComment = React.useCallback(
         (entry: UnifiedCommentEntry) => {
-            if (entry.isChapterLevel) {
-                onRemoveUserChapterComment(entry.id);
-            } else {
+            if (entry.thread) {
+                commentThreadActions?.remove(entry.id);
+            }
+            if (!entry.isChapterLevel) {
                 editor.commands.removeInlineComment(entry.id);
             }
         },
-        [editor, onRemoveUserChapterComment],
+        [editor, commentThreadActions],
     );
 
-    const startEdit = React.useCallback((entry: UnifiedCommentEntry) => {
-        setEditingId(entry.id);
-        setEditText(entry.commentText);
+    // Threads edit one message at a time; comments without a thread are
+    // edited on the mark by comment id.
+    const startEdit = React.useCallback((id: string, text: string) => {
+        setEditingId(id);
+        setEditText(text);
         requestAnimationFrame(() => editInputRef.current?.focus());
     }, []);
 
@@ -349,14 +436,35 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
         if (!editingId) return;
         const text = editText.trim();
         if (!text) return;
-        editor.commands.updateInlineComment(editingId, text);
+        const thread = commentThreads.find((candidate) =>
+            candidate.messages.some((message) => message.id === editingId),
+        );
+        if (thread) {
+            commentThreadActions?.editMessage(thread.id, editingId, text);
+        } else {
+            editor.commands.updateInlineComment(editingId, text);
+        }
         setEditingId(null);
         setEditText("");
-    }, [editingId, editText, editor]);
+    }, [editingId, editText, editor, commentThreads, commentThreadActions]);
+
+    const replyToThread = React.useCallback(
+        (threadId: string, text: string) => {
+            commentThreadActions?.reply(threadId, text);
+        },
+        [commentThreadActions],
+    );
+
+    const setThreadResolved = React.useCallback(
+        (threadId: string, resolved: boolean) => {
+            commentThreadActions?.setResolved(threadId, resolved);
+        },
+        [commentThreadActions],
+    );
 
     const scrollToComment = React.useCallback(
         (entry: UnifiedCommentEntry) => {
-            if (entry.isChapterLevel) return;
+            if (!Number.isFinite(entry.from)) return;
 
             editor.chain().focus().setTextSelection(entry.from).run();
 
@@ -371,6 +479,20 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
         [editor],
     );
 
+    const acceptSuggestion = React.useCallback(
+        (id: string) => {
+            editor.commands.acceptTrackedChange(id);
+        },
+        [editor],
+    );
+
+    const rejectSuggestion = React.useCallback(
+        (id: string) => {
+            editor.commands.rejectTrackedChange(id);
+        },
+        [editor],
+    );
+
     const formatDate = (iso: string) => {
         if (!iso) return "";
         try {
@@ -388,6 +510,7 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
 
     const startNewComment = React.useCallback(() => {
         const { from, to } = editor.state.selection;
+        if (from === to && !commentThreadActions) return;
         if (from === to) {
             setIsChapterLevelDraft(true);
             selectionRef.current = null;
@@ -398,7 +521,7 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
         setIsAddingComment(true);
         setDraftText("");
         requestAnimationFrame(() => draftInputRef.current?.focus());
-    }, [editor]);
+    }, [editor, commentThreadActions]);
 
     // -----------------------------------------------------------------------
     // Render
@@ -407,6 +530,10 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
     const hasChapterLevel = entries.some((e) => e.isChapterLevel);
     const chapterLevelEntries = entries.filter((e) => e.isChapterLevel);
     const anchoredEntries = entries.filter((e) => !e.isChapterLevel);
+    const suggestionCount = entries.filter(
+        (e) => e.author === "suggestion",
+    ).length;
+    const resolvedCount = commentThreads.filter((t) => t.resolved).length;
 
     return (
         <div className="comments-sidebar">
@@ -435,6 +562,49 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
                 </div>
             </div>
 
+            {/* Resolved filter */}
+            {resolvedCount > 0 ? (
+                <label className="comments-sidebar-filter">
+                    <input
+                        type="checkbox"
+                        checked={showResolved}
+                        onChange={(e) => setShowResolved(e.target.checked)}
+                    />
+                    Show resolved ({resolvedCount})
+                </label>
+            ) : null}
+
+            {/* Suggested changes */}
+            {suggestionCount > 0 ? (
+                <div className="comments-sidebar-suggestions">
+                    <span className="comments-sidebar-suggestions-count">
+                        {suggestionCount === 1
+                            ? "1 suggested change"
+                            : `${suggestionCount} suggested changes`}
+                    </span>
+                    <Button
+                        variant="primary"
+                        size="sm"
+                        onClick={() =>
+                            editor.commands.acceptAllTrackedChanges()
+                        }
+                    >
+                        <CheckIcon size={14} />
+                        Accept all
+                    </Button>
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() =>
+                            editor.commands.rejectAllTrackedChanges()
+                        }
+                    >
+                        <CloseIcon size={14} />
+                        Reject all
+                    </Button>
+                </div>
+            ) : null}
+
             {/* Draft input */}
             {isAddingComment ? (
                 <div className="comments-sidebar-add">
@@ -493,7 +663,11 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
             {/* Empty state */}
             {entries.length === 0 && !isAddingComment ? (
                 <div className="comments-sidebar-empty">
-                    <p>No comments yet.</p>
+                    <p>
+                        {resolvedCount > 0
+                            ? "No open comments."
+                            : "No comments yet."}
+                    </p>
                     <p className="comments-sidebar-hint">
                         Select text and press <kbd>Ctrl+Shift+M</kbd> to
                         comment, or click <strong>+</strong> for a chapter note.
@@ -528,9 +702,14 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
                                     onScrollTo={scrollToComment}
                                     onStartEdit={startEdit}
                                     onSubmitEdit={submitEdit}
+                                    onReply={replyToThread}
+                                    onSetResolved={setThreadResolved}
+                                    authorName={authorName}
                                     onDeleteUser={deleteUserComment}
                                     onDismissAI={onDismissAIEdit}
                                     onAcceptReplacement={onAcceptReplacement}
+                                    onAcceptSuggestion={acceptSuggestion}
+                                    onRejectSuggestion={rejectSuggestion}
                                     formatDate={formatDate}
                                 />
                             ))}
@@ -561,9 +740,14 @@ export const CommentsSidebar: React.FC<CommentsSidebarProps> = ({
                             onScrollTo={scrollToComment}
                             onStartEdit={startEdit}
                             onSubmitEdit={submitEdit}
+                            onReply={replyToThread}
+                            onSetResolved={setThreadResolved}
+                            authorName={authorName}
                             onDeleteUser={deleteUserComment}
                             onDismissAI={onDismissAIEdit}
                             onAcceptReplacement={onAcceptReplacement}
+                            onAcceptSuggestion={acceptSuggestion}
+                            onRejectSuggestion={rejectSuggestion}
                             formatDate={formatDate}
                         />
                     ))}
@@ -587,11 +771,16 @@ interface CommentCardProps {
     setEditText: (text: string) => void;
     setEditingId: (id: string | null) => void;
     onScrollTo: (entry: UnifiedCommentEntry) => void;
-    onStartEdit: (entry: UnifiedCommentEntry) => void;
+    onStartEdit: (id: string, text: string) => void;
     onSubmitEdit: () => void;
+    onReply: (threadId: string, text: string) => void;
+    onSetResolved: (threadId: string, resolved: boolean) => void;
+    authorName: string;
     onDeleteUser: (entry: UnifiedCommentEntry) => void;
     onDismissAI: (editId: string) => void;
     onAcceptReplacement: (editId: string, replacementText: string) => void;
+    onAcceptSuggestion: (changeId: string) => void;
+    onRejectSuggestion: (changeId: string) => void;
     formatDate: (iso: string) => string;
 }
 
@@ -607,18 +796,95 @@ const CommentCard: React.FC<CommentCardProps> = ({
     onScrollTo,
     onStartEdit,
     onSubmitEdit,
+    onReply,
+    onSetResolved,
+    authorName,
     onDeleteUser,
     onDismissAI,
     onAcceptReplacement,
+    onAcceptSuggestion,
+    onRejectSuggestion,
     formatDate,
 }) => {
-    const isEditing = editingId === entry.id;
-    const isClickable = !entry.isChapterLevel;
+    const [isReplying, setIsReplying] = React.useState(false);
+    const [replyText, setReplyText] = React.useState("");
+    const replyInputRef = React.useRef<HTMLTextAreaElement>(null);
+
+    const thread = entry.thread;
+    const [firstMessage, ...replies] = thread?.messages ?? [];
+    // A thread's opening message is edited like any other of its messages
+    const editableId = firstMessage?.id ?? entry.id;
+    const canEdit = !thread || firstMessage?.authorName === authorName;
+    const isEditing = editingId === editableId;
+    const isClickable = Number.isFinite(entry.from);
+
+    const startReply = () => {
+        setIsReplying(true);
+        setReplyText("");
+        requestAnimationFrame(() => replyInputRef.current?.focus());
+    };
+
+    const submitReply = () => {
+        const text = replyText.trim();
+        if (!thread || !text) return;
+        onReply(thread.id, text);
+        setIsReplying(false);
+        setReplyText("");
+    };
+
+    const renderEditForm = () => (
+        <div className="comments-sidebar-edit-form">
+            <textarea
+                ref={editInputRef}
+                className="comments-sidebar-textarea"
+                value={editText}
+                onChange={(e) => setEditText(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                        e.preventDefault();
+                        onSubmitEdit();
+                    }
+                    if (e.key === "Escape") {
+                        setEditingId(null);
+                    }
+                }}
+                onClick={(e) => e.stopPropagation()}
+                rows={2}
+            />
+            <div className="comments-sidebar-add-actions">
+                <button
+                    type="button"
+                    className="btn btn-sm btn-primary"
+                    disabled={!editText.trim()}
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onSubmitEdit();
+                    }}
+                >
+                    Save
+                </button>
+                <button
+                    type="button"
+                    className="btn btn-sm btn-ghost"
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        setEditingId(null);
+                    }}
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
 
     const cardClass = [
         "comments-sidebar-card",
         isActive ? "comments-sidebar-card--active" : "",
+        thread?.resolved ? "comments-sidebar-card--resolved" : "",
         entry.author === "ai" ? "comments-sidebar-card--ai" : "",
+        entry.author === "suggestion"
+            ? "comments-sidebar-card--suggestion"
+            : "",
     ]
         .filter(Boolean)
         .join(" ");
@@ -641,13 +907,22 @@ const CommentCard: React.FC<CommentCardProps> = ({
             {/* Author badge */}
             <div className="comments-sidebar-card-header">
                 <span
-                    className={`comments-sidebar-card-badge ${entry.author === "ai" ? "comments-sidebar-card-badge--ai" : "comments-sidebar-card-badge--user"}`}
+                    className={`comments-sidebar-card-badge comments-sidebar-card-badge--${entry.author}`}
                 >
-                    {entry.author === "ai" ? "AI" : "You"}
+                    {entry.author === "ai"
+                        ? "AI"
+                        : entry.author === "suggestion"
+                          ? entry.authorName || "Unknown"
+                          : entry.authorName || "You"}
                 </span>
                 <span className="comments-sidebar-card-date">
                     {formatDate(entry.createdAt)}
                 </span>
+                {thread?.resolved ? (
+                    <span className="comments-sidebar-card-status">
+                        Resolved
+                    </span>
+                ) : null}
             </div>
 
             {/* Excerpt (anchored comments only) */}
@@ -661,7 +936,7 @@ const CommentCard: React.FC<CommentCardProps> = ({
                 </div>
             ) : null}
 
-            {/* AI replacement block */}
+            {/* Replacement block (AI edits and suggested changes) */}
             {entry.editKind === "replacement" &&
             entry.originalText &&
             entry.replacementText ? (
@@ -682,21 +957,94 @@ const CommentCard: React.FC<CommentCardProps> = ({
                 </div>
             ) : null}
 
+            {/* Suggested insertion or deletion */}
+            {entry.editKind === "insertion" || entry.editKind === "deletion" ? (
+                <div className="comments-sidebar-replacement">
+                    <span className="comments-sidebar-replacement-label">
+                        {entry.editKind === "insertion" ? "Insert" : "Delete"}
+                    </span>{" "}
+                    <span className="comments-sidebar-replacement-quote">
+                        {entry.editKind === "insertion"
+                            ? entry.replacementText
+                            : entry.originalText}
+                    </span>
+                </div>
+            ) : null}
+
             {/* Comment text */}
             {isEditing ? (
+                renderEditForm()
+            ) : entry.commentText ? (
+                <div className="comments-sidebar-card-text">
+                    {entry.commentText}
+                </div>
+            ) : null}
+
+            {/* Replies */}
+            {replies.length > 0 ? (
+                <div className="comments-sidebar-replies">
+                    {replies.map((message) => (
+                        <div
+                            key={message.id}
+                            className="comments-sidebar-reply"
+                        >
+                            <div className="comments-sidebar-card-header">
+                                <span className="comments-sidebar-reply-author">
+                                    {message.authorName}
+                                </span>
+                                <span className="comments-sidebar-card-date">
+                                    {formatDate(
+                                        new Date(
+                                            message.createdAt,
+                                        ).toISOString(),
+                                    )}
+                                </span>
+                                {message.authorName === authorName &&
+                                editingId !== message.id ? (
+                                    <button
+                                        type="button"
+                                        className="btn btn-icon btn-xs"
+                                        title="Edit reply"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onStartEdit(
+                                                message.id,
+                                                message.text,
+                                            );
+                                        }}
+                                    >
+                                        ✎
+                                    </button>
+                                ) : null}
+                            </div>
+                            {editingId === message.id ? (
+                                renderEditForm()
+                            ) : (
+                                <div className="comments-sidebar-card-text">
+                                    {message.text}
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            ) : null}
+
+            {/* Reply input */}
+            {isReplying ? (
                 <div className="comments-sidebar-edit-form">
                     <textarea
-                        ref={editInputRef}
+                        ref={replyInputRef}
                         className="comments-sidebar-textarea"
-                        value={editText}
-                        onChange={(e) => setEditText(e.target.value)}
+                        placeholder="Write a reply..."
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
                         onKeyDown={(e) => {
                             if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
                                 e.preventDefault();
-                                onSubmitEdit();
+                                submitReply();
                             }
                             if (e.key === "Escape") {
-                                setEditingId(null);
+                                setIsReplying(false);
                             }
                         }}
                         onClick={(e) => e.stopPropagation()}
@@ -706,44 +1054,77 @@ const CommentCard: React.FC<CommentCardProps> = ({
                         <button
                             type="button"
                             className="btn btn-sm btn-primary"
-                            disabled={!editText.trim()}
+                            disabled={!replyText.trim()}
                             onClick={(e) => {
                                 e.stopPropagation();
-                                onSubmitEdit();
+                                submitReply();
                             }}
                         >
-                            Save
+                            Reply
                         </button>
                         <button
                             type="button"
                             className="btn btn-sm btn-ghost"
                             onClick={(e) => {
                                 e.stopPropagation();
-                                setEditingId(null);
+                                setIsReplying(false);
                             }}
                         >
                             Cancel
                         </button>
                     </div>
                 </div>
-            ) : entry.commentText ? (
-                <div className="comments-sidebar-card-text">
-                    {entry.commentText}
-                </div>
             ) : null}
 
             {/* Actions */}
             <div className="comments-sidebar-card-actions-row">
                 {entry.author === "user" ? (
                     <div className="comments-sidebar-card-actions">
-                        {!entry.isChapterLevel ? (
+                        {thread ? (
+                            <>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        startReply();
+                                    }}
+                                >
+                                    Reply
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        onSetResolved(
+                                            thread.id,
+                                            !thread.resolved,
+                                        );
+                                    }}
+                                >
+                                    {thread.resolved ? (
+                                        "Reopen"
+                                    ) : (
+                                        <>
+                                            <CheckIcon size={14} />
+                                            Resolve
+                                        </>
+                                    )}
+                                </Button>
+                            </>
+                        ) : null}
+                        {canEdit ? (
                             <button
                                 type="button"
                                 className="btn btn-icon btn-xs"
                                 title="Edit comment"
                                 onClick={(e) => {
                                     e.stopPropagation();
-                                    onStartEdit(entry);
+                                    onStartEdit(
+                                        editableId,
+                                        entry.commentText,
+                                    );
                                 }}
                             >
                                 ✎
@@ -808,6 +1189,33 @@ const CommentCard: React.FC<CommentCardProps> = ({
                         </Button>
                     </div>
                 ) : null}
+
+                {entry.author === "suggestion" ? (
+                    <div className="comments-sidebar-card-actions">
+                        <Button
+                            variant="primary"
+                            size="sm"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onAcceptSuggestion(entry.id);
+                            }}
+                        >
+                            <CheckIcon size={14} />
+                            Accept
+                        </Button>
+                        <Button
+                            variant="secondary"
+                            size="sm"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                onRejectSuggestion(entry.id);
+                            }}
+                        >
+                            <CloseIcon size={14} />
+                            Reject
+                        </Button>
+                    </div>
+                ) : null}
             </div>
         </div>
     );
@@ -9,11 +9,20 @@ import type {
     WorkspaceOrganization,
     WorkspaceScrapNote,
 } from "../../types";
+import type {
+    ManuscriptNodeType,
+    ManuscriptStructure,
+} from "../../../@core/domain/entities/story/ManuscriptStructure";
+import type {
+    ChapterLabel,
+    ChapterStatus,
+} from "../../../@core/domain/entities/story/Chapter";
 import { Button } from "../ui/Button";
 import {
     BinderChapterIcon,
     BinderOrganizationIcon,
     BinderScrapNoteIcon,
+    BookIcon,
     ChevronDownIcon,
     ChevronLeftIcon,
     ChevronRightIcon,
@@ -24,9 +33,16 @@ import {
     PlusIcon,
 } from "../ui/Icons";
 import { useAppStore } from "../../state/appStore";
+import {
+    getDocumentNodeType,
+    normalizeManuscriptStructure,
+} from "../../utils/manuscriptStructure";
+import { CHAPTER_STATUS_LABELS } from "../../utils/chapterMetadata";
 
 export type DocumentBinderProps = {
     chapters: WorkspaceChapter[];
+    /** Parts and scenes around the chapters; null for a flat manuscript. */
+    manuscriptStructure?: ManuscriptStructure | null;
     scrapNotes: WorkspaceScrapNote[];
     characters: WorkspaceCharacter[];
     locations: WorkspaceLocation[];
@@ -44,7 +60,13 @@ export type DocumentBinderProps = {
     onDeleteCharacter: (id: string) => void;
     onDeleteLocation: (id: string) => void;
     onDeleteOrganization: (id: string) => void;
-    onReorderChapters: (newOrder: string[]) => void;
+    onMoveManuscriptNode: (params: {
+        nodeId: string;
+        targetNodeId: string;
+        dropMode: "before" | "inside" | "after";
+    }) => void;
+    onCreatePart: () => void;
+    onDeletePart: (id: string) => void;
     onReorderScrapNotes: (newOrder: string[]) => void;
     onReorderCharacters: (newOrder: string[]) => void;
     onReorderLocations: (newOrder: string[]) => void;
@@ -76,6 +98,12 @@ type BinderItem = {
     label: string;
     prefix?: string;
     kind: WorkspaceDocumentKind;
+    /** Chapters section only: parts are structure, not documents. */
+    nodeType?: ManuscriptNodeType;
+    /** Chapter metadata, shown as a badge, color dots and a tooltip. */
+    status?: ChapterStatus;
+    labels?: ChapterLabel[];
+    details?: string;
     hasPendingEdits?: boolean;
 };
 
@@ -85,7 +113,7 @@ type BinderSection = {
     items: BinderItem[];
     onCreate: () => void;
     onDelete: (id: string) => void;
-    onReorder: (newOrder: string[]) => void;
+    onReorder?: (newOrder: string[]) => void;
 };
 
 const normalizeLabel = (value: string, fallback: string): string => {
@@ -133,10 +161,16 @@ const DraggableBinderItem = ({
     isDragActive?: boolean;
 }) => {
     const renameDocument = useAppStore((state) => state.renameDocument);
+    const renameManuscriptPart = useAppStore(
+        (state) => state.renameManuscriptPart,
+    );
     const renamingDocument = useAppStore((state) => state.renamingDocument);
     const setRenamingDocument = useAppStore(
         (state) => state.setRenamingDocument,
     );
+    const canUndoMerge = useAppStore(
+        (state) => state.lastChapterMerge?.first.id === item.id,
+    );
 
     const [isRenaming, setIsRenaming] = React.useState(false);
     const [renameValue, setRenameValue] = React.useState(item.label);
@@ -161,7 +195,11 @@ const DraggableBinderItem = ({
 
     const handleRenameSubmit = async () => {
         if (renameValue.trim() && renameValue !== item.label) {
-            await renameDocument(item.kind, item.id, renameValue.trim());
+            if (item.nodeType === "part") {
+                await renameManuscriptPart(item.id, renameValue.trim());
+            } else {
+                await renameDocument(item.kind, item.id, renameValue.trim());
+            }
         } else {
             setRenameValue(item.label);
         }
@@ -243,10 +281,18 @@ const DraggableBinderItem = ({
                     onContextMenu={(e) => {
                         e.preventDefault();
                         e.stopPropagation();
-                        window.ui.showContextMenu("binder_chapter", {
-                            id: item.id,
-                            kind: item.kind,
-                        });
+                        window.ui.showContextMenu(
+                            item.nodeType === "part"
+                                ? "binder_part"
+                                : "binder_chapter",
+                            {
+                                id: item.id,
+                                kind: item.kind,
+                                nodeType: item.nodeType,
+                                isActive,
+                                canUndoMerge,
+                            },
+                        );
                     }}
                     onDoubleClick={(e) => {
                         e.stopPropagation();
@@ -257,6 +303,8 @@ const DraggableBinderItem = ({
                     onDragStart={onDragStart}
                     onDragEnd={onDragEnd}
                     data-kind={item.kind}
+                    data-node-type={item.nodeType}
+                    title={item.details}
                     style={{
                         flex: 1,
                         textAlign: "left",
@@ -268,8 +316,8 @@ const DraggableBinderItem = ({
                             role="button"
                             aria-label={
                                 isCollapsed
-                                    ? "Expand location"
-                                    : "Collapse location"
+                                    ? `Expand ${item.nodeType ?? "location"}`
+                                    : `Collapse ${item.nodeType ?? "location"}`
                             }
                             onClick={(event) => {
                                 event.preventDefault();
@@ -301,7 +349,26 @@ const DraggableBinderItem = ({
                             {item.prefix}
                         </span>
                     ) : null}
+                    {item.labels?.length ? (
+                        <span className="binder-item-labels" aria-hidden>
+                            {item.labels.map((label) => (
+                                <span
+                                    key={label}
+                                    className="binder-item-label-dot"
+                                    data-label={label}
+                                />
+                            ))}
+                        </span>
+                    ) : null}
                     <span className="binder-item-label">{item.label}</span>
+                    {item.status ? (
+                        <span
+                            className="binder-item-status"
+                            data-status={item.status}
+                        >
+                            {CHAPTER_STATUS_LABELS[item.status]}
+                        </span>
+                    ) : null}
                     {item.kind === "chapter" && item.hasPendingEdits ? (
                         <span className="binder-item-pending" aria-hidden>
                             <MessageSquareFilledIcon size={14} />
@@ -327,6 +394,7 @@ const DraggableBinderItem = ({
 
 export const DocumentBinder: React.FC<DocumentBinderProps> = ({
     chapters,
+    manuscriptStructure = null,
     scrapNotes,
     characters,
     locations,
@@ -344,7 +412,9 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
     onDeleteCharacter,
     onDeleteLocation,
     onDeleteOrganization,
-    onReorderChapters,
+    onMoveManuscriptNode,
+    onCreatePart,
+    onDeletePart,
     onReorderScrapNotes,
     onReorderCharacters,
     onReorderLocations,
@@ -378,6 +448,8 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
     const [collapsedLocationIds, setCollapsedLocationIds] = React.useState<
         Record<string, boolean>
     >({});
+    const [collapsedManuscriptIds, setCollapsedManuscriptIds] =
+        React.useState<Record<string, boolean>>({});
     const autoExpandTimerRef = React.useRef<number | null>(null);
     const autoExpandTargetRef = React.useRef<string | null>(null);
     const revealTimerRef = React.useRef<number | null>(null);
@@ -485,25 +557,117 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
         }
     };
 
-    const chapterItems: BinderItem[] = React.useMemo(
-        () =>
+    const manuscriptRows = React.useMemo(() => {
+        const chaptersById = new Map(
+            chapters.map((chapter) => [chapter.id, chapter]),
+        );
+        const characterNames = new Map(
+            characters.map((character) => [character.id, character.name]),
+        );
+        const describe = (chapter: WorkspaceChapter): string | undefined => {
+            const povName = chapter.povCharacterId
+                ? characterNames.get(chapter.povCharacterId)
+                : undefined;
+            const lines = [
+                chapter.synopsis,
+                povName ? `POV: ${povName}` : "",
+                chapter.tags.map((tag) => `#${tag}`).join(" "),
+            ].filter(Boolean);
+            return lines.length ? lines.join("\n") : undefined;
+        };
+        const structure = normalizeManuscriptStructure(
+            manuscriptStructure,
             chapters
                 .slice()
                 .sort((a, b) => a.order - b.order)
-                .map((chapter) => ({
-                    id: chapter.id,
-                    label: normalizeLabel(chapter.title, "Untitled Chapter"),
-                    prefix: String(chapter.order + 1),
-                    kind: "chapter" as const,
-                    hasPendingEdits:
-                        (pendingEditsByChapterId[chapter.id]?.comments
-                            ?.length ?? 0) > 0 ||
-                        (pendingEditsByChapterId[chapter.id]?.replacements
-                            ?.length ?? 0) > 0,
-                })),
-        [chapters, pendingEditsByChapterId],
+                .map((chapter) => chapter.id),
+        );
+
+        const rows: Array<
+            BinderItem & {
+                nodeType: ManuscriptNodeType;
+                depth: number;
+                hasChildren: boolean;
+            }
+        > = [];
+        let chapterNumber = 0;
+
+        const visit = (
+            nodes: ManuscriptStructure,
+            depth: number,
+            isHidden: boolean,
+        ) => {
+            nodes.forEach((node, index) => {
+                let prefix: string | undefined;
+                if (node.type === "chapter") {
+                    chapterNumber += 1;
+                    prefix = String(chapterNumber);
+                } else if (node.type === "scene") {
+                    prefix = `${chapterNumber}.${index + 1}`;
+                }
+
+                if (!isHidden) {
+                    const chapter = chaptersById.get(node.id);
+                    const pendingEdits = pendingEditsByChapterId[node.id];
+                    rows.push({
+                        id: node.id,
+                        label:
+                            node.type === "part"
+                                ? normalizeLabel(
+                                      node.title ?? "",
+                                      "Untitled Part",
+                                  )
+                                : normalizeLabel(
+                                      chapter?.title ?? "",
+                                      node.type === "scene"
+                                          ? "Untitled Scene"
+                                          : "Untitled Chapter",
+                                  ),
+                        prefix,
+                        kind: "chapter",
+                        nodeType: node.type,
+                        status: chapter?.status,
+                        labels: chapter?.labels,
+                        details: chapter ? describe(chapter) : undefined,
+                        depth,
+                        hasChildren: node.children.length > 0,
+                        hasPendingEdits:
+                            (pendingEdits?.comments?.length ?? 0) > 0 ||
+                            (pendingEdits?.replacements?.length ?? 0) > 0,
+                    });
+                }
+
+                // Hidden chapters still count so numbering stays stable
+                visit(
+                    node.children,
+                    depth + 1,
+                    isHidden || !!collapsedManuscriptIds[node.id],
+                );
+            });
+        };
+
+        visit(structure, 0, false);
+        return rows;
+    }, [
+        chapters,
+        characters,
+        collapsedManuscriptIds,
+        manuscriptStructure,
+        pendingEditsByChapterId,
+    ]);
+
+    const manuscriptRowById = React.useMemo(
+        () => new Map(manuscriptRows.map((row) => [row.id, row])),
+        [manuscriptRows],
     );
 
+    const toggleManuscriptCollapse = React.useCallback((id: string) => {
+        setCollapsedManuscriptIds((current) => ({
+            ...current,
+            [id]: !current[id],
+        }));
+    }, []);
+
     const scrapNoteItems: BinderItem[] = React.useMemo(
         () =>
             scrapNotes.map((note) => ({
@@ -665,10 +829,12 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
         {
             title: "Chapters",
             kind: "chapter",
-            items: chapterItems,
+            items: manuscriptRows,
             onCreate: onCreateChapter,
-            onDelete: onDeleteChapter,
-            onReorder: onReorderChapters,
+            onDelete: (id) =>
+                manuscriptRowById.get(id)?.nodeType === "part"
+                    ? onDeletePart(id)
+                    : onDeleteChapter(id),
         },
         {
             title: "Scrap Notes",
@@ -712,6 +878,12 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
 
     const handleDragStart = (e: React.DragEvent, item: BinderItem) => {
         setDraggedId(item.id);
+        if (item.nodeType === "part") {
+            // Parts only move within the binder; they are not documents
+            e.dataTransfer.setData("text/plain", item.label);
+            e.dataTransfer.effectAllowed = "move";
+            return;
+        }
         setDraggedDocument({
             id: item.id,
             kind: item.kind,
@@ -741,6 +913,60 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
         if (draggedId && draggedId !== item.id) {
             setDragOverId(item.id);
 
+            if (activeSection.kind === "chapter") {
+                const element = e.currentTarget as HTMLElement;
+                const rect = element.getBoundingClientRect();
+                const ratio = (e.clientY - rect.top) / Math.max(rect.height, 1);
+                const target = manuscriptRowById.get(item.id);
+                const dragged = manuscriptRowById.get(draggedId);
+                const nestedType = getDocumentNodeType(
+                    target?.nodeType ?? "scene",
+                );
+                // Parts hold chapters and chapters hold scenes, but a
+                // chapter with scenes of its own cannot become a scene
+                const canNest =
+                    !!dragged &&
+                    dragged.nodeType !== "part" &&
+                    nestedType !== null &&
+                    !(nestedType === "scene" && dragged.hasChildren);
+
+                if (!canNest) {
+                    setDragOverZone(ratio < 0.5 ? "top" : "bottom");
+                    clearAutoExpandTimer();
+                } else if (ratio < 0.25) {
+                    setDragOverZone("top");
+                    clearAutoExpandTimer();
+                } else if (ratio > 0.75) {
+                    setDragOverZone("bottom");
+                    clearAutoExpandTimer();
+                } else {
+                    setDragOverZone("middle");
+
+                    if (
+                        target?.hasChildren &&
+                        collapsedManuscriptIds[item.id]
+                    ) {
+                        if (autoExpandTargetRef.current !== item.id) {
+                            clearAutoExpandTimer();
+                            autoExpandTargetRef.current = item.id;
+                            autoExpandTimerRef.current = window.setTimeout(
+                                () => {
+                                    setCollapsedManuscriptIds((current) => ({
+                                        ...current,
+                                        [item.id]: false,
+                                    }));
+                                    clearAutoExpandTimer();
+                                },
+                                550,
+                            );
+                        }
+                    } else {
+                        clearAutoExpandTimer();
+                    }
+                }
+                return;
+            }
+
             if (activeSection.kind === "location") {
                 const element = e.currentTarget as HTMLElement;
                 const rect = element.getBoundingClientRect();
@@ -798,6 +1024,22 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
         e.stopPropagation();
 
         if (draggedId && draggedId !== targetItem.id) {
+            if (activeSection.kind === "chapter") {
+                onMoveManuscriptNode({
+                    nodeId: draggedId,
+                    targetNodeId: targetItem.id,
+                    dropMode:
+                        dragOverZone === "top"
+                            ? "before"
+                            : dragOverZone === "bottom"
+                              ? "after"
+                              : "inside",
+                });
+
+                resetDragState();
+                return;
+            }
+
             if (activeSection.kind === "location") {
                 const dropMode =
                     dragOverZone === "top"
@@ -827,7 +1069,7 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                 const newItems = [...activeSection.items];
                 const [moved] = newItems.splice(oldIndex, 1);
                 newItems.splice(newIndex, 0, moved);
-                activeSection.onReorder(newItems.map((i) => i.id));
+                activeSection.onReorder?.(newItems.map((i) => i.id));
             }
         }
 
@@ -858,6 +1100,8 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
 
     const renderedItems =
         activeSection.kind === "location" ? locationRows : activeSection.items;
+    const isTreeSection =
+        activeSection.kind === "location" || activeSection.kind === "chapter";
 
     const toggleIcon =
         (isBinderOpen ?? true) ? <ChevronLeftIcon /> : <ChevronRightIcon />;
@@ -902,6 +1146,16 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                             <PenLineIcon size={14} />
                         </Button>
                     ) : null}
+                    {activeSection.kind === "chapter" ? (
+                        <Button
+                            variant="icon"
+                            className="binder-create"
+                            onClick={onCreatePart}
+                            title="New Part"
+                        >
+                            <BookIcon size={14} />
+                        </Button>
+                    ) : null}
                     <Button
                         variant="icon"
                         className="binder-create"
@@ -939,7 +1193,7 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                                     draggedId !== renderedItems[0].id
                                 ) {
                                     setDragOverId(renderedItems[0].id);
-                                    if (activeSection.kind === "location") {
+                                    if (isTreeSection) {
                                         setDragOverZone("top");
                                     }
                                 }
@@ -947,7 +1201,7 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                             onDrop={(e) => {
                                 e.preventDefault();
                                 if (renderedItems.length > 0) {
-                                    if (activeSection.kind === "location") {
+                                    if (isTreeSection) {
                                         setDragOverZone("top");
                                     }
                                     handleDrop(e, renderedItems[0]);
@@ -970,7 +1224,7 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                                         | "bottom"
                                         | "none" = "none";
                                     if (dragOverId === item.id && draggedId) {
-                                        if (activeSection.kind === "location") {
+                                        if (isTreeSection) {
                                             dropPosition =
                                                 dragOverZone ?? "middle";
                                         } else {
@@ -981,10 +1235,14 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                                         }
                                     }
 
-                                    const locationRow =
+                                    const treeRow =
                                         activeSection.kind === "location"
                                             ? locationRowById.get(item.id)
-                                            : undefined;
+                                            : activeSection.kind === "chapter"
+                                              ? manuscriptRowById.get(item.id)
+                                              : undefined;
+                                    const isManuscriptTree =
+                                        activeSection.kind === "chapter";
 
                                     return (
                                         <DraggableBinderItem
@@ -994,10 +1252,14 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                                             isDragging={draggedId === item.id}
                                             dropPosition={dropPosition}
                                             onSelect={() =>
-                                                onSelect({
-                                                    kind: item.kind,
-                                                    id: item.id,
-                                                })
+                                                item.nodeType === "part"
+                                                    ? toggleManuscriptCollapse(
+                                                          item.id,
+                                                      )
+                                                    : onSelect({
+                                                          kind: item.kind,
+                                                          id: item.id,
+                                                      })
                                             }
                                             onDelete={() => {
                                                 const descendantCount =
@@ -1009,7 +1271,13 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                                                 const confirmMessage =
                                                     descendantCount > 0
                                                         ? `Delete "${item.label}" and its ${descendantCount} sub-location${descendantCount === 1 ? "" : "s"}? This cannot be undone.`
-                                                        : `Delete "${item.label}"?`;
+                                                        : item.nodeType ===
+                                                            "part"
+                                                          ? `Delete the part "${item.label}"? Its chapters are kept.`
+                                                          : treeRow?.hasChildren &&
+                                                              isManuscriptTree
+                                                            ? `Delete "${item.label}"? Its scenes are kept as chapters.`
+                                                            : `Delete "${item.label}"?`;
                                                 if (
                                                     window.confirm(
                                                         confirmMessage,
@@ -1028,17 +1296,26 @@ export const DocumentBinder: React.FC<DocumentBinderProps> = ({
                                             }
                                             onDrop={(e) => handleDrop(e, item)}
                                             onDragEnd={handleDragEnd}
-                                            indentLevel={
-                                                locationRow?.depth ?? 0
-                                            }
+                                            indentLevel={treeRow?.depth ?? 0}
                                             hasChildren={
-                                                locationRow?.hasChildren ??
-                                                false
+                                                treeRow?.hasChildren ?? false
                                             }
                                             isCollapsed={
-                                                !!collapsedLocationIds[item.id]
+                                                isManuscriptTree
+                                                    ? !!collapsedManuscriptIds[
+                                                          item.id
+                                                      ]
+                                                    : !!collapsedLocationIds[
+                                                          item.id
+                                                      ]
                                             }
                                             onToggleCollapse={() => {
+                                                if (isManuscriptTree) {
+                                                    toggleManuscriptCollapse(
+                                                        item.id,
+                                                    );
+                                                    return;
+                                                }
                                                 setCollapsedLocationIds(
                                                     (current) => {
                                                         const isCurrentlyCollapsed =
@@ -0,0 +1,155 @@
+import React from "react";
+
+import type {
+    EntityAppearanceHit,
+    EntityAppearances,
+} from "../../utils/entityAppearances";
+
+type EntityAppearancesPanelProps = {
+    /** Null while the index is still being built. */
+    appearances: EntityAppearances | null;
+    isLoading: boolean;
+    onOpenHit: (hit: EntityAppearanceHit) => void;
+};
+
+// A recurring character can appear hundreds of times in one chapter
+const HITS_PER_DOCUMENT = 20;
+
+const pluralize = (count: number, word: string) =>
+    `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const HitSnippet: React.FC<{ hit: EntityAppearanceHit }> = ({ hit }) => (
+    <span className="entity-appearance-snippet">
+        {hit.snippet.leadingEllipsis ? "…" : null}
+        {hit.snippet.before}
+        <mark
+            className={
+                hit.source === "reference"
+                    ? "entity-appearance-match is-reference"
+                    : "entity-appearance-match"
+            }
+        >
+            {hit.snippet.match}
+        </mark>
+        {hit.snippet.after}
+        {hit.snippet.trailingEllipsis ? "…" : null}
+    </span>
+);
+
+/** Every chapter and scrap note that mentions an entity. */
+export const EntityAppearancesPanel: React.FC<
+    EntityAppearancesPanelProps
+> = ({ appearances, isLoading, onOpenHit }) => {
+    const titleFor = (hit: EntityAppearanceHit | null) =>
+        appearances?.documents.find(
+            (document) =>
+                document.kind === hit?.documentKind &&
+                document.id === hit.documentId,
+        )?.title ?? null;
+
+    const firstTitle = titleFor(appearances?.first ?? null);
+    const lastTitle = titleFor(appearances?.last ?? null);
+
+    return (
+        <section className="entity-appearances" aria-label="Mentioned in">
+            <header className="entity-appearances-header">
+                <h3 className="entity-appearances-title">Mentioned in</h3>
+                {appearances ? (
+                    <span className="entity-appearances-count">
+                        {pluralize(appearances.total, "mention")} in{" "}
+                        {pluralize(appearances.documents.length, "document")}
+                    </span>
+                ) : null}
+            </header>
+
+            {!appearances ? (
+                <p className="entity-appearances-empty">
+                    {isLoading
+                        ? "Looking for mentions…"
+                        : "Not mentioned in any chapter or note yet."}
+                </p>
+            ) : (
+                <>
+                    {appearances.first && appearances.last ? (
+                        <dl className="entity-appearances-range">
+                            <div>
+                                <dt>First appearance</dt>
+                                <dd>
+                                    <button
+                                        type="button"
+                                        onClick={() =>
+                                            appearances.first &&
+                                            onOpenHit(appearances.first)
+                                        }
+                                    >
+                                        {firstTitle}
+                                    </button>
+                                </dd>
+                            </div>
+                            <div>
+                                <dt>Last appearance</dt>
+                                <dd>
+                                    <button
+                                        type="button"
+                                        onClick={() =>
+                                            appearances.last &&
+                                            onOpenHit(appearances.last)
+                                        }
+                                    >
+                                        {lastTitle}
+                                    </button>
+                                </dd>
+                            </div>
+                        </dl>
+                    ) : null}
+
+                    <ul className="entity-appearances-documents">
+                        {appearances.documents.map((document) => (
+                            <li
+                                key={`${document.kind}:${document.id}`}
+                                className="entity-appearances-document"
+                            >
+                                <div className="entity-appearances-document-header">
+                                    <span className="entity-appearances-document-title">
+                                        {document.title}
+                                    </span>
+                                    <span className="entity-appearances-document-meta">
+                                        {document.kind === "scrapNote"
+                                            ? "Scrap note · "
+                                            : null}
+                                        {document.hits.length}
+                                    </span>
+                                </div>
+                                {document.hits
+                                    .slice(0, HITS_PER_DOCUMENT)
+                                    .map((hit) => (
+                                        <button
+                                            key={`${hit.blockIndex}:${hit.offset}`}
+                                            type="button"
+                                            className="entity-appearance-hit"
+                                            title={
+                                                hit.source === "reference"
+                                                    ? "Linked reference"
+                                                    : "Name or alias"
+                                            }
+                                            onClick={() => onOpenHit(hit)}
+                                        >
+                                            <HitSnippet hit={hit} />
+                                        </button>
+                                    ))}
+                                {document.hits.length > HITS_PER_DOCUMENT ? (
+                                    <span className="entity-appearances-more">
+                                        and{" "}
+                                        {document.hits.length -
+                                            HITS_PER_DOCUMENT}{" "}
+                                        more
+                                    </span>
+                                ) : null}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+        </section>
+    );
+};
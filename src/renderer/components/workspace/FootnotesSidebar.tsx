@@ -0,0 +1,309 @@
+import React from "react";
+import type { Editor } from "@tiptap/react";
+import { CloseIcon, PlusIcon, TrashIcon } from "../ui/Icons";
+import { collectFootnotes, type FootnoteEntry } from "../../tiptap/footnote";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Asks the pane to add a footnote at the cursor or to open an existing one. */
+export type FootnoteRequest = { kind: "insert" } | { kind: "edit"; id: string };
+
+interface FootnotesSidebarProps {
+    editor: Editor;
+    onClose: () => void;
+    request: FootnoteRequest | null;
+    onRequestHandled: () => void;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const EXCERPT_LENGTH = 60;
+
+/** The words leading up to a footnote marker, within its own block. */
+const excerptBefore = (editor: Editor, pos: number): string => {
+    const $pos = editor.state.doc.resolve(pos);
+    const text = editor.state.doc.textBetween($pos.start(), pos, " ", " ");
+    return text.length > EXCERPT_LENGTH
+        ? "…" + text.slice(-EXCERPT_LENGTH).trimStart()
+        : text;
+};
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+export const FootnotesSidebar: React.FC<FootnotesSidebarProps> = ({
+    editor,
+    onClose,
+    request,
+    onRequestHandled,
+}) => {
+    const [entries, setEntries] = React.useState<FootnoteEntry[]>(() =>
+        collectFootnotes(editor.state.doc),
+    );
+    const [editingId, setEditingId] = React.useState<string | null>(null);
+    const [editText, setEditText] = React.useState("");
+    // A footnote inserted from the pane is dropped again if it is cancelled
+    // before anything was written into it
+    const [insertedId, setInsertedId] = React.useState<string | null>(null);
+    const editInputRef = React.useRef<HTMLTextAreaElement>(null);
+
+    React.useEffect(() => {
+        const refresh = () => setEntries(collectFootnotes(editor.state.doc));
+
+        refresh();
+        editor.on("update", refresh);
+        return () => {
+            editor.off("update", refresh);
+        };
+    }, [editor]);
+
+    const startEdit = React.useCallback((id: string, text: string) => {
+        setEditingId(id);
+        setEditText(text);
+        requestAnimationFrame(() => editInputRef.current?.focus());
+    }, []);
+
+    const insertFootnote = React.useCallback(() => {
+        const id = crypto.randomUUID();
+        if (!editor.commands.insertFootnote({ id })) {
+            return;
+        }
+        setInsertedId(id);
+        startEdit(id, "");
+    }, [editor, startEdit]);
+
+    // Handle external requests (keyboard shortcut, context menu, clicks on
+    // a footnote marker).
+    React.useEffect(() => {
+        if (!request) return;
+        onRequestHandled();
+
+        if (request.kind === "insert") {
+            insertFootnote();
+            return;
+        }
+        const entry = collectFootnotes(editor.state.doc).find(
+            (footnote) => footnote.id === request.id,
+        );
+        if (entry) {
+            setInsertedId(null);
+            startEdit(entry.id, entry.text);
+        }
+    }, [request, editor, onRequestHandled, insertFootnote, startEdit]);
+
+    const submitEdit = React.useCallback(() => {
+        if (!editingId) return;
+        editor.commands.updateFootnote(editingId, editText.trim());
+        setEditingId(null);
+        setEditText("");
+        setInsertedId(null);
+    }, [editingId, editText, editor]);
+
+    const cancelEdit = React.useCallback(() => {
+        if (editingId && editingId === insertedId) {
+            editor.commands.removeFootnote(editingId);
+        }
+        setEditingId(null);
+        setEditText("");
+        setInsertedId(null);
+    }, [editingId, insertedId, editor]);
+
+    const scrollToFootnote = React.useCallback(
+        (entry: FootnoteEntry) => {
+            editor.chain().focus().setNodeSelection(entry.pos).run();
+
+            const coords = editor.view.coordsAtPos(entry.pos);
+            const scrollContainer = editor.view.dom.closest(".editor-scroll");
+            if (scrollContainer) {
+                const containerRect = scrollContainer.getBoundingClientRect();
+                const offset = coords.top - containerRect.top - 100;
+                scrollContainer.scrollBy({ top: offset, behavior: "smooth" });
+            }
+        },
+        [editor],
+    );
+
+    // -----------------------------------------------------------------------
+    // Render
+    // -----------------------------------------------------------------------
+
+    return (
+        <div className="comments-sidebar footnotes-sidebar">
+            <div className="comments-sidebar-header">
+                <span className="comments-sidebar-title">Footnotes</span>
+                <div className="comments-sidebar-header-actions">
+                    <button
+                        type="button"
+                        className="btn btn-icon btn-xs"
+                        onClick={insertFootnote}
+                        title="Insert footnote at cursor"
+                        aria-label="Insert footnote at cursor"
+                    >
+                        <PlusIcon size={14} />
+                    </button>
+                    <button
+                        type="button"
+                        className="btn btn-icon"
+                        onClick={onClose}
+                        title="Close footnotes"
+                        aria-label="Close footnotes"
+                    >
+                        <CloseIcon size={14} />
+                    </button>
+                </div>
+            </div>
+
+            {entries.length === 0 ? (
+                <div className="comments-sidebar-empty">
+                    <p>No footnotes yet.</p>
+                    <p className="comments-sidebar-hint">
+                        Place the cursor after a word and press{" "}
+                        <kbd>Ctrl+Alt+F</kbd>, or click <strong>+</strong>.
+                    </p>
+                </div>
+            ) : (
+                <div className="comments-sidebar-list">
+                    {entries.map((entry) => {
+                        const excerpt = excerptBefore(editor, entry.pos);
+                        const isEditing = editingId === entry.id;
+                        return (
+                            <div
+                                key={entry.id}
+                                className={
+                                    isEditing
+                                        ? "comments-sidebar-card comments-sidebar-card--active"
+                                        : "comments-sidebar-card"
+                                }
+                                role="button"
+                                tabIndex={0}
+                                onClick={() => scrollToFootnote(entry)}
+                                onKeyDown={(event) => {
+                                    if (
+                                        event.target === event.currentTarget &&
+                                        event.key === "Enter"
+                                    ) {
+                                        scrollToFootnote(entry);
+                                    }
+                                }}
+                            >
+                                <div className="comments-sidebar-card-header">
+                                    <span className="comments-sidebar-card-badge footnotes-sidebar-number">
+                                        {entry.number}
+                                    </span>
+                                    {excerpt ? (
+                                        <span className="comments-sidebar-card-excerpt footnotes-sidebar-excerpt">
+                                            {excerpt}
+                                        </span>
+                                    ) : null}
+                                </div>
+
+                                {isEditing ? (
+                                    <div className="comments-sidebar-edit-form">
+                                        <textarea
+                                            ref={editInputRef}
+                                            className="comments-sidebar-textarea"
+                                            value={editText}
+                                            placeholder="Write the footnote…"
+                                            onChange={(event) =>
+                                                setEditText(event.target.value)
+                                            }
+                                            onKeyDown={(event) => {
+                                                if (
+                                                    event.key === "Enter" &&
+                                                    (event.ctrlKey ||
+                                                        event.metaKey)
+                                                ) {
+                                                    event.preventDefault();
+                                                    submitEdit();
+                                                }
+                                                if (event.key === "Escape") {
+                                                    cancelEdit();
+                                                }
+                                            }}
+                                            onClick={(event) =>
+                                                event.stopPropagation()
+                                            }
+                                            rows={3}
+                                        />
+                                        <div className="comments-sidebar-add-actions">
+                                            <button
+                                                type="button"
+                                                className="btn btn-sm btn-primary"
+                                                onClick={(event) => {
+                                                    event.stopPropagation();
+                                                    submitEdit();
+                                                }}
+                                            >
+                                                Save
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className="btn btn-sm btn-ghost"
+                                                onClick={(event) => {
+                                                    event.stopPropagation();
+                                                    cancelEdit();
+                                                }}
+                                            >
+                                                Cancel
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div
+                                        className={
+                                            entry.text
+                                                ? "comments-sidebar-card-text"
+                                                : "comments-sidebar-card-text footnotes-sidebar-empty-text"
+                                        }
+                                    >
+                                        {entry.text || "Empty footnote"}
+                                    </div>
+                                )}
+
+                                {!isEditing ? (
+                                    <div className="comments-sidebar-card-actions-row">
+                                        <div className="comments-sidebar-card-actions">
+                                            <button
+                                                type="button"
+                                                className="btn btn-icon btn-xs"
+                                                title="Edit footnote"
+                                                onClick={(event) => {
+                                                    event.stopPropagation();
+                                                    setInsertedId(null);
+                                                    startEdit(
+                                                        entry.id,
+                                                        entry.text,
+                                                    );
+                                                }}
+                                            >
+                                                ✎
+                                            </button>
+                                            <button
+                                                type="button"
+                                                className="btn btn-icon btn-xs"
+                                                title="Delete footnote"
+                                                onClick={(event) => {
+                                                    event.stopPropagation();
+                                                    editor.commands.removeFootnote(
+                                                        entry.id,
+                                                    );
+                                                }}
+                                            >
+                                                <TrashIcon size={13} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                ) : null}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -1,6 +1,10 @@
 import React from "react";
 import { Editor } from "@tiptap/react";
 import { Match, LanguageToolStorage } from "../../tiptap/languageTool";
+import { useAppStore } from "../../state/appStore";
+import { isSpellingMatch } from "../../../@core/application/utils/grammarDictionary";
+import { EMPTY_PROJECT_DICTIONARY } from "../../../@core/domain/entities/story/ProjectDictionary";
+import { showToast } from "../ui/GenerationProgressToast";
 
 interface LanguageToolPopupProps {
     editor: Editor;
@@ -10,6 +14,20 @@ export const LanguageToolPopup: React.FC<LanguageToolPopupProps> = ({
     editor,
 }) => {
     const HOVER_UPDATE_EVENT = "inkline:languagetool-hover-update";
+    const projectId = useAppStore((state) => state.projectId);
+    const projectDictionary = useAppStore(
+        (state) => state.workspaceProject?.dictionary ?? null,
+    );
+    const userDictionary = useAppStore((state) => state.userDictionary);
+    const grammarSettings = useAppStore(
+        (state) => state.workspaceProject?.grammarSettings ?? null,
+    );
+    const saveProjectDictionary = useAppStore(
+        (state) => state.saveProjectDictionary,
+    );
+    const saveUserDictionary = useAppStore(
+        (state) => state.saveUserDictionary,
+    );
     const [match, setMatch] = React.useState<Match | null>(null);
     const [matchRange, setMatchRange] = React.useState<{
         from: number;
@@ -192,6 +210,40 @@ export const LanguageToolPopup: React.FC<LanguageToolPopupProps> = ({
         };
     }, [editor]);
 
+    // Check the text again when a word or rule is added or removed, so every
+    // place it was flagged clears, not just the one that was clicked, and
+    // when the language or rule categories change
+    const lastSettingsRef = React.useRef({
+        projectDictionary,
+        userDictionary,
+        grammarSettings,
+    });
+    React.useEffect(() => {
+        const last = lastSettingsRef.current;
+        if (
+            last.projectDictionary === projectDictionary &&
+            last.userDictionary === userDictionary &&
+            last.grammarSettings === grammarSettings
+        ) {
+            return;
+        }
+        lastSettingsRef.current = {
+            projectDictionary,
+            userDictionary,
+            grammarSettings,
+        };
+
+        const storage = (
+            editor.extensionStorage as unknown as Record<
+                string,
+                LanguageToolStorage
+            >
+        )?.languagetool;
+        if (storage?.active) {
+            editor.commands.proofread();
+        }
+    }, [editor, projectDictionary, userDictionary, grammarSettings]);
+
     // Close popup only when pointer is outside both underline and popup.
     // A small grace window avoids accidental close while moving between them.
     React.useEffect(() => {
@@ -265,6 +317,57 @@ export const LanguageToolPopup: React.FC<LanguageToolPopupProps> = ({
         handleDismiss();
     };
 
+    const applyDictionaryChange = (save: () => Promise<void>) => {
+        handleDismiss();
+        save().catch((error) => {
+            showToast({
+                variant: "error",
+                title: "Could not update the dictionary",
+                description: error instanceof Error ? error.message : undefined,
+            });
+        });
+    };
+
+    const handleAddToProjectDictionary = () => {
+        if (!matchRange) return;
+        const word = editor.state.doc.textBetween(
+            matchRange.from,
+            matchRange.to,
+        );
+        const dictionary = projectDictionary ?? EMPTY_PROJECT_DICTIONARY;
+        applyDictionaryChange(() =>
+            saveProjectDictionary({
+                ...dictionary,
+                words: [...dictionary.words, word],
+            }),
+        );
+    };
+
+    const handleAddToUserDictionary = () => {
+        if (!matchRange) return;
+        const word = editor.state.doc.textBetween(
+            matchRange.from,
+            matchRange.to,
+        );
+        applyDictionaryChange(() =>
+            saveUserDictionary([...userDictionary, word]),
+        );
+    };
+
+    const handleDisableRule = () => {
+        if (!match) return;
+        const dictionary = projectDictionary ?? EMPTY_PROJECT_DICTIONARY;
+        applyDictionaryChange(() =>
+            saveProjectDictionary({
+                ...dictionary,
+                disabledRuleIds: [
+                    ...dictionary.disabledRuleIds,
+                    match.rule.id,
+                ],
+            }),
+        );
+    };
+
     const handleDismiss = () => {
         if (editor) {
             editor.commands.resetLanguageToolMatch();
@@ -310,6 +413,37 @@ export const LanguageToolPopup: React.FC<LanguageToolPopupProps> = ({
             )}
 
             <div className="lt-popup-actions">
+                {isSpellingMatch(match) ? (
+                    <>
+                        {projectId ? (
+                            <button
+                                className="lt-popup-ignore"
+                                onClick={handleAddToProjectDictionary}
+                                title="Accept this word everywhere in the project"
+                                type="button"
+                            >
+                                Add to Dictionary
+                            </button>
+                        ) : null}
+                        <button
+                            className="lt-popup-ignore"
+                            onClick={handleAddToUserDictionary}
+                            title="Accept this word in all of your projects"
+                            type="button"
+                        >
+                            Add to My Dictionary
+                        </button>
+                    </>
+                ) : projectId ? (
+                    <button
+                        className="lt-popup-ignore"
+                        onClick={handleDisableRule}
+                        title={`Stop checking "${match.rule.description}" in this project`}
+                        type="button"
+                    >
+                        Disable Rule
+                    </button>
+                ) : null}
                 <button
                     className="lt-popup-ignore"
                     onClick={handleIgnore}
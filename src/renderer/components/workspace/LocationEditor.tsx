@@ -13,6 +13,7 @@ import { RichEditor, type RichEditorCustomCard } from "./RichEditor";
 
 export type LocationEditorValues = {
     name: string;
+    aliases: string[];
     parentLocationId: string;
     description: string;
 };
@@ -96,6 +97,7 @@ const defaultValues = (
     currentParentLocationId: string | null,
 ): LocationEditorValues => ({
     name: location.name ?? "",
+    aliases: location.aliases ?? [],
     parentLocationId: currentParentLocationId ?? "",
     description: location.description ?? "",
 });
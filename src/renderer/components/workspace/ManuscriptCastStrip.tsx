@@ -0,0 +1,181 @@
+import React from "react";
+
+import type {
+    EntityAppearanceHit,
+    EntityAppearanceIndex,
+} from "../../utils/entityAppearances";
+import type { ManuscriptOverviewItem } from "./ManuscriptCorkboard";
+
+type ManuscriptCastStripProps = {
+    /** Every chapter and scene in reading order. */
+    items: ManuscriptOverviewItem[];
+    characters: { id: string; name: string }[];
+    /** Null while the index is still being built. */
+    index: EntityAppearanceIndex | null;
+    activeId: string | null;
+    onOpen: (id: string) => void;
+    onOpenHit: (hit: EntityAppearanceHit) => void;
+};
+
+type CastRow = {
+    id: string;
+    name: string;
+    total: number;
+    /** Hits in each item, by item ID. */
+    hitsByItem: Map<string, EntityAppearanceHit[]>;
+    firstColumn: number;
+};
+
+const CastStripCell: React.FC<{
+    label: string;
+    hits: EntityAppearanceHit[];
+    maxCount: number;
+    onOpen: () => void;
+    onOpenHit: (hit: EntityAppearanceHit) => void;
+}> = ({ label, hits, maxCount, onOpen, onOpenHit }) => {
+    // Any appearance stays visible next to a chapter that is full of them
+    const heat = hits.length > 0 ? 0.2 + (0.8 * hits.length) / maxCount : 0;
+
+    return (
+        <td className="cast-strip-cell">
+            <button
+                type="button"
+                className="cast-strip-heat"
+                title={`${label}: ${hits.length}`}
+                aria-label={`${label}: ${hits.length}`}
+                onClick={() =>
+                    hits.length > 0 ? onOpenHit(hits[0]) : onOpen()
+                }
+            >
+                {heat > 0 ? (
+                    <span
+                        className="cast-strip-heat-fill"
+                        style={{ opacity: heat }}
+                    />
+                ) : null}
+            </button>
+        </td>
+    );
+};
+
+/**
+ * One row per character and one cell per chapter or scene, shaded by how
+ * often the character appears there. Characters are listed in order of
+ * first appearance; those who never appear come last.
+ */
+export const ManuscriptCastStrip: React.FC<ManuscriptCastStripProps> = ({
+    items,
+    characters,
+    index,
+    activeId,
+    onOpen,
+    onOpenHit,
+}) => {
+    const { rows, maxCount } = React.useMemo(() => {
+        const columnById = new Map(
+            items.map((item, column) => [item.id, column]),
+        );
+        let max = 0;
+
+        const result: CastRow[] = characters.map((character) => {
+            const hitsByItem = new Map<string, EntityAppearanceHit[]>();
+            let firstColumn = items.length;
+            let total = 0;
+
+            for (const document of index?.[character.id]?.documents ?? []) {
+                const column = columnById.get(document.id);
+                if (document.kind !== "chapter" || column === undefined) {
+                    continue;
+                }
+                hitsByItem.set(document.id, document.hits);
+                firstColumn = Math.min(firstColumn, column);
+                total += document.hits.length;
+                max = Math.max(max, document.hits.length);
+            }
+
+            return {
+                id: character.id,
+                name: character.name.trim() || "Unnamed Character",
+                total,
+                hitsByItem,
+                firstColumn,
+            };
+        });
+
+        result.sort(
+            (a, b) =>
+                a.firstColumn - b.firstColumn ||
+                a.name.localeCompare(b.name, undefined, {
+                    sensitivity: "base",
+                }),
+        );
+        return { rows: result, maxCount: max };
+    }, [characters, index, items]);
+
+    if (items.length === 0 || characters.length === 0) {
+        return (
+            <p className="manuscript-overview-empty">
+                Add chapters and characters to see who appears where.
+            </p>
+        );
+    }
+
+    return (
+        <div className="cast-strip">
+            {index === null ? (
+                <div className="cast-strip-status">Counting appearances…</div>
+            ) : null}
+            <table className="cast-strip-table">
+                <thead>
+                    <tr>
+                        <th scope="col" className="cast-strip-name">
+                            Character
+                        </th>
+                        {items.map((item) => (
+                            <th
+                                key={item.id}
+                                scope="col"
+                                className={
+                                    item.id === activeId
+                                        ? "cast-strip-column is-active"
+                                        : "cast-strip-column"
+                                }
+                                title={item.title}
+                            >
+                                <button
+                                    type="button"
+                                    onClick={() => onOpen(item.id)}
+                                >
+                                    {item.prefix}
+                                </button>
+                            </th>
+                        ))}
+                        <th scope="col" className="cast-strip-total">
+                            Total
+                        </th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((row) => (
+                        <tr key={row.id}>
+                            <th scope="row" className="cast-strip-name">
+                                {row.name}
+                            </th>
+                            {items.map((item) => (
+                                <CastStripCell
+                                    key={item.id}
+                                    label={`${row.name} in ${item.title}`}
+                                    hits={row.hitsByItem.get(item.id) ?? []}
+                                    maxCount={maxCount}
+                                    onOpen={() => onOpen(item.id)}
+                                    onOpenHit={onOpenHit}
+                                />
+                            ))}
+                            <td className="cast-strip-total">{row.total}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
@@ -0,0 +1,233 @@
+import React from "react";
+
+import type {
+    ChapterLabel,
+    ChapterStatus,
+} from "../../../@core/domain/entities/story/Chapter";
+import { CHAPTER_STATUS_LABELS } from "../../utils/chapterMetadata";
+
+/** A chapter or scene as the corkboard and outliner show it. */
+export type ManuscriptOverviewItem = {
+    id: string;
+    nodeType: "chapter" | "scene";
+    /** The chapter a scene sits in; null for chapters. */
+    parentId: string | null;
+    /** The part a chapter sits in; null outside parts and for scenes. */
+    part: { id: string; title: string } | null;
+    /** Binder numbering, e.g. "3" or "3.2". */
+    prefix: string;
+    title: string;
+    synopsis: string;
+    status: ChapterStatus;
+    labels: ChapterLabel[];
+    povName: string | null;
+    eventTitle: string | null;
+    wordCount: number;
+    updatedAt: Date;
+};
+
+export type ManuscriptDropMode = "before" | "after";
+
+type ManuscriptCorkboardProps = {
+    /** Every chapter and scene in reading order. */
+    items: ManuscriptOverviewItem[];
+    activeId: string | null;
+    onOpen: (id: string) => void;
+    onMove: (params: {
+        nodeId: string;
+        targetNodeId: string;
+        dropMode: ManuscriptDropMode;
+    }) => void;
+};
+
+const formatWords = (count: number): string =>
+    `${count.toLocaleString()} ${count === 1 ? "word" : "words"}`;
+
+/**
+ * One index card per chapter, grouped by part. Scenes are counted into their
+ * chapter's card rather than shown on their own.
+ */
+export const ManuscriptCorkboard: React.FC<ManuscriptCorkboardProps> = ({
+    items,
+    activeId,
+    onOpen,
+    onMove,
+}) => {
+    const [draggedId, setDraggedId] = React.useState<string | null>(null);
+    const [dropTarget, setDropTarget] = React.useState<{
+        id: string;
+        mode: ManuscriptDropMode;
+    } | null>(null);
+
+    const groups = React.useMemo(() => {
+        const result: {
+            part: { id: string; title: string } | null;
+            cards: {
+                item: ManuscriptOverviewItem;
+                wordCount: number;
+                sceneCount: number;
+            }[];
+        }[] = [];
+
+        items.forEach((item) => {
+            if (item.nodeType !== "chapter") {
+                return;
+            }
+            const scenes = items.filter((scene) => scene.parentId === item.id);
+            const card = {
+                item,
+                wordCount: scenes.reduce(
+                    (sum, scene) => sum + scene.wordCount,
+                    item.wordCount,
+                ),
+                sceneCount: scenes.length,
+            };
+
+            const current = result[result.length - 1];
+            if (current && current.part?.id === item.part?.id) {
+                current.cards.push(card);
+            } else {
+                result.push({ part: item.part, cards: [card] });
+            }
+        });
+        return result;
+    }, [items]);
+
+    const resetDrag = () => {
+        setDraggedId(null);
+        setDropTarget(null);
+    };
+
+    if (groups.length === 0) {
+        return (
+            <p className="manuscript-overview-empty">
+                No chapters yet. Add one from the binder.
+            </p>
+        );
+    }
+
+    return (
+        <div className="corkboard">
+            {groups.map((group, groupIndex) => (
+                <section
+                    key={group.part?.id ?? `loose-${groupIndex}`}
+                    className="corkboard-group"
+                >
+                    {group.part ? (
+                        <h2 className="corkboard-part-title">
+                            {group.part.title}
+                        </h2>
+                    ) : null}
+                    <div className="corkboard-grid">
+                        {group.cards.map(({ item, wordCount, sceneCount }) => (
+                            <button
+                                key={item.id}
+                                type="button"
+                                className={
+                                    "corkboard-card" +
+                                    (item.id === activeId ? " is-active" : "") +
+                                    (item.id === draggedId
+                                        ? " is-dragging"
+                                        : "")
+                                }
+                                data-drop={
+                                    dropTarget?.id === item.id
+                                        ? dropTarget.mode
+                                        : undefined
+                                }
+                                draggable
+                                onClick={() => onOpen(item.id)}
+                                onDragStart={(event) => {
+                                    event.dataTransfer.effectAllowed = "move";
+                                    event.dataTransfer.setData(
+                                        "text/plain",
+                                        item.id,
+                                    );
+                                    setDraggedId(item.id);
+                                }}
+                                onDragOver={(event) => {
+                                    if (!draggedId || draggedId === item.id) {
+                                        return;
+                                    }
+                                    event.preventDefault();
+                                    const rect =
+                                        event.currentTarget.getBoundingClientRect();
+                                    const mode: ManuscriptDropMode =
+                                        event.clientX <
+                                        rect.left + rect.width / 2
+                                            ? "before"
+                                            : "after";
+                                    if (
+                                        dropTarget?.id !== item.id ||
+                                        dropTarget.mode !== mode
+                                    ) {
+                                        setDropTarget({ id: item.id, mode });
+                                    }
+                                }}
+                                onDrop={(event) => {
+                                    event.preventDefault();
+                                    if (
+                                        draggedId &&
+                                        dropTarget?.id === item.id
+                                    ) {
+                                        onMove({
+                                            nodeId: draggedId,
+                                            targetNodeId: item.id,
+                                            dropMode: dropTarget.mode,
+                                        });
+                                    }
+                                    resetDrag();
+                                }}
+                                onDragEnd={resetDrag}
+                            >
+                                <span className="corkboard-card-header">
+                                    <span className="corkboard-card-number">
+                                        {item.prefix}
+                                    </span>
+                                    <span className="corkboard-card-title">
+                                        {item.title}
+                                    </span>
+                                    {item.labels.map((label) => (
+                                        <span
+                                            key={label}
+                                            className="binder-item-label-dot"
+                                            data-label={label}
+                                            aria-hidden
+                                        />
+                                    ))}
+                                </span>
+                                <span
+                                    className={
+                                        item.synopsis
+                                            ? "corkboard-card-synopsis"
+                                            : "corkboard-card-synopsis is-empty"
+                                    }
+                                >
+                                    {item.synopsis || "No synopsis"}
+                                </span>
+                                <span className="corkboard-card-footer">
+                                    <span
+                                        className="binder-item-status"
+                                        data-status={item.status}
+                                    >
+                                        {CHAPTER_STATUS_LABELS[item.status]}
+                                    </span>
+                                    <span>
+                                        {formatWords(wordCount)}
+                                        {sceneCount > 0
+                                            ? ` · ${sceneCount} ${
+                                                  sceneCount === 1
+                                                      ? "scene"
+                                                      : "scenes"
+                                              }`
+                                            : ""}
+                                    </span>
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                </section>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,281 @@
+import React from "react";
+
+import { ChevronDownIcon, ChevronRightIcon } from "../ui/Icons";
+import {
+    CHAPTER_STATUSES,
+    CHAPTER_STATUS_LABELS,
+} from "../../utils/chapterMetadata";
+import type {
+    ManuscriptDropMode,
+    ManuscriptOverviewItem,
+} from "./ManuscriptCorkboard";
+
+type OutlinerSortKey =
+    | "order"
+    | "title"
+    | "status"
+    | "pov"
+    | "event"
+    | "words"
+    | "updated";
+
+type ManuscriptOutlinerProps = {
+    /** Every chapter and scene in reading order. */
+    items: ManuscriptOverviewItem[];
+    activeId: string | null;
+    onOpen: (id: string) => void;
+    onMove: (params: {
+        nodeId: string;
+        targetNodeId: string;
+        dropMode: ManuscriptDropMode;
+    }) => void;
+};
+
+const COLUMNS: { key: OutlinerSortKey; label: string; numeric?: boolean }[] =
+    [
+        { key: "order", label: "#" },
+        { key: "title", label: "Title" },
+        { key: "status", label: "Status" },
+        { key: "pov", label: "POV" },
+        { key: "event", label: "Event" },
+        { key: "words", label: "Words", numeric: true },
+        { key: "updated", label: "Last updated" },
+    ];
+
+/** Empty text cells sort after filled ones in either direction. */
+const compareText = (a: string | null, b: string | null): number => {
+    if (!a || !b) {
+        return a ? -1 : b ? 1 : 0;
+    }
+    return a.localeCompare(b, undefined, { sensitivity: "base" });
+};
+
+const compareItems = (
+    key: OutlinerSortKey,
+    a: ManuscriptOverviewItem,
+    b: ManuscriptOverviewItem,
+): number => {
+    switch (key) {
+        case "order":
+            return 0;
+        case "title":
+            return compareText(a.title, b.title);
+        case "status":
+            return (
+                CHAPTER_STATUSES.indexOf(a.status) -
+                CHAPTER_STATUSES.indexOf(b.status)
+            );
+        case "pov":
+            return compareText(a.povName, b.povName);
+        case "event":
+            return compareText(a.eventTitle, b.eventTitle);
+        case "words":
+            return a.wordCount - b.wordCount;
+        case "updated":
+            return a.updatedAt.getTime() - b.updatedAt.getTime();
+    }
+};
+
+/**
+ * The manuscript as a table with sortable columns. Rows can be dragged to
+ * reorder only in manuscript order, where the table matches the binder.
+ */
+export const ManuscriptOutliner: React.FC<ManuscriptOutlinerProps> = ({
+    items,
+    activeId,
+    onOpen,
+    onMove,
+}) => {
+    const [sort, setSort] = React.useState<{
+        key: OutlinerSortKey;
+        descending: boolean;
+    }>({ key: "order", descending: false });
+    const [draggedId, setDraggedId] = React.useState<string | null>(null);
+    const [dropTarget, setDropTarget] = React.useState<{
+        id: string;
+        mode: ManuscriptDropMode;
+    } | null>(null);
+
+    const isManuscriptOrder = sort.key === "order" && !sort.descending;
+
+    const rows = React.useMemo(() => {
+        if (sort.key === "order") {
+            return sort.descending ? items.slice().reverse() : items;
+        }
+        // Stable sort, so ties keep manuscript order
+        const sorted = items
+            .map((item, index) => ({ item, index }))
+            .sort((a, b) => {
+                const result = compareItems(sort.key, a.item, b.item);
+                if (result === 0) {
+                    return a.index - b.index;
+                }
+                return sort.descending ? -result : result;
+            });
+        return sorted.map(({ item }) => item);
+    }, [items, sort]);
+
+    const toggleSort = (key: OutlinerSortKey) =>
+        setSort((current) =>
+            current.key === key
+                ? { key, descending: !current.descending }
+                : { key, descending: false },
+        );
+
+    const resetDrag = () => {
+        setDraggedId(null);
+        setDropTarget(null);
+    };
+
+    if (items.length === 0) {
+        return (
+            <p className="manuscript-overview-empty">
+                No chapters yet. Add one from the binder.
+            </p>
+        );
+    }
+
+    return (
+        <div className="outliner">
+            <table className="outliner-table">
+                <thead>
+                    <tr>
+                        {COLUMNS.map((column) => (
+                            <th
+                                key={column.key}
+                                aria-sort={
+                                    sort.key === column.key
+                                        ? sort.descending
+                                            ? "descending"
+                                            : "ascending"
+                                        : undefined
+                                }
+                                className={
+                                    column.numeric ? "is-numeric" : undefined
+                                }
+                            >
+                                <button
+                                    type="button"
+                                    className="outliner-sort-btn"
+                                    onClick={() => toggleSort(column.key)}
+                                >
+                                    {column.label}
+                                    {sort.key === column.key ? (
+                                        sort.descending ? (
+                                            <ChevronDownIcon size={12} />
+                                        ) : (
+                                            <ChevronRightIcon size={12} />
+                                        )
+                                    ) : null}
+                                </button>
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map((item) => (
+                        <tr
+                            key={item.id}
+                            className={
+                                "outliner-row" +
+                                (item.id === activeId ? " is-active" : "") +
+                                (item.id === draggedId ? " is-dragging" : "")
+                            }
+                            data-node-type={item.nodeType}
+                            data-drop={
+                                dropTarget?.id === item.id
+                                    ? dropTarget.mode
+                                    : undefined
+                            }
+                            draggable={isManuscriptOrder}
+                            onDoubleClick={() => onOpen(item.id)}
+                            onDragStart={(event) => {
+                                event.dataTransfer.effectAllowed = "move";
+                                event.dataTransfer.setData(
+                                    "text/plain",
+                                    item.id,
+                                );
+                                setDraggedId(item.id);
+                            }}
+                            onDragOver={(event) => {
+                                if (!draggedId || draggedId === item.id) {
+                                    return;
+                                }
+                                event.preventDefault();
+                                const rect =
+                                    event.currentTarget.getBoundingClientRect();
+                                const mode: ManuscriptDropMode =
+                                    event.clientY < rect.top + rect.height / 2
+                                        ? "before"
+                                        : "after";
+                                if (
+                                    dropTarget?.id !== item.id ||
+                                    dropTarget.mode !== mode
+                                ) {
+                                    setDropTarget({ id: item.id, mode });
+                                }
+                            }}
+                            onDrop={(event) => {
+                                event.preventDefault();
+                                if (draggedId && dropTarget?.id === item.id) {
+                                    onMove({
+                                        nodeId: draggedId,
+                                        targetNodeId: item.id,
+                                        dropMode: dropTarget.mode,
+                                    });
+                                }
+                                resetDrag();
+                            }}
+                            onDragEnd={resetDrag}
+                        >
+                            <td className="outliner-number">{item.prefix}</td>
+                            <td>
+                                <button
+                                    type="button"
+                                    className="outliner-title"
+                                    onClick={() => onOpen(item.id)}
+                                    title={item.synopsis || undefined}
+                                >
+                                    {item.labels.map((label) => (
+                                        <span
+                                            key={label}
+                                            className="binder-item-label-dot"
+                                            data-label={label}
+                                            aria-hidden
+                                        />
+                                    ))}
+                                    {item.title}
+                                </button>
+                            </td>
+                            <td>
+                                <span
+                                    className="binder-item-status"
+                                    data-status={item.status}
+                                >
+                                    {CHAPTER_STATUS_LABELS[item.status]}
+                                </span>
+                            </td>
+                            <td>{item.povName ?? "—"}</td>
+                            <td>{item.eventTitle ?? "—"}</td>
+                            <td className="is-numeric">
+                                {item.wordCount.toLocaleString()}
+                            </td>
+                            <td>
+                                {item.updatedAt.toLocaleDateString(undefined, {
+                                    month: "short",
+                                    day: "numeric",
+                                    year: "numeric",
+                                })}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {!isManuscriptOrder ? (
+                <p className="outliner-hint">
+                    Sort by # to drag rows into a new order.
+                </p>
+            ) : null}
+        </div>
+    );
+};
@@ -22,6 +22,7 @@ import {
 
 export type OrganizationEditorValues = {
     name: string;
+    aliases: string[];
     description: string;
     locationIds: string[];
 };
@@ -104,6 +105,7 @@ const defaultValues = (
     organization: WorkspaceOrganization,
 ): OrganizationEditorValues => ({
     name: organization.name ?? "",
+    aliases: organization.aliases ?? [],
     description: organization.description ?? "",
     locationIds: organization.locationIds ?? [],
 });
@@ -148,7 +150,12 @@ export const OrganizationEditor: React.FC<OrganizationEditorProps> = ({
 }) => {
     const initialValues = React.useMemo(
         () => defaultValues(organization),
-        [organization.name, organization.description, organization.locationIds],
+        [
+            organization.name,
+            organization.aliases,
+            organization.description,
+            organization.locationIds,
+        ],
     );
 
     const runtimeReach = React.useMemo(
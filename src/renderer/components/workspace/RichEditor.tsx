@@ -24,6 +24,7 @@ import {
 } from "../ui/Icons";
 import type { DocumentRef } from "../ui/ListInput";
 import { showToast } from "../ui/GenerationProgressToast";
+import { TagsInput } from "../ui/Tags";
 import { MetafieldsSection } from "./MetafieldsSection";
 import { ParagraphRichField } from "./ParagraphRichField";
 import {
@@ -45,6 +46,8 @@ export type RichEditorActionLog = {
 
 export type RichEditorBaseValues = {
     name: string;
+    /** Other names mention detection looks for in chapters. */
+    aliases: string[];
     description: string;
 };
 
@@ -1402,6 +1405,17 @@ export function RichEditor<TValues extends RichEditorBaseValues>({
                                     }
                                     placeholder={`Untitled ${panelLabel}`}
                                 />
+                                <TagsInput
+                                    className="entity-aliases-input"
+                                    value={values.aliases}
+                                    onChange={(aliases) =>
+                                        handleChange(
+                                            "aliases",
+                                            aliases as TValues["aliases"],
+                                        )
+                                    }
+                                    placeholder="Add an alias..."
+                                />
                             </div>
                         </div>
                         <div className="entity-column-shell entity-column-shell--lhs">
@@ -14,18 +14,28 @@ import {
     ChevronLeftIcon,
     ChevronRightIcon,
     CloseIcon,
+    HistoryIcon,
+    PenLineIcon,
     RefreshCwIcon,
     PlusIcon,
     SpellCheckIcon,
     StickyNoteIcon,
+    SuperscriptIcon,
 } from "../ui/Icons";
 import { LinkDialog } from "../dialogs/LinkDialog";
 import { LanguageToolPopup } from "./LanguageToolPopup";
-import { CommentsSidebar, type UserChapterComment } from "./CommentsSidebar";
+import {
+    CommentsSidebar,
+    type CommentThreadActions,
+} from "./CommentsSidebar";
+import { ChapterHistorySidebar } from "./ChapterHistorySidebar";
+import { FootnotesSidebar, type FootnoteRequest } from "./FootnotesSidebar";
 import type {
     PendingChapterCommentEdit,
     PendingChapterEdit,
 } from "../../state/appStore";
+import type { WorkspaceCommentThread } from "../../types";
+import { getSearchPatternError } from "../../utils/searchPattern";
 
 interface TextEditorProps {
     editor: Editor | null;
@@ -36,16 +46,26 @@ interface TextEditorProps {
     pendingEditsById?: Record<string, PendingChapterEdit>;
     /** Chapter-level AI comments (no word range). */
     chapterLevelAIComments?: PendingChapterCommentEdit[];
-    /** User chapter-level notes. */
-    userChapterComments?: UserChapterComment[];
-    onAddUserChapterComment?: (text: string) => void;
-    onRemoveUserChapterComment?: (id: string) => void;
+    /** User comment threads on this chapter. */
+    commentThreads?: WorkspaceCommentThread[];
+    /** Keeps user comments as threads (chapters only). */
+    commentThreadActions?: CommentThreadActions;
+    /** Name shown on new comments and replies. */
+    commentAuthorName?: string;
     /** Called when an AI edit should be dismissed. */
     onDismissAIEdit?: (editId: string) => void;
     /** Called when an AI replacement should be accepted. */
     onAcceptReplacement?: (editId: string, replacementText: string) => void;
     /** The comment mark id the cursor is currently inside. */
     activeCommentId?: string | null;
+    /** Enables the version history panel (chapters only). */
+    chapterHistory?: { projectId: string; chapterId: string };
+    /** Adds split and merge to the context menu (chapters only). */
+    chapterActions?: {
+        chapterId: string;
+        onSplitAtCursor: () => void;
+        onMergeWithNext: () => void;
+    };
 }
 
 const fontOptions = [
@@ -77,12 +97,14 @@ export const TextEditor: React.FC<TextEditorProps> = ({
     children,
     pendingEditsById = {},
     chapterLevelAIComments = [],
-    userChapterComments = [],
-    onAddUserChapterComment,
-    onRemoveUserChapterComment,
+    commentThreads = [],
+    commentThreadActions,
+    commentAuthorName = "",
     onDismissAIEdit,
     onAcceptReplacement,
     activeCommentId = null,
+    chapterHistory,
+    chapterActions,
 }) => {
     const DEFAULT_FALLBACK_COLOR = "#000000";
 
@@ -119,12 +141,20 @@ export const TextEditor: React.FC<TextEditorProps> = ({
     const [searchTerm, setSearchTerm] = React.useState("");
     const [replaceTerm, setReplaceTerm] = React.useState("");
     const [caseSensitive, setCaseSensitive] = React.useState(false);
+    const [useRegex, setUseRegex] = React.useState(false);
+    const [wholeWord, setWholeWord] = React.useState(false);
     const findInputRef = React.useRef<HTMLInputElement | null>(null);
 
     const [isCommentsSidebarOpen, setIsCommentsSidebarOpen] =
         React.useState(false);
     const [pendingCommentRequest, setPendingCommentRequest] =
         React.useState(false);
+    const [isHistorySidebarOpen, setIsHistorySidebarOpen] =
+        React.useState(false);
+    const [isFootnotesSidebarOpen, setIsFootnotesSidebarOpen] =
+        React.useState(false);
+    const [footnoteRequest, setFootnoteRequest] =
+        React.useState<FootnoteRequest | null>(null);
     const rerenderFrameRef = React.useRef<number | null>(null);
     const pendingColorRef = React.useRef<string | null>(null);
 
@@ -136,6 +166,8 @@ export const TextEditor: React.FC<TextEditorProps> = ({
         if (!editor) return;
 
         const handleCommentRequest = () => {
+            setIsHistorySidebarOpen(false);
+            setIsFootnotesSidebarOpen(false);
             setIsCommentsSidebarOpen(true);
             setPendingCommentRequest(true);
         };
@@ -151,17 +183,71 @@ export const TextEditor: React.FC<TextEditorProps> = ({
         };
     }, [editor]);
 
-    // Handle "add-comment" context menu command via IPC.
+    // Listen for footnote-request (keyboard shortcut) and footnote-click
+    // (marker clicked) events.
+    React.useEffect(() => {
+        if (!editor) return;
+
+        const openFootnotes = (request: FootnoteRequest) => {
+            setIsCommentsSidebarOpen(false);
+            setIsHistorySidebarOpen(false);
+            setIsFootnotesSidebarOpen(true);
+            setFootnoteRequest(request);
+        };
+        const handleFootnoteRequest = () => openFootnotes({ kind: "insert" });
+        const handleFootnoteClick = (event: Event) => {
+            const id = (event as CustomEvent<{ id?: string }>).detail?.id;
+            if (id) {
+                openFootnotes({ kind: "edit", id });
+            }
+        };
+
+        const dom = editor.view.dom;
+        dom.addEventListener("footnote-request", handleFootnoteRequest);
+        dom.addEventListener("footnote-click", handleFootnoteClick);
+
+        return () => {
+            dom.removeEventListener("footnote-request", handleFootnoteRequest);
+            dom.removeEventListener("footnote-click", handleFootnoteClick);
+        };
+    }, [editor]);
+
+    // Handle editor context menu commands via IPC.
     // Only the editor instance that fired the context menu responds.
     React.useEffect(() => {
         if (!editor) return;
 
         const removeListener = window.ui.onContextMenuCommand(
             (payload: { command: string; data: unknown }) => {
-                if (payload.command !== "add-comment") return;
+                if (
+                    payload.command !== "add-comment" &&
+                    payload.command !== "insert-footnote" &&
+                    payload.command !== "split-chapter-at-cursor" &&
+                    payload.command !== "merge-with-next-chapter"
+                ) {
+                    return;
+                }
                 if (!didTriggerContextMenuRef.current) return;
                 didTriggerContextMenuRef.current = false;
 
+                if (payload.command === "split-chapter-at-cursor") {
+                    chapterActions?.onSplitAtCursor();
+                    return;
+                }
+                if (payload.command === "merge-with-next-chapter") {
+                    chapterActions?.onMergeWithNext();
+                    return;
+                }
+                if (payload.command === "insert-footnote") {
+                    setIsCommentsSidebarOpen(false);
+                    setIsHistorySidebarOpen(false);
+                    setIsFootnotesSidebarOpen(true);
+                    setFootnoteRequest({ kind: "insert" });
+                    return;
+                }
+
+                setIsHistorySidebarOpen(false);
+                setIsFootnotesSidebarOpen(false);
                 setIsCommentsSidebarOpen(true);
                 setPendingCommentRequest(true);
             },
@@ -170,7 +256,7 @@ export const TextEditor: React.FC<TextEditorProps> = ({
         return () => {
             removeListener();
         };
-    }, [editor]);
+    }, [editor, chapterActions]);
 
     React.useEffect(() => {
         if (!editor || stage !== "workspace") {
@@ -291,6 +377,32 @@ export const TextEditor: React.FC<TextEditorProps> = ({
         editor.commands.setCaseSensitive(caseSensitive);
     }, [caseSensitive, editor, isFindOpen]);
 
+    React.useEffect(() => {
+        if (!editor || !isFindOpen) {
+            return;
+        }
+
+        editor.commands.setUseRegex(useRegex);
+    }, [useRegex, editor, isFindOpen]);
+
+    React.useEffect(() => {
+        if (!editor || !isFindOpen) {
+            return;
+        }
+
+        editor.commands.setWholeWord(wholeWord);
+    }, [wholeWord, editor, isFindOpen]);
+
+    const findPatternError = React.useMemo(
+        () =>
+            getSearchPatternError(searchTerm, {
+                caseSensitive,
+                useRegex,
+                wholeWord,
+            }),
+        [searchTerm, caseSensitive, useRegex, wholeWord],
+    );
+
     const applyPendingColor = React.useCallback(() => {
         if (!editor) {
             return;
@@ -556,13 +668,52 @@ export const TextEditor: React.FC<TextEditorProps> = ({
                                 title="Toggle proofreading"
                             />
                             <ToolbarButton
-                                label={<StickyNoteIcon size={16} />}
+                                label={<PenLineIcon size={16} />}
                                 onClick={() =>
-                                    setIsCommentsSidebarOpen((o) => !o)
+                                    editor.commands.toggleSuggestionMode()
+                                }
+                                isActive={
+                                    (
+                                        editor.extensionStorage as unknown as Record<
+                                            string,
+                                            { enabled?: boolean }
+                                        >
+                                    ).trackChanges?.enabled ?? false
                                 }
+                                title="Suggest changes"
+                            />
+                            <ToolbarButton
+                                label={<StickyNoteIcon size={16} />}
+                                onClick={() => {
+                                    setIsHistorySidebarOpen(false);
+                                    setIsFootnotesSidebarOpen(false);
+                                    setIsCommentsSidebarOpen((o) => !o);
+                                }}
                                 isActive={isCommentsSidebarOpen}
                                 title="Toggle comments"
                             />
+                            <ToolbarButton
+                                label={<SuperscriptIcon size={16} />}
+                                onClick={() => {
+                                    setIsCommentsSidebarOpen(false);
+                                    setIsHistorySidebarOpen(false);
+                                    setIsFootnotesSidebarOpen((o) => !o);
+                                }}
+                                isActive={isFootnotesSidebarOpen}
+                                title="Footnotes"
+                            />
+                            {chapterHistory ? (
+                                <ToolbarButton
+                                    label={<HistoryIcon size={16} />}
+                                    onClick={() => {
+                                        setIsCommentsSidebarOpen(false);
+                                        setIsFootnotesSidebarOpen(false);
+                                        setIsHistorySidebarOpen((o) => !o);
+                                    }}
+                                    isActive={isHistorySidebarOpen}
+                                    title="Version history"
+                                />
+                            ) : null}
                         </div>
                         <div className="editor-surface">
                             {isFindOpen ? (
@@ -589,6 +740,11 @@ export const TextEditor: React.FC<TextEditorProps> = ({
                                                 ref={findInputRef}
                                                 className="editor-find-input"
                                                 placeholder="Find"
+                                                aria-invalid={
+                                                    findPatternError
+                                                        ? true
+                                                        : undefined
+                                                }
                                                 value={searchTerm}
                                                 onChange={(event) =>
                                                     setSearchTerm(
@@ -639,6 +795,38 @@ export const TextEditor: React.FC<TextEditorProps> = ({
                                                 </span>
                                             </button>
 
+                                            <button
+                                                type="button"
+                                                className={`btn btn-icon editor-find-btn ${wholeWord ? "is-active" : ""}`}
+                                                onClick={() =>
+                                                    setWholeWord(
+                                                        (prev) => !prev,
+                                                    )
+                                                }
+                                                title="Match whole word"
+                                                aria-label="Match whole word"
+                                            >
+                                                <span className="editor-find-aa editor-find-whole-word">
+                                                    ab
+                                                </span>
+                                            </button>
+
+                                            <button
+                                                type="button"
+                                                className={`btn btn-icon editor-find-btn ${useRegex ? "is-active" : ""}`}
+                                                onClick={() =>
+                                                    setUseRegex(
+                                                        (prev) => !prev,
+                                                    )
+                                                }
+                                                title="Use regular expression"
+                                                aria-label="Use regular expression"
+                                            >
+                                                <span className="editor-find-aa">
+                                                    .*
+                                                </span>
+                                            </button>
+
                                             <button
                                                 type="button"
                                                 className={`btn btn-icon editor-find-btn ${isReplaceOpen ? "is-active" : ""}`}
@@ -677,11 +865,21 @@ export const TextEditor: React.FC<TextEditorProps> = ({
                                             </button>
                                         </div>
 
+                                        {findPatternError ? (
+                                            <div className="editor-find-error">
+                                                {findPatternError}
+                                            </div>
+                                        ) : null}
+
                                         {isReplaceOpen ? (
                                             <div className="editor-find-row">
                                                 <Input
                                                     className="editor-find-input"
-                                                    placeholder="Replace"
+                                                    placeholder={
+                                                        useRegex
+                                                            ? "Replace ($1 for groups)"
+                                                            : "Replace"
+                                                    }
                                                     value={replaceTerm}
                                                     onChange={(event) =>
                                                         setReplaceTerm(
@@ -736,7 +934,15 @@ export const TextEditor: React.FC<TextEditorProps> = ({
                                     onContextMenu={(e) => {
                                         e.preventDefault();
                                         didTriggerContextMenuRef.current = true;
-                                        window.ui.showContextMenu("editor");
+                                        window.ui.showContextMenu(
+                                            "editor",
+                                            chapterActions
+                                                ? {
+                                                      chapterId:
+                                                          chapterActions.chapterId,
+                                                  }
+                                                : undefined,
+                                        );
                                     }}
                                 >
                                     <EditorContent
@@ -763,18 +969,30 @@ export const TextEditor: React.FC<TextEditorProps> = ({
                             }
                             pendingEditsById={pendingEditsById}
                             chapterLevelAIComments={chapterLevelAIComments}
-                            userChapterComments={userChapterComments}
-                            onAddUserChapterComment={
-                                onAddUserChapterComment ?? noop
-                            }
-                            onRemoveUserChapterComment={
-                                onRemoveUserChapterComment ?? noop
-                            }
+                            commentThreads={commentThreads}
+                            commentThreadActions={commentThreadActions}
+                            authorName={commentAuthorName}
                             onDismissAIEdit={onDismissAIEdit ?? noop}
                             onAcceptReplacement={onAcceptReplacement ?? noop}
                             activeCommentId={activeCommentId}
                         />
                     ) : null}
+                    {isFootnotesSidebarOpen ? (
+                        <FootnotesSidebar
+                            editor={editor}
+                            onClose={() => setIsFootnotesSidebarOpen(false)}
+                            request={footnoteRequest}
+                            onRequestHandled={() => setFootnoteRequest(null)}
+                        />
+                    ) : null}
+                    {isHistorySidebarOpen && chapterHistory ? (
+                        <ChapterHistorySidebar
+                            editor={editor}
+                            projectId={chapterHistory.projectId}
+                            chapterId={chapterHistory.chapterId}
+                            onClose={() => setIsHistorySidebarOpen(false)}
+                        />
+                    ) : null}
                 </div>
             ) : (
                 <p className="binder-empty">
@@ -7,25 +7,57 @@ import {
     GUEST_USER_ID,
     type GuestTransitionDecision,
 } from "../../@core/domain/constants/GuestUserConstants";
-import { showToast } from "../components/ui/GenerationProgressToast";
-import { globalSearchEngine } from "./globalSearchEngine";
+import type { ImportProjectFormat } from "../../@core/application/use-cases/project/ImportProject";
+import type { ExportSettings } from "../../@core/domain/entities/story/ExportSettings";
+import type { ManuscriptStructure } from "../../@core/domain/entities/story/ManuscriptStructure";
+import type { WritingGoals } from "../../@core/domain/entities/story/WritingGoals";
+import type { ProjectDictionary } from "../../@core/domain/entities/story/ProjectDictionary";
+import type { GrammarSettings } from "../../@core/domain/entities/story/GrammarSettings";
 import type {
-    GlobalFindAndReplaceRequest,
-    GlobalFindAndReplaceResponse,
-    GlobalFindRequest,
-    GlobalFindResponse,
-    SearchDocumentSnapshot,
+    GrammarCheckRequest,
+    LanguageToolResponse,
+} from "../../@core/domain/services/ILanguageToolService";
+import {
+    dismissToast,
+    showToast,
+} from "../components/ui/GenerationProgressToast";
+import { globalSearchEngine } from "./globalSearchEngine";
+import {
+    applyReplaceHits,
+    collectReplaceHits,
+    collectReplaceTargets,
+    type GlobalReplaceRecord,
+    type ReplaceUndoEntry,
+} from "./globalReplace";
+import {
+    ALL_GLOBAL_SEARCH_SCOPES,
+    type GlobalFindAndReplaceRequest,
+    type GlobalFindAndReplaceResponse,
+    type GlobalFindRequest,
+    type GlobalFindResponse,
+    type GlobalReplacePreview,
+    type GlobalSearchScope,
+    type ProjectSearchRequest,
+    type SearchDocumentSnapshot,
+    type UndoGlobalReplaceResponse,
 } from "./globalSearchTypes";
+import {
+    buildSearchRegex,
+    getSearchPatternError,
+    type SearchPatternOptions,
+} from "../utils/searchPattern";
 import type {
     AppStage,
     AuthMode,
     ProjectSummary,
     RendererUser,
     ProjectsStatus,
+    ProjectImportSource,
     AutosaveStatus,
     ShortcutStates,
     OpenProjectPayload,
     WorkspaceDocumentRef,
+    WorkspaceDocumentReveal,
     WorkspaceChapter,
     WorkspaceCharacter,
     WorkspaceLocation,
@@ -41,12 +73,33 @@ import type {
     WorkspaceTimeline,
     WorkspaceEvent,
     WorkspaceViewMode,
+    ManuscriptViewMode,
     WorkspaceMetafieldDefinition,
     WorkspaceMetafieldAssignment,
     WorkspaceEditorTemplate,
     WorkspaceEditorTemplateType,
+    WorkspaceCommentThread,
 } from "../types";
 import { normalizeUserFacingError } from "../utils/userFacingError";
+import { joinChapterContents } from "../utils/chapterContent";
+import { getCommentAuthorName } from "../utils/commentAuthor";
+import { buildEntityMentionCandidates } from "../utils/entityMentions";
+import { resolveGrammarCheckOptions } from "../../@core/application/utils/grammarSettings";
+import type { GrammarExceptions } from "../../@core/application/utils/grammarDictionary";
+import type {
+    ManuscriptGrammarProgress,
+    ManuscriptGrammarReport,
+} from "../../@core/application/use-cases/analysis/CheckManuscriptGrammar";
+import {
+    findManuscriptNode,
+    flattenManuscriptDocuments,
+    getDocumentNodeType,
+    getRootIndexForDocument,
+    insertManuscriptNode,
+    moveManuscriptNode,
+    normalizeManuscriptStructure,
+    removeManuscriptNode,
+} from "../utils/manuscriptStructure";
 
 const initialAuthForm = {
     email: "",
@@ -333,6 +386,57 @@ const resolveConflictSelection = (
     return null;
 };
 
+const IMPORT_SOURCES: Record<
+    ProjectImportSource,
+    {
+        label: string;
+        dialog: Parameters<Window["fileDialog"]["showOpenDialog"]>[0];
+    }
+> = {
+    archive: {
+        label: "Inkline archive",
+        dialog: {
+            title: "Restore Inkline Archive",
+            filters: [{ name: "Inkline Archives", extensions: ["inkline"] }],
+            properties: ["openFile"],
+        },
+    },
+    epub: {
+        label: "EPUB",
+        dialog: {
+            title: "Import EPUB",
+            filters: [{ name: "EPUB Files", extensions: ["epub"] }],
+            properties: ["openFile"],
+        },
+    },
+    markdown: {
+        label: "Markdown",
+        dialog: {
+            title: "Import Markdown Folder",
+            properties: ["openDirectory"],
+        },
+    },
+    docx: {
+        label: "Word document",
+        dialog: {
+            title: "Import Word Document",
+            filters: [{ name: "Word Documents", extensions: ["docx"] }],
+            properties: ["openFile"],
+        },
+    },
+    scrivener: {
+        label: "Scrivener project",
+        dialog: {
+            title: "Import Scrivener Project",
+            filters: [
+                { name: "Scrivener Projects", extensions: ["scriv", "scrivx"] },
+            ],
+            // .scriv is a package on macOS but a plain folder elsewhere
+            properties: ["openFile", "openDirectory"],
+        },
+    },
+};
+
 const createErrorMessage = (error: unknown, fallback: string): string => {
     return normalizeUserFacingError(error, fallback);
 };
@@ -430,6 +534,241 @@ const resolveDocumentSelection = (
     return createDefaultSelection(payload);
 };
 
+type ManuscriptState = Pick<AppStore, "chapters" | "workspaceProject">;
+
+/** The open project's parts, chapters and scenes, repaired against its chapters. */
+const getManuscriptStructure = (state: ManuscriptState): ManuscriptStructure =>
+    normalizeManuscriptStructure(
+        state.workspaceProject?.manuscriptStructure,
+        state.chapters
+            .slice()
+            .sort((a, b) => a.order - b.order)
+            .map((chapter) => chapter.id),
+    );
+
+type GrammarExceptionState = Pick<
+    AppStore,
+    | "workspaceProject"
+    | "userDictionary"
+    | "characters"
+    | "locations"
+    | "organizations"
+>;
+
+/**
+ * What a grammar check lets through: project and user dictionary words,
+ * entity names and aliases, and rules disabled for the project.
+ */
+const getGrammarExceptions = (
+    state: GrammarExceptionState,
+): GrammarExceptions => {
+    const entityTerms = buildEntityMentionCandidates({
+        characters: state.characters,
+        locations: state.locations,
+        organizations: state.organizations,
+    }).flatMap((candidate) => candidate.terms);
+
+    return {
+        words: [
+            ...(state.workspaceProject?.dictionary?.words ?? []),
+            ...state.userDictionary,
+            ...entityTerms,
+        ],
+        disabledRuleIds:
+            state.workspaceProject?.dictionary?.disabledRuleIds ?? [],
+    };
+};
+
+/**
+ * Puts chapters in the structure's reading order and mirrors the structure on
+ * the open project, the same way the main process stores it.
+ */
+const applyManuscriptStructureLocally = (
+    state: ManuscriptState,
+    structure: ManuscriptStructure,
+): ManuscriptState => {
+    const normalized = normalizeManuscriptStructure(
+        structure,
+        state.chapters.map((chapter) => chapter.id),
+    );
+    const orderedIds = flattenManuscriptDocuments(normalized);
+    const orderById = new Map(orderedIds.map((id, index) => [id, index]));
+
+    return {
+        chapters: state.chapters
+            .map((chapter) => {
+                const order = orderById.get(chapter.id) ?? chapter.order;
+                return order === chapter.order ? chapter : { ...chapter, order };
+            })
+            .sort((a, b) => a.order - b.order),
+        workspaceProject: state.workspaceProject
+            ? {
+                  ...state.workspaceProject,
+                  chapterIds: orderedIds,
+                  manuscriptStructure: normalized,
+                  updatedAt: new Date(),
+              }
+            : state.workspaceProject,
+    };
+};
+
+type SplitChapterResult = Awaited<
+    ReturnType<RendererApi["manuscript"]["splitChapter"]>
+>;
+type MergeChaptersResult = Awaited<
+    ReturnType<RendererApi["manuscript"]["mergeChapters"]>
+>;
+
+/** The last merge, kept so it can be split apart again. */
+type ChapterMergeRecord = {
+    /** The two chapters as they were before the merge. */
+    first: WorkspaceChapter;
+    second: WorkspaceChapter;
+    /** The merged text, to tell whether it was edited since. */
+    mergedContent: string;
+    /** Events that were linked to the merged-in chapter. */
+    eventIds: string[];
+    /** Documents whose references to the merged-in chapter were moved. */
+    references: ReplaceUndoEntry[];
+};
+
+type ChapterRewriteState = Pick<
+    AppStore,
+    | "chapters"
+    | "workspaceProject"
+    | "scrapNotes"
+    | "events"
+    | "commentThreads"
+    | "activeDocument"
+    | "openTabs"
+    | "externalContentRevisions"
+>;
+
+const bumpContentRevisions = (
+    revisions: Record<string, number>,
+    ids: string[],
+): Record<string, number> => {
+    const next = { ...revisions };
+    ids.forEach((id) => {
+        next[id] = (next[id] ?? 0) + 1;
+    });
+    return next;
+};
+
+const replaceCommentThreads = (
+    threads: WorkspaceCommentThread[],
+    updated: WorkspaceCommentThread[],
+): WorkspaceCommentThread[] => {
+    const updatedById = new Map(updated.map((thread) => [thread.id, thread]));
+    return threads.map((thread) => updatedById.get(thread.id) ?? thread);
+};
+
+const replaceEvents = (
+    events: WorkspaceEvent[],
+    updated: WorkspaceEvent[],
+): WorkspaceEvent[] => {
+    const updatedById = new Map(updated.map((event) => [event.id, event]));
+    return events.map((event) => updatedById.get(event.id) ?? event);
+};
+
+/** Mirrors a split chapter and its new neighbour on the open project. */
+const applySplitLocally = (
+    state: ChapterRewriteState,
+    result: SplitChapterResult,
+): Partial<ChapterRewriteState> => ({
+    ...applyManuscriptStructureLocally(
+        {
+            workspaceProject: state.workspaceProject,
+            chapters: [
+                ...state.chapters
+                    .filter((chapter) => chapter.id !== result.newChapter.id)
+                    .map((chapter) =>
+                        chapter.id === result.chapter.id
+                            ? result.chapter
+                            : chapter,
+                    ),
+                result.newChapter,
+            ],
+        },
+        result.structure,
+    ),
+    events: replaceEvents(state.events, result.events),
+    commentThreads: replaceCommentThreads(
+        state.commentThreads,
+        result.commentThreads,
+    ),
+    externalContentRevisions: bumpContentRevisions(
+        state.externalContentRevisions,
+        [result.chapter.id],
+    ),
+});
+
+/**
+ * Mirrors a merge on the open project. Tabs on the removed chapter switch to
+ * the merged one, where its text now lives.
+ */
+const applyMergeLocally = (
+    state: ChapterRewriteState,
+    result: MergeChaptersResult,
+): Partial<ChapterRewriteState> => {
+    const removedId = result.removedChapter.id;
+    const updatedChapters = new Map(
+        [result.chapter, ...result.retargetedChapters].map((chapter) => [
+            chapter.id,
+            chapter,
+        ]),
+    );
+    const updatedNotes = new Map(
+        result.retargetedScrapNotes.map((note) => [note.id, note]),
+    );
+    const mergedRef: WorkspaceDocumentRef = {
+        kind: "chapter",
+        id: result.chapter.id,
+    };
+    const isRemoved = (ref: WorkspaceDocumentRef | null) =>
+        ref?.kind === "chapter" && ref.id === removedId;
+
+    const openTabs = state.openTabs.filter((tab) => !isRemoved(tab));
+    if (
+        state.openTabs.some((tab) => isRemoved(tab)) &&
+        !openTabs.some(
+            (tab) => tab.kind === "chapter" && tab.id === mergedRef.id,
+        )
+    ) {
+        openTabs.push(mergedRef);
+    }
+
+    return {
+        ...applyManuscriptStructureLocally(
+            {
+                workspaceProject: state.workspaceProject,
+                chapters: state.chapters
+                    .filter((chapter) => chapter.id !== removedId)
+                    .map(
+                        (chapter) => updatedChapters.get(chapter.id) ?? chapter,
+                    ),
+            },
+            result.structure,
+        ),
+        scrapNotes: state.scrapNotes.map(
+            (note) => updatedNotes.get(note.id) ?? note,
+        ),
+        events: replaceEvents(state.events, result.events),
+        commentThreads: replaceCommentThreads(
+            state.commentThreads,
+            result.commentThreads,
+        ),
+        activeDocument: isRemoved(state.activeDocument)
+            ? mergedRef
+            : state.activeDocument,
+        openTabs,
+        externalContentRevisions: bumpContentRevisions(
+            state.externalContentRevisions,
+            [...updatedChapters.keys(), ...updatedNotes.keys()],
+        ),
+    };
+};
+
 const findParentLocationId = (
     locationId: string,
     locations: WorkspaceLocation[],
@@ -643,11 +982,17 @@ type AppStore = {
     metafieldDefinitions: WorkspaceMetafieldDefinition[];
     metafieldAssignments: WorkspaceMetafieldAssignment[];
     editorTemplates: WorkspaceEditorTemplate[];
+    /** Comment threads on every chapter, including resolved ones. */
+    commentThreads: WorkspaceCommentThread[];
+    /** Words the spell checker accepts in every project of this user. */
+    userDictionary: string[];
     assets: WorkspaceAssets;
     activeDocument: WorkspaceDocumentRef | null;
     openTabs: WorkspaceDocumentRef[];
     workspaceViewMode: WorkspaceViewMode;
     setWorkspaceViewMode: (mode: WorkspaceViewMode) => void;
+    manuscriptViewMode: ManuscriptViewMode;
+    setManuscriptViewMode: (mode: ManuscriptViewMode) => void;
     autosaveStatus: AutosaveStatus;
     autosaveError: string | null;
     cloudSyncError: string | null;
@@ -680,6 +1025,11 @@ type AppStore = {
     pendingEditsById: Record<string, PendingChapterEdit>;
     archivedEditsById: Record<string, PendingChapterEdit>;
     dirtyDocumentEditors: Record<string, WorkspaceDocumentRef>;
+    /**
+     * Bumped per document whenever its text is replaced outside its editor,
+     * such as by a split or merge, so open editors load it again.
+     */
+    externalContentRevisions: Record<string, number>;
 
     currentSelection: {
         text: string;
@@ -730,7 +1080,12 @@ type AppStore = {
     loadProjects: (userId?: string) => Promise<void>;
     setProjectsError: (message: string | null) => void;
     createProject: (params: { title: string }) => Promise<void>;
-    importProject: () => Promise<void>;
+    importProject: (format?: ProjectImportSource) => Promise<void>;
+    /**
+     * Appends chapters from a file to the open project. Resolves to the
+     * number of chapters added, or null if the user cancelled.
+     */
+    importChapters: (format: ImportProjectFormat) => Promise<number | null>;
     openProject: (project: ProjectSummary) => Promise<void>;
     reloadActiveProject: () => Promise<void>;
     setProjectSelectionError: (message: string | null) => void;
@@ -776,19 +1131,105 @@ type AppStore = {
         editorType: WorkspaceEditorTemplateType,
     ) => WorkspaceEditorTemplate | null;
     reloadProjectTemplateData: (targetProjectId?: string) => Promise<void>;
-    createChapterEntry: (order?: number) => Promise<void>;
+    /** Adds a chapter, or a scene when `parentId` is a chapter. */
+    createChapterEntry: (
+        order?: number,
+        parentId?: string | null,
+    ) => Promise<void>;
     createScrapNoteEntry: () => Promise<void>;
     createCharacterEntry: () => Promise<void>;
     createLocationEntry: () => Promise<void>;
     createOrganizationEntry: () => Promise<void>;
     deleteProject: (projectId: string) => Promise<void>;
     renameProject: (projectId: string, title: string) => Promise<void>;
+    saveExportSettings: (settings: ExportSettings) => Promise<void>;
+    saveWritingGoals: (goals: Omit<WritingGoals, "log">) => Promise<void>;
+    saveProjectDictionary: (dictionary: ProjectDictionary) => Promise<void>;
+    loadUserDictionary: () => Promise<void>;
+    saveUserDictionary: (words: string[]) => Promise<void>;
+    saveGrammarSettings: (settings: GrammarSettings) => Promise<void>;
+    /**
+     * Checks text with LanguageTool in the project's language, or the
+     * chapter's when it has its own, leaving out dictionary words, entity
+     * names and aliases, and rules disabled for the project.
+     */
+    checkGrammar: (
+        request: Pick<GrammarCheckRequest, "text">,
+        chapterId?: string | null,
+    ) => Promise<LanguageToolResponse>;
+    /**
+     * Checks every chapter and scene in the main process. Resolves with what
+     * was checked when the run is cancelled.
+     */
+    checkManuscriptGrammar: (
+        runId: string,
+        onProgress: (progress: ManuscriptGrammarProgress) => void,
+    ) => Promise<ManuscriptGrammarReport>;
+    cancelManuscriptGrammar: (runId: string) => Promise<void>;
     deleteChapter: (chapterId: string) => Promise<void>;
     deleteScrapNote: (scrapNoteId: string) => Promise<void>;
     deleteCharacter: (characterId: string) => Promise<void>;
     deleteLocation: (locationId: string) => Promise<void>;
     deleteOrganization: (organizationId: string) => Promise<void>;
-    reorderChapters: (newOrder: string[]) => Promise<void>;
+    saveManuscriptStructure: (structure: ManuscriptStructure) => Promise<void>;
+    moveManuscriptNode: (params: {
+        nodeId: string;
+        targetNodeId: string;
+        dropMode: "before" | "inside" | "after";
+    }) => Promise<void>;
+    createManuscriptPart: () => Promise<void>;
+    renameManuscriptPart: (partId: string, title: string) => Promise<void>;
+    deleteManuscriptPart: (partId: string) => Promise<void>;
+    /**
+     * Splits a chapter in two at the editor's cursor; the text after it moves
+     * to a new chapter right behind. The toast offers an undo.
+     */
+    splitChapter: (params: {
+        chapterId: string;
+        headContent: string;
+        tailContent: string;
+    }) => Promise<void>;
+    /**
+     * Merges the next chapter into this one. The toast and the binder offer
+     * an undo.
+     */
+    mergeChapterWithNext: (chapterId: string) => Promise<void>;
+    lastChapterMerge: ChapterMergeRecord | null;
+    /**
+     * Splits the last merge apart again and points the moved references back
+     * at the merged-in chapter. Nothing changes when the merged chapter was
+     * edited since, and references in documents edited since stay.
+     */
+    undoChapterMerge: () => Promise<void>;
+    saveChapterMetadata: (
+        chapterId: string,
+        payload: Parameters<
+            RendererApi["logistics"]["saveChapterMetadata"]
+        >[0]["payload"],
+    ) => Promise<void>;
+    /**
+     * Opens a comment thread on a chapter. Inline threads pass the id of the
+     * `inlineComment` mark that highlights their passage. Resolves to whether
+     * the thread was saved; one that was not is taken back out of the list.
+     */
+    createCommentThread: (params: {
+        id: string;
+        chapterId: string;
+        text: string;
+        excerpt?: string;
+        isChapterLevel?: boolean;
+    }) => Promise<boolean>;
+    replyToCommentThread: (threadId: string, text: string) => Promise<void>;
+    setCommentThreadResolved: (
+        threadId: string,
+        resolved: boolean,
+    ) => Promise<void>;
+    editCommentMessage: (
+        threadId: string,
+        messageId: string,
+        text: string,
+    ) => Promise<void>;
+    deleteCommentThread: (threadId: string) => Promise<void>;
     reorderScrapNotes: (newOrder: string[]) => Promise<void>;
     reorderCharacters: (newOrder: string[]) => Promise<void>;
     reorderLocations: (newOrder: string[]) => Promise<void>;
@@ -820,6 +1261,12 @@ type AppStore = {
     ) => void;
     pendingTitleFocusDocument: WorkspaceDocumentRef | null;
     consumePendingTitleFocus: (selection: WorkspaceDocumentRef) => boolean;
+    pendingDocumentReveal: WorkspaceDocumentReveal | null;
+    /** Opens a document and selects a range in it. */
+    revealInDocument: (reveal: WorkspaceDocumentReveal) => void;
+    consumePendingDocumentReveal: (
+        selection: WorkspaceDocumentRef,
+    ) => WorkspaceDocumentReveal | null;
     renamingDocument: { id: string; kind: string } | null;
     setRenamingDocument: (doc: { id: string; kind: string } | null) => void;
     closeProject: () => void;
@@ -830,6 +1277,8 @@ type AppStore = {
 
     // IPC wrappers: keep renderer calls centralized here.
     exportManuscript: RendererApi["project"]["exportManuscript"];
+    exportProjectArchive: RendererApi["project"]["exportProjectArchive"];
+    exportWorldBible: RendererApi["project"]["exportWorldBible"];
     analyzeText: RendererApi["analysis"]["analyzeText"];
     editChapters: RendererApi["analysis"]["editChapters"];
     generalChat: RendererApi["analysis"]["generalChat"];
@@ -837,6 +1286,9 @@ type AppStore = {
     loadChatMessages: RendererApi["analysis"]["loadChatMessages"];
     saveChapterContent: RendererApi["logistics"]["saveChapterContent"];
     updateScrapNoteRemote: RendererApi["manuscript"]["updateScrapNote"];
+    createChapterSnapshot: RendererApi["manuscript"]["createChapterSnapshot"];
+    loadChapterHistory: RendererApi["manuscript"]["loadChapterHistory"];
+    saveChapterHistorySettings: RendererApi["manuscript"]["saveChapterHistorySettings"];
     saveCharacterInfo: RendererApi["logistics"]["saveCharacterInfo"];
     saveLocationInfo: RendererApi["logistics"]["saveLocationInfo"];
     reorderLocationChildren: RendererApi["logistics"]["reorderLocationChildren"];
@@ -905,9 +1357,23 @@ type AppStore = {
     updateAccountPassword: RendererApi["auth"]["updatePassword"];
     resetPasswordSuccess: boolean;
     globalFind: (request: GlobalFindRequest) => Promise<GlobalFindResponse>;
+    /** Results most relevant first, from the project's search index. */
+    searchProject: (
+        request: ProjectSearchRequest,
+    ) => Promise<GlobalFindResponse>;
+    /** Every hit a replace would change; throws on an invalid pattern. */
+    previewGlobalReplace: (
+        request: GlobalFindAndReplaceRequest,
+    ) => GlobalReplacePreview;
     globalFindAndReplace: (
         request: GlobalFindAndReplaceRequest,
     ) => Promise<GlobalFindAndReplaceResponse>;
+    lastGlobalReplace: GlobalReplaceRecord | null;
+    /**
+     * Restores every text the last replace changed. Texts edited since are
+     * left as they are.
+     */
+    undoGlobalReplace: () => Promise<UndoGlobalReplaceResponse>;
 };
 
 export const useAppStore = create<AppStore>((set, get) => {
@@ -921,6 +1387,124 @@ export const useAppStore = create<AppStore>((set, get) => {
         }
     };
 
+    /** Pattern for a project-wide replace; throws when it cannot run. */
+    const resolveReplacePattern = (request: GlobalFindAndReplaceRequest) => {
+        const projectId = get().projectId.trim();
+        if (!projectId) {
+            throw new Error("Project is not open.");
+        }
+
+        if (request.projectId.trim() !== projectId) {
+            throw new Error("Find/replace request project mismatch.");
+        }
+
+        if (!request.find) {
+            throw new Error("Find term cannot be empty.");
+        }
+
+        const options: SearchPatternOptions = {
+            caseSensitive: request.caseSensitive ?? false,
+            useRegex: request.useRegex ?? false,
+            wholeWord: request.wholeWord ?? false,
+        };
+        const patternError = getSearchPatternError(request.find, options);
+        if (patternError) {
+            throw new Error(patternError);
+        }
+
+        return {
+            regex: buildSearchRegex(request.find, options),
+            replacement: request.replace,
+            useRegex: options.useRegex,
+        };
+    };
+
+    /** Writes text a project-wide replace changed, locally and remotely. */
+    const writeReplacedText = async (
+        scope: GlobalSearchScope,
+        id: string,
+        content: string,
+    ): Promise<void> => {
+        const projectId = get().projectId;
+
+        switch (scope) {
+            case "chapter":
+                get().updateChapterLocally(id, {
+                    content,
+                    updatedAt: new Date(),
+                });
+                await get().saveChapterContent({
+                    projectId,
+                    chapterId: id,
+                    content,
+                });
+                return;
+            case "scrapNote":
+                get().updateScrapNoteLocally(id, {
+                    content,
+                    updatedAt: new Date(),
+                });
+                await get().updateScrapNoteRemote({
+                    scrapNoteId: id,
+                    content,
+                });
+                return;
+            case "character":
+                get().updateCharacterLocally(id, { description: content });
+                await rendererApi.logistics.saveCharacterInfo({
+                    characterId: id,
+                    payload: { description: content },
+                });
+                return;
+            case "location":
+                get().updateLocationLocally(id, { description: content });
+                await rendererApi.logistics.saveLocationInfo({
+                    projectId,
+                    locationId: id,
+                    payload: { description: content },
+                });
+                return;
+            case "organization":
+                get().updateOrganizationLocally(id, { description: content });
+                await rendererApi.logistics.saveOrganizationInfo({
+                    organizationId: id,
+                    payload: { description: content },
+                });
+                return;
+            case "metafield":
+                get().updateMetafieldAssignmentLocally(id, {
+                    valueJson: content,
+                });
+                await rendererApi.metafield.saveMetafieldValue({
+                    assignmentId: id,
+                    value: content,
+                });
+                return;
+        }
+    };
+
+    /** Reloads open editors showing documents a replace rewrote. */
+    const reloadReplacedDocuments = (
+        entries: { scope: GlobalSearchScope; id: string }[],
+    ) => {
+        const ids = entries
+            .filter(
+                (entry) =>
+                    entry.scope === "chapter" || entry.scope === "scrapNote",
+            )
+            .map((entry) => entry.id);
+        if (ids.length === 0) {
+            return;
+        }
+
+        set((state) => ({
+            externalContentRevisions: bumpContentRevisions(
+                state.externalContentRevisions,
+                ids,
+            ),
+        }));
+    };
+
     const buildTemplateDerivedOptimisticAssignments = (
         projectId: string,
         entityType: "character" | "location" | "organization",
@@ -996,7 +1580,9 @@ export const useAppStore = create<AppStore>((set, get) => {
         | "metafieldDefinitions"
         | "metafieldAssignments"
         | "editorTemplates"
+        | "commentThreads"
         | "workspaceViewMode"
+        | "manuscriptViewMode"
         | "assets"
         | "activeDocument"
         | "openTabs"
@@ -1010,7 +1596,11 @@ export const useAppStore = create<AppStore>((set, get) => {
         | "pendingEditsById"
         | "archivedEditsById"
         | "dirtyDocumentEditors"
+        | "externalContentRevisions"
         | "pendingTitleFocusDocument"
+        | "pendingDocumentReveal"
+        | "lastGlobalReplace"
+        | "lastChapterMerge"
     > => ({
         projectId: "",
         activeProjectName: "",
@@ -1026,7 +1616,9 @@ export const useAppStore = create<AppStore>((set, get) => {
         metafieldDefinitions: [] as WorkspaceMetafieldDefinition[],
         metafieldAssignments: [] as WorkspaceMetafieldAssignment[],
         editorTemplates: [] as WorkspaceEditorTemplate[],
+        commentThreads: [] as WorkspaceCommentThread[],
         workspaceViewMode: "manuscript",
+        manuscriptViewMode: "editor",
         assets: emptyAssets,
         activeDocument: null as WorkspaceDocumentRef | null,
         openTabs: [] as WorkspaceDocumentRef[],
@@ -1040,7 +1632,11 @@ export const useAppStore = create<AppStore>((set, get) => {
         pendingEditsById: {},
         archivedEditsById: {},
         dirtyDocumentEditors: {},
+        externalContentRevisions: {},
         pendingTitleFocusDocument: null,
+        pendingDocumentReveal: null,
+        lastGlobalReplace: null,
+        lastChapterMerge: null,
     });
 
     const applyGuestState = (
@@ -1178,6 +1774,30 @@ export const useAppStore = create<AppStore>((set, get) => {
         });
     };
 
+    const updateCommentThreadLocally = (
+        threadId: string,
+        update: (thread: WorkspaceCommentThread) => WorkspaceCommentThread,
+    ): void => {
+        set((state) => ({
+            commentThreads: state.commentThreads.map((thread) =>
+                thread.id === threadId ? update(thread) : thread,
+            ),
+        }));
+    };
+
+    /** Takes the saved thread, unless it was deleted in the meantime. */
+    const replaceCommentThread = (saved: WorkspaceCommentThread): void => {
+        updateCommentThreadLocally(saved.id, () => saved);
+    };
+
+    const reportCommentSyncError = (error: unknown, fallback: string) => {
+        const message =
+            createErrorMessage(error, fallback) +
+            "\n\nYour change was applied locally, but was NOT saved. Please check your internet connection and try again.";
+        set({ cloudSyncError: message });
+        alert(message);
+    };
+
     const applyTemplateSlices = (payload: OpenProjectPayload): void => {
         set({
             metafieldDefinitions: payload.metafieldDefinitions,
@@ -1588,6 +2208,20 @@ export const useAppStore = create<AppStore>((set, get) => {
                         );
                         break;
                     }
+                    case "commentThread": {
+                        const thread =
+                            data as unknown as WorkspaceCommentThread;
+                        set((state) => ({
+                            commentThreads: state.commentThreads.some(
+                                (t) => t.id === thread.id,
+                            )
+                                ? state.commentThreads.map((t) =>
+                                      t.id === thread.id ? thread : t,
+                                  )
+                                : [...state.commentThreads, thread],
+                        }));
+                        break;
+                    }
                     case "metafieldDefinition": {
                         const definition =
                             data as unknown as WorkspaceMetafieldDefinition;
@@ -1824,6 +2458,14 @@ export const useAppStore = create<AppStore>((set, get) => {
                         );
                         break;
                     }
+                    case "commentThread": {
+                        set((state) => ({
+                            commentThreads: state.commentThreads.filter(
+                                (t) => t.id !== entityId,
+                            ),
+                        }));
+                        break;
+                    }
                     case "metafieldDefinition": {
                         set((state) => ({
                             metafieldDefinitions:
@@ -1910,6 +2552,7 @@ export const useAppStore = create<AppStore>((set, get) => {
             metafieldDefinitions: payload.metafieldDefinitions,
             metafieldAssignments: payload.metafieldAssignments,
             editorTemplates: payload.editorTemplates,
+            commentThreads: payload.commentThreads,
             assets: indexedAssets,
             activeDocument: nextSelection,
             openTabs: nextSelection ? [nextSelection] : [],
@@ -1920,6 +2563,11 @@ export const useAppStore = create<AppStore>((set, get) => {
             pendingConflictQueue: [],
             lastSavedAt: null,
         });
+        get()
+            .loadUserDictionary()
+            .catch((error) => {
+                console.warn("Failed to load user dictionary", error);
+            });
         return payload;
     };
 
@@ -1960,7 +2608,10 @@ export const useAppStore = create<AppStore>((set, get) => {
         metafieldDefinitions: [],
         metafieldAssignments: [],
         editorTemplates: [],
+        commentThreads: [],
+        userDictionary: [],
         workspaceViewMode: "manuscript",
+        manuscriptViewMode: "editor",
         assets: emptyAssets,
         activeDocument: null,
         openTabs: [],
@@ -2221,17 +2872,16 @@ export const useAppStore = create<AppStore>((set, get) => {
                 });
             }
         },
-        importProject: async () => {
+        importProject: async (format = "epub") => {
             const userId = get().currentUserId.trim();
             if (!userId) {
                 throw new Error("User session missing");
             }
 
-            const result = await window.fileDialog.showOpenDialog({
-                title: "Import EPUB",
-                filters: [{ name: "EPUB Files", extensions: ["epub"] }],
-                properties: ["openFile"],
-            });
+            const source = IMPORT_SOURCES[format];
+            const result = await window.fileDialog.showOpenDialog(
+                source.dialog,
+            );
 
             if (result.canceled || result.filePaths.length === 0) {
                 return;
@@ -2248,16 +2898,24 @@ export const useAppStore = create<AppStore>((set, get) => {
             );
 
             try {
-                await rendererApi.project.importProject({
-                    userId,
-                    filePath,
-                });
+                if (format === "archive") {
+                    await rendererApi.project.importProjectArchive({
+                        userId,
+                        filePath,
+                    });
+                } else {
+                    await rendererApi.project.importProject({
+                        userId,
+                        filePath,
+                        format,
+                    });
+                }
                 await get().loadProjects(userId);
             } catch (error) {
                 set({
                     projectsError: createErrorMessage(
                         error,
-                        "Failed to import EPUB.",
+                        `Failed to import ${source.label}.`,
                     ),
                 });
             } finally {
@@ -2265,6 +2923,44 @@ export const useAppStore = create<AppStore>((set, get) => {
                 set({ isImporting: false, importProgress: 0 });
             }
         },
+        importChapters: async (format) => {
+            const userId = get().currentUserId.trim();
+            const projectId = get().projectId.trim();
+            if (!userId || !projectId) {
+                throw new Error("Open a project before importing chapters.");
+            }
+
+            const result = await window.fileDialog.showOpenDialog(
+                IMPORT_SOURCES[format].dialog,
+            );
+            if (result.canceled || result.filePaths.length === 0) {
+                return null;
+            }
+
+            // Persist the open chapter before the workspace is reloaded
+            await get().flushActiveDocumentContent();
+
+            set({ isImporting: true, importProgress: 0 });
+            const unsubscribe = window.importEvents.onProgress(
+                ({ progress }) => {
+                    set({ importProgress: progress });
+                },
+            );
+
+            try {
+                const response = await rendererApi.project.importProject({
+                    userId,
+                    filePath: result.filePaths[0],
+                    format,
+                    projectId,
+                });
+                await loadProjectWorkspace(projectId);
+                return response.chapterCount;
+            } finally {
+                unsubscribe();
+                set({ isImporting: false, importProgress: 0 });
+            }
+        },
         openProject: async (project) => {
             if (!confirmDiscardPendingEdits()) {
                 return;
@@ -2310,7 +3006,8 @@ export const useAppStore = create<AppStore>((set, get) => {
                 );
                 if (!chapter) return;
 
-                await rendererApi.logistics.saveChapterContent({
+                await get().saveChapterContent({
+                    projectId,
                     chapterId: chapter.id,
                     content: chapter.content,
                 });
@@ -2363,6 +3060,7 @@ export const useAppStore = create<AppStore>((set, get) => {
                 organizations: [],
                 scrapNotes: [],
                 editorTemplates: [],
+                commentThreads: [],
                 assets: emptyAssets,
                 activeDocument: null,
                 autosaveStatus: defaultAutosaveStatus,
@@ -2396,6 +3094,8 @@ export const useAppStore = create<AppStore>((set, get) => {
                     openTabs: exists
                         ? state.openTabs
                         : [...state.openTabs, selection],
+                    // Opening a document always shows it in the editor
+                    manuscriptViewMode: "editor",
                     autosaveStatus: defaultAutosaveStatus,
                     autosaveError: null,
                 };
@@ -2526,45 +3226,39 @@ export const useAppStore = create<AppStore>((set, get) => {
         reloadProjectTemplateData: async (targetProjectId) => {
             await reloadProjectTemplateDataFromRepository(targetProjectId);
         },
-        createChapterEntry: async (order) => {
+        createChapterEntry: async (order, parentId) => {
             const projectId = get().projectId.trim();
             if (!projectId) {
                 throw new Error("Open a project before creating chapters.");
             }
 
-            const existing = get()
-                .chapters.slice()
-                .sort((a, b) => a.order - b.order);
+            const structure = getManuscriptStructure(get());
+            const parent = parentId
+                ? (findManuscriptNode(structure, parentId)?.node ?? null)
+                : null;
+            const type = getDocumentNodeType(parent?.type ?? null);
+            if ((parentId && !parent) || !type) {
+                throw new Error("Choose a part or chapter to add to.");
+            }
+
+            const existingCount = get().chapters.length;
             const requestedOrder =
-                typeof order === "number" ? Math.floor(order) : existing.length;
+                typeof order === "number" ? Math.floor(order) : existingCount;
             const normalizedOrder = Math.max(0, requestedOrder);
-            const insertIndex = Math.min(normalizedOrder, existing.length);
+            const insertIndex = Math.min(normalizedOrder, existingCount);
 
             const now = new Date();
             const id = generateOptimisticId();
+            const nextStructure = insertManuscriptNode(
+                structure,
+                { id, type, children: [] },
+                parent?.id ?? null,
+                parent
+                    ? parent.children.length
+                    : getRootIndexForDocument(structure, insertIndex),
+            );
 
             set((state) => {
-                const sorted = state.chapters
-                    .slice()
-                    .sort((a, b) => a.order - b.order);
-
-                sorted.splice(insertIndex, 0, {
-                    id,
-                    title: "New Chapter",
-                    order: insertIndex,
-                    content: "",
-                    eventId: null,
-                    createdAt: now,
-                    updatedAt: now,
-                });
-
-                const nextChapters = sorted.map((chapter, index) => {
-                    if (chapter.order === index) {
-                        return chapter;
-                    }
-                    return { ...chapter, order: index, updatedAt: now };
-                });
-
                 const nextTab: WorkspaceDocumentRef = { kind: "chapter", id };
                 const nextTabs = state.openTabs.some(
                     (t) => t.kind === "chapter" && t.id === id,
@@ -2572,17 +3266,33 @@ export const useAppStore = create<AppStore>((set, get) => {
                     ? state.openTabs
                     : [...state.openTabs, nextTab];
 
-                const nextProject = state.workspaceProject
-                    ? {
-                          ...state.workspaceProject,
-                          chapterIds: nextChapters.map((c) => c.id),
-                          updatedAt: now,
-                      }
-                    : state.workspaceProject;
-
                 return {
-                    workspaceProject: nextProject,
-                    chapters: nextChapters,
+                    ...applyManuscriptStructureLocally(
+                        {
+                            workspaceProject: state.workspaceProject,
+                            chapters: [
+                                ...state.chapters,
+                                {
+                                    id,
+                                    title:
+                                        type === "scene"
+                                            ? "New Scene"
+                                            : "New Chapter",
+                                    order: insertIndex,
+                                    content: "",
+                                    eventId: null,
+                                    status: "draft",
+                                    povCharacterId: null,
+                                    synopsis: "",
+                                    labels: [],
+                                    tags: [],
+                                    createdAt: now,
+                                    updatedAt: now,
+                                },
+                            ],
+                        },
+                        nextStructure,
+                    ),
                     activeDocument: nextTab,
                     openTabs: nextTabs,
                 };
@@ -2592,6 +3302,7 @@ export const useAppStore = create<AppStore>((set, get) => {
                 rendererApi.manuscript.createChapter({
                     projectId,
                     order: insertIndex,
+                    parentId: parent?.id ?? null,
                     id,
                 }),
                 (error) => {
@@ -2697,6 +3408,7 @@ export const useAppStore = create<AppStore>((set, get) => {
                         id,
                         name: "",
                         description: "",
+                        aliases: [],
                         currentLocationId: null,
                         backgroundLocationId: null,
                         organizationId: null,
@@ -2788,6 +3500,7 @@ export const useAppStore = create<AppStore>((set, get) => {
                         id,
                         name: "",
                         description: "",
+                        aliases: [],
                         createdAt: now,
                         updatedAt: now,
                         bgmId: null,
@@ -2881,6 +3594,7 @@ export const useAppStore = create<AppStore>((set, get) => {
                         id,
                         name: "",
                         description: "",
+                        aliases: [],
                         locationIds: [],
                         galleryImageIds: [],
                         playlistId: null,
@@ -2993,78 +3707,194 @@ export const useAppStore = create<AppStore>((set, get) => {
                 });
             }
         },
-        deleteChapter: async (chapterId) => {
-            const projectId = get().projectId.trim();
+        saveExportSettings: async (settings) => {
+            const { projectId } = get();
             if (!projectId) {
-                throw new Error("Open a project before deleting chapters.");
+                return;
             }
-
-            set((state) => {
-                const filtered = state.chapters.filter(
-                    (c) => c.id !== chapterId,
-                );
-
-                // Re-index orders to close the gap
-                const nextChapters = filtered
-                    .sort((a, b) => a.order - b.order)
-                    .map((c, index) => ({ ...c, order: index }));
-
-                const nextTabs = state.openTabs.filter(
-                    (t) => !(t.kind === "chapter" && t.id === chapterId),
-                );
-
-                let nextActive = state.activeDocument;
-                if (
-                    state.activeDocument?.kind === "chapter" &&
-                    state.activeDocument.id === chapterId
-                ) {
-                    nextActive =
-                        nextTabs.length > 0
-                            ? nextTabs[nextTabs.length - 1]
-                            : null;
-                }
-
-                const nextProject = state.workspaceProject
-                    ? {
-                          ...state.workspaceProject,
-                          chapterIds: state.workspaceProject.chapterIds.filter(
-                              (id) => id !== chapterId,
-                          ),
-                          updatedAt: new Date(),
-                      }
-                    : state.workspaceProject;
-
-                return {
-                    workspaceProject: nextProject,
-                    chapters: nextChapters,
-                    activeDocument: nextActive,
-                    openTabs: nextTabs,
-                };
+            const saved = await rendererApi.project.saveExportSettings({
+                projectId,
+                settings,
             });
-
-            runInBackground(
-                rendererApi.manuscript.deleteChapter({
-                    projectId,
-                    chapterId,
-                }),
-                (error) => {
-                    const message =
-                        createErrorMessage(
-                            error,
-                            "Failed to delete chapter in the cloud.",
-                        ) +
-                        "\n\nThe chapter was deleted locally, but was NOT deleted in the cloud. Please resolve sync conflicts or retry online.";
-                    set({ cloudSyncError: message });
-                    alert(message);
-                },
-            );
+            set((state) => ({
+                workspaceProject: state.workspaceProject
+                    ? { ...state.workspaceProject, exportSettings: saved }
+                    : state.workspaceProject,
+            }));
         },
-        deleteScrapNote: async (scrapNoteId) => {
-            const projectId = get().projectId.trim();
+        saveWritingGoals: async (goals) => {
+            const { projectId } = get();
             if (!projectId) {
-                throw new Error("Open a project before deleting scrap notes.");
+                return;
             }
-
+            const saved = await rendererApi.project.saveWritingGoals({
+                projectId,
+                goals,
+            });
+            set((state) => ({
+                workspaceProject: state.workspaceProject
+                    ? { ...state.workspaceProject, writingGoals: saved }
+                    : state.workspaceProject,
+            }));
+        },
+        saveProjectDictionary: async (dictionary) => {
+            const { projectId } = get();
+            if (!projectId) {
+                return;
+            }
+            const saved = await rendererApi.project.saveProjectDictionary({
+                projectId,
+                dictionary,
+            });
+            set((state) => ({
+                workspaceProject: state.workspaceProject
+                    ? { ...state.workspaceProject, dictionary: saved }
+                    : state.workspaceProject,
+            }));
+        },
+        loadUserDictionary: async () => {
+            const userId = get().currentUserId.trim();
+            if (!userId) {
+                set({ userDictionary: [] });
+                return;
+            }
+            const words = await rendererApi.logistics.loadUserDictionary({
+                userId,
+            });
+            set({ userDictionary: words });
+        },
+        saveUserDictionary: async (words) => {
+            const userId = get().currentUserId.trim();
+            if (!userId) {
+                return;
+            }
+            const saved = await rendererApi.logistics.saveUserDictionary({
+                userId,
+                words,
+            });
+            set({ userDictionary: saved });
+        },
+        saveGrammarSettings: async (settings) => {
+            const { projectId } = get();
+            if (!projectId) {
+                return;
+            }
+            const saved = await rendererApi.project.saveGrammarSettings({
+                projectId,
+                settings,
+            });
+            set((state) => ({
+                workspaceProject: state.workspaceProject
+                    ? { ...state.workspaceProject, grammarSettings: saved }
+                    : state.workspaceProject,
+            }));
+        },
+        checkGrammar: async (request, chapterId) => {
+            const state = get();
+            return rendererApi.analysis.checkGrammar({
+                ...request,
+                ...resolveGrammarCheckOptions(
+                    state.workspaceProject?.grammarSettings ?? null,
+                    chapterId,
+                ),
+                exceptions: getGrammarExceptions(state),
+            });
+        },
+        checkManuscriptGrammar: async (runId, onProgress) => {
+            const projectId = get().projectId.trim();
+            if (!projectId) {
+                throw new Error("Open a project before checking grammar.");
+            }
+
+            // The report reads chapters from storage, so save the open one
+            await get().flushActiveDocumentContent();
+            const unsubscribe = window.grammarReportEvents.onProgress(
+                (progress) => {
+                    if (progress.runId === runId) {
+                        onProgress(progress);
+                    }
+                },
+            );
+            try {
+                return await rendererApi.analysis.checkManuscriptGrammar({
+                    projectId,
+                    runId,
+                    exceptions: getGrammarExceptions(get()),
+                });
+            } finally {
+                unsubscribe();
+            }
+        },
+        cancelManuscriptGrammar: async (runId) => {
+            await rendererApi.analysis.cancelManuscriptGrammar({ runId });
+        },
+        deleteChapter: async (chapterId) => {
+            const projectId = get().projectId.trim();
+            if (!projectId) {
+                throw new Error("Open a project before deleting chapters.");
+            }
+
+            set((state) => {
+                // Re-index orders to close the gap; scenes of a deleted
+                // chapter move up to take its place
+                const manuscript = applyManuscriptStructureLocally(
+                    {
+                        workspaceProject: state.workspaceProject,
+                        chapters: state.chapters.filter(
+                            (c) => c.id !== chapterId,
+                        ),
+                    },
+                    getManuscriptStructure(state),
+                );
+
+                const nextTabs = state.openTabs.filter(
+                    (t) => !(t.kind === "chapter" && t.id === chapterId),
+                );
+
+                let nextActive = state.activeDocument;
+                if (
+                    state.activeDocument?.kind === "chapter" &&
+                    state.activeDocument.id === chapterId
+                ) {
+                    nextActive =
+                        nextTabs.length > 0
+                            ? nextTabs[nextTabs.length - 1]
+                            : null;
+                }
+
+                return {
+                    ...manuscript,
+                    commentThreads: state.commentThreads.filter(
+                        (thread) => thread.chapterId !== chapterId,
+                    ),
+                    activeDocument: nextActive,
+                    openTabs: nextTabs,
+                };
+            });
+
+            runInBackground(
+                rendererApi.manuscript.deleteChapter({
+                    projectId,
+                    chapterId,
+                }),
+                (error) => {
+                    const message =
+                        createErrorMessage(
+                            error,
+                            "Failed to delete chapter in the cloud.",
+                        ) +
+                        "\n\nThe chapter was deleted locally, but was NOT deleted in the cloud. Please resolve sync conflicts or retry online.";
+                    set({ cloudSyncError: message });
+                    alert(message);
+                },
+            );
+        },
+        deleteScrapNote: async (scrapNoteId) => {
+            const projectId = get().projectId.trim();
+            if (!projectId) {
+                throw new Error("Open a project before deleting scrap notes.");
+            }
+
             set((state) => {
                 const nextNotes = state.scrapNotes.filter(
                     (n) => n.id !== scrapNoteId,
@@ -3157,6 +3987,11 @@ export const useAppStore = create<AppStore>((set, get) => {
                 return {
                     workspaceProject: nextProject,
                     characters: nextCharacters,
+                    chapters: state.chapters.map((chapter) =>
+                        chapter.povCharacterId === characterId
+                            ? { ...chapter, povCharacterId: null }
+                            : chapter,
+                    ),
                     activeDocument: nextActive,
                     openTabs: nextTabs,
                 };
@@ -3335,40 +4170,363 @@ export const useAppStore = create<AppStore>((set, get) => {
                 },
             );
         },
-        reorderChapters: async (newOrder) => {
+        saveManuscriptStructure: async (structure) => {
             const projectId = get().projectId.trim();
             if (!projectId) return;
 
             // Optimistic update
-            set((state) => {
-                const chapterMap = new Map(
-                    state.chapters.map((c) => [c.id, c]),
-                );
-                const reordered = newOrder
-                    .map((id, index) => {
-                        const chapter = chapterMap.get(id);
-                        if (chapter) {
-                            return { ...chapter, order: index };
-                        }
-                        return null;
-                    })
-                    .filter((c): c is WorkspaceChapter => c !== null);
-
-                return { chapters: reordered };
-            });
+            set((state) => applyManuscriptStructureLocally(state, structure));
 
             try {
                 await rendererApi.logistics.saveManuscriptStructure({
                     projectId,
-                    orderedChapterIds: newOrder,
+                    structure: getManuscriptStructure(get()),
                 });
             } catch (error) {
                 set({
                     autosaveError: createErrorMessage(
                         error,
-                        "Failed to save chapter order.",
+                        "Failed to save manuscript structure.",
+                    ),
+                });
+            }
+        },
+        moveManuscriptNode: async ({ nodeId, targetNodeId, dropMode }) => {
+            if (nodeId === targetNodeId) {
+                return;
+            }
+
+            const structure = getManuscriptStructure(get());
+            const { structure: remaining } = removeManuscriptNode(
+                structure,
+                nodeId,
+            );
+            const target = findManuscriptNode(remaining, targetNodeId);
+            if (!target) {
+                // Dropped onto itself or something nested inside it
+                return;
+            }
+
+            const parentId =
+                dropMode === "inside"
+                    ? target.node.id
+                    : (target.parent?.id ?? null);
+            const index =
+                dropMode === "inside"
+                    ? target.node.children.length
+                    : target.index + (dropMode === "after" ? 1 : 0);
+
+            let nextStructure: ManuscriptStructure;
+            try {
+                nextStructure = moveManuscriptNode(
+                    structure,
+                    nodeId,
+                    parentId,
+                    index,
+                );
+            } catch (error) {
+                set({
+                    autosaveError: createErrorMessage(
+                        error,
+                        "That item cannot be moved there.",
+                    ),
+                });
+                return;
+            }
+
+            await get().saveManuscriptStructure(nextStructure);
+        },
+        createManuscriptPart: async () => {
+            const structure = getManuscriptStructure(get());
+            await get().saveManuscriptStructure([
+                ...structure,
+                {
+                    id: generateOptimisticId(),
+                    type: "part",
+                    title: "New Part",
+                    children: [],
+                },
+            ]);
+        },
+        renameManuscriptPart: async (partId, title) => {
+            const structure = getManuscriptStructure(get());
+            await get().saveManuscriptStructure(
+                structure.map((node) =>
+                    node.id === partId ? { ...node, title } : node,
+                ),
+            );
+        },
+        deleteManuscriptPart: async (partId) => {
+            // The part's chapters stay, moved up to where the part was
+            const structure = getManuscriptStructure(get());
+            await get().saveManuscriptStructure(
+                structure.flatMap((node) =>
+                    node.id === partId ? node.children : [node],
+                ),
+            );
+        },
+        splitChapter: async ({ chapterId, headContent, tailContent }) => {
+            const projectId = get().projectId.trim();
+            const original = get().chapters.find((c) => c.id === chapterId);
+            if (!projectId || !original) {
+                return;
+            }
+
+            let result: SplitChapterResult;
+            try {
+                result = await rendererApi.manuscript.splitChapter({
+                    projectId,
+                    chapterId,
+                    headContent,
+                    tailContent,
+                });
+            } catch (error) {
+                showToast({
+                    variant: "error",
+                    title: "Could not split chapter",
+                    description: createErrorMessage(
+                        error,
+                        "Failed to split the chapter.",
+                    ),
+                    durationMs: 4500,
+                });
+                return;
+            }
+
+            set((state) => applySplitLocally(state, result));
+
+            const toastId = showToast({
+                variant: "success",
+                title: "Chapter split",
+                description: `The rest continues in "${result.newChapter.title}".`,
+                durationMs: 8000,
+                actionLabel: "Undo",
+                onAction: () => {
+                    dismissToast(toastId);
+                    // Merging back with the text from before the split puts
+                    // the chapter back exactly as it was
+                    rendererApi.manuscript
+                        .mergeChapters({
+                            projectId,
+                            chapterId,
+                            nextChapterId: result.newChapter.id,
+                            content: original.content,
+                        })
+                        .then((undone) =>
+                            set((state) => applyMergeLocally(state, undone)),
+                        )
+                        .catch((error) => {
+                            showToast({
+                                variant: "error",
+                                title: "Could not undo split",
+                                description: createErrorMessage(
+                                    error,
+                                    "Failed to undo the split.",
+                                ),
+                                durationMs: 4500,
+                            });
+                        });
+                },
+            });
+        },
+        mergeChapterWithNext: async (chapterId) => {
+            const projectId = get().projectId.trim();
+            if (!projectId) {
+                return;
+            }
+
+            const showMergeError = (error: unknown) =>
+                showToast({
+                    variant: "error",
+                    title: "Could not merge chapters",
+                    description: createErrorMessage(
+                        error,
+                        "Failed to merge the chapters.",
                     ),
+                    durationMs: 4500,
                 });
+
+            const location = findManuscriptNode(
+                getManuscriptStructure(get()),
+                chapterId,
+            );
+            const siblings = location?.parent
+                ? location.parent.children
+                : getManuscriptStructure(get());
+            const nextNode = location
+                ? siblings[location.index + 1]
+                : undefined;
+            const { chapters, scrapNotes } = get();
+            const first = chapters.find((c) => c.id === chapterId);
+            const second = nextNode
+                ? chapters.find((c) => c.id === nextNode.id)
+                : undefined;
+            if (!first || !second) {
+                showMergeError(
+                    new Error("There is no next chapter to merge with."),
+                );
+                return;
+            }
+
+            let result: MergeChaptersResult;
+            try {
+                // Join what the editors hold, which may be ahead of autosave
+                result = await rendererApi.manuscript.mergeChapters({
+                    projectId,
+                    chapterId,
+                    nextChapterId: second.id,
+                    content: joinChapterContents(first.content, second.content),
+                });
+            } catch (error) {
+                showMergeError(error);
+                return;
+            }
+
+            // The texts from before the merge, for putting moved references
+            // back on undo
+            const references: ReplaceUndoEntry[] = [
+                ...result.retargetedChapters.flatMap((chapter) => {
+                    const before = chapters.find((c) => c.id === chapter.id);
+                    return before
+                        ? [
+                              {
+                                  scope: "chapter" as const,
+                                  id: chapter.id,
+                                  before: before.content,
+                                  after: chapter.content,
+                              },
+                          ]
+                        : [];
+                }),
+                ...result.retargetedScrapNotes.flatMap((note) => {
+                    const before = scrapNotes.find((n) => n.id === note.id);
+                    return before
+                        ? [
+                              {
+                                  scope: "scrapNote" as const,
+                                  id: note.id,
+                                  before: before.content,
+                                  after: note.content,
+                              },
+                          ]
+                        : [];
+                }),
+            ];
+
+            set((state) => ({
+                ...applyMergeLocally(state, result),
+                lastChapterMerge: {
+                    first,
+                    second,
+                    mergedContent: result.chapter.content,
+                    eventIds: result.events.map((event) => event.id),
+                    references,
+                },
+            }));
+
+            const toastId = showToast({
+                variant: "success",
+                title: "Chapters merged",
+                description: `"${second.title}" is now part of "${first.title}".`,
+                durationMs: 8000,
+                actionLabel: "Undo",
+                onAction: () => {
+                    dismissToast(toastId);
+                    void get().undoChapterMerge();
+                },
+            });
+        },
+        lastChapterMerge: null,
+        undoChapterMerge: async () => {
+            const projectId = get().projectId.trim();
+            const record = get().lastChapterMerge;
+            if (!projectId || !record) {
+                return;
+            }
+
+            const showUndoError = (error: unknown) =>
+                showToast({
+                    variant: "error",
+                    title: "Could not undo merge",
+                    description: createErrorMessage(
+                        error,
+                        "Failed to undo the merge.",
+                    ),
+                    durationMs: 4500,
+                });
+
+            const { first, second } = record;
+            try {
+                await get().flushActiveDocumentContent();
+            } catch (error) {
+                showUndoError(error);
+                return;
+            }
+            set({ lastChapterMerge: null });
+
+            const merged = get().chapters.find((c) => c.id === first.id);
+            if (merged?.content !== record.mergedContent) {
+                showUndoError(
+                    new Error(
+                        `"${first.title}" was edited after the merge, so it is left as it is.`,
+                    ),
+                );
+                return;
+            }
+
+            // Split the two texts apart again and bring the merged-in chapter
+            // back with its ID, details and timeline links
+            let result: SplitChapterResult;
+            try {
+                result = await rendererApi.manuscript.splitChapter({
+                    projectId,
+                    chapterId: first.id,
+                    headContent: first.content,
+                    tailContent: second.content,
+                    newChapter: {
+                        id: second.id,
+                        title: second.title,
+                        eventId: second.eventId,
+                        status: second.status,
+                        povCharacterId: second.povCharacterId,
+                        synopsis: second.synopsis,
+                        labels: second.labels,
+                        tags: second.tags,
+                    },
+                    eventIds: record.eventIds,
+                    eventId: first.eventId,
+                });
+            } catch (error) {
+                showUndoError(error);
+                return;
+            }
+
+            set((state) => applySplitLocally(state, result));
+
+            const restored: ReplaceUndoEntry[] = [];
+            try {
+                for (const entry of record.references) {
+                    const current = collectReplaceTargets(get(), [
+                        entry.scope,
+                    ]).find((target) => target.id === entry.id);
+                    if (current?.content !== entry.after) {
+                        continue;
+                    }
+
+                    restored.push(entry);
+                    await writeReplacedText(
+                        entry.scope,
+                        entry.id,
+                        entry.before,
+                    );
+                }
+            } catch (error) {
+                showUndoError(error);
+            } finally {
+                if (restored.length > 0) {
+                    reloadReplacedDocuments(restored);
+                    get().setLastSavedAt(Date.now());
+                }
             }
         },
         reorderScrapNotes: async (newOrder) => {
@@ -3647,6 +4805,205 @@ export const useAppStore = create<AppStore>((set, get) => {
                 });
             }
         },
+        saveChapterMetadata: async (chapterId, payload) => {
+            // Optimistic update; the main process trims and dedupes the same way
+            set((state) => ({
+                chapters: state.chapters.map((chapter) =>
+                    chapter.id === chapterId
+                        ? {
+                              ...chapter,
+                              ...payload,
+                              synopsis:
+                                  payload.synopsis?.trim() ?? chapter.synopsis,
+                              tags: payload.tags
+                                  ? Array.from(
+                                        new Set(
+                                            payload.tags
+                                                .map((tag) => tag.trim())
+                                                .filter(Boolean),
+                                        ),
+                                    )
+                                  : chapter.tags,
+                              updatedAt: new Date(),
+                          }
+                        : chapter,
+                ),
+            }));
+
+            runInBackground(
+                rendererApi.logistics.saveChapterMetadata({
+                    chapterId,
+                    payload,
+                }),
+                (error) => {
+                    const message =
+                        createErrorMessage(
+                            error,
+                            "Failed to save chapter details to the cloud.",
+                        ) +
+                        "\n\nYour change was applied locally, but was NOT saved to the cloud. Please check your internet connection and try again.";
+                    set({ cloudSyncError: message });
+                    alert(message);
+                },
+            );
+        },
+        createCommentThread: async ({
+            id,
+            chapterId,
+            text,
+            excerpt = "",
+            isChapterLevel = false,
+        }) => {
+            const projectId = get().projectId.trim();
+            const trimmed = text.trim();
+            if (!projectId || !trimmed) return false;
+
+            const authorName = getCommentAuthorName(get().user);
+            const now = new Date();
+            set((state) => ({
+                commentThreads: [
+                    ...state.commentThreads.filter((t) => t.id !== id),
+                    {
+                        id,
+                        projectId,
+                        chapterId,
+                        excerpt: excerpt.trim(),
+                        isChapterLevel,
+                        resolved: false,
+                        messages: [
+                            {
+                                id: crypto.randomUUID(),
+                                authorName,
+                                text: trimmed,
+                                createdAt: now,
+                                updatedAt: now,
+                            },
+                        ],
+                        createdAt: now,
+                        updatedAt: now,
+                    },
+                ],
+            }));
+
+            try {
+                const { thread } =
+                    await rendererApi.manuscript.createCommentThread({
+                        projectId,
+                        chapterId,
+                        id,
+                        excerpt,
+                        isChapterLevel,
+                        authorName,
+                        text: trimmed,
+                    });
+                replaceCommentThread(thread);
+                return true;
+            } catch (error) {
+                set((state) => ({
+                    commentThreads: state.commentThreads.filter(
+                        (t) => t.id !== id,
+                    ),
+                }));
+                const message =
+                    createErrorMessage(error, "Failed to save comment.") +
+                    "\n\nThe comment was NOT saved. Please check your internet connection and try again.";
+                set({ cloudSyncError: message });
+                alert(message);
+                return false;
+            }
+        },
+        replyToCommentThread: async (threadId, text) => {
+            const trimmed = text.trim();
+            if (!trimmed) return;
+
+            const authorName = getCommentAuthorName(get().user);
+            const messageId = crypto.randomUUID();
+            const now = new Date();
+            updateCommentThreadLocally(threadId, (thread) => ({
+                ...thread,
+                resolved: false,
+                messages: [
+                    ...thread.messages,
+                    {
+                        id: messageId,
+                        authorName,
+                        text: trimmed,
+                        createdAt: now,
+                        updatedAt: now,
+                    },
+                ],
+                updatedAt: now,
+            }));
+
+            runInBackground(
+                rendererApi.manuscript
+                    .replyToCommentThread({
+                        threadId,
+                        id: messageId,
+                        authorName,
+                        text: trimmed,
+                    })
+                    .then(({ thread }) => replaceCommentThread(thread)),
+                (error) =>
+                    reportCommentSyncError(error, "Failed to save reply."),
+            );
+        },
+        setCommentThreadResolved: async (threadId, resolved) => {
+            updateCommentThreadLocally(threadId, (thread) => ({
+                ...thread,
+                resolved,
+                updatedAt: new Date(),
+            }));
+
+            runInBackground(
+                rendererApi.manuscript
+                    .setCommentThreadResolved({ threadId, resolved })
+                    .then(({ thread }) => replaceCommentThread(thread)),
+                (error) =>
+                    reportCommentSyncError(
+                        error,
+                        resolved
+                            ? "Failed to resolve comment."
+                            : "Failed to reopen comment.",
+                    ),
+            );
+        },
+        editCommentMessage: async (threadId, messageId, text) => {
+            const trimmed = text.trim();
+            if (!trimmed) return;
+
+            const now = new Date();
+            updateCommentThreadLocally(threadId, (thread) => ({
+                ...thread,
+                messages: thread.messages.map((message) =>
+                    message.id === messageId
+                        ? { ...message, text: trimmed, updatedAt: now }
+                        : message,
+                ),
+                updatedAt: now,
+            }));
+
+            runInBackground(
+                rendererApi.manuscript
+                    .editCommentMessage({ threadId, messageId, text: trimmed })
+                    .then(({ thread }) => replaceCommentThread(thread)),
+                (error) =>
+                    reportCommentSyncError(error, "Failed to save comment."),
+            );
+        },
+        deleteCommentThread: async (threadId) => {
+            set((state) => ({
+                commentThreads: state.commentThreads.filter(
+                    (thread) => thread.id !== threadId,
+                ),
+            }));
+
+            runInBackground(
+                rendererApi.manuscript.deleteCommentThread({ threadId }),
+                (error) =>
+                    reportCommentSyncError(error, "Failed to delete comment."),
+            );
+        },
         renameDocument: async (kind, id, newTitle) => {
             const { projectId } = get();
             if (!projectId) return;
@@ -3894,6 +5251,26 @@ export const useAppStore = create<AppStore>((set, get) => {
             }
             return false;
         },
+        pendingDocumentReveal: null,
+        revealInDocument: (reveal) => {
+            get().setActiveDocument({ kind: reveal.kind, id: reveal.id });
+            set({
+                workspaceViewMode: "manuscript",
+                pendingDocumentReveal: reveal,
+            });
+        },
+        consumePendingDocumentReveal: (selection) => {
+            const pending = get().pendingDocumentReveal;
+            if (
+                pending &&
+                pending.kind === selection.kind &&
+                pending.id === selection.id
+            ) {
+                set({ pendingDocumentReveal: null });
+                return pending;
+            }
+            return null;
+        },
         renamingDocument: null,
         setRenamingDocument: (doc) => set({ renamingDocument: doc }),
         closeProject: () => {
@@ -3918,6 +5295,7 @@ export const useAppStore = create<AppStore>((set, get) => {
         pendingEditsById: {},
         archivedEditsById: {},
         dirtyDocumentEditors: {},
+        externalContentRevisions: {},
         addPendingEdits: (payload) => {
             const createdAt = Date.now();
             const pendingById: Record<string, PendingChapterEdit> = {};
@@ -4185,6 +5563,12 @@ export const useAppStore = create<AppStore>((set, get) => {
         exportManuscript: async (request) => {
             return rendererApi.project.exportManuscript(request);
         },
+        exportProjectArchive: async (request) => {
+            return rendererApi.project.exportProjectArchive(request);
+        },
+        exportWorldBible: async (request) => {
+            return rendererApi.project.exportWorldBible(request);
+        },
         analyzeText: async (request) => {
             return rendererApi.analysis.analyzeText(request);
         },
@@ -4201,11 +5585,31 @@ export const useAppStore = create<AppStore>((set, get) => {
             return rendererApi.analysis.loadChatMessages(request);
         },
         saveChapterContent: async (request) => {
-            return rendererApi.logistics.saveChapterContent(request);
+            const response =
+                await rendererApi.logistics.saveChapterContent(request);
+            const { writingGoals } = response;
+            if (writingGoals) {
+                // Keep the footer's daily progress in step with the saved log
+                set((state) => ({
+                    workspaceProject: state.workspaceProject
+                        ? { ...state.workspaceProject, writingGoals }
+                        : state.workspaceProject,
+                }));
+            }
+            return response;
         },
         updateScrapNoteRemote: async (request) => {
             return rendererApi.manuscript.updateScrapNote(request);
         },
+        createChapterSnapshot: async (request) => {
+            return rendererApi.manuscript.createChapterSnapshot(request);
+        },
+        loadChapterHistory: async (request) => {
+            return rendererApi.manuscript.loadChapterHistory(request);
+        },
+        saveChapterHistorySettings: async (request) => {
+            return rendererApi.manuscript.saveChapterHistorySettings(request);
+        },
         saveCharacterInfo: async (request) => {
             return rendererApi.logistics.saveCharacterInfo(request);
         },
@@ -4423,11 +5827,37 @@ export const useAppStore = create<AppStore>((set, get) => {
                 throw new Error("Search request project mismatch.");
             }
 
-            const term = request.term.trim();
-            if (!term) {
+            const options: SearchPatternOptions = {
+                caseSensitive: request.caseSensitive ?? false,
+                useRegex: request.useRegex ?? false,
+                wholeWord: request.wholeWord ?? false,
+            };
+            // A regex may rely on its surrounding spaces
+            const term = options.useRegex ? request.term : request.term.trim();
+            if (!term.trim()) {
                 return { totalOccurrences: 0, results: [] };
             }
 
+            const patternError = getSearchPatternError(term, options);
+            if (patternError) {
+                throw new Error(patternError);
+            }
+
+            const scopes = new Set(request.scopes ?? ALL_GLOBAL_SEARCH_SCOPES);
+
+            // Text metafields are found through the entity they belong to
+            const metafieldText = new Map<string, string[]>();
+            if (scopes.has("metafield")) {
+                for (const target of collectReplaceTargets(get(), [
+                    "metafield",
+                ])) {
+                    metafieldText.set(target.documentId, [
+                        ...(metafieldText.get(target.documentId) ?? []),
+                        target.content,
+                    ]);
+                }
+            }
+
             const normalizeLabel = (
                 value: string | null | undefined,
                 fallback: string,
@@ -4474,11 +5904,22 @@ export const useAppStore = create<AppStore>((set, get) => {
                 binderIndex: index,
             }));
 
+            const entityContent = (
+                kind: GlobalSearchScope,
+                entity: { id: string; name: string; description: string },
+            ): string =>
+                joinParts([
+                    ...(scopes.has(kind)
+                        ? [entity.name, entity.description]
+                        : []),
+                    ...(metafieldText.get(entity.id) ?? []),
+                ]);
+
             const characterDocs = get().characters.map((character, index) => ({
                 kind: "character" as const,
                 id: character.id,
                 title: normalizeLabel(character.name, "Untitled Character"),
-                content: joinParts([character.name, character.description]),
+                content: entityContent("character", character),
                 contentFormat: "plain" as const,
                 binderIndex: index,
             }));
@@ -4487,7 +5928,7 @@ export const useAppStore = create<AppStore>((set, get) => {
                 kind: "location" as const,
                 id: location.id,
                 title: normalizeLabel(location.name, "Untitled Location"),
-                content: joinParts([location.name, location.description]),
+                content: entityContent("location", location),
                 contentFormat: "plain" as const,
                 binderIndex: index,
             }));
@@ -4496,14 +5937,14 @@ export const useAppStore = create<AppStore>((set, get) => {
                 kind: "organization" as const,
                 id: org.id,
                 title: normalizeLabel(org.name, "Untitled Organization"),
-                content: joinParts([org.name, org.description]),
+                content: entityContent("organization", org),
                 contentFormat: "plain" as const,
                 binderIndex: index,
             }));
 
             const docs: SearchDocumentSnapshot[] = [
-                ...chapterDocs,
-                ...scrapNoteDocs,
+                ...(scopes.has("chapter") ? chapterDocs : []),
+                ...(scopes.has("scrapNote") ? scrapNoteDocs : []),
                 ...characterDocs,
                 ...locationDocs,
                 ...organizationDocs,
@@ -4512,151 +5953,187 @@ export const useAppStore = create<AppStore>((set, get) => {
             return globalSearchEngine.globalFind({
                 docs,
                 term,
-                caseSensitive: request.caseSensitive ?? false,
+                options,
             });
         },
-        globalFindAndReplace: async (request) => {
-            const currentProjectId = get().projectId.trim();
-            if (!currentProjectId) {
+        searchProject: async (request) => {
+            const projectId = get().projectId.trim();
+            if (!projectId) {
                 throw new Error("Project is not open.");
             }
 
-            if (request.projectId.trim() !== currentProjectId) {
-                throw new Error("Find/replace request project mismatch.");
+            if (request.projectId.trim() !== projectId) {
+                throw new Error("Search request project mismatch.");
             }
 
-            const find = request.find;
-            if (!find) {
-                throw new Error("Find term cannot be empty.");
+            if (!request.query.trim()) {
+                return { totalOccurrences: 0, results: [] };
             }
 
-            const escapeRegExp = (term: string): string => {
-                return term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-            };
-
-            const flags = request.caseSensitive ? "g" : "gi";
-            const regex = new RegExp(escapeRegExp(find), flags);
+            // The index is updated as documents are saved
+            await get().flushActiveDocumentContent();
 
-            const replaceInJson = (
-                node: unknown,
-                regex: RegExp,
-                replaceText: string,
-            ): number => {
-                let count = 0;
+            const hits = await rendererApi.project.searchProject({
+                projectId,
+                query: request.query,
+                kinds: request.kinds,
+            });
 
-                if (!node || typeof node !== "object") {
-                    return 0;
+            // Titles and binder positions come from the open project
+            const listed = new Map<
+                string,
+                { title: string; binderIndex: number }
+            >();
+            const sectionSizes = new Map<string, number>();
+            for (const target of collectReplaceTargets(
+                get(),
+                ALL_GLOBAL_SEARCH_SCOPES,
+            )) {
+                if (target.scope === "metafield") {
+                    continue;
                 }
+                const binderIndex = sectionSizes.get(target.kind) ?? 0;
+                sectionSizes.set(target.kind, binderIndex + 1);
+                listed.set(target.documentId, {
+                    title: target.title,
+                    binderIndex,
+                });
+            }
 
-                const candidate = node as {
-                    type?: unknown;
-                    text?: unknown;
-                    content?: unknown;
-                };
-
-                if (
-                    candidate.type === "text" &&
-                    typeof candidate.text === "string"
-                ) {
-                    const matches = candidate.text.match(regex);
-                    if (matches && matches.length > 0) {
-                        count += matches.length;
-                        const replaced = candidate.text.replace(
-                            regex,
-                            replaceText,
-                        );
-                        (node as { text?: string }).text = replaced;
-                    }
-                    return count;
-                }
+            const results = hits.flatMap((hit) => {
+                const document = listed.get(hit.documentId);
+                return document
+                    ? [
+                          {
+                              kind: hit.kind,
+                              documentId: hit.documentId,
+                              title: document.title,
+                              binderIndex: document.binderIndex,
+                              occurrences: hit.occurrences,
+                              snippet: hit.snippet,
+                          },
+                      ]
+                    : [];
+            });
 
-                if (Array.isArray(candidate.content)) {
-                    for (const child of candidate.content) {
-                        count += replaceInJson(child, regex, replaceText);
-                    }
-                }
-                return count;
+            return {
+                totalOccurrences: results.reduce(
+                    (total, result) => total + result.occurrences,
+                    0,
+                ),
+                results,
             };
+        },
+        previewGlobalReplace: (request) => {
+            const pattern = resolveReplacePattern(request);
+            const targets = collectReplaceTargets(
+                get(),
+                request.scopes ?? ALL_GLOBAL_SEARCH_SCOPES,
+            );
+            return { hits: collectReplaceHits(targets, pattern) };
+        },
+        globalFindAndReplace: async (request) => {
+            const pattern = resolveReplacePattern(request);
 
-            let replacements = 0;
+            // Hit ids count matches in the saved text, so save the open one
+            await get().flushActiveDocumentContent();
 
-            for (const chapter of get().chapters) {
-                let newContent = chapter.content;
-                let matchCount = 0;
+            const targets = collectReplaceTargets(
+                get(),
+                request.scopes ?? ALL_GLOBAL_SEARCH_SCOPES,
+            );
+            const excludedHitIds = new Set(request.excludedHitIds ?? []);
 
-                try {
-                    const json = JSON.parse(chapter.content);
-                    matchCount = replaceInJson(json, regex, request.replace);
-                    if (matchCount > 0) {
-                        newContent = JSON.stringify(json);
-                    }
-                } catch {
-                    const matches = chapter.content.match(regex);
-                    if (matches && matches.length > 0) {
-                        matchCount = matches.length;
-                        newContent = chapter.content.replace(
-                            regex,
-                            request.replace,
-                        );
-                    }
+            let replacements = 0;
+            const changes: GlobalReplaceRecord["entries"] = [];
+            for (const target of targets) {
+                const { content, count } = applyReplaceHits(
+                    target,
+                    pattern,
+                    excludedHitIds,
+                );
+                if (count > 0) {
+                    replacements += count;
+                    changes.push({
+                        scope: target.scope,
+                        id: target.id,
+                        before: target.content,
+                        after: content,
+                    });
                 }
+            }
 
-                if (matchCount > 0) {
-                    replacements += matchCount;
-                    get().updateChapterLocally(chapter.id, {
-                        content: newContent,
-                        updatedAt: new Date(),
-                    });
-                    await get().saveChapterContent({
-                        chapterId: chapter.id,
-                        content: newContent,
+            const written: GlobalReplaceRecord["entries"] = [];
+            try {
+                for (const change of changes) {
+                    written.push(change);
+                    await writeReplacedText(
+                        change.scope,
+                        change.id,
+                        change.after,
+                    );
+                }
+            } finally {
+                // Whatever was written can be undone, even after a failure
+                if (written.length > 0) {
+                    set({
+                        lastGlobalReplace: {
+                            find: request.find,
+                            replace: request.replace,
+                            entries: written,
+                        },
                     });
+                    reloadReplacedDocuments(written);
+                    get().setLastSavedAt(Date.now());
                 }
             }
 
-            for (const note of get().scrapNotes) {
-                let newContent = note.content;
-                let matchCount = 0;
+            return { replacements };
+        },
+        lastGlobalReplace: null,
+        undoGlobalReplace: async () => {
+            const record = get().lastGlobalReplace;
+            if (!record) {
+                return { restored: 0, skipped: 0 };
+            }
 
-                try {
-                    const json = JSON.parse(note.content);
-                    matchCount = replaceInJson(json, regex, request.replace);
-                    if (matchCount > 0) {
-                        newContent = JSON.stringify(json);
-                    }
-                } catch {
-                    const matches = note.content.match(regex);
-                    if (matches && matches.length > 0) {
-                        matchCount = matches.length;
-                        newContent = note.content.replace(
-                            regex,
-                            request.replace,
-                        );
+            await get().flushActiveDocumentContent();
+            set({ lastGlobalReplace: null });
+
+            let skipped = 0;
+            const restored: GlobalReplaceRecord["entries"] = [];
+            try {
+                for (const entry of record.entries) {
+                    const current = collectReplaceTargets(get(), [
+                        entry.scope,
+                    ]).find((target) => target.id === entry.id);
+                    if (current?.content !== entry.after) {
+                        skipped += 1;
+                        continue;
                     }
-                }
 
-                if (matchCount > 0) {
-                    replacements += matchCount;
-                    get().updateScrapNoteLocally(note.id, {
-                        content: newContent,
-                        updatedAt: new Date(),
-                    });
-                    await get().updateScrapNoteRemote({
-                        scrapNoteId: note.id,
-                        content: newContent,
-                    });
+                    restored.push(entry);
+                    await writeReplacedText(
+                        entry.scope,
+                        entry.id,
+                        entry.before,
+                    );
+                }
+            } finally {
+                if (restored.length > 0) {
+                    reloadReplacedDocuments(restored);
+                    get().setLastSavedAt(Date.now());
                 }
             }
 
-            if (replacements > 0) {
-                get().setLastSavedAt(Date.now());
-            }
-
-            return { replacements };
+            return { restored: restored.length, skipped };
         },
         setWorkspaceViewMode: (mode: WorkspaceViewMode) => {
             set({ workspaceViewMode: mode });
         },
+        setManuscriptViewMode: (mode: ManuscriptViewMode) => {
+            set({ manuscriptViewMode: mode });
+        },
 
         openSettings: () => {
             const currentStage = get().stage;
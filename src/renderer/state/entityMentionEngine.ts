@@ -0,0 +1,172 @@
+import {
+    buildEntityAppearanceIndex,
+    type EntityAppearanceIndex,
+    type EntityAppearanceSource,
+} from "../utils/entityAppearances";
+import {
+    findEntityMentions,
+    type EntityMention,
+    type EntityMentionBlock,
+    type EntityMentionCandidate,
+} from "../utils/entityMentions";
+
+type WorkerScanMessage = {
+    type: "scan";
+    requestId: number;
+    blocks: EntityMentionBlock[];
+    candidates: EntityMentionCandidate[];
+};
+
+type WorkerIndexMessage = {
+    type: "index";
+    requestId: number;
+    sources: EntityAppearanceSource[];
+    candidates: EntityMentionCandidate[];
+};
+
+type WorkerScanResultMessage = {
+    type: "scanResult";
+    requestId: number;
+    mentions: EntityMention[];
+};
+
+type WorkerIndexResultMessage = {
+    type: "indexResult";
+    requestId: number;
+    index: EntityAppearanceIndex;
+};
+
+type WorkerErrorMessage = {
+    type: "error";
+    requestId: number;
+    error: string;
+};
+
+type WorkerMessage =
+    | WorkerScanResultMessage
+    | WorkerIndexResultMessage
+    | WorkerErrorMessage;
+
+type PendingRequest = {
+    resolve: (message: WorkerMessage) => void;
+    reject: (error: Error) => void;
+};
+
+/**
+ * Finds entity mentions off the main thread so long chapters do not slow
+ * typing down. Work runs on the main thread if the worker cannot start.
+ */
+export class EntityMentionEngine {
+    private worker: Worker | null = null;
+    private nextRequestId = 1;
+    private pending = new Map<number, PendingRequest>();
+    private workerDisabled = false;
+
+    private ensureWorker(): Worker | null {
+        if (this.workerDisabled) {
+            return null;
+        }
+
+        if (this.worker) {
+            return this.worker;
+        }
+
+        try {
+            this.worker = new Worker(
+                new URL("../workers/entityMentionWorker.ts", import.meta.url),
+                { type: "module" },
+            );
+            this.worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+                const message = event.data;
+                const pending = this.pending.get(message.requestId);
+                if (!pending) {
+                    return;
+                }
+                this.pending.delete(message.requestId);
+
+                if (message.type === "error") {
+                    pending.reject(new Error(message.error));
+                    return;
+                }
+
+                pending.resolve(message);
+            };
+            this.worker.onerror = () => {
+                this.workerDisabled = true;
+                this.worker?.terminate();
+                this.worker = null;
+                for (const [, pending] of this.pending) {
+                    pending.reject(new Error("Mention worker crashed."));
+                }
+                this.pending.clear();
+            };
+            return this.worker;
+        } catch {
+            this.workerDisabled = true;
+            this.worker = null;
+            return null;
+        }
+    }
+
+    private post(
+        worker: Worker,
+        message: WorkerScanMessage | WorkerIndexMessage,
+    ): Promise<WorkerMessage> {
+        return new Promise<WorkerMessage>((resolve, reject) => {
+            this.pending.set(message.requestId, { resolve, reject });
+
+            try {
+                worker.postMessage(message);
+            } catch (error) {
+                this.pending.delete(message.requestId);
+                reject(
+                    error instanceof Error
+                        ? error
+                        : new Error("Mention scan failed."),
+                );
+            }
+        });
+    }
+
+    async scan(params: {
+        blocks: EntityMentionBlock[];
+        candidates: EntityMentionCandidate[];
+    }): Promise<EntityMention[]> {
+        const worker = this.ensureWorker();
+        if (!worker) {
+            return findEntityMentions(params.blocks, params.candidates);
+        }
+
+        const response = await this.post(worker, {
+            type: "scan",
+            requestId: this.nextRequestId++,
+            blocks: params.blocks,
+            candidates: params.candidates,
+        });
+        return response.type === "scanResult" ? response.mentions : [];
+    }
+
+    /** Where every entity appears across the given documents. */
+    async indexAppearances(params: {
+        sources: EntityAppearanceSource[];
+        candidates: EntityMentionCandidate[];
+    }): Promise<EntityAppearanceIndex> {
+        const worker = this.ensureWorker();
+        if (!worker) {
+            return buildEntityAppearanceIndex(
+                params.sources,
+                params.candidates,
+            );
+        }
+
+        const response = await this.post(worker, {
+            type: "index",
+            requestId: this.nextRequestId++,
+            sources: params.sources,
+            candidates: params.candidates,
+        });
+        return response.type === "indexResult" ? response.index : {};
+    }
+}
+
+export const entityMentionEngine = new EntityMentionEngine();
@@ -0,0 +1,325 @@
+import type {
+    WorkspaceChapter,
+    WorkspaceCharacter,
+    WorkspaceLocation,
+    WorkspaceMetafieldAssignment,
+    WorkspaceMetafieldDefinition,
+    WorkspaceOrganization,
+    WorkspaceScrapNote,
+} from "../types";
+import { expandReplacement, findMatches } from "../utils/searchPattern";
+import { buildSnippet } from "./globalSearchEngine";
+import type {
+    GlobalReplaceHit,
+    GlobalSearchScope,
+    SearchContentFormat,
+    SearchDocumentKind,
+} from "./globalSearchTypes";
+
+/** Project text a replace can rewrite: a document's content or one field. */
+export type ReplaceTarget = {
+    scope: GlobalSearchScope;
+    /** The chapter, note or entity, or the metafield assignment. */
+    id: string;
+    kind: SearchDocumentKind;
+    documentId: string;
+    title: string;
+    content: string;
+    /** Entity descriptions are the HTML their rich text field saves. */
+    contentFormat: SearchContentFormat | "html";
+};
+
+export type ReplaceSources = {
+    chapters: WorkspaceChapter[];
+    scrapNotes: WorkspaceScrapNote[];
+    characters: WorkspaceCharacter[];
+    locations: WorkspaceLocation[];
+    organizations: WorkspaceOrganization[];
+    metafieldDefinitions: WorkspaceMetafieldDefinition[];
+    metafieldAssignments: WorkspaceMetafieldAssignment[];
+};
+
+type ReplacePattern = {
+    regex: RegExp;
+    replacement: string;
+    useRegex: boolean;
+};
+
+type TextNode = { type: "text"; text: string };
+
+const isTextNode = (node: unknown): node is TextNode =>
+    !!node &&
+    typeof node === "object" &&
+    (node as { type?: unknown }).type === "text" &&
+    typeof (node as { text?: unknown }).text === "string";
+
+const labelOr = (value: string | null | undefined, fallback: string) =>
+    value?.trim() || fallback;
+
+const hitId = (target: ReplaceTarget, ordinal: number) =>
+    `${target.scope}:${target.id}:${ordinal}`;
+
+/**
+ * The text a replace covers, in binder order. Entities contribute their
+ * descriptions; names are left to renaming.
+ */
+export const collectReplaceTargets = (
+    sources: ReplaceSources,
+    scopes: GlobalSearchScope[],
+): ReplaceTarget[] => {
+    const included = new Set(scopes);
+    const targets: ReplaceTarget[] = [];
+
+    if (included.has("chapter")) {
+        const chapters = sources.chapters
+            .slice()
+            .sort((a, b) => a.order - b.order);
+        for (const chapter of chapters) {
+            targets.push({
+                scope: "chapter",
+                id: chapter.id,
+                kind: "chapter",
+                documentId: chapter.id,
+                title: `${chapter.order + 1}. ${labelOr(
+                    chapter.title,
+                    "Untitled Chapter",
+                )}`,
+                content: chapter.content,
+                contentFormat: "tiptap-json",
+            });
+        }
+    }
+
+    if (included.has("scrapNote")) {
+        for (const note of sources.scrapNotes) {
+            targets.push({
+                scope: "scrapNote",
+                id: note.id,
+                kind: "scrapNote",
+                documentId: note.id,
+                title: labelOr(note.title, "Untitled Note"),
+                content: note.content,
+                contentFormat: "tiptap-json",
+            });
+        }
+    }
+
+    const entities = [
+        ...sources.characters.map((entity) => ({
+            kind: "character" as const,
+            entity,
+            title: labelOr(entity.name, "Untitled Character"),
+        })),
+        ...sources.locations.map((entity) => ({
+            kind: "location" as const,
+            entity,
+            title: labelOr(entity.name, "Untitled Location"),
+        })),
+        ...sources.organizations.map((entity) => ({
+            kind: "organization" as const,
+            entity,
+            title: labelOr(entity.name, "Untitled Organization"),
+        })),
+    ];
+
+    for (const { kind, entity, title } of entities) {
+        if (included.has(kind)) {
+            targets.push({
+                scope: kind,
+                id: entity.id,
+                kind,
+                documentId: entity.id,
+                title,
+                content: entity.description,
+                contentFormat: "html",
+            });
+        }
+    }
+
+    if (included.has("metafield")) {
+        const titles = new Map(
+            entities.map(({ entity, title }) => [entity.id, title]),
+        );
+        const textDefinitions = new Map(
+            sources.metafieldDefinitions
+                .filter((definition) => definition.valueType === "string")
+                .map((definition) => [definition.id, definition]),
+        );
+
+        for (const assignment of sources.metafieldAssignments) {
+            const definition = textDefinitions.get(assignment.definitionId);
+            const owner = titles.get(assignment.entityId);
+            if (
+                !definition ||
+                !owner ||
+                typeof assignment.valueJson !== "string"
+            ) {
+                continue;
+            }
+
+            targets.push({
+                scope: "metafield",
+                id: assignment.id,
+                kind: assignment.entityType,
+                documentId: assignment.entityId,
+                title: `${owner} · ${definition.name}`,
+                content: assignment.valueJson,
+                contentFormat: "plain",
+            });
+        }
+    }
+
+    return targets;
+};
+
+/** The text nodes of an HTML fragment, so tags and attributes never match. */
+const rewriteHtmlTextRuns = (
+    html: string,
+    visit: (text: string) => string,
+): string => {
+    const { body } = new DOMParser().parseFromString(html, "text/html");
+    const walker = body.ownerDocument.createTreeWalker(
+        body,
+        NodeFilter.SHOW_TEXT,
+    );
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        node.nodeValue = visit(node.nodeValue ?? "");
+    }
+    return body.innerHTML;
+};
+
+/**
+ * Passes each run of text to `visit` in reading order and writes back what
+ * it returns. Rich text is matched one text node at a time, like the
+ * editor's find bar, so formatting inside a match is never merged away.
+ */
+const rewriteTextRuns = (
+    target: ReplaceTarget,
+    visit: (text: string) => string,
+): string => {
+    if (target.contentFormat === "plain") {
+        return visit(target.content);
+    }
+    if (target.contentFormat === "html") {
+        return rewriteHtmlTextRuns(target.content, visit);
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(target.content);
+    } catch {
+        // Legacy plain text/HTML.
+        return visit(target.content);
+    }
+
+    const walk = (node: unknown): void => {
+        if (!node || typeof node !== "object") {
+            return;
+        }
+        if (isTextNode(node)) {
+            node.text = visit(node.text);
+            return;
+        }
+
+        const parent = node as { content?: unknown };
+        if (Array.isArray(parent.content)) {
+            parent.content.forEach(walk);
+            // Text nodes may not be empty once everything in them is replaced
+            parent.content = parent.content.filter(
+                (child) => !isTextNode(child) || child.text.length > 0,
+            );
+        }
+    };
+
+    walk(json);
+    return JSON.stringify(json);
+};
+
+/** Every match in the targets, with what it would be replaced by. */
+export const collectReplaceHits = (
+    targets: ReplaceTarget[],
+    pattern: ReplacePattern,
+): GlobalReplaceHit[] => {
+    const hits: GlobalReplaceHit[] = [];
+
+    for (const target of targets) {
+        let ordinal = 0;
+        rewriteTextRuns(target, (text) => {
+            for (const match of findMatches(text, pattern.regex)) {
+                hits.push({
+                    id: hitId(target, ordinal),
+                    scope: target.scope,
+                    kind: target.kind,
+                    documentId: target.documentId,
+                    title: target.title,
+                    snippet: buildSnippet(
+                        text,
+                        match.index ?? 0,
+                        match[0].length,
+                    ),
+                    replacement: expandReplacement(
+                        match,
+                        pattern.replacement,
+                        pattern.useRegex,
+                    ),
+                });
+                ordinal += 1;
+            }
+            return text;
+        });
+    }
+
+    return hits;
+};
+
+/**
+ * Rewrites one target, skipping excluded hits. Matches are numbered as in
+ * `collectReplaceHits`, so preview ids line up while the text is unchanged.
+ */
+export const applyReplaceHits = (
+    target: ReplaceTarget,
+    pattern: ReplacePattern,
+    excludedHitIds: Set<string>,
+): { content: string; count: number } => {
+    let ordinal = 0;
+    let count = 0;
+
+    const content = rewriteTextRuns(target, (text) => {
+        let result = "";
+        let lastIndex = 0;
+
+        for (const match of findMatches(text, pattern.regex)) {
+            const id = hitId(target, ordinal);
+            ordinal += 1;
+            if (excludedHitIds.has(id)) {
+                continue;
+            }
+
+            const index = match.index ?? 0;
+            result +=
+                text.slice(lastIndex, index) +
+                expandReplacement(match, pattern.replacement, pattern.useRegex);
+            lastIndex = index + match[0].length;
+            count += 1;
+        }
+
+        return result + text.slice(lastIndex);
+    });
+
+    return { content: count > 0 ? content : target.content, count };
+};
+
+/** One text a project-wide replace changed, as it was and as it became. */
+export type ReplaceUndoEntry = {
+    scope: GlobalSearchScope;
+    id: string;
+    before: string;
+    after: string;
+};
+
+/** The last project-wide replace, kept so it can be undone in one step. */
+export type GlobalReplaceRecord = {
+    find: string;
+    replace: string;
+    entries: ReplaceUndoEntry[];
+};
@@ -3,13 +3,18 @@ import type {
     GlobalFindSnippet,
     SearchDocumentSnapshot,
 } from "./globalSearchTypes";
+import {
+    buildSearchRegex,
+    findMatches,
+    type SearchPatternOptions,
+} from "../utils/searchPattern";
 
 type WorkerSearchMessage = {
     type: "search";
     requestId: number;
     docs: SearchDocumentSnapshot[];
     term: string;
-    caseSensitive: boolean;
+    options: SearchPatternOptions;
 };
 
 type WorkerSearchResultMessage = {
@@ -31,42 +36,6 @@ type PendingRequest = {
     reject: (error: Error) => void;
 };
 
-const countOccurrences = (
-    source: string,
-    term: string,
-    caseSensitive: boolean
-): number => {
-    if (!term) {
-        return 0;
-    }
-
-    const haystack = caseSensitive ? source : source.toLowerCase();
-    const needle = caseSensitive ? term : term.toLowerCase();
-
-    let index = haystack.indexOf(needle);
-    let count = 0;
-    while (index !== -1) {
-        count += 1;
-        index = haystack.indexOf(needle, index + needle.length);
-    }
-
-    return count;
-};
-
-const findFirstIndex = (
-    source: string,
-    term: string,
-    caseSensitive: boolean
-): number => {
-    if (!term) {
-        return -1;
-    }
-
-    const haystack = caseSensitive ? source : source.toLowerCase();
-    const needle = caseSensitive ? term : term.toLowerCase();
-    return haystack.indexOf(needle);
-};
-
 type TiptapNode = {
     type?: string;
     text?: string;
@@ -131,7 +100,7 @@ const normalizeSnippetPart = (value: string): string => {
     return value.replace(/\s+/g, " ");
 };
 
-const buildSnippet = (
+export const buildSnippet = (
     source: string,
     matchIndex: number,
     matchLength: number
@@ -162,47 +131,35 @@ const buildSnippet = (
 const computeGlobalFind = (
     docs: SearchDocumentSnapshot[],
     term: string,
-    caseSensitive: boolean
+    options: SearchPatternOptions
 ): GlobalFindResponse => {
     const trimmed = term.trim();
     if (!trimmed) {
         return { totalOccurrences: 0, results: [] };
     }
 
+    const regex = buildSearchRegex(trimmed, options);
     const results: GlobalFindResponse["results"] = [];
     let totalOccurrences = 0;
 
     for (const doc of docs) {
         const searchText = getSearchTextForDoc(doc);
-        const occurrences = countOccurrences(
-            searchText,
-            trimmed,
-            caseSensitive
-        );
-        if (occurrences > 0) {
-            const matchIndex = findFirstIndex(
-                searchText,
-                trimmed,
-                caseSensitive
-            );
+        const matches = findMatches(searchText, regex);
+        if (matches.length > 0) {
+            const [first] = matches;
 
-            totalOccurrences += occurrences;
+            totalOccurrences += matches.length;
             results.push({
                 kind: doc.kind,
                 documentId: doc.id,
                 title: doc.title,
                 binderIndex: doc.binderIndex,
-                occurrences,
-                snippet:
-                    matchIndex >= 0
-                        ? buildSnippet(searchText, matchIndex, trimmed.length)
-                        : {
-                              leadingEllipsis: false,
-                              before: "",
-                              match: "",
-                              after: "",
-                              trailingEllipsis: false,
-                          },
+                occurrences: matches.length,
+                snippet: buildSnippet(
+                    searchText,
+                    first.index ?? 0,
+                    first[0].length
+                ),
             });
         }
     }
@@ -265,14 +222,14 @@ export class GlobalSearchEngine {
     async globalFind(params: {
         docs: SearchDocumentSnapshot[];
         term: string;
-        caseSensitive: boolean;
+        options: SearchPatternOptions;
     }): Promise<GlobalFindResponse> {
         const worker = this.ensureWorker();
         if (!worker) {
             return computeGlobalFind(
                 params.docs,
                 params.term,
-                params.caseSensitive
+                params.options
             );
         }
 
@@ -282,7 +239,7 @@ export class GlobalSearchEngine {
             requestId,
             docs: params.docs,
             term: params.term,
-            caseSensitive: params.caseSensitive,
+            options: params.options,
         };
 
         return new Promise<GlobalFindResponse>((resolve, reject) => {
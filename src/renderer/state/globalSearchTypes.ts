@@ -7,6 +7,21 @@ export type SearchDocumentKind =
 
 export type SearchContentFormat = "tiptap-json" | "plain";
 
+/**
+ * Which project text a search covers. Entity scopes cover names and
+ * descriptions; "metafield" covers the text metafields of every entity.
+ */
+export type GlobalSearchScope = SearchDocumentKind | "metafield";
+
+export const ALL_GLOBAL_SEARCH_SCOPES: GlobalSearchScope[] = [
+    "chapter",
+    "scrapNote",
+    "character",
+    "location",
+    "organization",
+    "metafield",
+];
+
 export type SearchDocumentSnapshot = {
     kind: SearchDocumentKind;
     id: string;
@@ -32,6 +47,10 @@ export interface GlobalFindRequest {
     projectId: string;
     term: string;
     caseSensitive?: boolean;
+    useRegex?: boolean;
+    wholeWord?: boolean;
+    /** Defaults to every scope. */
+    scopes?: GlobalSearchScope[];
 }
 
 export interface GlobalFindResult {
@@ -48,13 +67,53 @@ export interface GlobalFindResponse {
     results: GlobalFindResult[];
 }
 
+/**
+ * A ranked search of the project's saved text through the main process's
+ * index. Words match by prefix and near misses; quoted words as a phrase.
+ */
+export interface ProjectSearchRequest {
+    projectId: string;
+    query: string;
+    /** Defaults to every kind. */
+    kinds?: SearchDocumentKind[];
+}
+
 export interface GlobalFindAndReplaceRequest {
     projectId: string;
     find: string;
     replace: string;
     caseSensitive?: boolean;
+    useRegex?: boolean;
+    wholeWord?: boolean;
+    /** Defaults to every scope. */
+    scopes?: GlobalSearchScope[];
+    /** Hits from the preview to leave as they are. */
+    excludedHitIds?: string[];
+}
+
+/** One match a project-wide replace would change. */
+export interface GlobalReplaceHit {
+    /** The text's scope and id plus the match's ordinal within it. */
+    id: string;
+    scope: GlobalSearchScope;
+    /** Where the hit opens: the document, or the entity owning a field. */
+    kind: SearchDocumentKind;
+    documentId: string;
+    title: string;
+    snippet: GlobalFindSnippet;
+    replacement: string;
+}
+
+export interface GlobalReplacePreview {
+    hits: GlobalReplaceHit[];
 }
 
 export interface GlobalFindAndReplaceResponse {
     replacements: number;
 }
+
+export interface UndoGlobalReplaceResponse {
+    restored: number;
+    /** Texts edited again since the replace, which were left alone. */
+    skipped: number;
+}
@@ -0,0 +1,552 @@
+/**
+ * Highlights character, location and organization names that appear in the
+ * text as plain words rather than as references. Clicking one offers to link
+ * it, link every mention of the same entity, or ignore it. The text is
+ * scanned in a worker shortly after typing stops.
+ */
+import { Extension } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import {
+    Plugin,
+    PluginKey,
+    type EditorState,
+    type Transaction,
+} from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
+import { Dexie } from "dexie";
+import tippy, { type Instance as TippyInstance } from "tippy.js";
+import { entityMentionEngine } from "../state/entityMentionEngine";
+import {
+    LEAF_PLACEHOLDER,
+    type EntityMention,
+    type EntityMentionBlock,
+    type EntityMentionCandidate,
+} from "../utils/entityMentions";
+
+export interface EntityMentionsOptions {
+    /** Nothing is scanned without a document; ignores are kept per document. */
+    documentId: string | null;
+    getCandidates: () => EntityMentionCandidate[];
+    mentionClass: string;
+}
+
+export interface EntityMentionsStorage {
+    /** Entity and text pairs the writer chose not to link. */
+    ignored: Set<string>;
+}
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        entityMentions: {
+            /**
+             * Turn the unlinked mention at a position into a reference.
+             */
+            linkEntityMention: (pos: number) => ReturnType;
+            /**
+             * Link every unlinked mention of an entity in the document.
+             */
+            linkAllEntityMentions: (entityId: string) => ReturnType;
+            /**
+             * Stop suggesting the mention's text for its entity in this
+             * document.
+             */
+            ignoreEntityMention: (pos: number) => ReturnType;
+            /**
+             * Scan again, for when names or aliases change.
+             */
+            refreshEntityMentions: () => ReturnType;
+        };
+    }
+}
+
+declare module "@tiptap/core" {
+    interface Storage {
+        entityMentions: EntityMentionsStorage;
+    }
+}
+
+interface IgnoredMention {
+    id?: number;
+    documentId: string;
+    entityId: string;
+    text: string;
+}
+
+class EntityMentionDB extends Dexie {
+    ignoredMentions!: Dexie.Table<IgnoredMention, number>;
+
+    constructor() {
+        super("EntityMentionIgnores");
+        this.version(1).stores({
+            ignoredMentions: `++id, [documentId+entityId+text], documentId`,
+        });
+    }
+}
+
+const db = new EntityMentionDB();
+
+const SCAN_DELAY_MS = 500;
+
+const KIND_LABELS: Record<EntityMention["kind"], string> = {
+    character: "Character",
+    location: "Location",
+    organization: "Organization",
+};
+
+type EntityMentionsState = {
+    decorations: DecorationSet;
+    /** Bumped to ask for a new scan without a document change. */
+    revision: number;
+};
+
+type EntityMentionsMeta =
+    | { type: "setMentions"; mentions: EntityMention[] }
+    | { type: "ignore"; entityId: string; text: string }
+    | { type: "refresh" };
+
+type FoundMention = {
+    from: number;
+    to: number;
+    mention: EntityMention;
+};
+
+export const entityMentionsPluginKey = new PluginKey<EntityMentionsState>(
+    "entityMentions",
+);
+
+const ignoreKey = (entityId: string, text: string): string =>
+    `${entityId}\n${text}`;
+
+/** Block text lined up with document positions, skipping code. */
+const collectBlocks = (doc: ProseMirrorNode): EntityMentionBlock[] => {
+    const blocks: EntityMentionBlock[] = [];
+    doc.descendants((node, pos) => {
+        if (!node.isTextblock) {
+            return true;
+        }
+        if (!node.type.spec.code) {
+            blocks.push({
+                from: pos + 1,
+                text: node.textBetween(
+                    0,
+                    node.content.size,
+                    undefined,
+                    LEAF_PLACEHOLDER,
+                ),
+            });
+        }
+        return false;
+    });
+    return blocks;
+};
+
+const findMentions = (
+    state: EditorState,
+    predicate: (mention: EntityMention) => boolean,
+): FoundMention[] => {
+    const decorations = entityMentionsPluginKey.getState(state)?.decorations;
+    return (decorations?.find() ?? [])
+        .map((decoration) => ({
+            from: decoration.from,
+            to: decoration.to,
+            mention: (decoration.spec as { mention: EntityMention }).mention,
+        }))
+        .filter(({ mention }) => predicate(mention));
+};
+
+const mentionAt = (state: EditorState, pos: number): FoundMention | null => {
+    const decorations = entityMentionsPluginKey.getState(state)?.decorations;
+    const [decoration] = decorations?.find(pos, pos) ?? [];
+    if (!decoration) {
+        return null;
+    }
+    return {
+        from: decoration.from,
+        to: decoration.to,
+        mention: (decoration.spec as { mention: EntityMention }).mention,
+    };
+};
+
+/**
+ * Replaces mentions with references, from the last one back so earlier
+ * positions stay valid. The reference keeps the words as written.
+ */
+const linkMentions = (tr: Transaction, mentions: FoundMention[]): void => {
+    const referenceType = tr.doc.type.schema.nodes.documentReference;
+    const sorted = [...mentions].sort((a, b) => b.from - a.from);
+    for (const { from, to, mention } of sorted) {
+        // Skips text edited since the scan
+        if (tr.doc.textBetween(from, to) !== mention.text) {
+            continue;
+        }
+        tr.replaceWith(
+            from,
+            to,
+            referenceType.create(
+                {
+                    id: mention.entityId,
+                    label: mention.text,
+                    kind: mention.kind,
+                },
+                null,
+                tr.doc.resolve(from + 1).marks(),
+            ),
+        );
+    }
+};
+
+export const EntityMentions = Extension.create<
+    EntityMentionsOptions,
+    EntityMentionsStorage
+>({
+    name: "entityMentions",
+
+    addOptions() {
+        return {
+            documentId: null,
+            getCandidates: () => [],
+            mentionClass: "entity-mention-unlinked",
+        };
+    },
+
+    addStorage() {
+        return {
+            ignored: new Set<string>(),
+        };
+    },
+
+    addCommands() {
+        return {
+            linkEntityMention:
+                (pos) =>
+                ({ state, tr, dispatch }) => {
+                    const found = mentionAt(state, pos);
+                    if (!found || !state.schema.nodes.documentReference) {
+                        return false;
+                    }
+
+                    if (dispatch) {
+                        linkMentions(tr, [found]);
+                    }
+                    return true;
+                },
+            linkAllEntityMentions:
+                (entityId) =>
+                ({ state, tr, dispatch }) => {
+                    const found = findMentions(
+                        state,
+                        (mention) => mention.entityId === entityId,
+                    );
+                    if (
+                        found.length === 0 ||
+                        !state.schema.nodes.documentReference
+                    ) {
+                        return false;
+                    }
+
+                    // One transaction, so a single undo unlinks them all
+                    if (dispatch) {
+                        linkMentions(tr, found);
+                    }
+                    return true;
+                },
+            ignoreEntityMention:
+                (pos) =>
+                ({ state, tr, dispatch }) => {
+                    const documentId = this.options.documentId;
+                    const found = mentionAt(state, pos);
+                    if (!found || !documentId) {
+                        return false;
+                    }
+
+                    if (dispatch) {
+                        const { entityId, text } = found.mention;
+                        this.storage.ignored.add(ignoreKey(entityId, text));
+                        db.ignoredMentions
+                            .add({ documentId, entityId, text })
+                            .catch((error) => {
+                                console.warn(
+                                    "Failed to store ignored mention:",
+                                    error,
+                                );
+                            });
+                        tr.setMeta(entityMentionsPluginKey, {
+                            type: "ignore",
+                            entityId,
+                            text,
+                        } as EntityMentionsMeta);
+                    }
+                    return true;
+                },
+            refreshEntityMentions:
+                () =>
+                ({ tr, dispatch }) => {
+                    if (dispatch) {
+                        tr.setMeta(entityMentionsPluginKey, {
+                            type: "refresh",
+                        } as EntityMentionsMeta);
+                    }
+                    return true;
+                },
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const editor = this.editor;
+        const storage = this.storage;
+        const { documentId, getCandidates, mentionClass } = this.options;
+        if (!documentId) {
+            return [];
+        }
+
+        let popup: TippyInstance | null = null;
+
+        const closePopup = () => {
+            popup?.destroy();
+            popup = null;
+        };
+
+        const openPopup = (anchor: HTMLElement, found: FoundMention) => {
+            closePopup();
+
+            const content = document.createElement("div");
+            content.className = "entity-mention-popup";
+
+            const title = document.createElement("div");
+            title.className = "entity-mention-popup-title";
+            title.textContent = found.mention.name;
+            const kind = document.createElement("span");
+            kind.className = "entity-mention-popup-kind";
+            kind.textContent = KIND_LABELS[found.mention.kind];
+            title.append(kind);
+            const buttons = document.createElement("div");
+            buttons.className = "entity-mention-popup-actions";
+            content.append(title, buttons);
+
+            const actions: Array<[string, () => void]> = [
+                [
+                    "Link",
+                    () => editor.commands.linkEntityMention(found.from),
+                ],
+                [
+                    "Link all in chapter",
+                    () =>
+                        editor.commands.linkAllEntityMentions(
+                            found.mention.entityId,
+                        ),
+                ],
+                [
+                    "Ignore",
+                    () => editor.commands.ignoreEntityMention(found.from),
+                ],
+            ];
+            for (const [label, run] of actions) {
+                const button = document.createElement("button");
+                button.type = "button";
+                button.className = "entity-mention-popup-action";
+                button.textContent = label;
+                button.addEventListener("click", (event) => {
+                    event.preventDefault();
+                    closePopup();
+                    run();
+                });
+                buttons.append(button);
+            }
+
+            popup = tippy(anchor, {
+                content,
+                appendTo: () => document.body,
+                trigger: "manual",
+                placement: "bottom-start",
+                theme: "entity-mention",
+                interactive: true,
+                arrow: false,
+                maxWidth: 320,
+                onHidden: () => closePopup(),
+            });
+            popup.show();
+        };
+
+        return [
+            new Plugin<EntityMentionsState>({
+                key: entityMentionsPluginKey,
+                state: {
+                    init: () => ({
+                        decorations: DecorationSet.empty,
+                        revision: 0,
+                    }),
+                    apply(tr, value) {
+                        const meta = tr.getMeta(entityMentionsPluginKey) as
+                            | EntityMentionsMeta
+                            | undefined;
+
+                        if (meta?.type === "setMentions") {
+                            return {
+                                ...value,
+                                decorations: DecorationSet.create(
+                                    tr.doc,
+                                    meta.mentions.map((mention) =>
+                                        Decoration.inline(
+                                            mention.from,
+                                            mention.to,
+                                            {
+                                                class: mentionClass,
+                                                "data-entity-kind":
+                                                    mention.kind,
+                                            },
+                                            { mention },
+                                        ),
+                                    ),
+                                ),
+                            };
+                        }
+
+                        if (meta?.type === "ignore") {
+                            return {
+                                ...value,
+                                decorations: value.decorations.remove(
+                                    value.decorations.find(
+                                        undefined,
+                                        undefined,
+                                        (spec) =>
+                                            spec.mention?.entityId ===
+                                                meta.entityId &&
+                                            spec.mention?.text === meta.text,
+                                    ),
+                                ),
+                            };
+                        }
+
+                        if (meta?.type === "refresh") {
+                            return { ...value, revision: value.revision + 1 };
+                        }
+
+                        if (!tr.docChanged) {
+                            return value;
+                        }
+                        return {
+                            ...value,
+                            decorations: value.decorations.map(
+                                tr.mapping,
+                                tr.doc,
+                            ),
+                        };
+                    },
+                },
+                view(view) {
+                    let timer: ReturnType<typeof setTimeout> | null = null;
+                    let destroyed = false;
+
+                    const scan = async () => {
+                        timer = null;
+                        const doc = view.state.doc;
+
+                        let mentions: EntityMention[];
+                        try {
+                            mentions = await entityMentionEngine.scan({
+                                blocks: collectBlocks(doc),
+                                candidates: getCandidates(),
+                            });
+                        } catch (error) {
+                            // The previous highlights stay until the next scan
+                            console.warn("Entity mention scan failed:", error);
+                            return;
+                        }
+
+                        // A newer scan is already scheduled after an edit
+                        if (destroyed || view.state.doc !== doc) {
+                            return;
+                        }
+
+                        view.dispatch(
+                            view.state.tr.setMeta(entityMentionsPluginKey, {
+                                type: "setMentions",
+                                mentions: mentions.filter(
+                                    (mention) =>
+                                        !storage.ignored.has(
+                                            ignoreKey(
+                                                mention.entityId,
+                                                mention.text,
+                                            ),
+                                        ),
+                                ),
+                            } as EntityMentionsMeta),
+                        );
+                    };
+
+                    const schedule = () => {
+                        if (timer) {
+                            clearTimeout(timer);
+                        }
+                        timer = setTimeout(() => void scan(), SCAN_DELAY_MS);
+                    };
+
+                    db.ignoredMentions
+                        .where("documentId")
+                        .equals(documentId)
+                        .toArray()
+                        .then((ignored) => {
+                            for (const { entityId, text } of ignored) {
+                                storage.ignored.add(ignoreKey(entityId, text));
+                            }
+                        })
+                        .catch((error) => {
+                            console.warn(
+                                "Failed to load ignored mentions:",
+                                error,
+                            );
+                        })
+                        .finally(() => {
+                            if (!destroyed) {
+                                schedule();
+                            }
+                        });
+
+                    return {
+                        update(updatedView, previousState) {
+                            const previous =
+                                entityMentionsPluginKey.getState(previousState);
+                            const current = entityMentionsPluginKey.getState(
+                                updatedView.state,
+                            );
+
+                            if (updatedView.state.doc !== previousState.doc) {
+                                closePopup();
+                                schedule();
+                            } else if (
+                                previous?.revision !== current?.revision
+                            ) {
+                                schedule();
+                            }
+                        },
+                        destroy() {
+                            destroyed = true;
+                            if (timer) {
+                                clearTimeout(timer);
+                            }
+                            closePopup();
+                        },
+                    };
+                },
+                props: {
+                    decorations(state) {
+                        return this.getState(state)?.decorations;
+                    },
+                    handleClick(view, pos, event) {
+                        const found = mentionAt(view.state, pos);
+                        const anchor = (event.target as HTMLElement).closest(
+                            `.${mentionClass}`,
+                        );
+                        if (found && anchor instanceof HTMLElement) {
+                            openPopup(anchor, found);
+                        }
+                        // The click still places the cursor
+                        return false;
+                    },
+                },
+            }),
+        ];
+    },
+});
+
+export default EntityMentions;
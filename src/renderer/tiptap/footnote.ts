@@ -0,0 +1,253 @@
+/**
+ * Footnotes as inline atoms. The note text lives on the node itself, so a
+ * footnote moves, copies and undoes together with the text it is anchored to.
+ * Numbers are not stored: the editor counts markers with a CSS counter and
+ * exports number them per chapter.
+ */
+import { Node, mergeAttributes } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import tippy, { type Instance as TippyInstance } from "tippy.js";
+import { isElementPartOfLanguageToolProblem } from "../components/ui/documentReferencePreview";
+
+export interface FootnoteOptions {
+    HTMLAttributes: Record<string, unknown>;
+}
+
+/** A footnote as the notes pane lists it, in document order. */
+export interface FootnoteEntry {
+    id: string;
+    number: number;
+    text: string;
+    /** Document position of the footnote marker. */
+    pos: number;
+}
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        footnote: {
+            /**
+             * Insert a footnote marker at the end of the current selection.
+             */
+            insertFootnote: (attrs: {
+                id: string;
+                text?: string;
+            }) => ReturnType;
+            /**
+             * Replace the text of an existing footnote.
+             */
+            updateFootnote: (id: string, text: string) => ReturnType;
+            /**
+             * Remove a footnote marker and its text.
+             */
+            removeFootnote: (id: string) => ReturnType;
+        };
+    }
+}
+
+/** Every footnote in the document, numbered in reading order. */
+export const collectFootnotes = (doc: ProseMirrorNode): FootnoteEntry[] => {
+    const entries: FootnoteEntry[] = [];
+    doc.descendants((node, pos) => {
+        if (node.type.name !== "footnote") return;
+        entries.push({
+            id: String(node.attrs.id ?? ""),
+            number: entries.length + 1,
+            text: String(node.attrs.text ?? ""),
+            pos,
+        });
+    });
+    return entries;
+};
+
+const findFootnote = (
+    doc: ProseMirrorNode,
+    id: string,
+): { pos: number; size: number } | null => {
+    let found: { pos: number; size: number } | null = null;
+    doc.descendants((node, pos) => {
+        if (found) return false;
+        if (node.type.name === "footnote" && node.attrs.id === id) {
+            found = { pos, size: node.nodeSize };
+            return false;
+        }
+        return undefined;
+    });
+    return found;
+};
+
+export const Footnote = Node.create<FootnoteOptions>({
+    name: "footnote",
+
+    group: "inline",
+
+    inline: true,
+
+    atom: true,
+
+    selectable: true,
+
+    addOptions() {
+        return {
+            HTMLAttributes: {},
+        };
+    },
+
+    addAttributes() {
+        return {
+            id: {
+                default: null,
+                parseHTML: (el) =>
+                    (el as HTMLElement).getAttribute("data-footnote-id"),
+                renderHTML: (attrs) => ({
+                    "data-footnote-id": attrs.id as string,
+                }),
+            },
+            text: {
+                default: "",
+                parseHTML: (el) =>
+                    (el as HTMLElement).getAttribute("data-footnote-text") ??
+                    "",
+                renderHTML: (attrs) => ({
+                    "data-footnote-text": attrs.text as string,
+                }),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [{ tag: "sup[data-footnote-id]" }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [
+            "sup",
+            mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+                class: "tiptap-footnote",
+            }),
+        ];
+    },
+
+    // Note text stays out of word counts and plain-text copies
+    renderText() {
+        return "";
+    },
+
+    addCommands() {
+        return {
+            insertFootnote:
+                ({ id, text = "" }) =>
+                ({ state, chain }) => {
+                    return chain()
+                        .focus()
+                        .insertContentAt(state.selection.to, {
+                            type: this.name,
+                            attrs: { id, text },
+                        })
+                        .run();
+                },
+            removeFootnote:
+                (id) =>
+                ({ tr, state, dispatch }) => {
+                    const found = findFootnote(state.doc, id);
+                    if (!found) return false;
+
+                    if (dispatch) {
+                        tr.delete(found.pos, found.pos + found.size);
+                    }
+                    return true;
+                },
+            updateFootnote:
+                (id, text) =>
+                ({ tr, state, dispatch }) => {
+                    const found = findFootnote(state.doc, id);
+                    if (!found) return false;
+
+                    if (dispatch) {
+                        tr.setNodeAttribute(found.pos, "text", text);
+                    }
+                    return true;
+                },
+        };
+    },
+
+    addNodeView() {
+        return ({ node }) => {
+            const sup = document.createElement("sup");
+            sup.className = "tiptap-footnote";
+            sup.setAttribute("data-footnote-id", String(node.attrs.id ?? ""));
+            sup.contentEditable = "false";
+
+            let previewPopup: TippyInstance | null = null;
+
+            const openPreview = () => {
+                if (previewPopup || isElementPartOfLanguageToolProblem(sup)) {
+                    return;
+                }
+
+                const text = String(node.attrs.text ?? "").trim();
+                const content = document.createElement("div");
+                content.className = text
+                    ? "footnote-preview"
+                    : "footnote-preview is-empty";
+                content.textContent = text || "Empty footnote";
+
+                previewPopup = tippy(sup, {
+                    content,
+                    appendTo: () => document.body,
+                    trigger: "manual",
+                    placement: "top",
+                    theme: "footnote-preview",
+                    interactive: false,
+                    arrow: false,
+                    maxWidth: 340,
+                    offset: [0, 10],
+                });
+                previewPopup.show();
+            };
+
+            const closePreview = () => {
+                previewPopup?.destroy();
+                previewPopup = null;
+            };
+
+            sup.addEventListener("mouseenter", openPreview);
+            sup.addEventListener("mouseleave", closePreview);
+
+            sup.addEventListener("click", (e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                closePreview();
+
+                // Lets the notes pane open on this footnote
+                sup.dispatchEvent(
+                    new CustomEvent("footnote-click", {
+                        bubbles: true,
+                        detail: { id: node.attrs.id },
+                    }),
+                );
+            });
+
+            return {
+                dom: sup,
+                destroy: () => {
+                    closePreview();
+                },
+            };
+        };
+    },
+
+    addKeyboardShortcuts() {
+        return {
+            "Mod-Alt-f": () => {
+                // Same pattern as inline comments: the React layer inserts
+                // the footnote and opens the notes pane to write it.
+                this.editor.view.dom.dispatchEvent(
+                    new CustomEvent("footnote-request", { bubbles: true }),
+                );
+                return true;
+            },
+        };
+    },
+});
+
+export default Footnote;
@@ -1,9 +1,35 @@
 import { Mark, mergeAttributes } from "@tiptap/core";
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import { Plugin, PluginKey } from "@tiptap/pm/state";
+import { Decoration, DecorationSet } from "@tiptap/pm/view";
 
 export interface InlineCommentOptions {
     HTMLAttributes: Record<string, unknown>;
 }
 
+/** One highlighted passage, merged across the text nodes it spans. */
+export interface InlineCommentEntry {
+    commentId: string;
+    /**
+     * Text stored on the mark by older versions. Threads now hold the
+     * conversation, so new marks leave this empty.
+     */
+    commentText: string;
+    createdAt: string;
+    excerpt: string;
+    from: number;
+    to: number;
+}
+
+type ResolvedCommentsState = {
+    resolvedIds: Set<string>;
+    decorations: DecorationSet;
+};
+
+const resolvedCommentsKey = new PluginKey<ResolvedCommentsState>(
+    "resolvedInlineComments",
+);
+
 declare module "@tiptap/core" {
     interface Commands<ReturnType> {
         inlineComment: {
@@ -26,10 +52,73 @@ declare module "@tiptap/core" {
                 commentId: string,
                 commentText: string,
             ) => ReturnType;
+            /**
+             * Dim the highlights of comments whose threads are resolved.
+             */
+            setResolvedInlineComments: (commentIds: string[]) => ReturnType;
         };
     }
 }
 
+/** Every inline comment in the document, in reading order. */
+export const collectInlineComments = (
+    doc: ProseMirrorNode,
+): InlineCommentEntry[] => {
+    const byId = new Map<string, InlineCommentEntry>();
+
+    doc.descendants((node, pos) => {
+        if (!node.isText || !node.marks?.length) return;
+
+        for (const mark of node.marks) {
+            if (mark.type.name !== "inlineComment") continue;
+
+            const attrs = mark.attrs as {
+                commentId?: string;
+                commentText?: string;
+                createdAt?: string;
+            };
+            const id = attrs.commentId;
+            if (!id) continue;
+
+            const existing = byId.get(id);
+            if (existing) {
+                existing.to = pos + node.nodeSize;
+                existing.excerpt += node.text ?? "";
+            } else {
+                byId.set(id, {
+                    commentId: id,
+                    commentText: attrs.commentText ?? "",
+                    createdAt: attrs.createdAt ?? "",
+                    excerpt: node.text ?? "",
+                    from: pos,
+                    to: pos + node.nodeSize,
+                });
+            }
+        }
+    });
+
+    return [...byId.values()];
+};
+
+const buildResolvedDecorations = (
+    doc: ProseMirrorNode,
+    resolvedIds: Set<string>,
+): DecorationSet => {
+    if (resolvedIds.size === 0) {
+        return DecorationSet.empty;
+    }
+
+    const decorations = collectInlineComments(doc)
+        .filter((entry) => resolvedIds.has(entry.commentId))
+        .map((entry) =>
+            Decoration.inline(entry.from, entry.to, {
+                class: "inline-comment-mark--resolved",
+            }),
+        );
+
+    return DecorationSet.create(doc, decorations);
+};
+
 export const InlineComment = Mark.create<InlineCommentOptions>({
     name: "inlineComment",
 
@@ -180,11 +269,57 @@ export const InlineComment = Mark.create<InlineCommentOptions>({
                         }
                     }
 
+                    return true;
+                },
+            setResolvedInlineComments:
+                (commentIds) =>
+                ({ tr, dispatch }) => {
+                    if (dispatch) {
+                        tr.setMeta(resolvedCommentsKey, new Set(commentIds));
+                    }
                     return true;
                 },
         };
     },
 
+    addProseMirrorPlugins() {
+        return [
+            new Plugin<ResolvedCommentsState>({
+                key: resolvedCommentsKey,
+                state: {
+                    init: () => ({
+                        resolvedIds: new Set(),
+                        decorations: DecorationSet.empty,
+                    }),
+                    apply: (tr, pluginState, _oldState, newState) => {
+                        const resolvedIds = tr.getMeta(resolvedCommentsKey) as
+                            | Set<string>
+                            | undefined;
+
+                        if (!resolvedIds && !tr.docChanged) {
+                            return pluginState;
+                        }
+
+                        const ids = resolvedIds ?? pluginState.resolvedIds;
+                        return {
+                            resolvedIds: ids,
+                            decorations: buildResolvedDecorations(
+                                newState.doc,
+                                ids,
+                            ),
+                        };
+                    },
+                },
+                props: {
+                    decorations(state) {
+                        return resolvedCommentsKey.getState(state)
+                            ?.decorations;
+                    },
+                },
+            }),
+        ];
+    },
+
     addKeyboardShortcuts() {
         return {
             "Mod-Shift-m": () => {
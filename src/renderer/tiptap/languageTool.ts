@@ -128,10 +128,18 @@ interface ProofreadChunk {
     to: number;
 }
 
+type GrammarChecker = (request: {
+    text: string;
+}) => ReturnType<Window["languageTool"]["checkGrammar"]>;
+
 interface LanguageToolOptions {
-    language: string;
     automaticMode: boolean;
     documentId: string | number | undefined;
+    /**
+     * Sends text to LanguageTool and picks the language and rules to check
+     * it with; swap it to filter what comes back.
+     */
+    checkGrammar: GrammarChecker;
 }
 
 export interface LanguageToolStorage {
@@ -239,6 +247,7 @@ const gimmeDecoration = (from: number, to: number, match: Match) => {
 const createProofreader = (
     view: EditorView,
     documentId: string | number | undefined,
+    checkGrammar: GrammarChecker,
     getPluginState: () => LanguageToolPluginState | undefined,
     updateStorage: (
         match?: Match,
@@ -453,10 +462,7 @@ const createProofreader = (
 
         try {
             // Use IPC to call main process - avoids CORS issues
-            const ltRes = await window.languageTool.checkGrammar({
-                text,
-                language: "en-US",
-            });
+            const ltRes = await checkGrammar({ text });
 
             const decorations: Decoration[] = [];
 
@@ -657,9 +663,13 @@ export const LanguageTool = Extension.create<
 
     addOptions() {
         return {
-            language: "auto",
             automaticMode: true,
             documentId: undefined,
+            checkGrammar: (request) =>
+                window.languageTool.checkGrammar({
+                    ...request,
+                    language: "auto",
+                }),
         };
     },
 
@@ -684,6 +694,7 @@ export const LanguageTool = Extension.create<
                         const proofreader = createProofreader(
                             editor.view,
                             this.options.documentId,
+                            this.options.checkGrammar,
                             () => languageToolPluginKey.getState(editor.state),
                             (match, matchRange, matchId) => {
                                 this.storage.match = match;
@@ -851,7 +862,7 @@ export const LanguageTool = Extension.create<
         // Extract references to extension properties that we need inside the plugin
         // This avoids aliasing 'this' which ESLint disallows
         const extensionStorage = this.storage;
-        const { documentId, automaticMode } = this.options;
+        const { documentId, automaticMode, checkGrammar } = this.options;
 
         return [
             new Plugin<LanguageToolPluginState>({
@@ -953,6 +964,7 @@ export const LanguageTool = Extension.create<
                             const proofreader = createProofreader(
                                 view,
                                 documentId,
+                                checkGrammar,
                                 () =>
                                     languageToolPluginKey.getState(view.state),
                                 (match, matchRange, matchId) => {
@@ -974,6 +986,7 @@ export const LanguageTool = Extension.create<
                     const proofreader = createProofreader(
                         view,
                         documentId,
+                        checkGrammar,
                         () => languageToolPluginKey.getState(view.state),
                         (match, matchRange, matchId) => {
                             // Set storage directly - React polls this
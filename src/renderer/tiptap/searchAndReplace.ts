@@ -2,6 +2,11 @@ import { Extension, type Range } from "@tiptap/core";
 import type { Node as PMNode } from "@tiptap/pm/model";
 import { Plugin, PluginKey, TextSelection } from "@tiptap/pm/state";
 import { Decoration, DecorationSet, type EditorView } from "@tiptap/pm/view";
+import {
+    buildSearchRegex,
+    expandReplacement,
+    findMatches,
+} from "../utils/searchPattern";
 
 declare module "@tiptap/core" {
     interface Commands<ReturnType> {
@@ -13,6 +18,8 @@ declare module "@tiptap/core" {
             selectNextResult: () => ReturnType;
             selectPreviousResult: () => ReturnType;
             setCaseSensitive: (caseSensitive: boolean) => ReturnType;
+            setUseRegex: (useRegex: boolean) => ReturnType;
+            setWholeWord: (wholeWord: boolean) => ReturnType;
         };
     }
 }
@@ -22,27 +29,14 @@ type TextNodeWithPosition = {
     pos: number;
 };
 
-const escapeRegExp = (value: string): string => {
-    return value.replace(/[-/\\^$*+?.()|[\]{}]/g, "\\$&");
-};
-
-const getRegex = (params: {
-    searchString: string;
-    disableRegex: boolean;
-    caseSensitive: boolean;
-}): RegExp => {
-    const source = params.disableRegex
-        ? escapeRegExp(params.searchString)
-        : params.searchString;
-
-    // Use unicode flag for correct ranges. Global for matchAll.
-    const flags = params.caseSensitive ? "gu" : "giu";
-    return new RegExp(source, flags);
+/** A match in the document, with its groups for regex replacement. */
+export type SearchResult = Range & {
+    match: RegExpMatchArray;
 };
 
 type ProcessedSearches = {
     decorationsToReturn: DecorationSet;
-    results: Range[];
+    results: SearchResult[];
 };
 
 const processSearches = (params: {
@@ -53,7 +47,7 @@ const processSearches = (params: {
     selectedResultClass: string;
 }): ProcessedSearches => {
     const decorations: Decoration[] = [];
-    const results: Range[] = [];
+    const results: SearchResult[] = [];
     const textNodesWithPosition: TextNodeWithPosition[] = [];
 
     params.doc.descendants((node, pos) => {
@@ -63,7 +57,7 @@ const processSearches = (params: {
     });
 
     for (const { text, pos } of textNodesWithPosition) {
-        const matches = Array.from(text.matchAll(params.searchTerm)).filter(
+        const matches = findMatches(text, params.searchTerm).filter(
             ([matchText]) => matchText.trim()
         );
 
@@ -74,6 +68,7 @@ const processSearches = (params: {
             results.push({
                 from: pos + match.index,
                 to: pos + match.index + match[0].length,
+                match,
             });
         }
     }
@@ -121,18 +116,23 @@ export const searchAndReplacePluginKey = new PluginKey(
 export type SearchAndReplaceOptions = {
     searchResultClass: string;
     selectedResultClass: string;
+    /** Always match the term literally, whatever `useRegex` says. */
     disableRegex: boolean;
 };
 
 export type SearchAndReplaceStorage = {
     searchTerm: string;
     replaceTerm: string;
-    results: Range[];
+    results: SearchResult[];
     lastSearchTerm: string;
     selectedResult: number;
     lastSelectedResult: number;
     caseSensitive: boolean;
     lastCaseSensitiveState: boolean;
+    useRegex: boolean;
+    lastUseRegexState: boolean;
+    wholeWord: boolean;
+    lastWholeWordState: boolean;
 };
 
 declare module "@tiptap/core" {
@@ -167,6 +167,10 @@ export const SearchAndReplace = Extension.create<
             lastSelectedResult: 0,
             caseSensitive: false,
             lastCaseSensitiveState: false,
+            useRegex: false,
+            lastUseRegexState: false,
+            wholeWord: false,
+            lastWholeWordState: false,
         };
     },
 
@@ -212,6 +216,32 @@ export const SearchAndReplace = Extension.create<
                     }
                     return true;
                 },
+            setUseRegex:
+                (useRegex: boolean) =>
+                ({ editor, tr, dispatch }) => {
+                    editor.storage.searchAndReplace.useRegex = useRegex;
+                    if (dispatch) {
+                        dispatch(
+                            tr.setMeta(searchAndReplacePluginKey, {
+                                type: "refresh",
+                            } as RefreshMeta)
+                        );
+                    }
+                    return true;
+                },
+            setWholeWord:
+                (wholeWord: boolean) =>
+                ({ editor, tr, dispatch }) => {
+                    editor.storage.searchAndReplace.wholeWord = wholeWord;
+                    if (dispatch) {
+                        dispatch(
+                            tr.setMeta(searchAndReplacePluginKey, {
+                                type: "refresh",
+                            } as RefreshMeta)
+                        );
+                    }
+                    return true;
+                },
             selectNextResult:
                 () =>
                 ({ editor, tr, dispatch }) => {
@@ -286,7 +316,17 @@ export const SearchAndReplace = Extension.create<
                         return true;
                     }
 
-                    tr.insertText(storage.replaceTerm, range.from, range.to);
+                    const useRegex =
+                        !this.options.disableRegex && storage.useRegex;
+                    tr.insertText(
+                        expandReplacement(
+                            range.match,
+                            storage.replaceTerm,
+                            useRegex
+                        ),
+                        range.from,
+                        range.to
+                    );
                     tr.setMeta(searchAndReplacePluginKey, {
                         type: "refresh",
                     } as RefreshMeta);
@@ -305,10 +345,21 @@ export const SearchAndReplace = Extension.create<
                         return true;
                     }
 
-                    // Replace from the end to avoid rebasing offsets.
+                    // Replace from the end to avoid rebasing offsets. One
+                    // transaction, so a single undo restores every match.
+                    const useRegex =
+                        !this.options.disableRegex && storage.useRegex;
                     for (let i = storage.results.length - 1; i >= 0; i--) {
-                        const { from, to } = storage.results[i];
-                        tr.insertText(storage.replaceTerm, from, to);
+                        const { from, to, match } = storage.results[i];
+                        tr.insertText(
+                            expandReplacement(
+                                match,
+                                storage.replaceTerm,
+                                useRegex
+                            ),
+                            from,
+                            to
+                        );
                     }
 
                     tr.setMeta(searchAndReplacePluginKey, {
@@ -348,7 +399,9 @@ export const SearchAndReplace = Extension.create<
                             storage.lastSelectedResult ===
                                 storage.selectedResult &&
                             storage.lastCaseSensitiveState ===
-                                storage.caseSensitive
+                                storage.caseSensitive &&
+                            storage.lastUseRegexState === storage.useRegex &&
+                            storage.lastWholeWordState === storage.wholeWord
                         ) {
                             return oldState;
                         }
@@ -356,6 +409,8 @@ export const SearchAndReplace = Extension.create<
                         storage.lastSearchTerm = storage.searchTerm;
                         storage.lastSelectedResult = storage.selectedResult;
                         storage.lastCaseSensitiveState = storage.caseSensitive;
+                        storage.lastUseRegexState = storage.useRegex;
+                        storage.lastWholeWordState = storage.wholeWord;
 
                         if (!storage.searchTerm) {
                             storage.selectedResult = 0;
@@ -363,11 +418,19 @@ export const SearchAndReplace = Extension.create<
                             return DecorationSet.empty;
                         }
 
-                        const regex = getRegex({
-                            searchString: storage.searchTerm,
-                            disableRegex,
-                            caseSensitive: storage.caseSensitive,
-                        });
+                        let regex: RegExp;
+                        try {
+                            regex = buildSearchRegex(storage.searchTerm, {
+                                caseSensitive: storage.caseSensitive,
+                                useRegex: !disableRegex && storage.useRegex,
+                                wholeWord: storage.wholeWord,
+                            });
+                        } catch {
+                            // Half-typed patterns simply match nothing
+                            storage.selectedResult = 0;
+                            storage.results = [];
+                            return DecorationSet.empty;
+                        }
 
                         const { decorationsToReturn, results } =
                             processSearches({
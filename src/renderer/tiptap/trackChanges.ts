@@ -0,0 +1,479 @@
+/**
+ * Suggestion mode. While it is on, edits are not applied outright: inserted
+ * text is marked as a suggested insertion and deleted text stays in place,
+ * marked as a suggested deletion, both tagged with who made the change and
+ * when. Reviewers accept or reject each change from the comments pane.
+ */
+import { Extension, Mark, mergeAttributes } from "@tiptap/core";
+import type {
+    MarkType,
+    Node as ProseMirrorNode,
+    Slice,
+} from "@tiptap/pm/model";
+import {
+    Plugin,
+    PluginKey,
+    TextSelection,
+    type EditorState,
+    type Transaction,
+} from "@tiptap/pm/state";
+import { Mapping, ReplaceStep } from "@tiptap/pm/transform";
+
+export interface TrackChangesOptions {
+    /** Name recorded on new suggestions, read when each change is made. */
+    getAuthor: () => string;
+}
+
+export interface TrackChangesStorage {
+    enabled: boolean;
+}
+
+/**
+ * A suggested change as the comments pane lists it. Text inserted and
+ * deleted in one go (typing over a selection) shares an id, so it reads
+ * and resolves as a single replacement.
+ */
+export interface TrackedChange {
+    id: string;
+    author: string;
+    createdAt: string;
+    insertedText: string;
+    deletedText: string;
+    from: number;
+    to: number;
+}
+
+declare module "@tiptap/core" {
+    interface Commands<ReturnType> {
+        trackChanges: {
+            /**
+             * Turn suggestion mode on or off.
+             */
+            setSuggestionMode: (enabled: boolean) => ReturnType;
+            /**
+             * Toggle suggestion mode.
+             */
+            toggleSuggestionMode: () => ReturnType;
+            /**
+             * Keep a suggested change: insertions become plain text and
+             * deletions are removed.
+             */
+            acceptTrackedChange: (changeId: string) => ReturnType;
+            /**
+             * Undo a suggested change: insertions are removed and deletions
+             * become plain text again.
+             */
+            rejectTrackedChange: (changeId: string) => ReturnType;
+            acceptAllTrackedChanges: () => ReturnType;
+            rejectAllTrackedChanges: () => ReturnType;
+        };
+    }
+}
+
+export const trackChangesPluginKey = new PluginKey("trackChanges");
+
+const INSERTION = "trackedInsertion";
+const DELETION = "trackedDeletion";
+
+interface TrackedChangeAttrs {
+    changeId: string;
+    author: string;
+    createdAt: string;
+}
+
+const trackedChangeAttributes = () => ({
+    changeId: {
+        default: null as string | null,
+        parseHTML: (el: HTMLElement) => el.getAttribute("data-change-id"),
+        renderHTML: (attrs: Record<string, unknown>) => ({
+            "data-change-id": attrs.changeId as string,
+        }),
+    },
+    author: {
+        default: "",
+        parseHTML: (el: HTMLElement) =>
+            el.getAttribute("data-change-author") ?? "",
+        renderHTML: (attrs: Record<string, unknown>) => ({
+            "data-change-author": attrs.author as string,
+        }),
+    },
+    createdAt: {
+        default: "",
+        parseHTML: (el: HTMLElement) =>
+            el.getAttribute("data-change-created") ?? "",
+        renderHTML: (attrs: Record<string, unknown>) => ({
+            "data-change-created": attrs.createdAt as string,
+        }),
+    },
+});
+
+export const TrackedInsertion = Mark.create({
+    name: INSERTION,
+
+    // Text typed at the edge of a suggestion is tracked on its own
+    inclusive: false,
+
+    excludes: `${INSERTION} ${DELETION}`,
+
+    addAttributes: trackedChangeAttributes,
+
+    parseHTML() {
+        return [{ tag: "ins[data-change-id]" }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [
+            "ins",
+            mergeAttributes(HTMLAttributes, { class: "tracked-insertion" }),
+            0,
+        ];
+    },
+});
+
+export const TrackedDeletion = Mark.create({
+    name: DELETION,
+
+    inclusive: false,
+
+    excludes: `${INSERTION} ${DELETION}`,
+
+    addAttributes: trackedChangeAttributes,
+
+    parseHTML() {
+        return [{ tag: "del[data-change-id]" }];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return [
+            "del",
+            mergeAttributes(HTMLAttributes, { class: "tracked-deletion" }),
+            0,
+        ];
+    },
+});
+
+/** Every suggested change in the document, in reading order. */
+export const collectTrackedChanges = (
+    doc: ProseMirrorNode,
+): TrackedChange[] => {
+    const byId = new Map<string, TrackedChange>();
+    doc.descendants((node, pos) => {
+        if (!node.isText) return;
+        for (const mark of node.marks) {
+            const isInsertion = mark.type.name === INSERTION;
+            if (!isInsertion && mark.type.name !== DELETION) continue;
+
+            const attrs = mark.attrs as TrackedChangeAttrs;
+            if (!attrs.changeId) continue;
+
+            const change = byId.get(attrs.changeId) ?? {
+                id: attrs.changeId,
+                author: attrs.author,
+                createdAt: attrs.createdAt,
+                insertedText: "",
+                deletedText: "",
+                from: pos,
+                to: pos + node.nodeSize,
+            };
+            if (isInsertion) change.insertedText += node.text ?? "";
+            else change.deletedText += node.text ?? "";
+            change.to = pos + node.nodeSize;
+            byId.set(attrs.changeId, change);
+        }
+    });
+    return [...byId.values()];
+};
+
+/**
+ * Resolves the suggestions with the given ids, or all of them. Accepting
+ * keeps insertions and drops deletions; rejecting does the opposite.
+ */
+const resolveTrackedChanges = (
+    state: EditorState,
+    tr: Transaction,
+    changeIds: string[] | null,
+    accept: boolean,
+    dispatch: unknown,
+): boolean => {
+    const ranges: { from: number; to: number; type: MarkType }[] = [];
+    state.doc.descendants((node, pos) => {
+        if (!node.isText) return;
+        for (const mark of node.marks) {
+            if (mark.type.name !== INSERTION && mark.type.name !== DELETION) {
+                continue;
+            }
+            const { changeId } = mark.attrs as TrackedChangeAttrs;
+            if (changeIds && !changeIds.includes(changeId)) continue;
+            ranges.push({
+                from: pos,
+                to: pos + node.nodeSize,
+                type: mark.type,
+            });
+        }
+    });
+
+    if (ranges.length === 0) return false;
+    if (!dispatch) return true;
+
+    // Back to front, so deleting a range leaves the earlier ones in place
+    for (const range of ranges.reverse()) {
+        if ((range.type.name === INSERTION) === accept) {
+            tr.removeMark(range.from, range.to, range.type);
+        } else {
+            tr.delete(range.from, range.to);
+        }
+    }
+    tr.setMeta(trackChangesPluginKey, true);
+    return true;
+};
+
+/**
+ * Edits made by the user. Content loads, undo/redo and the plugin's own
+ * transactions are left alone.
+ */
+const isTrackedTransaction = (tr: Transaction): boolean =>
+    tr.docChanged &&
+    !tr.getMeta(trackChangesPluginKey) &&
+    !tr.getMeta("preventUpdate") &&
+    !tr.getMeta("history$") &&
+    tr.getMeta("addToHistory") !== false;
+
+/** The id of a suggestion by the same author right next to a range. */
+const adjacentChangeId = (
+    doc: ProseMirrorNode,
+    from: number,
+    to: number,
+    author: string,
+): string | null => {
+    const neighbours = [
+        doc.resolve(from).nodeBefore,
+        doc.resolve(to).nodeAfter,
+    ];
+    for (const node of neighbours) {
+        for (const mark of node?.marks ?? []) {
+            const attrs = mark.attrs as TrackedChangeAttrs;
+            if (
+                (mark.type.name === INSERTION ||
+                    mark.type.name === DELETION) &&
+                attrs.author === author
+            ) {
+                return attrs.changeId;
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * Turns the edits in `transactions` into suggestions: inserted ranges get
+ * the insertion mark and deleted slices are put back with the deletion mark.
+ */
+const trackTransactions = (
+    transactions: readonly Transaction[],
+    oldState: EditorState,
+    newState: EditorState,
+    author: string,
+): Transaction | null => {
+    if (!transactions.some(isTrackedTransaction)) return null;
+
+    const insertionType = newState.schema.marks[INSERTION];
+    const deletionType = newState.schema.marks[DELETION];
+    if (!insertionType || !deletionType) return null;
+
+    // Every step so far, so positions can be carried over to the new state
+    const steps: { step: ReplaceStep; doc: ProseMirrorNode; index: number }[] =
+        [];
+    const mapping = new Mapping();
+    for (const transaction of transactions) {
+        const tracked = isTrackedTransaction(transaction);
+        transaction.steps.forEach((step, i) => {
+            if (tracked && step instanceof ReplaceStep) {
+                steps.push({
+                    step,
+                    doc: transaction.docs[i],
+                    index: mapping.maps.length,
+                });
+            }
+            mapping.appendMap(transaction.mapping.maps[i]);
+        });
+    }
+
+    const insertions: { from: number; to: number }[] = [];
+    const deletions: { pos: number; slice: Slice }[] = [];
+    for (const { step, doc, index } of steps) {
+        const later = mapping.slice(index + 1);
+        if (step.slice.size > 0) {
+            const from = later.map(step.from, 1);
+            const to = later.map(step.from + step.slice.size, -1);
+            if (from < to) insertions.push({ from, to });
+        }
+        if (step.to > step.from) {
+            deletions.push({
+                pos: later.map(step.from, -1),
+                slice: doc.slice(step.from, step.to),
+            });
+        }
+    }
+    if (insertions.length === 0 && deletions.length === 0) return null;
+
+    // Typing on from an earlier suggestion continues it
+    let changeId: string | null = null;
+    for (const range of insertions) {
+        changeId ??= adjacentChangeId(
+            newState.doc,
+            range.from,
+            range.to,
+            author,
+        );
+    }
+    for (const deletion of deletions) {
+        changeId ??= adjacentChangeId(
+            newState.doc,
+            deletion.pos,
+            deletion.pos,
+            author,
+        );
+    }
+    const attrs: TrackedChangeAttrs = {
+        changeId: changeId ?? crypto.randomUUID(),
+        author,
+        createdAt: new Date().toISOString(),
+    };
+
+    const tr = newState.tr;
+    let restoredFrom: number | null = null;
+
+    for (const deletion of deletions) {
+        const at = tr.mapping.map(deletion.pos, -1);
+        const sizeBefore = tr.doc.content.size;
+        tr.replace(at, at, deletion.slice);
+        const end = at + tr.doc.content.size - sizeBefore;
+        restoredFrom ??= at;
+
+        // Deleting text that was itself only suggested just removes it
+        const suggested: { from: number; to: number }[] = [];
+        tr.doc.nodesBetween(at, end, (node, pos) => {
+            if (!node.isText) return;
+            const from = Math.max(pos, at);
+            const to = Math.min(pos + node.nodeSize, end);
+            if (insertionType.isInSet(node.marks)) {
+                suggested.push({ from, to });
+            } else if (!deletionType.isInSet(node.marks)) {
+                tr.addMark(from, to, deletionType.create(attrs));
+            }
+        });
+        for (const range of suggested.reverse()) {
+            tr.delete(range.from, range.to);
+        }
+    }
+
+    for (const range of insertions) {
+        const from = tr.mapping.map(range.from, 1);
+        const to = tr.mapping.map(range.to, -1);
+        if (from < to) {
+            tr.addMark(from, to, insertionType.create(attrs));
+        }
+    }
+
+    // Backspace leaves the cursor in front of the text it struck through
+    const before = oldState.selection;
+    if (
+        insertions.length === 0 &&
+        restoredFrom !== null &&
+        (!before.empty || newState.selection.head < before.head)
+    ) {
+        tr.setSelection(TextSelection.create(tr.doc, restoredFrom));
+    }
+
+    return tr.setMeta(trackChangesPluginKey, true);
+};
+
+export const TrackChanges = Extension.create<
+    TrackChangesOptions,
+    TrackChangesStorage
+>({
+    name: "trackChanges",
+
+    addOptions() {
+        return {
+            getAuthor: () => "",
+        };
+    },
+
+    addStorage() {
+        return {
+            enabled: false,
+        };
+    },
+
+    addExtensions() {
+        return [TrackedInsertion, TrackedDeletion];
+    },
+
+    addCommands() {
+        return {
+            setSuggestionMode:
+                (enabled) =>
+                ({ tr }) => {
+                    this.storage.enabled = enabled;
+                    // An empty transaction lets the toolbar re-render
+                    tr.setMeta(trackChangesPluginKey, true);
+                    return true;
+                },
+            toggleSuggestionMode:
+                () =>
+                ({ commands }) =>
+                    commands.setSuggestionMode(!this.storage.enabled),
+            acceptTrackedChange:
+                (changeId) =>
+                ({ state, tr, dispatch }) =>
+                    resolveTrackedChanges(
+                        state,
+                        tr,
+                        [changeId],
+                        true,
+                        dispatch,
+                    ),
+            rejectTrackedChange:
+                (changeId) =>
+                ({ state, tr, dispatch }) =>
+                    resolveTrackedChanges(
+                        state,
+                        tr,
+                        [changeId],
+                        false,
+                        dispatch,
+                    ),
+            acceptAllTrackedChanges:
+                () =>
+                ({ state, tr, dispatch }) =>
+                    resolveTrackedChanges(state, tr, null, true, dispatch),
+            rejectAllTrackedChanges:
+                () =>
+                ({ state, tr, dispatch }) =>
+                    resolveTrackedChanges(state, tr, null, false, dispatch),
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const storage = this.storage;
+        const getAuthor = this.options.getAuthor;
+
+        return [
+            new Plugin({
+                key: trackChangesPluginKey,
+                appendTransaction: (transactions, oldState, newState) =>
+                    storage.enabled
+                        ? trackTransactions(
+                              transactions,
+                              oldState,
+                              newState,
+                              getAuthor(),
+                          )
+                        : null,
+            }),
+        ];
+    },
+});
+
+export default TrackChanges;
@@ -1,5 +1,6 @@
 import type { RendererApi } from "../@interface-adapters/controllers/contracts";
 import type { AuthStatePayload } from "../@interface-adapters/controllers/auth/AuthStateGateway";
+import type { ImportProjectFormat } from "../@core/application/use-cases/project/ImportProject";
 
 export type RendererUser = AuthStatePayload["user"];
 
@@ -18,6 +19,9 @@ export type AuthMode = "login" | "register" | "resetPassword";
 
 export type ProjectsStatus = "idle" | "loading" | "error";
 
+/** Anything a new project can be created from: a manuscript or an archive. */
+export type ProjectImportSource = ImportProjectFormat | "archive";
+
 export type AutosaveStatus =
     | "disabled"
     | "idle"
@@ -57,9 +61,20 @@ export type WorkspaceMetafieldAssignment =
 export type WorkspaceEditorTemplate =
     OpenProjectPayload["editorTemplates"][number];
 export type WorkspaceEditorTemplateType = WorkspaceEditorTemplate["editorType"];
+export type WorkspaceCommentThread =
+    OpenProjectPayload["commentThreads"][number];
+export type WorkspaceCommentMessage =
+    WorkspaceCommentThread["messages"][number];
 
 export type WorkspaceViewMode = "manuscript" | "timeline";
 
+/** How the manuscript view shows chapters: one document or all at a glance. */
+export type ManuscriptViewMode =
+    | "editor"
+    | "corkboard"
+    | "outliner"
+    | "cast";
+
 export type WorkspaceAssets = {
     images: Record<string, WorkspaceImageAsset>;
     bgms: Record<string, WorkspaceBGMAsset>;
@@ -78,6 +93,16 @@ export type WorkspaceDocumentRef = {
     id: string;
 };
 
+/**
+ * A range in a chapter or scrap note, by text block and offset within it,
+ * to select once the document's editor has loaded.
+ */
+export type WorkspaceDocumentReveal = WorkspaceDocumentRef & {
+    blockIndex: number;
+    offset: number;
+    length: number;
+};
+
 export type UseCaseShortcut = {
     id: string;
     title: string;
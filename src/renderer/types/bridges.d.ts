@@ -12,10 +12,12 @@ import type {
     EntityType as SyncEntityType,
 } from "../../@interface-adapters/controllers/sync/SyncStateGateway";
 import type { GenerationProgressPayload } from "../../@interface-adapters/controllers/generation/generationProgress";
+import type { ManuscriptGrammarProgress } from "../../@core/application/use-cases/analysis/CheckManuscriptGrammar";
 
 export type ContextMenuType =
     | "editor"
     | "binder_chapter"
+    | "binder_part"
     | "binder_project"
     | "binder_default";
 
@@ -66,6 +68,11 @@ declare global {
                 listener: (payload: { progress: number }) => void,
             ): () => IpcRenderer;
         };
+        grammarReportEvents: {
+            onProgress(
+                listener: (payload: ManuscriptGrammarProgress) => void,
+            ): () => IpcRenderer;
+        };
         syncEvents: {
             onStateChanged(
                 listener: (payload: SyncStatePayload) => void,
@@ -0,0 +1 @@
+export { joinChapterContents } from "../../@core/application/utils/chapterContent";
@@ -0,0 +1,24 @@
+import {
+    CHAPTER_LABELS,
+    CHAPTER_STATUSES,
+    type ChapterLabel,
+    type ChapterStatus,
+} from "../../@core/domain/entities/story/Chapter";
+
+export { CHAPTER_LABELS, CHAPTER_STATUSES };
+
+export const CHAPTER_STATUS_LABELS: Record<ChapterStatus, string> = {
+    idea: "Idea",
+    draft: "Draft",
+    revised: "Revised",
+    final: "Final",
+};
+
+export const CHAPTER_LABEL_NAMES: Record<ChapterLabel, string> = {
+    red: "Red",
+    orange: "Orange",
+    yellow: "Yellow",
+    green: "Green",
+    blue: "Blue",
+    purple: "Purple",
+};
@@ -0,0 +1,5 @@
+import type { RendererUser } from "../types";
+
+/** The name comments and suggested changes are signed with. */
+export const getCommentAuthorName = (user: RendererUser | null): string =>
+    user?.displayName || user?.email || "Guest";
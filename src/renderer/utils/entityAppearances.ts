@@ -0,0 +1,245 @@
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model";
+import type { GlobalFindSnippet } from "../state/globalSearchTypes";
+import {
+    createEntityMentionFinder,
+    LEAF_PLACEHOLDER,
+    type EntityMentionCandidate,
+} from "./entityMentions";
+import {
+    parseTextBlocks,
+    type TextBlockNode,
+} from "../../@core/application/utils/textBlocks";
+
+/** A chapter or scrap note to index, with its stored Tiptap JSON. */
+export type EntityAppearanceSource = {
+    kind: "chapter" | "scrapNote";
+    id: string;
+    title: string;
+    content: string;
+};
+
+/**
+ * Where an entity appears. Positions count text blocks in document order
+ * and characters within the block, so they survive the trip to the editor.
+ */
+export type EntityAppearanceHit = {
+    documentKind: EntityAppearanceSource["kind"];
+    documentId: string;
+    blockIndex: number;
+    offset: number;
+    length: number;
+    /** Linked with a reference, or written as a name or alias. */
+    source: "reference" | "name";
+    snippet: GlobalFindSnippet;
+};
+
+export type EntityAppearanceDocument = {
+    kind: EntityAppearanceSource["kind"];
+    id: string;
+    title: string;
+    hits: EntityAppearanceHit[];
+};
+
+export type EntityAppearances = {
+    /** Documents the entity appears in, in the order they were given. */
+    documents: EntityAppearanceDocument[];
+    total: number;
+    /** First and last appearance in the manuscript; scrap notes do not count. */
+    first: EntityAppearanceHit | null;
+    last: EntityAppearanceHit | null;
+};
+
+/** Appearances by entity ID. Entities that never appear are left out. */
+export type EntityAppearanceIndex = Record<string, EntityAppearances>;
+
+const SNIPPET_CONTEXT = 32;
+
+type IndexedBlock = {
+    /** One character per position; inline nodes are a placeholder. */
+    text: string;
+    /** What each inline node reads as in a snippet, by offset. */
+    leafText: Map<number, string>;
+    references: Array<{ offset: number; id: string }>;
+    isCode: boolean;
+};
+
+const readBlock = (node: TextBlockNode): IndexedBlock => {
+    const block: IndexedBlock = {
+        text: "",
+        leafText: new Map(),
+        references: [],
+        isCode: node.type === "codeBlock",
+    };
+
+    for (const child of node.content ?? []) {
+        if (child.type === "text") {
+            block.text += child.text ?? "";
+            continue;
+        }
+
+        const offset = block.text.length;
+        if (child.type === "documentReference" && child.attrs?.id) {
+            block.references.push({ offset, id: String(child.attrs.id) });
+            block.leafText.set(offset, String(child.attrs.label ?? ""));
+        } else if (child.type === "hardBreak") {
+            block.leafText.set(offset, " ");
+        }
+        block.text += LEAF_PLACEHOLDER;
+    }
+    return block;
+};
+
+const parseBlocks = (content: string): IndexedBlock[] =>
+    parseTextBlocks(content).map(readBlock);
+
+const readableText = (block: IndexedBlock, from: number, to: number) => {
+    let result = "";
+    for (let offset = from; offset < to; offset++) {
+        const char = block.text[offset];
+        result +=
+            char === LEAF_PLACEHOLDER
+                ? (block.leafText.get(offset) ?? "")
+                : char;
+    }
+    return result.replace(/\s+/g, " ");
+};
+
+const buildSnippet = (
+    block: IndexedBlock,
+    offset: number,
+    length: number,
+): GlobalFindSnippet => {
+    const start = Math.max(0, offset - SNIPPET_CONTEXT);
+    const end = Math.min(block.text.length, offset + length + SNIPPET_CONTEXT);
+
+    return {
+        leadingEllipsis: start > 0,
+        before: readableText(block, start, offset),
+        match: readableText(block, offset, offset + length),
+        after: readableText(block, offset + length, end),
+        trailingEllipsis: end < block.text.length,
+    };
+};
+
+/**
+ * Finds every entity in every document: references by ID, and names and
+ * aliases written as plain text. Sources are expected in reading order,
+ * chapters before scrap notes.
+ */
+export const buildEntityAppearanceIndex = (
+    sources: EntityAppearanceSource[],
+    candidates: EntityMentionCandidate[],
+): EntityAppearanceIndex => {
+    const known = new Set(candidates.map((candidate) => candidate.entityId));
+    const findMentions = createEntityMentionFinder(candidates);
+    const index: EntityAppearanceIndex = {};
+
+    for (const source of sources) {
+        const blocks = parseBlocks(source.content);
+        const hitsByEntity = new Map<string, EntityAppearanceHit[]>();
+        const addHit = (
+            entityId: string,
+            hit: Omit<EntityAppearanceHit, "documentKind" | "documentId">,
+        ) => {
+            const hits = hitsByEntity.get(entityId) ?? [];
+            hits.push({
+                documentKind: source.kind,
+                documentId: source.id,
+                ...hit,
+            });
+            hitsByEntity.set(entityId, hits);
+        };
+
+        blocks.forEach((block, blockIndex) => {
+            const hits: Array<{
+                entityId: string;
+                offset: number;
+                length: number;
+                source: EntityAppearanceHit["source"];
+            }> = [];
+
+            for (const reference of block.references) {
+                if (known.has(reference.id)) {
+                    hits.push({
+                        entityId: reference.id,
+                        offset: reference.offset,
+                        length: 1,
+                        source: "reference",
+                    });
+                }
+            }
+            const mentions = block.isCode
+                ? []
+                : findMentions({ from: 0, text: block.text });
+            for (const mention of mentions) {
+                hits.push({
+                    entityId: mention.entityId,
+                    offset: mention.from,
+                    length: mention.to - mention.from,
+                    source: "name",
+                });
+            }
+
+            hits.sort((a, b) => a.offset - b.offset);
+            for (const hit of hits) {
+                addHit(hit.entityId, {
+                    blockIndex,
+                    offset: hit.offset,
+                    length: hit.length,
+                    source: hit.source,
+                    snippet: buildSnippet(block, hit.offset, hit.length),
+                });
+            }
+        });
+
+        for (const [entityId, hits] of hitsByEntity) {
+            const appearances = index[entityId] ?? {
+                documents: [],
+                total: 0,
+                first: null,
+                last: null,
+            };
+            appearances.documents.push({
+                kind: source.kind,
+                id: source.id,
+                title: source.title,
+                hits,
+            });
+            appearances.total += hits.length;
+            if (source.kind === "chapter") {
+                appearances.first ??= hits[0];
+                appearances.last = hits[hits.length - 1];
+            }
+            index[entityId] = appearances;
+        }
+    }
+
+    return index;
+};
+
+/**
+ * Document position of a hit, counting text blocks the same way
+ * `parseTextBlocks` does. Null when the document no longer has that block.
+ */
+export const resolveAppearancePosition = (
+    doc: ProseMirrorNode,
+    blockIndex: number,
+    offset: number,
+): number | null => {
+    let seen = 0;
+    let position: number | null = null;
+    doc.descendants((node, pos) => {
+        if (position !== null) {
+            return false;
+        }
+        if (!node.isTextblock) {
+            return true;
+        }
+        if (seen === blockIndex) {
+            position = pos + 1 + Math.min(offset, node.content.size);
+        }
+        seen += 1;
+        return false;
+    });
+    return position;
+};
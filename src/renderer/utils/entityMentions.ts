@@ -0,0 +1,164 @@
+import { escapeRegExp, WORD_AFTER, WORD_BEFORE } from "./searchPattern";
+
+export type EntityMentionKind = "character" | "location" | "organization";
+
+/** An entity and the names the text may call it by. */
+export type EntityMentionCandidate = {
+    entityId: string;
+    kind: EntityMentionKind;
+    name: string;
+    /** The name followed by its aliases. */
+    terms: string[];
+};
+
+/** Stands in for each inline node, such as a reference, in block text. */
+export const LEAF_PLACEHOLDER = "\uFFFC";
+
+/** The text of one block, starting at document position `from`. */
+export type EntityMentionBlock = {
+    from: number;
+    /** One character per document position. */
+    text: string;
+};
+
+export type EntityMention = {
+    from: number;
+    to: number;
+    entityId: string;
+    kind: EntityMentionKind;
+    /** The entity's name, which may differ from the matched text. */
+    name: string;
+    /** The text as written in the document. */
+    text: string;
+};
+
+// Shorter terms match too much ordinary text to be worth suggesting
+const MIN_TERM_LENGTH = 2;
+
+const normalizeTerm = (term: string): string =>
+    term.trim().replace(/\s+/g, " ");
+
+type MentionMatcher = {
+    regex: RegExp;
+    byTerm: Map<string, EntityMentionCandidate>;
+};
+
+/**
+ * One regex for every term, longest first so "Anna Karenina" wins over
+ * "Anna". Terms shared by two entities are left out: there is no telling
+ * which one the text means.
+ */
+const buildMatcher = (
+    candidates: EntityMentionCandidate[],
+): MentionMatcher | null => {
+    const byTerm = new Map<string, EntityMentionCandidate>();
+    const ambiguous = new Set<string>();
+
+    for (const candidate of candidates) {
+        for (const raw of candidate.terms) {
+            const term = normalizeTerm(raw);
+            if (term.length < MIN_TERM_LENGTH) {
+                continue;
+            }
+
+            const existing = byTerm.get(term);
+            if (existing && existing.entityId !== candidate.entityId) {
+                ambiguous.add(term);
+            } else {
+                byTerm.set(term, candidate);
+            }
+        }
+    }
+
+    for (const term of ambiguous) {
+        byTerm.delete(term);
+    }
+    if (byTerm.size === 0) {
+        return null;
+    }
+
+    const alternatives = [...byTerm.keys()]
+        .sort((left, right) => right.length - left.length)
+        .map((term) => escapeRegExp(term).replace(/ /g, "\\s+"));
+
+    return {
+        regex: new RegExp(
+            `${WORD_BEFORE}(?:${alternatives.join("|")})${WORD_AFTER}`,
+            "gu",
+        ),
+        byTerm,
+    };
+};
+
+/**
+ * Finds the candidates' names in block text, building the pattern once for
+ * any number of blocks. Matching is case-sensitive, since names are
+ * capitalized and most common words that double as names are not.
+ */
+export const createEntityMentionFinder = (
+    candidates: EntityMentionCandidate[],
+): ((block: EntityMentionBlock) => EntityMention[]) => {
+    const matcher = buildMatcher(candidates);
+
+    return (block) => {
+        if (!matcher) {
+            return [];
+        }
+
+        const mentions: EntityMention[] = [];
+        for (const match of block.text.matchAll(matcher.regex)) {
+            const candidate = matcher.byTerm.get(normalizeTerm(match[0]));
+            if (!candidate || match.index === undefined) {
+                continue;
+            }
+
+            mentions.push({
+                from: block.from + match.index,
+                to: block.from + match.index + match[0].length,
+                entityId: candidate.entityId,
+                kind: candidate.kind,
+                name: candidate.name,
+                text: match[0],
+            });
+        }
+        return mentions;
+    };
+};
+
+/** Every place the blocks name one of the candidates. */
+export const findEntityMentions = (
+    blocks: EntityMentionBlock[],
+    candidates: EntityMentionCandidate[],
+): EntityMention[] => blocks.flatMap(createEntityMentionFinder(candidates));
+
+type MentionableEntity = {
+    id: string;
+    name: string;
+    aliases?: string[];
+};
+
+/** Candidates for every named entity in the project. */
+export const buildEntityMentionCandidates = (entities: {
+    characters: MentionableEntity[];
+    locations: MentionableEntity[];
+    organizations: MentionableEntity[];
+}): EntityMentionCandidate[] => {
+    const toCandidates = (
+        kind: EntityMentionKind,
+        list: MentionableEntity[],
+    ): EntityMentionCandidate[] =>
+        list
+            .filter((entity) => entity.name.trim())
+            .map((entity) => ({
+                entityId: entity.id,
+                kind,
+                name: entity.name,
+                terms: [entity.name, ...(entity.aliases ?? [])],
+            }));
+
+    return [
+        ...toCandidates("character", entities.characters),
+        ...toCandidates("location", entities.locations),
+        ...toCandidates("organization", entities.organizations),
+    ];
+};
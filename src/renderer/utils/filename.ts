@@ -0,0 +1,14 @@
+/**
+ * Sanitises a string for use as a cross-platform filename.
+ * Strips characters that are illegal on Windows/macOS/Linux and collapses
+ * runs of whitespace into a single space.
+ */
+export function sanitizeFilename(raw: string): string {
+    return raw
+        .replace(/[<>:"/\\|?*]/g, "")
+        .split("")
+        .filter((char) => char.charCodeAt(0) >= 32)
+        .join("")
+        .replace(/\s+/g, " ")
+        .trim();
+}
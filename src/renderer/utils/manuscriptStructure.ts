@@ -0,0 +1,11 @@
+export {
+    canContainNode,
+    findManuscriptNode,
+    flattenManuscriptDocuments,
+    getDocumentNodeType,
+    getRootIndexForDocument,
+    insertManuscriptNode,
+    moveManuscriptNode,
+    normalizeManuscriptStructure,
+    removeManuscriptNode,
+} from "../../@core/application/utils/manuscriptStructure";
@@ -0,0 +1,103 @@
+/** How a find term matches text, in the editor and across the project. */
+export type SearchPatternOptions = {
+    caseSensitive: boolean;
+    /** Treat the term as a regular expression. */
+    useRegex: boolean;
+    /** Skip matches that are part of a longer word. */
+    wholeWord: boolean;
+};
+
+export const DEFAULT_SEARCH_PATTERN_OPTIONS: SearchPatternOptions = {
+    caseSensitive: false,
+    useRegex: false,
+    wholeWord: false,
+};
+
+// Letters, digits and underscores in any script count as word characters
+export const WORD_BEFORE = "(?<![\\p{L}\\p{N}_])";
+export const WORD_AFTER = "(?![\\p{L}\\p{N}_])";
+
+export const escapeRegExp = (value: string): string => {
+    return value.replace(/[-/\\^$*+?.()|[\]{}]/g, "\\$&");
+};
+
+/**
+ * Global, unicode regex for a find term. Throws when `useRegex` is on and
+ * the term is not a valid pattern.
+ */
+export const buildSearchRegex = (
+    term: string,
+    options: SearchPatternOptions,
+): RegExp => {
+    const pattern = options.useRegex ? term : escapeRegExp(term);
+    const source = options.wholeWord
+        ? `${WORD_BEFORE}(?:${pattern})${WORD_AFTER}`
+        : pattern;
+
+    return new RegExp(source, options.caseSensitive ? "gu" : "giu");
+};
+
+/** Why a term cannot be searched, or null when it can. */
+export const getSearchPatternError = (
+    term: string,
+    options: SearchPatternOptions,
+): string | null => {
+    if (!options.useRegex) {
+        return null;
+    }
+
+    try {
+        buildSearchRegex(term, options);
+        return null;
+    } catch (error) {
+        return (error as Error)?.message ?? "Invalid regular expression.";
+    }
+};
+
+/** Every match of `regex` in `text`, skipping empty ones. */
+export const findMatches = (text: string, regex: RegExp): RegExpMatchArray[] =>
+    Array.from(text.matchAll(regex)).filter((match) => match[0].length > 0);
+
+/**
+ * The text that replaces one match. With regex on, `$1`, `$<name>`, `$&`
+ * and `$$` work as in `String.prototype.replace`; otherwise the
+ * replacement is used as typed.
+ */
+export const expandReplacement = (
+    match: RegExpMatchArray,
+    replacement: string,
+    useRegex: boolean,
+): string => {
+    if (!useRegex) {
+        return replacement;
+    }
+
+    return replacement.replace(
+        /\$(\$|&|<([^>]*)>|(\d{1,2}))/g,
+        (token: string, kind: string, name?: string, digits?: string) => {
+            if (kind === "$") {
+                return "$";
+            }
+            if (kind === "&") {
+                return match[0];
+            }
+            if (name !== undefined) {
+                return match.groups ? (match.groups[name] ?? "") : token;
+            }
+
+            // Prefer a two-digit group when it exists, like String.replace
+            const groupCount = match.length - 1;
+            const index = Number(digits);
+            if (index >= 1 && index <= groupCount) {
+                return match[index] ?? "";
+            }
+            const single = Number(digits?.[0]);
+            if (digits && digits.length === 2 && single >= 1) {
+                if (single <= groupCount) {
+                    return (match[single] ?? "") + digits[1];
+                }
+            }
+            return token;
+        },
+    );
+};
@@ -0,0 +1,102 @@
+import * as React from "react";
+
+import { useAppStore } from "../state/appStore";
+import { entityMentionEngine } from "../state/entityMentionEngine";
+import type {
+    EntityAppearanceIndex,
+    EntityAppearanceSource,
+} from "./entityAppearances";
+import { buildEntityMentionCandidates } from "./entityMentions";
+import {
+    flattenManuscriptDocuments,
+    normalizeManuscriptStructure,
+} from "./manuscriptStructure";
+
+// Typing changes chapter content constantly; reindex once it settles
+const INDEX_DELAY_MS = 400;
+
+/**
+ * Where every character, location and organization appears across the
+ * manuscript and scrap notes. Null until the first index is ready.
+ */
+export function useEntityAppearanceIndex(): EntityAppearanceIndex | null {
+    const chapters = useAppStore((state) => state.chapters);
+    const scrapNotes = useAppStore((state) => state.scrapNotes);
+    const characters = useAppStore((state) => state.characters);
+    const locations = useAppStore((state) => state.locations);
+    const organizations = useAppStore((state) => state.organizations);
+    const manuscriptStructure = useAppStore(
+        (state) => state.workspaceProject?.manuscriptStructure ?? null,
+    );
+    const [index, setIndex] = React.useState<EntityAppearanceIndex | null>(
+        null,
+    );
+
+    const sources = React.useMemo(() => {
+        const chaptersById = new Map(
+            chapters.map((chapter) => [chapter.id, chapter]),
+        );
+        const structure = normalizeManuscriptStructure(
+            manuscriptStructure,
+            chapters
+                .slice()
+                .sort((a, b) => a.order - b.order)
+                .map((chapter) => chapter.id),
+        );
+
+        const result: EntityAppearanceSource[] = [];
+        for (const id of flattenManuscriptDocuments(structure)) {
+            const chapter = chaptersById.get(id);
+            if (chapter) {
+                result.push({
+                    kind: "chapter",
+                    id,
+                    title: chapter.title.trim() || "Untitled Chapter",
+                    content: chapter.content,
+                });
+            }
+        }
+        for (const note of scrapNotes) {
+            result.push({
+                kind: "scrapNote",
+                id: note.id,
+                title: note.title.trim() || "Untitled Note",
+                content: note.content,
+            });
+        }
+        return result;
+    }, [chapters, scrapNotes, manuscriptStructure]);
+
+    const candidates = React.useMemo(
+        () =>
+            buildEntityMentionCandidates({
+                characters,
+                locations,
+                organizations,
+            }),
+        [characters, locations, organizations],
+    );
+
+    React.useEffect(() => {
+        let cancelled = false;
+        const timer = window.setTimeout(() => {
+            entityMentionEngine
+                .indexAppearances({ sources, candidates })
+                .then((next) => {
+                    if (!cancelled) {
+                        setIndex(next);
+                    }
+                })
+                .catch((error) => {
+                    console.warn("Failed to index entity appearances", error);
+                });
+        }, INDEX_DELAY_MS);
+
+        return () => {
+            cancelled = true;
+            window.clearTimeout(timer);
+        };
+    }, [sources, candidates]);
+
+    return index;
+}
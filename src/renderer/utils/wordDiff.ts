@@ -0,0 +1,142 @@
+export type WordDiffSegment = {
+    type: "equal" | "added" | "removed";
+    text: string;
+};
+
+/**
+ * Edits beyond this are shown as one replaced block; the trace kept for
+ * backtracking grows with the square of the edit distance.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Splits text into words, each carrying the whitespace that follows it. */
+const tokenize = (text: string): string[] => text.match(/\S+\s*/g) ?? [];
+
+const sameWord = (a: string, b: string) => a.trimEnd() === b.trimEnd();
+
+/**
+ * Word-level diff of `before` → `after` (Myers' algorithm). Whitespace
+ * differences alone do not count as changes.
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+    const a = tokenize(before);
+    const b = tokenize(after);
+
+    let prefix = 0;
+    while (
+        prefix < a.length &&
+        prefix < b.length &&
+        sameWord(a[prefix], b[prefix])
+    ) {
+        prefix += 1;
+    }
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        sameWord(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+    ) {
+        suffix += 1;
+    }
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    const middle = diffTokens(middleA, middleB) ?? [
+        ...middleA.map((text) => ({ type: "removed" as const, text })),
+        ...middleB.map((text) => ({ type: "added" as const, text })),
+    ];
+
+    return mergeSegments([
+        ...b.slice(0, prefix).map((text) => ({ type: "equal" as const, text })),
+        ...middle,
+        ...b
+            .slice(b.length - suffix)
+            .map((text) => ({ type: "equal" as const, text })),
+    ]);
+}
+
+/** Null when the inputs differ by more than MAX_EDIT_DISTANCE words. */
+function diffTokens(a: string[], b: string[]): WordDiffSegment[] | null {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    const v = new Int32Array(2 * offset + 1);
+    // trace[d] holds v for diagonals -d..d before step d
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= max && !found; d += 1) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x =
+                k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                    ? v[offset + k + 1]
+                    : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && sameWord(a[x], b[y])) {
+                x += 1;
+                y += 1;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+    if (!found) {
+        return null;
+    }
+
+    const segments: WordDiffSegment[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d >= 0; d -= 1) {
+        const level = trace[d];
+        const k = x - y;
+        let prevX = 0;
+        let prevY = 0;
+        if (d > 0) {
+            const prevK =
+                k === -d || (k !== d && level[k - 1 + d] < level[k + 1 + d])
+                    ? k + 1
+                    : k - 1;
+            prevX = level[prevK + d];
+            prevY = prevX - prevK;
+        }
+        while (x > prevX && y > prevY) {
+            x -= 1;
+            y -= 1;
+            segments.push({ type: "equal", text: b[y] });
+        }
+        if (d > 0) {
+            if (x === prevX) {
+                segments.push({ type: "added", text: b[prevY] });
+            } else {
+                segments.push({ type: "removed", text: a[prevX] });
+            }
+        }
+        x = prevX;
+        y = prevY;
+    }
+
+    return segments.reverse();
+}
+
+function mergeSegments(segments: WordDiffSegment[]): WordDiffSegment[] {
+    const merged: WordDiffSegment[] = [];
+    for (const segment of segments) {
+        const last = merged[merged.length - 1];
+        // The final word of either text has no trailing space of its own
+        if (last && !/\s$/.test(last.text)) {
+            last.text += " ";
+        }
+        if (last?.type === segment.type) {
+            last.text += segment.text;
+        } else {
+            merged.push({ ...segment });
+        }
+    }
+    return merged;
+}
@@ -0,0 +1,7 @@
+export {
+    calculateStreak,
+    getWordTargetProgress,
+    getWordsWrittenOn,
+    toLocalDateKey,
+    type WordTargetProgress,
+} from "../../@core/application/utils/writingProgress";
@@ -10,6 +10,7 @@ import { MoreVerticalIcon } from "../components/ui/Icons";
 import { Input } from "../components/ui/Input";
 import { Label } from "../components/ui/Label";
 import type {
+    ProjectImportSource,
     ProjectSummary,
     ProjectsStatus,
     WorkspaceImageAsset,
@@ -30,9 +31,17 @@ type ProjectSelectionViewProps = {
     onDeleteProject: (projectId: string) => void;
     onRenameProject: (projectId: string, title: string) => void;
     onUploadCover: (projectId: string, file: File) => Promise<void> | void;
-    onImportProject: () => void;
+    onImportProject: (format: ProjectImportSource) => void;
 };
 
+const IMPORT_OPTIONS: { format: ProjectImportSource; label: string }[] = [
+    { format: "archive", label: "Inkline archive…" },
+    { format: "epub", label: "EPUB file…" },
+    { format: "markdown", label: "Markdown folder…" },
+    { format: "docx", label: "Word document…" },
+    { format: "scrivener", label: "Scrivener project…" },
+];
+
 const formatTimestamp = (value: Date | string | number): string => {
     const date = value instanceof Date ? value : new Date(value);
     if (Number.isNaN(date.getTime())) {
@@ -165,6 +174,20 @@ export const ProjectSelectionView: React.FC<ProjectSelectionViewProps> = ({
         };
     }, []);
 
+    const [isImportMenuOpen, setIsImportMenuOpen] = React.useState(false);
+
+    React.useEffect(() => {
+        const handleClickOutside = () => setIsImportMenuOpen(false);
+
+        if (isImportMenuOpen) {
+            window.addEventListener("click", handleClickOutside);
+        }
+
+        return () => {
+            window.removeEventListener("click", handleClickOutside);
+        };
+    }, [isImportMenuOpen]);
+
     React.useEffect(() => {
         const handleClickOutside = () => setOpenMenuProjectId(null);
 
@@ -268,16 +291,44 @@ export const ProjectSelectionView: React.FC<ProjectSelectionViewProps> = ({
 
                 <div className="projects">
                     <div className="project-actions">
-                        <Button
-                            type="button"
-                            variant="ghost"
-                            onClick={onImportProject}
-                            disabled={isImporting}
-                            title="Import from EPUB"
-                            aria-label="Import from EPUB"
-                        >
-                            Import
-                        </Button>
+                        <div className="action-dropdown">
+                            <Button
+                                type="button"
+                                variant="ghost"
+                                onClick={(event) => {
+                                    event.stopPropagation();
+                                    setIsImportMenuOpen((open) => !open);
+                                }}
+                                disabled={isImporting}
+                                title="Import a project"
+                                aria-label="Import a project"
+                                aria-haspopup="menu"
+                                aria-expanded={isImportMenuOpen}
+                            >
+                                Import
+                            </Button>
+                            {isImportMenuOpen && (
+                                <div
+                                    className="action-dropdown-menu is-align-left"
+                                    role="menu"
+                                >
+                                    {IMPORT_OPTIONS.map((option) => (
+                                        <button
+                                            key={option.format}
+                                            type="button"
+                                            className="action-dropdown-item"
+                                            role="menuitem"
+                                            onClick={() => {
+                                                setIsImportMenuOpen(false);
+                                                onImportProject(option.format);
+                                            }}
+                                        >
+                                            {option.label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                         <form
                             className="create-project-form"
                             onSubmit={handleSubmit}
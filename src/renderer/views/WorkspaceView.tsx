@@ -5,13 +5,16 @@ import { WorkspaceLayout } from "../components/layout/WorkspaceLayout";
 import type { LayoutSummary } from "../components/layout/WorkspaceLayout";
 import { ConnectedDocumentBinder } from "../components/layout/ConnectedDocumentBinder";
 import { ConnectedEditorTemplateDialog } from "../components/layout/ConnectedEditorTemplateDialog";
+import { ConnectedManuscriptOverview } from "../components/layout/ConnectedManuscriptOverview";
 import { ChatPanel } from "../components/workspace/ChatPanel";
 import { WorkspaceFooter } from "../components/layout/WorkspaceFooter";
 import { ConflictResolutionDialog } from "../components/dialogs/ConflictResolutionDialog";
+import { ChapterMetadataDialog } from "../components/dialogs/ChapterMetadataDialog";
 import { TutorialOverlay } from "../components/tutorial/TutorialOverlay";
 import { TUTORIAL_STEPS } from "../components/tutorial/tutorialSteps";
 import TimelineView from "./TimelineView";
 import type {
+    WorkspaceChapter,
     WorkspaceDocumentKind,
     WorkspaceEditorTemplateType,
 } from "../types";
@@ -53,6 +56,9 @@ const isContextMenuEntityData = (
 
 export const WorkspaceView: React.FC = () => {
     const { isBinderOpen, isChatOpen, workspaceViewMode } = useAppStore();
+    const manuscriptViewMode = useAppStore(
+        (state) => state.manuscriptViewMode,
+    );
     const projectId = useAppStore((state) => state.projectId);
     const chaptersCount = useAppStore((state) => state.chapters.length);
     const charactersCount = useAppStore((state) => state.characters.length);
@@ -66,6 +72,14 @@ export const WorkspaceView: React.FC = () => {
     const activeDocument = useAppStore((state) => state.activeDocument);
     const closeProject = useAppStore((state) => state.closeProject);
     const deleteChapter = useAppStore((state) => state.deleteChapter);
+    const createChapterEntry = useAppStore((state) => state.createChapterEntry);
+    const deleteManuscriptPart = useAppStore(
+        (state) => state.deleteManuscriptPart,
+    );
+    const mergeChapterWithNext = useAppStore(
+        (state) => state.mergeChapterWithNext,
+    );
+    const undoChapterMerge = useAppStore((state) => state.undoChapterMerge);
     const deleteScrapNote = useAppStore((state) => state.deleteScrapNote);
     const deleteCharacter = useAppStore((state) => state.deleteCharacter);
     const deleteLocation = useAppStore((state) => state.deleteLocation);
@@ -73,6 +87,13 @@ export const WorkspaceView: React.FC = () => {
     const setRenamingDocument = useAppStore(
         (state) => state.setRenamingDocument,
     );
+    const characters = useAppStore((state) => state.characters);
+    const saveChapterMetadata = useAppStore(
+        (state) => state.saveChapterMetadata,
+    );
+    /** Chapter whose details are being edited, as it was when opened. */
+    const [detailsChapter, setDetailsChapter] =
+        React.useState<WorkspaceChapter | null>(null);
 
     React.useEffect(() => {
         const removeListener = window.ui.onContextMenuCommand((payload) => {
@@ -107,6 +128,55 @@ export const WorkspaceView: React.FC = () => {
                 }
 
                 setRenamingDocument({ kind: data.kind, id: data.id });
+            } else if (command === "new-child") {
+                if (!isContextMenuEntityData(data)) {
+                    return;
+                }
+
+                // A scene inside a chapter, or a chapter inside a part
+                createChapterEntry(undefined, data.id);
+            } else if (command === "edit-details") {
+                if (!isContextMenuEntityData(data)) {
+                    return;
+                }
+
+                setDetailsChapter(
+                    useAppStore
+                        .getState()
+                        .chapters.find((chapter) => chapter.id === data.id) ??
+                        null,
+                );
+            } else if (command === "delete-part") {
+                if (!isContextMenuEntityData(data)) {
+                    return;
+                }
+
+                if (
+                    confirm(
+                        "Are you sure you want to delete this part? Its chapters are kept.",
+                    )
+                ) {
+                    deleteManuscriptPart(data.id);
+                }
+            } else if (command === "split-chapter") {
+                if (!isContextMenuEntityData(data)) {
+                    return;
+                }
+
+                // The open editor knows where the cursor is
+                window.dispatchEvent(
+                    new CustomEvent("chapter-split-request", {
+                        detail: { chapterId: data.id },
+                    }),
+                );
+            } else if (command === "merge-chapter") {
+                if (!isContextMenuEntityData(data)) {
+                    return;
+                }
+
+                void mergeChapterWithNext(data.id);
+            } else if (command === "undo-merge-chapter") {
+                void undoChapterMerge();
             }
         });
         return () => {
@@ -114,11 +184,15 @@ export const WorkspaceView: React.FC = () => {
         };
     }, [
         closeProject,
+        createChapterEntry,
         deleteChapter,
+        deleteManuscriptPart,
         deleteScrapNote,
         deleteCharacter,
         deleteLocation,
         deleteOrganization,
+        mergeChapterWithNext,
+        undoChapterMerge,
         setRenamingDocument,
     ]);
 
@@ -527,9 +601,13 @@ export const WorkspaceView: React.FC = () => {
                 )}
                 <div className="workspace-main-content">
                     {workspaceViewMode === "manuscript" ? (
-                        <WorkspaceLayout
-                            onLayoutSummaryChange={setLayoutSummary}
-                        />
+                        manuscriptViewMode === "editor" ? (
+                            <WorkspaceLayout
+                                onLayoutSummaryChange={setLayoutSummary}
+                            />
+                        ) : (
+                            <ConnectedManuscriptOverview />
+                        )
                     ) : (
                         <TimelineView />
                     )}
@@ -564,6 +642,21 @@ export const WorkspaceView: React.FC = () => {
             />
 
             <ConflictResolutionDialog />
+            <ChapterMetadataDialog
+                open={detailsChapter !== null}
+                onOpenChange={(nextOpen) => {
+                    if (!nextOpen) {
+                        setDetailsChapter(null);
+                    }
+                }}
+                chapter={detailsChapter}
+                characters={characters}
+                onSave={(metadata) =>
+                    detailsChapter
+                        ? saveChapterMetadata(detailsChapter.id, metadata)
+                        : Promise.resolve()
+                }
+            />
             <ConnectedEditorTemplateDialog
                 open={templateDialogEditorType !== null}
                 editorType={templateDialogEditorType}
@@ -0,0 +1,88 @@
+import {
+    buildEntityAppearanceIndex,
+    type EntityAppearanceIndex,
+    type EntityAppearanceSource,
+} from "../utils/entityAppearances";
+import {
+    findEntityMentions,
+    type EntityMention,
+    type EntityMentionBlock,
+    type EntityMentionCandidate,
+} from "../utils/entityMentions";
+
+type ScanRequestMessage = {
+    type: "scan";
+    requestId: number;
+    blocks: EntityMentionBlock[];
+    candidates: EntityMentionCandidate[];
+};
+
+type IndexRequestMessage = {
+    type: "index";
+    requestId: number;
+    sources: EntityAppearanceSource[];
+    candidates: EntityMentionCandidate[];
+};
+
+type ScanResponseMessage = {
+    type: "scanResult";
+    requestId: number;
+    mentions: EntityMention[];
+};
+
+type IndexResponseMessage = {
+    type: "indexResult";
+    requestId: number;
+    index: EntityAppearanceIndex;
+};
+
+type ErrorMessage = {
+    type: "error";
+    requestId: number;
+    error: string;
+};
+
+type IncomingMessage = ScanRequestMessage | IndexRequestMessage;
+
+type OutgoingMessage =
+    | ScanResponseMessage
+    | IndexResponseMessage
+    | ErrorMessage;
+
+const handleMessage = (message: IncomingMessage): OutgoingMessage => {
+    if (message.type === "index") {
+        return {
+            type: "indexResult",
+            requestId: message.requestId,
+            index: buildEntityAppearanceIndex(
+                message.sources,
+                message.candidates,
+            ),
+        };
+    }
+
+    return {
+        type: "scanResult",
+        requestId: message.requestId,
+        mentions: findEntityMentions(message.blocks, message.candidates),
+    };
+};
+
+self.onmessage = (event: MessageEvent<IncomingMessage>) => {
+    const message = event.data;
+
+    if (message.type !== "scan" && message.type !== "index") {
+        return;
+    }
+
+    try {
+        self.postMessage(handleMessage(message));
+    } catch (error) {
+        const outgoing: OutgoingMessage = {
+            type: "error",
+            requestId: message.requestId,
+            error: (error as Error)?.message ?? "Mention scan failed.",
+        };
+        self.postMessage(outgoing);
+    }
+};
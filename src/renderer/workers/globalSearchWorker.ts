@@ -3,13 +3,18 @@ import type {
     GlobalFindSnippet,
     SearchDocumentSnapshot,
 } from "../state/globalSearchTypes";
+import {
+    buildSearchRegex,
+    findMatches,
+    type SearchPatternOptions,
+} from "../utils/searchPattern";
 
 type SearchRequestMessage = {
     type: "search";
     requestId: number;
     docs: SearchDocumentSnapshot[];
     term: string;
-    caseSensitive: boolean;
+    options: SearchPatternOptions;
 };
 
 type SearchResponseMessage = {
@@ -28,42 +33,6 @@ type IncomingMessage = SearchRequestMessage;
 
 type OutgoingMessage = SearchResponseMessage | SearchErrorMessage;
 
-const countOccurrences = (
-    source: string,
-    term: string,
-    caseSensitive: boolean
-): number => {
-    if (!term) {
-        return 0;
-    }
-
-    const haystack = caseSensitive ? source : source.toLowerCase();
-    const needle = caseSensitive ? term : term.toLowerCase();
-
-    let index = haystack.indexOf(needle);
-    let count = 0;
-    while (index !== -1) {
-        count += 1;
-        index = haystack.indexOf(needle, index + needle.length);
-    }
-
-    return count;
-};
-
-const findFirstIndex = (
-    source: string,
-    term: string,
-    caseSensitive: boolean
-): number => {
-    if (!term) {
-        return -1;
-    }
-
-    const haystack = caseSensitive ? source : source.toLowerCase();
-    const needle = caseSensitive ? term : term.toLowerCase();
-    return haystack.indexOf(needle);
-};
-
 type TiptapNode = {
     type?: string;
     text?: string;
@@ -161,47 +130,35 @@ const buildSnippet = (
 const computeGlobalFind = (
     docs: SearchDocumentSnapshot[],
     term: string,
-    caseSensitive: boolean
+    options: SearchPatternOptions
 ): GlobalFindResponse => {
     const trimmed = term.trim();
     if (!trimmed) {
         return { totalOccurrences: 0, results: [] };
     }
 
+    const regex = buildSearchRegex(trimmed, options);
     const results: GlobalFindResponse["results"] = [];
     let totalOccurrences = 0;
 
     for (const doc of docs) {
         const searchText = getSearchTextForDoc(doc);
-        const occurrences = countOccurrences(
-            searchText,
-            trimmed,
-            caseSensitive
-        );
-        if (occurrences > 0) {
-            const matchIndex = findFirstIndex(
-                searchText,
-                trimmed,
-                caseSensitive
-            );
-
-            totalOccurrences += occurrences;
+        const matches = findMatches(searchText, regex);
+        if (matches.length > 0) {
+            const [first] = matches;
+
+            totalOccurrences += matches.length;
             results.push({
                 kind: doc.kind,
                 documentId: doc.id,
                 title: doc.title,
                 binderIndex: doc.binderIndex,
-                occurrences,
-                snippet:
-                    matchIndex >= 0
-                        ? buildSnippet(searchText, matchIndex, trimmed.length)
-                        : {
-                              leadingEllipsis: false,
-                              before: "",
-                              match: "",
-                              after: "",
-                              trailingEllipsis: false,
-                          },
+                occurrences: matches.length,
+                snippet: buildSnippet(
+                    searchText,
+                    first.index ?? 0,
+                    first[0].length
+                ),
             });
         }
     }
@@ -220,7 +177,7 @@ self.onmessage = (event: MessageEvent<IncomingMessage>) => {
         const response = computeGlobalFind(
             message.docs,
             message.term,
-            message.caseSensitive
+            message.options
         );
 
         const outgoing: OutgoingMessage = {
@@ -0,0 +1,5 @@
+-- Remember compile options (author, EPUB metadata, front/back matter) per project.
+-- Safe to run multiple times.
+
+alter table if exists public.projects
+  add column if not exists export_settings jsonb;
@@ -0,0 +1,5 @@
+-- Word targets, deadlines and the daily words-written log per project.
+-- Safe to run multiple times.
+
+alter table if exists public.projects
+  add column if not exists writing_goals jsonb;
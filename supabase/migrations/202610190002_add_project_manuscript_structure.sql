@@ -0,0 +1,6 @@
+-- Parts, chapters and scenes as a tree per project. Null means the project
+-- predates parts and scenes and its chapters form a flat list.
+-- Safe to run multiple times.
+
+alter table if exists public.projects
+  add column if not exists manuscript_structure jsonb;
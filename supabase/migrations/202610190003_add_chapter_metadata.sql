@@ -0,0 +1,10 @@
+-- Revision status, point-of-view character, synopsis, color labels and tags
+-- per chapter. Existing chapters start as drafts with no metadata.
+-- Safe to run multiple times.
+
+alter table if exists public.chapters
+  add column if not exists status text default 'draft' not null,
+  add column if not exists pov_character_id uuid,
+  add column if not exists synopsis text,
+  add column if not exists labels jsonb default '[]'::jsonb not null,
+  add column if not exists tags jsonb default '[]'::jsonb not null;
@@ -0,0 +1,45 @@
+-- Add comment threads, stored apart from chapter content so they keep their
+-- replies and resolved state when the highlighted text changes.
+-- Safe to run multiple times.
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.comment_threads (
+  id uuid default gen_random_uuid() primary key,
+  project_id uuid not null references public.projects(id) on delete cascade,
+  chapter_id uuid not null references public.chapters(id) on delete cascade,
+  excerpt text default '' not null,
+  is_chapter_level boolean default false not null,
+  resolved boolean default false not null,
+  messages_json jsonb not null default '[]'::jsonb,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create index if not exists idx_comment_threads_project_chapter
+  on public.comment_threads(project_id, chapter_id);
+
+alter table public.comment_threads enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_policies
+    where schemaname = 'public'
+      and tablename = 'comment_threads'
+      and policyname = 'Users can CRUD comment threads of their projects'
+  ) then
+    create policy "Users can CRUD comment threads of their projects"
+      on public.comment_threads
+      for all
+      using (
+        exists (
+          select 1
+          from public.projects
+          where projects.id = comment_threads.project_id
+            and projects.user_id = auth.uid()
+        )
+      );
+  end if;
+end $$;
@@ -0,0 +1,12 @@
+-- Other names characters, locations and organizations go by, used to find
+-- mentions of them in chapter text. Existing entities start with none.
+-- Safe to run multiple times.
+
+alter table if exists public.characters
+  add column if not exists aliases jsonb default '[]'::jsonb not null;
+
+alter table if exists public.locations
+  add column if not exists aliases jsonb default '[]'::jsonb not null;
+
+alter table if exists public.organizations
+  add column if not exists aliases jsonb default '[]'::jsonb not null;
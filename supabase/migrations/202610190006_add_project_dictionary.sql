@@ -0,0 +1,5 @@
+-- Custom dictionary words and disabled grammar rules per project.
+-- Safe to run multiple times.
+
+alter table if exists public.projects
+  add column if not exists dictionary jsonb;
@@ -0,0 +1,5 @@
+-- Grammar check language, strictness and rule categories per project.
+-- Safe to run multiple times.
+
+alter table if exists public.projects
+  add column if not exists grammar_settings jsonb;
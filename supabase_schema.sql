@@ -194,6 +194,11 @@ create table if not exists public.projects (
   title text not null,
   description text,
   cover_image_id uuid,
+  export_settings jsonb,
+  writing_goals jsonb,
+  manuscript_structure jsonb,
+  dictionary jsonb,
+  grammar_settings jsonb,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
   updated_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
@@ -218,6 +223,11 @@ create table if not exists public.chapters (
   title text not null,
   content jsonb,
   order_index integer not null,
+  status text default 'draft' not null,
+  pov_character_id uuid,
+  synopsis text,
+  labels jsonb default '[]'::jsonb not null,
+  tags jsonb default '[]'::jsonb not null,
   created_at timestamp with time zone default timezone('utc'::text, now()) not null,
   updated_at timestamp with time zone default timezone('utc'::text, now()) not null
 );
@@ -246,6 +256,7 @@ create table if not exists public.characters (
   id uuid default uuid_generate_v4() primary key,
   project_id uuid references public.projects(id) on delete cascade not null,
   name text not null,
+  aliases jsonb default '[]'::jsonb not null,
   race text,
   age integer,
   description text,
@@ -288,6 +299,7 @@ create table if not exists public.locations (
   id uuid default uuid_generate_v4() primary key,
   project_id uuid references public.projects(id) on delete cascade not null,
   name text not null,
+  aliases jsonb default '[]'::jsonb not null,
   description text,
   culture text,
   history text,
@@ -326,6 +338,7 @@ create table if not exists public.organizations (
   id uuid default uuid_generate_v4() primary key,
   project_id uuid references public.projects(id) on delete cascade not null,
   name text not null,
+  aliases jsonb default '[]'::jsonb not null,
   description text,
   mission text,
   tags jsonb default '[]'::jsonb,
@@ -477,6 +490,38 @@ begin
     end if;
 end $$;
 
+-- COMMENT THREADS
+create table if not exists public.comment_threads (
+  id uuid default uuid_generate_v4() primary key,
+  project_id uuid references public.projects(id) on delete cascade not null,
+  chapter_id uuid references public.chapters(id) on delete cascade not null,
+  excerpt text default '' not null,
+  is_chapter_level boolean default false not null,
+  resolved boolean default false not null,
+  messages_json jsonb default '[]'::jsonb not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+alter table public.comment_threads enable row level security;
+do $$
+begin
+    if not exists (
+        select 1 from pg_policies
+        where schemaname = 'public'
+          and tablename = 'comment_threads'
+          and policyname = 'Users can CRUD comment threads of their projects'
+    ) then
+        create policy "Users can CRUD comment threads of their projects" on public.comment_threads
+          for all using (
+            exists (
+              select 1 from public.projects
+              where projects.id = comment_threads.project_id
+              and projects.user_id = auth.uid()
+            )
+          );
+    end if;
+end $$;
+
 -- STORAGE BUCKET POLICY (Run this in SQL Editor, but buckets are usually created in UI)
 insert into storage.buckets (id, name, public)
 values ('inkline-assets', 'inkline-assets', true)